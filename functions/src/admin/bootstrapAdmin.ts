@@ -27,6 +27,7 @@
 
 import * as admin from "firebase-admin";
 import * as functions from "firebase-functions";
+import { writeAuditLog } from "../lib/audit";
 
 interface BootstrapAdminRequest {
   targetUid: string;
@@ -86,6 +87,13 @@ export const bootstrapAdmin = functions
           `[bootstrapAdmin] ✅ Usuario admin creado/actualizado: ${targetUid} (${targetEmail})`
         );
 
+        await writeAuditLog(context, {
+          action: "ROLE_CHANGE",
+          targetId: targetUid,
+          after: { role: "admin" },
+          details: { email: targetEmail, bootstrapped: true },
+        });
+
         return {
           success: true,
           message: `Usuario ${targetEmail} configurado como admin correctamente`,
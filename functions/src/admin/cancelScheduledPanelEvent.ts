@@ -0,0 +1,80 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
+import { z } from "zod";
+import { writeAuditLog } from "../lib/audit";
+import { SCHEDULED_EVENTS_COLLECTION, ScheduledPanelEvent } from "../lib/scheduledEvents";
+
+const CancelScheduledPanelEventSchema = z.object({
+  scheduledEventId: z.string().min(1, "El scheduledEventId es obligatorio"),
+});
+
+/**
+ * Callable Function: cancelScheduledPanelEvent
+ *
+ * Cancela un evento programado PENDIENTE. No se borra: queda como CANCELADO
+ * para conservar quién lo programó y quién lo anuló.
+ *
+ * @param data - { scheduledEventId }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, scheduledEventId }
+ */
+export const cancelScheduledPanelEvent = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+    const timestamp = now();
+
+    const parseResult = CancelScheduledPanelEventSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { scheduledEventId } = parseResult.data;
+    const ref = admin.firestore().collection(SCHEDULED_EVENTS_COLLECTION).doc(scheduledEventId);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      throw new functions.https.HttpsError("not-found", `Evento programado ${scheduledEventId} no encontrado`);
+    }
+
+    const scheduled = doc.data() as ScheduledPanelEvent;
+    if (scheduled.estado !== "PENDIENTE") {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `El evento programado ya está ${scheduled.estado === "APLICADO" ? "aplicado" : "cancelado"}`
+      );
+    }
+
+    await ref.update({
+      estado: "CANCELADO",
+      cancelledAt: timestamp,
+      cancelledBy: userEmail,
+      updatedAt: timestamp,
+      updatedBy: userEmail,
+    });
+
+    functions.logger.info(
+      `[cancelScheduledPanelEvent] ${scheduled.action} de ${scheduled.codigo} (${scheduled.effectiveDateLocal}) ` +
+      `cancelado por ${userEmail}`
+    );
+
+    await writeAuditLog(context, {
+      action: "SCHEDULED_EVENT_CANCEL",
+      panelId: scheduled.panelId,
+      monthKey: scheduled.monthKey,
+      targetId: scheduledEventId,
+      before: { estado: scheduled.estado },
+      after: { estado: "CANCELADO" },
+      details: { eventAction: scheduled.action, effectiveDateLocal: scheduled.effectiveDateLocal },
+    });
+
+    return { success: true, scheduledEventId };
+  });
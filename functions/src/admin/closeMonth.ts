@@ -0,0 +1,159 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
+import { z } from "zod";
+import { IssueMonthInvoicesResult, issueMonthInvoices } from "../lib/invoicing";
+import { writeAuditLog } from "../lib/audit";
+import {
+  MONTH_CLOSES_COLLECTION,
+  MonthCloseCheckId,
+  MonthCloseRecord,
+  runMonthCloseChecks,
+} from "../lib/monthClose";
+
+const CHECK_IDS: [MonthCloseCheckId, ...MonthCloseCheckId[]] = [
+  "TOTALES_RESUMEN",
+  "ACTIVOS_SIN_IMPORTE",
+  "CODIGOS_DUPLICADOS",
+  "PANELES_SIN_FACTURACION",
+  "TAREAS_FALLIDAS",
+];
+
+const CloseMonthRequest = z.object({
+  monthKey: z.string().regex(/^\d{4}-\d{2}$/, "El monthKey debe tener formato YYYY-MM"),
+  waivers: z.array(z.object({
+    checkId: z.enum(CHECK_IDS),
+    comment: z.string().trim().min(10, "El comentario de la dispensa debe tener al menos 10 caracteres").max(1000),
+  })).default([]),
+  // Huella vista en el asistente: si los datos cambiaron desde entonces no se cierra
+  expectedFingerprint: z.string().optional(),
+});
+
+/**
+ * Callable Function: closeMonth
+ *
+ * Último paso del asistente de cierre. Vuelve a ejecutar las comprobaciones
+ * (ver lib/monthClose) y solo cierra si todas pasan o las fallidas están
+ * dispensadas con un comentario. Guarda el registro del cierre en monthCloses
+ * (quién, dispensas y huella de los totales), bloquea el mes y emite las facturas.
+ *
+ * Para reabrir un mes se sigue usando toggleMonthLock.
+ *
+ * @param data - { monthKey, waivers: [{ checkId, comment }], expectedFingerprint? }
+ * @param context - Contexto de autenticación
+ * @returns { success, monthKey, isLocked, closeId, totalsFingerprint, invoicing? }
+ */
+export const closeMonth = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 300,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+    const timestamp = now();
+
+    const parseResult = CloseMonthRequest.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { monthKey, waivers, expectedFingerprint } = parseResult.data;
+    const db = admin.firestore();
+
+    const summaryRef = db.collection("billingSummary").doc(monthKey);
+    const summaryDoc = await summaryRef.get();
+    if (!summaryDoc.exists) {
+      throw new functions.https.HttpsError("not-found", `El mes ${monthKey} no existe. No se puede cerrar.`);
+    }
+    if (summaryDoc.data()?.isLocked) {
+      throw new functions.https.HttpsError("failed-precondition", `El mes ${monthKey} ya está cerrado`);
+    }
+
+    // 1. Comprobaciones (de nuevo: el asistente puede llevar un rato abierto)
+    const result = await runMonthCloseChecks(monthKey);
+
+    if (expectedFingerprint && expectedFingerprint !== result.totalsFingerprint) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "La facturación del mes ha cambiado desde la revisión. Vuelve a ejecutar las comprobaciones.",
+      );
+    }
+
+    // 2. Toda comprobación fallida necesita una dispensa; las de comprobaciones en verde se ignoran
+    const failedIds = result.checks.filter((check) => !check.ok).map((check) => check.id);
+    const waiverByCheck = new Map(waivers.map((waiver) => [waiver.checkId, waiver.comment]));
+    const notWaived = failedIds.filter((id) => !waiverByCheck.has(id));
+    if (notWaived.length > 0) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `Comprobaciones fallidas sin dispensar: ${notWaived.join(", ")}`,
+      );
+    }
+
+    // 3. Registro del cierre + bloqueo del mes en una transacción: si otro cierre
+    // ha bloqueado el mes mientras tanto, este falla y no emite facturas
+    const closeRef = db.collection(MONTH_CLOSES_COLLECTION).doc();
+    const record: MonthCloseRecord = {
+      monthKey,
+      closedAt: timestamp,
+      closedBy: userEmail,
+      checks: result.checks.map((check) => ({ id: check.id, ok: check.ok, detalle: check.detalle })),
+      waivers: failedIds.map((checkId) => ({ checkId, comment: waiverByCheck.get(checkId)! })),
+      totals: result.totals,
+      totalsFingerprint: result.totalsFingerprint,
+    };
+
+    await db.runTransaction(async (transaction) => {
+      const lockedDoc = await transaction.get(summaryRef);
+      if (lockedDoc.data()?.isLocked) {
+        throw new functions.https.HttpsError("failed-precondition", `El mes ${monthKey} ya está cerrado`);
+      }
+
+      transaction.set(closeRef, record);
+      transaction.update(summaryRef, {
+        isLocked: true,
+        lastCloseId: closeRef.id,
+        updatedAt: timestamp,
+      });
+    });
+
+    functions.logger.info(
+      `[closeMonth] Mes ${monthKey} cerrado por ${userEmail} (${MONTH_CLOSES_COLLECTION}/${closeRef.id}, ` +
+      `${record.waivers.length} dispensa(s))`,
+    );
+
+    // 4. Facturación: si falla, el mes queda cerrado y se puede reintentar con issueMonthInvoices
+    let invoicing: IssueMonthInvoicesResult | { error: string };
+    try {
+      invoicing = await issueMonthInvoices(monthKey, userEmail);
+    } catch (error) {
+      const message = (error as Error).message;
+      functions.logger.error(`[closeMonth] ❌ Error emitiendo facturas de ${monthKey}: ${message}`);
+      invoicing = { error: message };
+    }
+
+    await writeAuditLog(context, {
+      action: "MONTH_CLOSE",
+      monthKey,
+      targetId: closeRef.id,
+      before: { isLocked: false },
+      after: { isLocked: true, totals: result.totals, totalsFingerprint: result.totalsFingerprint },
+      details: {
+        waivers: record.waivers,
+        facturas: "error" in invoicing ? { error: invoicing.error } : { emitidas: invoicing.emitidas.length },
+      },
+    });
+
+    return {
+      success: true,
+      monthKey,
+      isLocked: true,
+      closeId: closeRef.id,
+      totalsFingerprint: result.totalsFingerprint,
+      invoicing,
+    };
+  });
@@ -3,6 +3,8 @@ import * as admin from "firebase-admin";
 import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
 import { z } from "zod";
 import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
+import { applyScheduledEventsForMonth } from "../lib/scheduledEvents";
+import { writeAuditLog } from "../lib/audit";
 
 const CreateNextMonthRequest = z.object({
   monthKey: z.string().regex(/^\d{4}-\d{2}$/, "El monthKey debe tener formato YYYY-MM"),
@@ -24,11 +26,14 @@ const CreateNextMonthRequest = z.object({
  *    - Calcula facturación según reglas de negocio
  * 4. Actualiza billingSummary con los totales
  * 
+ * Antes de recalcular, los eventos programados PENDIENTES del mes nuevo
+ * (scheduledPanelEvents) se convierten en panelEvents y entran en el cálculo.
+ * 
  * VENTAJA: Consistencia total con regenerateMonthBilling
  * 
  * @param data - { monthKey: "YYYY-MM" } - El mes NUEVO a crear
  * @param context - Contexto de autenticación
- * @returns { success: true, monthKey: string, panelsProcessed: number }
+ * @returns { success: true, monthKey: string, panelsProcessed: number, scheduledEventsApplied: number }
  */
 export const createNextMonth = functions
   .region("europe-west1")
@@ -97,6 +102,14 @@ export const createNextMonth = functions
 
     functions.logger.info(`[createNextMonth] billingSummary inicial creado para ${newMonthKey}`);
 
+    // 5.1 Aplicar eventos programados del mes nuevo (antes de recalcular)
+    const scheduledEventsApplied = await applyScheduledEventsForMonth(newMonthKey, userEmail);
+    if (scheduledEventsApplied > 0) {
+      functions.logger.info(
+        `[createNextMonth] ${scheduledEventsApplied} eventos programados aplicados en ${newMonthKey}`
+      );
+    }
+
     // 6. Leer TODOS los paneles de la colección 'panels' (igual que regenerateMonthBilling)
     const panelsSnapshot = await db.collection("panels").get();
     const totalPanels = panelsSnapshot.size;
@@ -247,6 +260,17 @@ export const createNextMonth = functions
       );
     }
 
+    await writeAuditLog(context, {
+      action: "MONTH_CREATE",
+      monthKey: newMonthKey,
+      after: {
+        totalImporteMes: summaryData?.totalImporteMes || 0,
+        panelesActivos: summaryData?.panelesActivos || 0,
+        billingDocumentsCreated: actualCount,
+      },
+      details: { previousMonthKey, panelsProcessed: processed, panelsFailed: failed, scheduledEventsApplied },
+    });
+
     return {
       success: true,
       monthKey: newMonthKey,
@@ -255,6 +279,7 @@ export const createNextMonth = functions
       panelsFailed: failed,
       totalPanels,
       billingDocumentsCreated: actualCount,
+      scheduledEventsApplied,
       summary: {
         totalImporteMes: summaryData?.totalImporteMes || 0,
         totalPanelesFacturables: summaryData?.totalPanelesFacturables || 0,
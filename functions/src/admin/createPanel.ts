@@ -7,8 +7,15 @@
 import * as admin from "firebase-admin";
 import * as functions from "firebase-functions";
 import { calculateBillableDays, calculateImporte, getDayOfMonth } from "../lib/billingRules";
-import { getStandardRateForYear } from "../lib/rateService";
+import { RateSource, resolveRateForPanelMonth } from "../lib/contracts";
 import { recalculateSummary } from "../lib/summaryCalculations";
+import {
+  calculateProratedImporte,
+  getBillingDaysInMonth,
+  getProrationModeForYear,
+} from "../lib/prorationMode";
+import { buildBillingRevision } from "../lib/billingRevisions";
+import { writeAuditLog } from "../lib/audit";
 
 interface CreatePanelRequest {
   codigo: string;
@@ -161,9 +168,18 @@ export const createPanel = functions
           );
         }
 
+        // Tarifa del contrato vigente (por código o municipio) o tarifa estándar del año
         let standardRate: number;
+        let contratoId: string | null;
+        let origenTarifa: RateSource;
         try {
-          standardRate = await getStandardRateForYear(year);
+          const resolvedRate = await resolveRateForPanelMonth(
+            { codigo: codigoClean, municipioId: municipioClean },
+            monthKey
+          );
+          standardRate = resolvedRate.importe;
+          origenTarifa = resolvedRate.source;
+          contratoId = resolvedRate.source === "CONTRATO" ? resolvedRate.contractId : null;
         } catch (err: any) {
           functions.logger.error(
             `[createPanel] ❌ No se encontró tarifa para el año ${year}: ${err.message}`
@@ -179,8 +195,15 @@ export const createPanel = functions
         );
 
         // 6. Cálculo de prorrateo (ALTA_INICIAL) con precisión contable
-        const diasFacturables = calculateBillableDays("ALTA_INICIAL", dayOfMonth);
-        const importe = calculateImporte(diasFacturables, standardRate);
+        // En modo NATURAL el alta factura hasta el último día real del mes
+        const modoProrrateo = await getProrationModeForYear(year);
+        const diasMes = getBillingDaysInMonth(monthKey, modoProrrateo);
+        const diasFacturables = modoProrrateo === "COMERCIAL_30" ?
+          calculateBillableDays("ALTA_INICIAL", dayOfMonth) :
+          Math.max(0, diasMes - dayOfMonth + 1);
+        const importe = modoProrrateo === "COMERCIAL_30" ?
+          calculateImporte(diasFacturables, standardRate) :
+          calculateProratedImporte(diasFacturables, standardRate, diasMes);
 
         functions.logger.info(
           `[createPanel] Días facturables: ${diasFacturables}, Importe: ${importe.toFixed(2)}€ (calculado con precisión en céntimos)`
@@ -245,17 +268,47 @@ export const createPanel = functions
         batch.set(billingRef, {
           panelId,
           codigo: codigoClean,
+          municipioId: municipioClean,
           municipio: municipioClean,
           monthKey,
           totalDiasFacturables: diasFacturables,
           totalImporte: importe,
           tarifaAplicada: standardRate,
+          contratoId,
+          origenTarifa,
           estadoAlCierre: "ACTIVO",
+          modoProrrateo,
+          diasMes,
           createdAt: now,
           updatedAt: now,
           updatedBy: `createPanel:${userEmail}`,
         });
 
+        // 7.5. Revisión inmutable de la facturación inicial
+        const revision = buildBillingRevision({
+          panelId,
+          monthKey,
+          codigo: codigoClean,
+          municipio: municipioClean,
+          source: "createPanel",
+          createdBy: userEmail,
+          inputs: {
+            eventIds: [eventId],
+            previousMonthKey: null,
+            estadoInicial: null,
+            tarifaInicial: standardRate,
+            modoProrrateo,
+            diasMes,
+          },
+          outputs: {
+            totalDiasFacturables: diasFacturables,
+            totalImporte: importe,
+            estadoAlCierre: "ACTIVO",
+            tarifaAplicada: standardRate,
+          },
+        });
+        batch.set(revision.ref, revision.data);
+
         // Commit batch (TRANSACCIÓN ATÓMICA)
         functions.logger.info("[createPanel] Ejecutando batch.commit()...");
         await batch.commit();
@@ -264,6 +317,21 @@ export const createPanel = functions
           `[createPanel] ✅ Panel creado exitosamente: ${panelId} (${codigoClean})`
         );
 
+        await writeAuditLog(context, {
+          action: "PANEL_CREATE",
+          panelId,
+          monthKey,
+          targetId: eventId,
+          after: {
+            codigo: codigoClean,
+            municipioId: municipioClean,
+            fechaAlta,
+            tarifaActual: standardRate,
+            diasFacturables,
+            importe,
+          },
+        });
+
         // 8. Post-proceso: Actualizar summary del mes
         try {
           await recalculateSummary(monthKey);
@@ -0,0 +1,71 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail } from "../lib/utils";
+import { z } from "zod";
+import { CONTRACTS_COLLECTION, Contract } from "../lib/contracts";
+import { recalculateOpenMonthsForScope } from "./saveContract";
+import { writeAuditLog } from "../lib/audit";
+
+const DeleteContractSchema = z.object({
+  contractId: z.string().min(1, "El contractId es obligatorio"),
+});
+
+/**
+ * Callable Function: deleteContract
+ *
+ * Elimina un contrato. Sus paneles vuelven a la tarifa estándar del año en los
+ * meses abiertos (los meses cerrados conservan lo facturado).
+ *
+ * @param data - { contractId }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, panelsRecalculated, monthsAffected }
+ */
+export const deleteContract = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 540,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+
+    const parseResult = DeleteContractSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => e.message).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { contractId } = parseResult.data;
+    const ref = admin.firestore().collection(CONTRACTS_COLLECTION).doc(contractId);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      throw new functions.https.HttpsError("not-found", `Contrato ${contractId} no encontrado`);
+    }
+
+    const contract = doc.data() as Contract;
+    await ref.delete();
+
+    functions.logger.info(`[deleteContract] Contrato ${contract.codigo} (${contractId}) eliminado por ${userEmail}`);
+
+    const recalc = await recalculateOpenMonthsForScope({
+      municipioIds: contract.municipioIds,
+      panelCodigos: contract.panelCodigos,
+      contracts: [contract],
+    });
+
+    await writeAuditLog(context, {
+      action: "CONTRACT_DELETE",
+      targetId: contractId,
+      before: contract,
+      after: null,
+      details: recalc,
+    });
+
+    return {
+      success: true,
+      ...recalc,
+    };
+  });
@@ -1,12 +1,48 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
 import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
+import { buildBillingDeletionRevision } from "../lib/billingRevisions";
+import {
+  ApprovalImpact,
+  ApprovalPayloads,
+  createApprovalRequest,
+  isApprovedExecution,
+  monthDataImpact,
+} from "../lib/approvals";
 import { z } from "zod";
 
 const DeleteMonthRequest = z.object({
   monthKey: z.string().regex(/^\d{4}-\d{2}$/, "El monthKey debe tener formato YYYY-MM"),
+  motivo: z.string().max(500).optional(),
 });
 
+/**
+ * Impacto de eliminar el mes (el mes debe existir y estar abierto)
+ * @param payload - { monthKey }
+ */
+export async function deleteMonthImpact(
+  payload: ApprovalPayloads["DELETE_MONTH"],
+): Promise<ApprovalImpact> {
+  const { monthKey } = payload;
+  const db = admin.firestore();
+
+  const summaryDoc = await db.collection("billingSummary").doc(monthKey).get();
+  if (!summaryDoc.exists) {
+    throw new functions.https.HttpsError("not-found", `El mes ${monthKey} no existe.`);
+  }
+  if (summaryDoc.data()?.isLocked) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      `El mes ${monthKey} está cerrado. Ábrelo primero antes de eliminarlo.`
+    );
+  }
+
+  return {
+    ...(await monthDataImpact(monthKey)),
+    descripcion: `Eliminar mes ${monthKey}`,
+  };
+}
+
 /**
  * Callable Function: deleteMonth
  * 
@@ -16,10 +52,13 @@ const DeleteMonthRequest = z.object({
  * - Todos los panelEvents del mes
  * 
  * ⚠️ OPERACIÓN DESTRUCTIVA - No se puede deshacer
+ * Sin aprobación crea la solicitud; se ejecuta cuando otro admin la aprueba
+ * (ver lib/approvals).
  * 
- * @param data - { monthKey: "YYYY-MM" }
+ * @param data - { monthKey: "YYYY-MM", motivo? }
  * @param context - Contexto de autenticación
- * @returns { success: true, monthKey: string, deleted: { panels, events, summary } }
+ * @returns { success: true, monthKey: string, deleted: { panels, events, summary } };
+ *   sin aprobación, la solicitud creada
  */
 export const deleteMonth = functions
   .region("europe-west1")
@@ -41,7 +80,14 @@ export const deleteMonth = functions
       throw new functions.https.HttpsError("invalid-argument", errors);
     }
 
-    const { monthKey } = parseResult.data;
+    const { monthKey, motivo } = parseResult.data;
+
+    // Sin la aprobación de otro admin solo se crea la solicitud
+    if (!isApprovedExecution(context)) {
+      return createApprovalRequest(
+        "DELETE_MONTH", { monthKey }, await deleteMonthImpact({ monthKey }), context, motivo
+      );
+    }
 
     functions.logger.info(`[deleteMonth] Eliminando mes ${monthKey} por ${userEmail}`);
 
@@ -84,8 +130,11 @@ export const deleteMonth = functions
 
     for (const doc of billingSnapshot.docs) {
       batch.delete(doc.ref);
+      // Tombstone en el historial: la fila deja de existir a partir de ahora
+      const revision = buildBillingDeletionRevision(doc.id, doc.data(), "deleteMonth", userEmail);
+      batch.set(revision.ref, revision.data);
       deletedPanels++;
-      opsInBatch++;
+      opsInBatch += 2;
 
       if (opsInBatch >= BATCH_SIZE) {
         await batch.commit();
@@ -14,17 +14,74 @@
  * - Solo admins pueden ejecutar
  * - No permite eliminar si hay meses bloqueados (isLocked: true)
  * - Requiere confirmación explícita con el código del panel
+ * - Requiere la aprobación de un segundo admin (ver lib/approvals): la callable
+ *   crea la solicitud y se vuelve a ejecutar cuando otro admin la aprueba
  */
 
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
 import { recalculateSummary } from "../lib/summaryCalculations";
+import { buildBillingDeletionRevision } from "../lib/billingRevisions";
+import { eurosToCents, centsToEuros } from "../lib/moneyUtils";
+import { ApprovalImpact, ApprovalPayloads, createApprovalRequest, isApprovedExecution } from "../lib/approvals";
 
 const db = admin.firestore();
 
 interface DeletePanelRequest {
   panelId: string;
   confirmCode: string; // Usuario debe escribir el código del panel para confirmar
+  motivo?: string;
+}
+
+/**
+ * Impacto de eliminar el panel (y validación previa: panel, código y meses abiertos)
+ * @param payload - { panelId, confirmCode }
+ */
+export async function deletePanelImpact(
+  payload: ApprovalPayloads["DELETE_PANEL"],
+): Promise<ApprovalImpact> {
+  const { panelId, confirmCode } = payload;
+  const panelRef = db.collection("panels").doc(panelId);
+  const panelDoc = await panelRef.get();
+
+  if (!panelDoc.exists) {
+    throw new functions.https.HttpsError("not-found", `Panel ${panelId} no encontrado`);
+  }
+
+  const codigo = panelDoc.data()!.codigo;
+  if (confirmCode !== codigo) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      `Código de confirmación incorrecto. Debes escribir "${codigo}" para confirmar`
+    );
+  }
+
+  const [billingSnapshot, eventsSnapshot] = await Promise.all([
+    db.collection("billingMonthlyPanel").where("panelId", "==", panelId).get(),
+    panelRef.collection("panelEvents").get(),
+  ]);
+
+  const meses = Array.from(new Set(billingSnapshot.docs.map((doc) => doc.data().monthKey as string))).sort();
+  for (const monthKey of meses) {
+    const summaryDoc = await db.collection("billingSummary").doc(monthKey).get();
+    if (summaryDoc.exists && summaryDoc.data()!.isLocked === true) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `No se puede eliminar: el mes ${monthKey} está bloqueado. Desbloquea el mes primero.`
+      );
+    }
+  }
+
+  return {
+    descripcion: `Eliminar panel ${codigo}`,
+    meses,
+    eventos: eventsSnapshot.size,
+    filasFacturacion: billingSnapshot.size,
+    paneles: 1,
+    importeEliminado: centsToEuros(
+      billingSnapshot.docs.reduce((sum, doc) => sum + eurosToCents(doc.data().totalImporte || 0), 0)
+    ),
+  };
 }
 
 export const deletePanel = functions
@@ -63,6 +120,12 @@ export const deletePanel = functions
       );
     }
 
+    // Sin la aprobación de otro admin solo se crea la solicitud
+    if (!isApprovedExecution(context)) {
+      const payload = { panelId, confirmCode };
+      return createApprovalRequest("DELETE_PANEL", payload, await deletePanelImpact(payload), context, data.motivo);
+    }
+
     functions.logger.info(
       `[deletePanel] Inicio de eliminación: ${panelId} por ${userEmail}`
     );
@@ -134,9 +197,16 @@ export const deletePanel = functions
       `[deletePanel] ✓ Marcado para eliminar: panelCodes/${codigoPanelReal}`
     );
 
+    // Alias de los códigos anteriores (changePanelCode)
+    for (const codigoAnterior of (panelData.codigosAnteriores || []) as string[]) {
+      batch.delete(db.collection("panelCodes").doc(codigoAnterior));
+    }
+
     // 5.3. Eliminar todos los documentos en billingMonthlyPanel
     for (const doc of billingSnapshot.docs) {
       batch.delete(doc.ref);
+      const revision = buildBillingDeletionRevision(doc.id, doc.data(), "deletePanel", userEmail);
+      batch.set(revision.ref, revision.data);
       functions.logger.info(
         `[deletePanel] ✓ Marcado para eliminar: billingMonthlyPanel/${doc.id}`
       );
@@ -178,22 +248,6 @@ export const deletePanel = functions
       }
     }
 
-    // 7. Log de auditoría
-    const auditLog = {
-      action: "DELETE_PANEL",
-      panelId,
-      codigo: codigoPanelReal,
-      municipio: panelData.municipioId || panelData.municipio || "unknown",
-      deletedBy: userEmail,
-      deletedAt: admin.firestore.Timestamp.now(),
-      affectedMonths: Array.from(affectedMonths),
-      eventsDeleted: eventsSnapshot.size,
-      billingDocsDeleted: billingSnapshot.size,
-    };
-
-    await db.collection("auditLogs").add(auditLog);
-    functions.logger.info(`[deletePanel] ✓ Audit log registrado`);
-
     functions.logger.info(
       `[deletePanel] ✅ Panel ${panelId} eliminado completamente por ${userEmail}`
     );
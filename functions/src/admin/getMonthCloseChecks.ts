@@ -0,0 +1,54 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertHasRole } from "../lib/roles";
+import { z } from "zod";
+import { runMonthCloseChecks } from "../lib/monthClose";
+
+const GetMonthCloseChecksRequest = z.object({
+  monthKey: z.string().regex(/^\d{4}-\d{2}$/, "El monthKey debe tener formato YYYY-MM"),
+});
+
+/**
+ * Callable Function: getMonthCloseChecks
+ *
+ * Primer paso del asistente de cierre: ejecuta las comprobaciones del mes
+ * (ver lib/monthClose) sin modificar nada.
+ *
+ * @param data - { monthKey: "YYYY-MM" }
+ * @param context - Contexto de autenticación
+ * @returns { monthKey, checks, totals, totalsFingerprint, canClose }
+ */
+export const getMonthCloseChecks = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 300,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertHasRole(context, ["admin", "auditor"]);
+
+    const parseResult = GetMonthCloseChecksRequest.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { monthKey } = parseResult.data;
+
+    const summaryDoc = await admin.firestore().collection("billingSummary").doc(monthKey).get();
+    if (!summaryDoc.exists) {
+      throw new functions.https.HttpsError("not-found", `El mes ${monthKey} no existe`);
+    }
+    if (summaryDoc.data()?.isLocked) {
+      throw new functions.https.HttpsError("failed-precondition", `El mes ${monthKey} ya está cerrado`);
+    }
+
+    const result = await runMonthCloseChecks(monthKey);
+
+    functions.logger.info(
+      `[getMonthCloseChecks] ${monthKey}: ${result.checks.filter((check) => !check.ok).length} comprobación(es) ` +
+      `fallida(s), huella ${result.totalsFingerprint.substring(0, 12)}`,
+    );
+
+    return result;
+  });
@@ -3,6 +3,10 @@ import * as admin from "firebase-admin";
 import { assertIsAdmin, getUserEmail, now, dateToTimestamp, getMonthKey } from "../lib/utils";
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
+import { getBillingDaysInMonth, getProrationModeForYear } from "../lib/prorationMode";
+import { buildBillingRevision } from "../lib/billingRevisions";
+import { writeAuditLog } from "../lib/audit";
+import { SummaryRow, computeSummaryTotals } from "../lib/summaryTotals";
 
 // Schema de validación para cada panel en el CSV
 const PanelDataSchema = z.object({
@@ -26,16 +30,17 @@ const ImportBaseMonthRequest = z.object({
 type PanelData = z.infer<typeof PanelDataSchema>;
 type ImportBaseMonthRequestData = z.infer<typeof ImportBaseMonthRequest>;
 
-const BATCH_SIZE = 120; // Lotes de 120 paneles (4 documentos por panel = 480 operaciones)
+const BATCH_SIZE = 100; // Lotes de 100 paneles (5 documentos por panel = 500 operaciones)
 
 /**
  * Callable Function: importBaseMonth
  * 
- * Importa masivamente paneles desde un CSV, creando 4 documentos por panel:
+ * Importa masivamente paneles desde un CSV, creando 5 documentos por panel:
  * - panels/{panelId}
  * - panelCodes/{codigo}
  * - panelEvents/{eventId} (ALTA_INICIAL)
  * - billingMonthlyPanel/{panelId}_{YYYYMM}
+ * - billingRevisions/{revisionId} (historial inmutable)
  * 
  * Al final, calcula los totales y crea billingSummary/{YYYYMM}
  * 
@@ -44,7 +49,7 @@ const BATCH_SIZE = 120; // Lotes de 120 paneles (4 documentos por panel = 480 op
  * @returns { success: true, panelsCreated: number, monthKey: string }
  * 
  * Timeout: 9 minutos
- * Batched Writes: 120 paneles por lote
+ * Batched Writes: 100 paneles por lote
  */
 export const importBaseMonth = functions
   .region("europe-west1")
@@ -74,14 +79,15 @@ export const importBaseMonth = functions
 
     const db = admin.firestore();
 
-    // 3. Variables para acumular totales
-    let totalImporteMes = 0;
-    let totalPanelesFacturables = 0;
-    let panelesActivos = 0; // días >= 30
-    let panelesParciales = 0; // días > 0 y < 30
+    // Modo de prorrateo del año (solo se registra en el historial; los días vienen del CSV)
+    const modoProrrateo = await getProrationModeForYear(monthKey.split("-")[0]);
+    const diasMes = getBillingDaysInMonth(monthKey, modoProrrateo);
+
+    // 3. Filas importadas (para los totales del resumen) y eventos creados
+    const summaryRows: SummaryRow[] = [];
     let totalEventos = 0;
 
-    // 4. Procesar en lotes de 120 paneles
+    // 4. Procesar en lotes de 100 paneles
     const batches = Math.ceil(panels.length / BATCH_SIZE);
 
     for (let i = 0; i < batches; i++) {
@@ -156,6 +162,7 @@ export const importBaseMonth = functions
           panelId,
           monthKey,
           codigo: panel.codigo,
+          municipioId: panel.municipioId,
           municipio: panel.municipioNombre,
           totalDiasFacturables: panel.diasFacturables,
           totalImporte: panel.importeAFacturar,
@@ -165,19 +172,38 @@ export const importBaseMonth = functions
           schemaVersion: 1,
         });
 
+        // --- 5. Revisión inmutable en billingRevisions ---
+        const revision = buildBillingRevision({
+          panelId,
+          monthKey,
+          codigo: panel.codigo,
+          municipio: panel.municipioNombre,
+          source: "importBaseMonth",
+          createdBy: userEmail,
+          inputs: {
+            eventIds: [eventId],
+            previousMonthKey: null,
+            estadoInicial: null,
+            tarifaInicial: panel.tarifaBaseMes,
+            modoProrrateo,
+            diasMes,
+          },
+          outputs: {
+            totalDiasFacturables: panel.diasFacturables,
+            totalImporte: panel.importeAFacturar,
+            estadoAlCierre: "ACTIVO",
+            tarifaAplicada: panel.tarifaBaseMes,
+          },
+        });
+        batch.set(revision.ref, revision.data);
+
         // Acumular totales
-        totalImporteMes += panel.importeAFacturar;
+        summaryRows.push({
+          totalDiasFacturables: panel.diasFacturables,
+          totalImporte: panel.importeAFacturar,
+          diasMes,
+        });
         totalEventos++;
-
-        if (panel.diasFacturables > 0) {
-          totalPanelesFacturables++;
-        }
-
-        if (panel.diasFacturables >= 30) {
-          panelesActivos++;
-        } else if (panel.diasFacturables > 0) {
-          panelesParciales++;
-        }
       }
 
       // Commit del lote
@@ -188,6 +214,10 @@ export const importBaseMonth = functions
     // 5. Crear el documento billingSummary/{YYYYMM}
     functions.logger.info(`Creando billingSummary/${monthKey} con los totales`);
 
+    // Mismo criterio que el resto de escritores de billingSummary (lib/summaryTotals)
+    const { totalImporteMes, totalPanelesFacturables, panelesActivos, panelesParciales } =
+      computeSummaryTotals(summaryRows, diasMes);
+
     await db.collection("billingSummary").doc(monthKey).set({
       monthKey,
       totalImporteMes,
@@ -204,6 +234,13 @@ export const importBaseMonth = functions
       `Importación completada: ${panels.length} paneles, ${totalImporteMes.toFixed(2)}€`
     );
 
+    await writeAuditLog(context, {
+      action: "MONTH_IMPORT_BASE",
+      monthKey,
+      after: { totalImporteMes, totalPanelesFacturables, panelesActivos, panelesParciales },
+      details: { panelsCreated: panels.length },
+    });
+
     return {
       success: true,
       panelsCreated: panels.length,
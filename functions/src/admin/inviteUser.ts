@@ -0,0 +1,71 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { z } from "zod";
+import { assertIsAdmin, getUserEmail } from "../lib/utils";
+import { USER_ROLES } from "../lib/roles";
+import { applyUserRole, toUserSummary } from "../lib/users";
+import { writeAuditLog } from "../lib/audit";
+
+const InviteUserSchema = z.object({
+  email: z.string().email("Email inválido"),
+  role: z.enum(USER_ROLES),
+  municipioIds: z.array(z.string().min(1)).optional(),
+}).refine(
+  (data) => data.role !== "visor" || (data.municipioIds?.length ?? 0) > 0,
+  { message: "El rol 'visor' necesita al menos un municipio asignado", path: ["municipioIds"] },
+);
+
+/**
+ * Callable Function: inviteUser
+ *
+ * Crea la cuenta en Firebase Auth con el rol indicado y devuelve un enlace para
+ * que el invitado establezca su contraseña (se le envía por el canal habitual).
+ *
+ * @param data - { email, role, municipioIds? }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, user, inviteLink }
+ */
+export const inviteUser = functions
+  .region("europe-west1")
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+
+    const parseResult = InviteUserSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const email = parseResult.data.email.trim().toLowerCase();
+    const { role } = parseResult.data;
+    const municipioIds = role === "visor" ? [...new Set(parseResult.data.municipioIds)] : [];
+
+    let user: admin.auth.UserRecord;
+    try {
+      user = await admin.auth().createUser({ email, emailVerified: false, disabled: false });
+    } catch (error: any) {
+      if (error.code === "auth/email-already-exists") {
+        throw new functions.https.HttpsError("already-exists", `Ya existe un usuario con el email ${email}`);
+      }
+      throw new functions.https.HttpsError("internal", `No se pudo crear el usuario: ${error.message}`);
+    }
+
+    const claims = await applyUserRole(user, role, municipioIds, userEmail);
+    const inviteLink = await admin.auth().generatePasswordResetLink(email);
+
+    functions.logger.info(`[inviteUser] ${email} invitado como ${role} por ${userEmail}`);
+
+    await writeAuditLog(context, {
+      action: "USER_INVITE",
+      targetId: user.uid,
+      after: { email, ...claims },
+    });
+
+    return {
+      success: true,
+      user: toUserSummary(await admin.auth().getUser(user.uid)),
+      inviteLink,
+    };
+  });
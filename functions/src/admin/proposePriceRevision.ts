@@ -0,0 +1,108 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail } from "../lib/utils";
+import { z } from "zod";
+import { writeAuditLog } from "../lib/audit";
+import {
+  IndexSource,
+  PRICE_REVISIONS_COLLECTION,
+  buildPriceRevision,
+  computeIndexVariation,
+  parseIndexCsv,
+} from "../lib/priceRevision";
+
+const periodSchema = z.string().regex(/^\d{4}-\d{2}$/, "Formato de periodo inválido (YYYY-MM)");
+
+// O bien la variación publicada, o bien un CSV con valores del índice y los dos periodos a comparar
+const ProposePriceRevisionSchema = z.object({
+  targetYear: z.string().regex(/^\d{4}$/, "El año debe tener formato YYYY"),
+  variacionIndice: z.number().min(-50).max(50).optional(),
+  indexCsv: z.string().max(200000, "El CSV es demasiado grande").optional(),
+  periodoDesde: periodSchema.optional(),
+  periodoHasta: periodSchema.optional(),
+}).refine((d) => d.variacionIndice !== undefined || (d.indexCsv && d.periodoDesde && d.periodoHasta), {
+  message: "Indica la variación del índice o un CSV con los periodos desde/hasta",
+});
+
+/**
+ * Callable Function: proposePriceRevision
+ *
+ * Calcula y guarda una propuesta de revisión anual de precios (IPC):
+ * tarifa estándar + contratos con cláusula de revisión, con la fórmula usada y el
+ * impacto estimado sobre el último mes facturado. No modifica ninguna tarifa:
+ * se aplica con resolvePriceRevision tras la aprobación.
+ *
+ * @param data - { targetYear, variacionIndice? | indexCsv + periodoDesde + periodoHasta }
+ * @param context - Contexto de autenticación
+ * @returns Propuesta con su ID
+ */
+export const proposePriceRevision = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 120,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+
+    const parseResult = ProposePriceRevisionSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { targetYear, indexCsv, periodoDesde, periodoHasta } = parseResult.data;
+
+    let variacionIndice: number;
+    let fuenteIndice: IndexSource;
+
+    if (parseResult.data.variacionIndice !== undefined) {
+      variacionIndice = Math.round(parseResult.data.variacionIndice * 100) / 100;
+      fuenteIndice = { tipo: "MANUAL", periodoDesde: null, periodoHasta: null, valorDesde: null, valorHasta: null };
+    } else {
+      const values = parseIndexCsv(indexCsv!);
+      const valorDesde = values.get(periodoDesde!);
+      const valorHasta = values.get(periodoHasta!);
+
+      if (valorDesde === undefined || valorHasta === undefined) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          `El CSV no contiene valores para ${valorDesde === undefined ? periodoDesde : periodoHasta} ` +
+          `(${values.size} periodos leídos)`
+        );
+      }
+
+      variacionIndice = computeIndexVariation(valorDesde, valorHasta);
+      fuenteIndice = { tipo: "CSV", periodoDesde: periodoDesde!, periodoHasta: periodoHasta!, valorDesde, valorHasta };
+    }
+
+    const revision = await buildPriceRevision(targetYear, variacionIndice, fuenteIndice, userEmail);
+
+    if (revision.items.length === 0) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `No hay tarifas que revisar para ${targetYear}: ${revision.omitidos.join("; ")}`
+      );
+    }
+
+    const ref = await admin.firestore().collection(PRICE_REVISIONS_COLLECTION).add(revision);
+
+    functions.logger.info(
+      `[proposePriceRevision] Propuesta ${ref.id} para ${targetYear} (${variacionIndice}%) por ${userEmail}: ` +
+      `${revision.items.length} tarifas, impacto anual ${revision.totales.diferenciaAnual}€`
+    );
+
+    await writeAuditLog(context, {
+      action: "PRICE_REVISION_PROPOSE",
+      targetId: ref.id,
+      after: { targetYear, variacionIndice, items: revision.items.length, totales: revision.totales },
+    });
+
+    return {
+      id: ref.id,
+      ...revision,
+      createdAt: revision.createdAt.toDate().toISOString(),
+    };
+  });
@@ -0,0 +1,208 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, assertIsEditorOrAdmin, getUserEmail } from "../lib/utils";
+import { z } from "zod";
+import {
+  APPROVAL_REQUESTS_COLLECTION,
+  ApprovalOperation,
+  ApprovalPayloads,
+  ApprovalRequest,
+  approvedContext,
+  historyEntry,
+} from "../lib/approvals";
+import { AuditAction, writeAuditLog } from "../lib/audit";
+import { deletePanel } from "./deletePanel";
+import { deleteMonth } from "./deleteMonth";
+import { deleteMonthData } from "../commands/deleteMonthData";
+import { deleteAllPanelEvents } from "../commands/deleteAllPanelEvents";
+import { cleanupDuplicatePanels } from "../commands/cleanupDuplicatePanels";
+import { runMergePanels } from "../commands/mergePanels";
+
+const ResolveApprovalRequestSchema = z.object({
+  requestId: z.string().min(1, "El requestId es obligatorio"),
+  decision: z.enum(["APROBAR", "RECHAZAR", "CANCELAR"]),
+  comentario: z.string().max(1000).optional(),
+});
+
+type OperationRunners = {
+  [O in ApprovalOperation]: (
+    payload: ApprovalPayloads[O],
+    context: functions.https.CallableContext,
+  ) => Promise<unknown>;
+};
+
+/** Acción de auditoría de cada operación ejecutada */
+const OPERATION_AUDIT_ACTIONS: Record<ApprovalOperation, AuditAction> = {
+  DELETE_PANEL: "PANEL_DELETE",
+  DELETE_MONTH: "MONTH_DELETE",
+  DELETE_MONTH_DATA: "MONTH_DATA_DELETE",
+  DELETE_ALL_PANEL_EVENTS: "PANEL_EVENTS_DELETE_ALL",
+  CLEANUP_DUPLICATE_PANELS: "DUPLICATE_PANELS_CLEANUP",
+  MERGE_PANELS: "PANEL_MERGE",
+};
+
+/**
+ * Ejecución de cada operación una vez aprobada: la callable original con el
+ * contexto del admin que aprueba (ver approvedContext)
+ */
+const OPERATION_RUNNERS: OperationRunners = {
+  DELETE_PANEL: async (payload, context) => deletePanel.run(payload, context),
+  DELETE_MONTH: async (payload, context) => deleteMonth.run(payload, context),
+  DELETE_MONTH_DATA: async (payload, context) => deleteMonthData.run(payload, context),
+  DELETE_ALL_PANEL_EVENTS: async (payload, context) => deleteAllPanelEvents.run(payload, context),
+  CLEANUP_DUPLICATE_PANELS: async (payload, context) => cleanupDuplicatePanels.run({ dryRun: false }, context),
+  MERGE_PANELS: (payload, context) => runMergePanels(payload, getUserEmail(context)),
+};
+
+/**
+ * Callable Function: resolveApprovalRequest
+ *
+ * Resuelve una solicitud de aprobación de una operación destructiva:
+ * - APROBAR: solo un admin distinto del solicitante. Ejecuta la operación y
+ *   guarda su resultado (EJECUTADA) o el error (FALLIDA)
+ * - RECHAZAR: solo un admin distinto del solicitante
+ * - CANCELAR: solo el propio solicitante
+ * Las solicitudes vencidas pasan a CADUCADA y ya no se pueden aprobar.
+ *
+ * @param data - { requestId, decision: "APROBAR" | "RECHAZAR" | "CANCELAR", comentario? }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, estado, resultado? }
+ */
+export const resolveApprovalRequest = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 540, // La operación aprobada se ejecuta en esta llamada
+    memory: "1GB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsEditorOrAdmin(context);
+
+    const userEmail = getUserEmail(context);
+
+    const parseResult = ResolveApprovalRequestSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { requestId, decision, comentario } = parseResult.data;
+    if (decision !== "CANCELAR") {
+      await assertIsAdmin(context);
+    }
+
+    const estadoResuelto = decision === "APROBAR" ? "APROBADA" : decision === "RECHAZAR" ? "RECHAZADA" : "CANCELADA";
+
+    const db = admin.firestore();
+    const requestRef = db.collection(APPROVAL_REQUESTS_COLLECTION).doc(requestId);
+
+    // 1. Cambio de estado en transacción: evita que dos admins la aprueben a la vez
+    const { request, expired } = await db.runTransaction(async (transaction) => {
+      const requestDoc = await transaction.get(requestRef);
+      if (!requestDoc.exists) {
+        throw new functions.https.HttpsError("not-found", `Solicitud ${requestId} no encontrada`);
+      }
+
+      const current = requestDoc.data() as ApprovalRequest;
+      if (current.estado !== "PENDIENTE") {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          `La solicitud ya está ${current.estado.toLowerCase()}`,
+        );
+      }
+
+      if (current.expiresAt.toMillis() <= Date.now()) {
+        transaction.update(requestRef, {
+          estado: "CADUCADA",
+          historial: admin.firestore.FieldValue.arrayUnion(historyEntry("CADUCADA", "sistema")),
+        });
+        return { request: current, expired: true };
+      }
+
+      const isRequester = current.requestedByUid === context.auth?.uid;
+      if (decision === "CANCELAR" && !isRequester) {
+        throw new functions.https.HttpsError("permission-denied", "Solo el solicitante puede cancelar la solicitud");
+      }
+      if (decision !== "CANCELAR" && isRequester) {
+        throw new functions.https.HttpsError(
+          "permission-denied",
+          "La solicitud debe resolverla un administrador distinto del solicitante",
+        );
+      }
+
+      transaction.update(requestRef, {
+        estado: estadoResuelto,
+        resolvedBy: userEmail,
+        resolvedAt: admin.firestore.Timestamp.now(),
+        historial: admin.firestore.FieldValue.arrayUnion(historyEntry(estadoResuelto, userEmail, comentario)),
+      });
+      return { request: current, expired: false };
+    });
+
+    if (expired) {
+      throw new functions.https.HttpsError("failed-precondition", `La solicitud ${requestId} ha caducado`);
+    }
+
+    const target = request.payload as Partial<{ panelId: string; monthKey: string }>;
+    const auditTarget = { panelId: target.panelId ?? null, monthKey: target.monthKey ?? null };
+    await writeAuditLog(context, {
+      action: "APPROVAL_RESOLVE",
+      ...auditTarget,
+      targetId: requestId,
+      before: { estado: "PENDIENTE" },
+      after: { estado: estadoResuelto },
+      details: { operation: request.operation, requestedBy: request.requestedBy, comentario: comentario ?? null },
+    });
+
+    if (decision !== "APROBAR") {
+      functions.logger.info(`[resolveApprovalRequest] ${request.operation} ${requestId} ${decision} por ${userEmail}`);
+      return { success: true, estado: estadoResuelto };
+    }
+
+    // 2. Ejecutar la operación aprobada
+    functions.logger.info(
+      `[resolveApprovalRequest] ${request.operation} ${requestId} aprobada por ${userEmail} ` +
+      `(solicitada por ${request.requestedBy}): ${request.impacto.descripcion}`,
+    );
+
+    const runner = OPERATION_RUNNERS[request.operation] as (
+      payload: unknown,
+      context: functions.https.CallableContext,
+    ) => Promise<unknown>;
+    try {
+      const resultado = await runner(request.payload, approvedContext(context));
+      // Sin undefined para poder guardarlo en Firestore
+      const stored = JSON.parse(JSON.stringify(resultado ?? null));
+      await requestRef.update({
+        estado: "EJECUTADA",
+        resultado: stored,
+        historial: admin.firestore.FieldValue.arrayUnion(historyEntry("EJECUTADA", userEmail)),
+      });
+      await writeAuditLog(context, {
+        action: OPERATION_AUDIT_ACTIONS[request.operation],
+        ...auditTarget,
+        targetId: requestId,
+        before: request.impacto,
+        after: stored,
+        details: { approvalRequestId: requestId, requestedBy: request.requestedBy, approvedBy: userEmail },
+      });
+      return { success: true, estado: "EJECUTADA", resultado: stored };
+    } catch (error) {
+      const message = (error as Error).message;
+      functions.logger.error(`[resolveApprovalRequest] ❌ ${request.operation} ${requestId} falló: ${message}`);
+      await requestRef.update({
+        estado: "FALLIDA",
+        error: message,
+        historial: admin.firestore.FieldValue.arrayUnion(historyEntry("FALLIDA", userEmail, message)),
+      });
+      await writeAuditLog(context, {
+        action: "APPROVAL_RESOLVE",
+        ...auditTarget,
+        targetId: requestId,
+        before: { estado: "APROBADA" },
+        after: { estado: "FALLIDA" },
+        details: { operation: request.operation, error: message },
+      });
+      if (error instanceof functions.https.HttpsError) throw error;
+      throw new functions.https.HttpsError("internal", `La operación aprobada falló: ${message}`);
+    }
+  });
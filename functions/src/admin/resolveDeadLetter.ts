@@ -0,0 +1,118 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
+import { z } from "zod";
+import { DEAD_LETTERS_COLLECTION, DeadLetter, enqueueTask, parseTaskPayload } from "../lib/taskQueue";
+import { writeAuditLog } from "../lib/audit";
+
+const ResolveDeadLetterSchema = z.object({
+  deadLetterId: z.string().min(1, "El deadLetterId es obligatorio"),
+  decision: z.enum(["REENVIAR", "DESCARTAR"]),
+});
+
+/** Texto de "La tarea ya está ..." para cada estado distinto de PENDIENTE */
+const ESTADOS_RESUELTOS: Record<Exclude<DeadLetter["estado"], "PENDIENTE">, string> = {
+  REENVIANDO: "reenviándose",
+  REENVIADA: "reenviada",
+  DESCARTADA: "descartada",
+};
+
+/**
+ * Callable Function: resolveDeadLetter
+ *
+ * Reenvía a su cola (con un taskId nuevo) o descarta una tarea que agotó sus
+ * reintentos. Si el reenvío vuelve a fallar, la cola crea un dead letter nuevo.
+ *
+ * El reenvío reclama antes el dead letter en una transacción (PENDIENTE →
+ * REENVIANDO): dos admins a la vez no pueden encolar la misma tarea dos veces.
+ * Si el encolado falla, vuelve a PENDIENTE.
+ *
+ * @param data - { deadLetterId, decision: "REENVIAR" | "DESCARTAR" }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, estado }
+ */
+export const resolveDeadLetter = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 300, // En local el reenvío ejecuta la tarea en el propio proceso
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+
+    const parseResult = ResolveDeadLetterSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { deadLetterId, decision } = parseResult.data;
+    const db = admin.firestore();
+    const deadLetterRef = db.collection(DEAD_LETTERS_COLLECTION).doc(deadLetterId);
+    const estado = decision === "REENVIAR" ? "REENVIADA" : "DESCARTADA";
+
+    // 1. Reclamar (REENVIANDO) o descartar en transacción: solo desde PENDIENTE
+    const { deadLetter, payload } = await db.runTransaction(async (transaction) => {
+      const deadLetterDoc = await transaction.get(deadLetterRef);
+      if (!deadLetterDoc.exists) {
+        throw new functions.https.HttpsError("not-found", `Tarea fallida ${deadLetterId} no encontrada`);
+      }
+
+      const current = deadLetterDoc.data() as DeadLetter;
+      if (current.estado !== "PENDIENTE") {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          `La tarea ya está ${ESTADOS_RESUELTOS[current.estado]}`,
+        );
+      }
+
+      if (decision === "DESCARTAR") {
+        transaction.update(deadLetterRef, { estado, resolvedAt: now(), resolvedBy: userEmail });
+        return { deadLetter: current, payload: null };
+      }
+
+      const replayPayload = parseTaskPayload(current.queue, current.payload);
+      if (!replayPayload) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          `El payload de la tarea no es válido para la cola ${current.queue}: solo se puede descartar`,
+        );
+      }
+      transaction.update(deadLetterRef, { estado: "REENVIANDO" });
+      return { deadLetter: current, payload: replayPayload };
+    });
+
+    // 2. Reenviar la tarea reclamada; si no se puede encolar, vuelve a PENDIENTE
+    if (payload) {
+      try {
+        await enqueueTask(deadLetter.queue, payload, {
+          taskId: `replay-${deadLetterId}-${Date.now()}`,
+        });
+      } catch (error) {
+        await deadLetterRef.update({ estado: "PENDIENTE" });
+        throw new functions.https.HttpsError("internal", `No se pudo reenviar la tarea: ${(error as Error).message}`);
+      }
+
+      await deadLetterRef.update({
+        estado,
+        resolvedAt: now(),
+        resolvedBy: userEmail,
+      });
+    }
+
+    functions.logger.info(
+      `[resolveDeadLetter] ${deadLetter.queue} ${deadLetterId} ${estado.toLowerCase()} por ${userEmail}`,
+    );
+
+    await writeAuditLog(context, {
+      action: "DEAD_LETTER_RESOLVE",
+      targetId: deadLetterId,
+      before: { estado: deadLetter.estado },
+      after: { estado },
+      details: { queue: deadLetter.queue, payload: deadLetter.payload },
+    });
+
+    return { success: true, estado };
+  });
@@ -0,0 +1,171 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
+import { z } from "zod";
+import { CONTRACTS_COLLECTION, Contract, ContractYearRate } from "../lib/contracts";
+import { PRICE_REVISIONS_COLLECTION, PriceRevision, STANDARD_ITEM_KEY } from "../lib/priceRevision";
+import { applyYearlyRate } from "./updateYearlyRate";
+import { recalculateOpenMonthsForScope } from "./saveContract";
+import { writeAuditLog } from "../lib/audit";
+
+const ResolvePriceRevisionSchema = z.object({
+  revisionId: z.string().min(1, "El revisionId es obligatorio"),
+  decision: z.enum(["APROBAR", "DESCARTAR"]),
+  claves: z.array(z.string().min(1)).optional(), // Items a aplicar (por defecto, todos)
+});
+
+/**
+ * Callable Function: resolvePriceRevision
+ *
+ * Aprueba o descarta una propuesta de revisión de precios.
+ * Al aprobar:
+ * - Tarifa estándar: se guarda con applyYearlyRate (misma propagación que updateYearlyRate)
+ * - Contratos: se escribe tarifas[targetYear] y se recalculan los meses abiertos
+ * La fórmula usada queda registrada en la tarifa (revision) y en la propuesta.
+ *
+ * @param data - { revisionId, decision, claves? }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, estado, aplicados: [{ clave, codigo, importe, panelsUpdated }] }
+ */
+export const resolvePriceRevision = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 540,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+    const timestamp = now();
+
+    const parseResult = ResolvePriceRevisionSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { revisionId, decision, claves } = parseResult.data;
+    const db = admin.firestore();
+    const revisionRef = db.collection(PRICE_REVISIONS_COLLECTION).doc(revisionId);
+    const revisionDoc = await revisionRef.get();
+
+    if (!revisionDoc.exists) {
+      throw new functions.https.HttpsError("not-found", `Revisión de precios ${revisionId} no encontrada`);
+    }
+
+    const revision = revisionDoc.data() as PriceRevision;
+    if (revision.estado !== "PROPUESTA") {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `La revisión ya está ${revision.estado === "APLICADA" ? "aplicada" : "descartada"}`
+      );
+    }
+
+    if (decision === "DESCARTAR") {
+      await revisionRef.update({ estado: "DESCARTADA", resolvedAt: timestamp, resolvedBy: userEmail });
+      functions.logger.info(`[resolvePriceRevision] Propuesta ${revisionId} descartada por ${userEmail}`);
+      await writeAuditLog(context, {
+        action: "PRICE_REVISION_RESOLVE",
+        targetId: revisionId,
+        before: { estado: revision.estado },
+        after: { estado: "DESCARTADA" },
+      });
+      return { success: true, estado: "DESCARTADA", aplicados: [] };
+    }
+
+    const items = revision.items.filter((item) => !claves || claves.includes(item.clave));
+    if (items.length === 0) {
+      throw new functions.https.HttpsError("invalid-argument", "No se ha seleccionado ninguna tarifa a aplicar");
+    }
+
+    // Marcar primero como aplicada: evita una doble aplicación si se reintenta
+    await revisionRef.update({
+      estado: "APLICADA",
+      resolvedAt: timestamp,
+      resolvedBy: userEmail,
+      itemsAplicados: items.map((item) => item.clave),
+    });
+
+    const aplicados: Array<{ clave: string; codigo: string; importe: number; panelsUpdated: number }> = [];
+
+    for (const item of items) {
+      const origin = { priceRevisionId: revisionId, formula: item.formula };
+
+      if (item.clave === STANDARD_ITEM_KEY) {
+        const result = await applyYearlyRate({
+          year: revision.targetYear,
+          amount: item.importePropuesto,
+          userEmail,
+          revision: origin,
+        });
+        aplicados.push({
+          clave: item.clave,
+          codigo: item.codigo,
+          importe: item.importePropuesto,
+          panelsUpdated: result.propagation.panelsUpdated,
+        });
+        continue;
+      }
+
+      const contractRef = db.collection(CONTRACTS_COLLECTION).doc(item.clave);
+      const contractDoc = await contractRef.get();
+      if (!contractDoc.exists) {
+        functions.logger.warn(`[resolvePriceRevision] Contrato ${item.codigo} (${item.clave}) ya no existe`);
+        continue;
+      }
+
+      const contract = contractDoc.data() as Contract;
+      // Las tarifas de servicios no se revisan: se conservan las del año (o las del año base)
+      const servicios = contract.tarifas?.[revision.targetYear]?.servicios ??
+        contract.tarifas?.[revision.baseYear]?.servicios;
+      const yearRate: ContractYearRate = {
+        importe: item.importePropuesto,
+        ...(servicios ? { servicios } : {}),
+        revision: origin,
+      };
+
+      await contractRef.update({
+        [`tarifas.${revision.targetYear}`]: yearRate,
+        updatedAt: timestamp,
+        updatedBy: userEmail,
+      });
+
+      const recalc = await recalculateOpenMonthsForScope({
+        municipioIds: contract.municipioIds,
+        panelCodigos: contract.panelCodigos,
+        // Solo los meses del año revisado
+        contracts: [{
+          fechaInicio: contract.fechaInicio > `${revision.targetYear}-01-01` ?
+            contract.fechaInicio : `${revision.targetYear}-01-01`,
+          fechaFin: contract.fechaFin !== null && contract.fechaFin < `${revision.targetYear}-12-31` ?
+            contract.fechaFin : `${revision.targetYear}-12-31`,
+        }],
+      });
+
+      aplicados.push({
+        clave: item.clave,
+        codigo: item.codigo,
+        importe: item.importePropuesto,
+        panelsUpdated: recalc.panelsRecalculated,
+      });
+    }
+
+    functions.logger.info(
+      `[resolvePriceRevision] ✅ Propuesta ${revisionId} aplicada por ${userEmail}: ` +
+      aplicados.map((a) => `${a.codigo} → ${a.importe}€`).join(", ")
+    );
+
+    await writeAuditLog(context, {
+      action: "PRICE_REVISION_RESOLVE",
+      targetId: revisionId,
+      before: {
+        estado: revision.estado,
+        tarifas: items.map((item) => ({ codigo: item.codigo, importe: item.importeActual })),
+      },
+      after: { estado: "APLICADA", tarifas: aplicados.map((a) => ({ codigo: a.codigo, importe: a.importe })) },
+      details: { targetYear: revision.targetYear, aplicados },
+    });
+
+    return { success: true, estado: "APLICADA", aplicados };
+  });
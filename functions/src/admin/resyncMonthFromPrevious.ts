@@ -3,6 +3,7 @@ import * as admin from "firebase-admin";
 import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
 import { z } from "zod";
 import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
+import { writeAuditLog } from "../lib/audit";
 
 const ResyncMonthRequest = z.object({
   monthKey: z.string().regex(/^\d{4}-\d{2}$/, "El monthKey debe tener formato YYYY-MM"),
@@ -178,6 +179,12 @@ export const resyncMonthFromPrevious = functions
       `[resyncMonthFromPrevious] Resincronización completada: ${panelsUpdated} paneles actualizados`
     );
 
+    await writeAuditLog(context, {
+      action: "MONTH_RESYNC",
+      monthKey,
+      details: { previousMonthKey, panelsUpdated, panelsRecalculated: panelsToRecalculate },
+    });
+
     return {
       success: true,
       monthKey,
@@ -0,0 +1,61 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { z } from "zod";
+import { assertIsAdmin, getUserEmail } from "../lib/utils";
+import { toUserSummary } from "../lib/users";
+import { writeAuditLog } from "../lib/audit";
+
+const RevokeUserSessionsSchema = z.object({
+  uid: z.string().min(1, "El UID del usuario es obligatorio"),
+});
+
+/**
+ * Callable Function: revokeUserSessions
+ *
+ * Revoca los refresh tokens del usuario: tendrá que volver a iniciar sesión
+ * (y recibirá los claims de rol actualizados).
+ *
+ * @param data - { uid }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, user }
+ */
+export const revokeUserSessions = functions
+  .region("europe-west1")
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+
+    const parseResult = RevokeUserSessionsSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { uid } = parseResult.data;
+
+    let targetUser: admin.auth.UserRecord;
+    try {
+      targetUser = await admin.auth().getUser(uid);
+    } catch (error: any) {
+      if (error.code === "auth/user-not-found") {
+        throw new functions.https.HttpsError("not-found", `No se encontró el usuario con UID: ${uid}`);
+      }
+      throw error;
+    }
+
+    await admin.auth().revokeRefreshTokens(uid);
+    const updatedUser = await admin.auth().getUser(uid);
+
+    functions.logger.info(`[revokeUserSessions] Sesiones de ${targetUser.email || uid} revocadas por ${userEmail}`);
+
+    await writeAuditLog(context, {
+      action: "USER_SESSIONS_REVOKE",
+      targetId: uid,
+      before: { tokensValidAfterTime: targetUser.tokensValidAfterTime || null },
+      after: { tokensValidAfterTime: updatedUser.tokensValidAfterTime || null },
+      details: { email: targetUser.email || null },
+    });
+
+    return { success: true, user: toUserSummary(updatedUser) };
+  });
@@ -0,0 +1,227 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
+import { z } from "zod";
+import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
+import { writeAuditLog } from "../lib/audit";
+import {
+  CONTRACTS_COLLECTION,
+  Contract,
+  REVISION_CLAUSE_TYPES,
+  isContractActiveInMonth,
+} from "../lib/contracts";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha inválido (YYYY-MM-DD)");
+
+const YearRateSchema = z.object({
+  importe: z.number().positive("La tarifa debe ser un número positivo"),
+  servicios: z.object({
+    MANTENIMIENTO: z.number().min(0).optional(),
+    CONECTIVIDAD: z.number().min(0).optional(),
+    CONTENIDOS: z.number().min(0).optional(),
+  }).strict().optional(),
+});
+
+const SaveContractSchema = z.object({
+  contractId: z.string().min(1).optional(), // Ausente = contrato nuevo
+  codigo: z.string().trim().min(1, "El código del contrato es obligatorio").max(50),
+  cliente: z.object({
+    nif: z.string().trim().min(1, "El NIF del cliente es obligatorio"),
+    razonSocial: z.string().trim().min(1, "La razón social del cliente es obligatoria"),
+  }),
+  municipioIds: z.array(z.string().trim().min(1)).default([]),
+  panelCodigos: z.array(z.string().trim().min(1)).default([]),
+  tarifas: z.record(z.string().regex(/^\d{4}$/, "Año inválido (YYYY)"), YearRateSchema),
+  fechaInicio: dateSchema,
+  fechaFin: dateSchema.nullable(),
+  clausulaRevision: z.object({
+    tipo: z.enum(REVISION_CLAUSE_TYPES),
+    porcentaje: z.number().min(0).max(100).nullable(),
+    mesAplicacion: z.number().int().min(1).max(12),
+  }),
+  notas: z.string().max(1000).default(""),
+})
+  .refine((c) => c.municipioIds.length > 0 || c.panelCodigos.length > 0, {
+    message: "El contrato debe incluir al menos un municipio o un código de panel",
+  })
+  .refine((c) => c.fechaFin === null || c.fechaFin >= c.fechaInicio, {
+    message: "La fecha de fin no puede ser anterior a la de inicio",
+  })
+  .refine((c) => c.clausulaRevision.tipo !== "PORCENTAJE_FIJO" || c.clausulaRevision.porcentaje !== null, {
+    message: "La revisión por porcentaje fijo necesita un porcentaje",
+  });
+
+/**
+ * Callable Function: saveContract
+ *
+ * Crea o actualiza un contrato (contracts/{id}). Un panel o municipio solo puede
+ * pertenecer a un contrato vigente a la vez: se rechazan solapamientos.
+ *
+ * Tras guardar, recalcula los meses abiertos de los paneles afectados (alcance
+ * anterior y nuevo del contrato) para aplicar la tarifa del contrato.
+ *
+ * @param data - Contrato (ver SaveContractSchema)
+ * @param context - Contexto de autenticación
+ * @returns { success: true, contractId, panelsRecalculated, monthsAffected }
+ */
+export const saveContract = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 540,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+    const timestamp = now();
+
+    const parseResult = SaveContractSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { contractId, ...input } = parseResult.data;
+    const db = admin.firestore();
+
+    const contractsSnapshot = await db.collection(CONTRACTS_COLLECTION).get();
+    const existing = contractId ?
+      contractsSnapshot.docs.find((doc) => doc.id === contractId) :
+      undefined;
+
+    if (contractId && !existing) {
+      throw new functions.https.HttpsError("not-found", `Contrato ${contractId} no encontrado`);
+    }
+
+    // Código único y sin solapamientos de alcance en el tiempo
+    for (const doc of contractsSnapshot.docs) {
+      if (doc.id === contractId) continue;
+      const other = doc.data() as Contract;
+
+      if (other.codigo === input.codigo) {
+        throw new functions.https.HttpsError("already-exists", `Ya existe un contrato con código ${input.codigo}`);
+      }
+
+      const overlapsInTime = other.fechaInicio <= (input.fechaFin || "9999-12-31") &&
+        input.fechaInicio <= (other.fechaFin || "9999-12-31");
+      if (!overlapsInTime) continue;
+
+      const sharedMunicipios = input.municipioIds.filter((id) => other.municipioIds.includes(id));
+      const sharedPaneles = input.panelCodigos.filter((codigo) => other.panelCodigos.includes(codigo));
+      if (sharedMunicipios.length > 0 || sharedPaneles.length > 0) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          `El contrato ${other.codigo} ya cubre ${[...sharedMunicipios, ...sharedPaneles].join(", ")} ` +
+          "en fechas que se solapan"
+        );
+      }
+    }
+
+    const ref = contractId ?
+      db.collection(CONTRACTS_COLLECTION).doc(contractId) :
+      db.collection(CONTRACTS_COLLECTION).doc();
+
+    const previous = existing?.data() as Contract | undefined;
+    const contract: Contract = {
+      ...input,
+      createdAt: previous?.createdAt || timestamp,
+      createdBy: previous?.createdBy || userEmail,
+      updatedAt: timestamp,
+      updatedBy: userEmail,
+    };
+
+    await ref.set(contract);
+
+    functions.logger.info(
+      `[saveContract] Contrato ${input.codigo} (${ref.id}) ${previous ? "actualizado" : "creado"} por ${userEmail}`
+    );
+
+    // Recalcular meses abiertos de los paneles del alcance anterior y nuevo
+    const recalc = await recalculateOpenMonthsForScope({
+      municipioIds: [...input.municipioIds, ...(previous?.municipioIds || [])],
+      panelCodigos: [...input.panelCodigos, ...(previous?.panelCodigos || [])],
+      contracts: [contract, ...(previous ? [previous] : [])],
+    });
+
+    await writeAuditLog(context, {
+      action: "CONTRACT_SAVE",
+      targetId: ref.id,
+      before: previous ?? null,
+      after: contract,
+      details: recalc,
+    });
+
+    return {
+      success: true,
+      contractId: ref.id,
+      ...recalc,
+    };
+  });
+
+/**
+ * Recalcula los meses abiertos en los que el contrato está vigente para todos
+ * los paneles de un alcance (municipios + códigos de panel)
+ */
+export async function recalculateOpenMonthsForScope(scope: {
+  municipioIds: string[];
+  panelCodigos: string[];
+  contracts: Array<Pick<Contract, "fechaInicio" | "fechaFin">>;
+}): Promise<{ panelsRecalculated: number; monthsAffected: string[] }> {
+  const db = admin.firestore();
+
+  const openSnapshot = await db.collection("billingSummary").where("isLocked", "==", false).get();
+  const openMonths = openSnapshot.docs
+    .map((doc) => doc.id)
+    .filter((monthKey) => /^\d{4}-\d{2}$/.test(monthKey))
+    .filter((monthKey) => scope.contracts.some((contract) => isContractActiveInMonth(contract, monthKey)))
+    .sort();
+
+  if (openMonths.length === 0) {
+    return { panelsRecalculated: 0, monthsAffected: [] };
+  }
+
+  // Paneles del alcance (consultas "in" de 10 en 10)
+  const panelIds = new Set<string>();
+  const queries: Array<{ field: string; values: string[] }> = [
+    { field: "municipioId", values: Array.from(new Set(scope.municipioIds)) },
+    { field: "codigo", values: Array.from(new Set(scope.panelCodigos)) },
+  ];
+  for (const { field, values } of queries) {
+    for (let i = 0; i < values.length; i += 10) {
+      const snapshot = await db.collection("panels").where(field, "in", values.slice(i, i + 10)).get();
+      snapshot.docs.forEach((doc) => panelIds.add(doc.id));
+    }
+  }
+
+  let panelsRecalculated = 0;
+  const monthsAffected: string[] = [];
+
+  // En orden cronológico: cada mes hereda la tarifa del anterior
+  for (const monthKey of openMonths) {
+    let recalculatedInMonth = 0;
+    for (const panelId of panelIds) {
+      const billingDoc = await db.collection("billingMonthlyPanel").doc(`${panelId}_${monthKey}`).get();
+      if (!billingDoc.exists) continue;
+
+      try {
+        await recalculatePanelMonth(panelId, monthKey);
+        recalculatedInMonth++;
+      } catch (error: any) {
+        functions.logger.error(
+          `[saveContract] Error recalculando ${panelId} / ${monthKey}: ${error.message}`
+        );
+      }
+    }
+    if (recalculatedInMonth > 0) {
+      monthsAffected.push(monthKey);
+      panelsRecalculated += recalculatedInMonth;
+    }
+  }
+
+  functions.logger.info(
+    `[saveContract] Recalculados ${panelsRecalculated} paneles en ${monthsAffected.length} mes(es) abiertos`
+  );
+
+  return { panelsRecalculated, monthsAffected };
+}
@@ -0,0 +1,121 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
+import { z } from "zod";
+import { writeAuditLog } from "../lib/audit";
+import {
+  SCHEDULED_EVENTS_COLLECTION,
+  SCHEDULED_EVENT_ACTIONS,
+  ScheduledPanelEvent,
+} from "../lib/scheduledEvents";
+
+const SaveScheduledPanelEventSchema = z.object({
+  scheduledEventId: z.string().min(1).optional(), // Ausente = evento nuevo
+  codigo: z.string().trim().min(1, "El código del panel es obligatorio"),
+  action: z.enum(SCHEDULED_EVENT_ACTIONS),
+  effectiveDateLocal: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha inválido (YYYY-MM-DD)"),
+  motivo: z.string().max(500).default(""),
+});
+
+/**
+ * Callable Function: saveScheduledPanelEvent
+ *
+ * Crea o modifica un evento programado (DESMONTADO, REINSTALACION o BAJA) para
+ * un mes que todavía no existe. Queda PENDIENTE hasta que createNextMonth crea
+ * ese mes y lo convierte en un panelEvent.
+ *
+ * Si el mes ya existe, el cambio debe registrarse directamente con requestPanelChange.
+ *
+ * @param data - { scheduledEventId?, codigo, action, effectiveDateLocal, motivo }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, scheduledEventId, monthKey }
+ */
+export const saveScheduledPanelEvent = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+    const timestamp = now();
+
+    const parseResult = SaveScheduledPanelEventSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { scheduledEventId, codigo, action, effectiveDateLocal, motivo } = parseResult.data;
+    const monthKey = effectiveDateLocal.substring(0, 7);
+    const db = admin.firestore();
+
+    // Solo meses que aún no existen: los existentes usan requestPanelChange
+    const summaryDoc = await db.collection("billingSummary").doc(monthKey).get();
+    if (summaryDoc.exists) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `El mes ${monthKey} ya existe: registra el cambio directamente desde el panel`
+      );
+    }
+
+    const panelsSnapshot = await db.collection("panels").where("codigo", "==", codigo).limit(1).get();
+    if (panelsSnapshot.empty) {
+      throw new functions.https.HttpsError("not-found", `Panel ${codigo} no encontrado`);
+    }
+    const panelDoc = panelsSnapshot.docs[0];
+
+    const ref = scheduledEventId ?
+      db.collection(SCHEDULED_EVENTS_COLLECTION).doc(scheduledEventId) :
+      db.collection(SCHEDULED_EVENTS_COLLECTION).doc();
+
+    let previous: ScheduledPanelEvent | undefined;
+    if (scheduledEventId) {
+      const existing = await ref.get();
+      if (!existing.exists) {
+        throw new functions.https.HttpsError("not-found", `Evento programado ${scheduledEventId} no encontrado`);
+      }
+      previous = existing.data() as ScheduledPanelEvent;
+      if (previous.estado !== "PENDIENTE") {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          `El evento programado ya está ${previous.estado === "APLICADO" ? "aplicado" : "cancelado"}`
+        );
+      }
+    }
+
+    const scheduled: ScheduledPanelEvent = {
+      panelId: panelDoc.id,
+      codigo,
+      municipioId: panelDoc.data().municipioId || "",
+      action,
+      effectiveDateLocal,
+      monthKey,
+      motivo,
+      estado: "PENDIENTE",
+      createdAt: previous?.createdAt || timestamp,
+      createdBy: previous?.createdBy || userEmail,
+      updatedAt: timestamp,
+      updatedBy: userEmail,
+    };
+
+    await ref.set(scheduled);
+
+    functions.logger.info(
+      `[saveScheduledPanelEvent] ${action} de ${codigo} programado para ${effectiveDateLocal} ` +
+      `(${ref.id}, ${previous ? "modificado" : "creado"} por ${userEmail})`
+    );
+
+    await writeAuditLog(context, {
+      action: "SCHEDULED_EVENT_SAVE",
+      panelId: panelDoc.id,
+      monthKey,
+      targetId: ref.id,
+      before: previous ?? null,
+      after: scheduled,
+    });
+
+    return { success: true, scheduledEventId: ref.id, monthKey };
+  });
@@ -0,0 +1,70 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { z } from "zod";
+import { assertIsAdmin, getUserEmail } from "../lib/utils";
+import { toUserSummary } from "../lib/users";
+import { writeAuditLog } from "../lib/audit";
+
+const SetUserDisabledSchema = z.object({
+  uid: z.string().min(1, "El UID del usuario es obligatorio"),
+  disabled: z.boolean(),
+});
+
+/**
+ * Callable Function: setUserDisabled
+ *
+ * Deshabilita o habilita una cuenta. Al deshabilitar se revocan además sus
+ * sesiones para que los tokens ya emitidos dejen de servir.
+ *
+ * @param data - { uid, disabled }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, user }
+ */
+export const setUserDisabled = functions
+  .region("europe-west1")
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+
+    const parseResult = SetUserDisabledSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { uid, disabled } = parseResult.data;
+
+    if (disabled && uid === context.auth?.uid) {
+      throw new functions.https.HttpsError("failed-precondition", "No puedes deshabilitar tu propia cuenta");
+    }
+
+    let targetUser: admin.auth.UserRecord;
+    try {
+      targetUser = await admin.auth().getUser(uid);
+    } catch (error: any) {
+      if (error.code === "auth/user-not-found") {
+        throw new functions.https.HttpsError("not-found", `No se encontró el usuario con UID: ${uid}`);
+      }
+      throw error;
+    }
+
+    await admin.auth().updateUser(uid, { disabled });
+    if (disabled) {
+      await admin.auth().revokeRefreshTokens(uid);
+    }
+
+    functions.logger.info(
+      `[setUserDisabled] ${targetUser.email || uid} ${disabled ? "deshabilitado" : "habilitado"} por ${userEmail}`,
+    );
+
+    await writeAuditLog(context, {
+      action: "USER_STATUS_CHANGE",
+      targetId: uid,
+      before: { disabled: targetUser.disabled },
+      after: { disabled, sesionesRevocadas: disabled },
+      details: { email: targetUser.email || null },
+    });
+
+    return { success: true, user: toUserSummary(await admin.auth().getUser(uid)) };
+  });
@@ -2,14 +2,21 @@ import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
 import { assertIsAdmin } from "../lib/utils";
 import { z } from "zod";
+import { writeAuditLog } from "../lib/audit";
+import { USER_ROLES, UserRole } from "../lib/roles";
+import { applyUserRole } from "../lib/users";
 
-// Schema de validación para la solicitud
+// Schema de validación para la solicitud ("user" = sin rol, revoca los permisos)
 const SetUserRoleRequest = z.object({
   uid: z.string().min(1, "El UID del usuario es obligatorio"),
-  role: z.enum(["admin", "user"], {
-    errorMap: () => ({ message: "El rol debe ser 'admin' o 'user'" }),
+  role: z.enum([...USER_ROLES, "user"], {
+    errorMap: () => ({ message: `El rol debe ser ${USER_ROLES.map((r) => `'${r}'`).join(", ")} o 'user'` }),
   }),
-});
+  municipioIds: z.array(z.string().min(1)).optional(),
+}).refine(
+  (data) => data.role !== "visor" || (data.municipioIds?.length ?? 0) > 0,
+  { message: "El rol 'visor' necesita al menos un municipio asignado", path: ["municipioIds"] }
+);
 
 type SetUserRoleRequestData = z.infer<typeof SetUserRoleRequest>;
 
@@ -17,8 +24,9 @@ type SetUserRoleRequestData = z.infer<typeof SetUserRoleRequest>;
  * Callable Function: setUserRole
  * 
  * Permite a un administrador asignar roles (custom claims) a otros usuarios.
+ * El rol también se guarda en users/{uid} (role, municipioIds).
  * 
- * @param data - { uid: string, role: "admin" | "user" }
+ * @param data - { uid: string, role: "admin" | "editor" | "auditor" | "visor" | "user", municipioIds?: string[] }
  * @param context - Contexto de autenticación
  * @returns { success: true, uid: string, role: string }
  * 
@@ -37,30 +45,42 @@ export const setUserRole = functions
       throw new functions.https.HttpsError("invalid-argument", errors);
     }
 
-    const { uid, role } = parseResult.data;
+    const { uid, role }: SetUserRoleRequestData = parseResult.data;
+    const assignedRole: UserRole | null = role === "user" ? null : role;
+    const municipioIds = assignedRole === "visor" ? [...new Set(parseResult.data.municipioIds)] : [];
 
     try {
       // 3. Verificar que el usuario objetivo existe
-      await admin.auth().getUser(uid);
+      const targetUser = await admin.auth().getUser(uid);
 
-      // 4. Asignar el custom claim
-      const customClaims: Record<string, boolean> = {};
-      
-      if (role === "admin") {
-        customClaims.admin = true;
-      } else {
-        // Si el rol es "user", eliminamos el claim admin (si existe)
-        customClaims.admin = false;
-      }
-
-      await admin.auth().setCustomUserClaims(uid, customClaims);
+      // 4. Asignar los custom claims del rol y reflejarlo en users/{uid}
+      const customClaims = await applyUserRole(
+        targetUser,
+        assignedRole,
+        municipioIds,
+        context.auth?.token.email || "unknown"
+      );
 
       functions.logger.info(`Rol '${role}' asignado al usuario ${uid} por ${context.auth?.uid}`);
 
+      await writeAuditLog(context, {
+        action: "ROLE_CHANGE",
+        targetId: uid,
+        before: {
+          role: targetUser.customClaims?.role ?? null,
+          admin: targetUser.customClaims?.admin === true,
+          editor: targetUser.customClaims?.editor === true,
+          municipioIds: targetUser.customClaims?.municipioIds ?? [],
+        },
+        after: customClaims,
+        details: { email: targetUser.email || null },
+      });
+
       return {
         success: true,
         uid,
         role,
+        municipioIds,
         message: `Rol '${role}' asignado correctamente al usuario ${uid}`,
       };
     } catch (error) {
@@ -2,6 +2,8 @@ import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
 import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
 import { z } from "zod";
+import { INVOICES_COLLECTION } from "../lib/invoicing";
+import { writeAuditLog } from "../lib/audit";
 
 const ToggleMonthLockRequest = z.object({
   monthKey: z.string().regex(/^\d{4}-\d{2}$/, "El monthKey debe tener formato YYYY-MM"),
@@ -11,12 +13,14 @@ const ToggleMonthLockRequest = z.object({
 /**
  * Callable Function: toggleMonthLock
  * 
- * Cierra o abre un mes cambiando el flag isLocked en billingSummary.
+ * Abre un mes cerrado cambiando el flag isLocked en billingSummary.
+ * El cierre ya no se hace aquí: pasa por el asistente de cierre (getMonthCloseChecks
+ * + closeMonth), que valida el mes, registra el cierre y emite las facturas.
  * Solo admins pueden ejecutar esta función.
  * 
- * @param data - { monthKey: "YYYY-MM", isLocked: true/false }
+ * @param data - { monthKey: "YYYY-MM", isLocked: false }
  * @param context - Contexto de autenticación
- * @returns { success: true, monthKey: string, isLocked: boolean }
+ * @returns { success: true, monthKey: string, isLocked: boolean, warning? }
  */
 export const toggleMonthLock = functions
   .region("europe-west1")
@@ -36,6 +40,13 @@ export const toggleMonthLock = functions
 
     const { monthKey, isLocked } = parseResult.data;
 
+    if (isLocked) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "Los meses se cierran con el asistente de cierre (comprobaciones previas + closeMonth)"
+      );
+    }
+
     functions.logger.info(
       `[toggleMonthLock] ${isLocked ? "Cerrando" : "Abriendo"} mes ${monthKey} por ${userEmail}`
     );
@@ -81,9 +92,31 @@ export const toggleMonthLock = functions
       `[toggleMonthLock] Mes ${monthKey} ${isLocked ? "cerrado" : "abierto"} exitosamente`
     );
 
+    await writeAuditLog(context, {
+      action: "MONTH_LOCK_TOGGLE",
+      monthKey,
+      before: { isLocked: summaryDoc.data()?.isLocked === true },
+      after: { isLocked },
+    });
+
+    // 5. Facturas ya emitidas: los cambios tras reabrir van por rectificativas
+    let warning: string | undefined;
+
+    const invoicesSnapshot = await db
+      .collection(INVOICES_COLLECTION)
+      .where("monthKey", "==", monthKey)
+      .limit(1)
+      .get();
+    if (!invoicesSnapshot.empty) {
+      warning = `El mes ${monthKey} ya tiene facturas emitidas. ` +
+        "Los cambios no modifican las facturas: deberán corregirse con facturas rectificativas.";
+      functions.logger.warn(`[toggleMonthLock] ${warning}`);
+    }
+
     return {
       success: true,
       monthKey,
       isLocked,
+      warning,
     };
   });
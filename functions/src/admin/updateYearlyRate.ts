@@ -7,17 +7,40 @@
 import * as admin from "firebase-admin";
 import * as functions from "firebase-functions";
 import { calculateImporte } from "../lib/billingRules";
+import {
+  ProrationMode,
+  PRORATION_MODES,
+  DEFAULT_PRORATION_MODE,
+  isProrationMode,
+  getBillingDaysInMonth,
+  calculateProratedImporte,
+} from "../lib/prorationMode";
+import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
+import { buildBillingRevision } from "../lib/billingRevisions";
+import { writeAuditLog } from "../lib/audit";
+import { RateSegment, prorateDays } from "../lib/billingEngine";
+import {
+  BASE_LINE_ID,
+  ServiceRates,
+  SERVICE_TYPES,
+  isServiceType,
+  parseServiceRates,
+} from "../lib/panelServices";
 
 interface UpdateYearlyRateRequest {
   year: string;
   amount: number;
+  modoProrrateo?: ProrationMode;
+  servicios?: ServiceRates; // Tarifas mensuales de los servicios recurrentes
 }
 
-interface UpdateYearlyRateResponse {
+export interface UpdateYearlyRateResponse {
   success: boolean;
   message: string;
   year: string;
   amount: number;
+  modoProrrateo: ProrationMode;
+  servicios: ServiceRates;
   updatedAt: string;
   updatedBy: string;
   propagation: {
@@ -58,7 +81,7 @@ export const updateYearlyRate = functions
       }
 
       // 3. Validar input
-      const { year, amount } = data;
+      const { year, amount, modoProrrateo: requestedMode, servicios: requestedServices } = data;
 
       if (!year || !/^\d{4}$/.test(year)) {
         throw new functions.https.HttpsError(
@@ -74,192 +97,365 @@ export const updateYearlyRate = functions
         );
       }
 
-      // 4. Escribir/Actualizar en Firestore
-      const rateRef = db.collection("rates").doc(year);
-      const now = new Date().toISOString();
-
-      await rateRef.set(
-        {
-          year,
-          importe: amount,
-          updatedAt: now,
-          updatedBy: userEmail,
-        },
-        { merge: true }
-      );
-
-      functions.logger.info(
-        `[updateYearlyRate] Tarifa ${year} actualizada a ${amount}€ por ${userEmail}`
-      );
+      if (requestedMode !== undefined && !isProrationMode(requestedMode)) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          `Modo de prorrateo inválido. Valores permitidos: ${PRORATION_MODES.join(", ")}`
+        );
+      }
 
-      // 5. PROPAGACIÓN INTELIGENTE: Actualizar solo meses abiertos del año
-      let panelsUpdated = 0;
-      const monthsAffected: string[] = [];
-      const monthsSkipped: string[] = [];
-      let skippedReason: "locked" | "none" = "none";
-
-      try {
-        // Calcular rango de meses: desde mes actual hasta fin del año objetivo
-        const nowDate = new Date();
-        const currentYear = nowDate.getFullYear();
-        const currentMonth = nowDate.getMonth() + 1; // 1-12
-
-        let startMonthKey: string;
-        let endMonthKey: string;
-
-        if (parseInt(year) > currentYear) {
-          // Año futuro: propagar desde Enero hasta Diciembre
-          startMonthKey = `${year}-01`;
-          endMonthKey = `${year}-12`;
-        } else if (parseInt(year) === currentYear) {
-          // Año actual: propagar desde mes actual hasta Diciembre
-          startMonthKey = `${year}-${String(currentMonth).padStart(2, "0")}`;
-          endMonthKey = `${year}-12`;
-        } else {
-          // Año pasado: propagar desde Enero hasta Diciembre (auditoría)
-          startMonthKey = `${year}-01`;
-          endMonthKey = `${year}-12`;
+      if (requestedServices !== undefined) {
+        const invalid = requestedServices === null || typeof requestedServices !== "object" ||
+          Object.entries(requestedServices).some(
+            ([tipo, importe]) => !isServiceType(tipo) || typeof importe !== "number" || importe < 0
+          );
+        if (invalid) {
+          throw new functions.https.HttpsError(
+            "invalid-argument",
+            `Tarifas de servicios inválidas. Tipos permitidos: ${SERVICE_TYPES.join(", ")} (importe >= 0)`
+          );
         }
+      }
 
-        functions.logger.info(
-          `[updateYearlyRate] Buscando paneles en rango: ${startMonthKey} → ${endMonthKey}`
-        );
+      const previousRate = (await db.collection("rates").doc(year).get()).data();
 
-        // Buscar todos los billingMonthlyPanel del rango de meses
-        const billingSnapshot = await db
-          .collection("billingMonthlyPanel")
-          .where("monthKey", ">=", startMonthKey)
-          .where("monthKey", "<=", endMonthKey)
-          .get();
+      const result = await applyYearlyRate({
+        year,
+        amount,
+        modoProrrateo: requestedMode,
+        servicios: requestedServices,
+        userEmail,
+      });
+
+      await writeAuditLog(context, {
+        action: "RATE_UPDATE",
+        targetId: year,
+        before: previousRate ?
+          {
+            importe: previousRate.importe,
+            modoProrrateo: previousRate.modoProrrateo,
+            servicios: previousRate.servicios,
+          } :
+          null,
+        after: { importe: result.amount, modoProrrateo: result.modoProrrateo, servicios: result.servicios },
+        details: { propagation: result.propagation },
+      });
+
+      return result;
+    }
+  );
 
-        if (!billingSnapshot.empty) {
-          functions.logger.info(
-            `[updateYearlyRate] Encontrados ${billingSnapshot.size} documentos en el rango`
-          );
+/**
+ * Guarda la tarifa anual y la propaga a los meses abiertos del año
+ *
+ * Compartido por updateYearlyRate (edición manual) y approvePriceRevision
+ * (revisión de precios por IPC). Los datos ya vienen validados.
+ */
+export async function applyYearlyRate(params: {
+  year: string;
+  amount: number;
+  modoProrrateo?: ProrationMode;
+  servicios?: ServiceRates;
+  userEmail: string;
+  revision?: { priceRevisionId: string; formula: string }; // Origen: revisión de precios
+}): Promise<UpdateYearlyRateResponse> {
+  const { year, amount, modoProrrateo: requestedMode, servicios: requestedServices, userEmail } = params;
+  const db = admin.firestore();
+
+  // 4. Escribir/Actualizar en Firestore
+  const rateRef = db.collection("rates").doc(year);
+  const now = new Date().toISOString();
+
+  // Si no se indica modo se conserva el existente (o COMERCIAL_30 por defecto)
+  const previousRateDoc = await rateRef.get();
+  const previousModeRaw = previousRateDoc.exists ? previousRateDoc.data()?.modoProrrateo : undefined;
+  const previousMode: ProrationMode = isProrationMode(previousModeRaw) ?
+    previousModeRaw :
+    DEFAULT_PRORATION_MODE;
+  const modoProrrateo: ProrationMode = requestedMode ?? previousMode;
+  const modeChanged = modoProrrateo !== previousMode;
+
+  // Tarifas de servicios: si no se indican se conservan las existentes
+  const previousServices = parseServiceRates(
+    previousRateDoc.exists ? previousRateDoc.data()?.servicios : undefined
+  );
+  const servicios = requestedServices !== undefined ? parseServiceRates(requestedServices) : previousServices;
+  const servicesChanged = SERVICE_TYPES.some((tipo) => servicios[tipo] !== previousServices[tipo]);
+
+  await rateRef.set(
+    {
+      year,
+      importe: amount,
+      modoProrrateo,
+      servicios,
+      // Fórmula de la última revisión de precios aplicada (si viene de una)
+      ...(params.revision ? { revision: params.revision } : {}),
+      updatedAt: now,
+      updatedBy: userEmail,
+    },
+    { merge: true }
+  );
 
-          // Agrupar paneles por mes para verificar si están cerrados
-          const panelsByMonth = new Map<string, FirebaseFirestore.QueryDocumentSnapshot[]>();
-          for (const doc of billingSnapshot.docs) {
-            const monthKey = doc.data().monthKey;
-            if (!panelsByMonth.has(monthKey)) {
-              panelsByMonth.set(monthKey, []);
-            }
-            panelsByMonth.get(monthKey)!.push(doc);
-          }
+  functions.logger.info(
+    `[updateYearlyRate] Tarifa ${year} actualizada a ${amount}€ (${modoProrrateo}) por ${userEmail}`
+  );
 
-          // Verificar qué meses están cerrados
-          const lockedMonths = new Set<string>();
-          for (const monthKey of panelsByMonth.keys()) {
-            const summaryDoc = await db.collection("billingSummary").doc(monthKey).get();
-            if (summaryDoc.exists && summaryDoc.data()?.isLocked === true) {
-              lockedMonths.add(monthKey);
-              monthsSkipped.push(monthKey);
-              skippedReason = "locked";
-              functions.logger.warn(
-                `[updateYearlyRate] 🔒 Mes ${monthKey} cerrado - omitiendo actualización`
-              );
-            }
-          }
+  // 5. PROPAGACIÓN INTELIGENTE: Actualizar solo meses abiertos del año
+  let panelsUpdated = 0;
+  const monthsAffected: string[] = [];
+  const monthsSkipped: string[] = [];
+  let skippedReason: "locked" | "none" = "none";
+
+  try {
+    // Calcular rango de meses: desde mes actual hasta fin del año objetivo
+    const nowDate = new Date();
+    const currentYear = nowDate.getFullYear();
+    const currentMonth = nowDate.getMonth() + 1; // 1-12
+
+    let startMonthKey: string;
+    let endMonthKey: string;
+
+    if (parseInt(year) > currentYear) {
+      // Año futuro: propagar desde Enero hasta Diciembre
+      startMonthKey = `${year}-01`;
+      endMonthKey = `${year}-12`;
+    } else if (parseInt(year) === currentYear) {
+      // Año actual: propagar desde mes actual hasta Diciembre
+      startMonthKey = `${year}-${String(currentMonth).padStart(2, "0")}`;
+      endMonthKey = `${year}-12`;
+    } else {
+      // Año pasado: propagar desde Enero hasta Diciembre (auditoría)
+      startMonthKey = `${year}-01`;
+      endMonthKey = `${year}-12`;
+    }
 
-          // Usar batch para actualización masiva (máx 500 por batch)
-          const batchSize = 500;
-          let batch = db.batch();
-          let batchCount = 0;
+    functions.logger.info(
+      `[updateYearlyRate] Buscando paneles en rango: ${startMonthKey} → ${endMonthKey}`
+    );
 
-          for (const doc of billingSnapshot.docs) {
-            const docData = doc.data();
-            const monthKey = docData.monthKey;
+    // Buscar todos los billingMonthlyPanel del rango de meses
+    const billingSnapshot = await db
+      .collection("billingMonthlyPanel")
+      .where("monthKey", ">=", startMonthKey)
+      .where("monthKey", "<=", endMonthKey)
+      .get();
 
-            // Saltar meses cerrados
-            if (lockedMonths.has(monthKey)) {
-              continue;
-            }
+    if (!billingSnapshot.empty) {
+      functions.logger.info(
+        `[updateYearlyRate] Encontrados ${billingSnapshot.size} documentos en el rango`
+      );
 
-            const diasFacturables = docData.totalDiasFacturables || 0;
+      // Agrupar paneles por mes para verificar si están cerrados
+      const panelsByMonth = new Map<string, FirebaseFirestore.QueryDocumentSnapshot[]>();
+      for (const doc of billingSnapshot.docs) {
+        const monthKey = doc.data().monthKey;
+        if (!panelsByMonth.has(monthKey)) {
+          panelsByMonth.set(monthKey, []);
+        }
+        panelsByMonth.get(monthKey)!.push(doc);
+      }
 
-            // Recalcular importe con precisión contable (céntimos)
-            const nuevoImporte = calculateImporte(diasFacturables, amount);
+      // Verificar qué meses están cerrados
+      const lockedMonths = new Set<string>();
+      for (const monthKey of panelsByMonth.keys()) {
+        const summaryDoc = await db.collection("billingSummary").doc(monthKey).get();
+        if (summaryDoc.exists && summaryDoc.data()?.isLocked === true) {
+          lockedMonths.add(monthKey);
+          monthsSkipped.push(monthKey);
+          skippedReason = "locked";
+          functions.logger.warn(
+            `[updateYearlyRate] 🔒 Mes ${monthKey} cerrado - omitiendo actualización`
+          );
+        }
+      }
 
-            // Normalizar a 2 decimales para evitar basura decimal
-            const nuevoImporteNormalizado = Math.round(nuevoImporte * 100) / 100;
+      // CAMBIO DE MODO: los días facturables dependen del modo (eventos del día 31,
+      // febrero...), así que se recalcula cada panel con el motor completo.
+      // CAMBIO DE TARIFAS DE SERVICIOS: el desglose por servicio solo lo rehace el motor
+      const fullRecalc = modeChanged || servicesChanged;
+      if (fullRecalc) {
+        functions.logger.info(
+          `[updateYearlyRate] ${modeChanged ?
+            `Modo de prorrateo cambiado ${previousMode} → ${modoProrrateo}` :
+            "Tarifas de servicios cambiadas"}: recálculo completo`
+        );
 
-            batch.update(doc.ref, {
-              tarifaAplicada: amount,
-              totalImporte: nuevoImporteNormalizado,
-              updatedAt: now,
-              updatedBy: `auto:${userEmail}`,
-            });
+        const openMonths = Array.from(panelsByMonth.keys())
+          .filter((monthKey) => !lockedMonths.has(monthKey))
+          .sort();
 
-            batchCount++;
+        // En orden cronológico: cada mes hereda el estado del anterior
+        for (const monthKey of openMonths) {
+          for (const doc of panelsByMonth.get(monthKey)!) {
+            await recalculatePanelMonth(doc.data().panelId, monthKey);
             panelsUpdated++;
-
-            // Registrar mes afectado (sin duplicados)
-            if (!monthsAffected.includes(monthKey)) {
-              monthsAffected.push(monthKey);
-            }
-
-            // Commit batch cada 500 operaciones
-            if (batchCount >= batchSize) {
-              await batch.commit();
-              batch = db.batch();
-              batchCount = 0;
-              functions.logger.info(
-                `[updateYearlyRate] Batch commit: ${panelsUpdated} paneles actualizados hasta ahora`
-              );
-            }
           }
+          monthsAffected.push(monthKey);
+        }
+      }
 
-          // Commit batch final
-          if (batchCount > 0) {
-            await batch.commit();
-          }
+      // Usar batch para actualización masiva (máx 500 operaciones: fila + revisión)
+      const batchSize = 250;
+      let batch = db.batch();
+      let batchCount = 0;
 
-          // Ordenar meses afectados para mejor legibilidad
-          monthsAffected.sort();
-          monthsSkipped.sort();
+      for (const doc of billingSnapshot.docs) {
+        const docData = doc.data();
+        const monthKey = docData.monthKey;
 
+        // Saltar meses cerrados (y todo si ya se hizo el recálculo completo)
+        if (fullRecalc || lockedMonths.has(monthKey)) {
+          continue;
+        }
+
+        // Los paneles con contrato usan la tarifa del contrato, no la estándar
+        if (docData.origenTarifa === "CONTRATO") {
+          continue;
+        }
+
+        const diasFacturables = docData.totalDiasFacturables || 0;
+        const diasMes = getBillingDaysInMonth(monthKey, modoProrrateo);
+
+        // Con tramos de tarifa (CAMBIO_TARIFA a mitad de mes) la tarifa anual solo
+        // rige en el tramo inicial; los tramos posteriores conservan su tarifa
+        const tramosTarifa: RateSegment[] | null = Array.isArray(docData.tramosTarifa) ?
+          (docData.tramosTarifa as RateSegment[]).map((tramo) => tramo.desde === 1 ?
+            {
+              ...tramo,
+              tarifa: amount,
+              importe: prorateDays(tramo.dias, amount, modoProrrateo, diasMes),
+            } :
+            tramo) :
+          null;
+        const tarifaFinal = tramosTarifa && tramosTarifa.length > 0 ?
+          tramosTarifa[tramosTarifa.length - 1].tarifa :
+          amount;
+
+        // Recalcular importe con precisión contable (céntimos) según el modo del año
+        const nuevoImporte = tramosTarifa ?
+          Math.round(tramosTarifa.reduce((sum, tramo) => sum + tramo.importe, 0) * 100) / 100 :
+          modoProrrateo === "COMERCIAL_30" ?
+            calculateImporte(diasFacturables, amount) :
+            calculateProratedImporte(diasFacturables, amount, diasMes);
+
+        // Los servicios recurrentes no dependen de la tarifa base: se conservan
+        const importeServicios = docData.importeServicios || 0;
+        const desglose = Array.isArray(docData.desglose) ?
+          docData.desglose.map((line: any) =>
+            line.servicioId === BASE_LINE_ID ? { ...line, tarifa: tarifaFinal, importe: nuevoImporte } : line
+          ) :
+          undefined;
+
+        // Normalizar a 2 decimales para evitar basura decimal
+        const nuevoImporteNormalizado = Math.round((nuevoImporte + importeServicios) * 100) / 100;
+
+        batch.update(doc.ref, {
+          tarifaAplicada: tarifaFinal,
+          totalImporte: nuevoImporteNormalizado,
+          ...(desglose ? { desglose } : {}),
+          ...(tramosTarifa ? { tramosTarifa } : {}),
+          updatedAt: now,
+          updatedBy: `auto:${userEmail}`,
+        });
+
+        // Revisión inmutable: solo cambia la tarifa, los días se conservan
+        const revision = buildBillingRevision({
+          panelId: docData.panelId,
+          monthKey,
+          codigo: docData.codigo || "",
+          municipio: docData.municipio || "",
+          source: "updateYearlyRate",
+          createdBy: userEmail,
+          inputs: {
+            eventIds: [],
+            previousMonthKey: null,
+            estadoInicial: null,
+            tarifaInicial: amount,
+            modoProrrateo,
+            diasMes,
+          },
+          outputs: {
+            totalDiasFacturables: diasFacturables,
+            totalImporte: nuevoImporteNormalizado,
+            estadoAlCierre: docData.estadoAlCierre,
+            tarifaAplicada: tarifaFinal,
+            ...(desglose ? { desglose } : {}),
+            ...(tramosTarifa ? { tramosTarifa } : {}),
+          },
+        });
+        batch.set(revision.ref, revision.data);
+
+        batchCount++;
+        panelsUpdated++;
+
+        // Registrar mes afectado (sin duplicados)
+        if (!monthsAffected.includes(monthKey)) {
+          monthsAffected.push(monthKey);
+        }
+
+        // Commit batch cada 250 paneles (500 operaciones)
+        if (batchCount >= batchSize) {
+          await batch.commit();
+          batch = db.batch();
+          batchCount = 0;
           functions.logger.info(
-            `[updateYearlyRate] ✅ Propagación completada: ${panelsUpdated} paneles en ${monthsAffected.length} meses`
-          );
-          if (monthsSkipped.length > 0) {
-            functions.logger.info(
-              `[updateYearlyRate] 🔒 Meses omitidos (cerrados): ${monthsSkipped.join(", ")}`
-            );
-          }
-        } else {
-          functions.logger.info(
-            `[updateYearlyRate] ℹ️ No se encontraron paneles en el rango ${startMonthKey} → ${endMonthKey}`
+            `[updateYearlyRate] Batch commit: ${panelsUpdated} paneles actualizados hasta ahora`
           );
         }
-      } catch (propagationError: any) {
-        functions.logger.error(
-          `[updateYearlyRate] ⚠️ Error en propagación automática: ${propagationError.message}`
-        );
-        // No fallar la operación principal si la propagación falla
       }
 
-      // Construir mensaje descriptivo
-      let message = `Tarifa ${year} guardada correctamente`;
-      if (panelsUpdated > 0) {
-        message = `Tarifa ${year} actualizada y propagada a ${panelsUpdated} paneles en ${monthsAffected.length} mes(es)`;
-        if (monthsSkipped.length > 0) {
-          message += `. ${monthsSkipped.length} mes(es) cerrado(s) omitido(s)`;
-        }
+      // Commit batch final
+      if (batchCount > 0) {
+        await batch.commit();
       }
 
-      return {
-        success: true,
-        message,
-        year,
-        amount,
-        updatedAt: now,
-        updatedBy: userEmail,
-        propagation: {
-          panelsUpdated,
-          monthsAffected,
-          monthsSkipped,
-          skippedReason,
-        },
-      };
+      // Ordenar meses afectados para mejor legibilidad
+      monthsAffected.sort();
+      monthsSkipped.sort();
+
+      functions.logger.info(
+        `[updateYearlyRate] ✅ Propagación completada: ${panelsUpdated} paneles en ${monthsAffected.length} meses`
+      );
+      if (monthsSkipped.length > 0) {
+        functions.logger.info(
+          `[updateYearlyRate] 🔒 Meses omitidos (cerrados): ${monthsSkipped.join(", ")}`
+        );
+      }
+    } else {
+      functions.logger.info(
+        `[updateYearlyRate] ℹ️ No se encontraron paneles en el rango ${startMonthKey} → ${endMonthKey}`
+      );
     }
-  );
+  } catch (propagationError: any) {
+    functions.logger.error(
+      `[updateYearlyRate] ⚠️ Error en propagación automática: ${propagationError.message}`
+    );
+    // No fallar la operación principal si la propagación falla
+  }
+
+  // Construir mensaje descriptivo
+  let message = `Tarifa ${year} guardada correctamente`;
+  if (panelsUpdated > 0) {
+    message = `Tarifa ${year} actualizada y propagada a ${panelsUpdated} paneles en ${monthsAffected.length} mes(es)`;
+    if (monthsSkipped.length > 0) {
+      message += `. ${monthsSkipped.length} mes(es) cerrado(s) omitido(s)`;
+    }
+  }
+
+  return {
+    success: true,
+    message,
+    year,
+    amount,
+    modoProrrateo,
+    servicios,
+    updatedAt: now,
+    updatedBy: userEmail,
+    propagation: {
+      panelsUpdated,
+      monthsAffected,
+      monthsSkipped,
+      skippedReason,
+    },
+  };
+}
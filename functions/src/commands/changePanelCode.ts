@@ -0,0 +1,238 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
+import { z } from "zod";
+import { writeAuditLog } from "../lib/audit";
+import { PanelCodeChange, codigoForMonth, otherCodigos } from "../lib/panelCodes";
+import { buildBillingRevision } from "../lib/billingRevisions";
+import { DEFAULT_PRORATION_MODE, getBillingDaysInMonth, isProrationMode } from "../lib/prorationMode";
+
+// Schema de validación para la renumeración de un panel
+const ChangePanelCodeSchema = z.object({
+  panelId: z.string().min(1, "El panelId es obligatorio"),
+  nuevoCodigo: z.string().trim().min(1, "El código nuevo es obligatorio"),
+  effectiveDateLocal: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha inválido (YYYY-MM-DD)"),
+  motivo: z.string().max(500).optional(),
+});
+
+/**
+ * Callable Function: changePanelCode
+ *
+ * Cambia el código de un panel conservando su historial (renumeración de
+ * paradas por la autoridad de transporte). Ver lib/panelCodes.
+ *
+ * Flujo:
+ * 1. Valida permisos (admin)
+ * 2. En una transacción: comprueba que el código nuevo esté libre, mueve el
+ *    candado panelCodes al código nuevo (el anterior queda como alias del
+ *    panel) y guarda el cambio en panels.historialCodigos
+ * 3. Actualiza el código de las filas de billingMonthlyPanel desde el mes de
+ *    la fecha efectiva (con su revisión UPSERT); los meses cerrados no se
+ *    modifican y conservan el código anterior
+ *
+ * @param data - { panelId, nuevoCodigo, effectiveDateLocal, motivo? }
+ * @param context - Contexto de autenticación
+ * @returns { status: "ok", codigoAnterior, codigoNuevo, monthKey, mesesActualizados, mesesCerrados }
+ */
+export const changePanelCode = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    // 1. Validar que el usuario sea admin
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+    const timestamp = now();
+
+    const parseResult = ChangePanelCodeSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { panelId, nuevoCodigo, effectiveDateLocal, motivo } = parseResult.data;
+    const monthKey = effectiveDateLocal.substring(0, 7);
+
+    const db = admin.firestore();
+    const panelRef = db.collection("panels").doc(panelId);
+    const newCodeRef = db.collection("panelCodes").doc(nuevoCodigo);
+
+    // 2. Mover el candado y registrar el cambio (TRANSACCIÓN)
+    const { change, panelData } = await db.runTransaction(async (transaction) => {
+      const [panelDoc, newCodeDoc] = await Promise.all([transaction.get(panelRef), transaction.get(newCodeRef)]);
+
+      if (!panelDoc.exists) {
+        throw new functions.https.HttpsError("not-found", `Panel ${panelId} no encontrado`);
+      }
+
+      const current = panelDoc.data()!;
+      const codigoAnterior: string = current.codigo;
+
+      if (codigoAnterior === nuevoCodigo) {
+        throw new functions.https.HttpsError("invalid-argument", `El panel ya tiene el código ${nuevoCodigo}`);
+      }
+      // El código nuevo puede ser un alias del propio panel (vuelta a un código anterior)
+      if (newCodeDoc.exists && newCodeDoc.data()!.panelId !== panelId) {
+        throw new functions.https.HttpsError(
+          "already-exists",
+          `El código ${nuevoCodigo} ya está asignado a otro panel`
+        );
+      }
+
+      const historial = (current.historialCodigos || []) as PanelCodeChange[];
+      const lastChange = historial[historial.length - 1];
+      if (lastChange && lastChange.effectiveDateLocal >= effectiveDateLocal) {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          `El panel ya cambió de código el ${lastChange.effectiveDateLocal}: la fecha efectiva debe ser posterior`
+        );
+      }
+
+      const codeChange: PanelCodeChange = {
+        codigoAnterior,
+        codigoNuevo: nuevoCodigo,
+        effectiveDateLocal,
+        monthKey,
+        motivo: motivo?.trim() || null,
+        changedBy: userEmail,
+        changedAt: timestamp,
+      };
+      const codigosAnteriores = Array.from(
+        new Set([...(current.codigosAnteriores || []), codigoAnterior])
+      ).filter((codigo) => codigo !== nuevoCodigo);
+
+      transaction.update(panelRef, {
+        codigo: nuevoCodigo,
+        codigosAnteriores,
+        historialCodigos: [...historial, codeChange],
+        updatedAt: timestamp,
+      });
+
+      // Candado de unicidad en el código nuevo
+      transaction.set(newCodeRef, {
+        panelId,
+        codigo: nuevoCodigo,
+        createdAt: timestamp,
+      });
+
+      // El código anterior queda reservado como alias del panel
+      transaction.set(db.collection("panelCodes").doc(codigoAnterior), {
+        panelId,
+        codigo: codigoAnterior,
+        reemplazadoPor: nuevoCodigo,
+        hasta: effectiveDateLocal,
+        updatedAt: timestamp,
+      }, { merge: true });
+
+      return {
+        change: codeChange,
+        panelData: { ...current, codigo: nuevoCodigo, codigosAnteriores, historialCodigos: [...historial, codeChange] },
+      };
+    });
+
+    functions.logger.info(
+      `[changePanelCode] ${panelId}: ${change.codigoAnterior} → ${nuevoCodigo} ` +
+      `desde ${effectiveDateLocal} por ${userEmail}`
+    );
+
+    // 3. Código de cada mes en billingMonthlyPanel (los meses cerrados no se tocan)
+    const billingSnapshot = await db.collection("billingMonthlyPanel").where("panelId", "==", panelId).get();
+    const meses = Array.from(new Set(billingSnapshot.docs.map((doc) => doc.data().monthKey as string)));
+    const summaryDocs = meses.length > 0 ?
+      await db.getAll(...meses.map((mes) => db.collection("billingSummary").doc(mes))) :
+      [];
+    const lockedMonths = new Set(
+      summaryDocs.filter((doc) => doc.exists && doc.data()?.isLocked === true).map((doc) => doc.id)
+    );
+
+    const mesesActualizados: string[] = [];
+    const mesesCerrados: string[] = [];
+    const batch = db.batch();
+    let writes = 0;
+
+    for (const billingDoc of billingSnapshot.docs) {
+      const row = billingDoc.data();
+      const rowMonth = row.monthKey as string;
+
+      if (lockedMonths.has(rowMonth)) {
+        if (rowMonth >= monthKey) mesesCerrados.push(rowMonth);
+        continue;
+      }
+
+      const codigo = codigoForMonth(panelData, rowMonth);
+      const otrosCodigos = otherCodigos(panelData, codigo);
+      if (codigo === row.codigo && otrosCodigos.join() === (row.otrosCodigos || []).join()) continue;
+      if (codigo !== row.codigo) mesesActualizados.push(rowMonth);
+
+      batch.update(billingDoc.ref, { codigo, otrosCodigos, updatedAt: timestamp });
+      const revision = buildCodeRevision({ ...row, codigo }, userEmail);
+      batch.set(revision.ref, revision.data);
+      writes++;
+    }
+
+    if (writes > 0) {
+      await batch.commit();
+    }
+
+    await writeAuditLog(context, {
+      action: "PANEL_CODE_CHANGE",
+      panelId,
+      monthKey,
+      targetId: nuevoCodigo,
+      before: { codigo: change.codigoAnterior },
+      after: { codigo: nuevoCodigo },
+      details: { effectiveDateLocal, motivo: change.motivo, mesesActualizados, mesesCerrados },
+    });
+
+    functions.logger.info(
+      `[changePanelCode] ✅ Meses actualizados: ${mesesActualizados.join(", ") || "ninguno"}` +
+      (mesesCerrados.length > 0 ? `; cerrados (conservan ${change.codigoAnterior}): ${mesesCerrados.join(", ")}` : "")
+    );
+
+    return {
+      status: "ok",
+      codigoAnterior: change.codigoAnterior,
+      codigoNuevo: nuevoCodigo,
+      monthKey,
+      mesesActualizados: mesesActualizados.sort(),
+      mesesCerrados: mesesCerrados.sort(),
+    };
+  });
+
+/**
+ * Revisión UPSERT de una fila a la que solo le cambia el código: los días, el
+ * importe y la tarifa se conservan tal como están en la fila
+ *
+ * @param row - Datos de la fila con el código nuevo
+ * @param userEmail - Admin que cambia el código
+ */
+function buildCodeRevision(row: FirebaseFirestore.DocumentData, userEmail: string) {
+  const modoProrrateo = isProrationMode(row.modoProrrateo) ? row.modoProrrateo : DEFAULT_PRORATION_MODE;
+  return buildBillingRevision({
+    panelId: row.panelId,
+    monthKey: row.monthKey,
+    codigo: row.codigo,
+    municipio: row.municipio || "",
+    source: "changePanelCode",
+    createdBy: userEmail,
+    inputs: {
+      eventIds: [],
+      previousMonthKey: null,
+      estadoInicial: null,
+      tarifaInicial: row.tarifaAplicada || 0,
+      modoProrrateo,
+      diasMes: row.diasMes ?? getBillingDaysInMonth(row.monthKey, modoProrrateo),
+    },
+    outputs: {
+      totalDiasFacturables: row.totalDiasFacturables || 0,
+      totalImporte: row.totalImporte || 0,
+      estadoAlCierre: row.estadoAlCierre,
+      tarifaAplicada: row.tarifaAplicada || 0,
+      ...(Array.isArray(row.desglose) ? { desglose: row.desglose } : {}),
+      ...(Array.isArray(row.tramosTarifa) ? { tramosTarifa: row.tramosTarifa } : {}),
+    },
+  });
+}
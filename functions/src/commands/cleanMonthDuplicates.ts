@@ -1,6 +1,8 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
 import { assertIsAdmin } from "../lib/utils";
+import { buildBillingDeletionRevision } from "../lib/billingRevisions";
+import { writeAuditLog } from "../lib/audit";
 import { z } from "zod";
 
 /**
@@ -133,7 +135,7 @@ export const cleanMonthDuplicates = functions
       // 6. Eliminar duplicados (si no es dry run)
       let deleted = 0;
       if (!dryRun && toDelete.length > 0) {
-        const BATCH_SIZE = 500;
+        const BATCH_SIZE = 250; // 2 operaciones por documento (borrado + revisión)
 
         for (let i = 0; i < toDelete.length; i += BATCH_SIZE) {
           const batch = db.batch();
@@ -141,6 +143,8 @@ export const cleanMonthDuplicates = functions
 
           batchDocs.forEach((docId) => {
             batch.delete(db.collection("billingMonthlyPanel").doc(docId));
+            const revision = buildBillingDeletionRevision(docId, undefined, "cleanMonthDuplicates");
+            batch.set(revision.ref, revision.data);
           });
 
           await batch.commit();
@@ -152,6 +156,16 @@ export const cleanMonthDuplicates = functions
         }
       }
 
+      if (!dryRun && deleted > 0) {
+        await writeAuditLog(context, {
+          action: "MONTH_DUPLICATES_CLEAN",
+          monthKey,
+          before: { billingDocs: totalFound },
+          after: { billingDocs: totalFound - deleted },
+          details: { deletedDocIds: toDelete },
+        });
+      }
+
       const message = dryRun
         ? `DRY RUN: Se eliminarían ${toDelete.length} documentos duplicados`
         : `Limpieza completada: ${deleted} documentos duplicados eliminados`;
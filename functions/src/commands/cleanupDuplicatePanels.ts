@@ -1,17 +1,41 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
-import { assertIsAdmin } from "../lib/utils";
+import { assertIsAdmin, getUserEmail } from "../lib/utils";
+import { eurosToCents, centsToEuros } from "../lib/moneyUtils";
+import { ApprovalImpact, ApprovalPayloads, createApprovalRequest, isApprovedExecution } from "../lib/approvals";
+import { runMergePanels } from "./mergePanels";
 import { z } from "zod";
 
 const CleanupRequest = z.object({
   dryRun: z.boolean().optional(),
+  motivo: z.string().max(500).optional(),
 });
 
+/**
+ * Impacto de la limpieza: paneles duplicados y su facturación
+ * @param toDelete - Paneles duplicados que se fusionan
+ */
+async function cleanupDuplicatePanelsImpact(toDelete: string[]): Promise<ApprovalImpact> {
+  const billingSnapshot = await admin.firestore().collection("billingMonthlyPanel").get();
+  const billingDocs = billingSnapshot.docs.filter((doc) => toDelete.includes(doc.data().panelId));
+
+  return {
+    descripcion: `Fusionar ${toDelete.length} paneles duplicados`,
+    meses: Array.from(new Set(billingDocs.map((doc) => doc.data().monthKey as string))).sort(),
+    eventos: 0, // Los eventos de los duplicados se mueven al panel que se mantiene
+    filasFacturacion: billingDocs.length,
+    paneles: toDelete.length,
+    importeEliminado: centsToEuros(
+      billingDocs.reduce((sum, doc) => sum + eurosToCents(doc.data().totalImporte || 0), 0)
+    ),
+  };
+}
+
 /**
  * Callable Function: cleanupDuplicatePanels
  * 
  * Limpia paneles duplicados en la colección 'panels' basándose en el campo 'codigo'.
- * Para cada código duplicado, mantiene el panel más reciente (por updatedAt) y elimina los demás.
+ * Para cada código duplicado, mantiene el panel más reciente (por updatedAt) y fusiona en él los demás.
  * 
  * Proceso:
  * 1. Lee todos los documentos de panels
@@ -19,12 +43,17 @@ const CleanupRequest = z.object({
  * 3. Para cada grupo con más de 1 panel:
  *    - Ordena por updatedAt descendente
  *    - Mantiene el primero (más reciente)
- *    - Marca los demás para eliminación
- * 4. Elimina paneles duplicados y su billing asociado
+ *    - Marca los demás para fusionar
+ * 4. Fusiona cada duplicado con runMergePanels: mueve sus eventos, repunta
+ *    panelCodes, elimina su billing y reconstruye los meses del panel mantenido
  * 
- * @param data - { dryRun?: boolean }
+ * Sin dryRun ni aprobación crea la solicitud; la limpieza se ejecuta cuando
+ * otro admin la aprueba (ver lib/approvals).
+ * 
+ * @param data - { dryRun?: boolean, motivo? }
  * @param context - Contexto de autenticación
- * @returns { success: true, totalPanels: number, duplicates: number, deleted: number }
+ * @returns { success: true, totalPanels: number, duplicates: number, merged: number };
+ *   sin aprobación, la solicitud creada
  */
 export const cleanupDuplicatePanels = functions
   .region("europe-west1")
@@ -40,13 +69,14 @@ export const cleanupDuplicatePanels = functions
       throw new functions.https.HttpsError("invalid-argument", "Parámetros inválidos");
     }
 
-    const { dryRun = false } = parseResult.data;
+    const { dryRun = false, motivo } = parseResult.data;
 
     functions.logger.info(
       `[cleanupDuplicatePanels] ${dryRun ? "DRY RUN - " : ""}Iniciando limpieza de duplicados`
     );
 
     const db = admin.firestore();
+    const userEmail = getUserEmail(context);
 
     try {
       // 1. Obtener TODOS los paneles
@@ -87,6 +117,7 @@ export const cleanupDuplicatePanels = functions
 
       // 3. Identificar duplicados
       const toDelete: string[] = [];
+      const merges: Array<ApprovalPayloads["MERGE_PANELS"]> = [];
       let duplicateGroups = 0;
 
       panelsByCodigo.forEach((panels, codigo) => {
@@ -100,10 +131,14 @@ export const cleanupDuplicatePanels = functions
           const duplicates = panels.slice(1);
 
           functions.logger.info(
-            `[cleanupDuplicatePanels] Código "${codigo}" duplicado ${panels.length} veces. Manteniendo: ${keep.id}, Eliminando: ${duplicates.map(p => p.id).join(", ")}`
+            `[cleanupDuplicatePanels] Código "${codigo}" duplicado ${panels.length} veces. ` +
+            `Manteniendo: ${keep.id}, Fusionando: ${duplicates.map(p => p.id).join(", ")}`
           );
 
-          duplicates.forEach((panel) => toDelete.push(panel.id));
+          duplicates.forEach((panel) => {
+            toDelete.push(panel.id);
+            merges.push({ panelId: keep.id, duplicatePanelId: panel.id });
+          });
         }
       });
 
@@ -118,101 +153,69 @@ export const cleanupDuplicatePanels = functions
           totalPanels: panelsSnapshot.size,
           uniqueCodes: panelsByCodigo.size,
           duplicates: 0,
-          deleted: 0,
+          merged: 0,
         };
       }
 
-      // Log de primeros 10 paneles a eliminar
+      // Log de primeros 10 paneles a fusionar
       functions.logger.info(
-        `[cleanupDuplicatePanels] Primeros 10 a eliminar: ${toDelete.slice(0, 10).join(", ")}`
+        `[cleanupDuplicatePanels] Primeros 10 a fusionar: ${toDelete.slice(0, 10).join(", ")}`
       );
 
       if (dryRun) {
         return {
           success: true,
-          message: `DRY RUN: Se eliminarían ${toDelete.length} paneles duplicados`,
+          message: `DRY RUN: Se fusionarían ${toDelete.length} paneles duplicados`,
           totalPanels: panelsSnapshot.size,
           uniqueCodes: panelsByCodigo.size,
           duplicateGroups,
           duplicates: toDelete.length,
-          deleted: 0,
+          merged: 0,
           sample: toDelete.slice(0, 10),
         };
       }
 
-      // 4. Eliminar paneles duplicados en lotes
-      functions.logger.info("[cleanupDuplicatePanels] Paso 3: Eliminando paneles duplicados...");
-
-      const BATCH_SIZE = 100;
-      let deleted = 0;
-
-      for (let i = 0; i < toDelete.length; i += BATCH_SIZE) {
-        const batch = db.batch();
-        const batchIds = toDelete.slice(i, i + BATCH_SIZE);
-
-        for (const panelId of batchIds) {
-          // Eliminar documento principal
-          batch.delete(db.collection("panels").doc(panelId));
-        }
-
-        await batch.commit();
-        deleted += batchIds.length;
-
-        functions.logger.info(
-          `[cleanupDuplicatePanels] Progreso: ${deleted}/${toDelete.length} eliminados`
-        );
+      // Sin la aprobación de otro admin solo se crea la solicitud
+      if (!isApprovedExecution(context)) {
+        const impacto = await cleanupDuplicatePanelsImpact(toDelete);
+        return createApprovalRequest("CLEANUP_DUPLICATE_PANELS", {}, impacto, context, motivo);
       }
 
-      // 5. Eliminar billing asociado a paneles eliminados
-      functions.logger.info("[cleanupDuplicatePanels] Paso 4: Eliminando billing de paneles duplicados...");
-      
-      const billingToDelete: string[] = [];
-      const billingSnapshot = await db.collection("billingMonthlyPanel").get();
-      
-      billingSnapshot.forEach(doc => {
-        const panelId = doc.data().panelId;
-        if (toDelete.includes(panelId)) {
-          billingToDelete.push(doc.id);
-        }
-      });
-
-      functions.logger.info(
-        `[cleanupDuplicatePanels] Documentos de billing a eliminar: ${billingToDelete.length}`
-      );
-
-      let billingDeleted = 0;
-      for (let i = 0; i < billingToDelete.length; i += BATCH_SIZE) {
-        const batch = db.batch();
-        const batchIds = billingToDelete.slice(i, i + BATCH_SIZE);
-
-        for (const docId of batchIds) {
-          batch.delete(db.collection("billingMonthlyPanel").doc(docId));
+      // 4. Fusionar cada duplicado en el panel que se mantiene (mueve sus eventos,
+      //    repunta panelCodes y reconstruye los meses; ver mergePanels)
+      functions.logger.info("[cleanupDuplicatePanels] Paso 3: Fusionando paneles duplicados...");
+
+      let merged = 0;
+      const failed: Array<{ panelId: string; duplicatePanelId: string; error: string }> = [];
+
+      for (const merge of merges) {
+        try {
+          await runMergePanels(merge, userEmail);
+          merged++;
+        } catch (error) {
+          // Un mes cerrado bloquea solo esa fusión: se informa y se sigue con el resto
+          functions.logger.warn(
+            `[cleanupDuplicatePanels] No se pudo fusionar ${merge.duplicatePanelId} en ${merge.panelId}: ` +
+            (error as Error).message
+          );
+          failed.push({ ...merge, error: (error as Error).message });
         }
 
-        await batch.commit();
-        billingDeleted += batchIds.length;
-
         functions.logger.info(
-          `[cleanupDuplicatePanels] Billing eliminado: ${billingDeleted}/${billingToDelete.length}`
+          `[cleanupDuplicatePanels] Progreso: ${merged + failed.length}/${merges.length}`
         );
       }
 
-      // 6. Verificar resultado
-      const finalPanelsSnapshot = await db.collection("panels").get();
-      functions.logger.info(
-        `[cleanupDuplicatePanels] Verificación final: ${finalPanelsSnapshot.size} paneles restantes`
-      );
-
       return {
         success: true,
-        message: `Limpieza completada: ${deleted} paneles duplicados eliminados, ${billingDeleted} documentos de billing eliminados`,
+        message: `Limpieza completada: ${merged} paneles duplicados fusionados` +
+          (failed.length > 0 ? `, ${failed.length} sin fusionar` : ""),
         totalPanels: panelsSnapshot.size,
         uniqueCodes: panelsByCodigo.size,
         duplicateGroups,
         duplicates: toDelete.length,
-        deleted,
-        billingDeleted,
-        finalCount: finalPanelsSnapshot.size,
+        merged,
+        failed,
       };
     } catch (error) {
       functions.logger.error("[cleanupDuplicatePanels] Error:", error);
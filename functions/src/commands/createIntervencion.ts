@@ -4,6 +4,7 @@ import { assertIsEditorOrAdmin, getUserEmail, now } from "../lib/utils";
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
 import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
+import { writeAuditLog } from "../lib/audit";
 
 // Schema de validación para la solicitud de intervención
 const CreateIntervencionSchema = z.object({
@@ -129,6 +130,14 @@ export const createIntervencion = functions
 
     functions.logger.info(`[createIntervencion] Evento creado: ${eventRef.id}`);
 
+    await writeAuditLog(context, {
+      action: "INTERVENCION_CREATE",
+      panelId,
+      monthKey,
+      targetId: eventRef.id,
+      after: { tipoIntervencion, concepto, importe, effectiveDateLocal },
+    });
+
     // 7. Recalcular el mes sincrónicamente
     try {
       await recalculatePanelMonth(panelId, monthKey);
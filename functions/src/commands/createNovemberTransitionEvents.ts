@@ -1,6 +1,7 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
 import { assertIsAdmin } from "../lib/utils";
+import { writeAuditLog } from "../lib/audit";
 
 /**
  * Callable Function: createNovemberTransitionEvents
@@ -212,6 +213,16 @@ export const createNovemberTransitionEvents = functions
         `[createNovemberTransitionEvents] Completado: ${successful} creados, ${skipped} omitidos, ${failed} fallidos`
       );
 
+      await writeAuditLog(context, {
+        action: "EVENTS_IMPORT",
+        monthKey: "2025-10",
+        after: { created: successful, skipped, failed },
+        details: {
+          source: "createNovemberTransitionEvents",
+          eventIds: results.filter((r) => r.success && !r.skipped).map((r) => r.eventId),
+        },
+      });
+
       return {
         success: true,
         message: "Eventos de transición creados correctamente",
@@ -0,0 +1,193 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
+import { RECTIFICACION_ACTION, findOpenMonthAfter } from "../lib/rectificaciones";
+import { writeAuditLog } from "../lib/audit";
+
+// Schema de validación para la rectificación
+const CreateRectificacionSchema = z.object({
+  panelId: z.string().min(1, "El panelId es obligatorio"),
+  monthKeyOriginal: z.string().regex(/^\d{4}-\d{2}$/, "Formato de monthKey inválido (YYYY-MM)"),
+  importe: z.number().refine((val) => val !== 0, "El importe no puede ser 0"),
+  motivo: z.string().min(3, "El motivo es obligatorio").max(500, "El motivo es demasiado largo"),
+  targetMonthKey: z.string().regex(/^\d{4}-\d{2}$/, "Formato de monthKey inválido (YYYY-MM)").optional(),
+});
+
+/**
+ * Callable Function: createRectificacion
+ *
+ * Registra una corrección sobre un mes CERRADO sin abrirlo.
+ * El billingMonthlyPanel del mes original no se toca: la diferencia (+/-) se
+ * factura en el mes abierto como evento RECTIFICACION que referencia el mes y
+ * panel originales.
+ *
+ * Flujo:
+ * 1. Valida permisos (admin)
+ * 2. Valida que el mes original esté cerrado y que el panel tenga facturación en él
+ * 3. Determina el mes destino (el indicado o el último mes abierto posterior)
+ * 4. Crea el evento RECTIFICACION en el mes destino
+ * 5. Recalcula el mes destino sincrónicamente
+ *
+ * @param data - { panelId, monthKeyOriginal, importe, motivo, targetMonthKey? }
+ * @param context - Contexto de autenticación
+ * @returns { status: "ok", eventId: string, targetMonthKey: string }
+ */
+export const createRectificacion = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    // 1. Validar que el usuario sea admin
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+    const timestamp = now();
+
+    // 2. Validar el payload
+    const parseResult = CreateRectificacionSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { panelId, monthKeyOriginal, importe, motivo } = parseResult.data;
+
+    const db = admin.firestore();
+
+    // 3. El mes original debe estar cerrado (si está abierto se edita directamente)
+    const originalSummary = await db.collection("billingSummary").doc(monthKeyOriginal).get();
+    if (!originalSummary.exists || originalSummary.data()?.isLocked !== true) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `El mes ${monthKeyOriginal} no está cerrado. Corrige los eventos directamente en el mes.`
+      );
+    }
+
+    const originalBilling = await db
+      .collection("billingMonthlyPanel")
+      .doc(`${panelId}_${monthKeyOriginal}`)
+      .get();
+    if (!originalBilling.exists) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        `El panel ${panelId} no tiene facturación en ${monthKeyOriginal}`
+      );
+    }
+
+    const original = originalBilling.data()!;
+
+    // 4. Mes destino: debe estar abierto y ser posterior al original
+    const targetMonthKey = parseResult.data.targetMonthKey || await findOpenMonthAfter(monthKeyOriginal);
+    if (!targetMonthKey) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `No hay ningún mes abierto posterior a ${monthKeyOriginal} donde registrar la rectificación`
+      );
+    }
+
+    if (targetMonthKey <= monthKeyOriginal) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `El mes destino (${targetMonthKey}) debe ser posterior al mes rectificado (${monthKeyOriginal})`
+      );
+    }
+
+    const targetSummary = await db.collection("billingSummary").doc(targetMonthKey).get();
+    if (!targetSummary.exists || targetSummary.data()?.isLocked === true) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `El mes destino ${targetMonthKey} no existe o está cerrado`
+      );
+    }
+
+    // 5. Verificar que el panel existe
+    const panelDoc = await db.collection("panels").doc(panelId).get();
+    if (!panelDoc.exists) {
+      throw new functions.https.HttpsError("not-found", `Panel ${panelId} no encontrado`);
+    }
+
+    const panelData = panelDoc.data()!;
+
+    functions.logger.info(
+      `[createRectificacion] ${panelData.codigo}: ${monthKeyOriginal} → ${targetMonthKey} / ${importe}€`
+    );
+
+    // 6. Crear el evento RECTIFICACION el día 1 del mes destino
+    const effectiveDateLocal = `${targetMonthKey}-01`;
+    const idempotencyKey = uuidv4();
+    const eventRef = db.collection("panels").doc(panelId).collection("panelEvents").doc();
+
+    await eventRef.set({
+      action: RECTIFICACION_ACTION,
+      effectiveDate: admin.firestore.Timestamp.fromDate(new Date(effectiveDateLocal)),
+      effectiveDateLocal,
+      monthKey: targetMonthKey,
+
+      // Como las intervenciones: no afecta a días ni a estado
+      diasFacturables: 0,
+      importeAFacturar: 0,
+
+      concepto: motivo,
+      rectificacion: {
+        monthKeyOriginal,
+        billingDocIdOriginal: originalBilling.id,
+        importeOriginal: original.totalImporte || 0,
+        municipio: original.municipio || panelData.municipioId,
+      },
+
+      snapshotBefore: null,
+      snapshotAfter: {
+        importeAjuste: importe,
+        codigo: panelData.codigo,
+        ubicacion: panelData.ubicacion || panelData.municipioId,
+      },
+
+      idempotencyKey,
+      isDeleted: false,
+
+      createdAt: timestamp,
+      createdBy: userEmail,
+      updatedAt: timestamp,
+      schemaVersion: 1,
+    });
+
+    functions.logger.info(`[createRectificacion] Evento creado: ${eventRef.id}`);
+
+    await writeAuditLog(context, {
+      action: "RECTIFICACION_CREATE",
+      panelId,
+      monthKey: targetMonthKey,
+      targetId: eventRef.id,
+      before: { monthKey: monthKeyOriginal, totalImporte: original.totalImporte || 0 },
+      after: { importeAjuste: importe, motivo },
+      details: { monthKeyOriginal },
+    });
+
+    // 7. Recalcular el mes destino sincrónicamente
+    try {
+      await recalculatePanelMonth(panelId, targetMonthKey);
+    } catch (error) {
+      functions.logger.error("[createRectificacion] Error en recálculo:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "La rectificación se registró pero hubo un error al recalcular la facturación."
+      );
+    }
+
+    functions.logger.info(
+      `[createRectificacion] ✅ Rectificación registrada por ${userEmail}: panel ${panelData.codigo}, ` +
+      `${monthKeyOriginal} (${original.totalImporte}€) → ${importe}€ en ${targetMonthKey}`
+    );
+
+    return {
+      status: "ok",
+      eventId: eventRef.id,
+      targetMonthKey,
+      idempotencyKey,
+    };
+  });
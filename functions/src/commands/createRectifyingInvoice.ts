@@ -0,0 +1,85 @@
+import * as functions from "firebase-functions";
+import { assertIsAdmin, getUserEmail } from "../lib/utils";
+import { z } from "zod";
+import { issueRectifyingInvoice } from "../lib/invoicing";
+import { writeAuditLog } from "../lib/audit";
+
+const CreateRectifyingInvoiceRequest = z.object({
+  invoiceId: z.string().min(1, "El invoiceId es obligatorio"),
+  modo: z.enum(["ANULACION", "DIFERENCIAS", "RECALCULO"]),
+  motivo: z.string().min(3, "El motivo es obligatorio").max(500, "El motivo es demasiado largo"),
+  lineas: z.array(z.object({
+    concepto: z.string().min(1, "El concepto es obligatorio"),
+    importe: z.number().refine((val) => val !== 0, "El importe no puede ser 0"),
+    panelId: z.string().optional(),
+  })).optional(),
+}).refine(
+  (data) => data.modo !== "DIFERENCIAS" || (data.lineas && data.lineas.length > 0),
+  { message: "El modo DIFERENCIAS requiere al menos una línea", path: ["lineas"] }
+);
+
+/**
+ * Callable Function: createRectifyingInvoice
+ * 
+ * Emite una factura rectificativa sobre una factura ordinaria. Las facturas
+ * emitidas son inmutables: esta es la única vía para corregirlas.
+ * 
+ * Modos:
+ * - ANULACION: anula todo lo facturado (neto de rectificativas previas)
+ * - RECALCULO: regulariza la diferencia con la facturación actual del mes
+ * - DIFERENCIAS: líneas manuales con importes positivos o negativos
+ * 
+ * @param data - { invoiceId, modo, motivo, lineas? }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, invoiceId: string, numero: string, total: number }
+ */
+export const createRectifyingInvoice = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 120,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    // 1. Validar que el llamante sea admin
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+
+    // 2. Validar los datos de entrada
+    const parseResult = CreateRectifyingInvoiceRequest.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { invoiceId, modo, motivo, lineas } = parseResult.data;
+
+    functions.logger.info(
+      `[createRectifyingInvoice] Rectificando ${invoiceId} (${modo}) por ${userEmail}: ${motivo}`
+    );
+
+    const invoice = await issueRectifyingInvoice({
+      invoiceId,
+      modo,
+      motivo,
+      lineas,
+      userEmail,
+    });
+
+    await writeAuditLog(context, {
+      action: "INVOICE_RECTIFY",
+      monthKey: invoice.data.monthKey,
+      targetId: invoice.id,
+      before: { invoiceId },
+      after: { numero: invoice.data.numero, baseImponible: invoice.data.baseImponible, total: invoice.data.total },
+      details: { modo, motivo },
+    });
+
+    return {
+      success: true,
+      invoiceId: invoice.id,
+      numero: invoice.data.numero,
+      baseImponible: invoice.data.baseImponible,
+      total: invoice.data.total,
+    };
+  });
@@ -3,12 +3,55 @@ import * as admin from "firebase-admin";
 import { assertIsEditorOrAdmin, getUserEmail, now } from "../lib/utils";
 import { z } from "zod";
 import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
+import { eurosToCents, centsToEuros } from "../lib/moneyUtils";
+import { ApprovalImpact, ApprovalPayloads, createApprovalRequest, isApprovedExecution } from "../lib/approvals";
 
 const DeleteAllPanelEventsRequest = z.object({
   panelId: z.string().min(1, "panelId requerido"),
   monthKey: z.string().regex(/^\d{4}-\d{2}$/ , "monthKey debe ser YYYY-MM"),
+  motivo: z.string().max(500).optional(),
 });
 
+/**
+ * Impacto de eliminar los eventos del panel en el mes (el mes debe estar abierto)
+ * importeEliminado: importe de los eventos que se eliminan
+ * @param payload - { panelId, monthKey }
+ */
+export async function deleteAllPanelEventsImpact(
+  payload: ApprovalPayloads["DELETE_ALL_PANEL_EVENTS"],
+): Promise<ApprovalImpact> {
+  const { panelId, monthKey } = payload;
+  const db = admin.firestore();
+
+  const [panelDoc, summaryDoc, eventsSnap] = await Promise.all([
+    db.collection("panels").doc(panelId).get(),
+    db.collection("billingSummary").doc(monthKey).get(),
+    db.collection("panels").doc(panelId).collection("panelEvents").where("monthKey", "==", monthKey).get(),
+  ]);
+
+  if (!panelDoc.exists) {
+    throw new functions.https.HttpsError("not-found", `Panel ${panelId} no encontrado`);
+  }
+  if (summaryDoc.exists && summaryDoc.data()?.isLocked === true) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      `El mes ${monthKey} está cerrado; no se pueden eliminar eventos.`
+    );
+  }
+
+  const events = eventsSnap.docs.filter((doc) => doc.data().isDeleted !== true);
+  return {
+    descripcion: `Eliminar los eventos de ${panelDoc.data()!.codigo} en ${monthKey}`,
+    meses: [monthKey],
+    eventos: events.length,
+    filasFacturacion: 0,
+    paneles: 1,
+    importeEliminado: centsToEuros(
+      events.reduce((sum, doc) => sum + eurosToCents(doc.data().importeAFacturar || 0), 0)
+    ),
+  };
+}
+
 export const deleteAllPanelEvents = functions
   .region("europe-west1")
   .runWith({ timeoutSeconds: 300, memory: "512MB" })
@@ -24,7 +67,15 @@ export const deleteAllPanelEvents = functions
       const errors = parse.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join(", ");
       throw new functions.https.HttpsError("invalid-argument", errors);
     }
-    const { panelId, monthKey } = parse.data;
+    const { panelId, monthKey, motivo } = parse.data;
+
+    // Sin la aprobación de otro admin solo se crea la solicitud
+    if (!isApprovedExecution(context)) {
+      const payload = { panelId, monthKey };
+      return createApprovalRequest(
+        "DELETE_ALL_PANEL_EVENTS", payload, await deleteAllPanelEventsImpact(payload), context, motivo
+      );
+    }
 
     const db = admin.firestore();
 
@@ -1,12 +1,34 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
 import { assertIsAdmin } from "../lib/utils";
+import { buildBillingDeletionRevision } from "../lib/billingRevisions";
+import {
+  ApprovalImpact,
+  ApprovalPayloads,
+  createApprovalRequest,
+  isApprovedExecution,
+  monthDataImpact,
+} from "../lib/approvals";
 import { z } from "zod";
 
 const DeleteMonthRequest = z.object({
   monthKey: z.string().regex(/^\d{4}-\d{2}$/, "Formato de monthKey inválido (YYYY-MM)"),
+  motivo: z.string().max(500).optional(),
 });
 
+/**
+ * Impacto de eliminar los datos del mes
+ * @param payload - { monthKey }
+ */
+export async function deleteMonthDataImpact(
+  payload: ApprovalPayloads["DELETE_MONTH_DATA"],
+): Promise<ApprovalImpact> {
+  return {
+    ...(await monthDataImpact(payload.monthKey)),
+    descripcion: `Eliminar datos de facturación y eventos de ${payload.monthKey}`,
+  };
+}
+
 /**
  * Callable Function: deleteMonthData
  * 
@@ -18,9 +40,13 @@ const DeleteMonthRequest = z.object({
  * IMPORTANTE: Elimina eventos fantasma que causan cálculos incorrectos.
  * Esto resuelve el problema de paneles mostrando "1 día" en lugar de "30 días".
  * 
- * @param data - { monthKey: "YYYY-MM" }
+ * Sin aprobación crea la solicitud; se ejecuta cuando otro admin la aprueba
+ * (ver lib/approvals).
+ * 
+ * @param data - { monthKey: "YYYY-MM", motivo? }
  * @param context - Contexto de autenticación
- * @returns { success: true, deletedBilling: number, deletedSummary: boolean, deletedEvents: number }
+ * @returns { success: true, deletedBilling: number, deletedSummary: boolean, deletedEvents: number };
+ *   sin aprobación, la solicitud creada
  */
 export const deleteMonthData = functions
   .region("europe-west1")
@@ -36,7 +62,14 @@ export const deleteMonthData = functions
       throw new functions.https.HttpsError("invalid-argument", "Parámetros inválidos");
     }
 
-    const { monthKey } = parseResult.data;
+    const { monthKey, motivo } = parseResult.data;
+
+    // Sin la aprobación de otro admin solo se crea la solicitud
+    if (!isApprovedExecution(context)) {
+      return createApprovalRequest(
+        "DELETE_MONTH_DATA", { monthKey }, await deleteMonthDataImpact({ monthKey }), context, motivo
+      );
+    }
 
     functions.logger.info(`[deleteMonthData] Eliminando datos de ${monthKey}`);
 
@@ -56,7 +89,7 @@ export const deleteMonthData = functions
       if (totalDocs === 0) {
         functions.logger.info(`[deleteMonthData] No hay documentos para eliminar`);
       } else {
-        const BATCH_SIZE = 500;
+        const BATCH_SIZE = 250; // 2 operaciones por documento (borrado + revisión)
         let deleted = 0;
 
         for (let i = 0; i < billingSnapshot.docs.length; i += BATCH_SIZE) {
@@ -65,6 +98,8 @@ export const deleteMonthData = functions
 
           batchDocs.forEach((doc) => {
             batch.delete(doc.ref);
+            const revision = buildBillingDeletionRevision(doc.id, doc.data(), "deleteMonthData");
+            batch.set(revision.ref, revision.data);
           });
 
           await batch.commit();
@@ -1,8 +1,9 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
-import { CloudTasksClient } from "@google-cloud/tasks";
 import { assertIsEditorOrAdmin, getUserEmail, now } from "../lib/utils";
+import { writeAuditLog } from "../lib/audit";
 import { z } from "zod";
+import { recalculatePanelEvent } from "../workers/recalculatePanelMonth";
 
 // Schema de validación para deletePanelEvent
 const DeletePanelEventRequest = z.object({
@@ -10,8 +11,6 @@ const DeletePanelEventRequest = z.object({
   eventId: z.string().min(1, "El eventId es obligatorio"),
 });
 
-const tasksClient = new CloudTasksClient();
-
 /**
  * Callable Function: deletePanelEvent
  * 
@@ -22,16 +21,17 @@ const tasksClient = new CloudTasksClient();
  * PROCESO:
  * 1. Valida que el usuario sea editor o admin
  * 2. Actualiza el evento con isDeleted: true, deletedAt, deletedBy
- * 3. Encola una tarea processPanelEventTask para recalcular el mes
+ * 3. Recalcula el mes y los meses posteriores abiertos del panel (cascada);
+ *    si falla, encola process-panel-event para reintentarlo
  * 
  * @param data - { panelId: string, eventId: string }
  * @param context - Contexto de autenticación
- * @returns { success: true, eventId: string }
+ * @returns { success: true, eventId: string, cascade?: { updatedMonths, lockedMonth } }
  */
 export const deletePanelEvent = functions
   .region("europe-west1")
   .runWith({
-    timeoutSeconds: 60,
+    timeoutSeconds: 300, // Recalcula el mes y los meses posteriores abiertos (cascada)
     memory: "256MB",
   })
   .https.onCall(async (data: unknown, context) => {
@@ -92,66 +92,36 @@ export const deletePanelEvent = functions
 
     functions.logger.info(`Evento ${eventId} marcado como eliminado por ${userEmail}`);
 
-    // 6. Encolar tarea para recalcular el mes
-    try {
-      await enqueueProcessPanelEventTask(panelId, eventId, eventData.idempotencyKey || eventId);
-      functions.logger.info(`Tarea de recálculo encolada para panel ${panelId}`);
-    } catch (error) {
-      functions.logger.error("Error al encolar tarea de recálculo:", error);
-      // No lanzamos error porque el soft-delete ya se realizó
-    }
+    await writeAuditLog(context, {
+      action: "PANEL_EVENT_DELETE",
+      panelId,
+      monthKey,
+      targetId: eventId,
+      before: {
+        action: eventData.action,
+        effectiveDateLocal: eventData.effectiveDateLocal,
+        diasFacturables: eventData.diasFacturables,
+        importeAFacturar: eventData.importeAFacturar,
+        isDeleted: false,
+      },
+      after: { isDeleted: true },
+    });
+
+    // 6. Recalcular ya el mes y propagar a los meses posteriores abiertos;
+    //    si falla, se encola process-panel-event para reintentarlo
+    const idempotencyKey = eventData.idempotencyKey || eventId;
+    // idempotencyKey + timestamp: cada edición debe poder recalcular de nuevo
+    const cascade = await recalculatePanelEvent(
+      { panelId, eventId, idempotencyKey },
+      monthKey,
+      `${idempotencyKey}-${Date.now()}`,
+    );
 
     // 7. Responder
     return {
       success: true,
       eventId,
       message: "Evento eliminado correctamente",
+      cascade,
     };
   });
-
-/**
- * Encola una tarea en Cloud Tasks para procesar el evento de panel.
- * Reutilizado de requestPanelChange.
- */
-async function enqueueProcessPanelEventTask(
-  panelId: string,
-  eventId: string,
-  idempotencyKey: string
-): Promise<void> {
-  const project = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT;
-  const location = "europe-west1";
-  const queue = "process-panel-event";
-
-  if (!project) {
-    throw new Error("No se pudo determinar el ID del proyecto (GCLOUD_PROJECT)");
-  }
-
-  const parent = tasksClient.queuePath(project, location, queue);
-  const url = `https://${location}-${project}.cloudfunctions.net/processPanelEventTask`;
-
-  // Usar idempotencyKey + timestamp para evitar conflictos con tareas anteriores
-  const taskId = `${idempotencyKey}-${Date.now()}`;
-
-  const task = {
-    name: `${parent}/tasks/${taskId}`,
-    httpRequest: {
-      httpMethod: "POST" as const,
-      url,
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: Buffer.from(
-        JSON.stringify({
-          panelId,
-          eventId,
-          idempotencyKey,
-        })
-      ).toString("base64"),
-      oidcToken: {
-        serviceAccountEmail: `${project}@appspot.gserviceaccount.com`,
-      },
-    },
-  };
-
-  await tasksClient.createTask({ parent, task });
-}
@@ -0,0 +1,287 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { Storage } from "@google-cloud/storage";
+import { assertIsAdmin, getUserEmail, now } from "../lib/utils";
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { writeAuditLog } from "../lib/audit";
+import {
+  BULK_EVENT_JOBS_COLLECTION,
+  BulkEventInputRow,
+  BulkEventJob,
+  BulkEventRowResult,
+  buildBulkResultCsv,
+  normalizeBulkAction,
+  normalizeBulkDate,
+} from "../lib/bulkEvents";
+import { checkReinstallationPrecondition } from "./requestPanelChange";
+import { recalculatePanelMonthCascade } from "../workers/recalculatePanelMonth";
+
+const storage = new Storage();
+
+const ImportPanelEventsSchema = z.object({
+  fileName: z.string().min(1).max(200),
+  rows: z.array(z.object({
+    fila: z.number().int().min(1),
+    codigo: z.string(),
+    accion: z.string(),
+    fecha: z.string(),
+    motivo: z.string().max(500).optional(),
+  })).min(1, "El fichero no tiene filas").max(500, "Máximo 500 filas por importación"),
+  dryRun: z.boolean().optional(), // Solo validar y devolver la vista previa por fila
+});
+
+/**
+ * Callable Function: importPanelEvents
+ *
+ * Importación masiva de DESMONTADO / REINSTALACION / BAJA desde una hoja
+ * (código, acción, fecha, motivo). Cada fila se valida con las reglas de
+ * requestPanelChange: panel existente (panelCodes), mes existente y abierto,
+ * y precondición de REINSTALACION.
+ *
+ * - dryRun: devuelve la validación por fila sin escribir nada
+ * - Confirmación: solo si todas las filas son válidas; crea un job en
+ *   bulkEventJobs, registra los eventos, recalcula cada panel (con cascada a
+ *   meses posteriores abiertos) y sube un CSV de resultado
+ *
+ * @param data - { fileName, rows: [{ fila, codigo, accion, fecha, motivo? }], dryRun? }
+ * @param context - Contexto de autenticación
+ * @returns { status: "preview", rows } o { status: "ok", jobId, resultUrl, rows, mesesRecalculados }
+ */
+export const importPanelEvents = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 540,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+    const timestamp = now();
+
+    const parseResult = ImportPanelEventsSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { fileName, rows, dryRun } = parseResult.data;
+    const validated = await validateBulkRows(rows);
+
+    if (dryRun) {
+      return { status: "preview", rows: validated };
+    }
+
+    const invalid = validated.filter((row) => row.estado === "ERROR");
+    if (invalid.length > 0) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `${invalid.length} fila(s) con errores (${invalid.map((row) => row.fila).join(", ")}). ` +
+        "Corrige el fichero y vuelve a previsualizar."
+      );
+    }
+
+    const db = admin.firestore();
+    const jobRef = db.collection(BULK_EVENT_JOBS_COLLECTION).doc();
+    const job: BulkEventJob = {
+      fileName,
+      estado: "EN_CURSO",
+      totalFilas: validated.length,
+      eventosRegistrados: 0,
+      mesesRecalculados: [],
+      resultUrl: null,
+      createdAt: timestamp,
+      createdBy: userEmail,
+    };
+    await jobRef.set(job);
+
+    functions.logger.info(
+      `[importPanelEvents] Job ${jobRef.id}: ${validated.length} eventos de ${fileName} por ${userEmail}`
+    );
+
+    try {
+      // 1. Registrar los eventos (lotes de 400 escrituras)
+      const BATCH_SIZE = 400;
+      for (let i = 0; i < validated.length; i += BATCH_SIZE) {
+        const batch = db.batch();
+        for (const row of validated.slice(i, i + BATCH_SIZE)) {
+          const idempotencyKey = uuidv4();
+          batch.set(
+            db.collection("panels").doc(row.panelId!).collection("panelEvents").doc(idempotencyKey),
+            {
+              action: row.action,
+              effectiveDate: admin.firestore.Timestamp.fromDate(new Date(row.effectiveDateLocal!)),
+              effectiveDateLocal: row.effectiveDateLocal,
+              monthKey: row.monthKey,
+              diasFacturables: 0,
+              importeAFacturar: 0,
+              motivo: row.motivo,
+              snapshotBefore: {},
+              snapshotAfter: {},
+              bulkJobId: jobRef.id,
+              idempotencyKey,
+              isDeleted: false,
+              createdAt: timestamp,
+              createdBy: userEmail,
+              updatedAt: timestamp,
+              schemaVersion: 1,
+            }
+          );
+          row.eventId = idempotencyKey;
+          row.estado = "REGISTRADA";
+        }
+        await batch.commit();
+      }
+
+      // 2. Recalcular cada panel desde su primer mes afectado (la cascada cubre los siguientes)
+      const firstMonthByPanel = new Map<string, string>();
+      for (const row of validated) {
+        const current = firstMonthByPanel.get(row.panelId!);
+        if (!current || row.monthKey! < current) firstMonthByPanel.set(row.panelId!, row.monthKey!);
+      }
+
+      const mesesRecalculados = new Set<string>();
+      for (const [panelId, monthKey] of firstMonthByPanel) {
+        const cascade = await recalculatePanelMonthCascade(panelId, monthKey);
+        mesesRecalculados.add(monthKey);
+        cascade.updatedMonths.forEach((laterMonthKey) => mesesRecalculados.add(laterMonthKey));
+      }
+
+      // 3. Fichero de resultado
+      const bucketName = "piv-manager.firebasestorage.app";
+      const filePath = `reports/bulk-events/${jobRef.id}.csv`;
+      const file = storage.bucket(bucketName).file(filePath);
+      await file.save(Buffer.from(buildBulkResultCsv(validated), "utf8"), {
+        contentType: "text/csv; charset=utf-8",
+      });
+      await file.makePublic();
+      const resultUrl = `https://storage.googleapis.com/${bucketName}/${filePath}`;
+
+      const meses = Array.from(mesesRecalculados).sort();
+      await jobRef.update({
+        estado: "COMPLETADO",
+        eventosRegistrados: validated.length,
+        mesesRecalculados: meses,
+        resultUrl,
+        finishedAt: now(),
+      });
+
+      functions.logger.info(
+        `[importPanelEvents] ✅ Job ${jobRef.id} completado: ${validated.length} eventos, ` +
+        `${firstMonthByPanel.size} paneles, meses ${meses.join(", ")}`
+      );
+
+      await writeAuditLog(context, {
+        action: "EVENTS_IMPORT",
+        targetId: jobRef.id,
+        after: { eventosRegistrados: validated.length, mesesRecalculados: meses },
+        details: {
+          fileName,
+          paneles: Array.from(firstMonthByPanel.keys()),
+          eventIds: validated.map((row) => row.eventId),
+        },
+      });
+
+      return { status: "ok", jobId: jobRef.id, resultUrl, rows: validated, mesesRecalculados: meses };
+    } catch (error) {
+      const message = (error as Error).message;
+      functions.logger.error(`[importPanelEvents] ❌ Job ${jobRef.id} falló:`, error);
+      await jobRef.update({
+        estado: "ERROR",
+        eventosRegistrados: validated.filter((row) => row.estado === "REGISTRADA").length,
+        error: message,
+        finishedAt: now(),
+      });
+      throw new functions.https.HttpsError("internal", `Error en la importación (job ${jobRef.id}): ${message}`);
+    }
+  });
+
+/**
+ * Valida las filas del fichero con las reglas de requestPanelChange
+ *
+ * @param rows - Filas tal y como vienen del fichero
+ * @return Una entrada por fila, VALIDA o ERROR con el motivo
+ */
+async function validateBulkRows(rows: BulkEventInputRow[]): Promise<BulkEventRowResult[]> {
+  const db = admin.firestore();
+  const panelIdByCodigo = new Map<string, string | null>();
+  const summaryByMonth = new Map<string, FirebaseFirestore.DocumentData | null>();
+  const seen = new Set<string>();
+  const results: BulkEventRowResult[] = [];
+
+  for (const row of rows) {
+    const codigo = row.codigo.trim();
+    const action = normalizeBulkAction(row.accion);
+    const effectiveDateLocal = normalizeBulkDate(row.fecha);
+    const result: BulkEventRowResult = {
+      fila: row.fila,
+      codigo,
+      action,
+      effectiveDateLocal,
+      monthKey: effectiveDateLocal ? effectiveDateLocal.substring(0, 7) : null,
+      motivo: (row.motivo || "").trim(),
+      panelId: null,
+      estado: "VALIDA",
+    };
+    results.push(result);
+
+    const fail = (error: string) => {
+      result.estado = "ERROR";
+      result.error = error;
+    };
+
+    if (!codigo) {
+      fail("Falta el código del panel");
+      continue;
+    }
+    if (!action) {
+      fail(`Acción "${row.accion}" no reconocida (DESMONTADO, REINSTALACION o BAJA)`);
+      continue;
+    }
+    if (!effectiveDateLocal || !result.monthKey) {
+      fail(`Fecha "${row.fecha}" inválida (YYYY-MM-DD o DD/MM/YYYY)`);
+      continue;
+    }
+
+    const duplicateKey = `${codigo}|${action}|${effectiveDateLocal}`;
+    if (seen.has(duplicateKey)) {
+      fail("Fila duplicada en el fichero");
+      continue;
+    }
+    seen.add(duplicateKey);
+
+    // Código → panel a través del candado de unicidad panelCodes/{codigo}
+    if (!panelIdByCodigo.has(codigo)) {
+      const codeDoc = await db.collection("panelCodes").doc(codigo).get();
+      panelIdByCodigo.set(codigo, codeDoc.exists ? (codeDoc.data()!.panelId as string) : null);
+    }
+    const panelId = panelIdByCodigo.get(codigo);
+    if (!panelId) {
+      fail(`Panel ${codigo} no encontrado`);
+      continue;
+    }
+    result.panelId = panelId;
+
+    if (!summaryByMonth.has(result.monthKey)) {
+      const summaryDoc = await db.collection("billingSummary").doc(result.monthKey).get();
+      summaryByMonth.set(result.monthKey, summaryDoc.exists ? summaryDoc.data()! : null);
+    }
+    const summary = summaryByMonth.get(result.monthKey);
+    if (!summary) {
+      fail(`El mes ${result.monthKey} aún no existe: prográmalo como evento programado`);
+      continue;
+    }
+    if (summary.isLocked === true) {
+      fail(`El mes ${result.monthKey} está cerrado y no se pueden crear nuevos eventos`);
+      continue;
+    }
+
+    if (action === "REINSTALACION") {
+      const reinstallationError = await checkReinstallationPrecondition(panelId, result.monthKey);
+      if (reinstallationError) fail(reinstallationError);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,71 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsAdmin, getUserEmail } from "../lib/utils";
+import { z } from "zod";
+import { issueMonthInvoices as issueInvoicesForMonth } from "../lib/invoicing";
+import { writeAuditLog } from "../lib/audit";
+
+const IssueMonthInvoicesRequest = z.object({
+  monthKey: z.string().regex(/^\d{4}-\d{2}$/, "El monthKey debe tener formato YYYY-MM"),
+});
+
+/**
+ * Callable Function: issueMonthInvoices
+ * 
+ * Emite (o completa) las facturas de un mes cerrado. toggleMonthLock lo hace
+ * automáticamente al cerrar; esta función permite reintentar si la emisión falló
+ * (p. ej. faltaban datos fiscales de algún municipio).
+ * 
+ * Es idempotente: los municipios ya facturados se omiten.
+ * 
+ * @param data - { monthKey: "YYYY-MM" }
+ * @param context - Contexto de autenticación
+ * @returns IssueMonthInvoicesResult
+ */
+export const issueMonthInvoices = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 540,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    // 1. Validar que el llamante sea admin
+    await assertIsAdmin(context);
+
+    const userEmail = getUserEmail(context);
+
+    // 2. Validar los datos de entrada
+    const parseResult = IssueMonthInvoicesRequest.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => e.message).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { monthKey } = parseResult.data;
+
+    // 3. Solo se factura un mes cerrado
+    const summaryDoc = await admin.firestore().collection("billingSummary").doc(monthKey).get();
+    if (!summaryDoc.exists || summaryDoc.data()?.isLocked !== true) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `El mes ${monthKey} debe estar cerrado para emitir sus facturas`
+      );
+    }
+
+    functions.logger.info(`[issueMonthInvoices] Emitiendo facturas de ${monthKey} por ${userEmail}`);
+
+    const result = await issueInvoicesForMonth(monthKey, userEmail);
+
+    await writeAuditLog(context, {
+      action: "INVOICES_ISSUE",
+      monthKey,
+      after: { emitidas: result.emitidas },
+      details: { errores: result.errores },
+    });
+
+    return {
+      success: result.errores.length === 0,
+      monthKey,
+      ...result,
+    };
+  });
@@ -0,0 +1,363 @@
+/**
+ * mergePanels - Fusiona un panel duplicado en el panel superviviente
+ *
+ * A diferencia de la limpieza de duplicados por borrado, no se pierde nada:
+ * - Los panelEvents del duplicado (también los eliminados) se mueven al
+ *   superviviente, marcados con mergedFrom
+ * - panelCodes/{codigo del duplicado} pasa a apuntar al superviviente
+ * - Las filas de billingMonthlyPanel del duplicado se eliminan (con revisión) y
+ *   se reconstruyen los meses afectados del superviviente en orden cronológico
+ * - Se elimina el documento panels del duplicado
+ *
+ * Con dryRun devuelve la vista previa lado a lado (datos maestros, eventos y
+ * facturación de cada mes de ambos paneles). Sin dryRun crea una solicitud de
+ * aprobación: la fusión se ejecuta cuando otro admin la aprueba (ver
+ * lib/approvals) y queda en auditLogs como PANEL_MERGE.
+ *
+ * No se permite si algún mes a reconstruir está cerrado.
+ */
+
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { z } from "zod";
+import { assertIsAdmin } from "../lib/utils";
+import { buildBillingDeletionRevision } from "../lib/billingRevisions";
+import { eurosToCents, centsToEuros } from "../lib/moneyUtils";
+import { ApprovalImpact, ApprovalPayloads, createApprovalRequest } from "../lib/approvals";
+import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
+
+const MergePanelsRequest = z.object({
+  panelId: z.string().min(1, "El panel superviviente es obligatorio"),
+  duplicatePanelId: z.string().min(1, "El panel duplicado es obligatorio"),
+  dryRun: z.boolean().optional(),
+  motivo: z.string().max(500).optional(),
+}).refine((data) => data.panelId !== data.duplicatePanelId, {
+  message: "El panel superviviente y el duplicado deben ser distintos",
+  path: ["duplicatePanelId"],
+});
+
+const BATCH_SIZE = 400;
+
+/** Datos de un panel en la vista previa */
+export interface PanelMergeSide {
+  panelId: string;
+  codigo: string;
+  municipioId: string | null;
+  municipio: string | null;
+  ubicacion: string | null;
+  estadoActual: string | null;
+  eventos: number; // Eventos vigentes
+  eventosEliminados: number;
+  meses: number; // Filas de billingMonthlyPanel
+  importeTotal: number; // Suma de totalImporte de todos los meses (€)
+}
+
+/** Facturación de un mes en cada panel (null = sin fila ese mes) */
+export interface PanelMergeMonth {
+  monthKey: string;
+  isLocked: boolean;
+  reconstruir: boolean; // El mes se recalcula en el superviviente
+  superviviente: { estadoAlCierre: string; totalDiasFacturables: number; totalImporte: number } | null;
+  duplicado: { estadoAlCierre: string; totalDiasFacturables: number; totalImporte: number } | null;
+}
+
+export interface PanelMergePreview {
+  superviviente: PanelMergeSide;
+  duplicado: PanelMergeSide;
+  meses: PanelMergeMonth[];
+  eventosDuplicado: Array<{ id: string; action: string; effectiveDateLocal: string; isDeleted: boolean }>;
+  avisos: string[]; // Diferencias que conviene revisar (no impiden la fusión)
+  bloqueos: string[]; // Motivos por los que no se puede fusionar
+}
+
+interface LoadedPanel {
+  ref: FirebaseFirestore.DocumentReference;
+  data: FirebaseFirestore.DocumentData;
+  events: FirebaseFirestore.QueryDocumentSnapshot[];
+  billing: FirebaseFirestore.QueryDocumentSnapshot[];
+}
+
+/**
+ * Lee un panel con sus eventos y su facturación
+ * @param panelId - ID del panel
+ */
+async function loadPanel(panelId: string): Promise<LoadedPanel> {
+  const db = admin.firestore();
+  const ref = db.collection("panels").doc(panelId);
+  const [panelDoc, eventsSnapshot, billingSnapshot] = await Promise.all([
+    ref.get(),
+    ref.collection("panelEvents").get(),
+    db.collection("billingMonthlyPanel").where("panelId", "==", panelId).get(),
+  ]);
+
+  if (!panelDoc.exists) {
+    throw new functions.https.HttpsError("not-found", `Panel ${panelId} no encontrado`);
+  }
+
+  return { ref, data: panelDoc.data()!, events: eventsSnapshot.docs, billing: billingSnapshot.docs };
+}
+
+/**
+ * Resumen de un panel para la vista previa
+ * @param panel - Panel cargado
+ */
+function toMergeSide(panel: LoadedPanel): PanelMergeSide {
+  const eliminados = panel.events.filter((doc) => doc.data().isDeleted === true).length;
+  return {
+    panelId: panel.ref.id,
+    codigo: panel.data.codigo,
+    municipioId: panel.data.municipioId ?? null,
+    municipio: panel.data.municipio ?? null,
+    ubicacion: panel.data.ubicacion ?? null,
+    estadoActual: panel.data.estadoActual ?? null,
+    eventos: panel.events.length - eliminados,
+    eventosEliminados: eliminados,
+    meses: panel.billing.length,
+    importeTotal: centsToEuros(
+      panel.billing.reduce((sum, doc) => sum + eurosToCents(doc.data().totalImporte || 0), 0),
+    ),
+  };
+}
+
+/**
+ * Meses a reconstruir en el superviviente: los del duplicado (facturación y
+ * eventos) y, desde el primero de ellos, todos los del superviviente
+ * (cada mes hereda el estado del anterior)
+ */
+function monthsToRebuild(survivor: LoadedPanel, duplicate: LoadedPanel): string[] {
+  const duplicateMonths = new Set<string>([
+    ...duplicate.billing.map((doc) => doc.data().monthKey as string),
+    ...duplicate.events.map((doc) => doc.data().monthKey as string).filter(Boolean),
+  ]);
+  if (duplicateMonths.size === 0) return [];
+
+  const firstMonth = Array.from(duplicateMonths).sort()[0];
+  survivor.billing
+    .map((doc) => doc.data().monthKey as string)
+    .filter((monthKey) => monthKey >= firstMonth)
+    .forEach((monthKey) => duplicateMonths.add(monthKey));
+
+  return Array.from(duplicateMonths).sort();
+}
+
+/**
+ * Meses cerrados (billingSummary.isLocked) de la lista
+ * @param monthKeys - Meses a comprobar
+ */
+async function lockedMonths(monthKeys: string[]): Promise<Set<string>> {
+  const db = admin.firestore();
+  const locked = new Set<string>();
+  for (const monthKey of monthKeys) {
+    const summaryDoc = await db.collection("billingSummary").doc(monthKey).get();
+    if (summaryDoc.exists && summaryDoc.data()!.isLocked === true) {
+      locked.add(monthKey);
+    }
+  }
+  return locked;
+}
+
+/**
+ * Vista previa lado a lado de la fusión (no escribe nada)
+ * @param payload - { panelId: superviviente, duplicatePanelId }
+ */
+export async function mergePanelsPreview(payload: ApprovalPayloads["MERGE_PANELS"]): Promise<PanelMergePreview> {
+  const [survivor, duplicate] = await Promise.all([loadPanel(payload.panelId), loadPanel(payload.duplicatePanelId)]);
+
+  const rebuild = monthsToRebuild(survivor, duplicate);
+  const allMonths = Array.from(new Set([
+    ...rebuild,
+    ...survivor.billing.map((doc) => doc.data().monthKey as string),
+  ])).sort();
+  const locked = await lockedMonths(allMonths);
+
+  const billingByMonth = (panel: LoadedPanel) => new Map(panel.billing.map((doc) => [doc.data().monthKey, doc.data()]));
+  const survivorBilling = billingByMonth(survivor);
+  const duplicateBilling = billingByMonth(duplicate);
+  const monthState = (data: FirebaseFirestore.DocumentData | undefined) => data ? {
+    estadoAlCierre: data.estadoAlCierre,
+    totalDiasFacturables: data.totalDiasFacturables,
+    totalImporte: data.totalImporte,
+  } : null;
+
+  const avisos: string[] = [];
+  if (survivor.data.codigo !== duplicate.data.codigo) {
+    avisos.push(
+      `Códigos distintos: ${duplicate.data.codigo} pasará a apuntar al panel ${survivor.data.codigo}`,
+    );
+  }
+  if ((survivor.data.municipioId ?? null) !== (duplicate.data.municipioId ?? null)) {
+    avisos.push(
+      `Municipios distintos (${survivor.data.municipio ?? "—"} / ${duplicate.data.municipio ?? "—"}): ` +
+      "se mantiene el del superviviente",
+    );
+  }
+  const hasAlta = (panel: LoadedPanel) =>
+    panel.events.some((doc) => doc.data().action === "ALTA_INICIAL" && doc.data().isDeleted !== true);
+  if (hasAlta(survivor) && hasAlta(duplicate)) {
+    avisos.push("Ambos paneles tienen ALTA_INICIAL vigente: revisa los eventos tras la fusión");
+  }
+
+  const bloqueos = rebuild
+    .filter((monthKey) => locked.has(monthKey))
+    .map((monthKey) => `El mes ${monthKey} está cerrado y habría que reconstruirlo. Ábrelo primero.`);
+
+  return {
+    superviviente: toMergeSide(survivor),
+    duplicado: toMergeSide(duplicate),
+    meses: allMonths.map((monthKey) => ({
+      monthKey,
+      isLocked: locked.has(monthKey),
+      reconstruir: rebuild.includes(monthKey),
+      superviviente: monthState(survivorBilling.get(monthKey)),
+      duplicado: monthState(duplicateBilling.get(monthKey)),
+    })),
+    eventosDuplicado: duplicate.events
+      .map((doc) => ({
+        id: doc.id,
+        action: doc.data().action,
+        effectiveDateLocal: doc.data().effectiveDateLocal,
+        isDeleted: doc.data().isDeleted === true,
+      }))
+      .sort((a, b) => String(a.effectiveDateLocal).localeCompare(String(b.effectiveDateLocal))),
+    avisos,
+    bloqueos,
+  };
+}
+
+/**
+ * Impacto de la fusión (y validación previa: paneles y meses cerrados)
+ * @param payload - { panelId: superviviente, duplicatePanelId }
+ */
+export async function mergePanelsImpact(payload: ApprovalPayloads["MERGE_PANELS"]): Promise<ApprovalImpact> {
+  const preview = await mergePanelsPreview(payload);
+  if (preview.bloqueos.length > 0) {
+    throw new functions.https.HttpsError("failed-precondition", preview.bloqueos.join(" "));
+  }
+
+  return {
+    descripcion: `Fusionar panel ${preview.duplicado.codigo} en ${preview.superviviente.codigo}`,
+    meses: preview.meses.filter((month) => month.reconstruir).map((month) => month.monthKey),
+    eventos: 0, // Los eventos del duplicado se mueven, no se eliminan
+    filasFacturacion: preview.duplicado.meses,
+    paneles: 1,
+    importeEliminado: preview.duplicado.importeTotal,
+  };
+}
+
+/**
+ * Ejecuta la fusión (al aprobar la solicitud o desde la limpieza de duplicados)
+ * @param payload - { panelId: superviviente, duplicatePanelId }
+ * @param userEmail - Admin que aprobó la fusión
+ */
+export async function runMergePanels(payload: ApprovalPayloads["MERGE_PANELS"], userEmail: string) {
+  const db = admin.firestore();
+  const [survivor, duplicate] = await Promise.all([loadPanel(payload.panelId), loadPanel(payload.duplicatePanelId)]);
+
+  // 1. Revalidar meses cerrados (pueden haberse cerrado desde la solicitud)
+  const rebuild = monthsToRebuild(survivor, duplicate);
+  const locked = await lockedMonths(rebuild);
+  if (locked.size > 0) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      `No se puede fusionar: ${Array.from(locked).join(", ")} cerrado(s). Abre los meses primero.`,
+    );
+  }
+
+  functions.logger.info(
+    `[mergePanels] ${duplicate.ref.id} (${duplicate.data.codigo}) → ${survivor.ref.id} (${survivor.data.codigo}) ` +
+    `por ${userEmail}: ${duplicate.events.length} eventos, meses ${rebuild.join(", ") || "ninguno"}`,
+  );
+
+  // 2. Operaciones de escritura: mover eventos, eliminar la facturación del duplicado,
+  //    repuntar panelCodes y eliminar el panel duplicado
+  const survivorEventIds = new Set(survivor.events.map((doc) => doc.id));
+  const now = admin.firestore.Timestamp.now();
+  const writes: Array<(batch: FirebaseFirestore.WriteBatch) => void> = [];
+  const movedEvents: Record<string, string> = {}; // id en el duplicado → id en el superviviente
+
+  for (const eventDoc of duplicate.events) {
+    const targetId = survivorEventIds.has(eventDoc.id) ? `${duplicate.ref.id}_${eventDoc.id}` : eventDoc.id;
+    movedEvents[eventDoc.id] = targetId;
+    writes.push((batch) => {
+      batch.set(survivor.ref.collection("panelEvents").doc(targetId), {
+        ...eventDoc.data(),
+        mergedFrom: duplicate.ref.id,
+        mergedAt: now,
+        mergedBy: userEmail,
+      });
+      batch.delete(eventDoc.ref);
+    });
+  }
+
+  for (const billingDoc of duplicate.billing) {
+    writes.push((batch) => {
+      batch.delete(billingDoc.ref);
+      const revision = buildBillingDeletionRevision(billingDoc.id, billingDoc.data(), "mergePanels", userEmail);
+      batch.set(revision.ref, revision.data);
+    });
+  }
+
+  writes.push((batch) => {
+    batch.set(db.collection("panelCodes").doc(duplicate.data.codigo), {
+      panelId: survivor.ref.id,
+      codigo: duplicate.data.codigo,
+      mergedFrom: duplicate.ref.id,
+      updatedAt: now,
+    }, { merge: true });
+    batch.delete(duplicate.ref);
+  });
+
+  // Cada evento son 2 escrituras y cada fila de facturación otras 2
+  for (let i = 0; i < writes.length; i += BATCH_SIZE / 2) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_SIZE / 2).forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  // 3. Reconstruir los meses del superviviente en orden (también recalcula billingSummary)
+  for (const monthKey of rebuild) {
+    await recalculatePanelMonth(survivor.ref.id, monthKey);
+  }
+
+  functions.logger.info(`[mergePanels] ✅ ${duplicate.ref.id} fusionado en ${survivor.ref.id}`);
+
+  return {
+    success: true,
+    message: `Panel ${duplicate.data.codigo} fusionado en ${survivor.data.codigo}`,
+    panelId: survivor.ref.id,
+    duplicatePanelId: duplicate.ref.id,
+    codigoDuplicado: duplicate.data.codigo,
+    eventosMovidos: movedEvents,
+    filasFacturacionEliminadas: duplicate.billing.length,
+    mesesReconstruidos: rebuild,
+  };
+}
+
+/**
+ * Callable Function: mergePanels
+ *
+ * @param data - { panelId: superviviente, duplicatePanelId, dryRun?, motivo? }
+ * @param context - Contexto de autenticación
+ * @returns dryRun: { status: "preview", preview }; si no, la solicitud de aprobación creada
+ */
+export const mergePanels = functions
+  .region("europe-west1")
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const parseResult = MergePanelsRequest.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { panelId, duplicatePanelId, dryRun = false, motivo } = parseResult.data;
+    const payload = { panelId, duplicatePanelId };
+
+    if (dryRun) {
+      return { status: "preview", preview: await mergePanelsPreview(payload) };
+    }
+
+    const impacto = await mergePanelsImpact(payload);
+    return createApprovalRequest("MERGE_PANELS", payload, impacto, context, motivo);
+  });
@@ -3,7 +3,8 @@ import * as admin from "firebase-admin";
 import { assertIsAdmin } from "../lib/utils";
 import { z } from "zod";
 import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
-import { eurosToCents, centsToEuros, sumImportesCents } from "../lib/moneyUtils";
+import { writeAuditLog } from "../lib/audit";
+import { computeSummaryTotals, getDefaultDiasMes } from "../lib/summaryTotals";
 
 /**
  * Schema de validación para regenerateMonthBilling
@@ -121,32 +122,11 @@ export const regenerateMonthBilling = functions
         .where("monthKey", "==", monthKey)
         .get();
 
-      const importesCents: number[] = [];
-      let totalPanelesFacturables = 0;
-      let panelesActivos = 0;
-      let panelesParciales = 0;
-
-      for (const doc of billingSnapshot.docs) {
-        const data = doc.data();
-        const diasFacturables = data.totalDiasFacturables || 0;
-        const importe = data.totalImporte || 0;
-
-        if (importe > 0) {
-          importesCents.push(eurosToCents(importe));
-          totalPanelesFacturables++;
-        }
-
-        if (diasFacturables >= 30) {
-          panelesActivos++;
-        } else if (diasFacturables > 0) {
-          panelesParciales++;
-        }
-      }
-
-      // Sumar con precisión de céntimos y normalizar a 2 decimales
-      // Consistente con summaryCalculations.ts
-      const totalImporteCents = sumImportesCents(importesCents);
-      const totalImporteMes = Math.round(centsToEuros(totalImporteCents) * 100) / 100;
+      // Mismo criterio que el resto de escritores de billingSummary (lib/summaryTotals)
+      const { totalImporteMes, totalPanelesFacturables, panelesActivos, panelesParciales } = computeSummaryTotals(
+        billingSnapshot.docs.map((doc) => doc.data()),
+        await getDefaultDiasMes(monthKey)
+      );
 
       // Nota: totalEventos se calcula posteriormente de forma asíncrona por updateSummaryTask
       const totalEventos = 0;
@@ -172,6 +152,13 @@ export const regenerateMonthBilling = functions
         `[regenerateMonthBilling] billingSummary actualizado: ${totalImporteMes}€, ${totalPanelesFacturables} paneles`
       );
 
+      await writeAuditLog(context, {
+        action: "MONTH_REGENERATE",
+        monthKey,
+        after: { totalImporteMes, totalPanelesFacturables, panelesActivos, panelesParciales, totalEventos },
+        details: { totalPanels, processed, errors: errors.length },
+      });
+
       // 6. Retornar resultado
       return {
         success: true,
@@ -1,12 +1,17 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
-import { CloudTasksClient } from "@google-cloud/tasks";
 import { assertIsEditorOrAdmin, getUserEmail, now } from "../lib/utils";
+import { writeAuditLog } from "../lib/audit";
 import { PanelEventAction, PanelSnapshot } from "../lib/schemas";
 import { getPreviousMonthKey } from "../lib/billingRules";
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
-import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
+import {
+  PanelMonthComputation,
+  computePanelMonth,
+  recalculatePanelEvent,
+} from "../workers/recalculatePanelMonth";
+import { PanelState } from "../lib/billingEngine";
 
 // Schema de validación para snapshots
 const PanelSnapshotSchema = z.object({
@@ -33,28 +38,31 @@ const RequestPanelChangeSchema = z.object({
   motivo: z.string().optional(),
   snapshotBefore: PanelSnapshotSchema.nullable(),
   snapshotAfter: PanelSnapshotSchema.nullable(),
+  dryRun: z.boolean().optional(), // Vista previa: calcula en memoria sin guardar el evento
 });
 
 type RequestPanelChangeData = z.infer<typeof RequestPanelChangeSchema>;
 
-// Cliente de Cloud Tasks
-const tasksClient = new CloudTasksClient();
-
 /**
  * Callable Function: requestPanelChange
  * 
  * Patrón Asíncrono: La UI llama esta función para crear un evento de panel.
- * La función valida, crea el evento en Firestore y encola una tarea en Cloud Tasks.
- * Responde inmediatamente con {status: "ok"} sin esperar el procesamiento.
+ * La función valida, crea el evento en Firestore y recalcula el mes (con cascada)
+ * para devolver los totales. Si el recálculo falla encola process-panel-event
+ * (lib/taskQueue) para que la cola lo reintente.
+ * 
+ * Con `dryRun: true` no escribe nada: aplica el mismo prorrateo que
+ * recalculatePanelMonth sobre los eventos existentes + el propuesto y devuelve
+ * el resultado del mes y el efecto sobre el mes siguiente si está abierto.
  * 
  * @param data - Datos del evento (action, effectiveDate, diasFacturables, etc.)
  * @param context - Contexto de autenticación
- * @returns { status: "ok", eventId: string, idempotencyKey: string }
+ * @returns { status: "ok", eventId: string, idempotencyKey: string } o { status: "preview", preview }
  */
 export const requestPanelChange = functions
   .region("europe-west1")
   .runWith({
-    timeoutSeconds: 60, // 1 minuto es suficiente para validar y encolar
+    timeoutSeconds: 300, // Recalcula el mes y los meses posteriores abiertos (cascada)
     memory: "256MB",
   })
   .https.onCall(async (data: unknown, context) => {
@@ -88,27 +96,20 @@ export const requestPanelChange = functions
 
     // 3.1 Validación ligera para REINSTALACION: requiere estado previo DESMONTADO/BAJA
     if (eventData.action === "REINSTALACION") {
-      const previousMonthKey = getPreviousMonthKey(monthKey);
-
-      const panelSnap = await db.collection("panels").doc(panelId).get();
-      const prevBillingSnap = await db
-        .collection("billingMonthlyPanel")
-        .doc(`${panelId}_${previousMonthKey}`)
-        .get();
-
-      const prevState: string = prevBillingSnap.exists
-        ? (prevBillingSnap.data()!.estadoAlCierre as string)
-        : (panelSnap.data()?.estadoActual as string) || "ACTIVO";
-
-      if (prevState === "ACTIVO") {
-        throw new functions.https.HttpsError(
-          "failed-precondition",
-          `No se puede REINSTALAR porque el estado previo (${previousMonthKey}) es ACTIVO. ` +
-            `Primero debe quedar DESMONTADO o BAJA en el mes anterior.`
-        );
+      const reinstallationError = await checkReinstallationPrecondition(panelId, monthKey);
+      if (reinstallationError) {
+        throw new functions.https.HttpsError("failed-precondition", reinstallationError);
       }
     }
 
+    // 3.2 Vista previa: calcular sin escribir el evento
+    if (eventData.dryRun) {
+      return {
+        status: "preview",
+        preview: await buildPanelChangePreview(eventData),
+      };
+    }
+
     // 4. Generar idempotencyKey (UUID v4)
     const idempotencyKey = uuidv4();
     const eventId = idempotencyKey; // Usamos el mismo UUID como ID del documento
@@ -142,94 +143,185 @@ export const requestPanelChange = functions
 
     functions.logger.info(`Evento ${eventId} creado para el panel ${panelId} (action: ${eventData.action})`);
 
-    // 6. Encolar tarea en Cloud Tasks (cola: process-panel-event)
-    try {
-      await enqueueProcessPanelEventTask(panelId, eventId, idempotencyKey);
-      functions.logger.info(`Tarea encolada en Cloud Tasks con taskId: ${idempotencyKey}`);
-    } catch (error) {
-      functions.logger.error("Error al encolar la tarea en Cloud Tasks:", error);
-      // No lanzamos error aquí porque el evento ya está creado.
-      // La tarea puede ser reencolada manualmente o mediante un trigger.
-    }
+    await writeAuditLog(context, {
+      action: "PANEL_EVENT_CREATE",
+      panelId,
+      monthKey,
+      targetId: eventId,
+      before: eventData.snapshotBefore,
+      after: eventData.snapshotAfter,
+      details: {
+        eventAction: eventData.action,
+        effectiveDateLocal: eventData.effectiveDateLocal,
+        diasFacturables: eventData.diasFacturables,
+        importeAFacturar: eventData.importeAFacturar,
+        motivo: eventData.motivo || "",
+      },
+    });
 
-    // 7. Recalcular facturación inmediatamente y devolver totales
-    try {
-      await recalculatePanelMonth(panelId, monthKey);
-    } catch (recalcError) {
-      functions.logger.error("Error al recalcular panel:", recalcError);
-      // Continuar para devolver respuesta
-    }
+    // 6-7. Recalcular facturación inmediatamente (y los meses posteriores abiertos) y devolver totales;
+    //      si falla, se encola process-panel-event para reintentarlo
+    const cascade = await recalculatePanelEvent({ panelId, eventId, idempotencyKey }, monthKey, idempotencyKey);
 
     // Leer el billingMonthlyPanel actualizado
-    const billingRef = db.collection("billingMonthlyPanel").doc(`${panelId}_${monthKey}`);
-    const billingDoc = await billingRef.get();
-    const billing = billingDoc.exists ? billingDoc.data() as any : null;
+    const billingDoc = await db.collection("billingMonthlyPanel").doc(`${panelId}_${monthKey}`).get();
 
     // 8. Responder con totales de facturación
     return {
       status: "ok",
       eventId,
       idempotencyKey,
-      totals: billing
-        ? {
-            totalDiasFacturables: billing.totalDiasFacturables || 0,
-            totalImporte: billing.totalImporte || 0,
-            estadoAlCierre: billing.estadoAlCierre || "ACTIVO",
-            tarifaAplicada: billing.tarifaAplicada || 0,
-          }
-        : undefined,
+      totals: totalsFromBilling(billingDoc) ?? undefined,
+      cascade,
     };
   });
 
 /**
- * Encola una tarea en Cloud Tasks para procesar el evento de panel.
- * Usa idempotencyKey como taskId para deduplicación automática.
- * 
+ * Precondición de REINSTALACION: el panel debe cerrar el mes anterior DESMONTADO o BAJA
+ * (sin mes anterior, se usa panels.estadoActual)
+ *
  * @param panelId - ID del panel
- * @param eventId - ID del evento
- * @param idempotencyKey - Clave de idempotencia (UUID v4)
+ * @param monthKey - Mes del evento (YYYY-MM)
+ * @return Mensaje de error, o null si se puede reinstalar
  */
-async function enqueueProcessPanelEventTask(
-  panelId: string,
-  eventId: string,
-  idempotencyKey: string
-): Promise<void> {
-  const project = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT;
-  const location = "europe-west1"; // Ajustar según tu configuración
-  const queue = "process-panel-event";
-
-  if (!project) {
-    throw new Error("No se pudo determinar el ID del proyecto (GCLOUD_PROJECT)");
+export async function checkReinstallationPrecondition(panelId: string, monthKey: string): Promise<string | null> {
+  const db = admin.firestore();
+  const previousMonthKey = getPreviousMonthKey(monthKey);
+
+  const panelSnap = await db.collection("panels").doc(panelId).get();
+  const prevBillingSnap = await db
+    .collection("billingMonthlyPanel")
+    .doc(`${panelId}_${previousMonthKey}`)
+    .get();
+
+  const prevState: string = prevBillingSnap.exists
+    ? (prevBillingSnap.data()!.estadoAlCierre as string)
+    : (panelSnap.data()?.estadoActual as string) || "ACTIVO";
+
+  if (prevState === "ACTIVO") {
+    return `No se puede REINSTALAR porque el estado previo (${previousMonthKey}) es ACTIVO. ` +
+      `Primero debe quedar DESMONTADO o BAJA en el mes anterior.`;
   }
+  return null;
+}
 
-  // Construir la ruta de la cola
-  const parent = tasksClient.queuePath(project, location, queue);
+type BillingTotals = {
+  totalDiasFacturables: number;
+  totalImporte: number;
+  estadoAlCierre: PanelState;
+  tarifaAplicada: number;
+};
 
-  // URL del Cloud Function HTTP que procesará el evento
-  const url = `https://${location}-${project}.cloudfunctions.net/processPanelEventTask`;
+/**
+ * Totales de un billingMonthlyPanel guardado (null si no existe)
+ */
+function totalsFromBilling(doc: FirebaseFirestore.DocumentSnapshot): BillingTotals | null {
+  if (!doc.exists) return null;
+  const billing = doc.data() as Partial<BillingTotals>;
+  return {
+    totalDiasFacturables: billing.totalDiasFacturables || 0,
+    totalImporte: billing.totalImporte || 0,
+    estadoAlCierre: billing.estadoAlCierre || "ACTIVO",
+    tarifaAplicada: billing.tarifaAplicada || 0,
+  };
+}
 
-  // Crear la tarea con idempotencyKey como taskId
-  const task = {
-    name: `${parent}/tasks/${idempotencyKey}`, // Deduplicación automática
-    httpRequest: {
-      httpMethod: "POST" as const,
-      url,
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: Buffer.from(
-        JSON.stringify({
-          panelId,
-          eventId,
-          idempotencyKey,
-        })
-      ).toString("base64"),
-      oidcToken: {
-        serviceAccountEmail: `${project}@appspot.gserviceaccount.com`,
-      },
+/**
+ * Totales de un mes calculado en memoria
+ */
+function totalsFromComputation(computation: PanelMonthComputation): BillingTotals {
+  return {
+    totalDiasFacturables: computation.state.totalDiasFacturables,
+    totalImporte: computation.state.totalImporte,
+    estadoAlCierre: computation.state.estadoAlCierre,
+    tarifaAplicada: computation.state.tarifaAplicada,
+  };
+}
+
+/**
+ * Mes siguiente en formato YYYY-MM
+ */
+function getNextMonthKey(monthKey: string): string {
+  const [year, month] = monthKey.split("-").map(Number);
+  const nextYear = month === 12 ? year + 1 : year;
+  const nextMonth = month === 12 ? 1 : month + 1;
+  return `${nextYear}-${String(nextMonth).padStart(2, "0")}`;
+}
+
+/**
+ * Vista previa de un cambio de panel (dryRun)
+ *
+ * Calcula en memoria el mes con el evento propuesto y, si el mes siguiente
+ * existe y está abierto, lo recalcula heredando el nuevo estado de cierre.
+ * No escribe nada en Firestore.
+ *
+ * @param eventData - Evento propuesto (ya validado)
+ */
+async function buildPanelChangePreview(eventData: RequestPanelChangeData) {
+  const db = admin.firestore();
+  const { panelId, monthKey } = eventData;
+
+  const proposedEvent = {
+    id: "preview",
+    data: {
+      action: eventData.action,
+      effectiveDateLocal: eventData.effectiveDateLocal,
+      motivo: eventData.motivo || "",
+      snapshotBefore: eventData.snapshotBefore as PanelSnapshot | null,
+      snapshotAfter: eventData.snapshotAfter as PanelSnapshot | null,
+      idempotencyKey: "preview",
     },
   };
 
-  // Encolar la tarea
-  await tasksClient.createTask({ parent, task });
+  let month: PanelMonthComputation;
+  try {
+    month = await computePanelMonth(panelId, monthKey, { extraEvents: [proposedEvent] });
+  } catch (error) {
+    throw new functions.https.HttpsError("failed-precondition", (error as Error).message);
+  }
+
+  const currentBilling = await db.collection("billingMonthlyPanel").doc(`${panelId}_${monthKey}`).get();
+
+  // Efecto en el mes siguiente (hereda estado, tarifa, contrato y servicios del mes previsto)
+  const nextMonthKey = getNextMonthKey(monthKey);
+  const nextSummary = await db.collection("billingSummary").doc(nextMonthKey).get();
+  let nextMonth: {
+    monthKey: string;
+    isLocked: boolean;
+    before: BillingTotals | null;
+    after: BillingTotals | null;
+  } | null = null;
+
+  if (nextSummary.exists) {
+    const isLocked = nextSummary.data()?.isLocked === true;
+    const nextBilling = await db.collection("billingMonthlyPanel").doc(`${panelId}_${nextMonthKey}`).get();
+    const next = isLocked ? null : await computePanelMonth(panelId, nextMonthKey, {
+      previousBilling: {
+        estadoAlCierre: month.state.estadoAlCierre,
+        tarifaAplicada: month.state.tarifaAplicada,
+        contratoId: month.contratoId,
+        desglose: month.desglose,
+      },
+    });
+    nextMonth = {
+      monthKey: nextMonthKey,
+      isLocked,
+      before: totalsFromBilling(nextBilling),
+      after: next ? totalsFromComputation(next) : null,
+    };
+  }
+
+  functions.logger.info(
+    `[requestPanelChange] Vista previa ${eventData.action} ${eventData.effectiveDateLocal} para ${panelId}: ` +
+    `${month.state.totalDiasFacturables} días, ${month.state.totalImporte}€, ${month.state.estadoAlCierre}`
+  );
+
+  return {
+    monthKey,
+    action: eventData.action,
+    effectiveDateLocal: eventData.effectiveDateLocal,
+    before: totalsFromBilling(currentBilling),
+    after: { ...totalsFromComputation(month), periodos: month.periodos },
+    nextMonth,
+  };
 }
@@ -1,9 +1,10 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
-import { CloudTasksClient } from "@google-cloud/tasks";
 import { assertIsEditorOrAdmin, getUserEmail, now } from "../lib/utils";
+import { writeAuditLog } from "../lib/audit";
 import { PanelSnapshot } from "../lib/schemas";
 import { z } from "zod";
+import { recalculatePanelEvent } from "../workers/recalculatePanelMonth";
 
 // Schema de validación para snapshots
 const PanelSnapshotSchema = z.object({
@@ -36,30 +37,29 @@ const UpdatePanelEventRequest = z.object({
   ),
 });
 
-const tasksClient = new CloudTasksClient();
-
 /**
  * Callable Function: updatePanelEvent
  * 
  * Actualiza un evento de panel existente.
  * Permite modificar motivo, diasFacturables, importeAFacturar y snapshots.
- * Después de actualizar, encola una tarea para recalcular el mes.
+ * Después de actualizar, recalcula el mes (o encola la tarea si falla).
  * 
  * PROCESO:
  * 1. Valida que el usuario sea editor o admin
  * 2. Verifica que el evento exista y no esté eliminado
  * 3. Verifica que el mes no esté bloqueado
  * 4. Actualiza los campos especificados en el evento
- * 5. Encola una tarea processPanelEventTask para recalcular
+ * 5. Recalcula el mes y los meses posteriores abiertos del panel (cascada);
+ *    si falla, encola process-panel-event para reintentarlo
  * 
  * @param data - { panelId: string, eventId: string, updates: {...} }
  * @param context - Contexto de autenticación
- * @returns { success: true, eventId: string }
+ * @returns { success: true, eventId: string, cascade?: { updatedMonths, lockedMonth } }
  */
 export const updatePanelEvent = functions
   .region("europe-west1")
   .runWith({
-    timeoutSeconds: 60,
+    timeoutSeconds: 300, // Recalcula el mes y los meses posteriores abiertos (cascada)
     memory: "256MB",
   })
   .https.onCall(async (data: unknown, context) => {
@@ -143,65 +143,32 @@ export const updatePanelEvent = functions
       `Evento ${eventId} actualizado por ${userEmail}. Campos: ${Object.keys(updates).join(", ")}`
     );
 
-    // 7. Encolar tarea para recalcular el mes
-    try {
-      await enqueueProcessPanelEventTask(panelId, eventId, eventData.idempotencyKey || eventId);
-      functions.logger.info(`Tarea de recálculo encolada para panel ${panelId}`);
-    } catch (error) {
-      functions.logger.error("Error al encolar tarea de recálculo:", error);
-      // No lanzamos error porque la actualización ya se realizó
-    }
+    const changedFields = Object.keys(updates) as Array<keyof typeof updates>;
+    await writeAuditLog(context, {
+      action: "PANEL_EVENT_UPDATE",
+      panelId,
+      monthKey,
+      targetId: eventId,
+      before: Object.fromEntries(changedFields.map((field) => [field, eventData[field] ?? null])),
+      after: updates,
+      details: { eventAction: eventData.action },
+    });
+
+    // 7. Recalcular ya el mes y propagar a los meses posteriores abiertos;
+    //    si falla, se encola process-panel-event para reintentarlo
+    const idempotencyKey = eventData.idempotencyKey || eventId;
+    // idempotencyKey + timestamp: cada edición debe poder recalcular de nuevo
+    const cascade = await recalculatePanelEvent(
+      { panelId, eventId, idempotencyKey },
+      monthKey,
+      `${idempotencyKey}-${Date.now()}`,
+    );
 
     // 8. Responder
     return {
       success: true,
       eventId,
       message: "Evento actualizado correctamente",
+      cascade,
     };
   });
-
-/**
- * Encola una tarea en Cloud Tasks para procesar el evento de panel.
- */
-async function enqueueProcessPanelEventTask(
-  panelId: string,
-  eventId: string,
-  idempotencyKey: string
-): Promise<void> {
-  const project = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT;
-  const location = "europe-west1";
-  const queue = "process-panel-event";
-
-  if (!project) {
-    throw new Error("No se pudo determinar el ID del proyecto (GCLOUD_PROJECT)");
-  }
-
-  const parent = tasksClient.queuePath(project, location, queue);
-  const url = `https://${location}-${project}.cloudfunctions.net/processPanelEventTask`;
-
-  // Usar idempotencyKey + timestamp para permitir múltiples recálculos
-  const taskId = `${idempotencyKey}-${Date.now()}`;
-
-  const task = {
-    name: `${parent}/tasks/${taskId}`,
-    httpRequest: {
-      httpMethod: "POST" as const,
-      url,
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: Buffer.from(
-        JSON.stringify({
-          panelId,
-          eventId,
-          idempotencyKey,
-        })
-      ).toString("base64"),
-      oidcToken: {
-        serviceAccountEmail: `${project}@appspot.gserviceaccount.com`,
-      },
-    },
-  };
-
-  await tasksClient.createTask({ parent, task });
-}
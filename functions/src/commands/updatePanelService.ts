@@ -0,0 +1,194 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { assertIsEditorOrAdmin, getUserEmail, now } from "../lib/utils";
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { recalculatePanelMonth } from "../workers/recalculatePanelMonth";
+import { writeAuditLog } from "../lib/audit";
+import {
+  ALTA_SERVICIO_ACTION,
+  BAJA_SERVICIO_ACTION,
+  SERVICE_TYPES,
+  SERVICE_TYPE_LABELS,
+} from "../lib/panelServices";
+
+// Schema de validación para el alta/baja de un servicio recurrente
+const UpdatePanelServiceSchema = z.object({
+  panelId: z.string().min(1, "El panelId es obligatorio"),
+  action: z.enum(["ALTA", "BAJA"]),
+  tipo: z.enum(SERVICE_TYPES),
+  servicioId: z.string().min(1).optional(), // Obligatorio en BAJA
+  effectiveDateLocal: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha inválido (YYYY-MM-DD)"),
+  descripcion: z.string().max(200, "La descripción es demasiado larga").optional(),
+});
+
+/**
+ * Callable Function: updatePanelService
+ *
+ * Da de alta o de baja un servicio recurrente de un panel (mantenimiento,
+ * conectividad SIM/4G, gestión de contenidos). Cada servicio se factura con la
+ * tarifa de su tipo en rates/{year}.servicios, prorrateada por días.
+ *
+ * Flujo:
+ * 1. Valida permisos (editor/admin)
+ * 2. Valida que el mes no esté cerrado
+ * 3. Verifica el panel (y en BAJA, que el servicio esté activo)
+ * 4. Crea el evento ALTA_SERVICIO / BAJA_SERVICIO y actualiza panels.servicios
+ * 5. Recalcula el mes sincrónicamente
+ *
+ * @param data - { panelId, action, tipo, servicioId?, effectiveDateLocal, descripcion? }
+ * @param context - Contexto de autenticación
+ * @returns { status: "ok", eventId: string, servicioId: string }
+ */
+export const updatePanelService = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    // 1. Validar que el usuario sea editor o admin
+    await assertIsEditorOrAdmin(context);
+
+    const userEmail = getUserEmail(context);
+    const timestamp = now();
+
+    const parseResult = UpdatePanelServiceSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { panelId, action, tipo, effectiveDateLocal } = parseResult.data;
+
+    if (action === "BAJA" && !parseResult.data.servicioId) {
+      throw new functions.https.HttpsError("invalid-argument", "servicioId es obligatorio para la BAJA");
+    }
+
+    const db = admin.firestore();
+    const monthKey = effectiveDateLocal.substring(0, 7);
+
+    // 2. Validar que el mes no esté cerrado
+    const summaryDoc = await db.collection("billingSummary").doc(monthKey).get();
+    if (summaryDoc.exists && summaryDoc.data()?.isLocked === true) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `El mes ${monthKey} está cerrado y no se pueden modificar servicios.`
+      );
+    }
+
+    // 3. Verificar el panel y el servicio
+    const panelRef = db.collection("panels").doc(panelId);
+    const panelDoc = await panelRef.get();
+    if (!panelDoc.exists) {
+      throw new functions.https.HttpsError("not-found", `Panel ${panelId} no encontrado`);
+    }
+
+    const panelData = panelDoc.data()!;
+    const servicios = panelData.servicios || {};
+
+    let servicioId: string;
+    let descripcion: string;
+
+    if (action === "ALTA") {
+      servicioId = uuidv4();
+      descripcion = parseResult.data.descripcion?.trim() || SERVICE_TYPE_LABELS[tipo];
+    } else {
+      servicioId = parseResult.data.servicioId!;
+      const existing = servicios[servicioId];
+      if (!existing || existing.estado !== "ACTIVO") {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          `El servicio ${servicioId} no está activo en el panel ${panelData.codigo}`
+        );
+      }
+      if (existing.tipo !== tipo) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          `El servicio ${servicioId} es de tipo ${existing.tipo}, no ${tipo}`
+        );
+      }
+      descripcion = existing.descripcion || SERVICE_TYPE_LABELS[tipo];
+    }
+
+    functions.logger.info(
+      `[updatePanelService] ${action} ${tipo} (${servicioId}) en ${panelData.codigo} / ${effectiveDateLocal}`
+    );
+
+    // 4. Crear el evento y actualizar la lista de servicios del panel
+    const idempotencyKey = uuidv4();
+    const eventRef = panelRef.collection("panelEvents").doc();
+    const batch = db.batch();
+
+    batch.set(eventRef, {
+      action: action === "ALTA" ? ALTA_SERVICIO_ACTION : BAJA_SERVICIO_ACTION,
+      effectiveDate: admin.firestore.Timestamp.fromDate(new Date(effectiveDateLocal)),
+      effectiveDateLocal,
+      monthKey,
+
+      // El servicio se prorratea aparte: no afecta a los días del servicio base
+      diasFacturables: 0,
+      importeAFacturar: 0,
+
+      servicio: { servicioId, tipo, descripcion },
+
+      snapshotBefore: null,
+      snapshotAfter: {
+        codigo: panelData.codigo,
+        ubicacion: panelData.ubicacion || panelData.municipioId,
+      },
+
+      idempotencyKey,
+      isDeleted: false,
+
+      createdAt: timestamp,
+      createdBy: userEmail,
+      updatedAt: timestamp,
+      schemaVersion: 1,
+    });
+
+    batch.update(panelRef, {
+      [`servicios.${servicioId}`]: action === "ALTA" ?
+        { tipo, descripcion, estado: "ACTIVO", fechaAlta: effectiveDateLocal, fechaBaja: null } :
+        { ...servicios[servicioId], estado: "BAJA", fechaBaja: effectiveDateLocal },
+      updatedAt: timestamp,
+    });
+
+    await batch.commit();
+
+    functions.logger.info(`[updatePanelService] Evento creado: ${eventRef.id}`);
+
+    await writeAuditLog(context, {
+      action: "PANEL_SERVICE_UPDATE",
+      panelId,
+      monthKey,
+      targetId: eventRef.id,
+      before: servicios[servicioId] ?? null,
+      after: action === "ALTA" ?
+        { tipo, descripcion, estado: "ACTIVO", fechaAlta: effectiveDateLocal } :
+        { ...servicios[servicioId], estado: "BAJA", fechaBaja: effectiveDateLocal },
+      details: { servicioId, serviceAction: action },
+    });
+
+    // 5. Recalcular el mes sincrónicamente
+    try {
+      await recalculatePanelMonth(panelId, monthKey);
+    } catch (error) {
+      functions.logger.error("[updatePanelService] Error en recálculo:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        "El servicio se actualizó pero hubo un error al recalcular la facturación."
+      );
+    }
+
+    functions.logger.info(
+      `[updatePanelService] ✅ ${action} de ${tipo} registrada por ${userEmail} en panel ${panelData.codigo}`
+    );
+
+    return {
+      status: "ok",
+      eventId: eventRef.id,
+      servicioId,
+      idempotencyKey,
+    };
+  });
@@ -11,15 +11,24 @@ export { setUserRole } from "./admin/setUserRole";
 export { importBaseMonth } from "./admin/importBaseMonth";
 export { createNextMonth } from "./admin/createNextMonth";
 export { toggleMonthLock } from "./admin/toggleMonthLock";
+export { getMonthCloseChecks } from "./admin/getMonthCloseChecks";
+export { closeMonth } from "./admin/closeMonth";
 export { deleteMonth } from "./admin/deleteMonth";
 export { resyncMonthFromPrevious } from "./admin/resyncMonthFromPrevious";
 export { updateYearlyRate } from "./admin/updateYearlyRate";
 export { createPanel } from "./admin/createPanel";
 export { deletePanel } from "./admin/deletePanel";
+export { saveContract } from "./admin/saveContract";
+export { deleteContract } from "./admin/deleteContract";
+export { proposePriceRevision } from "./admin/proposePriceRevision";
+export { resolvePriceRevision } from "./admin/resolvePriceRevision";
+export { saveScheduledPanelEvent } from "./admin/saveScheduledPanelEvent";
+export { cancelScheduledPanelEvent } from "./admin/cancelScheduledPanelEvent";
 export { regenerateMonthBilling } from "./commands/regenerateMonthBilling";
 export { cleanMonthDuplicates } from "./commands/cleanMonthDuplicates";
 export { diagnoseDuplicates } from "./commands/diagnoseDuplicates";
 export { cleanupDuplicatePanels } from "./commands/cleanupDuplicatePanels";
+export { mergePanels } from "./commands/mergePanels";
 export { deleteMonthData } from "./commands/deleteMonthData";
 export { createNovemberTransitionEvents } from "./commands/createNovemberTransitionEvents";
 export { findGetafePanel } from "./commands/findGetafePanel";
@@ -30,11 +39,17 @@ export { verifyOctoberEvents } from "./commands/verifyOctoberEvents";
 // ============================================================================
 export { requestPanelChange } from "./commands/requestPanelChange";
 export { createIntervencion } from "./commands/createIntervencion";
+export { createRectificacion } from "./commands/createRectificacion";
+export { updatePanelService } from "./commands/updatePanelService";
+export { changePanelCode } from "./commands/changePanelCode";
+export { importPanelEvents } from "./commands/importPanelEvents";
 
 // ============================================================================
 // QUERIES (Lecturas optimizadas)
 // ============================================================================
 export { getUniqueLocations } from "./queries/getUniqueLocations";
+export { getPanelHistory } from "./queries/getPanelHistory";
+export { getBillingAsOf } from "./queries/getBillingAsOf";
 
 // ============================================================================
 // COMANDOS (Paso 6 - Gestión de Eventos)
@@ -58,6 +73,30 @@ export { generateExecutiveReport } from "./reports/generateExecutiveReport";
 // ============================================================================
 export { updateSummaryTask } from "./workers/updateSummaryTask";
 
+// ============================================================================
+// COLA DE TAREAS (tareas fallidas: taskDeadLetters)
+// ============================================================================
+export { resolveDeadLetter } from "./admin/resolveDeadLetter";
+
+// ============================================================================
+// USUARIOS (Firebase Auth + users/{uid}; el rol se asigna con setUserRole)
+// ============================================================================
+export { listUsers } from "./queries/listUsers";
+export { inviteUser } from "./admin/inviteUser";
+export { setUserDisabled } from "./admin/setUserDisabled";
+export { revokeUserSessions } from "./admin/revokeUserSessions";
+
+// ============================================================================
+// AUDITORÍA (auditLogs)
+// ============================================================================
+export { getAuditLogs } from "./queries/getAuditLogs";
+
+// ============================================================================
+// APROBACIONES (operaciones destructivas a cuatro ojos: approvalRequests)
+// ============================================================================
+export { resolveApprovalRequest } from "./admin/resolveApprovalRequest";
+export { expireApprovalRequests } from "./scheduled/expireApprovalRequests";
+
 // ============================================================================
 // SCHEDULED JOBS (ELIMINADO - Cierre manual desde frontend)
 // ============================================================================
@@ -67,3 +106,12 @@ export { updateSummaryTask } from "./workers/updateSummaryTask";
 // REPORTES (Paso 7)
 // ============================================================================
 export { generateReport } from "./reports/generateReport";
+export { reconcileCustomerListing } from "./reports/reconcileCustomerListing";
+
+// ============================================================================
+// FACTURACIÓN FORMAL (facturas numeradas por municipio)
+// ============================================================================
+export { issueMonthInvoices } from "./commands/issueMonthInvoices";
+export { createRectifyingInvoice } from "./commands/createRectifyingInvoice";
+export { getInvoices } from "./queries/getInvoices";
+export { generateInvoicePdf } from "./reports/generateInvoicePdf";
@@ -0,0 +1,239 @@
+/**
+ * Aprobación a cuatro ojos de operaciones destructivas
+ *
+ * deletePanel, deleteMonth, deleteMonthData, deleteAllPanelEvents,
+ * cleanupDuplicatePanels y mergePanels ya no se ejecutan al momento: crean una solicitud en
+ * approvalRequests/{id} con el impacto calculado (meses, eventos, euros) que
+ * otro admin distinto del solicitante debe aprobar (resolveApprovalRequest).
+ *
+ * Las solicitudes caducan a las APPROVAL_TTL_HOURS horas y guardan en
+ * historial cada cambio de estado (quién, cuándo y comentario).
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { eurosToCents, centsToEuros } from "./moneyUtils";
+import { writeAuditLog } from "./audit";
+
+export const APPROVAL_REQUESTS_COLLECTION = "approvalRequests";
+
+export const APPROVAL_TTL_HOURS = 48;
+
+/** Payload de cada operación (lo que recibiría la callable original) */
+export interface ApprovalPayloads {
+  DELETE_PANEL: { panelId: string; confirmCode: string };
+  DELETE_MONTH: { monthKey: string };
+  DELETE_MONTH_DATA: { monthKey: string };
+  DELETE_ALL_PANEL_EVENTS: { panelId: string; monthKey: string };
+  CLEANUP_DUPLICATE_PANELS: Record<string, never>;
+  MERGE_PANELS: { panelId: string; duplicatePanelId: string }; // panelId = superviviente
+}
+
+export type ApprovalOperation = keyof ApprovalPayloads;
+
+export type ApprovalStatus =
+  | "PENDIENTE"
+  | "APROBADA" // Aprobada y en ejecución
+  | "EJECUTADA"
+  | "FALLIDA" // Aprobada pero la ejecución lanzó un error
+  | "RECHAZADA"
+  | "CANCELADA" // Retirada por el propio solicitante
+  | "CADUCADA";
+
+export interface ApprovalImpact {
+  descripcion: string; // "Eliminar panel 06948", "Eliminar mes 2025-10"...
+  meses: string[]; // Meses con facturación afectada
+  eventos: number; // Eventos que se eliminan
+  filasFacturacion: number; // Filas de billingMonthlyPanel que se eliminan
+  paneles: number; // Paneles afectados
+  importeEliminado: number; // Suma de totalImporte de las filas eliminadas (€)
+}
+
+export interface ApprovalHistoryEntry {
+  estado: ApprovalStatus;
+  por: string;
+  en: admin.firestore.Timestamp;
+  comentario?: string;
+}
+
+export interface ApprovalRequest<O extends ApprovalOperation = ApprovalOperation> {
+  operation: O;
+  payload: ApprovalPayloads[O];
+  impacto: ApprovalImpact;
+  motivo: string;
+  estado: ApprovalStatus;
+  requestedBy: string;
+  requestedByUid: string;
+  requestedAt: admin.firestore.Timestamp;
+  expiresAt: admin.firestore.Timestamp;
+  resolvedBy: string | null;
+  resolvedAt: admin.firestore.Timestamp | null;
+  resultado: Record<string, unknown> | null; // Respuesta de la operación ejecutada
+  error: string | null;
+  historial: ApprovalHistoryEntry[];
+}
+
+/** Respuesta de una callable destructiva: la operación queda pendiente de aprobación */
+export interface ApprovalRequestCreated {
+  success: true;
+  pendingApproval: true;
+  approvalRequestId: string;
+  impacto: ApprovalImpact;
+  expiresAt: string; // ISO
+}
+
+/**
+ * Impacto de borrar todos los datos de un mes: filas de billingMonthlyPanel,
+ * importe facturado y eventos (eliminados o no) con ese monthKey
+ *
+ * @param monthKey - Mes (YYYY-MM)
+ * @return Impacto (la descripción la pone cada operación)
+ */
+export async function monthDataImpact(monthKey: string): Promise<ApprovalImpact> {
+  const db = admin.firestore();
+  const [billingSnapshot, eventsCount] = await Promise.all([
+    db.collection("billingMonthlyPanel").where("monthKey", "==", monthKey).get(),
+    // Sin filtrar por isDeleted: los eventos antiguos pueden no tener el campo
+    db.collectionGroup("panelEvents").where("monthKey", "==", monthKey).count().get(),
+  ]);
+
+  return {
+    descripcion: `Eliminar datos de ${monthKey}`,
+    meses: [monthKey],
+    eventos: eventsCount.data().count,
+    filasFacturacion: billingSnapshot.size,
+    paneles: new Set(billingSnapshot.docs.map((doc) => doc.data().panelId)).size,
+    importeEliminado: centsToEuros(
+      billingSnapshot.docs.reduce((sum, doc) => sum + eurosToCents(doc.data().totalImporte || 0), 0),
+    ),
+  };
+}
+
+/**
+ * Crea una solicitud de aprobación pendiente
+ *
+ * @param operation - Operación destructiva
+ * @param payload - Datos validados de la operación
+ * @param impacto - Impacto calculado en el momento de la solicitud
+ * @param context - Contexto de la callable (solicitante)
+ * @param motivo - Motivo indicado por el solicitante
+ * @return Respuesta común de las callables destructivas
+ */
+export async function createApprovalRequest<O extends ApprovalOperation>(
+  operation: O,
+  payload: ApprovalPayloads[O],
+  impacto: ApprovalImpact,
+  context: functions.https.CallableContext,
+  motivo = "",
+): Promise<ApprovalRequestCreated> {
+  const requestedAt = admin.firestore.Timestamp.now();
+  const expiresAt = admin.firestore.Timestamp.fromMillis(requestedAt.toMillis() + APPROVAL_TTL_HOURS * 3600 * 1000);
+  const requestedBy = context.auth?.token.email || "unknown";
+
+  const request: ApprovalRequest<O> = {
+    operation,
+    payload,
+    impacto,
+    motivo,
+    estado: "PENDIENTE",
+    requestedBy,
+    requestedByUid: context.auth?.uid || "",
+    requestedAt,
+    expiresAt,
+    resolvedBy: null,
+    resolvedAt: null,
+    resultado: null,
+    error: null,
+    historial: [{ estado: "PENDIENTE", por: requestedBy, en: requestedAt, ...(motivo ? { comentario: motivo } : {}) }],
+  };
+
+  const ref = await admin.firestore().collection(APPROVAL_REQUESTS_COLLECTION).add(request);
+
+  functions.logger.info(
+    `[approvals] ${operation} solicitada por ${requestedBy} (${APPROVAL_REQUESTS_COLLECTION}/${ref.id}): ` +
+    `${impacto.descripcion}, ${impacto.meses.length} mes(es), ${impacto.eventos} eventos, ${impacto.importeEliminado}€`,
+  );
+
+  const target = payload as Partial<{ panelId: string; monthKey: string }>;
+  await writeAuditLog(context, {
+    action: "APPROVAL_REQUEST",
+    panelId: target.panelId ?? null,
+    monthKey: target.monthKey ?? null,
+    targetId: ref.id,
+    after: { estado: "PENDIENTE", impacto },
+    details: { operation, payload, motivo },
+  });
+
+  return {
+    success: true,
+    pendingApproval: true,
+    approvalRequestId: ref.id,
+    impacto,
+    expiresAt: expiresAt.toDate().toISOString(),
+  };
+}
+
+/** Contextos con los que resolveApprovalRequest ejecuta una operación ya aprobada */
+const approvedContexts = new WeakSet<functions.https.CallableContext>();
+
+/**
+ * Contexto para ejecutar la callable original de una operación aprobada
+ * (el de quien aprueba, marcado para que la callable no cree otra solicitud)
+ * @param context - Contexto de resolveApprovalRequest
+ */
+export function approvedContext(context: functions.https.CallableContext): functions.https.CallableContext {
+  const approved = { ...context };
+  approvedContexts.add(approved);
+  return approved;
+}
+
+/**
+ * Indica si la callable se ejecuta desde una solicitud aprobada; si no, la
+ * callable solo debe crear la solicitud. Una petición de cliente nunca lo está
+ * @param context - Contexto de la callable
+ */
+export function isApprovedExecution(context: functions.https.CallableContext): boolean {
+  return approvedContexts.has(context);
+}
+
+/**
+ * Entrada de historial para un cambio de estado
+ * @param estado - Nuevo estado
+ * @param por - Email de quien lo cambia
+ * @param comentario - Comentario opcional
+ */
+export function historyEntry(estado: ApprovalStatus, por: string, comentario?: string): ApprovalHistoryEntry {
+  return {
+    estado,
+    por,
+    en: admin.firestore.Timestamp.now(),
+    ...(comentario ? { comentario } : {}),
+  };
+}
+
+/**
+ * Marca como CADUCADA toda solicitud PENDIENTE cuyo plazo ha vencido
+ * @return Número de solicitudes caducadas
+ */
+export async function expirePendingApprovals(): Promise<number> {
+  const db = admin.firestore();
+  const snapshot = await db
+    .collection(APPROVAL_REQUESTS_COLLECTION)
+    .where("estado", "==", "PENDIENTE")
+    .where("expiresAt", "<=", admin.firestore.Timestamp.now())
+    .get();
+
+  if (snapshot.empty) return 0;
+
+  const batch = db.batch();
+  for (const doc of snapshot.docs) {
+    batch.update(doc.ref, {
+      estado: "CADUCADA",
+      historial: admin.firestore.FieldValue.arrayUnion(historyEntry("CADUCADA", "sistema")),
+    });
+  }
+  await batch.commit();
+
+  functions.logger.info(`[approvals] ${snapshot.size} solicitud(es) caducada(s)`);
+  return snapshot.size;
+}
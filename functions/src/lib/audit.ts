@@ -0,0 +1,162 @@
+/**
+ * Registro de auditoría unificado (auditLogs)
+ *
+ * Toda callable que modifica datos escribe una entrada con:
+ * - actor (email y uid) y requestId de la llamada
+ * - acción (AuditAction) y objetivo: panel, mes y documento afectado
+ * - valores antes/después de la modificación
+ *
+ * La escritura no bloquea la operación: si falla se registra en el logger y la
+ * callable continúa (la modificación ya se ha aplicado).
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { randomUUID } from "crypto";
+
+export const AUDIT_LOGS_COLLECTION = "auditLogs";
+
+export type AuditAction =
+  // Paneles y eventos
+  | "PANEL_CREATE"
+  | "PANEL_DELETE"
+  | "PANEL_EVENT_CREATE"
+  | "PANEL_EVENT_UPDATE"
+  | "PANEL_EVENT_DELETE"
+  | "PANEL_EVENTS_DELETE_ALL"
+  | "PANEL_SERVICE_UPDATE"
+  | "INTERVENCION_CREATE"
+  | "RECTIFICACION_CREATE"
+  | "EVENTS_IMPORT"
+  | "SCHEDULED_EVENT_SAVE"
+  | "SCHEDULED_EVENT_CANCEL"
+  | "DUPLICATE_PANELS_CLEANUP"
+  | "PANEL_MERGE"
+  | "PANEL_CODE_CHANGE"
+  // Meses
+  | "MONTH_CREATE"
+  | "MONTH_CLOSE"
+  | "MONTH_LOCK_TOGGLE"
+  | "MONTH_DELETE"
+  | "MONTH_DATA_DELETE"
+  | "MONTH_RESYNC"
+  | "MONTH_REGENERATE"
+  | "MONTH_IMPORT_BASE"
+  | "MONTH_DUPLICATES_CLEAN"
+  // Tarifas, contratos y facturas
+  | "RATE_UPDATE"
+  | "CONTRACT_SAVE"
+  | "CONTRACT_DELETE"
+  | "PRICE_REVISION_PROPOSE"
+  | "PRICE_REVISION_RESOLVE"
+  | "INVOICES_ISSUE"
+  | "INVOICE_RECTIFY"
+  // Administración
+  | "ROLE_CHANGE"
+  | "USER_INVITE"
+  | "USER_STATUS_CHANGE"
+  | "USER_SESSIONS_REVOKE"
+  | "DEAD_LETTER_RESOLVE"
+  | "APPROVAL_REQUEST"
+  | "APPROVAL_RESOLVE";
+
+export interface AuditEntryInput {
+  action: AuditAction;
+  panelId?: string | null;
+  monthKey?: string | null;
+  targetId?: string | null; // Documento afectado (evento, contrato, factura, usuario...)
+  before?: unknown;
+  after?: unknown;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditLogEntry {
+  action: AuditAction;
+  actor: string; // Email del usuario
+  actorUid: string | null;
+  panelId: string | null;
+  monthKey: string | null;
+  targetId: string | null;
+  before: unknown;
+  after: unknown;
+  details: Record<string, unknown>;
+  requestId: string;
+  createdAt: admin.firestore.Timestamp;
+  schemaVersion: 1;
+}
+
+// requestId generado cuando la petición no trae cabecera (emulador, tests)
+const generatedRequestIds = new WeakMap<functions.https.CallableContext, string>();
+
+/**
+ * ID de la petición: function-execution-id o traza de Cloud Functions; si no hay,
+ * un UUID estable para todas las entradas de la misma llamada
+ *
+ * @param context - Contexto de la callable
+ * @return requestId
+ */
+export function getRequestId(context: functions.https.CallableContext): string {
+  const header = (name: string) => context.rawRequest?.header?.(name);
+  const fromHeaders = header("function-execution-id") || header("x-cloud-trace-context")?.split("/")[0];
+  if (fromHeaders) return fromHeaders;
+
+  let generated = generatedRequestIds.get(context);
+  if (!generated) {
+    generated = randomUUID();
+    generatedRequestIds.set(context, generated);
+  }
+  return generated;
+}
+
+/**
+ * Quita los undefined (Firestore los rechaza) sin tocar Timestamps ni otros objetos no planos
+ * @param value - Valor a guardar
+ * @return Valor sin undefined
+ */
+function stripUndefined(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (Array.isArray(value)) return value.map(stripUndefined);
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, stripUndefined(v)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Escribe una entrada de auditoría para la llamada
+ *
+ * @param context - Contexto de la callable (actor y requestId)
+ * @param input - Acción, objetivo y valores antes/después
+ * @return ID de la entrada o null si no se pudo escribir
+ */
+export async function writeAuditLog(
+  context: functions.https.CallableContext,
+  input: AuditEntryInput,
+): Promise<string | null> {
+  const entry: AuditLogEntry = {
+    action: input.action,
+    actor: context.auth?.token.email || "unknown",
+    actorUid: context.auth?.uid || null,
+    panelId: input.panelId ?? null,
+    monthKey: input.monthKey ?? null,
+    targetId: input.targetId ?? null,
+    before: stripUndefined(input.before ?? null),
+    after: stripUndefined(input.after ?? null),
+    details: stripUndefined(input.details ?? {}) as Record<string, unknown>,
+    requestId: getRequestId(context),
+    createdAt: admin.firestore.Timestamp.now(),
+    schemaVersion: 1,
+  };
+
+  try {
+    const ref = await admin.firestore().collection(AUDIT_LOGS_COLLECTION).add(entry);
+    return ref.id;
+  } catch (error) {
+    functions.logger.error(`[audit] ❌ No se pudo registrar ${input.action} de ${entry.actor}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * Motor de prorrateo (núcleo puro de la facturación mensual de un panel)
+ *
+ * Recibe el estado heredado del mes anterior, la tarifa del mes y la lista de
+ * eventos ya ordenada, y devuelve los períodos activos, días, importe, estado
+ * al cierre y desglose por servicio. No lee ni escribe en Firestore y no hace
+ * logging: las decisiones relevantes se devuelven en `trace` para que el
+ * adaptador (workers/recalculatePanelMonth) las registre.
+ *
+ * Reglas:
+ * - Cambio de año respecto al mes anterior: manda la tarifa del año nuevo
+ * - Cambio de contrato: manda la tarifa del contrato (o estándar) nueva
+ * - Mismo año y contrato: se hereda tarifaAplicada (respeta precios personalizados)
+ * - ALTA_INICIAL: el panel no existía antes del evento (estado inicial BAJA)
+ * - CAMBIO_TARIFA el día X abre un tramo: días anteriores a la tarifa previa, desde X a la nueva
+ * - DESMONTADO/BAJA el día X factura el día X (desmontaje a las 23:59)
+ * - AJUSTE_MANUAL, INTERVENCION y RECTIFICACION suman importe sin afectar a los períodos
+ */
+
+import { calculateImporte, getDayOfMonth } from "./billingRules";
+import { ProrationMode, calculateProratedImporte } from "./prorationMode";
+import {
+  ALTA_SERVICIO_ACTION,
+  BAJA_SERVICIO_ACTION,
+  BASE_LINE_ID,
+  BillingBreakdownLine,
+  ServiceEvent,
+  ServiceRates,
+  ServiceRef,
+  getActiveServices,
+  isServiceType,
+  prorateServiceLines,
+} from "./panelServices";
+import { PanelSnapshot } from "./schemas";
+
+export type PanelState = "ACTIVO" | "DESMONTADO" | "BAJA";
+
+export interface BillingEngineEvent {
+  id: string;
+  action: string;
+  effectiveDateLocal: string;
+  snapshotAfter?: PanelSnapshot | null;
+  servicio?: ServiceRef; // Solo ALTA_SERVICIO / BAJA_SERVICIO
+  tipoIntervencion?: string; // Solo INTERVENCION
+  concepto?: string; // Solo INTERVENCION
+  rectificacion?: { monthKeyOriginal?: string }; // Solo RECTIFICACION
+}
+
+/** Datos heredados del billingMonthlyPanel del mes anterior */
+export interface InheritedBilling {
+  monthKey: string;
+  estadoAlCierre?: PanelState;
+  tarifaAplicada?: number;
+  contratoId?: string | null;
+  desglose?: BillingBreakdownLine[];
+}
+
+export interface BillingEngineInput {
+  monthKey: string;
+  previous: InheritedBilling | null; // null = panel sin mes anterior
+  rate: {
+    importe: number; // Tarifa resuelta del mes (contrato o estándar)
+    servicios: ServiceRates;
+    contratoId: string | null;
+  };
+  modoProrrateo: ProrationMode;
+  diasMes: number;
+  events: BillingEngineEvent[]; // Ordenados cronológicamente, sin eliminados
+}
+
+/** Tramo de tarifa dentro del mes (se guarda en billingMonthlyPanel.tramosTarifa) */
+export interface RateSegment {
+  desde: number; // Primer día del tramo
+  hasta: number; // Último día del tramo
+  tarifa: number;
+  dias: number; // Días activos (facturables) dentro del tramo
+  importe: number;
+}
+
+export interface BillingTraceEntry {
+  level: "info" | "warn";
+  message: string;
+}
+
+export interface BillingEngineResult {
+  initialState: {
+    estadoAlCierre: PanelState;
+    tarifaAplicada: number;
+  };
+  periodos: Array<{ inicio: number; fin: number }>;
+  tramosTarifa: RateSegment[]; // Solo tramos con días facturables
+  totalDiasFacturables: number;
+  totalImporte: number;
+  estadoAlCierre: PanelState;
+  tarifaAplicada: number;
+  importeBase: number;
+  importeServicios: number;
+  importeRectificaciones: number;
+  desglose: BillingBreakdownLine[];
+  trace: BillingTraceEntry[];
+}
+
+/**
+ * Estado y tarifa con los que empieza el mes
+ * @param input - Entrada del motor
+ * @param trace - Traza donde anotar las decisiones
+ */
+function resolveInitialState(
+  input: BillingEngineInput,
+  trace: BillingTraceEntry[]
+): { estadoAlCierre: PanelState; tarifaAplicada: number } {
+  const { previous, rate, monthKey } = input;
+  const targetYear = monthKey.split("-")[0];
+
+  if (!previous) {
+    // No hay mes anterior: panel nuevo o primer mes (se asume ACTIVO, tarifa del año)
+    trace.push({
+      level: "info",
+      message: `Sin mes anterior. Estado inicial por defecto: ACTIVO, tarifa estándar: ${rate.importe}€`,
+    });
+    return { estadoAlCierre: "ACTIVO", tarifaAplicada: rate.importe };
+  }
+
+  const prevYear = previous.monthKey.split("-")[0];
+  let tarifaAplicada: number;
+
+  if (prevYear !== targetYear) {
+    // CAMBIO DE AÑO: Forzar tarifa del nuevo año (actualización automática)
+    tarifaAplicada = rate.importe;
+    trace.push({
+      level: "warn",
+      message: `🔄 Actualización Automática por Cambio de Año: ${prevYear} → ${targetYear}. ` +
+        `Tarifa anterior: ${previous.tarifaAplicada || "N/A"}€, nueva tarifa: ${tarifaAplicada}€`,
+    });
+  } else if ((previous.contratoId ?? null) !== rate.contratoId) {
+    // CAMBIO DE CONTRATO: el panel entra o sale de un contrato, manda la tarifa nueva
+    tarifaAplicada = rate.importe;
+    trace.push({
+      level: "warn",
+      message: `🔄 Cambio de contrato: ${previous.contratoId || "sin contrato"} → ` +
+        `${rate.contratoId || "sin contrato"}. Nueva tarifa: ${tarifaAplicada}€`,
+    });
+  } else {
+    // MISMO AÑO: Heredar tarifa (respeta personalizaciones manuales)
+    tarifaAplicada = previous.tarifaAplicada || rate.importe;
+    if (tarifaAplicada !== rate.importe) {
+      trace.push({
+        level: "info",
+        message: `💰 Precio personalizado heredado: ${tarifaAplicada}€ ` +
+          `(tarifa estándar ${targetYear}: ${rate.importe}€)`,
+      });
+    }
+  }
+
+  const estadoAlCierre = previous.estadoAlCierre || "ACTIVO";
+  trace.push({
+    level: "info",
+    message: `Estado inicial desde mes anterior: ${estadoAlCierre}, tarifa aplicada: ${tarifaAplicada}€`,
+  });
+  return { estadoAlCierre, tarifaAplicada };
+}
+
+/**
+ * Importe de unos días a una tarifa según el modo de prorrateo
+ * @param dias - Días facturables
+ * @param tarifa - Tarifa mensual
+ * @param modoProrrateo - Modo de prorrateo del año
+ * @param diasMes - Días de un mes completo
+ * @return Importe en euros (redondeado a céntimos)
+ */
+export function prorateDays(dias: number, tarifa: number, modoProrrateo: ProrationMode, diasMes: number): number {
+  return modoProrrateo === "COMERCIAL_30" ?
+    calculateImporte(dias, tarifa) :
+    calculateProratedImporte(dias, tarifa, diasMes);
+}
+
+/**
+ * Reparte los períodos activos entre los tramos de tarifa del mes
+ * @param periodos - Períodos activos (días inicio-fin)
+ * @param cambios - Inicio de cada tarifa en el mes, ordenados por día
+ * @param modoProrrateo - Modo de prorrateo del año
+ * @param diasMes - Días de un mes completo
+ * @return Tramos con días facturables
+ */
+function buildRateSegments(
+  periodos: Array<{ inicio: number; fin: number }>,
+  cambios: Array<{ desde: number; tarifa: number }>,
+  modoProrrateo: ProrationMode,
+  diasMes: number
+): RateSegment[] {
+  const tramos: RateSegment[] = [];
+  cambios.forEach((cambio, index) => {
+    const desde = cambio.desde;
+    const hasta = index + 1 < cambios.length ? cambios[index + 1].desde - 1 : diasMes;
+    if (desde > hasta) return;
+
+    const dias = periodos.reduce(
+      (sum, periodo) => sum + Math.max(0, Math.min(periodo.fin, hasta) - Math.max(periodo.inicio, desde) + 1),
+      0
+    );
+    if (dias > 0) {
+      tramos.push({
+        desde,
+        hasta,
+        tarifa: cambio.tarifa,
+        dias,
+        importe: prorateDays(dias, cambio.tarifa, modoProrrateo, diasMes),
+      });
+    }
+  });
+  return tramos;
+}
+
+/**
+ * Calcula la facturación de un panel en un mes
+ *
+ * @param input - Estado heredado, tarifa, modo de prorrateo y eventos ordenados
+ * @return Períodos, días, importes, estado al cierre, desglose y traza
+ */
+export function computeBillingMonth(input: BillingEngineInput): BillingEngineResult {
+  const { events, diasMes, modoProrrateo } = input;
+  const trace: BillingTraceEntry[] = [];
+
+  const initialState = resolveInitialState(input, trace);
+  // Servicios recurrentes activos al cierre del mes anterior
+  const initialServices = input.previous ? getActiveServices(input.previous.desglose) : [];
+
+  let estadoAlCierre: PanelState = initialState.estadoAlCierre;
+  let tarifaAplicada = initialState.tarifaAplicada;
+  // Tarifa vigente desde cada día (CAMBIO_TARIFA abre un tramo nuevo)
+  const cambiosTarifa: Array<{ desde: number; tarifa: number }> = [{ desde: 1, tarifa: tarifaAplicada }];
+  let importeAjustes = 0; // Ajustes, intervenciones y rectificaciones
+  let importeRectificaciones = 0; // Diferencias de meses cerrados facturadas en este mes
+  const serviceEvents: ServiceEvent[] = []; // Altas/bajas de servicios recurrentes
+  let panelBajaDay: number | null = null; // Último día de BAJA del panel en el mes
+
+  // Períodos activos entre eventos
+  let estadoActual: PanelState = initialState.estadoAlCierre;
+  const periodos: Array<{ inicio: number; fin: number }> = [];
+  let ultimoCambio = 1; // Día donde empieza el período actual
+
+  // CASO ESPECIAL: con ALTA_INICIAL el panel NO estaba activo antes del evento
+  if (events.some((event) => event.action === "ALTA_INICIAL")) {
+    estadoActual = "BAJA";
+    trace.push({
+      level: "info",
+      message: "Detectado ALTA_INICIAL: estado inicial ajustado a BAJA (panel no existía antes)",
+    });
+  }
+
+  if (events.length === 0) {
+    // Sin eventos: si el panel sigue ACTIVO se factura el mes completo
+    if (estadoActual === "ACTIVO") {
+      periodos.push({ inicio: 1, fin: diasMes });
+    }
+    trace.push({
+      level: "info",
+      message: estadoActual === "ACTIVO" ?
+        `Sin eventos: Panel ACTIVO heredado, facturando mes completo (${diasMes} días)` :
+        `Sin eventos: Panel ${estadoActual} heredado, sin facturación`,
+    });
+    estadoAlCierre = estadoActual;
+  } else {
+    for (const event of events) {
+      const dayOfMonth = getDayOfMonth(event.effectiveDateLocal);
+
+      if (["ALTA", "ALTA_INICIAL", "REINSTALACION"].includes(event.action)) {
+        // Si estaba DESMONTADO/BAJA empieza un nuevo período ACTIVO este día
+        // Si ya estaba ACTIVO no cambia nada (ya está facturando)
+        if (estadoActual !== "ACTIVO") {
+          estadoActual = "ACTIVO";
+          ultimoCambio = dayOfMonth;
+          estadoAlCierre = "ACTIVO";
+        }
+      } else if (["DESMONTADO", "DESMONTAJE", "BAJA"].includes(event.action)) {
+        // REGLA CRÍTICA: DESMONTAJE/BAJA el día X SÍ factura el día X
+        // - ALTA día 10, BAJA día 10 → 1 día (el día 10 completo)
+        // - ALTA día 10, BAJA día 12 → 3 días (días 10, 11 y 12)
+        // En modo comercial un desmontaje el día 31 se acota al día 30
+        const finPeriodo = Math.min(dayOfMonth, diasMes);
+        if (estadoActual === "ACTIVO" && ultimoCambio <= finPeriodo) {
+          periodos.push({ inicio: ultimoCambio, fin: finPeriodo });
+        }
+        estadoActual = event.action === "BAJA" ? "BAJA" : "DESMONTADO";
+        ultimoCambio = dayOfMonth + 1; // Siguiente día ya no factura
+        estadoAlCierre = estadoActual;
+        if (event.action === "BAJA") {
+          panelBajaDay = dayOfMonth;
+        }
+      } else if (event.action === "CAMBIO_TARIFA") {
+        // Nueva tarifa desde este día (inclusive); los períodos no cambian
+        const nuevaTarifa = event.snapshotAfter?.tarifaBaseMes ?? event.snapshotAfter?.tarifaAplicada;
+        if (nuevaTarifa !== undefined) {
+          tarifaAplicada = nuevaTarifa;
+          const ultimo = cambiosTarifa[cambiosTarifa.length - 1];
+          if (ultimo.desde === dayOfMonth) {
+            ultimo.tarifa = nuevaTarifa; // Varios cambios el mismo día: manda el último
+          } else {
+            cambiosTarifa.push({ desde: dayOfMonth, tarifa: nuevaTarifa });
+          }
+          trace.push({ level: "info", message: `Tarifa actualizada a: ${tarifaAplicada} desde el día ${dayOfMonth}` });
+        }
+      } else if (event.action === "AJUSTE_MANUAL") {
+        if (event.snapshotAfter?.importeAjuste !== undefined) {
+          importeAjustes += event.snapshotAfter.importeAjuste;
+          trace.push({ level: "info", message: `Ajuste manual aplicado: ${event.snapshotAfter.importeAjuste}` });
+        }
+      } else if (event.action === "INTERVENCION") {
+        // Intervención puntual: suma el importe sin afectar estado ni períodos
+        const importeIntervencion = event.snapshotAfter?.importeAjuste || 0;
+        importeAjustes += importeIntervencion;
+        trace.push({
+          level: "info",
+          message: `Intervención aplicada: ${importeIntervencion}€ (Tipo: ${event.tipoIntervencion || "N/A"}, ` +
+            `Concepto: "${event.concepto || "Sin descripción"}", Estado panel: ${estadoActual})`,
+        });
+        if (estadoActual !== "ACTIVO") {
+          trace.push({
+            level: "warn",
+            message: `⚠️ Intervención registrada en panel con estado ${estadoActual} (día ${dayOfMonth}). ` +
+              "Verificar si es correcto.",
+          });
+        }
+      } else if (event.action === "RECTIFICACION") {
+        // Rectificación de un mes cerrado: la diferencia se factura en este mes
+        const importeRectificacion = event.snapshotAfter?.importeAjuste || 0;
+        importeAjustes += importeRectificacion;
+        importeRectificaciones += importeRectificacion;
+        trace.push({
+          level: "info",
+          message: `Rectificación de ${event.rectificacion?.monthKeyOriginal} aplicada: ${importeRectificacion}€`,
+        });
+      } else if (event.action === ALTA_SERVICIO_ACTION || event.action === BAJA_SERVICIO_ACTION) {
+        // Servicio recurrente: se prorratea aparte con su propia tarifa
+        if (event.servicio?.servicioId && isServiceType(event.servicio.tipo)) {
+          serviceEvents.push({ ...event.servicio, action: event.action, day: dayOfMonth });
+        } else {
+          trace.push({
+            level: "warn",
+            message: `⚠️ Evento ${event.action} sin servicio válido (${event.id}), ignorado`,
+          });
+        }
+      }
+    }
+
+    // Si termina el mes ACTIVO, facturar hasta el último día del mes (30 en modo comercial)
+    if (estadoActual === "ACTIVO" && ultimoCambio <= diasMes) {
+      periodos.push({ inicio: ultimoCambio, fin: diasMes });
+    }
+  }
+
+  // Días facturables: suma de períodos con tope en los días del mes
+  let totalDiasFacturables = 0;
+  for (const periodo of periodos) {
+    totalDiasFacturables += periodo.fin - periodo.inicio + 1;
+    trace.push({
+      level: "info",
+      message: `Período activo: días ${periodo.inicio}-${periodo.fin} = ${periodo.fin - periodo.inicio + 1} días`,
+    });
+  }
+  totalDiasFacturables = Math.min(totalDiasFacturables, diasMes);
+
+  // Importe base: cada tramo de tarifa con sus días (un solo tramo si no hay CAMBIO_TARIFA)
+  const tramosTarifa = buildRateSegments(periodos, cambiosTarifa, modoProrrateo, diasMes);
+  const importeBase = Math.round(tramosTarifa.reduce((sum, tramo) => sum + tramo.importe, 0) * 100) / 100;
+  if (tramosTarifa.length > 1) {
+    for (const tramo of tramosTarifa) {
+      trace.push({
+        level: "info",
+        message: `Tramo de tarifa días ${tramo.desde}-${tramo.hasta}: ${tramo.dias} días × ${tramo.tarifa}€ = ` +
+          `${tramo.importe}€`,
+      });
+    }
+  }
+
+  // Servicios recurrentes: cada línea con su tarifa y su ciclo ALTA/BAJA
+  // (la BAJA del panel termina sus servicios si el panel cierra el mes de baja)
+  const serviceLines = prorateServiceLines(
+    initialServices,
+    serviceEvents,
+    input.rate.servicios,
+    diasMes,
+    estadoAlCierre === "BAJA" ? panelBajaDay : null
+  );
+  const importeServicios = serviceLines.reduce((sum, line) => sum + line.importe, 0);
+  for (const line of serviceLines) {
+    trace.push({
+      level: "info",
+      message: `Servicio ${line.tipo} (${line.servicioId}): ${line.dias} días × ${line.tarifa}€ = ` +
+        `${line.importe}€, ${line.estadoAlCierre}`,
+    });
+  }
+
+  const desglose: BillingBreakdownLine[] = [
+    {
+      servicioId: BASE_LINE_ID,
+      tipo: "BASE",
+      descripcion: "Servicio PIV",
+      dias: totalDiasFacturables,
+      tarifa: tarifaAplicada,
+      importe: importeBase,
+      estadoAlCierre: estadoAlCierre === "ACTIVO" ? "ACTIVO" : "BAJA",
+    },
+    ...serviceLines,
+  ];
+
+  // Normalizar a 2 decimales (protege contra ajustes con redondeo extraño)
+  const totalImporte = Math.round((importeBase + importeServicios + importeAjustes) * 100) / 100;
+
+  return {
+    initialState,
+    periodos,
+    tramosTarifa,
+    totalDiasFacturables,
+    totalImporte,
+    estadoAlCierre,
+    tarifaAplicada,
+    importeBase,
+    importeServicios: Math.round(importeServicios * 100) / 100,
+    importeRectificaciones: Math.round(importeRectificaciones * 100) / 100,
+    desglose,
+    trace,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Historial inmutable de facturación (billingRevisions)
+ *
+ * billingMonthlyPanel se sobrescribe en cada recálculo. Para poder responder
+ * "qué se facturaba este mes en la fecha X", cada escritura de una fila de
+ * facturación añade además una revisión con las entradas del cálculo
+ * (eventos, estado heredado, tarifa) y el resultado (días, importe, estado).
+ *
+ * Las revisiones nunca se modifican ni se borran. El borrado de una fila se
+ * registra como revisión de tipo DELETE para que la reconstrucción la omita.
+ */
+
+import * as admin from "firebase-admin";
+import { ProrationMode } from "./prorationMode";
+import { BillingBreakdownLine } from "./panelServices";
+import { RateSegment } from "./billingEngine";
+
+export const BILLING_REVISIONS_COLLECTION = "billingRevisions";
+
+export type BillingRevisionType = "UPSERT" | "DELETE";
+
+export interface BillingRevisionInputs {
+  eventIds: string[];
+  previousMonthKey: string | null;
+  estadoInicial: "ACTIVO" | "DESMONTADO" | "BAJA" | null;
+  tarifaInicial: number;
+  modoProrrateo: ProrationMode;
+  diasMes: number;
+}
+
+export interface BillingRevisionOutputs {
+  totalDiasFacturables: number;
+  totalImporte: number;
+  estadoAlCierre: "ACTIVO" | "DESMONTADO" | "BAJA";
+  tarifaAplicada: number;
+  desglose?: BillingBreakdownLine[]; // Servicio base + servicios recurrentes
+  tramosTarifa?: RateSegment[]; // Tramos de tarifa del servicio base (CAMBIO_TARIFA a mitad de mes)
+}
+
+export interface BillingRevision {
+  billingDocId: string;
+  panelId: string;
+  monthKey: string;
+  codigo: string;
+  municipio: string;
+  tipo: BillingRevisionType;
+  source: string;
+  inputs: BillingRevisionInputs | null;
+  outputs: BillingRevisionOutputs | null;
+  createdAt: admin.firestore.Timestamp;
+  createdBy: string;
+}
+
+interface BuildRevisionParams {
+  panelId: string;
+  monthKey: string;
+  codigo: string;
+  municipio: string;
+  source: string;
+  createdBy?: string;
+}
+
+/**
+ * Prepara una revisión UPSERT para escribirla en el mismo batch/transacción
+ * que la fila de billingMonthlyPanel.
+ *
+ * Uso: const rev = buildBillingRevision(...); transaction.set(rev.ref, rev.data);
+ */
+export function buildBillingRevision(
+  params: BuildRevisionParams & {
+    inputs: BillingRevisionInputs;
+    outputs: BillingRevisionOutputs;
+  }
+): { ref: FirebaseFirestore.DocumentReference; data: BillingRevision } {
+  return buildRevision(params, "UPSERT", params.inputs, params.outputs);
+}
+
+/**
+ * Prepara una revisión DELETE (la fila deja de existir a partir de este momento)
+ *
+ * @param billingDocId - ID de la fila de billingMonthlyPanel que se elimina
+ * @param data - Datos actuales de la fila (si se han leído) para denormalizar
+ */
+export function buildBillingDeletionRevision(
+  billingDocId: string,
+  data: FirebaseFirestore.DocumentData | undefined,
+  source: string,
+  createdBy?: string
+): { ref: FirebaseFirestore.DocumentReference; data: BillingRevision } {
+  const [panelIdFromId, monthKeyFromId] = splitBillingDocId(billingDocId);
+  return buildRevision(
+    {
+      panelId: data?.panelId || panelIdFromId,
+      monthKey: data?.monthKey || monthKeyFromId,
+      codigo: data?.codigo || "",
+      municipio: data?.municipio || "",
+      source,
+      createdBy,
+    },
+    "DELETE",
+    null,
+    null,
+    billingDocId
+  );
+}
+
+function buildRevision(
+  params: BuildRevisionParams,
+  tipo: BillingRevisionType,
+  inputs: BillingRevisionInputs | null,
+  outputs: BillingRevisionOutputs | null,
+  billingDocId = `${params.panelId}_${params.monthKey}`
+): { ref: FirebaseFirestore.DocumentReference; data: BillingRevision } {
+  const ref = admin.firestore().collection(BILLING_REVISIONS_COLLECTION).doc();
+  return {
+    ref,
+    data: {
+      billingDocId,
+      panelId: params.panelId,
+      monthKey: params.monthKey,
+      codigo: params.codigo,
+      municipio: params.municipio,
+      tipo,
+      source: params.source,
+      inputs,
+      outputs,
+      createdAt: admin.firestore.Timestamp.now(),
+      createdBy: params.createdBy || "system",
+    },
+  };
+}
+
+/**
+ * billingMonthlyPanel usa IDs "{panelId}_{YYYY-MM}" (el panelId puede contener "_")
+ */
+function splitBillingDocId(docId: string): [string, string] {
+  const index = docId.lastIndexOf("_");
+  if (index === -1) return [docId, ""];
+  return [docId.substring(0, index), docId.substring(index + 1)];
+}
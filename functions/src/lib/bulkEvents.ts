@@ -0,0 +1,127 @@
+/**
+ * Importación masiva de eventos de panel (bulkEventJobs)
+ *
+ * Los municipios envían listas de paradas a desmontar, reinstalar o dar de baja.
+ * Cada fila (código, acción, fecha, motivo) se valida con las mismas reglas que
+ * requestPanelChange; si todas son válidas se registran de una vez como un job
+ * (bulkEventJobs/{jobId}) con fichero de resultado descargable.
+ */
+
+import * as admin from "firebase-admin";
+
+export const BULK_EVENT_JOBS_COLLECTION = "bulkEventJobs";
+
+export const BULK_EVENT_ACTIONS = ["DESMONTADO", "REINSTALACION", "BAJA"] as const;
+
+export type BulkEventAction = typeof BULK_EVENT_ACTIONS[number];
+
+/** Sinónimos habituales en las hojas de los municipios */
+const ACTION_ALIASES: Record<string, BulkEventAction> = {
+  DESMONTADO: "DESMONTADO",
+  DESMONTAJE: "DESMONTADO",
+  DESMONTAR: "DESMONTADO",
+  REINSTALACION: "REINSTALACION",
+  REINSTALAR: "REINSTALACION",
+  BAJA: "BAJA",
+};
+
+/** Fila tal y como llega del fichero */
+export interface BulkEventInputRow {
+  fila: number; // Número de fila en el fichero (para los mensajes)
+  codigo: string;
+  accion: string;
+  fecha: string;
+  motivo?: string;
+}
+
+/** Resultado de validar (y, al confirmar, registrar) una fila */
+export interface BulkEventRowResult {
+  fila: number;
+  codigo: string;
+  action: BulkEventAction | null;
+  effectiveDateLocal: string | null;
+  monthKey: string | null;
+  motivo: string;
+  panelId: string | null;
+  estado: "VALIDA" | "ERROR" | "REGISTRADA";
+  error?: string;
+  eventId?: string;
+}
+
+export interface BulkEventJob {
+  fileName: string;
+  estado: "EN_CURSO" | "COMPLETADO" | "ERROR";
+  totalFilas: number;
+  eventosRegistrados: number;
+  mesesRecalculados: string[];
+  resultUrl: string | null;
+  error?: string;
+  createdAt: admin.firestore.Timestamp;
+  createdBy: string;
+  finishedAt?: admin.firestore.Timestamp;
+}
+
+/**
+ * Normaliza la acción de una fila ("Desmontaje", "reinstalación"...)
+ * @param raw - Texto de la columna acción
+ * @return Acción canónica o null si no se reconoce
+ */
+export function normalizeBulkAction(raw: string): BulkEventAction | null {
+  const key = raw
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toUpperCase();
+  return ACTION_ALIASES[key] ?? null;
+}
+
+/**
+ * Normaliza la fecha de una fila: YYYY-MM-DD o DD/MM/YYYY (también con guiones)
+ * @param raw - Texto de la columna fecha
+ * @return Fecha YYYY-MM-DD o null si no es una fecha válida
+ */
+export function normalizeBulkDate(raw: string): string | null {
+  const value = raw.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const local = /^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/.exec(value);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (local) {
+    [day, month, year] = [Number(local[1]), Number(local[2]), Number(local[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Fichero de resultado del job (CSV con ; para abrirlo en Excel en español)
+ * @param rows - Filas procesadas
+ * @return Contenido CSV (con BOM UTF-8)
+ */
+export function buildBulkResultCsv(rows: BulkEventRowResult[]): string {
+  const escape = (value: string) => /[;"\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+  const lines = [
+    "Fila;Código;Acción;Fecha;Motivo;Estado;Evento;Detalle",
+    ...rows.map((row) => [
+      String(row.fila),
+      row.codigo,
+      row.action || "",
+      row.effectiveDateLocal || "",
+      row.motivo,
+      row.estado,
+      row.eventId || "",
+      row.error || "",
+    ].map(escape).join(";")),
+  ];
+  return "\uFEFF" + lines.join("\n");
+}
@@ -0,0 +1,161 @@
+/**
+ * Contratos (contracts)
+ *
+ * Un contrato vincula un cliente con un conjunto de municipios y/o códigos de
+ * panel, y define:
+ * - Vigencia: fechaInicio / fechaFin (YYYY-MM-DD, fechaFin null = indefinido)
+ * - Tabla de tarifas por año: tarifas[year] = { importe, servicios? }
+ * - Cláusula de revisión de precios (IPC, porcentaje fijo o sin revisión)
+ *
+ * La tarifa de un panel en un mes se resuelve desde el contrato vigente que lo
+ * incluye (primero por código de panel, después por municipio). Si no hay
+ * contrato, o el contrato no tiene tarifa para el año, se usa rates/{year}.
+ */
+
+import * as admin from "firebase-admin";
+import { getStandardRateForYear } from "./rateService";
+import { ServiceRates, getServiceRatesForYear, parseServiceRates } from "./panelServices";
+
+export const CONTRACTS_COLLECTION = "contracts";
+
+export const REVISION_CLAUSE_TYPES = ["NINGUNA", "IPC", "PORCENTAJE_FIJO"] as const;
+
+export type RevisionClauseType = typeof REVISION_CLAUSE_TYPES[number];
+
+export interface RevisionClause {
+  tipo: RevisionClauseType;
+  porcentaje: number | null; // PORCENTAJE_FIJO: % anual; IPC: tope opcional
+  mesAplicacion: number; // Mes (1-12) en que se aplica la revisión anual
+}
+
+export interface ContractYearRate {
+  importe: number;
+  servicios?: ServiceRates;
+  revision?: { priceRevisionId: string; formula: string }; // Si viene de una revisión de precios
+}
+
+export interface Contract {
+  codigo: string;
+  cliente: {
+    nif: string;
+    razonSocial: string;
+  };
+  municipioIds: string[];
+  panelCodigos: string[];
+  tarifas: Record<string, ContractYearRate>;
+  fechaInicio: string;
+  fechaFin: string | null;
+  clausulaRevision: RevisionClause;
+  notas: string;
+  createdAt: admin.firestore.Timestamp;
+  createdBy: string;
+  updatedAt: admin.firestore.Timestamp;
+  updatedBy: string;
+}
+
+export type RateSource = "CONTRATO" | "ESTANDAR";
+
+/** Datos del panel para buscar su contrato */
+export interface PanelRef {
+  codigo: string;
+  codigosAnteriores?: string[]; // Códigos previos a una renumeración (changePanelCode)
+  municipioId: string;
+}
+
+export interface ResolvedRate {
+  importe: number;
+  servicios: ServiceRates;
+  source: RateSource;
+  contractId: string | null;
+  contractCodigo: string | null;
+}
+
+/**
+ * ¿El contrato está vigente en algún día del mes?
+ * @param contract - Contrato
+ * @param monthKey - Mes en formato YYYY-MM
+ */
+export function isContractActiveInMonth(
+  contract: Pick<Contract, "fechaInicio" | "fechaFin">,
+  monthKey: string
+): boolean {
+  // Comparación lexicográfica de fechas ISO: basta con el mes
+  const inicio = contract.fechaInicio.substring(0, 7);
+  const fin = contract.fechaFin ? contract.fechaFin.substring(0, 7) : null;
+  return inicio <= monthKey && (fin === null || fin >= monthKey);
+}
+
+/**
+ * Contrato vigente del panel en el mes (null si no tiene)
+ *
+ * Prioridad: contrato que incluye el código del panel > contrato del municipio.
+ * Con varios candidatos del mismo nivel gana el de fechaInicio más reciente.
+ * Un panel renumerado sigue en los contratos que lo listan con un código anterior.
+ *
+ * @param panel - Código (y códigos anteriores) y municipio del panel
+ * @param monthKey - Mes en formato YYYY-MM
+ */
+export async function findContractForPanel(
+  panel: PanelRef,
+  monthKey: string
+): Promise<{ id: string; data: Contract } | null> {
+  const db = admin.firestore();
+  // array-contains-any admite hasta 30 valores
+  const codigos = [panel.codigo, ...(panel.codigosAnteriores || [])].slice(0, 30);
+  const [byCode, byMunicipio] = await Promise.all([
+    db.collection(CONTRACTS_COLLECTION).where("panelCodigos", "array-contains-any", codigos).get(),
+    db.collection(CONTRACTS_COLLECTION).where("municipioIds", "array-contains", panel.municipioId).get(),
+  ]);
+
+  const pick = (snapshot: FirebaseFirestore.QuerySnapshot) => {
+    const candidates = snapshot.docs
+      .map((doc) => ({ id: doc.id, data: doc.data() as Contract }))
+      .filter((contract) => isContractActiveInMonth(contract.data, monthKey))
+      .sort((a, b) => b.data.fechaInicio.localeCompare(a.data.fechaInicio));
+    return candidates[0] || null;
+  };
+
+  return pick(byCode) || pick(byMunicipio);
+}
+
+/**
+ * Tarifa del panel para un mes: contrato vigente o, en su defecto, rates/{year}
+ *
+ * Sustituye a getStandardRateForYear en el motor de recálculo.
+ *
+ * @param panel - Código (y códigos anteriores) y municipio del panel
+ * @param monthKey - Mes en formato YYYY-MM
+ */
+export async function resolveRateForPanelMonth(
+  panel: PanelRef,
+  monthKey: string
+): Promise<ResolvedRate> {
+  const year = monthKey.split("-")[0];
+  const contract = await findContractForPanel(panel, monthKey);
+  const contractRate = contract?.data.tarifas?.[year];
+
+  if (contract && contractRate && typeof contractRate.importe === "number" && contractRate.importe > 0) {
+    // Los servicios sin tarifa en el contrato usan la tarifa estándar del año
+    const standardServices = await getServiceRatesForYear(year);
+    return {
+      importe: contractRate.importe,
+      servicios: { ...standardServices, ...parseServiceRates(contractRate.servicios) },
+      source: "CONTRATO",
+      contractId: contract.id,
+      contractCodigo: contract.data.codigo,
+    };
+  }
+
+  const [importe, servicios] = await Promise.all([
+    getStandardRateForYear(year),
+    getServiceRatesForYear(year),
+  ]);
+
+  return {
+    importe,
+    servicios,
+    source: "ESTANDAR",
+    contractId: contract?.id || null,
+    contractCodigo: contract?.data.codigo || null,
+  };
+}
@@ -0,0 +1,330 @@
+/**
+ * Exportación Facturae 3.2.2 (FACe)
+ *
+ * Cada factura emitida (invoices/{numero}) se convierte en un documento Facturae
+ * individual con los códigos DIR3 del municipio receptor:
+ * - 01 Oficina contable
+ * - 02 Órgano gestor
+ * - 03 Unidad tramitadora
+ *
+ * Antes de entregar un fichero se valida contra el XSD oficial. El documento
+ * se genera sin firma: la firma XAdES se aplica fuera con el certificado de la empresa.
+ */
+
+import * as admin from "firebase-admin";
+import * as fs from "fs";
+import * as path from "path";
+import { validateXML } from "xmllint-wasm";
+import { eurosToCents, centsToEuros } from "./moneyUtils";
+import { FiscalParty, Invoice, InvoiceLine } from "./invoicing";
+
+export const FACTURAE_SCHEMA_VERSION = "3.2.2";
+
+const FACTURAE_NAMESPACE = "http://www.facturae.gob.es/formato/Versiones/Facturaev3_2_2.xml";
+const XMLDSIG_NAMESPACE = "http://www.w3.org/2000/09/xmldsig#";
+
+// Esquemas oficiales: XMLDSig se incluye en functions/schemas; el de Facturae se lee
+// de ahí si existe y si no se descarga de facturae.gob.es (una vez por instancia)
+const FACTURAE_XSD_FILE = "Facturaev3_2_2.xsd";
+const FACTURAE_XSD_URL = "https://www.facturae.gob.es/formato/Versiones/Facturaev3_2_2.xml";
+const XMLDSIG_XSD_FILE = "xmldsig-core-schema.xsd";
+
+export interface Dir3Codes {
+  oficinaContable: string;
+  organoGestor: string;
+  unidadTramitadora: string;
+}
+
+export interface FacturaeValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+let schemaCache: Promise<{ facturae: string; xmldsig: string }> | null = null;
+
+/**
+ * Códigos DIR3 del municipio (municipalities/{municipioId}.dir3)
+ * Lanza un error si falta alguno: FACe rechaza facturas sin los tres centros.
+ */
+export async function loadDir3Codes(municipioId: string, municipio: string): Promise<Dir3Codes> {
+  const doc = await admin.firestore().collection("municipalities").doc(municipioId).get();
+  const dir3 = doc.exists ? doc.data()?.dir3 || {} : {};
+
+  const missing = (["oficinaContable", "organoGestor", "unidadTramitadora"] as const)
+    .filter((key) => !dir3[key]);
+  if (missing.length > 0) {
+    throw new Error(
+      `El municipio ${municipio} no tiene códigos DIR3 completos ` +
+      `(municipalities/${municipioId}.dir3: faltan ${missing.join(", ")})`
+    );
+  }
+
+  return {
+    oficinaContable: String(dir3.oficinaContable).trim(),
+    organoGestor: String(dir3.organoGestor).trim(),
+    unidadTramitadora: String(dir3.unidadTramitadora).trim(),
+  };
+}
+
+/**
+ * Construye el XML Facturae 3.2.2 de una factura emitida
+ */
+export function buildFacturaeXml(invoice: Invoice, dir3: Dir3Codes): string {
+  const [year, month] = invoice.monthKey.split("-").map(Number);
+  const periodo = {
+    inicio: `${invoice.monthKey}-01`,
+    fin: `${invoice.monthKey}-${String(new Date(Date.UTC(year, month, 0)).getUTCDate()).padStart(2, "0")}`,
+  };
+  const total = amount(invoice.total);
+
+  const centres = [
+    { code: dir3.oficinaContable, role: "01" },
+    { code: dir3.organoGestor, role: "02" },
+    { code: dir3.unidadTramitadora, role: "03" },
+  ];
+
+  return [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+    `<fe:Facturae xmlns:ds="${XMLDSIG_NAMESPACE}" xmlns:fe="${FACTURAE_NAMESPACE}">`,
+    "<FileHeader>",
+    el("SchemaVersion", FACTURAE_SCHEMA_VERSION),
+    el("Modality", "I"),
+    el("InvoiceIssuerType", "EM"),
+    "<Batch>",
+    el("BatchIdentifier", `${invoice.emisor.nif}${invoice.numero}`),
+    el("InvoicesCount", "1"),
+    `<TotalInvoicesAmount>${el("TotalAmount", total)}</TotalInvoicesAmount>`,
+    `<TotalOutstandingAmount>${el("TotalAmount", total)}</TotalOutstandingAmount>`,
+    `<TotalExecutableAmount>${el("TotalAmount", total)}</TotalExecutableAmount>`,
+    el("InvoiceCurrencyCode", "EUR"),
+    "</Batch>",
+    "</FileHeader>",
+    "<Parties>",
+    `<SellerParty>${taxIdentification(invoice.emisor)}${legalEntity(invoice.emisor)}</SellerParty>`,
+    "<BuyerParty>",
+    taxIdentification(invoice.receptor),
+    "<AdministrativeCentres>",
+    ...centres.map((centre) =>
+      "<AdministrativeCentre>" +
+      el("CentreCode", centre.code) +
+      el("RoleTypeCode", centre.role) +
+      addressInSpain(invoice.receptor) +
+      "</AdministrativeCentre>"
+    ),
+    "</AdministrativeCentres>",
+    legalEntity(invoice.receptor),
+    "</BuyerParty>",
+    "</Parties>",
+    "<Invoices>",
+    "<Invoice>",
+    invoiceHeader(invoice, periodo),
+    "<InvoiceIssueData>",
+    el("IssueDate", invoice.fechaEmision.toDate().toISOString().slice(0, 10)),
+    `<InvoicingPeriod>${el("StartDate", periodo.inicio)}${el("EndDate", periodo.fin)}</InvoicingPeriod>`,
+    el("InvoiceCurrencyCode", "EUR"),
+    el("TaxCurrencyCode", "EUR"),
+    el("LanguageName", "es"),
+    "</InvoiceIssueData>",
+    `<TaxesOutputs>${tax(invoice.ivaPorcentaje, invoice.baseImponible, invoice.cuotaIva)}</TaxesOutputs>`,
+    "<InvoiceTotals>",
+    el("TotalGrossAmount", amount(invoice.baseImponible)),
+    el("TotalGeneralDiscounts", amount(0)),
+    el("TotalGeneralSurcharges", amount(0)),
+    el("TotalGrossAmountBeforeTaxes", amount(invoice.baseImponible)),
+    el("TotalTaxOutputs", amount(invoice.cuotaIva)),
+    el("TotalTaxesWithheld", amount(0)),
+    el("InvoiceTotal", total),
+    el("TotalOutstandingAmount", total),
+    el("TotalExecutableAmount", total),
+    "</InvoiceTotals>",
+    "<Items>",
+    ...invoice.lineas.map((line) => invoiceLine(line, invoice.ivaPorcentaje)),
+    "</Items>",
+    "</Invoice>",
+    "</Invoices>",
+    "</fe:Facturae>",
+  ].join("\n");
+}
+
+/**
+ * Valida un documento Facturae contra el XSD oficial 3.2.2
+ */
+export async function validateFacturaeXml(xml: string): Promise<FacturaeValidationResult> {
+  const schemas = await loadSchemas();
+
+  const result = await validateXML({
+    xml: [{ fileName: "factura.xml", contents: xml }],
+    schema: [{ fileName: FACTURAE_XSD_FILE, contents: schemas.facturae }],
+    preload: [{ fileName: XMLDSIG_XSD_FILE, contents: schemas.xmldsig }],
+  });
+
+  return {
+    valid: result.valid,
+    errors: result.errors.map((error) => error.message),
+  };
+}
+
+/**
+ * Carga los XSD oficiales y redirige el import de xmldsig al fichero precargado
+ * (xmllint no tiene acceso a red dentro de WebAssembly)
+ */
+function loadSchemas(): Promise<{ facturae: string; xmldsig: string }> {
+  if (!schemaCache) {
+    const dir = schemasDir();
+    schemaCache = Promise.all([
+      readFacturaeSchema(dir),
+      fs.promises.readFile(path.join(dir, XMLDSIG_XSD_FILE), "utf-8"),
+    ])
+      .then(([facturae, xmldsig]) => ({
+        facturae: facturae.replace(
+          /schemaLocation="[^"]*xmldsig-core-schema\.xsd"/,
+          `schemaLocation="${XMLDSIG_XSD_FILE}"`
+        ),
+        xmldsig,
+      }))
+      .catch((error) => {
+        // No cachear el fallo: el siguiente intento vuelve a leer/descargar
+        schemaCache = null;
+        throw error;
+      });
+  }
+  return schemaCache;
+}
+
+/**
+ * XSD de Facturae: la copia de functions/schemas si existe, si no el oficial
+ */
+async function readFacturaeSchema(dir: string): Promise<string> {
+  const file = path.join(dir, FACTURAE_XSD_FILE);
+  if (fs.existsSync(file)) {
+    return fs.promises.readFile(file, "utf-8");
+  }
+
+  const response = await fetch(FACTURAE_XSD_URL);
+  if (!response.ok) {
+    throw new Error(
+      `No se pudo descargar el esquema ${FACTURAE_XSD_URL} (HTTP ${response.status}); ` +
+      `guárdalo como ${file} para validar sin red`
+    );
+  }
+  return response.text();
+}
+
+/**
+ * functions/schemas: tsc no copia los .xsd, así que se busca desde el JS
+ * compilado (lib/ o lib-test/) hacia arriba hasta el package.json de functions
+ */
+function schemasDir(): string {
+  let dir = __dirname;
+  while (!fs.existsSync(path.join(dir, "package.json"))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      throw new Error("No se encontró el directorio de functions (package.json)");
+    }
+    dir = parent;
+  }
+  return path.join(dir, "schemas");
+}
+
+function invoiceHeader(invoice: Invoice, periodo: { inicio: string; fin: string }): string {
+  const parts = [
+    "<InvoiceHeader>",
+    el("InvoiceNumber", invoiceNumber(invoice.numero, invoice.serie)),
+    el("InvoiceSeriesCode", invoice.serie),
+    el("InvoiceDocumentType", "FC"),
+    el("InvoiceClass", invoice.rectifica ? "OR" : "OO"),
+  ];
+
+  if (invoice.rectifica) {
+    // Las rectificativas siempre llevan las diferencias sobre la original (base imponible)
+    const serieOriginal = invoice.rectifica.numero.split(/\d/)[0];
+    parts.push(
+      "<Corrective>",
+      el("InvoiceNumber", invoiceNumber(invoice.rectifica.numero, serieOriginal)),
+      el("InvoiceSeriesCode", serieOriginal),
+      el("ReasonCode", "16"),
+      el("ReasonDescription", "Base imponible"),
+      `<TaxPeriod>${el("StartDate", periodo.inicio)}${el("EndDate", periodo.fin)}</TaxPeriod>`,
+      el("CorrectionMethod", "02"),
+      el("CorrectionMethodDescription", "Rectificación por diferencias"),
+      el("AdditionalReasonDescription", invoice.rectifica.motivo.slice(0, 2500)),
+      "</Corrective>"
+    );
+  }
+
+  parts.push("</InvoiceHeader>");
+  return parts.join("\n");
+}
+
+function invoiceLine(line: InvoiceLine, ivaPorcentaje: number): string {
+  // Cantidad 1 con el importe de la línea: los días van en la descripción
+  // (tarifa mensual × días ≠ importe prorrateado)
+  const importe = amount(line.importe);
+  const cuotaCents = Math.round(eurosToCents(line.importe) * ivaPorcentaje / 100);
+
+  return [
+    "<InvoiceLine>",
+    el("ItemDescription", line.concepto.slice(0, 2500)),
+    el("Quantity", "1.00"),
+    el("UnitPriceWithoutTax", importe),
+    el("TotalCost", importe),
+    el("GrossAmount", importe),
+    `<TaxesOutputs>${tax(ivaPorcentaje, line.importe, centsToEuros(cuotaCents))}</TaxesOutputs>`,
+    "</InvoiceLine>",
+  ].join("");
+}
+
+function tax(ivaPorcentaje: number, base: number, cuota: number): string {
+  return "<Tax>" +
+    el("TaxTypeCode", "01") +
+    el("TaxRate", ivaPorcentaje.toFixed(2)) +
+    `<TaxableBase>${el("TotalAmount", amount(base))}</TaxableBase>` +
+    `<TaxAmount>${el("TotalAmount", amount(cuota))}</TaxAmount>` +
+    "</Tax>";
+}
+
+function taxIdentification(party: FiscalParty): string {
+  return "<TaxIdentification>" +
+    el("PersonTypeCode", "J") +
+    el("ResidenceTypeCode", "R") +
+    el("TaxIdentificationNumber", party.nif) +
+    "</TaxIdentification>";
+}
+
+function legalEntity(party: FiscalParty): string {
+  return `<LegalEntity>${el("CorporateName", party.razonSocial)}${addressInSpain(party)}</LegalEntity>`;
+}
+
+function addressInSpain(party: FiscalParty): string {
+  return "<AddressInSpain>" +
+    el("Address", party.direccion) +
+    el("PostCode", party.codigoPostal) +
+    el("Town", party.municipio) +
+    el("Province", party.provincia) +
+    el("CountryCode", "ESP") +
+    "</AddressInSpain>";
+}
+
+/**
+ * Número sin el prefijo de serie (F2025-000012 → 2025-000012)
+ */
+function invoiceNumber(numero: string, serie: string): string {
+  return numero.startsWith(serie) ? numero.slice(serie.length) : numero;
+}
+
+function amount(value: number): string {
+  return centsToEuros(eurosToCents(value)).toFixed(2);
+}
+
+function el(name: string, value: string): string {
+  return `<${name}>${escapeXml(value)}</${name}>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,616 @@
+/**
+ * Facturación formal (invoices)
+ *
+ * Al cerrar un mes se emite una factura por municipio con:
+ * - Numeración correlativa sin huecos por serie y año (invoiceSeries/{serie}_{year})
+ * - Datos fiscales del emisor (settings/invoicing) y del receptor (municipalities/{id})
+ * - Líneas: servicio mensual de cada panel (billingMonthlyPanel) + servicios
+ *   recurrentes del desglose + intervenciones + rectificaciones de meses cerrados (AJUSTE)
+ * - Base imponible, IVA y total calculados en céntimos
+ *
+ * Las facturas son inmutables: nunca se actualizan ni se borran. Las correcciones
+ * se emiten como facturas rectificativas (serie propia) que referencian la original.
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { eurosToCents, centsToEuros } from "./moneyUtils";
+import { BASE_LINE_ID, BillingBreakdownLine } from "./panelServices";
+
+export const INVOICES_COLLECTION = "invoices";
+export const INVOICE_SERIES_COLLECTION = "invoiceSeries";
+
+const DEFAULT_IVA_PORCENTAJE = 21;
+const DEFAULT_SERIE_ORDINARIA = "F";
+const DEFAULT_SERIE_RECTIFICATIVA = "R";
+const REGULARIZACION_PREFIX = "Regularización: ";
+
+export type InvoiceType = "ORDINARIA" | "RECTIFICATIVA";
+export type InvoiceLineType = "SERVICIO" | "INTERVENCION" | "AJUSTE";
+export type RectificationMode = "ANULACION" | "DIFERENCIAS" | "RECALCULO";
+
+export interface FiscalParty {
+  nif: string;
+  razonSocial: string;
+  direccion: string;
+  codigoPostal: string;
+  municipio: string;
+  provincia: string;
+  pais: string;
+}
+
+export interface InvoiceLine {
+  tipo: InvoiceLineType;
+  panelId: string | null;
+  codigo: string | null;
+  eventId: string | null;
+  servicioId?: string | null; // Línea de servicio: base o servicio recurrente (clave estable)
+  concepto: string;
+  cantidad: number; // Días facturables (servicio) o 1 (intervención)
+  precioUnitario: number; // Tarifa mensual (servicio) o importe (intervención)
+  importe: number; // Base imponible de la línea
+}
+
+export interface Invoice {
+  numero: string;
+  serie: string;
+  year: number;
+  secuencia: number;
+  tipo: InvoiceType;
+  monthKey: string;
+  municipioId: string;
+  municipio: string;
+  emisor: FiscalParty;
+  receptor: FiscalParty;
+  lineas: InvoiceLine[];
+  baseImponible: number;
+  ivaPorcentaje: number;
+  cuotaIva: number;
+  total: number;
+  fechaEmision: admin.firestore.Timestamp;
+  createdBy: string;
+  rectifica: {
+    invoiceId: string;
+    numero: string;
+    modo: RectificationMode;
+    motivo: string;
+  } | null;
+}
+
+export interface InvoicingSettings {
+  emisor: FiscalParty;
+  ivaPorcentaje: number;
+  serieOrdinaria: string;
+  serieRectificativa: string;
+}
+
+export interface IssueMonthInvoicesResult {
+  emitidas: Array<{ invoiceId: string; numero: string; municipio: string; total: number }>;
+  yaEmitidas: number;
+  pendientesRectificar: Array<{ invoiceId: string; numero: string; municipio: string; diferencia: number }>;
+  errores: Array<{ municipioId: string; error: string }>;
+}
+
+interface MunicipalityLines {
+  municipioId: string;
+  municipio: string;
+  lineas: InvoiceLine[];
+}
+
+/**
+ * Lee la configuración de facturación (settings/invoicing)
+ * Lanza failed-precondition si faltan los datos fiscales del emisor.
+ */
+export async function loadInvoicingSettings(): Promise<InvoicingSettings> {
+  const doc = await admin.firestore().collection("settings").doc("invoicing").get();
+  const data = doc.exists ? doc.data()! : {};
+
+  if (!data.emisor?.nif || !data.emisor?.razonSocial) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      "Faltan los datos fiscales del emisor (settings/invoicing.emisor: nif y razonSocial)"
+    );
+  }
+
+  return {
+    emisor: toFiscalParty(data.emisor),
+    ivaPorcentaje: typeof data.ivaPorcentaje === "number" ? data.ivaPorcentaje : DEFAULT_IVA_PORCENTAJE,
+    serieOrdinaria: data.serieOrdinaria || DEFAULT_SERIE_ORDINARIA,
+    serieRectificativa: data.serieRectificativa || DEFAULT_SERIE_RECTIFICATIVA,
+  };
+}
+
+/**
+ * Emite las facturas ordinarias de un mes cerrado (una por municipio)
+ *
+ * Idempotente: los municipios que ya tienen factura ordinaria del mes se omiten.
+ * Si sus líneas actuales difieren de lo facturado se devuelven en
+ * pendientesRectificar para que un admin emita la rectificativa.
+ */
+export async function issueMonthInvoices(
+  monthKey: string,
+  userEmail: string
+): Promise<IssueMonthInvoicesResult> {
+  const db = admin.firestore();
+  const settings = await loadInvoicingSettings();
+  const groups = await buildMonthInvoiceLines(monthKey);
+
+  const result: IssueMonthInvoicesResult = {
+    emitidas: [],
+    yaEmitidas: 0,
+    pendientesRectificar: [],
+    errores: [],
+  };
+
+  // Facturas ordinarias ya emitidas para el mes (por municipio)
+  const existingSnapshot = await db
+    .collection(INVOICES_COLLECTION)
+    .where("monthKey", "==", monthKey)
+    .where("tipo", "==", "ORDINARIA")
+    .get();
+  const existingByMunicipio = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+  existingSnapshot.docs.forEach((doc) => existingByMunicipio.set(doc.data().municipioId, doc));
+
+  for (const group of groups) {
+    const existing = existingByMunicipio.get(group.municipioId);
+
+    if (existing) {
+      result.yaEmitidas++;
+      const netLines = await getNetInvoicedLines(existing.id);
+      const diferencia = diffLines(group.lineas, netLines).reduce(
+        (sum, line) => sum + eurosToCents(line.importe), 0
+      );
+      if (diferencia !== 0) {
+        result.pendientesRectificar.push({
+          invoiceId: existing.id,
+          numero: existing.data().numero,
+          municipio: group.municipio,
+          diferencia: centsToEuros(diferencia),
+        });
+      }
+      continue;
+    }
+
+    if (group.lineas.length === 0) continue;
+
+    try {
+      const receptor = await loadRecipient(group.municipioId, group.municipio);
+      const invoice = await issueInvoice({
+        serie: settings.serieOrdinaria,
+        tipo: "ORDINARIA",
+        monthKey,
+        municipioId: group.municipioId,
+        municipio: group.municipio,
+        emisor: settings.emisor,
+        receptor,
+        lineas: group.lineas,
+        ivaPorcentaje: settings.ivaPorcentaje,
+        createdBy: userEmail,
+        rectifica: null,
+      });
+
+      if (invoice) {
+        result.emitidas.push({
+          invoiceId: invoice.id,
+          numero: invoice.data.numero,
+          municipio: group.municipio,
+          total: invoice.data.total,
+        });
+      } else {
+        result.yaEmitidas++;
+      }
+    } catch (error: any) {
+      functions.logger.error(
+        `[invoicing] ❌ No se pudo emitir la factura de ${group.municipioId} (${monthKey}): ${error.message}`
+      );
+      result.errores.push({ municipioId: group.municipioId, error: error.message });
+    }
+  }
+
+  functions.logger.info(
+    `[invoicing] Mes ${monthKey}: ${result.emitidas.length} emitidas, ${result.yaEmitidas} ya emitidas, ` +
+    `${result.pendientesRectificar.length} pendientes de rectificar, ${result.errores.length} errores`
+  );
+
+  return result;
+}
+
+/**
+ * Emite una factura rectificativa sobre una factura ordinaria
+ *
+ * - ANULACION: anula lo facturado neto (original + rectificativas previas)
+ * - RECALCULO: factura la diferencia entre la facturación actual y lo facturado neto
+ * - DIFERENCIAS: líneas manuales (importes positivos o negativos)
+ */
+export async function issueRectifyingInvoice(params: {
+  invoiceId: string;
+  modo: RectificationMode;
+  motivo: string;
+  lineas?: Array<{ concepto: string; importe: number; panelId?: string }>;
+  userEmail: string;
+}): Promise<{ id: string; data: Invoice }> {
+  const db = admin.firestore();
+  const originalDoc = await db.collection(INVOICES_COLLECTION).doc(params.invoiceId).get();
+
+  if (!originalDoc.exists) {
+    throw new functions.https.HttpsError("not-found", `La factura ${params.invoiceId} no existe`);
+  }
+
+  const original = originalDoc.data() as Invoice;
+  if (original.tipo !== "ORDINARIA") {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      "Solo se pueden rectificar facturas ordinarias (la rectificativa referencia siempre a la original)"
+    );
+  }
+
+  const netLines = await getNetInvoicedLines(params.invoiceId);
+  let lineas: InvoiceLine[];
+
+  if (params.modo === "ANULACION") {
+    lineas = netLines.map((line) => ({ ...line, importe: -line.importe }));
+  } else if (params.modo === "RECALCULO") {
+    const groups = await buildMonthInvoiceLines(original.monthKey);
+    const current = groups.find((g) => g.municipioId === original.municipioId);
+    lineas = diffLines(current?.lineas || [], netLines);
+  } else {
+    lineas = (params.lineas || []).map((line) => ({
+      tipo: "AJUSTE" as InvoiceLineType,
+      panelId: line.panelId || null,
+      codigo: null,
+      eventId: null,
+      concepto: line.concepto,
+      cantidad: 1,
+      precioUnitario: line.importe,
+      importe: line.importe,
+    }));
+  }
+
+  lineas = lineas.filter((line) => eurosToCents(line.importe) !== 0);
+  if (lineas.length === 0) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      "La rectificativa no tiene importes: no hay diferencias con lo ya facturado"
+    );
+  }
+  // Nunca se consume un número de la serie para una rectificativa de importe cero
+  if (lineas.reduce((sum, line) => sum + eurosToCents(line.importe), 0) === 0) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      "La rectificativa suma 0€: sus líneas se compensan entre sí"
+    );
+  }
+
+  const settings = await loadInvoicingSettings();
+  const invoice = await issueInvoice({
+    serie: settings.serieRectificativa,
+    tipo: "RECTIFICATIVA",
+    monthKey: original.monthKey,
+    municipioId: original.municipioId,
+    municipio: original.municipio,
+    emisor: original.emisor,
+    receptor: original.receptor,
+    lineas,
+    // La rectificativa mantiene el tipo impositivo de la factura rectificada
+    ivaPorcentaje: original.ivaPorcentaje,
+    createdBy: params.userEmail,
+    rectifica: {
+      invoiceId: params.invoiceId,
+      numero: original.numero,
+      modo: params.modo,
+      motivo: params.motivo,
+    },
+  });
+
+  // issueInvoice solo devuelve null para ordinarias duplicadas
+  return invoice!;
+}
+
+/**
+ * Asigna número y escribe la factura en una transacción (numeración sin huecos)
+ *
+ * Devuelve null si es una ordinaria y ya existe otra para el mismo mes/municipio
+ * (protección frente a dobles cierres concurrentes).
+ */
+async function issueInvoice(params: {
+  serie: string;
+  tipo: InvoiceType;
+  monthKey: string;
+  municipioId: string;
+  municipio: string;
+  emisor: FiscalParty;
+  receptor: FiscalParty;
+  lineas: InvoiceLine[];
+  ivaPorcentaje: number;
+  createdBy: string;
+  rectifica: Invoice["rectifica"];
+}): Promise<{ id: string; data: Invoice } | null> {
+  const db = admin.firestore();
+  const fechaEmision = admin.firestore.Timestamp.now();
+  const year = fechaEmision.toDate().getUTCFullYear();
+  const seriesRef = db.collection(INVOICE_SERIES_COLLECTION).doc(`${params.serie}_${year}`);
+
+  const baseCents = params.lineas.reduce((sum, line) => sum + eurosToCents(line.importe), 0);
+  const cuotaCents = Math.round((baseCents * params.ivaPorcentaje) / 100);
+
+  return db.runTransaction(async (transaction) => {
+    if (params.tipo === "ORDINARIA") {
+      const duplicate = await transaction.get(
+        db.collection(INVOICES_COLLECTION)
+          .where("monthKey", "==", params.monthKey)
+          .where("municipioId", "==", params.municipioId)
+          .where("tipo", "==", "ORDINARIA")
+          .limit(1)
+      );
+      if (!duplicate.empty) return null;
+    }
+
+    const seriesDoc = await transaction.get(seriesRef);
+    const secuencia = (seriesDoc.exists ? seriesDoc.data()!.lastNumber || 0 : 0) + 1;
+    const numero = `${params.serie}${year}-${String(secuencia).padStart(6, "0")}`;
+
+    const invoice: Invoice = {
+      numero,
+      serie: params.serie,
+      year,
+      secuencia,
+      tipo: params.tipo,
+      monthKey: params.monthKey,
+      municipioId: params.municipioId,
+      municipio: params.municipio,
+      emisor: params.emisor,
+      receptor: params.receptor,
+      lineas: params.lineas,
+      baseImponible: centsToEuros(baseCents),
+      ivaPorcentaje: params.ivaPorcentaje,
+      cuotaIva: centsToEuros(cuotaCents),
+      total: centsToEuros(baseCents + cuotaCents),
+      fechaEmision,
+      createdBy: params.createdBy,
+      rectifica: params.rectifica,
+    };
+
+    transaction.set(seriesRef, {
+      serie: params.serie,
+      year,
+      lastNumber: secuencia,
+      updatedAt: fechaEmision,
+    });
+    // create() falla si el número ya existe: nunca se sobrescribe una factura
+    transaction.create(db.collection(INVOICES_COLLECTION).doc(numero), invoice);
+
+    functions.logger.info(
+      `[invoicing] ✅ Factura ${numero} (${params.tipo}) emitida: ${params.municipio} ${params.monthKey}, ` +
+      `total ${invoice.total.toFixed(2)}€`
+    );
+
+    return { id: numero, data: invoice };
+  });
+}
+
+/**
+ * Construye las líneas facturables del mes agrupadas por municipio
+ *
+ * El servicio de cada panel es totalImporte menos sus intervenciones y
+ * rectificaciones (que van en líneas propias). Los ajustes manuales quedan
+ * incluidos en el servicio.
+ */
+export async function buildMonthInvoiceLines(monthKey: string): Promise<MunicipalityLines[]> {
+  const db = admin.firestore();
+
+  const billingSnapshot = await db
+    .collection("billingMonthlyPanel")
+    .where("monthKey", "==", monthKey)
+    .get();
+
+  const rows = billingSnapshot.docs.map((doc) => doc.data());
+
+  // Datos maestros de los paneles (municipioId) en lecturas agrupadas
+  const panelData = new Map<string, FirebaseFirestore.DocumentData>();
+  const panelIds = Array.from(new Set(rows.map((row) => row.panelId)));
+  for (let i = 0; i < panelIds.length; i += 100) {
+    const refs = panelIds.slice(i, i + 100).map((id) => db.collection("panels").doc(id));
+    const docs = refs.length > 0 ? await db.getAll(...refs) : [];
+    docs.forEach((doc) => {
+      if (doc.exists) panelData.set(doc.id, doc.data()!);
+    });
+  }
+
+  // Intervenciones y rectificaciones del mes por panel (10 consultas en paralelo)
+  const interventions = new Map<string, FirebaseFirestore.QueryDocumentSnapshot[]>();
+  for (let i = 0; i < panelIds.length; i += 10) {
+    const results = await Promise.all(
+      panelIds.slice(i, i + 10).map(async (panelId) => {
+        const snapshot = await db
+          .collection("panels")
+          .doc(panelId)
+          .collection("panelEvents")
+          .where("monthKey", "==", monthKey)
+          .get();
+        return {
+          panelId,
+          events: snapshot.docs.filter(
+            (doc) => ["INTERVENCION", "RECTIFICACION"].includes(doc.data().action) && doc.data().isDeleted !== true
+          ),
+        };
+      })
+    );
+    results.forEach(({ panelId, events }) => interventions.set(panelId, events));
+  }
+
+  const groups = new Map<string, MunicipalityLines>();
+
+  for (const row of rows) {
+    const panel = panelData.get(row.panelId);
+    const municipioId = panel?.municipioId || row.municipio || "SIN_MUNICIPIO";
+
+    if (!groups.has(municipioId)) {
+      groups.set(municipioId, { municipioId, municipio: row.municipio || municipioId, lineas: [] });
+    }
+    const group = groups.get(municipioId)!;
+
+    const panelInterventions = interventions.get(row.panelId) || [];
+    const interventionsCents = panelInterventions.reduce(
+      (sum, doc) => sum + eurosToCents(doc.data().snapshotAfter?.importeAjuste || 0), 0
+    );
+    const serviceLines = (Array.isArray(row.desglose) ? row.desglose as BillingBreakdownLine[] : [])
+      .filter((line) => line.servicioId !== BASE_LINE_ID);
+    const serviceLinesCents = serviceLines.reduce((sum, line) => sum + eurosToCents(line.importe), 0);
+    const servicioCents = eurosToCents(row.totalImporte || 0) - interventionsCents - serviceLinesCents;
+
+    if (servicioCents !== 0) {
+      group.lineas.push({
+        tipo: "SERVICIO",
+        panelId: row.panelId,
+        codigo: row.codigo,
+        eventId: null,
+        servicioId: BASE_LINE_ID,
+        concepto: `Servicio PIV ${row.codigo} - ${monthKey} ` +
+          `(${row.totalDiasFacturables || 0}/${row.diasMes ?? 30} días)`,
+        cantidad: row.totalDiasFacturables || 0,
+        precioUnitario: row.tarifaAplicada || 0,
+        importe: centsToEuros(servicioCents),
+      });
+    }
+
+    // Servicios recurrentes (mantenimiento, conectividad...): una línea por servicio
+    for (const line of serviceLines) {
+      if (eurosToCents(line.importe) === 0) continue;
+      group.lineas.push({
+        tipo: "SERVICIO",
+        panelId: row.panelId,
+        codigo: row.codigo,
+        eventId: null,
+        servicioId: line.servicioId,
+        concepto: `${line.descripcion} ${row.codigo} - ${monthKey} ` +
+          `(${line.dias}/${row.diasMes ?? 30} días)`,
+        cantidad: line.dias,
+        precioUnitario: line.tarifa,
+        importe: line.importe,
+      });
+    }
+
+    for (const doc of panelInterventions) {
+      const event = doc.data();
+      const importe = event.snapshotAfter?.importeAjuste || 0;
+      if (eurosToCents(importe) === 0) continue;
+      const isRectificacion = event.action === "RECTIFICACION";
+      group.lineas.push({
+        tipo: isRectificacion ? "AJUSTE" : "INTERVENCION",
+        panelId: row.panelId,
+        codigo: row.codigo,
+        eventId: doc.id,
+        concepto: isRectificacion ?
+          `Rectificación ${event.rectificacion?.monthKeyOriginal || ""} ${row.codigo}: ${event.concepto || ""}` :
+          `Intervención ${event.tipoIntervencion || ""} ${row.codigo}: ${event.concepto || "Sin descripción"}`,
+        cantidad: 1,
+        precioUnitario: importe,
+        importe,
+      });
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => a.municipio.localeCompare(b.municipio));
+}
+
+/**
+ * Líneas netas facturadas: original + todas sus rectificativas, agregadas por clave
+ */
+async function getNetInvoicedLines(invoiceId: string): Promise<InvoiceLine[]> {
+  const db = admin.firestore();
+  const originalDoc = await db.collection(INVOICES_COLLECTION).doc(invoiceId).get();
+  const rectificativas = await db
+    .collection(INVOICES_COLLECTION)
+    .where("rectifica.invoiceId", "==", invoiceId)
+    .get();
+
+  const lines = [
+    originalDoc.data() as Invoice,
+    ...rectificativas.docs.map((doc) => doc.data() as Invoice),
+  ].flatMap((invoice) => invoice.lineas);
+
+  return Array.from(sumLinesByKey(lines).values())
+    .filter(({ cents }) => cents !== 0)
+    .map(({ line, cents }) => ({ ...line, importe: centsToEuros(cents) }));
+}
+
+/**
+ * Diferencia por clave (actual - facturado neto), solo claves con importe distinto de cero
+ */
+function diffLines(current: InvoiceLine[], invoiced: InvoiceLine[]): InvoiceLine[] {
+  const currentByKey = sumLinesByKey(current);
+  const invoicedByKey = sumLinesByKey(invoiced);
+  const result: InvoiceLine[] = [];
+
+  // Las claves solo facturadas son líneas que ya no existen (panel eliminado, intervención borrada...)
+  for (const key of new Set([...currentByKey.keys(), ...invoicedByKey.keys()])) {
+    const actual = currentByKey.get(key);
+    const facturado = invoicedByKey.get(key);
+    const diffCents = (actual?.cents || 0) - (facturado?.cents || 0);
+    if (diffCents === 0) continue;
+
+    const line = (actual || facturado)!.line;
+    result.push({
+      ...line,
+      concepto: line.concepto.startsWith(REGULARIZACION_PREFIX) ?
+        line.concepto :
+        `${REGULARIZACION_PREFIX}${line.concepto}`,
+      importe: centsToEuros(diffCents),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Suma en céntimos por clave; conserva la última línea de cada clave (concepto más reciente)
+ */
+function sumLinesByKey(lines: InvoiceLine[]): Map<string, { line: InvoiceLine; cents: number }> {
+  const byKey = new Map<string, { line: InvoiceLine; cents: number }>();
+  for (const line of lines) {
+    const key = lineKey(line);
+    byKey.set(key, { line, cents: (byKey.get(key)?.cents || 0) + eurosToCents(line.importe) });
+  }
+  return byKey;
+}
+
+/**
+ * Identidad estable de una línea: tipo + panel + evento o servicio
+ *
+ * No incluye el concepto: lleva el prefijo de regularización y los días
+ * facturados, que cambian entre la factura y sus rectificativas.
+ */
+function lineKey(line: InvoiceLine): string {
+  const servicioId = line.tipo === "SERVICIO" ? line.servicioId || BASE_LINE_ID : "";
+  return `${line.tipo}|${line.panelId || ""}|${line.eventId || servicioId}`;
+}
+
+/**
+ * Datos fiscales del receptor desde municipalities/{municipioId}
+ */
+async function loadRecipient(municipioId: string, municipio: string): Promise<FiscalParty> {
+  const doc = await admin.firestore().collection("municipalities").doc(municipioId).get();
+  const data = doc.exists ? doc.data()! : {};
+
+  if (!data.nif) {
+    throw new Error(`El municipio ${municipio} no tiene NIF configurado (municipalities/${municipioId}.nif)`);
+  }
+
+  return toFiscalParty({
+    ...data,
+    razonSocial: data.razonSocial || `Ayuntamiento de ${data.nombre || municipio}`,
+    municipio: data.municipio || data.nombre || municipio,
+  });
+}
+
+function toFiscalParty(data: FirebaseFirestore.DocumentData): FiscalParty {
+  return {
+    nif: data.nif || "",
+    razonSocial: data.razonSocial || "",
+    direccion: data.direccion || "",
+    codigoPostal: data.codigoPostal || "",
+    municipio: data.municipio || "",
+    provincia: data.provincia || "",
+    pais: data.pais || "ES",
+  };
+}
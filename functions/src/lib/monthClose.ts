@@ -0,0 +1,216 @@
+/**
+ * Cierre guiado del mes
+ *
+ * Antes de bloquear un mes se ejecutan unas comprobaciones sobre sus datos:
+ * - TOTALES_RESUMEN: billingSummary coincide con la suma de billingMonthlyPanel
+ * - ACTIVOS_SIN_IMPORTE: ningún panel ACTIVO al cierre con 0€
+ * - CODIGOS_DUPLICADOS: sin duplicados en panels ni en billing (diagnoseDuplicates)
+ * - PANELES_SIN_FACTURACION: todo panel existente en el mes tiene su fila de billing
+ * - TAREAS_FALLIDAS: no quedan tareas pendientes en taskDeadLetters
+ *
+ * Toda comprobación fallida bloquea el cierre salvo que se dispense con un
+ * comentario. El registro del cierre (monthCloses) guarda quién cerró, las
+ * dispensas y una huella de los totales del mes.
+ */
+
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import { eurosToCents } from "./moneyUtils";
+import { DEAD_LETTERS_COLLECTION } from "./taskQueue";
+import { computeSummaryTotals, getDefaultDiasMes } from "./summaryTotals";
+import { diagnoseMonthDuplicates } from "../commands/diagnoseDuplicates";
+
+export const MONTH_CLOSES_COLLECTION = "monthCloses";
+
+export type MonthCloseCheckId =
+  | "TOTALES_RESUMEN"
+  | "ACTIVOS_SIN_IMPORTE"
+  | "CODIGOS_DUPLICADOS"
+  | "PANELES_SIN_FACTURACION"
+  | "TAREAS_FALLIDAS";
+
+export interface MonthCloseCheck {
+  id: MonthCloseCheckId;
+  titulo: string;
+  ok: boolean;
+  detalle: string;
+  muestras: string[]; // Primeros casos afectados (códigos, ids...)
+}
+
+export interface MonthCloseTotals {
+  totalImporteMes: number;
+  totalPanelesFacturables: number;
+  panelesActivos: number;
+  panelesParciales: number;
+  totalPaneles: number; // Filas de billingMonthlyPanel del mes
+}
+
+export interface MonthCloseChecksResult {
+  monthKey: string;
+  checks: MonthCloseCheck[];
+  totals: MonthCloseTotals;
+  totalsFingerprint: string;
+  canClose: boolean; // Todas las comprobaciones en verde (sin necesidad de dispensas)
+}
+
+export interface MonthCloseWaiver {
+  checkId: MonthCloseCheckId;
+  comment: string;
+}
+
+export interface MonthCloseRecord {
+  monthKey: string;
+  closedAt: admin.firestore.Timestamp;
+  closedBy: string;
+  checks: Array<{ id: MonthCloseCheckId; ok: boolean; detalle: string }>;
+  waivers: MonthCloseWaiver[];
+  totals: MonthCloseTotals;
+  totalsFingerprint: string;
+}
+
+const MAX_MUESTRAS = 10;
+
+/**
+ * Huella de los totales del mes: SHA-256 de las filas de billing ordenadas por
+ * panel (días e importe en céntimos). Cambia con cualquier recálculo del mes.
+ *
+ * @param rows - Filas de billingMonthlyPanel del mes
+ * @return Huella hexadecimal
+ */
+export function computeTotalsFingerprint(
+  rows: Array<{ panelId: string; totalDiasFacturables: number; totalImporte: number }>,
+): string {
+  const lines = rows
+    .map((row) => `${row.panelId}|${row.totalDiasFacturables}|${eurosToCents(row.totalImporte)}`)
+    .sort();
+  return createHash("sha256").update(lines.join("\n")).digest("hex");
+}
+
+/**
+ * Ejecuta las comprobaciones previas al cierre del mes
+ *
+ * @param monthKey - Mes a cerrar (YYYY-MM)
+ * @return Comprobaciones, totales recalculados y huella de los totales
+ */
+export async function runMonthCloseChecks(monthKey: string): Promise<MonthCloseChecksResult> {
+  const db = admin.firestore();
+
+  const [
+    summaryDoc, billingSnapshot, panelsSnapshot, deadLettersSnapshot, duplicates, diasMes,
+  ] = await Promise.all([
+    db.collection("billingSummary").doc(monthKey).get(),
+    db.collection("billingMonthlyPanel").where("monthKey", "==", monthKey).get(),
+    db.collection("panels").get(),
+    db.collection(DEAD_LETTERS_COLLECTION).where("estado", "==", "PENDIENTE").get(),
+    diagnoseMonthDuplicates(monthKey),
+    getDefaultDiasMes(monthKey),
+  ]);
+
+  const rows = billingSnapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      panelId: data.panelId as string,
+      codigo: data.codigo as string,
+      estadoAlCierre: data.estadoAlCierre as string,
+      totalDiasFacturables: (data.totalDiasFacturables as number) || 0,
+      totalImporte: (data.totalImporte as number) || 0,
+      diasMes: data.diasMes as number | undefined,
+    };
+  });
+
+  // Totales exactos (mismo criterio que los que escriben billingSummary, ver lib/summaryTotals)
+  const totals: MonthCloseTotals = { ...computeSummaryTotals(rows, diasMes), totalPaneles: rows.length };
+
+  const checks: MonthCloseCheck[] = [];
+
+  // 1. billingSummary vs suma de billingMonthlyPanel
+  const summary = summaryDoc.data() || {};
+  const diferencias: string[] = [];
+  if (eurosToCents(summary.totalImporteMes || 0) !== eurosToCents(totals.totalImporteMes)) {
+    diferencias.push(
+      `totalImporteMes: resumen ${summary.totalImporteMes ?? 0}€, paneles ${totals.totalImporteMes}€`
+    );
+  }
+  for (const field of ["totalPanelesFacturables", "panelesActivos", "panelesParciales"] as const) {
+    if ((summary[field] || 0) !== totals[field]) {
+      diferencias.push(`${field}: resumen ${summary[field] ?? 0}, paneles ${totals[field]}`);
+    }
+  }
+  checks.push({
+    id: "TOTALES_RESUMEN",
+    titulo: "Totales del resumen",
+    ok: diferencias.length === 0,
+    detalle: diferencias.length === 0 ?
+      `billingSummary coincide con los ${rows.length} paneles del mes` :
+      "billingSummary no coincide con billingMonthlyPanel. Resincroniza el resumen o recalcula el mes.",
+    muestras: diferencias,
+  });
+
+  // 2. Paneles activos sin importe
+  const activosSinImporte = rows.filter((row) => row.estadoAlCierre === "ACTIVO" && row.totalImporte === 0);
+  checks.push({
+    id: "ACTIVOS_SIN_IMPORTE",
+    titulo: "Paneles activos con 0€",
+    ok: activosSinImporte.length === 0,
+    detalle: activosSinImporte.length === 0 ?
+      "Todos los paneles activos tienen importe" :
+      `${activosSinImporte.length} panel(es) ACTIVO al cierre con importe 0€`,
+    muestras: activosSinImporte.slice(0, MAX_MUESTRAS).map((row) => row.codigo),
+  });
+
+  // 3. Duplicados (diagnoseDuplicates)
+  const duplicatesOk = duplicates.duplicatedCodigosInPanels === 0 &&
+    duplicates.duplicatedPanelIdsInBilling === 0 &&
+    duplicates.duplicatedCodigosInBilling === 0;
+  checks.push({
+    id: "CODIGOS_DUPLICADOS",
+    titulo: "Códigos duplicados",
+    ok: duplicatesOk,
+    detalle: duplicates.conclusion,
+    muestras: [
+      ...(duplicates.samples.panelDuplicates || []).map((d) => `panels: ${d.codigo} (${d.panels.length})`),
+      ...(duplicates.samples.billingDuplicates || []).map((d) => `billing: ${d.codigo} (${d.docs.length})`),
+    ],
+  });
+
+  // 4. Paneles sin fila de billing (se ignoran los dados de alta después del mes)
+  const [year, month] = monthKey.split("-").map(Number);
+  const monthEnd = new Date(Date.UTC(year, month, 1));
+  const billedPanelIds = new Set(rows.map((row) => row.panelId));
+  const sinFacturacion = panelsSnapshot.docs.filter((doc) => {
+    const createdAt = doc.data().createdAt as admin.firestore.Timestamp | undefined;
+    if (createdAt && createdAt.toDate() >= monthEnd) return false;
+    return !billedPanelIds.has(doc.id);
+  });
+  checks.push({
+    id: "PANELES_SIN_FACTURACION",
+    titulo: "Paneles sin facturación",
+    ok: sinFacturacion.length === 0,
+    detalle: sinFacturacion.length === 0 ?
+      "Todos los paneles tienen fila de facturación en el mes" :
+      `${sinFacturacion.length} panel(es) sin billingMonthlyPanel en ${monthKey}`,
+    muestras: sinFacturacion.slice(0, MAX_MUESTRAS).map((doc) => doc.data().codigo || doc.id),
+  });
+
+  // 5. Tareas de la cola sin resolver
+  checks.push({
+    id: "TAREAS_FALLIDAS",
+    titulo: "Tareas fallidas pendientes",
+    ok: deadLettersSnapshot.empty,
+    detalle: deadLettersSnapshot.empty ?
+      "No hay tareas fallidas pendientes" :
+      `${deadLettersSnapshot.size} tarea(s) fallida(s) sin reenviar ni descartar (Mantenimiento → Tareas fallidas)`,
+    muestras: deadLettersSnapshot.docs.slice(0, MAX_MUESTRAS).map((doc) => {
+      const data = doc.data();
+      return `${data.queue}: ${data.lastError}`;
+    }),
+  });
+
+  return {
+    monthKey,
+    checks,
+    totals,
+    totalsFingerprint: computeTotalsFingerprint(rows),
+    canClose: checks.every((check) => check.ok),
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Códigos de panel y renumeraciones
+ *
+ * panelCodes/{codigo} es el candado de unicidad del código vigente. Cuando la
+ * autoridad de transporte renumera una parada (changePanelCode), el candado
+ * pasa al código nuevo y el anterior queda como alias del mismo panel
+ * (reemplazadoPor), de modo que no se reutiliza y se sigue encontrando.
+ *
+ * Cada cambio se guarda en panels.historialCodigos con su fecha efectiva:
+ * los meses anteriores a esa fecha se facturan con el código antiguo.
+ */
+
+import * as admin from "firebase-admin";
+
+export interface PanelCodeChange {
+  codigoAnterior: string;
+  codigoNuevo: string;
+  effectiveDateLocal: string; // YYYY-MM-DD
+  monthKey: string; // Primer mes con el código nuevo
+  motivo: string | null;
+  changedBy: string;
+  changedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Código con el que se factura el panel en un mes
+ *
+ * @param panelData - Documento panels (codigo + historialCodigos)
+ * @param monthKey - Mes en formato YYYY-MM
+ * @return Código vigente en ese mes
+ */
+export function codigoForMonth(panelData: FirebaseFirestore.DocumentData, monthKey: string): string {
+  const changes = (panelData.historialCodigos || []) as PanelCodeChange[];
+  // Primer cambio posterior al mes: el mes aún usaba el código anterior a ese cambio
+  const nextChange = changes
+    .filter((change) => change.monthKey > monthKey)
+    .sort((a, b) => a.monthKey.localeCompare(b.monthKey))[0];
+  return nextChange ? nextChange.codigoAnterior : panelData.codigo;
+}
+
+/**
+ * Todos los códigos que ha tenido el panel salvo el indicado (búsqueda por cualquiera)
+ *
+ * @param panelData - Documento panels
+ * @param codigo - Código que se muestra (se excluye)
+ * @return Otros códigos del panel
+ */
+export function otherCodigos(panelData: FirebaseFirestore.DocumentData, codigo: string): string[] {
+  const codigos = new Set<string>([panelData.codigo, ...(panelData.codigosAnteriores || [])]);
+  codigos.delete(codigo);
+  return Array.from(codigos);
+}
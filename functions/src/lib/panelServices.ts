@@ -0,0 +1,187 @@
+/**
+ * Servicios recurrentes por panel
+ *
+ * Además del servicio base (tarifaAplicada), un panel puede llevar líneas de
+ * servicio recurrentes (mantenimiento, conectividad SIM/4G, gestión de contenidos...)
+ * con ciclo de vida propio:
+ * - ALTA_SERVICIO / BAJA_SERVICIO en panelEvents (campo `servicio`)
+ * - Tarifa mensual por tipo y año en rates/{year}.servicios (p.ej. { CONECTIVIDAD: 12 })
+ * - Cada línea se prorratea con el mismo modo que el servicio base
+ *
+ * El mes hereda las líneas activas del desglose del mes anterior
+ * (billingMonthlyPanel.desglose), igual que el estado del panel.
+ */
+
+import * as admin from "firebase-admin";
+import { calculateProratedImporte } from "./prorationMode";
+
+export const SERVICE_TYPES = ["MANTENIMIENTO", "CONECTIVIDAD", "CONTENIDOS"] as const;
+
+export type ServiceType = typeof SERVICE_TYPES[number];
+
+export const SERVICE_TYPE_LABELS: Record<ServiceType, string> = {
+  MANTENIMIENTO: "Mantenimiento",
+  CONECTIVIDAD: "Conectividad SIM/4G",
+  CONTENIDOS: "Gestión de contenidos",
+};
+
+export const ALTA_SERVICIO_ACTION = "ALTA_SERVICIO";
+export const BAJA_SERVICIO_ACTION = "BAJA_SERVICIO";
+
+/** Línea del servicio base del panel dentro del desglose */
+export const BASE_LINE_ID = "BASE";
+
+export type ServiceRates = Partial<Record<ServiceType, number>>;
+
+export interface ServiceRef {
+  servicioId: string;
+  tipo: ServiceType;
+  descripcion: string;
+}
+
+export interface ServiceEvent extends ServiceRef {
+  action: typeof ALTA_SERVICIO_ACTION | typeof BAJA_SERVICIO_ACTION;
+  day: number;
+}
+
+/** Línea del desglose de billingMonthlyPanel */
+export interface BillingBreakdownLine {
+  servicioId: string; // BASE_LINE_ID para el servicio base
+  tipo: ServiceType | "BASE";
+  descripcion: string;
+  dias: number;
+  tarifa: number;
+  importe: number;
+  estadoAlCierre: "ACTIVO" | "BAJA";
+}
+
+export function isServiceType(value: unknown): value is ServiceType {
+  return typeof value === "string" && (SERVICE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Tarifas mensuales de los servicios de un año (rates/{year}.servicios)
+ * Los tipos sin tarifa configurada se facturan a 0€
+ * @param year - Año en formato YYYY
+ */
+export async function getServiceRatesForYear(year: string): Promise<ServiceRates> {
+  const rateDoc = await admin.firestore().collection("rates").doc(year).get();
+  return parseServiceRates(rateDoc.exists ? rateDoc.data()?.servicios : undefined);
+}
+
+export function parseServiceRates(raw: unknown): ServiceRates {
+  const rates: ServiceRates = {};
+  if (!raw || typeof raw !== "object") return rates;
+
+  for (const [tipo, importe] of Object.entries(raw as Record<string, unknown>)) {
+    if (isServiceType(tipo) && typeof importe === "number" && importe >= 0) {
+      rates[tipo] = importe;
+    }
+  }
+  return rates;
+}
+
+/**
+ * Servicios activos al cierre de un mes según su desglose
+ * @param desglose - billingMonthlyPanel.desglose (ausente en documentos antiguos)
+ */
+export function getActiveServices(desglose: unknown): ServiceRef[] {
+  if (!Array.isArray(desglose)) return [];
+
+  return desglose
+    .filter((line: any) =>
+      line?.servicioId && line.servicioId !== BASE_LINE_ID &&
+      isServiceType(line.tipo) && line.estadoAlCierre === "ACTIVO"
+    )
+    .map((line: any) => ({
+      servicioId: line.servicioId,
+      tipo: line.tipo,
+      descripcion: line.descripcion || SERVICE_TYPE_LABELS[line.tipo as ServiceType],
+    }));
+}
+
+/**
+ * Prorratea las líneas de servicio de un mes
+ *
+ * Mismas reglas que el servicio base:
+ * - ALTA_SERVICIO el día X factura desde el día X
+ * - BAJA_SERVICIO el día X factura el día X (inclusive)
+ * - En modo comercial los días se acotan a 30
+ *
+ * @param initial - Servicios activos al inicio del mes (heredados del mes anterior)
+ * @param events - Altas/bajas de servicio del mes en orden cronológico
+ * @param rates - Tarifas mensuales por tipo del año
+ * @param diasMes - Días de un mes completo según el modo de prorrateo
+ * @param panelBajaDay - Día de BAJA del panel (da de baja todos sus servicios) o null
+ */
+export function prorateServiceLines(
+  initial: ServiceRef[],
+  events: ServiceEvent[],
+  rates: ServiceRates,
+  diasMes: number,
+  panelBajaDay: number | null
+): BillingBreakdownLine[] {
+  interface ServiceTrack extends ServiceRef {
+    activo: boolean;
+    desde: number;
+    dias: number;
+  }
+
+  const tracks = new Map<string, ServiceTrack>();
+  initial.forEach((service) => {
+    tracks.set(service.servicioId, { ...service, activo: true, desde: 1, dias: 0 });
+  });
+
+  const close = (track: ServiceTrack, day: number) => {
+    const fin = Math.min(day, diasMes);
+    if (track.activo && track.desde <= fin) {
+      track.dias += fin - track.desde + 1;
+    }
+    track.activo = false;
+  };
+
+  for (const event of events) {
+    const track = tracks.get(event.servicioId);
+
+    if (event.action === ALTA_SERVICIO_ACTION) {
+      if (!track) {
+        tracks.set(event.servicioId, {
+          servicioId: event.servicioId,
+          tipo: event.tipo,
+          descripcion: event.descripcion,
+          activo: true,
+          desde: event.day,
+          dias: 0,
+        });
+      } else if (!track.activo) {
+        track.activo = true;
+        track.desde = event.day;
+      }
+    } else if (track) {
+      close(track, event.day);
+    }
+  }
+
+  // La BAJA del panel termina todos sus servicios ese mismo día
+  if (panelBajaDay !== null) {
+    tracks.forEach((track) => close(track, panelBajaDay));
+  }
+
+  return Array.from(tracks.values()).map((track) => {
+    if (track.activo && track.desde <= diasMes) {
+      track.dias += diasMes - track.desde + 1;
+    }
+    const dias = Math.min(track.dias, diasMes);
+    const tarifa = rates[track.tipo] ?? 0;
+
+    return {
+      servicioId: track.servicioId,
+      tipo: track.tipo,
+      descripcion: track.descripcion,
+      dias,
+      tarifa,
+      importe: calculateProratedImporte(dias, tarifa, diasMes),
+      estadoAlCierre: track.activo ? "ACTIVO" : "BAJA",
+    };
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * Revisión anual de precios (IPC)
+ *
+ * A partir de la variación publicada del índice (introducida a mano o calculada
+ * desde un CSV local de valores del índice) se propone la tarifa del año
+ * siguiente para la tarifa estándar (rates/{year}) y para cada contrato con
+ * cláusula de revisión. La propuesta se guarda en priceRevisions/{id} con la
+ * fórmula aplicada y el impacto estimado sobre el último mes facturado; solo
+ * se aplica cuando un admin la aprueba.
+ */
+
+import * as admin from "firebase-admin";
+import { eurosToCents, centsToEuros } from "./moneyUtils";
+import { CONTRACTS_COLLECTION, Contract, RevisionClause } from "./contracts";
+
+export const PRICE_REVISIONS_COLLECTION = "priceRevisions";
+
+/** Clave del item de la tarifa estándar (el resto usan el ID del contrato) */
+export const STANDARD_ITEM_KEY = "ESTANDAR";
+
+export type PriceRevisionStatus = "PROPUESTA" | "APLICADA" | "DESCARTADA";
+
+export interface IndexSource {
+  tipo: "MANUAL" | "CSV";
+  periodoDesde: string | null;
+  periodoHasta: string | null;
+  valorDesde: number | null;
+  valorHasta: number | null;
+}
+
+export interface PriceRevisionItem {
+  clave: string; // STANDARD_ITEM_KEY o contractId
+  tipo: "ESTANDAR" | "CONTRATO";
+  codigo: string; // Código del contrato o "Tarifa estándar"
+  importeActual: number; // Tarifa del año base
+  importePropuesto: number;
+  porcentajeAplicado: number;
+  formula: string;
+  // Impacto estimado sobre el último mes facturado
+  paneles: number;
+  importeMesActual: number;
+  importeMesPropuesto: number;
+  diferenciaAnual: number;
+}
+
+export interface PriceRevision {
+  targetYear: string;
+  baseYear: string;
+  variacionIndice: number; // % (2 decimales)
+  fuenteIndice: IndexSource;
+  lastMonthKey: string | null;
+  items: PriceRevisionItem[];
+  omitidos: string[]; // Contratos sin revisión posible (motivo incluido)
+  totales: {
+    importeMesActual: number;
+    importeMesPropuesto: number;
+    diferenciaAnual: number;
+  };
+  estado: PriceRevisionStatus;
+  createdAt: admin.firestore.Timestamp;
+  createdBy: string;
+  resolvedAt: admin.firestore.Timestamp | null;
+  resolvedBy: string | null;
+  itemsAplicados: string[];
+}
+
+/**
+ * Tarifa revisada según la cláusula del contrato
+ *
+ * - IPC: tarifa × (1 + min(variación, tope) / 100)
+ * - PORCENTAJE_FIJO: tarifa × (1 + porcentaje / 100), independiente del índice
+ * - NINGUNA: sin cambios
+ *
+ * @param base - Tarifa del año base
+ * @param clause - Cláusula de revisión
+ * @param variacionIndice - Variación del índice en %
+ */
+export function computeRevisedRate(
+  base: number,
+  clause: RevisionClause,
+  variacionIndice: number
+): { importe: number; porcentajeAplicado: number; formula: string } {
+  let porcentajeAplicado = 0;
+  let formula = `${base.toFixed(2)}€ (sin revisión)`;
+
+  if (clause.tipo === "IPC") {
+    const tope = clause.porcentaje;
+    porcentajeAplicado = tope !== null ? Math.min(variacionIndice, tope) : variacionIndice;
+    formula = `${base.toFixed(2)}€ × (1 + ${porcentajeAplicado}% IPC` +
+      `${tope !== null && variacionIndice > tope ? `, tope ${tope}%` : ""})`;
+  } else if (clause.tipo === "PORCENTAJE_FIJO") {
+    porcentajeAplicado = clause.porcentaje ?? 0;
+    formula = `${base.toFixed(2)}€ × (1 + ${porcentajeAplicado}% fijo)`;
+  }
+
+  const importe = centsToEuros(Math.round(eurosToCents(base) * (1 + porcentajeAplicado / 100)));
+  return { importe, porcentajeAplicado, formula: `${formula} = ${importe.toFixed(2)}€` };
+}
+
+/**
+ * Lee un CSV local de valores del índice ("periodo;valor" o "periodo,valor")
+ *
+ * Acepta cabecera, decimales con coma (con separador ";") y periodos
+ * YYYY-MM o YYYYMM (formato INE "2024M12" incluido).
+ *
+ * @param csv - Contenido del fichero
+ * @returns Mapa periodo (YYYY-MM) → valor del índice
+ */
+export function parseIndexCsv(csv: string): Map<string, number> {
+  const values = new Map<string, number>();
+
+  for (const rawLine of csv.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const separator = line.includes(";") ? ";" : ",";
+    const [rawPeriodo, rawValor] = line.split(separator).map((part) => part.trim().replace(/"/g, ""));
+    const match = rawPeriodo?.match(/^(\d{4})[-M]?(\d{2})$/);
+    if (!match || rawValor === undefined) continue; // Cabecera o línea no válida
+
+    // Con ";" el decimal puede venir con coma (formato español: 1.105,3)
+    const valor = parseFloat(rawValor.includes(",") ? rawValor.replace(/\./g, "").replace(",", ".") : rawValor);
+    if (!isNaN(valor) && valor > 0) {
+      values.set(`${match[1]}-${match[2]}`, valor);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Variación porcentual entre dos periodos del índice (2 decimales)
+ */
+export function computeIndexVariation(valorDesde: number, valorHasta: number): number {
+  return Math.round(((valorHasta / valorDesde) - 1) * 10000) / 100;
+}
+
+/**
+ * Construye la propuesta de revisión de precios del año objetivo
+ *
+ * @param targetYear - Año cuya tarifa se propone (YYYY)
+ * @param variacionIndice - Variación del índice en %
+ * @param fuenteIndice - Origen de la variación (manual o CSV)
+ * @param createdBy - Email del admin que la solicita
+ */
+export async function buildPriceRevision(
+  targetYear: string,
+  variacionIndice: number,
+  fuenteIndice: IndexSource,
+  createdBy: string
+): Promise<PriceRevision> {
+  const db = admin.firestore();
+  const baseYear = String(parseInt(targetYear, 10) - 1);
+
+  // Último mes con facturación: base para estimar el impacto
+  const summarySnapshot = await db.collection("billingSummary").get();
+  const monthKeys = summarySnapshot.docs
+    .map((doc) => doc.id)
+    .filter((id) => /^\d{4}-\d{2}$/.test(id))
+    .sort();
+  const lastMonthKey = monthKeys.length > 0 ? monthKeys[monthKeys.length - 1] : null;
+
+  const rows = lastMonthKey ?
+    (await db.collection("billingMonthlyPanel").where("monthKey", "==", lastMonthKey).get())
+      .docs.map((doc) => doc.data()) :
+    [];
+
+  // Impacto: cada panel activo pasa de su tarifa actual a la revisada (mismo %)
+  const impact = (matches: (row: FirebaseFirestore.DocumentData) => boolean, importeActual: number,
+    importePropuesto: number) => {
+    const activos = rows.filter((row) => row.estadoAlCierre === "ACTIVO" && matches(row));
+    const ratio = importeActual > 0 ? importePropuesto / importeActual : 1;
+    const actualCents = activos.reduce((sum, row) => sum + eurosToCents(row.tarifaAplicada || 0), 0);
+    const propuestoCents = activos.reduce(
+      (sum, row) => sum + Math.round(eurosToCents(row.tarifaAplicada || 0) * ratio), 0
+    );
+    return {
+      paneles: activos.length,
+      importeMesActual: centsToEuros(actualCents),
+      importeMesPropuesto: centsToEuros(propuestoCents),
+      diferenciaAnual: centsToEuros((propuestoCents - actualCents) * 12),
+    };
+  };
+
+  const items: PriceRevisionItem[] = [];
+  const omitidos: string[] = [];
+
+  // 1. Tarifa estándar: se revisa con el IPC completo
+  const baseRateDoc = await db.collection("rates").doc(baseYear).get();
+  const baseRate = baseRateDoc.exists ? baseRateDoc.data()?.importe : undefined;
+  if (typeof baseRate === "number" && baseRate > 0) {
+    const revised = computeRevisedRate(baseRate, { tipo: "IPC", porcentaje: null, mesAplicacion: 1 }, variacionIndice);
+    items.push({
+      clave: STANDARD_ITEM_KEY,
+      tipo: "ESTANDAR",
+      codigo: "Tarifa estándar",
+      importeActual: baseRate,
+      importePropuesto: revised.importe,
+      porcentajeAplicado: revised.porcentajeAplicado,
+      formula: revised.formula,
+      ...impact((row) => row.origenTarifa !== "CONTRATO", baseRate, revised.importe),
+    });
+  } else {
+    omitidos.push(`Tarifa estándar: no hay tarifa configurada para ${baseYear}`);
+  }
+
+  // 2. Contratos vigentes en el año objetivo, según su cláusula
+  const contractsSnapshot = await db.collection(CONTRACTS_COLLECTION).get();
+  for (const doc of contractsSnapshot.docs) {
+    const contract = doc.data() as Contract;
+
+    // Vigente en algún momento del año objetivo
+    if (contract.fechaInicio > `${targetYear}-12-31` ||
+      (contract.fechaFin !== null && contract.fechaFin < `${targetYear}-01-01`)) {
+      continue;
+    }
+    if (contract.clausulaRevision.tipo === "NINGUNA") {
+      omitidos.push(`${contract.codigo}: sin cláusula de revisión`);
+      continue;
+    }
+    const base = contract.tarifas?.[baseYear]?.importe;
+    if (typeof base !== "number" || base <= 0) {
+      omitidos.push(`${contract.codigo}: sin tarifa ${baseYear}`);
+      continue;
+    }
+
+    const revised = computeRevisedRate(base, contract.clausulaRevision, variacionIndice);
+    items.push({
+      clave: doc.id,
+      tipo: "CONTRATO",
+      codigo: contract.codigo,
+      importeActual: base,
+      importePropuesto: revised.importe,
+      porcentajeAplicado: revised.porcentajeAplicado,
+      formula: revised.formula,
+      ...impact((row) => row.origenTarifa === "CONTRATO" && row.contratoId === doc.id, base, revised.importe),
+    });
+  }
+
+  const totalCents = (field: "importeMesActual" | "importeMesPropuesto" | "diferenciaAnual") =>
+    centsToEuros(items.reduce((sum, item) => sum + eurosToCents(item[field]), 0));
+
+  return {
+    targetYear,
+    baseYear,
+    variacionIndice,
+    fuenteIndice,
+    lastMonthKey,
+    items,
+    omitidos,
+    totales: {
+      importeMesActual: totalCents("importeMesActual"),
+      importeMesPropuesto: totalCents("importeMesPropuesto"),
+      diferenciaAnual: totalCents("diferenciaAnual"),
+    },
+    estado: "PROPUESTA",
+    createdAt: admin.firestore.Timestamp.now(),
+    createdBy,
+    resolvedAt: null,
+    resolvedBy: null,
+    itemsAplicados: [],
+  };
+}
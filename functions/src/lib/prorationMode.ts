@@ -0,0 +1,80 @@
+/**
+ * Modo de prorrateo de la facturación mensual
+ *
+ * - COMERCIAL_30: mes comercial de 30 días (criterio histórico). Un mes completo
+ *   son siempre 30 días y los eventos del día 31 quedan fuera del período.
+ * - NATURAL: días reales del mes natural (28, 29, 30 o 31).
+ *
+ * El modo se guarda por año junto a la tarifa (rates/{year}.modoProrrateo).
+ * Si el documento no indica modo se asume COMERCIAL_30 (compatibilidad).
+ */
+
+import * as admin from "firebase-admin";
+import { eurosToCents, centsToEuros } from "./moneyUtils";
+
+export const PRORATION_MODES = ["COMERCIAL_30", "NATURAL"] as const;
+
+export type ProrationMode = typeof PRORATION_MODES[number];
+
+export const DEFAULT_PRORATION_MODE: ProrationMode = "COMERCIAL_30";
+
+const COMMERCIAL_MONTH_DAYS = 30;
+
+export function isProrationMode(value: unknown): value is ProrationMode {
+  return typeof value === "string" && (PRORATION_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Días naturales del mes (28-31)
+ * @param monthKey - Mes en formato YYYY-MM
+ */
+export function getCalendarDaysInMonth(monthKey: string): number {
+  const [year, month] = monthKey.split("-").map(Number);
+  // Día 0 del mes siguiente = último día del mes actual
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Días que componen un mes completo de facturación según el modo
+ * @param monthKey - Mes en formato YYYY-MM
+ * @param mode - Modo de prorrateo
+ */
+export function getBillingDaysInMonth(monthKey: string, mode: ProrationMode): number {
+  return mode === "NATURAL" ? getCalendarDaysInMonth(monthKey) : COMMERCIAL_MONTH_DAYS;
+}
+
+/**
+ * Importe prorrateado con precisión contable (céntimos)
+ *
+ * Equivalente a billingRules.calculateImporte pero con divisor variable:
+ * importe = tarifa × días / díasMes
+ *
+ * @param dias - Días facturables
+ * @param tarifa - Tarifa mensual en euros
+ * @param diasMes - Días de un mes completo (30 en COMERCIAL_30)
+ */
+export function calculateProratedImporte(dias: number, tarifa: number, diasMes: number): number {
+  if (dias <= 0 || diasMes <= 0) return 0;
+  const diasAcotados = Math.min(dias, diasMes);
+  const importeCents = Math.round((eurosToCents(tarifa) * diasAcotados) / diasMes);
+  return centsToEuros(importeCents);
+}
+
+/**
+ * Lee el modo de prorrateo configurado para un año (rates/{year}.modoProrrateo)
+ * @param year - Año en formato YYYY
+ */
+export async function getProrationModeForYear(year: string): Promise<ProrationMode> {
+  const rateDoc = await admin.firestore().collection("rates").doc(year).get();
+  const mode = rateDoc.exists ? rateDoc.data()?.modoProrrateo : undefined;
+  return isProrationMode(mode) ? mode : DEFAULT_PRORATION_MODE;
+}
+
+/**
+ * Etiqueta legible para informes
+ */
+export function describeProrationMode(mode: ProrationMode, diasMes: number): string {
+  return mode === "NATURAL" ?
+    `días naturales (${diasMes} días)` :
+    "mes comercial de 30 días";
+}
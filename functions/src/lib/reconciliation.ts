@@ -0,0 +1,252 @@
+/**
+ * Conciliación con el listado mensual del cliente
+ *
+ * Los clientes envían su propio listado de lo que creen que se les ha facturado
+ * (p.ej. "Municipio;Código Parada;Facturación Octubre" con importes "€37,70").
+ * Se cruza por código con billingMonthlyPanel y se informa de:
+ * - Paneles que solo están en el listado del cliente o solo en nuestra facturación
+ * - Diferencias de importe y de municipio
+ * - Códigos repetidos en el listado
+ *
+ * Los códigos se comparan normalizados: mayúsculas, sin tildes ni signos y sin
+ * ceros a la izquierda, de modo que "20397 (171)", "20397(171)" y "TFT Hosp.Getafe" /
+ * "TFT Hosp. Getafe" casan entre sí.
+ */
+
+export type ReconciliationIssue = "SOLO_CLIENTE" | "SOLO_NUESTRO" | "IMPORTE" | "MUNICIPIO" | "DUPLICADO";
+
+/** Fila del listado del cliente */
+export interface CustomerListingRow {
+  linea: number; // Línea del fichero (1 = cabecera)
+  municipio: string;
+  codigo: string;
+  importe: number;
+}
+
+export interface CustomerListing {
+  rows: CustomerListingRow[];
+  totalDeclarado: number | null; // Fila TOTAL del listado, si existe
+  erroresFormato: Array<{ linea: number; error: string }>;
+}
+
+/** Lo que necesitamos de cada billingMonthlyPanel */
+export interface BilledPanel {
+  panelId: string;
+  codigo: string;
+  municipio: string;
+  totalImporte: number;
+}
+
+export interface ReconciliationLine {
+  codigoCliente: string | null;
+  codigoNuestro: string | null;
+  municipioCliente: string | null;
+  municipioNuestro: string | null;
+  importeCliente: number | null;
+  importeNuestro: number | null;
+  diferencia: number; // Nuestro - cliente
+  incidencias: ReconciliationIssue[];
+  linea: number | null;
+}
+
+export interface ReconciliationResult {
+  resumen: {
+    filasCliente: number;
+    panelesFacturados: number;
+    coincidentes: number; // Sin ninguna incidencia
+    soloCliente: number;
+    soloNuestro: number;
+    diferenciasImporte: number;
+    diferenciasMunicipio: number;
+    duplicados: number;
+    totalCliente: number;
+    totalNuestro: number;
+    totalDeclarado: number | null;
+  };
+  lineas: ReconciliationLine[];
+  erroresFormato: Array<{ linea: number; error: string }>;
+}
+
+const stripAccents = (value: string) => value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+/**
+ * Clave de cruce de un código de panel
+ * @param codigo - Código tal cual ("07461 (dcha)", "TFT Hosp.Aranjuez")
+ * @return Clave normalizada ("7461 DCHA", "TFT HOSP ARANJUEZ")
+ */
+export function normalizePanelCode(codigo: string): string {
+  return stripAccents(codigo)
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .map((token) => /^\d+$/.test(token) ? String(Number(token)) : token)
+    .join(" ");
+}
+
+/**
+ * Clave de comparación de un municipio ("Álamo, El" y "El Álamo" son el mismo)
+ * @param municipio - Nombre del municipio
+ * @return Nombre normalizado
+ */
+export function normalizeMunicipio(municipio: string): string {
+  const plain = stripAccents(municipio).toUpperCase().replace(/\s+/g, " ").trim();
+  const article = /^(.*), (EL|LA|LOS|LAS)$/.exec(plain);
+  return article ? `${article[2]} ${article[1]}` : plain;
+}
+
+/**
+ * Importe en formato español: "€37,70", "37,70 €", "€16.781,53" o "37.70"
+ * @param value - Texto del importe
+ * @return Importe en euros o null si no es un número
+ */
+export function parseSpanishAmount(value: string): number | null {
+  let clean = value.replace(/[€\s]/g, "");
+  if (clean.includes(",")) {
+    clean = clean.replace(/\./g, "").replace(",", ".");
+  }
+  if (!/^-?\d+(\.\d+)?$/.test(clean)) return null;
+  return Math.round(parseFloat(clean) * 100) / 100;
+}
+
+/**
+ * Lee el listado del cliente (CSV con ; , o tabulador y cabecera)
+ *
+ * Las columnas se localizan por cabecera (municipio, código, facturación/importe);
+ * si no se reconocen se asume ese mismo orden.
+ *
+ * @param csv - Contenido del fichero
+ * @return Filas, total declarado y errores de formato por línea
+ */
+export function parseCustomerListing(csv: string): CustomerListing {
+  const lines = csv.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const header = lines[0] || "";
+  const separator = header.includes(";") ? ";" : header.includes("\t") ? "\t" : ",";
+  const headerCells = header.split(separator).map((cell) => stripAccents(cell).toLowerCase());
+
+  const findColumn = (pattern: RegExp, fallback: number) => {
+    const index = headerCells.findIndex((cell) => pattern.test(cell));
+    return index >= 0 ? index : fallback;
+  };
+  const municipioCol = findColumn(/municipio/, 0);
+  const codigoCol = findColumn(/codigo|parada/, 1);
+  const importeCol = findColumn(/factura|importe/, 2);
+
+  const listing: CustomerListing = { rows: [], totalDeclarado: null, erroresFormato: [] };
+
+  lines.slice(1).forEach((line, index) => {
+    const linea = index + 2;
+    if (line.trim() === "") return;
+
+    const cells = line.split(separator).map((cell) => cell.trim());
+    const municipio = cells[municipioCol] || "";
+    const codigo = cells[codigoCol] || "";
+    const importe = parseSpanishAmount(cells[importeCol] || "");
+
+    if (normalizeMunicipio(municipio) === "TOTAL" && !codigo) {
+      listing.totalDeclarado = importe;
+      return;
+    }
+    if (!codigo) {
+      listing.erroresFormato.push({ linea, error: "Falta el código de parada" });
+      return;
+    }
+    if (importe === null) {
+      listing.erroresFormato.push({ linea, error: `Importe "${cells[importeCol] || ""}" no válido` });
+      return;
+    }
+    listing.rows.push({ linea, municipio, codigo, importe });
+  });
+
+  return listing;
+}
+
+/**
+ * Cruza el listado del cliente con nuestra facturación del mes
+ *
+ * @param listing - Listado del cliente ya leído
+ * @param billed - billingMonthlyPanel del mes
+ * @return Resumen y una línea por panel (ordenadas: incidencias primero)
+ */
+export function reconcileListing(listing: CustomerListing, billed: BilledPanel[]): ReconciliationResult {
+  const billedByKey = new Map<string, BilledPanel>();
+  for (const panel of billed) {
+    billedByKey.set(normalizePanelCode(panel.codigo), panel);
+  }
+
+  const lineas: ReconciliationLine[] = [];
+  const matchedKeys = new Set<string>();
+
+  for (const row of listing.rows) {
+    const key = normalizePanelCode(row.codigo);
+    const panel = billedByKey.get(key);
+    const incidencias: ReconciliationIssue[] = [];
+
+    if (matchedKeys.has(key)) {
+      incidencias.push("DUPLICADO");
+    } else if (!panel) {
+      incidencias.push("SOLO_CLIENTE");
+    } else {
+      if (Math.round(panel.totalImporte * 100) !== Math.round(row.importe * 100)) incidencias.push("IMPORTE");
+      if (normalizeMunicipio(panel.municipio) !== normalizeMunicipio(row.municipio)) incidencias.push("MUNICIPIO");
+    }
+    if (panel) matchedKeys.add(key);
+
+    const importeNuestro = panel && !incidencias.includes("DUPLICADO") ? panel.totalImporte : null;
+    lineas.push({
+      codigoCliente: row.codigo,
+      codigoNuestro: panel ? panel.codigo : null,
+      municipioCliente: row.municipio,
+      municipioNuestro: panel ? panel.municipio : null,
+      importeCliente: row.importe,
+      importeNuestro,
+      diferencia: Math.round(((importeNuestro ?? 0) - row.importe) * 100) / 100,
+      incidencias,
+      linea: row.linea,
+    });
+  }
+
+  // Facturados por nosotros que el cliente no lista (los de 0€ no cuentan)
+  for (const [key, panel] of billedByKey) {
+    if (matchedKeys.has(key) || Math.round(panel.totalImporte * 100) === 0) continue;
+    lineas.push({
+      codigoCliente: null,
+      codigoNuestro: panel.codigo,
+      municipioCliente: null,
+      municipioNuestro: panel.municipio,
+      importeCliente: null,
+      importeNuestro: panel.totalImporte,
+      diferencia: panel.totalImporte,
+      incidencias: ["SOLO_NUESTRO"],
+      linea: null,
+    });
+  }
+
+  const count = (issue: ReconciliationIssue) => lineas.filter((l) => l.incidencias.includes(issue)).length;
+  const sumCents = (values: number[]) => values.reduce((sum, value) => sum + Math.round(value * 100), 0) / 100;
+
+  lineas.sort((a, b) =>
+    Number(b.incidencias.length > 0) - Number(a.incidencias.length > 0) ||
+    normalizeMunicipio(a.municipioCliente ?? a.municipioNuestro ?? "")
+      .localeCompare(normalizeMunicipio(b.municipioCliente ?? b.municipioNuestro ?? "")) ||
+    (a.codigoCliente ?? a.codigoNuestro ?? "").localeCompare(b.codigoCliente ?? b.codigoNuestro ?? ""),
+  );
+
+  return {
+    resumen: {
+      filasCliente: listing.rows.length,
+      panelesFacturados: billed.filter((panel) => Math.round(panel.totalImporte * 100) !== 0).length,
+      coincidentes: lineas.filter((l) => l.incidencias.length === 0).length,
+      soloCliente: count("SOLO_CLIENTE"),
+      soloNuestro: count("SOLO_NUESTRO"),
+      diferenciasImporte: count("IMPORTE"),
+      diferenciasMunicipio: count("MUNICIPIO"),
+      duplicados: count("DUPLICADO"),
+      totalCliente: sumCents(listing.rows.map((row) => row.importe)),
+      totalNuestro: sumCents(billed.map((panel) => panel.totalImporte)),
+      totalDeclarado: listing.totalDeclarado,
+    },
+    lineas,
+    erroresFormato: listing.erroresFormato,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Rectificaciones de meses cerrados
+ *
+ * Un mes cerrado no se vuelve a editar: la corrección se registra como un evento
+ * RECTIFICACION en el mes abierto, con el importe de la diferencia (+/-) y la
+ * referencia al mes y panel originales. El billingMonthlyPanel original no cambia.
+ */
+
+import * as admin from "firebase-admin";
+
+export const RECTIFICACION_ACTION = "RECTIFICACION";
+
+export interface RectificacionEntry {
+  eventId: string;
+  panelId: string;
+  codigo: string;
+  municipio: string;
+  monthKey: string; // Mes donde se factura la diferencia
+  monthKeyOriginal: string; // Mes cerrado que se corrige
+  importeOriginal: number; // totalImporte del mes original al registrar la rectificación
+  importe: number; // Diferencia (+ cargo / - abono)
+  motivo: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+/**
+ * Último mes abierto posterior al mes indicado (null si no hay ninguno)
+ */
+export async function findOpenMonthAfter(monthKey: string): Promise<string | null> {
+  const snapshot = await admin
+    .firestore()
+    .collection("billingSummary")
+    .where("isLocked", "==", false)
+    .get();
+
+  const openMonths = snapshot.docs
+    .map((doc) => doc.id)
+    .filter((id) => /^\d{4}-\d{2}$/.test(id) && id > monthKey)
+    .sort();
+
+  return openMonths.length > 0 ? openMonths[openMonths.length - 1] : null;
+}
+
+/**
+ * Rectificaciones facturadas en un mes (eventos RECTIFICACION no eliminados)
+ */
+export async function getMonthRectificaciones(monthKey: string): Promise<RectificacionEntry[]> {
+  const snapshot = await admin
+    .firestore()
+    .collectionGroup("panelEvents")
+    .where("monthKey", "==", monthKey)
+    .where("action", "==", RECTIFICACION_ACTION)
+    .get();
+
+  return snapshot.docs
+    .filter((doc) => doc.data().isDeleted !== true)
+    .map((doc) => {
+      const data = doc.data();
+      return {
+        eventId: doc.id,
+        panelId: doc.ref.parent.parent?.id || "",
+        codigo: data.snapshotAfter?.codigo || "",
+        municipio: data.rectificacion?.municipio || "",
+        monthKey,
+        monthKeyOriginal: data.rectificacion?.monthKeyOriginal || "",
+        importeOriginal: data.rectificacion?.importeOriginal || 0,
+        importe: data.snapshotAfter?.importeAjuste || 0,
+        motivo: data.concepto || "",
+        createdAt: data.createdAt?.toDate?.().toISOString() || "",
+        createdBy: data.createdBy || "",
+      };
+    })
+    .sort((a, b) =>
+      a.monthKeyOriginal.localeCompare(b.monthKeyOriginal) || a.codigo.localeCompare(b.codigo)
+    );
+}
@@ -0,0 +1,135 @@
+/**
+ * Modelo de roles
+ *
+ * - admin: acceso completo
+ * - editor: crea y modifica eventos e intervenciones
+ * - auditor: lee todo (facturación, facturas, informes, auditoría) sin modificar nada
+ * - visor: solo ve los paneles y la facturación de sus municipios asignados
+ *
+ * El rol viaja en los custom claims (role, municipioIds) que asigna setUserRole.
+ * Se mantienen los claims booleanos admin/editor para assertIsAdmin,
+ * assertIsEditorOrAdmin y firestore.rules. Sin claims se usa users/{uid}.role
+ * (usuarios creados con bootstrapAdmin).
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+
+export const USER_ROLES = ["admin", "editor", "auditor", "visor"] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+/** Roles que pueden leer todos los datos (el visor solo ve sus municipios) */
+export const READ_ALL_ROLES: UserRole[] = ["admin", "editor", "auditor"];
+
+export interface CallerAccess {
+  uid: string;
+  email: string;
+  role: UserRole;
+  municipioIds: string[]; // Solo para el rol visor
+}
+
+const isUserRole = (value: unknown): value is UserRole => USER_ROLES.includes(value as UserRole);
+
+/**
+ * Custom claims de un rol
+ * @param role - Rol asignado (null = sin permisos)
+ * @param municipioIds - Municipios del visor
+ * @return Claims para setCustomUserClaims
+ */
+export function roleClaims(role: UserRole | null, municipioIds: string[] = []): Record<string, unknown> {
+  return {
+    role,
+    admin: role === "admin",
+    editor: role === "editor",
+    auditor: role === "auditor",
+    municipioIds: role === "visor" ? municipioIds : [],
+  };
+}
+
+/**
+ * Rol y municipios del llamante (claims o, si no tiene, users/{uid})
+ *
+ * @param context - Contexto de la callable
+ * @return Acceso del llamante
+ * @throws unauthenticated sin sesión, permission-denied sin rol
+ */
+export async function getCallerAccess(context: functions.https.CallableContext): Promise<CallerAccess> {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", "Debe estar autenticado");
+  }
+
+  const { uid, token } = context.auth;
+  const email = token.email || "unknown";
+
+  let role: UserRole | null = isUserRole(token.role) ? token.role :
+    token.admin === true ? "admin" : token.editor === true ? "editor" : null;
+  let municipioIds: string[] = Array.isArray(token.municipioIds) ? token.municipioIds : [];
+
+  if (!role) {
+    const userDoc = await admin.firestore().collection("users").doc(uid).get();
+    const stored = userDoc.data();
+    if (isUserRole(stored?.role)) {
+      role = stored!.role as UserRole;
+      municipioIds = Array.isArray(stored?.municipioIds) ? stored!.municipioIds : [];
+    }
+  }
+
+  if (!role) {
+    throw new functions.https.HttpsError("permission-denied", "El usuario no tiene ningún rol asignado");
+  }
+
+  return { uid, email, role, municipioIds };
+}
+
+/**
+ * Exige uno de los roles indicados
+ *
+ * @param context - Contexto de la callable
+ * @param roles - Roles permitidos
+ * @return Acceso del llamante
+ */
+export async function assertHasRole(
+  context: functions.https.CallableContext,
+  roles: UserRole[],
+): Promise<CallerAccess> {
+  const access = await getCallerAccess(context);
+  if (!roles.includes(access.role)) {
+    throw new functions.https.HttpsError(
+      "permission-denied",
+      `Acción reservada a: ${roles.join(", ")} (rol actual: ${access.role})`,
+    );
+  }
+  return access;
+}
+
+/**
+ * Indica si el llamante puede ver los datos de un municipio
+ * @param access - Acceso del llamante
+ * @param municipioId - Municipio del panel
+ */
+export function canViewMunicipio(access: CallerAccess, municipioId: string | null | undefined): boolean {
+  if (access.role !== "visor") return true;
+  return !!municipioId && access.municipioIds.includes(municipioId);
+}
+
+/**
+ * IDs de los paneles visibles para un visor (null = sin restricción)
+ * @param access - Acceso del llamante
+ * @return Conjunto de panelId o null si puede ver todos
+ */
+export async function visiblePanelIds(access: CallerAccess): Promise<Set<string> | null> {
+  if (access.role !== "visor") return null;
+
+  const panelIds = new Set<string>();
+  // "in" admite hasta 30 valores por consulta
+  for (let i = 0; i < access.municipioIds.length; i += 30) {
+    const snapshot = await admin.firestore()
+      .collection("panels")
+      .where("municipioId", "in", access.municipioIds.slice(i, i + 30))
+      .select()
+      .get();
+    snapshot.docs.forEach((doc) => panelIds.add(doc.id));
+  }
+  return panelIds;
+}
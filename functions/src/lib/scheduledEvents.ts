@@ -0,0 +1,106 @@
+/**
+ * Eventos programados (scheduledPanelEvents)
+ *
+ * Cambios de panel conocidos con antelación (desmontaje, reinstalación, baja)
+ * para un mes que todavía no existe. Se guardan como PENDIENTE y createNextMonth
+ * los convierte en panelEvents al crear ese mes, antes de recalcular los paneles:
+ * a partir de ahí el evento se comporta como uno registrado con requestPanelChange.
+ */
+
+import * as admin from "firebase-admin";
+import { v4 as uuidv4 } from "uuid";
+
+export const SCHEDULED_EVENTS_COLLECTION = "scheduledPanelEvents";
+
+export const SCHEDULED_EVENT_ACTIONS = ["DESMONTADO", "REINSTALACION", "BAJA"] as const;
+
+export type ScheduledEventAction = typeof SCHEDULED_EVENT_ACTIONS[number];
+
+export type ScheduledEventStatus = "PENDIENTE" | "APLICADO" | "CANCELADO";
+
+export interface ScheduledPanelEvent {
+  panelId: string;
+  codigo: string;
+  municipioId: string;
+  action: ScheduledEventAction;
+  effectiveDateLocal: string; // YYYY-MM-DD
+  monthKey: string; // Mes en que se aplicará (YYYY-MM)
+  motivo: string;
+  estado: ScheduledEventStatus;
+  eventId?: string; // panelEvent creado al aplicarse
+  createdAt: admin.firestore.Timestamp;
+  createdBy: string;
+  updatedAt: admin.firestore.Timestamp;
+  updatedBy: string;
+  appliedAt?: admin.firestore.Timestamp;
+  cancelledAt?: admin.firestore.Timestamp;
+  cancelledBy?: string;
+}
+
+/**
+ * Convierte en panelEvents los eventos programados PENDIENTES de un mes
+ *
+ * Se llama desde createNextMonth justo después de crear el billingSummary del
+ * mes y antes de recalcular los paneles, para que el recálculo ya los incluya.
+ *
+ * @param monthKey - Mes que se está creando (YYYY-MM)
+ * @param appliedBy - Email del usuario que crea el mes
+ * @return Número de eventos aplicados
+ */
+export async function applyScheduledEventsForMonth(monthKey: string, appliedBy: string): Promise<number> {
+  const db = admin.firestore();
+  const timestamp = admin.firestore.Timestamp.now();
+
+  const snapshot = await db
+    .collection(SCHEDULED_EVENTS_COLLECTION)
+    .where("monthKey", "==", monthKey)
+    .where("estado", "==", "PENDIENTE")
+    .get();
+
+  // Lotes de 200 (2 escrituras por evento, límite de 500 por batch)
+  const BATCH_SIZE = 200;
+  for (let i = 0; i < snapshot.docs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+
+    for (const doc of snapshot.docs.slice(i, i + BATCH_SIZE)) {
+      const scheduled = doc.data() as ScheduledPanelEvent;
+      const idempotencyKey = uuidv4();
+      const eventRef = db
+        .collection("panels")
+        .doc(scheduled.panelId)
+        .collection("panelEvents")
+        .doc(idempotencyKey);
+
+      batch.set(eventRef, {
+        action: scheduled.action,
+        effectiveDate: admin.firestore.Timestamp.fromDate(new Date(scheduled.effectiveDateLocal)),
+        effectiveDateLocal: scheduled.effectiveDateLocal,
+        monthKey,
+        diasFacturables: 0,
+        importeAFacturar: 0,
+        motivo: scheduled.motivo,
+        snapshotBefore: {},
+        snapshotAfter: {},
+        scheduledEventId: doc.id,
+        idempotencyKey,
+        isDeleted: false,
+        createdAt: timestamp,
+        createdBy: scheduled.createdBy,
+        updatedAt: timestamp,
+        schemaVersion: 1,
+      });
+
+      batch.update(doc.ref, {
+        estado: "APLICADO",
+        eventId: idempotencyKey,
+        appliedAt: timestamp,
+        updatedAt: timestamp,
+        updatedBy: appliedBy,
+      });
+    }
+
+    await batch.commit();
+  }
+
+  return snapshot.size;
+}
@@ -0,0 +1,20 @@
+/**
+ * Serialización de documentos para la respuesta de las callables
+ * (los Timestamps anidados llegan al cliente como objetos {_seconds, _nanoseconds})
+ */
+
+import * as admin from "firebase-admin";
+
+/**
+ * Convierte los Timestamps (anidados en objetos y arrays) a ISO
+ * @param value - Valor guardado en Firestore
+ * @return Valor serializable
+ */
+export function serializeTimestamps(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(serializeTimestamps);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, serializeTimestamps(v)]));
+  }
+  return value;
+}
@@ -0,0 +1,82 @@
+/**
+ * Totales de billingSummary a partir de las filas de billingMonthlyPanel
+ *
+ * Criterio único para quien escribe el resumen (recálculo, regeneración,
+ * importación) y para quien lo compara (cierre guiado, vista histórica):
+ * - totalImporteMes: suma en céntimos de totalImporte
+ * - totalPanelesFacturables: filas con importe > 0
+ * - panelesActivos: filas que facturan todos los días de su mes (diasMes de la fila)
+ * - panelesParciales: filas con algún día facturado, pero no todos
+ *
+ * Las filas antiguas sin diasMes usan los días del mes según el modo de
+ * prorrateo del año (30 en COMERCIAL_30, 28-31 en NATURAL).
+ */
+
+import { eurosToCents, centsToEuros } from "./moneyUtils";
+import { getBillingDaysInMonth, getProrationModeForYear } from "./prorationMode";
+
+export interface SummaryRow {
+  totalDiasFacturables?: number;
+  totalImporte?: number;
+  diasMes?: number | null;
+}
+
+export interface SummaryTotals {
+  totalImporteMes: number;
+  totalPanelesFacturables: number;
+  panelesActivos: number;
+  panelesParciales: number;
+}
+
+/**
+ * Clasifica una fila: mes completo, parcial o sin días facturados
+ *
+ * @param row - Fila de billingMonthlyPanel
+ * @param diasMesDefecto - Días del mes para filas sin diasMes
+ * @return "COMPLETO" | "PARCIAL" | null
+ */
+export function classifyBillingDays(row: SummaryRow, diasMesDefecto: number): "COMPLETO" | "PARCIAL" | null {
+  const dias = row.totalDiasFacturables || 0;
+  if (dias <= 0) return null;
+  return dias >= (row.diasMes ?? diasMesDefecto) ? "COMPLETO" : "PARCIAL";
+}
+
+/**
+ * Calcula los totales del resumen del mes
+ *
+ * @param rows - Filas de billingMonthlyPanel del mes
+ * @param diasMesDefecto - Días del mes para filas sin diasMes (ver getDefaultDiasMes)
+ * @return Totales exactos (importe normalizado a 2 decimales)
+ */
+export function computeSummaryTotals(rows: SummaryRow[], diasMesDefecto: number): SummaryTotals {
+  let totalCents = 0;
+  const totals: SummaryTotals = {
+    totalImporteMes: 0,
+    totalPanelesFacturables: 0,
+    panelesActivos: 0,
+    panelesParciales: 0,
+  };
+
+  for (const row of rows) {
+    const importe = row.totalImporte || 0;
+    totalCents += eurosToCents(importe);
+    if (importe > 0) totals.totalPanelesFacturables++;
+
+    const clase = classifyBillingDays(row, diasMesDefecto);
+    if (clase === "COMPLETO") totals.panelesActivos++;
+    if (clase === "PARCIAL") totals.panelesParciales++;
+  }
+
+  totals.totalImporteMes = centsToEuros(totalCents);
+  return totals;
+}
+
+/**
+ * Días del mes según el modo de prorrateo del año (para filas sin diasMes)
+ *
+ * @param monthKey - Mes (YYYY-MM)
+ */
+export async function getDefaultDiasMes(monthKey: string): Promise<number> {
+  const modoProrrateo = await getProrationModeForYear(monthKey.split("-")[0]);
+  return getBillingDaysInMonth(monthKey, modoProrrateo);
+}
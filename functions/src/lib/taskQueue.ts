@@ -0,0 +1,359 @@
+/**
+ * Cola de tareas (Cloud Tasks o ejecución local en el emulador)
+ *
+ * Un único punto para encolar trabajo asíncrono con payloads tipados:
+ * - Backend CLOUD_TASKS: crea la tarea HTTP en la cola de Cloud Tasks; los
+ *   reintentos con backoff los hace Cloud Tasks según la configuración de la cola
+ * - Backend LOCAL (emulador o TASK_QUEUE_BACKEND=local): guarda la tarea en
+ *   localTasks/{taskId} y la ejecuta en el propio proceso con los mismos
+ *   reintentos y backoff exponencial. El documento se borra al terminar, así que
+ *   una tarea interrumpida (reinicio del emulador) se retoma en el siguiente encolado
+ *
+ * Cuando una tarea agota sus intentos se guarda en taskDeadLetters/{id}, desde
+ * donde un admin puede inspeccionarla y reenviarla (resolveDeadLetter).
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { CloudTasksClient } from "@google-cloud/tasks";
+import { z } from "zod";
+
+export const DEAD_LETTERS_COLLECTION = "taskDeadLetters";
+
+export const LOCAL_TASKS_COLLECTION = "localTasks";
+
+// Tiempo que una ejecución local se reserva la tarea; pasado ese plazo otra la retoma
+const LOCAL_TASK_LEASE_MS = 10 * 60 * 1000;
+
+export const TASK_QUEUE_LOCATION = "europe-west1";
+
+/** Payload de cada cola */
+export interface TaskPayloads {
+  "process-panel-event": { panelId: string; eventId: string; idempotencyKey: string };
+  "update-summary": { monthKey: string };
+}
+
+export type TaskQueueName = keyof TaskPayloads;
+
+// Validación de payloads leídos de Firestore (dead letters) antes de reenviarlos
+const TASK_PAYLOAD_SCHEMAS: { [Q in TaskQueueName]: z.ZodType<TaskPayloads[Q]> } = {
+  "process-panel-event": z.object({
+    panelId: z.string().min(1),
+    eventId: z.string().min(1),
+    idempotencyKey: z.string().min(1),
+  }),
+  "update-summary": z.object({
+    monthKey: z.string().regex(/^\d{4}-\d{2}$/),
+  }),
+};
+
+/**
+ * Valida el payload guardado de una tarea contra el esquema de su cola
+ * @param queue - Cola de la tarea
+ * @param payload - Payload sin tipar (p.ej. de taskDeadLetters)
+ * @return Payload tipado, o null si la cola no existe o el payload no es válido
+ */
+export function parseTaskPayload<Q extends TaskQueueName>(queue: Q, payload: unknown): TaskPayloads[Q] | null {
+  const schema = TASK_PAYLOAD_SCHEMAS[queue] as z.ZodType<TaskPayloads[Q]> | undefined;
+  if (!schema) return null;
+  const result = schema.safeParse(payload);
+  return result.success ? result.data : null;
+}
+
+export interface TaskQueueConfig {
+  handlerFunction: string; // Función HTTP que procesa la cola (Cloud Tasks)
+  maxAttempts: number;
+  minBackoffSeconds: number;
+  maxBackoffSeconds: number;
+}
+
+/**
+ * Configuración de reintentos por cola. Debe coincidir con la de Cloud Tasks
+ * (gcloud tasks queues update ... --max-attempts --min-backoff --max-backoff)
+ */
+export const TASK_QUEUES: Record<TaskQueueName, TaskQueueConfig> = {
+  "process-panel-event": {
+    handlerFunction: "processPanelEventTask",
+    maxAttempts: 5,
+    minBackoffSeconds: 10,
+    maxBackoffSeconds: 300,
+  },
+  "update-summary": {
+    handlerFunction: "updateSummaryTask",
+    maxAttempts: 5,
+    minBackoffSeconds: 10,
+    maxBackoffSeconds: 300,
+  },
+};
+
+export type TaskQueueBackendName = "CLOUD_TASKS" | "LOCAL";
+
+export interface EnqueueOptions {
+  taskId?: string; // Deduplicación: Cloud Tasks rechaza un taskId repetido (se trata como OK)
+}
+
+export interface DeadLetter {
+  queue: TaskQueueName;
+  payload: TaskPayloads[TaskQueueName];
+  taskId: string | null;
+  attempts: number;
+  lastError: string;
+  backend: TaskQueueBackendName;
+  estado: "PENDIENTE" | "REENVIANDO" | "REENVIADA" | "DESCARTADA"; // REENVIANDO: reclamada por resolveDeadLetter
+  createdAt: admin.firestore.Timestamp;
+  resolvedAt?: admin.firestore.Timestamp; // Reenviada o descartada (resolveDeadLetter)
+  resolvedBy?: string;
+}
+
+/** Tarea pendiente del backend LOCAL (localTasks/{taskId}) */
+export interface LocalTask {
+  queue: TaskQueueName;
+  payload: TaskPayloads[TaskQueueName];
+  taskId: string;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: admin.firestore.Timestamp;
+  leaseUntil: admin.firestore.Timestamp | null; // En ejecución hasta esa hora
+  createdAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Error que no se arregla reintentando (p.ej. el evento ya no existe):
+ * la tarea va directamente a taskDeadLetters
+ */
+export class PermanentTaskError extends Error {}
+
+interface TaskQueueBackend {
+  name: TaskQueueBackendName;
+  enqueue<Q extends TaskQueueName>(queue: Q, payload: TaskPayloads[Q], options: EnqueueOptions): Promise<void>;
+}
+
+/**
+ * Backoff exponencial del intento N (1 = primer reintento), acotado por la cola
+ * @param config - Configuración de la cola
+ * @param attempt - Número de reintento
+ * @return Segundos de espera
+ */
+export function backoffSeconds(config: TaskQueueConfig, attempt: number): number {
+  return Math.min(config.minBackoffSeconds * Math.pow(2, attempt - 1), config.maxBackoffSeconds);
+}
+
+function getProjectId(): string {
+  const project = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT;
+  if (!project) {
+    throw new Error("No se pudo determinar el ID del proyecto (GCLOUD_PROJECT)");
+  }
+  return project;
+}
+
+let tasksClient: CloudTasksClient | null = null;
+
+const cloudTasksBackend: TaskQueueBackend = {
+  name: "CLOUD_TASKS",
+  async enqueue(queue, payload, options) {
+    const project = getProjectId();
+    const config = TASK_QUEUES[queue];
+    tasksClient = tasksClient || new CloudTasksClient();
+
+    const parent = tasksClient.queuePath(project, TASK_QUEUE_LOCATION, queue);
+    const serviceAccountEmail = process.env.TASKS_SERVICE_ACCOUNT || `${project}@appspot.gserviceaccount.com`;
+    const task = {
+      ...(options.taskId ? { name: `${parent}/tasks/${options.taskId}` } : {}),
+      httpRequest: {
+        httpMethod: "POST" as const,
+        url: `https://${TASK_QUEUE_LOCATION}-${project}.cloudfunctions.net/${config.handlerFunction}`,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: Buffer.from(JSON.stringify(payload)).toString("base64"),
+        oidcToken: { serviceAccountEmail },
+      },
+    };
+
+    try {
+      await tasksClient.createTask({ parent, task });
+    } catch (error) {
+      // ALREADY_EXISTS: misma tarea ya encolada (deduplicación por taskId)
+      if ((error as { code?: number }).code === 6) {
+        functions.logger.info(`[taskQueue] Tarea ${options.taskId} ya existe en ${queue} (OK)`);
+        return;
+      }
+      throw error;
+    }
+  },
+};
+
+const localBackend: TaskQueueBackend = {
+  name: "LOCAL",
+  async enqueue(queue, payload, options) {
+    const collection = admin.firestore().collection(LOCAL_TASKS_COLLECTION);
+    const ref = options.taskId ? collection.doc(options.taskId) : collection.doc();
+    const createdAt = admin.firestore.Timestamp.now();
+    const task: LocalTask = {
+      queue,
+      payload,
+      taskId: ref.id,
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: createdAt,
+      leaseUntil: null,
+      createdAt,
+    };
+
+    try {
+      await ref.create(task);
+    } catch (error) {
+      // ALREADY_EXISTS: misma tarea ya encolada (deduplicación por taskId)
+      if ((error as { code?: number }).code === 6) {
+        functions.logger.info(`[taskQueue] Tarea ${options.taskId} ya existe en ${queue} (OK)`);
+        return;
+      }
+      throw error;
+    }
+
+    // Ejecuta la tarea nueva y las que quedaron pendientes de ejecuciones anteriores
+    await drainLocalTasks();
+  },
+};
+
+/**
+ * Ejecuta las tareas locales cuyo siguiente intento ya ha vencido (backend LOCAL)
+ * @return Número de tareas procesadas
+ */
+export async function drainLocalTasks(): Promise<number> {
+  const snapshot = await admin.firestore()
+    .collection(LOCAL_TASKS_COLLECTION)
+    .where("nextAttemptAt", "<=", admin.firestore.Timestamp.now())
+    .orderBy("nextAttemptAt")
+    .limit(50)
+    .get();
+
+  for (const doc of snapshot.docs) {
+    await runLocalTask(doc.ref);
+  }
+  return snapshot.size;
+}
+
+/**
+ * Ejecuta una tarea local con reintentos; cada intento queda anotado en su
+ * documento antes de ejecutarse, así que un reinicio no pierde la tarea
+ * @param ref - Documento en localTasks
+ */
+async function runLocalTask(ref: FirebaseFirestore.DocumentReference): Promise<void> {
+  // Import diferido: los handlers dependen de los workers, que no deben cargarse con la cola
+  const { runTaskHandler } = await import("../workers/taskHandlers");
+  // En local el backoff se escala a milisegundos para no bloquear la callable
+  const backoffScale = Number(process.env.TASK_QUEUE_LOCAL_BACKOFF_MS || 100);
+
+  for (;;) {
+    // Reservar la tarea (lease) para que otra ejecución no la procese a la vez
+    const task = await admin.firestore().runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) return null;
+      const data = doc.data() as LocalTask;
+      const nowMs = Date.now();
+      if (data.leaseUntil && data.leaseUntil.toMillis() > nowMs) return null;
+
+      const attempts = data.attempts + 1;
+      transaction.update(ref, {
+        attempts,
+        leaseUntil: admin.firestore.Timestamp.fromMillis(nowMs + LOCAL_TASK_LEASE_MS),
+      });
+      return { ...data, attempts };
+    });
+    if (!task) return;
+
+    const config = TASK_QUEUES[task.queue];
+    try {
+      await runTaskHandler(task.queue, task.payload);
+      await ref.delete();
+      return;
+    } catch (error) {
+      const permanent = error instanceof PermanentTaskError;
+      if (permanent || task.attempts >= config.maxAttempts) {
+        await recordDeadLetter(task.queue, task.payload, {
+          taskId: task.taskId,
+          attempts: task.attempts,
+          error: error as Error,
+          backend: "LOCAL",
+        });
+        await ref.delete();
+        return;
+      }
+
+      const wait = backoffSeconds(config, task.attempts) * backoffScale;
+      await ref.update({
+        lastError: (error as Error).message,
+        leaseUntil: null,
+        nextAttemptAt: admin.firestore.Timestamp.fromMillis(Date.now() + wait),
+      });
+      functions.logger.warn(
+        `[taskQueue] ${task.queue} intento ${task.attempts}/${config.maxAttempts} falló, reintento en ${wait}ms: ` +
+        (error as Error).message,
+      );
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
+
+/**
+ * Backend activo: TASK_QUEUE_BACKEND (cloud-tasks | local) o, por defecto,
+ * LOCAL en el emulador y CLOUD_TASKS en producción
+ */
+export function getTaskQueueBackend(): TaskQueueBackendName {
+  const configured = (process.env.TASK_QUEUE_BACKEND || "").toLowerCase();
+  if (configured === "local") return "LOCAL";
+  if (configured === "cloud-tasks") return "CLOUD_TASKS";
+  return process.env.FUNCTIONS_EMULATOR === "true" || process.env.FIRESTORE_EMULATOR_HOST ? "LOCAL" : "CLOUD_TASKS";
+}
+
+/**
+ * Encola una tarea en la cola indicada
+ *
+ * @param queue - Nombre de la cola
+ * @param payload - Payload tipado de la cola
+ * @param options - taskId para deduplicar
+ */
+export async function enqueueTask<Q extends TaskQueueName>(
+  queue: Q,
+  payload: TaskPayloads[Q],
+  options: EnqueueOptions = {},
+): Promise<void> {
+  const backend = getTaskQueueBackend() === "LOCAL" ? localBackend : cloudTasksBackend;
+  await backend.enqueue(queue, payload, options);
+  functions.logger.info(
+    `[taskQueue] Tarea encolada en ${queue} (${backend.name})${options.taskId ? ` taskId ${options.taskId}` : ""}`,
+  );
+}
+
+/**
+ * Guarda una tarea que agotó sus intentos (o falló de forma permanente)
+ *
+ * @param queue - Cola de la tarea
+ * @param payload - Payload original (para reenviarla)
+ * @param info - taskId, intentos, error y backend
+ * @return ID del documento en taskDeadLetters
+ */
+export async function recordDeadLetter<Q extends TaskQueueName>(
+  queue: Q,
+  payload: TaskPayloads[Q],
+  info: { taskId: string | null; attempts: number; error: Error; backend: TaskQueueBackendName },
+): Promise<string> {
+  const deadLetter: DeadLetter = {
+    queue,
+    payload,
+    taskId: info.taskId,
+    attempts: info.attempts,
+    lastError: info.error.message,
+    backend: info.backend,
+    estado: "PENDIENTE",
+    createdAt: admin.firestore.Timestamp.now(),
+  };
+  const ref = await admin.firestore().collection(DEAD_LETTERS_COLLECTION).add(deadLetter);
+
+  functions.logger.error(
+    `[taskQueue] ☠️ Tarea de ${queue} enviada a ${DEAD_LETTERS_COLLECTION}/${ref.id} tras ${info.attempts} ` +
+    `intento(s): ${info.error.message}`,
+  );
+  return ref.id;
+}
@@ -0,0 +1,86 @@
+/**
+ * Gestión de usuarios (Firebase Auth + users/{uid})
+ *
+ * Resumen de cada usuario para la consola (claims, último acceso, deshabilitado)
+ * y asignación de rol compartida por setUserRole e inviteUser.
+ */
+
+import * as admin from "firebase-admin";
+import { UserRole, USER_ROLES, roleClaims } from "./roles";
+
+export interface UserSummary {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  disabled: boolean;
+  role: UserRole | null;
+  municipioIds: string[];
+  customClaims: Record<string, unknown>;
+  creationTime: string | null; // ISO
+  lastSignInTime: string | null; // ISO
+  tokensValidAfterTime: string | null; // ISO: sesiones anteriores revocadas
+}
+
+const toIso = (value: string | undefined) => (value ? new Date(value).toISOString() : null);
+
+/**
+ * Resumen de un usuario de Auth (sin claims de rol, usa users/{uid})
+ *
+ * @param user - Usuario de Firebase Auth
+ * @param stored - Documento users/{uid} (si existe)
+ * @return Resumen serializable
+ */
+export function toUserSummary(
+  user: admin.auth.UserRecord,
+  stored?: FirebaseFirestore.DocumentData,
+): UserSummary {
+  const claims = user.customClaims || {};
+  const claimRole = USER_ROLES.includes(claims.role) ? claims.role as UserRole :
+    claims.admin === true ? "admin" : claims.editor === true ? "editor" : null;
+  const storedRole = USER_ROLES.includes(stored?.role) ? stored!.role as UserRole : null;
+  const role = claimRole ?? storedRole;
+
+  return {
+    uid: user.uid,
+    email: user.email || null,
+    displayName: user.displayName || null,
+    disabled: user.disabled,
+    role,
+    municipioIds: Array.isArray(claims.municipioIds) ? claims.municipioIds :
+      Array.isArray(stored?.municipioIds) ? stored!.municipioIds : [],
+    customClaims: claims,
+    creationTime: toIso(user.metadata.creationTime),
+    lastSignInTime: toIso(user.metadata.lastSignInTime),
+    tokensValidAfterTime: toIso(user.tokensValidAfterTime),
+  };
+}
+
+/**
+ * Asigna un rol: custom claims (conservando los demás claims) y users/{uid}
+ *
+ * @param user - Usuario de Firebase Auth
+ * @param role - Rol (null = sin permisos)
+ * @param municipioIds - Municipios del visor
+ * @param updatedBy - Email de quien asigna el rol
+ * @return Claims de rol asignados
+ */
+export async function applyUserRole(
+  user: admin.auth.UserRecord,
+  role: UserRole | null,
+  municipioIds: string[],
+  updatedBy: string,
+): Promise<Record<string, unknown>> {
+  const claims = roleClaims(role, municipioIds);
+  await admin.auth().setCustomUserClaims(user.uid, { ...user.customClaims, ...claims });
+
+  // Reflejar el rol en users/{uid} (fallback de las comprobaciones sin claims)
+  await admin.firestore().collection("users").doc(user.uid).set({
+    email: user.email || null,
+    role,
+    municipioIds: claims.municipioIds,
+    updatedAt: admin.firestore.Timestamp.now(),
+    updatedBy,
+  }, { merge: true });
+
+  return claims;
+}
@@ -0,0 +1,117 @@
+/**
+ * getAuditLogs Cloud Function
+ * Consulta el registro de auditoría (auditLogs) con filtros por usuario, panel,
+ * mes, acción y fechas. La colección está bloqueada para el cliente: se lee a
+ * través de esta función (admin y auditor)
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { z } from "zod";
+import { assertHasRole } from "../lib/roles";
+import { AUDIT_LOGS_COLLECTION, AuditLogEntry } from "../lib/audit";
+import { serializeTimestamps } from "../lib/serialize";
+
+const GetAuditLogsRequest = z.object({
+  actor: z.string().min(1).optional(), // Email exacto
+  panelId: z.string().min(1).optional(),
+  monthKey: z.string().regex(/^\d{4}-\d{2}$/, "Formato de monthKey inválido (YYYY-MM)").optional(),
+  action: z.string().min(1).optional(),
+  desde: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha inválido (YYYY-MM-DD)").optional(),
+  hasta: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha inválido (YYYY-MM-DD)").optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+  cursor: z.string().min(1).optional(), // ID de la última entrada examinada (página siguiente)
+});
+
+const DEFAULT_LIMIT = 200;
+const PAGE_SIZE = 500;
+const MAX_SCANNED = 5000; // Tope de entradas examinadas por llamada (filtros en memoria)
+
+// Orden de preferencia del filtro que va a la consulta (un índice compuesto por campo con createdAt)
+const QUERY_FIELDS = ["panelId", "monthKey", "actor", "action"] as const;
+
+export const getAuditLogs = functions
+  .region("europe-west1")
+  .runWith({ timeoutSeconds: 120, memory: "512MB" })
+  .https.onCall(async (data: unknown, context) => {
+    await assertHasRole(context, ["admin", "auditor"]);
+
+    const parseResult = GetAuditLogsRequest.safeParse(data ?? {});
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const filters = parseResult.data;
+    const limit = filters.limit ?? DEFAULT_LIMIT;
+    const db = admin.firestore();
+
+    // 1. Consulta: un filtro de igualdad + rango de fechas; el resto se aplica en memoria
+    const queryField = QUERY_FIELDS.find((field) => filters[field] !== undefined);
+    let query: FirebaseFirestore.Query = db.collection(AUDIT_LOGS_COLLECTION);
+    if (queryField) {
+      query = query.where(queryField, "==", filters[queryField]);
+    }
+    const { Timestamp } = admin.firestore;
+    if (filters.desde) {
+      query = query.where("createdAt", ">=", Timestamp.fromDate(new Date(`${filters.desde}T00:00:00Z`)));
+    }
+    if (filters.hasta) {
+      query = query.where("createdAt", "<=", Timestamp.fromDate(new Date(`${filters.hasta}T23:59:59.999Z`)));
+    }
+    query = query.orderBy("createdAt", "desc");
+
+    if (filters.cursor) {
+      const cursorDoc = await db.collection(AUDIT_LOGS_COLLECTION).doc(filters.cursor).get();
+      if (!cursorDoc.exists) {
+        throw new functions.https.HttpsError("invalid-argument", `Cursor ${filters.cursor} no válido`);
+      }
+      query = query.startAfter(cursorDoc);
+    }
+
+    const matches = (entry: AuditLogEntry) => QUERY_FIELDS.every(
+      (field) => filters[field] === undefined || entry[field] === filters[field]
+    );
+
+    // 2. Paginar hasta reunir `limit` entradas o agotar el tope de examinadas
+    const entries: Array<{ id: string } & AuditLogEntry> = [];
+    let lastDoc: FirebaseFirestore.QueryDocumentSnapshot | null = null;
+    let scanned = 0;
+    let exhausted = false;
+
+    while (entries.length < limit && scanned < MAX_SCANNED) {
+      const pageQuery: FirebaseFirestore.Query = lastDoc ? query.startAfter(lastDoc) : query;
+      const snapshot = await pageQuery.limit(PAGE_SIZE).get();
+
+      for (const doc of snapshot.docs) {
+        scanned++;
+        lastDoc = doc;
+        const entry = doc.data() as AuditLogEntry;
+        if (matches(entry)) {
+          entries.push({ id: doc.id, ...entry });
+          if (entries.length === limit) break;
+        }
+      }
+
+      if (snapshot.size < PAGE_SIZE) {
+        exhausted = true;
+        break;
+      }
+    }
+
+    // Cortado por límite o por el tope de examinadas: se continúa desde la última entrada examinada
+    const nextCursor = exhausted && entries.length < limit ? null : lastDoc?.id ?? null;
+
+    functions.logger.info(
+      `[getAuditLogs] ${entries.length} entradas (${scanned} examinadas, consulta por ${queryField ?? "fecha"})`
+    );
+
+    return {
+      entries: entries.map((entry) => ({
+        ...(serializeTimestamps(entry) as Record<string, unknown>),
+        createdAt: entry.createdAt.toDate().toISOString(),
+      })),
+      scanned,
+      nextCursor,
+    };
+  });
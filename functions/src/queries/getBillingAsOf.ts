@@ -0,0 +1,259 @@
+/**
+ * getBillingAsOf Cloud Function
+ * Reconstruye la facturación de un mes tal y como estaba en una fecha dada
+ * ("¿qué teníamos facturado en octubre el día 5 de noviembre?")
+ *
+ * Usa el historial inmutable billingRevisions: para cada fila se toma la última
+ * revisión con createdAt <= timestamp. Las filas anteriores a la existencia del
+ * historial (sin ninguna revisión) se devuelven con su valor actual si su
+ * updatedAt es anterior a la fecha pedida, marcadas como sinHistorial.
+ *
+ * El resumen usa los mismos totales que billingSummary (lib/summaryTotals) y
+ * totalEventos cuenta los eventos del mes que existían y no estaban eliminados
+ * en esa fecha.
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { z } from "zod";
+import { BILLING_REVISIONS_COLLECTION, BillingRevision } from "../lib/billingRevisions";
+import { computeSummaryTotals, getDefaultDiasMes } from "../lib/summaryTotals";
+import { BillingBreakdownLine } from "../lib/panelServices";
+import { RateSegment } from "../lib/billingEngine";
+import { getCallerAccess, visiblePanelIds } from "../lib/roles";
+
+const GetBillingAsOfRequest = z.object({
+  monthKey: z.string().regex(/^\d{4}-\d{2}$/, "Formato de monthKey inválido (YYYY-MM)"),
+  timestamp: z.union([z.string().min(1), z.number()]),
+});
+
+// Orígenes que crean la fila desde cero: antes de su primera revisión no existía
+const CREATION_SOURCES = ["createPanel", "importBaseMonth"];
+
+interface BillingAsOfPanel {
+  panelId: string;
+  monthKey: string;
+  codigo: string;
+  municipio: string;
+  totalDiasFacturables: number;
+  totalImporte: number;
+  estadoAlCierre: "ACTIVO" | "DESMONTADO" | "BAJA";
+  tarifaAplicada: number;
+  modoProrrateo?: string;
+  diasMes?: number;
+  desglose?: BillingBreakdownLine[];
+  tramosTarifa?: RateSegment[];
+  revisionId: string | null;
+  revisionAt: string | null;
+  sinHistorial: boolean;
+}
+
+interface GetBillingAsOfResponse {
+  monthKey: string;
+  asOf: string;
+  summary: {
+    monthKey: string;
+    totalImporteMes: number;
+    totalPanelesFacturables: number;
+    panelesActivos: number;
+    panelesParciales: number;
+    totalEventos: number;
+    isLocked: boolean;
+  };
+  panels: BillingAsOfPanel[];
+  revisionsConsidered: number;
+  panelesSinHistorial: number;
+  panelesNoReconstruibles: string[];
+}
+
+export const getBillingAsOf = functions
+  .region("europe-west1")
+  .https.onCall(
+    async (data: unknown, context): Promise<GetBillingAsOfResponse> => {
+      // 1. Verificar rol (mismo acceso que la lectura de billingMonthlyPanel: el visor solo ve sus municipios)
+      const access = await getCallerAccess(context);
+
+      // 2. Validar input
+      const parseResult = GetBillingAsOfRequest.safeParse(data);
+      if (!parseResult.success) {
+        const errors = parseResult.error.errors.map((e) => e.message).join(", ");
+        throw new functions.https.HttpsError("invalid-argument", errors);
+      }
+
+      const { monthKey, timestamp } = parseResult.data;
+      const asOfDate = new Date(timestamp);
+      if (Number.isNaN(asOfDate.getTime())) {
+        throw new functions.https.HttpsError(
+          "invalid-argument",
+          `Fecha inválida: ${timestamp}`
+        );
+      }
+      const asOfMillis = asOfDate.getTime();
+
+      functions.logger.info(
+        `[getBillingAsOf] Reconstruyendo ${monthKey} a fecha ${asOfDate.toISOString()}`
+      );
+
+      const db = admin.firestore();
+
+      try {
+        // 3. Leer todas las revisiones del mes (filtro por fecha en memoria, evita índice compuesto)
+        const revisionsSnapshot = await db
+          .collection(BILLING_REVISIONS_COLLECTION)
+          .where("monthKey", "==", monthKey)
+          .get();
+
+        // Visor: solo los paneles de sus municipios (el resumen se calcula sobre ellos)
+        const visibles = await visiblePanelIds(access);
+        const isVisible = (panelId: string) => !visibles || visibles.has(panelId);
+
+        const revisions = revisionsSnapshot.docs
+          .map((doc) => ({ id: doc.id, ...(doc.data() as BillingRevision) }))
+          .filter((revision) => isVisible(revision.panelId))
+          .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+
+        // Última revisión <= asOf por fila, y primera revisión de cada fila (para el histórico previo)
+        const latestByDoc = new Map<string, typeof revisions[number]>();
+        const firstByDoc = new Map<string, typeof revisions[number]>();
+        let revisionsConsidered = 0;
+
+        for (const revision of revisions) {
+          if (!firstByDoc.has(revision.billingDocId)) {
+            firstByDoc.set(revision.billingDocId, revision);
+          }
+          if (revision.createdAt.toMillis() <= asOfMillis) {
+            latestByDoc.set(revision.billingDocId, revision);
+            revisionsConsidered++;
+          }
+        }
+
+        const panels: BillingAsOfPanel[] = [];
+
+        for (const revision of latestByDoc.values()) {
+          if (revision.tipo === "DELETE" || !revision.outputs) continue;
+
+          panels.push({
+            panelId: revision.panelId,
+            monthKey,
+            codigo: revision.codigo,
+            municipio: revision.municipio,
+            totalDiasFacturables: revision.outputs.totalDiasFacturables,
+            totalImporte: revision.outputs.totalImporte,
+            estadoAlCierre: revision.outputs.estadoAlCierre,
+            tarifaAplicada: revision.outputs.tarifaAplicada,
+            modoProrrateo: revision.inputs?.modoProrrateo,
+            diasMes: revision.inputs?.diasMes,
+            desglose: revision.outputs.desglose,
+            tramosTarifa: revision.outputs.tramosTarifa,
+            revisionId: revision.id,
+            revisionAt: revision.createdAt.toDate().toISOString(),
+            sinHistorial: false,
+          });
+        }
+
+        // 4. Filas sin revisiones en la fecha pedida
+        const billingSnapshot = await db
+          .collection("billingMonthlyPanel")
+          .where("monthKey", "==", monthKey)
+          .get();
+
+        let panelesSinHistorial = 0;
+        const panelesNoReconstruibles: string[] = [];
+
+        for (const doc of billingSnapshot.docs) {
+          const row = doc.data();
+          if (latestByDoc.has(doc.id) || !isVisible(row.panelId)) continue;
+
+          const firstRevision = firstByDoc.get(doc.id);
+
+          if (firstRevision) {
+            // La fila tiene historial pero empieza después de asOf
+            if (!CREATION_SOURCES.includes(firstRevision.source)) {
+              // Existía antes del historial con valores que ya no conocemos
+              panelesNoReconstruibles.push(doc.id);
+            }
+            continue;
+          }
+
+          // Fila legacy sin ninguna revisión: se usa su valor actual si ya existía
+          if (toMillis(row.updatedAt) > asOfMillis) {
+            panelesNoReconstruibles.push(doc.id);
+            continue;
+          }
+
+          panels.push({
+            panelId: row.panelId,
+            monthKey,
+            codigo: row.codigo,
+            municipio: row.municipio,
+            totalDiasFacturables: row.totalDiasFacturables || 0,
+            totalImporte: row.totalImporte || 0,
+            estadoAlCierre: row.estadoAlCierre,
+            tarifaAplicada: row.tarifaAplicada,
+            modoProrrateo: row.modoProrrateo,
+            diasMes: row.diasMes,
+            revisionId: null,
+            revisionAt: null,
+            sinHistorial: true,
+          });
+          panelesSinHistorial++;
+        }
+
+        panels.sort((a, b) => (a.codigo || "").localeCompare(b.codigo || ""));
+
+        // 5. Reconstruir billingSummary con los mismos criterios que el resumen vivo
+        const totals = computeSummaryTotals(panels, await getDefaultDiasMes(monthKey));
+
+        // Eventos del mes vigentes en asOf: creados antes y no eliminados todavía
+        const eventsSnapshot = await db.collectionGroup("panelEvents").where("monthKey", "==", monthKey).get();
+        const totalEventos = eventsSnapshot.docs.filter((doc) => {
+          const event = doc.data();
+          const panelId = doc.ref.parent.parent?.id || "";
+          return isVisible(panelId) &&
+            toMillis(event.createdAt) <= asOfMillis &&
+            !(event.isDeleted === true && toMillis(event.deletedAt) <= asOfMillis);
+        }).length;
+
+        // El estado de cierre no tiene historial: se informa el actual
+        const summaryDoc = await db.collection("billingSummary").doc(monthKey).get();
+
+        functions.logger.info(
+          `[getBillingAsOf] ✅ ${panels.length} paneles reconstruidos (${revisionsConsidered} revisiones, ` +
+          `${panelesSinHistorial} sin historial, ${panelesNoReconstruibles.length} no reconstruibles)`
+        );
+
+        return {
+          monthKey,
+          asOf: asOfDate.toISOString(),
+          summary: {
+            monthKey,
+            ...totals,
+            totalEventos,
+            isLocked: summaryDoc.exists ? summaryDoc.data()?.isLocked === true : false,
+          },
+          panels,
+          revisionsConsidered,
+          panelesSinHistorial,
+          panelesNoReconstruibles,
+        };
+      } catch (error: any) {
+        functions.logger.error(`[getBillingAsOf] Error: ${error.message}`);
+        throw new functions.https.HttpsError(
+          "internal",
+          `Error al reconstruir la facturación: ${error.message}`
+        );
+      }
+    }
+  );
+
+/**
+ * updatedAt aparece como Timestamp o como ISO string según quién escribió la fila
+ */
+function toMillis(value: unknown): number {
+  if (value instanceof admin.firestore.Timestamp) return value.toMillis();
+  if (typeof value === "string") {
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? 0 : ms;
+  }
+  return 0;
+}
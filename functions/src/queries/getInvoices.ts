@@ -0,0 +1,51 @@
+/**
+ * getInvoices Cloud Function
+ * Lista las facturas emitidas de un mes (ordinarias y rectificativas)
+ * La colección invoices está bloqueada para el cliente: se lee a través de esta función
+ * (el visor solo recibe las facturas de sus municipios)
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { z } from "zod";
+import { assertHasRole, canViewMunicipio } from "../lib/roles";
+import { INVOICES_COLLECTION, Invoice } from "../lib/invoicing";
+
+const GetInvoicesRequest = z.object({
+  monthKey: z.string().regex(/^\d{4}-\d{2}$/, "Formato de monthKey inválido (YYYY-MM)"),
+});
+
+export const getInvoices = functions
+  .region("europe-west1")
+  .https.onCall(async (data: unknown, context) => {
+    const access = await assertHasRole(context, ["admin", "editor", "auditor", "visor"]);
+
+    const parseResult = GetInvoicesRequest.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e) => e.message).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { monthKey } = parseResult.data;
+
+    const snapshot = await admin
+      .firestore()
+      .collection(INVOICES_COLLECTION)
+      .where("monthKey", "==", monthKey)
+      .get();
+
+    // Ordenar en memoria por serie y número (evita índice compuesto)
+    const invoices = snapshot.docs
+      .filter((doc) => canViewMunicipio(access, doc.data().municipioId))
+      .map((doc) => {
+        const invoice = doc.data() as Invoice;
+        return {
+          ...invoice,
+          id: doc.id,
+          fechaEmision: invoice.fechaEmision.toDate().toISOString(),
+        };
+      })
+      .sort((a, b) => a.serie.localeCompare(b.serie) || a.year - b.year || a.secuencia - b.secuencia);
+
+    return { monthKey, invoices };
+  });
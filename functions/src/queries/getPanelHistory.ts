@@ -0,0 +1,68 @@
+/**
+ * getPanelHistory Cloud Function
+ * Historial completo de un panel para la página de detalle: datos maestros,
+ * todos los panelEvents (también los eliminados, con autor y snapshots) y las
+ * filas de billingMonthlyPanel de todos los meses
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { z } from "zod";
+import { canViewMunicipio, getCallerAccess } from "../lib/roles";
+import { serializeTimestamps } from "../lib/serialize";
+
+const GetPanelHistoryRequest = z.object({
+  panelId: z.string().min(1, "panelId es requerido"),
+});
+
+type Serialized = Record<string, unknown>;
+
+export const getPanelHistory = functions
+  .region("europe-west1")
+  .https.onCall(async (data: unknown, context) => {
+    // 1. Verificar rol (el visor solo ve los paneles de sus municipios)
+    const access = await getCallerAccess(context);
+
+    // 2. Validar input
+    const parseResult = GetPanelHistoryRequest.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { panelId } = parseResult.data;
+    const db = admin.firestore();
+
+    // 3. Datos maestros
+    const panelRef = db.collection("panels").doc(panelId);
+    const panelDoc = await panelRef.get();
+    if (!panelDoc.exists) {
+      throw new functions.https.HttpsError("not-found", `Panel ${panelId} no encontrado`);
+    }
+    const panel = panelDoc.data()!;
+    if (!canViewMunicipio(access, panel.municipioId)) {
+      throw new functions.https.HttpsError("permission-denied", "El panel no pertenece a sus municipios");
+    }
+
+    // 4. Eventos (incluidos los eliminados) y facturación mensual
+    const [eventsSnapshot, billingSnapshot] = await Promise.all([
+      panelRef.collection("panelEvents").get(),
+      db.collection("billingMonthlyPanel").where("panelId", "==", panelId).get(),
+    ]);
+
+    const events = eventsSnapshot.docs
+      .map((doc): Serialized => ({ id: doc.id, ...(serializeTimestamps(doc.data()) as Serialized) }))
+      .sort((a: Serialized, b: Serialized) =>
+        String(a.effectiveDateLocal ?? "").localeCompare(String(b.effectiveDateLocal ?? "")) ||
+        String(a.createdAt ?? "").localeCompare(String(b.createdAt ?? "")));
+
+    const months = billingSnapshot.docs
+      .map((doc) => serializeTimestamps(doc.data()) as Serialized)
+      .sort((a, b) => String(a.monthKey).localeCompare(String(b.monthKey)));
+
+    return {
+      panel: { id: panelDoc.id, ...(serializeTimestamps(panel) as Serialized) },
+      events,
+      months,
+    };
+  });
@@ -1,11 +1,12 @@
 /**
  * getUniqueLocations Cloud Function
  * Obtiene lista única de ubicaciones desde la colección maestra panels
- * Optimizada con .select() para traer solo el campo ubicacion
+ * Optimizada con .select() para traer solo ubicacion y municipioId
  */
 
 import * as admin from "firebase-admin";
 import * as functions from "firebase-functions";
+import { canViewMunicipio, getCallerAccess } from "../lib/roles";
 
 interface GetUniqueLocationsResponse {
   locations: string[];
@@ -15,17 +16,10 @@ export const getUniqueLocations = functions
   .region("europe-west1")
   .https.onCall(
     async (data, context): Promise<GetUniqueLocationsResponse> => {
-      // Verificar autenticación (cualquier usuario logueado puede leer ubicaciones)
-      if (!context.auth) {
-        functions.logger.warn("[getUniqueLocations] Intento de acceso sin autenticación");
-        throw new functions.https.HttpsError(
-          "unauthenticated",
-          "Debe estar autenticado para ver las ubicaciones"
-        );
-      }
-
-      const userId = context.auth.uid;
-      const userEmail = context.auth.token.email || "unknown";
+      // Verificar rol (cualquier rol puede leer ubicaciones; el visor solo las de sus municipios)
+      const access = await getCallerAccess(context);
+      const userId = access.uid;
+      const userEmail = access.email;
 
       functions.logger.info(
         `[getUniqueLocations] Usuario autenticado: ${userEmail} (${userId})`
@@ -36,13 +30,13 @@ export const getUniqueLocations = functions
         
         functions.logger.info("[getUniqueLocations] Iniciando query a panels collection...");
 
-        // Query optimizada: solo trae el campo 'ubicacion'
+        // Query optimizada: solo trae 'ubicacion' y 'municipioId'
         // Nota: Usa Admin SDK, ignora las reglas de seguridad de Firestore
         const panelsRef = db.collection("panels");
         
-        functions.logger.info("[getUniqueLocations] Ejecutando panelsRef.select('ubicacion').get()...");
+        functions.logger.info("[getUniqueLocations] Ejecutando panelsRef.select('ubicacion', 'municipioId').get()...");
         
-        const snapshot = await panelsRef.select("ubicacion").get();
+        const snapshot = await panelsRef.select("ubicacion", "municipioId").get();
 
         functions.logger.info(
           `[getUniqueLocations] ✅ Query exitosa. Leídos ${snapshot.size} paneles`
@@ -52,6 +46,7 @@ export const getUniqueLocations = functions
         const locationSet = new Set<string>();
 
         snapshot.forEach((doc) => {
+          if (!canViewMunicipio(access, doc.data().municipioId)) return;
           const ubicacion = doc.data().ubicacion;
           if (ubicacion && typeof ubicacion === "string" && ubicacion.trim().length > 0) {
             locationSet.add(ubicacion.trim());
@@ -0,0 +1,46 @@
+/**
+ * listUsers Cloud Function
+ * Lista los usuarios de Firebase Auth con su rol (claims o users/{uid}), último
+ * acceso y estado para la pestaña Usuarios de la consola (solo admin)
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { z } from "zod";
+import { assertIsAdmin } from "../lib/utils";
+import { toUserSummary } from "../lib/users";
+
+const ListUsersRequest = z.object({
+  pageToken: z.string().min(1).optional(),
+});
+
+const PAGE_SIZE = 1000; // Máximo de Auth por página
+
+export const listUsers = functions
+  .region("europe-west1")
+  .https.onCall(async (data: unknown, context) => {
+    await assertIsAdmin(context);
+
+    const parseResult = ListUsersRequest.safeParse(data ?? {});
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const page = await admin.auth().listUsers(PAGE_SIZE, parseResult.data.pageToken);
+
+    // users/{uid}: rol de los usuarios sin claims (bootstrapAdmin)
+    const db = admin.firestore();
+    const storedDocs = page.users.length > 0 ?
+      await db.getAll(...page.users.map((user) => db.collection("users").doc(user.uid))) :
+      [];
+    const storedByUid = new Map(storedDocs.map((doc) => [doc.id, doc.data()]));
+
+    const users = page.users
+      .map((user) => toUserSummary(user, storedByUid.get(user.uid)))
+      .sort((a, b) => (a.email || a.uid).localeCompare(b.email || b.uid));
+
+    functions.logger.info(`[listUsers] ${users.length} usuarios`);
+
+    return { users, nextPageToken: page.pageToken ?? null };
+  });
@@ -7,16 +7,25 @@
  * - Top municipios por facturación
  * - Indicadores de calidad
  * - Eventos destacados
+ * - Rectificaciones de meses cerrados facturadas en el mes
  */
 
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
+import {
+  ProrationMode,
+  getBillingDaysInMonth,
+  getProrationModeForYear,
+} from "../lib/prorationMode";
+import { assertHasRole } from "../lib/roles";
 
 const db = admin.firestore();
 
 interface ExecutiveReport {
   monthKey: string;
   generatedAt: string;
+  modoProrrateo: ProrationMode;
+  diasMes: number;
   
   resumenFinanciero: {
     totalFacturado: number;
@@ -55,34 +64,21 @@ interface ExecutiveReport {
     municipio: string;
     importe: number;
   }>;
+
+  rectificaciones: Array<{
+    panel: string;
+    municipio: string;
+    mesOriginal: string;
+    importe: number;
+    motivo: string;
+  }>;
 }
 
 export const generateExecutiveReport = functions
   .region("europe-west1")
   .https.onCall(async (data: { monthKey: string }, context) => {
-    // 1. Validación de autenticación
-    if (!context.auth) {
-      throw new functions.https.HttpsError(
-        "unauthenticated",
-        "Debes estar autenticado para generar el informe"
-      );
-    }
-
-    const userEmail = context.auth.token.email || "unknown";
-
-    // Verificar que el usuario es admin
-    const userDoc = await db.collection("users").doc(context.auth.uid).get();
-    const userData = userDoc.data();
-
-    if (!userData || userData.role !== "admin") {
-      functions.logger.warn(
-        `[generateExecutiveReport] ❌ Intento no autorizado por ${userEmail}`
-      );
-      throw new functions.https.HttpsError(
-        "permission-denied",
-        "Solo administradores pueden generar informes ejecutivos"
-      );
-    }
+    // 1. Solo administradores y auditores (lectura de toda la facturación)
+    const { email: userEmail } = await assertHasRole(context, ["admin", "auditor"]);
 
     const { monthKey } = data;
 
@@ -110,6 +106,10 @@ export const generateExecutiveReport = functions
 
       const summary = summaryDoc.data()!;
 
+      // Modo de prorrateo del año: define cuántos días son un mes completo
+      const modoProrrateo = await getProrationModeForYear(monthKey.split("-")[0]);
+      const diasMes = getBillingDaysInMonth(monthKey, modoProrrateo);
+
       // 3. Leer todos los paneles del mes
       const billingSnapshot = await db
         .collection("billingMonthlyPanel")
@@ -148,10 +148,11 @@ export const generateExecutiveReport = functions
         byMunicipio[municipioLimpio].importe += panel.totalImporte;
         byMunicipio[municipioLimpio].paneles += 1;
 
-        // Indicadores de calidad
-        if (panel.totalDiasFacturables === 30) {
+        // Indicadores de calidad (filas antiguas sin diasMes usan el modo del año)
+        const diasMesPanel: number = panel.diasMes ?? diasMes;
+        if (panel.totalDiasFacturables >= diasMesPanel) {
           panelesCompletos++;
-        } else if (panel.totalDiasFacturables > 0 && panel.totalDiasFacturables < 30) {
+        } else if (panel.totalDiasFacturables > 0) {
           panelesParciales++;
         }
 
@@ -194,6 +195,7 @@ export const generateExecutiveReport = functions
         municipio: string;
         importe: number;
       }> = [];
+      const rectificaciones: ExecutiveReport["rectificaciones"] = [];
 
       // Obtener lista única de panelIds del mes
       const uniquePanelIds = new Set<string>();
@@ -328,6 +330,16 @@ export const generateExecutiveReport = functions
                   importe: importeIntervencion,
                 });
                 break;
+
+              case "RECTIFICACION":
+                rectificaciones.push({
+                  panel: panelInfo.codigo,
+                  municipio: panelInfo.municipio,
+                  mesOriginal: event.rectificacion?.monthKeyOriginal || "",
+                  importe: event.snapshotAfter?.importeAjuste || 0,
+                  motivo: event.concepto || "",
+                });
+                break;
             }
           }
         }
@@ -345,12 +357,14 @@ export const generateExecutiveReport = functions
       const report: ExecutiveReport = {
         monthKey,
         generatedAt: new Date().toISOString(),
+        modoProrrateo,
+        diasMes,
         
         resumenFinanciero: {
           totalFacturado: summary.totalImporteMes,
           totalPaneles: billingSnapshot.size,
-          panelesActivos: summary.panelesActivos,
-          panelesParciales: summary.panelesParciales,
+          panelesActivos: panelesCompletos,
+          panelesParciales,
           panelesBaja,
           importePromedio: Math.round(importePromedio * 100) / 100,
         },
@@ -391,6 +405,10 @@ export const generateExecutiveReport = functions
           ...e,
           importe: Math.round(e.importe * 100) / 100,
         })),
+
+        rectificaciones: rectificaciones
+          .map(r => ({ ...r, importe: Math.round(r.importe * 100) / 100 }))
+          .sort((a, b) => a.mesOriginal.localeCompare(b.mesOriginal) || a.panel.localeCompare(b.panel)),
       };
 
       functions.logger.info(
@@ -0,0 +1,175 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { Storage } from "@google-cloud/storage";
+import { assertHasRole, canViewMunicipio } from "../lib/roles";
+import { z } from "zod";
+import PDFDocument from "pdfkit";
+import { FiscalParty, INVOICES_COLLECTION, Invoice } from "../lib/invoicing";
+
+const GenerateInvoicePdfRequest = z.object({
+  invoiceId: z.string().min(1, "El invoiceId es obligatorio"),
+});
+
+const storage = new Storage();
+
+/**
+ * Callable Function: generateInvoicePdf
+ *
+ * Genera el PDF de una factura emitida (ordinaria o rectificativa).
+ * El documento se construye siempre desde la factura inmutable guardada en
+ * invoices/{numero}, nunca desde la facturación viva del mes.
+ *
+ * @param data - { invoiceId: string }
+ * @param context - Contexto de autenticación
+ * @returns { success: true, url: string, fileName: string }
+ */
+export const generateInvoicePdf = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 120,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    const access = await assertHasRole(context, ["admin", "editor", "auditor", "visor"]);
+
+    const parseResult = GenerateInvoicePdfRequest.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { invoiceId } = parseResult.data;
+
+    const invoiceDoc = await admin.firestore().collection(INVOICES_COLLECTION).doc(invoiceId).get();
+    if (!invoiceDoc.exists) {
+      throw new functions.https.HttpsError("not-found", `La factura ${invoiceId} no existe`);
+    }
+
+    const invoice = invoiceDoc.data() as Invoice;
+    if (!canViewMunicipio(access, invoice.municipioId)) {
+      throw new functions.https.HttpsError("permission-denied", `La factura ${invoiceId} no es de sus municipios`);
+    }
+
+    try {
+      const buffer = await renderInvoicePdf(invoice);
+
+      const bucketName = "piv-manager.firebasestorage.app";
+      const fileName = `factura_${invoice.numero}.pdf`;
+      const filePath = `invoices/${invoice.year}/${fileName}`;
+      const file = storage.bucket(bucketName).file(filePath);
+
+      await file.save(buffer, {
+        contentType: "application/pdf",
+        metadata: {
+          cacheControl: "public, max-age=3600",
+        },
+      });
+      await file.makePublic();
+
+      functions.logger.info(`[generateInvoicePdf] Factura ${invoice.numero} subida a ${filePath}`);
+
+      return {
+        success: true,
+        url: `https://storage.googleapis.com/${bucketName}/${filePath}`,
+        fileName,
+      };
+    } catch (error) {
+      functions.logger.error("[generateInvoicePdf] Error al generar la factura:", error);
+      throw new functions.https.HttpsError(
+        "internal",
+        `Error al generar el PDF de la factura: ${(error as Error).message}`
+      );
+    }
+  });
+
+/**
+ * Renderiza la factura en A4
+ */
+function renderInvoicePdf(invoice: Invoice): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 40, size: "A4" });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const formatCurrency = (amount: number): string =>
+      amount.toLocaleString("es-ES", { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + " €";
+
+    const drawParty = (title: string, party: FiscalParty, x: number, y: number) => {
+      doc.fontSize(9).fillColor("#7f8c8d").font("Helvetica-Bold").text(title, x, y);
+      doc.fontSize(10).fillColor("#000").font("Helvetica-Bold").text(party.razonSocial, x, y + 14, { width: 240 });
+      doc.font("Helvetica").fontSize(9)
+        .text(`NIF: ${party.nif}`, x, doc.y + 2, { width: 240 })
+        .text(party.direccion, { width: 240 })
+        .text(`${party.codigoPostal} ${party.municipio} (${party.provincia})`, { width: 240 });
+    };
+
+    // Cabecera
+    const titulo = invoice.tipo === "RECTIFICATIVA" ? "FACTURA RECTIFICATIVA" : "FACTURA";
+    doc.fontSize(18).fillColor("#2c3e50").font("Helvetica-Bold").text(titulo, 40, 40);
+    const fecha = invoice.fechaEmision.toDate().toLocaleDateString("es-ES");
+    doc.fontSize(10).fillColor("#000").font("Helvetica")
+      .text(`Número: ${invoice.numero}`, 380, 44, { width: 175, align: "right" })
+      .text(`Fecha: ${fecha}`, 380, 58, { width: 175, align: "right" })
+      .text(`Periodo: ${invoice.monthKey}`, 380, 72, { width: 175, align: "right" });
+
+    drawParty("EMISOR", invoice.emisor, 40, 110);
+    drawParty("CLIENTE", invoice.receptor, 315, 110);
+
+    let y = 200;
+    if (invoice.rectifica) {
+      doc.fontSize(9).fillColor("#c0392b").font("Helvetica-Bold")
+        .text(`Rectifica la factura ${invoice.rectifica.numero} (${invoice.rectifica.modo})`, 40, y);
+      doc.font("Helvetica").fillColor("#000").text(`Motivo: ${invoice.rectifica.motivo}`, 40, y + 12, { width: 515 });
+      y = doc.y + 12;
+    }
+
+    // Tabla de líneas
+    const drawHeader = () => {
+      doc.rect(40, y, 515, 18).fill("#2c3e50");
+      doc.fillColor("#FFF").fontSize(9).font("Helvetica-Bold")
+        .text("Concepto", 45, y + 5, { width: 300 })
+        .text("Cant.", 350, y + 5, { width: 40, align: "right" })
+        .text("Precio", 395, y + 5, { width: 70, align: "right" })
+        .text("Importe", 470, y + 5, { width: 80, align: "right" });
+      doc.font("Helvetica").fillColor("#000");
+      y += 22;
+    };
+
+    drawHeader();
+    for (const line of invoice.lineas) {
+      if (y > 740) {
+        doc.addPage();
+        y = 40;
+        drawHeader();
+      }
+      doc.fontSize(8)
+        .text(line.concepto, 45, y, { width: 300 })
+        .text(String(line.cantidad), 350, y, { width: 40, align: "right" })
+        .text(formatCurrency(line.precioUnitario), 395, y, { width: 70, align: "right" })
+        .text(formatCurrency(line.importe), 470, y, { width: 80, align: "right" });
+      y = Math.max(doc.y, y + 12) + 2;
+    }
+
+    // Totales
+    if (y > 700) {
+      doc.addPage();
+      y = 40;
+    }
+    y += 10;
+    doc.moveTo(340, y).lineTo(555, y).stroke("#d0d0d0");
+    y += 8;
+    doc.fontSize(10)
+      .text("Base imponible:", 340, y, { width: 120 })
+      .text(formatCurrency(invoice.baseImponible), 460, y, { width: 95, align: "right" })
+      .text(`IVA (${invoice.ivaPorcentaje}%):`, 340, y + 16, { width: 120 })
+      .text(formatCurrency(invoice.cuotaIva), 460, y + 16, { width: 95, align: "right" });
+    doc.font("Helvetica-Bold").fontSize(12)
+      .text("TOTAL:", 340, y + 36, { width: 120 })
+      .text(formatCurrency(invoice.total), 460, y + 36, { width: 95, align: "right" });
+
+    doc.end();
+  });
+}
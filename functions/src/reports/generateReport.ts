@@ -1,16 +1,26 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
 import { Storage } from "@google-cloud/storage";
-import { assertIsAdmin } from "../lib/utils";
+import { assertHasRole } from "../lib/roles";
 import { z } from "zod";
 import * as ExcelJS from "exceljs";
 import PDFDocument from "pdfkit";
+import {
+  ProrationMode,
+  describeProrationMode,
+  getBillingDaysInMonth,
+  getProrationModeForYear,
+} from "../lib/prorationMode";
+import { INVOICES_COLLECTION, Invoice } from "../lib/invoicing";
+import { buildFacturaeXml, loadDir3Codes, validateFacturaeXml } from "../lib/facturae";
+import { RectificacionEntry, getMonthRectificaciones } from "../lib/rectificaciones";
+import { RateSegment } from "../lib/billingEngine";
 
 // Schema de validación
 const GenerateReportRequest = z.object({
   monthKey: z.string().regex(/^\d{4}-\d{2}$/, "Formato de monthKey inválido (YYYY-MM)"),
-  type: z.enum(["pdf", "excel"], {
-    errorMap: () => ({ message: "El tipo debe ser 'pdf' o 'excel'" }),
+  type: z.enum(["pdf", "excel", "facturae"], {
+    errorMap: () => ({ message: "El tipo debe ser 'pdf', 'excel' o 'facturae'" }),
   }),
 });
 
@@ -22,7 +32,10 @@ const storage = new Storage();
  * Genera un reporte de facturación en formato PDF o Excel.
  * Sube el archivo a Cloud Storage y devuelve una Signed URL.
  * 
- * @param data - { monthKey: "YYYY-MM", type: "pdf" | "excel" }
+ * Con type "facturae" genera un XML Facturae 3.2.2 por factura emitida del mes
+ * (mes cerrado) y devuelve todos los ficheros en files.
+ * 
+ * @param data - { monthKey: "YYYY-MM", type: "pdf" | "excel" | "facturae" }
  * @param context - Contexto de autenticación
  * @returns { success: true, url: string, expiresAt: string }
  */
@@ -33,8 +46,8 @@ export const generateReport = functions
     memory: "1GB",
   })
   .https.onCall(async (data: unknown, context) => {
-    // 1. Validar que el usuario sea admin
-    await assertIsAdmin(context);
+    // 1. Validar que el usuario sea admin o auditor
+    await assertHasRole(context, ["admin", "auditor"]);
 
     // 2. Validar el payload
     const parseResult = GenerateReportRequest.safeParse(data);
@@ -47,6 +60,10 @@ export const generateReport = functions
 
     functions.logger.info(`Generando reporte ${type} para ${monthKey}`);
 
+    if (type === "facturae") {
+      return generateFacturaeFiles(monthKey);
+    }
+
     try {
       // 3. Obtener datos de Firestore
       const reportData = await fetchReportData(monthKey);
@@ -105,6 +122,111 @@ export const generateReport = functions
     }
   });
 
+/**
+ * Genera, valida y sube un XML Facturae por cada factura emitida del mes
+ *
+ * Si algún documento no supera la validación XSD no se sube ninguno.
+ */
+async function generateFacturaeFiles(monthKey: string) {
+  const db = admin.firestore();
+
+  const summaryDoc = await db.collection("billingSummary").doc(monthKey).get();
+  if (!summaryDoc.exists || summaryDoc.data()?.isLocked !== true) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      `El mes ${monthKey} debe estar cerrado para exportar Facturae`
+    );
+  }
+
+  const invoicesSnapshot = await db
+    .collection(INVOICES_COLLECTION)
+    .where("monthKey", "==", monthKey)
+    .get();
+
+  const invoices = invoicesSnapshot.docs
+    .map((doc) => doc.data() as Invoice)
+    .sort((a, b) => a.numero.localeCompare(b.numero));
+
+  if (invoices.length === 0) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      `No hay facturas emitidas para ${monthKey}. Emite las facturas del mes antes de exportar Facturae`
+    );
+  }
+
+  // 1. Construir y validar todos los documentos antes de subir nada
+  const documents: Array<{ invoice: Invoice; xml: string }> = [];
+  const errores: string[] = [];
+
+  for (const invoice of invoices) {
+    try {
+      const dir3 = await loadDir3Codes(invoice.municipioId, invoice.municipio);
+      const xml = buildFacturaeXml(invoice, dir3);
+      const validation = await validateFacturaeXml(xml);
+      if (!validation.valid) {
+        errores.push(`${invoice.numero}: ${validation.errors.slice(0, 3).join(" | ")}`);
+        continue;
+      }
+      documents.push({ invoice, xml });
+    } catch (error) {
+      errores.push(`${invoice.numero}: ${(error as Error).message}`);
+    }
+  }
+
+  if (errores.length > 0) {
+    functions.logger.error(`[generateReport] Facturae ${monthKey} con errores:`, errores);
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      `No se generó ningún fichero Facturae:\n${errores.join("\n")}`
+    );
+  }
+
+  // 2. Subir a Cloud Storage
+  try {
+    const bucketName = "piv-manager.firebasestorage.app";
+    const bucket = storage.bucket(bucketName);
+    const files: Array<{ numero: string; municipio: string; fileName: string; url: string }> = [];
+
+    for (const { invoice, xml } of documents) {
+      const fileName = `facturae_${invoice.numero}.xml`;
+      const filePath = `reports/${monthKey}/facturae/${fileName}`;
+      const file = bucket.file(filePath);
+
+      await file.save(Buffer.from(xml, "utf8"), {
+        contentType: "application/xml",
+        metadata: {
+          cacheControl: "public, max-age=3600",
+        },
+      });
+      await file.makePublic();
+
+      files.push({
+        numero: invoice.numero,
+        municipio: invoice.municipio,
+        fileName,
+        url: `https://storage.googleapis.com/${bucketName}/${filePath}`,
+      });
+    }
+
+    functions.logger.info(`[generateReport] ${files.length} ficheros Facturae subidos para ${monthKey}`);
+
+    return {
+      success: true,
+      url: files[0].url,
+      fileName: files[0].fileName,
+      files,
+      expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      message: `${files.length} fichero(s) Facturae generados y validados`,
+    };
+  } catch (error) {
+    functions.logger.error("Error al subir Facturae:", error);
+    throw new functions.https.HttpsError(
+      "internal",
+      `Error al generar Facturae: ${(error as Error).message}`
+    );
+  }
+}
+
 /**
  * Obtiene los datos necesarios para el reporte desde Firestore
  */
@@ -119,6 +241,10 @@ async function fetchReportData(monthKey: string): Promise<ReportData> {
 
   const summary = summaryDoc.data()!;
 
+  // Modo de prorrateo del año (define qué es un mes completo)
+  const modoProrrateo = await getProrationModeForYear(monthKey.split("-")[0]);
+  const diasMes = getBillingDaysInMonth(monthKey, modoProrrateo);
+
   // Obtener todos los paneles del mes
   const billingSnapshot = await db
     .collection("billingMonthlyPanel")
@@ -133,18 +259,34 @@ async function fetchReportData(monthKey: string): Promise<ReportData> {
     totalImporte: doc.data().totalImporte,
     estadoAlCierre: doc.data().estadoAlCierre,
     tarifaAplicada: doc.data().tarifaAplicada,
+    diasMes: doc.data().diasMes ?? diasMes,
+    tramosTarifa: Array.isArray(doc.data().tramosTarifa) && doc.data().tramosTarifa.length > 1 ?
+      doc.data().tramosTarifa as RateSegment[] :
+      [],
   }));
 
+  // Rectificaciones de meses cerrados facturadas en este mes
+  const rectificaciones = await getMonthRectificaciones(monthKey);
+
+  // Completos/parciales según los días del mes de cada fila
+  const panelesActivos = panels.filter((p) => p.totalDiasFacturables >= p.diasMes).length;
+  const panelesParciales = panels.filter(
+    (p) => p.totalDiasFacturables > 0 && p.totalDiasFacturables < p.diasMes
+  ).length;
+
   return {
     monthKey,
+    modoProrrateo,
+    diasMes,
     summary: {
       totalImporteMes: summary.totalImporteMes,
       totalPanelesFacturables: summary.totalPanelesFacturables,
-      panelesActivos: summary.panelesActivos,
-      panelesParciales: summary.panelesParciales,
+      panelesActivos,
+      panelesParciales,
       totalEventos: summary.totalEventos,
     },
     panels,
+    rectificaciones,
   };
 }
 
@@ -182,6 +324,7 @@ async function generatePDFReport(data: ReportData): Promise<Buffer> {
 
     // Constantes de diseño
     const ROW_HEIGHT = 18;
+    const SUBROW_HEIGHT = 12; // Líneas de tramo de tarifa bajo el panel
     const HEADER_HEIGHT = 25;
     const FOOTER_HEIGHT = 20; // Espacio reservado para el footer
     const PAGE_BOTTOM_MARGIN = 595.28 * 1.414 - 40 - FOOTER_HEIGHT - 20; // A4 height - margin - footer - safety
@@ -297,10 +440,10 @@ async function generatePDFReport(data: ReportData): Promise<Buffer> {
     // Desglose
     doc.fillColor('#000').fontSize(10).font('Helvetica');
     const detailY = summaryBoxY + 45;
-    doc.text(`Paneles Activos (30 días completos):`, 50, detailY, { width: 250 });
+    doc.text(`Paneles Activos (${data.diasMes} días completos):`, 50, detailY, { width: 250 });
     doc.text(data.summary.panelesActivos.toString(), 300, detailY, { width: 60, align: 'right' });
     
-    doc.text(`Paneles Parciales (menos de 30 días):`, 50, detailY + 18, { width: 250 });
+    doc.text(`Paneles Parciales (menos de ${data.diasMes} días):`, 50, detailY + 18, { width: 250 });
     doc.text(data.summary.panelesParciales.toString(), 300, detailY + 18, { width: 60, align: 'right' });
     
     doc.text(`Total de Eventos registrados:`, 50, detailY + 36, { width: 250 });
@@ -308,8 +451,13 @@ async function generatePDFReport(data: ReportData): Promise<Buffer> {
 
     // Nota metodológica
     doc.y = summaryBoxY + 115;
+    const prorrateo = describeProrationMode(data.modoProrrateo, data.diasMes);
     doc.fontSize(8).fillColor('#7f8c8d')
-      .text("* Los importes parciales se calculan proporcionalmente según los días facturables del mes.", 40, doc.y, { width: 515, align: 'left' });
+      .text(
+        "* Los importes parciales se calculan proporcionalmente según los días facturables del mes " +
+          `(prorrateo: ${prorrateo}).`,
+        40, doc.y, { width: 515, align: 'left' }
+      );
 
     // Iniciar tabla
     doc.y += 40;
@@ -324,9 +472,10 @@ async function generatePDFReport(data: ReportData): Promise<Buffer> {
     
     for (let i = 0; i < data.panels.length; i++) {
       const panel = data.panels[i];
+      const rowHeight = ROW_HEIGHT + panel.tramosTarifa.length * SUBROW_HEIGHT;
       
-      // Control de paginación estricto
-      if (doc.y + ROW_HEIGHT + 10 > PAGE_BOTTOM_MARGIN) {
+      // Control de paginación estricto (el panel y sus tramos en la misma página)
+      if (doc.y + rowHeight + 10 > PAGE_BOTTOM_MARGIN) {
         startNewPage(false);
       }
 
@@ -334,7 +483,7 @@ async function generatePDFReport(data: ReportData): Promise<Buffer> {
       
       // Zebra striping
       if (i % 2 === 1) {
-        doc.rect(40, rowY, 515, ROW_HEIGHT).fill('#f9f9f9');
+        doc.rect(40, rowY, 515, rowHeight).fill('#f9f9f9');
         doc.fillColor('#000');
       }
 
@@ -347,11 +496,96 @@ async function generatePDFReport(data: ReportData): Promise<Buffer> {
       doc.text(panel.totalDiasFacturables.toString(), COLUMNS.dias.x, textY, { ...opts, width: COLUMNS.dias.width, align: 'center' });
       doc.text(formatCurrency(panel.totalImporte), COLUMNS.importe.x, textY, { ...opts, width: COLUMNS.importe.width, align: 'right' });
       doc.text(panel.estadoAlCierre, COLUMNS.estado.x, textY, { ...opts, width: COLUMNS.estado.width, align: 'center' });
+
+      // Tramos de tarifa (CAMBIO_TARIFA a mitad de mes): una línea por tramo
+      if (panel.tramosTarifa.length > 0) {
+        doc.fontSize(7).fillColor('#7f8c8d');
+        panel.tramosTarifa.forEach((tramo, index) => {
+          const tramoY = rowY + ROW_HEIGHT + index * SUBROW_HEIGHT;
+          doc.text(
+            `Días ${tramo.desde}-${tramo.hasta} a ${formatCurrency(tramo.tarifa)}/mes`,
+            COLUMNS.municipio.x + 10, tramoY, { ...opts, width: COLUMNS.municipio.width - 10, align: 'left' }
+          );
+          doc.text(
+            tramo.dias.toString(),
+            COLUMNS.dias.x, tramoY, { ...opts, width: COLUMNS.dias.width, align: 'center' }
+          );
+          doc.text(
+            formatCurrency(tramo.importe),
+            COLUMNS.importe.x, tramoY, { ...opts, width: COLUMNS.importe.width, align: 'right' }
+          );
+        });
+        doc.fontSize(9).fillColor('#000');
+      }
       
       // Línea separadora sutil
-      doc.strokeColor('#e0e0e0').moveTo(40, rowY + ROW_HEIGHT).lineTo(555, rowY + ROW_HEIGHT).stroke();
+      doc.strokeColor('#e0e0e0').moveTo(40, rowY + rowHeight).lineTo(555, rowY + rowHeight).stroke();
       
-      doc.y = rowY + ROW_HEIGHT;
+      doc.y = rowY + rowHeight;
+    }
+
+    // === RECTIFICACIONES DE MESES CERRADOS ===
+    if (data.rectificaciones.length > 0) {
+      const drawRectificacionesHeader = () => {
+        const headerY = doc.y;
+        doc.rect(40, headerY, 515, HEADER_HEIGHT).fillAndStroke('#2c3e50', '#2c3e50');
+        doc.fontSize(9).fillColor('#fff').font('Helvetica-Bold');
+        doc.text("Código", COLUMNS.codigo.x, headerY + 7, { width: COLUMNS.codigo.width });
+        doc.text("Mes", COLUMNS.municipio.x, headerY + 7, { width: 80 });
+        doc.text("Motivo", COLUMNS.municipio.x + 85, headerY + 7, { width: 155 });
+        doc.text("Diferencia", COLUMNS.importe.x, headerY + 7, { width: COLUMNS.importe.width, align: 'right' });
+        doc.text("Registrada por", COLUMNS.estado.x, headerY + 7, { width: COLUMNS.estado.width, align: 'center' });
+        doc.font('Helvetica').fillColor('#000');
+        doc.y = headerY + HEADER_HEIGHT;
+      };
+
+      if (doc.y + 80 > PAGE_BOTTOM_MARGIN) {
+        startNewPage(true);
+      } else {
+        doc.y += 30;
+      }
+
+      const totalRectificaciones = data.rectificaciones.reduce((sum, r) => sum + Math.round(r.importe * 100), 0) / 100;
+      doc.fontSize(14).fillColor('#2c3e50').font('Helvetica-Bold')
+        .text("Rectificaciones de Meses Cerrados", 40, doc.y);
+      doc.fontSize(8).fillColor('#7f8c8d').font('Helvetica')
+        .text(
+          "Diferencias sobre meses ya cerrados incluidas en el importe de este mes " +
+            `(total ${formatCurrency(totalRectificaciones)}).`,
+          40, doc.y + 4, { width: 515 }
+        );
+      doc.y += 12;
+      drawRectificacionesHeader();
+
+      for (const rectificacion of data.rectificaciones) {
+        if (doc.y + ROW_HEIGHT + 10 > PAGE_BOTTOM_MARGIN) {
+          startNewPage(true);
+          drawRectificacionesHeader();
+        }
+
+        const rowY = doc.y;
+        const textY = rowY + 5;
+        const opts = { lineBreak: false };
+
+        doc.fontSize(9).fillColor('#000');
+        doc.text(
+          truncateText(rectificacion.codigo, 12),
+          COLUMNS.codigo.x, textY, { ...opts, width: COLUMNS.codigo.width }
+        );
+        doc.text(formatMonthKey(rectificacion.monthKeyOriginal), COLUMNS.municipio.x, textY, { ...opts, width: 80 });
+        doc.text(truncateText(rectificacion.motivo, 30), COLUMNS.municipio.x + 85, textY, { ...opts, width: 155 });
+        doc.text(
+          formatCurrency(rectificacion.importe),
+          COLUMNS.importe.x, textY, { ...opts, width: COLUMNS.importe.width, align: 'right' }
+        );
+        doc.text(
+          truncateText(rectificacion.createdBy, 18),
+          COLUMNS.estado.x, textY, { ...opts, width: COLUMNS.estado.width, align: 'center' }
+        );
+
+        doc.strokeColor('#e0e0e0').moveTo(40, rowY + ROW_HEIGHT).lineTo(555, rowY + ROW_HEIGHT).stroke();
+        doc.y = rowY + ROW_HEIGHT;
+      }
     }
 
     // === AÑADIR FOOTERS A TODAS LAS PÁGINAS ===
@@ -380,6 +614,16 @@ async function generateExcelReport(data: ReportData): Promise<Buffer> {
   
   // === HOJA 3: Detalle de Paneles (Funcional) ===
   createPanelsSheet(workbook, data);
+
+  // === HOJA 4: Rectificaciones de meses cerrados ===
+  if (data.rectificaciones.length > 0) {
+    createRectificacionesSheet(workbook, data);
+  }
+
+  // === HOJA 5: Tramos de tarifa (CAMBIO_TARIFA a mitad de mes) ===
+  if (data.panels.some((panel) => panel.tramosTarifa.length > 0)) {
+    createTramosTarifaSheet(workbook, data);
+  }
   
   // Generar el buffer
   const buffer = await workbook.xlsx.writeBuffer();
@@ -789,6 +1033,10 @@ function createFinancialSheet(workbook: ExcelJS.Workbook, data: ReportData) {
   ws.getCell("B13").value = formatCurrency(importePromedio);
   ws.getCell("B13").alignment = { horizontal: 'right' };
   
+  ws.getCell("A14").value = "Modo de prorrateo";
+  ws.getCell("B14").value = describeProrationMode(data.modoProrrateo, data.diasMes);
+  ws.getCell("B14").alignment = { horizontal: 'right' };
+  
   // Freeze panes
   ws.views = [{ state: 'frozen', ySplit: 3 }];
 }
@@ -804,6 +1052,7 @@ function createPanelsSheet(workbook: ExcelJS.Workbook, data: ReportData) {
     { header: 'Código', key: 'codigo', width: 20 },
     { header: 'Municipio', key: 'municipio', width: 30 },
     { header: 'Días', key: 'dias', width: 10 },
+    { header: 'Días mes', key: 'diasMes', width: 10 },
     { header: 'Importe', key: 'importe', width: 15 },
     { header: 'Estado', key: 'estado', width: 15 },
     { header: 'Tarifa', key: 'tarifa', width: 15 }
@@ -825,6 +1074,7 @@ function createPanelsSheet(workbook: ExcelJS.Workbook, data: ReportData) {
       codigo: panel.codigo,
       municipio: panel.municipio,
       dias: panel.totalDiasFacturables,
+      diasMes: panel.diasMes,
       importe: panel.totalImporte,
       estado: panel.estadoAlCierre,
       tarifa: panel.tarifaAplicada
@@ -845,6 +1095,7 @@ function createPanelsSheet(workbook: ExcelJS.Workbook, data: ReportData) {
       { name: 'Código', filterButton: true },
       { name: 'Municipio', filterButton: true },
       { name: 'Días', filterButton: true },
+      { name: 'Días mes', filterButton: true },
       { name: 'Importe', filterButton: true },
       { name: 'Estado', filterButton: true },
       { name: 'Tarifa', filterButton: true }
@@ -853,6 +1104,7 @@ function createPanelsSheet(workbook: ExcelJS.Workbook, data: ReportData) {
       p.codigo,
       p.municipio,
       p.totalDiasFacturables,
+      p.diasMes,
       p.totalImporte,
       p.estadoAlCierre,
       p.tarifaAplicada
@@ -863,6 +1115,92 @@ function createPanelsSheet(workbook: ExcelJS.Workbook, data: ReportData) {
   ws.views = [{ state: 'frozen', ySplit: 1 }];
 }
 
+/**
+ * HOJA 4: Rectificaciones de meses cerrados facturadas en el mes
+ */
+function createRectificacionesSheet(workbook: ExcelJS.Workbook, data: ReportData) {
+  const ws = workbook.addWorksheet("Rectificaciones");
+
+  ws.columns = [
+    { header: 'Código', key: 'codigo', width: 20 },
+    { header: 'Municipio', key: 'municipio', width: 30 },
+    { header: 'Mes rectificado', key: 'mesOriginal', width: 16 },
+    { header: 'Importe original', key: 'importeOriginal', width: 16 },
+    { header: 'Diferencia', key: 'importe', width: 15 },
+    { header: 'Motivo', key: 'motivo', width: 50 },
+    { header: 'Registrada por', key: 'createdBy', width: 30 }
+  ];
+
+  ws.getRow(1).font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  ws.getRow(1).fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: 'FF2C3E50' }
+  };
+  ws.getRow(1).height = 25;
+
+  data.rectificaciones.forEach(r => {
+    ws.addRow({
+      codigo: r.codigo,
+      municipio: r.municipio,
+      mesOriginal: r.monthKeyOriginal,
+      importeOriginal: r.importeOriginal,
+      importe: r.importe,
+      motivo: r.motivo,
+      createdBy: r.createdBy
+    });
+  });
+
+  ws.getColumn('importeOriginal').numFmt = '#,##0.00 €';
+  ws.getColumn('importe').numFmt = '#,##0.00 €';
+  ws.views = [{ state: 'frozen', ySplit: 1 }];
+}
+
+/**
+ * HOJA 5: Tramos de tarifa de los paneles con CAMBIO_TARIFA a mitad de mes
+ */
+function createTramosTarifaSheet(workbook: ExcelJS.Workbook, data: ReportData) {
+  const ws = workbook.addWorksheet("Tramos de Tarifa");
+
+  ws.columns = [
+    { header: 'Código', key: 'codigo', width: 20 },
+    { header: 'Municipio', key: 'municipio', width: 30 },
+    { header: 'Desde día', key: 'desde', width: 12 },
+    { header: 'Hasta día', key: 'hasta', width: 12 },
+    { header: 'Días', key: 'dias', width: 10 },
+    { header: 'Tarifa', key: 'tarifa', width: 15 },
+    { header: 'Importe', key: 'importe', width: 15 }
+  ];
+
+  ws.getRow(1).font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  ws.getRow(1).fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: 'FF2C3E50' }
+  };
+  ws.getRow(1).height = 25;
+
+  data.panels
+    .filter((panel) => panel.tramosTarifa.length > 0)
+    .forEach(panel => {
+      panel.tramosTarifa.forEach(tramo => {
+        ws.addRow({
+          codigo: panel.codigo,
+          municipio: panel.municipio,
+          desde: tramo.desde,
+          hasta: tramo.hasta,
+          dias: tramo.dias,
+          tarifa: tramo.tarifa,
+          importe: tramo.importe
+        });
+      });
+    });
+
+  ws.getColumn('tarifa').numFmt = '#,##0.00 €';
+  ws.getColumn('importe').numFmt = '#,##0.00 €';
+  ws.views = [{ state: 'frozen', ySplit: 1 }];
+}
+
 /**
  * Helper: Formatear moneda al estilo español
  */
@@ -888,6 +1226,8 @@ function formatMonthKey(monthKey: string): string {
 // Interfaces
 interface ReportData {
   monthKey: string;
+  modoProrrateo: ProrationMode;
+  diasMes: number;
   summary: {
     totalImporteMes: number;
     totalPanelesFacturables: number;
@@ -902,5 +1242,8 @@ interface ReportData {
     totalImporte: number;
     estadoAlCierre: string;
     tarifaAplicada: number;
+    diasMes: number;
+    tramosTarifa: RateSegment[]; // Solo si hubo CAMBIO_TARIFA a mitad de mes (más de un tramo)
   }>;
+  rectificaciones: RectificacionEntry[];
 }
@@ -0,0 +1,75 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { getUserEmail } from "../lib/utils";
+import { assertHasRole } from "../lib/roles";
+import { z } from "zod";
+import { BilledPanel, parseCustomerListing, reconcileListing } from "../lib/reconciliation";
+
+const ReconcileCustomerListingSchema = z.object({
+  monthKey: z.string().regex(/^\d{4}-\d{2}$/, "Formato de monthKey inválido (YYYY-MM)"),
+  csv: z.string().min(1, "El listado está vacío").max(2_000_000, "El listado es demasiado grande"),
+  fileName: z.string().max(200).optional(),
+});
+
+/**
+ * Callable Function: reconcileCustomerListing
+ *
+ * Concilia el listado mensual del cliente (Municipio;Código Parada;Facturación)
+ * con billingMonthlyPanel del mes: paneles que faltan en cada lado, diferencias
+ * de importe y de municipio. No escribe nada.
+ *
+ * @param data - { monthKey, csv, fileName? }
+ * @param context - Contexto de autenticación
+ * @returns { monthKey, fileName, resumen, lineas, erroresFormato }
+ */
+export const reconcileCustomerListing = functions
+  .region("europe-west1")
+  .runWith({
+    timeoutSeconds: 120,
+    memory: "512MB",
+  })
+  .https.onCall(async (data: unknown, context) => {
+    await assertHasRole(context, ["admin", "auditor"]);
+
+    const parseResult = ReconcileCustomerListingSchema.safeParse(data);
+    if (!parseResult.success) {
+      const errors = parseResult.error.errors.map((e: any) => `${e.path.join(".")}: ${e.message}`).join(", ");
+      throw new functions.https.HttpsError("invalid-argument", errors);
+    }
+
+    const { monthKey, csv, fileName } = parseResult.data;
+    const listing = parseCustomerListing(csv);
+    if (listing.rows.length === 0) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "No se ha encontrado ninguna fila válida (Municipio;Código;Importe)",
+      );
+    }
+
+    const billingSnapshot = await admin.firestore()
+      .collection("billingMonthlyPanel")
+      .where("monthKey", "==", monthKey)
+      .get();
+    if (billingSnapshot.empty) {
+      throw new functions.https.HttpsError("not-found", `No hay facturación para ${monthKey}`);
+    }
+
+    const billed: BilledPanel[] = billingSnapshot.docs.map((doc) => ({
+      panelId: doc.data().panelId || doc.id,
+      codigo: doc.data().codigo,
+      municipio: doc.data().municipio || "",
+      totalImporte: doc.data().totalImporte || 0,
+    }));
+
+    const result = reconcileListing(listing, billed);
+    const { resumen } = result;
+
+    functions.logger.info(
+      `[reconcileCustomerListing] ${monthKey} (${fileName || "listado"}) por ${getUserEmail(context)}: ` +
+      `${resumen.coincidentes} coincidentes, ${resumen.soloCliente} solo cliente, ` +
+      `${resumen.soloNuestro} solo nuestros, ${resumen.diferenciasImporte} importes, ` +
+      `${resumen.diferenciasMunicipio} municipios`,
+    );
+
+    return { monthKey, fileName: fileName || null, ...result };
+  });
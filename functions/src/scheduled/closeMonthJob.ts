@@ -1,9 +1,7 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
-import { CloudTasksClient } from "@google-cloud/tasks";
 import { getPreviousMonthKey } from "../lib/billingRules";
-
-const tasksClient = new CloudTasksClient();
+import { enqueueTask } from "../lib/taskQueue";
 
 /**
  * Scheduled Function: closeMonthJob
@@ -60,7 +58,8 @@ export const closeMonthJob = functions
     functions.logger.info(`[closeMonthJob] Encolando updateSummaryTask para ${previousMonthKey}`);
 
     try {
-      await enqueueUpdateSummaryTask(previousMonthKey);
+      const taskId = previousMonthKey.replace("-", "");
+      await enqueueTask("update-summary", { monthKey: previousMonthKey }, { taskId });
       functions.logger.info(`[closeMonthJob] Tarea updateSummaryTask encolada correctamente`);
     } catch (error) {
       functions.logger.error("[closeMonthJob] Error al encolar updateSummaryTask:", error);
@@ -86,54 +85,6 @@ export const closeMonthJob = functions
     return null;
   });
 
-/**
- * Encola una tarea en Cloud Tasks para actualizar el billingSummary del mes.
- */
-async function enqueueUpdateSummaryTask(monthKey: string): Promise<void> {
-  const project = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT;
-  const location = "europe-west1";
-  const queue = "update-summary";
-
-  if (!project) {
-    throw new Error("No se pudo determinar el ID del proyecto (GCLOUD_PROJECT)");
-  }
-
-  const parent = tasksClient.queuePath(project, location, queue);
-  const url = `https://${location}-${project}.cloudfunctions.net/updateSummaryTask`;
-
-  // Usamos monthKey como taskId para deduplicación
-  const task = {
-    name: `${parent}/tasks/${monthKey.replace("-", "")}`, // "2025-11" -> "202511"
-    httpRequest: {
-      httpMethod: "POST" as const,
-      url,
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: Buffer.from(
-        JSON.stringify({
-          monthKey,
-        })
-      ).toString("base64"),
-      oidcToken: {
-        serviceAccountEmail: `${project}@appspot.gserviceaccount.com`,
-      },
-    },
-  };
-
-  try {
-    await tasksClient.createTask({ parent, task });
-  } catch (error: any) {
-    // Si la tarea ya existe (mismo taskId), no es un error
-    if (error.code === 6) {
-      // ALREADY_EXISTS
-      functions.logger.info(`[enqueueUpdateSummaryTask] Tarea ya existe para mes ${monthKey} (OK)`);
-    } else {
-      throw error;
-    }
-  }
-}
-
 /**
  * Helper para esperar un tiempo determinado (sleep)
  */
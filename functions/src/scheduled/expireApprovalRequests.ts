@@ -0,0 +1,20 @@
+import * as functions from "firebase-functions";
+import { expirePendingApprovals } from "../lib/approvals";
+
+/**
+ * Scheduled Function: expireApprovalRequests
+ *
+ * Cada hora marca como CADUCADA las solicitudes de aprobación pendientes cuyo
+ * plazo (APPROVAL_TTL_HOURS) ha vencido, para que la bandeja de aprobaciones
+ * no muestre operaciones destructivas antiguas. resolveApprovalRequest también
+ * rechaza las vencidas aunque este job no haya pasado todavía.
+ */
+export const expireApprovalRequests = functions
+  .region("europe-west1")
+  .pubsub.schedule("0 * * * *") // Cada hora
+  .timeZone("Europe/Madrid")
+  .onRun(async () => {
+    const expired = await expirePendingApprovals();
+    functions.logger.info(`[expireApprovalRequests] ${expired} solicitud(es) caducada(s)`);
+    return null;
+  });
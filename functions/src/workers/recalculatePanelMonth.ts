@@ -1,34 +1,69 @@
 import * as admin from "firebase-admin";
 import * as functions from "firebase-functions";
-import { CloudTasksClient } from "@google-cloud/tasks";
-import {
-  calculateBillableDays,
-  calculateImporte,
-  getDayOfMonth,
-  getPreviousMonthKey,
-  getNewPanelState,
-} from "../lib/billingRules";
+import { getPreviousMonthKey } from "../lib/billingRules";
 import { recalculateSummary } from "../lib/summaryCalculations";
-import { getStandardRateForYear } from "../lib/rateService";
+import { TaskPayloads, enqueueTask } from "../lib/taskQueue";
+import { ResolvedRate, resolveRateForPanelMonth } from "../lib/contracts";
+import {
+  ProrationMode,
+  getBillingDaysInMonth,
+  getProrationModeForYear,
+} from "../lib/prorationMode";
+import { buildBillingRevision } from "../lib/billingRevisions";
+import { BillingBreakdownLine } from "../lib/panelServices";
+import { BillingEngineEvent, RateSegment, computeBillingMonth } from "../lib/billingEngine";
 import { PanelSnapshot } from "../lib/schemas";
+import { codigoForMonth, otherCodigos } from "../lib/panelCodes";
 
-interface PanelEventData {
-  action: string;
-  effectiveDateLocal: string;
+export interface PanelEventData extends Omit<BillingEngineEvent, "id"> {
   motivo?: string;
   snapshotBefore: PanelSnapshot | null;
   snapshotAfter: PanelSnapshot | null;
   idempotencyKey: string;
 }
 
-interface BillingState {
+export interface BillingState {
   totalDiasFacturables: number;
   totalImporte: number;
   estadoAlCierre: "ACTIVO" | "DESMONTADO" | "BAJA";
   tarifaAplicada: number;
 }
 
-const tasksClient = new CloudTasksClient();
+/**
+ * Sustituciones para calcular un mes sin tocar Firestore (vista previa)
+ */
+export interface PanelMonthOverrides {
+  extraEvents?: Array<{ id: string; data: PanelEventData }>; // Eventos propuestos, aún no guardados
+  previousBilling?: FirebaseFirestore.DocumentData | null; // Sustituye al billingMonthlyPanel de N-1
+}
+
+/**
+ * Resultado del cálculo de un panel en un mes (sin escribir nada)
+ */
+export interface PanelMonthComputation {
+  panelData: FirebaseFirestore.DocumentData;
+  resolvedRate: ResolvedRate;
+  contratoId: string | null;
+  modoProrrateo: ProrationMode;
+  diasMes: number;
+  previousMonthKey: string | null; // null si no hay mes anterior
+  initialState: BillingState;
+  eventIds: string[];
+  periodos: Array<{ inicio: number; fin: number }>;
+  tramosTarifa: RateSegment[];
+  state: BillingState;
+  importeRectificaciones: number;
+  importeServicios: number;
+  desglose: BillingBreakdownLine[];
+}
+
+/**
+ * Resultado de propagar un recálculo a los meses posteriores del panel
+ */
+export interface PanelCascadeResult {
+  updatedMonths: string[]; // Meses posteriores recalculados, en orden
+  lockedMonth: string | null; // Primer mes posterior cerrado (la cascada se detiene ahí)
+}
 
 /**
  * Motor de Recálculo: recalculatePanelMonth
@@ -37,12 +72,15 @@ const tasksClient = new CloudTasksClient();
  * para un mes específico, aplicando todos los eventos en orden cronológico.
  * 
  * PROCESO:
+ * 0. Resuelve la tarifa del mes desde el contrato vigente del panel (o rates/{year})
  * 1. Lee el billingMonthlyPanel del mes anterior (N-1) para obtener el estado inicial
  * 2. Lee todos los panelEvents del mes actual (N) que no estén eliminados
- * 3. Aplica las reglas de prorrateo para cada evento
+ * 3. Aplica las reglas de prorrateo con el motor puro (lib/billingEngine): servicio
+ *    base y servicios recurrentes, cada uno con su tarifa (desglose en `desglose`)
  * 4. Sobrescribe billingMonthlyPanel del mes actual en una transacción
+ *    (y añade una revisión inmutable en billingRevisions)
  * 5. Actualiza panels.estadoActual en la misma transacción
- * 6. Encola una tarea en update-summary para recalcular los totales del mes
+ * 6. Recalcula billingSummary del mes (si falla, lo encola en update-summary)
  * 
  * @param panelId - ID del panel a recalcular
  * @param monthKey - Mes a recalcular en formato YYYY-MM
@@ -55,261 +93,24 @@ export async function recalculatePanelMonth(
 
   functions.logger.info(`[recalculatePanelMonth] Iniciando recálculo: ${panelId} / ${monthKey}`);
 
-  // 0. Obtener tarifa estándar del año objetivo
-  const targetYear = monthKey.split("-")[0];
-  const standardRate = await getStandardRateForYear(targetYear);
-  functions.logger.info(`[recalculatePanelMonth] Tarifa base para ${targetYear}: ${standardRate}€`);
-
-  // 1. Leer el billingMonthlyPanel del mes anterior (N-1) para obtener el estado inicial
-  const previousMonthKey = getPreviousMonthKey(monthKey);
-  const previousBillingDocId = `${panelId}_${previousMonthKey}`;
-  const previousBillingDoc = await db
-    .collection("billingMonthlyPanel")
-    .doc(previousBillingDocId)
-    .get();
-
-  let initialState: BillingState;
-
-  if (previousBillingDoc.exists) {
-    const prevData = previousBillingDoc.data()!;
-    
-    // PRIORIDAD ANUAL: Detectar cambio de año para forzar actualización automática
-    const prevYear = previousMonthKey.split("-")[0];
-    let tarifaAUsar: number;
-
-    if (prevYear !== targetYear) {
-      // CAMBIO DE AÑO: Forzar tarifa del nuevo año (actualización automática)
-      tarifaAUsar = standardRate;
-      functions.logger.warn(
-        `[recalculatePanelMonth] 🔄 Actualización Automática por Cambio de Año: ${prevYear} → ${targetYear}. ` +
-        `Tarifa anterior: ${prevData.tarifaAplicada || "N/A"}€, nueva tarifa: ${tarifaAUsar}€`
-      );
-    } else {
-      // MISMO AÑO: Heredar tarifa (respeta personalizaciones manuales)
-      tarifaAUsar = prevData.tarifaAplicada || standardRate;
-      
-      // Auditoría: Log si se está respetando un precio personalizado
-      if (tarifaAUsar !== standardRate) {
-        functions.logger.info(
-          `[recalculatePanelMonth] 💰 Precio personalizado heredado: ${tarifaAUsar}€ ` +
-          `(tarifa estándar ${targetYear}: ${standardRate}€)`
-        );
-      }
-    }
-
-    initialState = {
-      totalDiasFacturables: 0, // Siempre empezamos desde 0 para el nuevo mes
-      totalImporte: 0,
-      estadoAlCierre: prevData.estadoAlCierre || "ACTIVO",
-      tarifaAplicada: tarifaAUsar,
-    };
-    functions.logger.info(
-      `[recalculatePanelMonth] Estado inicial desde mes anterior: ${prevData.estadoAlCierre}, tarifa aplicada: ${initialState.tarifaAplicada}€`
-    );
-  } else {
-    // No hay mes anterior: panel nuevo o primer mes
-    // Usar ACTIVO como estado inicial por defecto (panel recién instalado)
-    initialState = {
-      totalDiasFacturables: 0,
-      totalImporte: 0,
-      estadoAlCierre: "ACTIVO", // Por defecto, un panel sin historial se asume ACTIVO
-      tarifaAplicada: standardRate, // Usar tarifa estándar del año objetivo
-    };
-    functions.logger.info(
-      `[recalculatePanelMonth] Sin mes anterior. Estado inicial por defecto: ACTIVO, tarifa estándar: ${initialState.tarifaAplicada}€`
-    );
-  }
-
-  // 2. Leer todos los panelEvents del mes N (where isDeleted != true)
-  // Nota: NO filtramos por isDeleted en la query porque eventos legacy no tienen ese campo
-  // Tampoco usamos orderBy() para evitar necesidad de índice compuesto
-  const eventsSnapshot = await db
-    .collection("panels")
-    .doc(panelId)
-    .collection("panelEvents")
-    .where("monthKey", "==", monthKey)
-    .get();
-
-  // Filtrar eventos eliminados Y ordenar en memoria (evita índice compuesto)
-  const validEvents = eventsSnapshot.docs
-    .filter(doc => doc.data().isDeleted !== true)
-    .sort((a, b) => {
-      const getMillis = (d: FirebaseFirestore.QueryDocumentSnapshot) => {
-        const data = d.data() as any;
-        const eff = data.effectiveDate;
-        if (eff && typeof eff.toMillis === "function") {
-          try { return eff.toMillis(); } catch { /* noop */ }
-        }
-        const local: string | undefined = data.effectiveDateLocal;
-        const ms = local ? Date.parse(local) : NaN;
-        return Number.isNaN(ms) ? 0 : ms;
-      };
-      return getMillis(a) - getMillis(b);
-    });
-
-  functions.logger.info(`[recalculatePanelMonth] Eventos encontrados: ${validEvents.length} (${eventsSnapshot.size} total)`);
-
-  // 3. Aplicar las reglas de prorrateo calculando períodos de actividad
-  let currentState = { ...initialState };
-  let currentImporte = 0;
-  let panelDoc: any = null;
-
-  // Nuevo algoritmo: calcular períodos activos entre eventos
-  let estadoActual = initialState.estadoAlCierre; // Estado heredado del mes anterior
-  let periodos: Array<{ inicio: number; fin: number }> = [];
-  let ultimoCambio = 1; // Día donde empieza el período actual
-
-  // CASO ESPECIAL: Si hay un evento ALTA_INICIAL, el panel NO estaba activo antes
-  // Resetear estado a BAJA hasta que ocurra el ALTA_INICIAL
-  const hasAltaInicial = validEvents.some(doc => {
-    const data = doc.data() as PanelEventData;
-    return data.action === "ALTA_INICIAL";
-  });
-
-  if (hasAltaInicial) {
-    estadoActual = "BAJA"; // El panel NO estaba activo antes del ALTA_INICIAL
-    functions.logger.info(
-      `[recalculatePanelMonth] Detectado ALTA_INICIAL: Estado inicial ajustado a BAJA (panel no existía antes)`
-    );
-  } else {
-    functions.logger.info(
-      `[recalculatePanelMonth] Estado inicial heredado: ${estadoActual}`
-    );
-  }
-
-  // Si el panel inicia el mes ACTIVO y no hay eventos, facturar todo el mes
-  if (validEvents.length === 0) {
-    if (estadoActual === "ACTIVO") {
-      periodos.push({ inicio: 1, fin: 30 });
-      functions.logger.info(
-        `[recalculatePanelMonth] Sin eventos: Panel ACTIVO heredado, facturando mes completo (30 días)`
-      );
-    } else {
-      functions.logger.info(
-        `[recalculatePanelMonth] Sin eventos: Panel ${estadoActual} heredado, sin facturación`
-      );
-    }
-    // Mantener el estado heredado del mes anterior
-    currentState.estadoAlCierre = estadoActual;
-  } else {
-    // Procesar eventos cronológicamente para determinar períodos activos
-    for (const eventDoc of validEvents) {
-      const event = eventDoc.data() as PanelEventData;
-      const dayOfMonth = getDayOfMonth(event.effectiveDateLocal);
-
-      functions.logger.info(
-        `[recalculatePanelMonth] Procesando evento: ${event.action} (día ${dayOfMonth}), estado previo: ${estadoActual}`
-      );
-
-      // LÓGICA DE PERÍODOS ACTIVOS
-      if (["ALTA", "ALTA_INICIAL", "REINSTALACION"].includes(event.action)) {
-        // Si estaba DESMONTADO/BAJA antes, empezar nuevo período ACTIVO desde este día
-        // Si estaba ACTIVO antes, NO hacer nada (ya está facturando)
-        if (estadoActual !== "ACTIVO") {
-          estadoActual = "ACTIVO";
-          ultimoCambio = dayOfMonth; // Nuevo período comienza este día
-          currentState.estadoAlCierre = "ACTIVO";
-        }
-      } else if (["DESMONTADO", "DESMONTAJE", "BAJA"].includes(event.action)) {
-        // Si estaba ACTIVO, facturar desde el inicio del período hasta el día del desmontaje (inclusive)
-        // REGLA CRÍTICA: DESMONTAJE/BAJA el día X SÍ factura el día X
-        // El panel se desmonta a las 23:59, por lo que el día completo debe facturarse
-        // - ALTA día 10, BAJA día 10 → 1 día (el día 10 completo)
-        // - ALTA día 10, BAJA día 11 → 2 días (días 10 y 11)
-        // - ALTA día 10, BAJA día 12 → 3 días (días 10, 11 y 12)
-        if (estadoActual === "ACTIVO" && ultimoCambio <= dayOfMonth) {
-          periodos.push({ inicio: ultimoCambio, fin: dayOfMonth });
-        }
-        // Cambiar a DESMONTADO/BAJA
-        estadoActual = event.action === "BAJA" ? "BAJA" : "DESMONTADO";
-        ultimoCambio = dayOfMonth + 1; // Siguiente día ya no factura
-        currentState.estadoAlCierre = estadoActual;
-      } else if (event.action === "CAMBIO_TARIFA") {
-        // Actualizar tarifa sin afectar períodos
-        const nuevaTarifa = event.snapshotAfter?.tarifaBaseMes ?? event.snapshotAfter?.tarifaAplicada;
-        if (nuevaTarifa !== undefined) {
-          currentState.tarifaAplicada = nuevaTarifa;
-          functions.logger.info(
-            `[recalculatePanelMonth] Tarifa actualizada a: ${currentState.tarifaAplicada}`
-          );
-        }
-      } else if (event.action === "AJUSTE_MANUAL") {
-        // Ajuste manual de importe
-        if (event.snapshotAfter?.importeAjuste !== undefined) {
-          currentImporte += event.snapshotAfter.importeAjuste;
-          functions.logger.info(
-            `[recalculatePanelMonth] Ajuste manual aplicado: ${event.snapshotAfter.importeAjuste}`
-          );
-        }
-      } else if (event.action === "INTERVENCION") {
-        // Intervención puntual: suma el importe sin afectar estado ni períodos
-        // Estas intervenciones son "stateless" y solo afectan a la facturación del mes actual
-        const importeIntervencion = event.snapshotAfter?.importeAjuste || 0;
-        currentImporte += importeIntervencion;
-        
-        // Log con detalles de la intervención para auditoría
-        const tipoIntervencion = (event as any).tipoIntervencion || "N/A";
-        const concepto = (event as any).concepto || "Sin descripción";
-        
-        functions.logger.info(
-          `[recalculatePanelMonth] Intervención aplicada: ${importeIntervencion}€ ` +
-          `(Tipo: ${tipoIntervencion}, Concepto: "${concepto}", Estado panel: ${estadoActual})`
-        );
-        
-        // Validación: advertir si la intervención ocurre en un panel inactivo
-        if (estadoActual === "BAJA" || estadoActual === "DESMONTADO") {
-          functions.logger.warn(
-            `[recalculatePanelMonth] ⚠️ Intervención registrada en panel con estado ${estadoActual} ` +
-            `(día ${dayOfMonth}). Verificar si es correcto.`
-          );
-        }
-      }
-    }
-
-    // Si termina el mes ACTIVO, facturar hasta el día 30
-    if (estadoActual === "ACTIVO" && ultimoCambio <= 30) {
-      periodos.push({ inicio: ultimoCambio, fin: 30 });
-    }
-  }
-
-  // Calcular total de días facturables sumando todos los períodos
-  let currentDiasFacturables = 0;
-  for (const periodo of periodos) {
-    const dias = periodo.fin - periodo.inicio + 1;
-    currentDiasFacturables += dias;
-    functions.logger.info(
-      `[recalculatePanelMonth] Período activo: días ${periodo.inicio}-${periodo.fin} = ${dias} días`
-    );
-  }
-
-  // Aplicar tope máximo de 30 días
-  currentDiasFacturables = Math.min(currentDiasFacturables, 30);
-
-  // Calcular el importe total según los días y la tarifa
-  currentImporte += calculateImporte(currentDiasFacturables, currentState.tarifaAplicada);
-
-  currentState.totalDiasFacturables = currentDiasFacturables;
-  
-  // Normalizar a 2 decimales para evitar basura decimal en Firestore
-  // Protege contra ajustes manuales con redondeo extraño (edge cases)
-  currentState.totalImporte = Math.round(currentImporte * 100) / 100;
-
-  functions.logger.info(
-    `[recalculatePanelMonth] Resultado: ${currentDiasFacturables} días, ${currentState.totalImporte.toFixed(2)}€, estado: ${currentState.estadoAlCierre}`
-  );
-
-  // 4. Leer el panel para obtener datos denormalizados (código, municipio)
-  if (!panelDoc) {
-    panelDoc = await db.collection("panels").doc(panelId).get();
-  }
-
-  if (!panelDoc.exists) {
-    throw new Error(`Panel ${panelId} no encontrado`);
-  }
-
-  const panelData = panelDoc.data()!;
-
-  // Obtener el nombre del municipio (si existe una colección municipalities)
+  // 0-3. Calcular el mes (lecturas + prorrateo)
+  const {
+    panelData,
+    resolvedRate,
+    contratoId,
+    modoProrrateo,
+    diasMes,
+    previousMonthKey,
+    initialState,
+    eventIds,
+    state: currentState,
+    importeRectificaciones,
+    importeServicios,
+    desglose,
+    tramosTarifa,
+  } = await computePanelMonth(panelId, monthKey);
+
+  // 4. Obtener el nombre del municipio (si existe una colección municipalities)
   let municipioNombre = panelData.municipioId; // Fallback: usar el ID
 
   try {
@@ -328,6 +129,10 @@ export async function recalculatePanelMonth(
   const currentMonthKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
   const shouldUpdatePanelState = monthKey >= currentMonthKey; // Solo actualizar si es mes actual o futuro
 
+  // Código del mes: los meses anteriores a una renumeración conservan el código antiguo
+  const codigo = codigoForMonth(panelData, monthKey);
+  const otrosCodigos = otherCodigos(panelData, codigo);
+
   await db.runTransaction(async (transaction) => {
     const billingDocId = `${panelId}_${monthKey}`;
     const billingRef = db.collection("billingMonthlyPanel").doc(billingDocId);
@@ -337,16 +142,52 @@ export async function recalculatePanelMonth(
     transaction.set(billingRef, {
       panelId,
       monthKey,
-      codigo: panelData.codigo,
+      codigo,
+      ...(otrosCodigos.length > 0 ? { otrosCodigos } : {}),
+      municipioId: panelData.municipioId,
       municipio: municipioNombre,
       totalDiasFacturables: currentState.totalDiasFacturables,
       totalImporte: currentState.totalImporte,
       estadoAlCierre: currentState.estadoAlCierre,
       tarifaAplicada: currentState.tarifaAplicada,
+      contratoId,
+      origenTarifa: resolvedRate.source,
+      modoProrrateo,
+      diasMes,
+      importeRectificaciones: Math.round(importeRectificaciones * 100) / 100,
+      importeServicios: Math.round(importeServicios * 100) / 100,
+      desglose,
+      tramosTarifa,
       updatedAt: admin.firestore.Timestamp.now(),
       schemaVersion: 1,
     });
 
+    // Revisión inmutable del cálculo (permite reconstruir el mes en cualquier fecha)
+    const revision = buildBillingRevision({
+      panelId,
+      monthKey,
+      codigo,
+      municipio: municipioNombre,
+      source: "recalculatePanelMonth",
+      inputs: {
+        eventIds,
+        previousMonthKey,
+        estadoInicial: initialState.estadoAlCierre,
+        tarifaInicial: initialState.tarifaAplicada,
+        modoProrrateo,
+        diasMes,
+      },
+      outputs: {
+        totalDiasFacturables: currentState.totalDiasFacturables,
+        totalImporte: currentState.totalImporte,
+        estadoAlCierre: currentState.estadoAlCierre,
+        tarifaAplicada: currentState.tarifaAplicada,
+        desglose,
+        tramosTarifa,
+      },
+    });
+    transaction.set(revision.ref, revision.data);
+
     // Actualizar el estado actual del panel SOLO si estamos en el mes actual o futuro
     if (shouldUpdatePanelState) {
       transaction.update(panelRef, {
@@ -367,60 +208,249 @@ export async function recalculatePanelMonth(
     functions.logger.info(`[recalculatePanelMonth] billingSummary actualizado para ${monthKey}`);
   } catch (summaryError) {
     functions.logger.error(`[recalculatePanelMonth] Error al actualizar summary:`, summaryError);
-    // No propagamos el error para no fallar todo el proceso
+    // No propagamos el error para no fallar todo el proceso: la cola lo reintenta
+    try {
+      await enqueueTask("update-summary", { monthKey }, { taskId: monthKey.replace("-", "") });
+    } catch (enqueueError) {
+      functions.logger.error(`[recalculatePanelMonth] Error al encolar update-summary:`, enqueueError);
+    }
   }
 
   functions.logger.info(`[recalculatePanelMonth] Recálculo completado para ${panelId} / ${monthKey}`);
 }
 
 /**
- * Encola una tarea en Cloud Tasks para actualizar el billingSummary del mes.
- * 
- * @param monthKey - Mes a actualizar en formato YYYY-MM
+ * Recalcula el mes N de un panel y propaga el resultado hacia delante
+ *
+ * Cada mes hereda estado y tarifa del cierre del anterior, así que tras tocar N
+ * se recalculan en orden los meses posteriores que ya existen para el panel
+ * (N+1, N+2…). La cascada se detiene en el primer mes cerrado: desde ahí las
+ * diferencias van como rectificación.
+ *
+ * @param panelId - ID del panel
+ * @param monthKey - Mes modificado en formato YYYY-MM
+ * @return Meses posteriores actualizados y primer mes cerrado encontrado
  */
-async function enqueueUpdateSummaryTask(monthKey: string): Promise<void> {
-  const project = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT;
-  const location = "europe-west1";
-  const queue = "update-summary";
+export async function recalculatePanelMonthCascade(
+  panelId: string,
+  monthKey: string
+): Promise<PanelCascadeResult> {
+  const db = admin.firestore();
 
-  if (!project) {
-    throw new Error("No se pudo determinar el ID del proyecto (GCLOUD_PROJECT)");
+  await recalculatePanelMonth(panelId, monthKey);
+
+  // Meses posteriores con facturación del panel (solo igualdad: no requiere índice compuesto)
+  const billingSnapshot = await db
+    .collection("billingMonthlyPanel")
+    .where("panelId", "==", panelId)
+    .get();
+  const laterMonths = billingSnapshot.docs
+    .map((doc) => doc.data().monthKey as string)
+    .filter((laterMonthKey) => laterMonthKey > monthKey)
+    .sort();
+
+  const result: PanelCascadeResult = { updatedMonths: [], lockedMonth: null };
+
+  for (const laterMonthKey of laterMonths) {
+    const summaryDoc = await db.collection("billingSummary").doc(laterMonthKey).get();
+    if (summaryDoc.exists && summaryDoc.data()?.isLocked === true) {
+      result.lockedMonth = laterMonthKey;
+      functions.logger.info(
+        `[recalculatePanelMonthCascade] ${panelId}: cascada detenida en ${laterMonthKey} (mes cerrado)`
+      );
+      break;
+    }
+
+    await recalculatePanelMonth(panelId, laterMonthKey);
+    result.updatedMonths.push(laterMonthKey);
   }
 
-  const parent = tasksClient.queuePath(project, location, queue);
-  const url = `https://${location}-${project}.cloudfunctions.net/updateSummaryTask`;
-
-  // Usamos monthKey como taskId para deduplicación
-  // Si hay múltiples recálculos en el mismo mes, solo se encola una tarea de summary
-  const task = {
-    name: `${parent}/tasks/${monthKey.replace("-", "")}`, // "2025-11" -> "202511"
-    httpRequest: {
-      httpMethod: "POST" as const,
-      url,
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: Buffer.from(
-        JSON.stringify({
-          monthKey,
-        })
-      ).toString("base64"),
-      oidcToken: {
-        serviceAccountEmail: `${project}@appspot.gserviceaccount.com`,
-      },
+  if (result.updatedMonths.length > 0) {
+    functions.logger.info(
+      `[recalculatePanelMonthCascade] ${panelId} / ${monthKey}: también recalculados ` +
+      result.updatedMonths.join(", ")
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Recalcula (con cascada) el mes de un evento recién creado, editado o borrado
+ *
+ * Se recalcula en línea para devolver los totales en la respuesta; la tarea
+ * process-panel-event solo se encola si ese recálculo falla, para que la cola
+ * lo reintente. Nunca las dos cosas: cada recálculo escribe sus revisiones.
+ *
+ * @param payload - Payload de process-panel-event
+ * @param monthKey - Mes del evento
+ * @param taskId - taskId de la tarea si hay que encolarla
+ * @return Resultado de la cascada, o undefined si se encoló la tarea
+ */
+export async function recalculatePanelEvent(
+  payload: TaskPayloads["process-panel-event"],
+  monthKey: string,
+  taskId: string
+): Promise<PanelCascadeResult | undefined> {
+  try {
+    return await recalculatePanelMonthCascade(payload.panelId, monthKey);
+  } catch (recalcError) {
+    functions.logger.error(
+      `[recalculatePanelEvent] Error al recalcular ${payload.panelId} / ${monthKey}, se encola la tarea:`,
+      recalcError
+    );
+  }
+
+  try {
+    await enqueueTask("process-panel-event", payload, { taskId });
+    functions.logger.info(`[recalculatePanelEvent] Tarea encolada con taskId: ${taskId}`);
+  } catch (error) {
+    // El evento ya está guardado: la tarea puede reencolarse manualmente
+    functions.logger.error("[recalculatePanelEvent] Error al encolar la tarea:", error);
+  }
+  return undefined;
+}
+
+/**
+ * Calcula la facturación de un panel en un mes sin escribir nada (pasos 0-3)
+ *
+ * Lo usa recalculatePanelMonth antes de guardar y la vista previa de
+ * requestPanelChange, que añade el evento propuesto con `overrides.extraEvents`
+ * y encadena el mes siguiente con `overrides.previousBilling`.
+ *
+ * @param panelId - ID del panel
+ * @param monthKey - Mes en formato YYYY-MM
+ * @param overrides - Eventos adicionales y/o mes anterior sustituido
+ */
+export async function computePanelMonth(
+  panelId: string,
+  monthKey: string,
+  overrides: PanelMonthOverrides = {}
+): Promise<PanelMonthComputation> {
+  const db = admin.firestore();
+
+  // 0. Leer el panel: su código y municipio determinan el contrato aplicable
+  const panelDoc = await db.collection("panels").doc(panelId).get();
+  if (!panelDoc.exists) {
+    throw new Error(`Panel ${panelId} no encontrado`);
+  }
+  const panelData = panelDoc.data()!;
+
+  // Tarifa del mes: contrato vigente del panel o, si no hay, tarifa estándar del año
+  const targetYear = monthKey.split("-")[0];
+  const resolvedRate = await resolveRateForPanelMonth(
+    {
+      codigo: panelData.codigo,
+      codigosAnteriores: panelData.codigosAnteriores,
+      municipioId: panelData.municipioId,
     },
+    monthKey
+  );
+  const standardRate = resolvedRate.importe;
+  const contratoId = resolvedRate.source === "CONTRATO" ? resolvedRate.contractId : null;
+  functions.logger.info(
+    `[recalculatePanelMonth] Tarifa base para ${monthKey}: ${standardRate}€ ` +
+    `(${resolvedRate.source === "CONTRATO" ? `contrato ${resolvedRate.contractCodigo}` : "tarifa estándar"})`
+  );
+
+  // 0.1 Modo de prorrateo del año: COMERCIAL_30 (30 días) o NATURAL (días reales del mes)
+  const modoProrrateo = await getProrationModeForYear(targetYear);
+  const diasMes = getBillingDaysInMonth(monthKey, modoProrrateo);
+  functions.logger.info(`[recalculatePanelMonth] Modo de prorrateo ${modoProrrateo}: mes completo = ${diasMes} días`);
+
+  // 1. Leer el billingMonthlyPanel del mes anterior (N-1) para obtener el estado inicial
+  const previousMonthKey = getPreviousMonthKey(monthKey);
+  let prevData: FirebaseFirestore.DocumentData | null;
+  if (overrides.previousBilling !== undefined) {
+    prevData = overrides.previousBilling;
+  } else {
+    const previousBillingDoc = await db
+      .collection("billingMonthlyPanel")
+      .doc(`${panelId}_${previousMonthKey}`)
+      .get();
+    prevData = previousBillingDoc.exists ? previousBillingDoc.data()! : null;
+  }
+
+  // 2. Leer todos los panelEvents del mes N (where isDeleted != true)
+  // Nota: NO filtramos por isDeleted en la query porque eventos legacy no tienen ese campo
+  // Tampoco usamos orderBy() para evitar necesidad de índice compuesto
+  const eventsSnapshot = await db
+    .collection("panels")
+    .doc(panelId)
+    .collection("panelEvents")
+    .where("monthKey", "==", monthKey)
+    .get();
+
+  // Filtrar eventos eliminados Y ordenar en memoria (evita índice compuesto)
+  // Los eventos propuestos (vista previa) se añaden al final: en empate de fecha van detrás
+  const storedEvents = eventsSnapshot.docs
+    .filter(doc => doc.data().isDeleted !== true)
+    .map(doc => ({ id: doc.id, data: doc.data() as PanelEventData }));
+  const validEvents = [...storedEvents, ...(overrides.extraEvents || [])]
+    .sort((a, b) => getEventMillis(a.data) - getEventMillis(b.data));
+
+  functions.logger.info(`[recalculatePanelMonth] Eventos encontrados: ${validEvents.length} (${eventsSnapshot.size} total)`);
+
+  // 3. Aplicar las reglas de prorrateo (motor puro)
+  const result = computeBillingMonth({
+    monthKey,
+    previous: prevData ? {
+      monthKey: previousMonthKey,
+      estadoAlCierre: prevData.estadoAlCierre,
+      tarifaAplicada: prevData.tarifaAplicada,
+      contratoId: prevData.contratoId,
+      desglose: prevData.desglose,
+    } : null,
+    rate: { importe: standardRate, servicios: resolvedRate.servicios, contratoId },
+    modoProrrateo,
+    diasMes,
+    events: validEvents.map(({ id, data }) => ({ ...data, id })),
+  });
+
+  for (const entry of result.trace) {
+    functions.logger[entry.level](`[recalculatePanelMonth] ${entry.message}`);
+  }
+  functions.logger.info(
+    `[recalculatePanelMonth] Resultado: ${result.totalDiasFacturables} días, ` +
+    `${result.totalImporte.toFixed(2)}€, estado: ${result.estadoAlCierre}`
+  );
+
+  return {
+    panelData,
+    resolvedRate,
+    contratoId,
+    modoProrrateo,
+    diasMes,
+    previousMonthKey: prevData ? previousMonthKey : null,
+    initialState: {
+      totalDiasFacturables: 0,
+      totalImporte: 0,
+      ...result.initialState,
+    },
+    eventIds: validEvents.map((doc) => doc.id),
+    periodos: result.periodos,
+    tramosTarifa: result.tramosTarifa,
+    state: {
+      totalDiasFacturables: result.totalDiasFacturables,
+      totalImporte: result.totalImporte,
+      estadoAlCierre: result.estadoAlCierre,
+      tarifaAplicada: result.tarifaAplicada,
+    },
+    importeRectificaciones: result.importeRectificaciones,
+    importeServicios: result.importeServicios,
+    desglose: result.desglose,
   };
+}
 
-  try {
-    await tasksClient.createTask({ parent, task });
-    functions.logger.info(`[enqueueUpdateSummaryTask] Tarea encolada para mes ${monthKey}`);
-  } catch (error: any) {
-    // Si la tarea ya existe (mismo taskId), no es un error
-    if (error.code === 6) {
-      // ALREADY_EXISTS
-      functions.logger.info(`[enqueueUpdateSummaryTask] Tarea ya existe para mes ${monthKey} (OK)`);
-    } else {
-      throw error;
-    }
+/**
+ * Fecha efectiva de un evento en milisegundos (Timestamp o, en su defecto, effectiveDateLocal)
+ */
+function getEventMillis(data: PanelEventData): number {
+  const eff = (data as any).effectiveDate;
+  if (eff && typeof eff.toMillis === "function") {
+    try { return eff.toMillis(); } catch { /* noop */ }
   }
+  const ms = data.effectiveDateLocal ? Date.parse(data.effectiveDateLocal) : NaN;
+  return Number.isNaN(ms) ? 0 : ms;
+
 }
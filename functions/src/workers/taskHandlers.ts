@@ -0,0 +1,142 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import { recalculatePanelMonthCascade } from "./recalculatePanelMonth";
+import { recalculateSummary } from "../lib/summaryCalculations";
+import {
+  PermanentTaskError,
+  TASK_QUEUES,
+  TaskPayloads,
+  TaskQueueName,
+  recordDeadLetter,
+} from "../lib/taskQueue";
+
+type TaskHandlers = {
+  [Q in TaskQueueName]: (payload: TaskPayloads[Q]) => Promise<Record<string, unknown>>;
+};
+
+/**
+ * Handlers de cada cola. Los usan tanto las funciones HTTP de Cloud Tasks
+ * (processPanelEventTask, updateSummaryTask) como el backend local de lib/taskQueue.
+ * Un PermanentTaskError manda la tarea a taskDeadLetters sin más reintentos.
+ */
+const TASK_HANDLERS: TaskHandlers = {
+  "process-panel-event": async ({ panelId, eventId, idempotencyKey }) => {
+    if (!panelId || !eventId || !idempotencyKey) {
+      throw new PermanentTaskError("Payload incompleto (panelId, eventId, idempotencyKey)");
+    }
+
+    const eventDoc = await admin.firestore()
+      .collection("panels")
+      .doc(panelId)
+      .collection("panelEvents")
+      .doc(eventId)
+      .get();
+    if (!eventDoc.exists) {
+      throw new PermanentTaskError(`Evento ${eventId} no encontrado`);
+    }
+
+    const monthKey = eventDoc.data()!.monthKey;
+    if (!monthKey) {
+      throw new PermanentTaskError(`Evento ${eventId} no tiene monthKey`);
+    }
+
+    // Recálculo del mes con cascada a los meses posteriores abiertos
+    const cascade = await recalculatePanelMonthCascade(panelId, monthKey);
+    functions.logger.info(`[processPanelEventTask] Recálculo completado para panel ${panelId} / ${monthKey}`);
+
+    return { panelId, eventId, monthKey, cascade };
+  },
+
+  "update-summary": async ({ monthKey }) => {
+    if (!monthKey || !/^\d{4}-\d{2}$/.test(monthKey)) {
+      throw new PermanentTaskError(`monthKey inválido: ${monthKey}`);
+    }
+
+    // Sobrescribe billingSummary con agregados exactos (sin FieldValue.increment)
+    await recalculateSummary(monthKey);
+    functions.logger.info(`[updateSummaryTask] billingSummary actualizado para ${monthKey}`);
+
+    return { monthKey };
+  },
+};
+
+/**
+ * Ejecuta el handler de una cola
+ * @param queue - Nombre de la cola
+ * @param payload - Payload tipado
+ */
+export async function runTaskHandler<Q extends TaskQueueName>(
+  queue: Q,
+  payload: TaskPayloads[Q],
+): Promise<Record<string, unknown>> {
+  const handler = TASK_HANDLERS[queue] as (payload: TaskPayloads[Q]) => Promise<Record<string, unknown>>;
+  return handler(payload);
+}
+
+/**
+ * Atiende una petición de Cloud Tasks para la cola indicada
+ *
+ * - 200 si la tarea termina bien
+ * - 500 para que Cloud Tasks reintente (con el backoff de la cola)
+ * - En el último intento, o si el error es permanente, la tarea se guarda en
+ *   taskDeadLetters y se responde 200 para que Cloud Tasks no siga reintentando
+ *
+ * @param queue - Nombre de la cola
+ * @param req - Request de Cloud Tasks
+ * @param res - Response
+ */
+export async function handleTaskRequest(
+  queue: TaskQueueName,
+  req: functions.https.Request,
+  res: functions.Response,
+): Promise<void> {
+  if (req.method !== "POST") {
+    res.status(405).send("Method Not Allowed");
+    return;
+  }
+
+  // Autenticación: Firebase valida el OIDC token configurado en la tarea
+
+  // Cloud Tasks entrega el body ya decodificado; con Content-Type JSON llega parseado
+  let payload: TaskPayloads[typeof queue];
+  try {
+    payload = Buffer.isBuffer(req.body) || typeof req.body === "string" ?
+      JSON.parse(req.body.toString("utf-8")) :
+      req.body;
+  } catch (error) {
+    functions.logger.error(`[${queue}] Error al parsear el payload:`, error);
+    res.status(400).send("Bad Request: Invalid payload");
+    return;
+  }
+
+  const retryCount = Number(req.get("X-CloudTasks-TaskRetryCount") || 0);
+  const attempts = retryCount + 1;
+  const taskId = req.get("X-CloudTasks-TaskName") || null;
+
+  try {
+    const result = await runTaskHandler(queue, payload);
+    res.status(200).send({ success: true, ...result });
+  } catch (error) {
+    const permanent = error instanceof PermanentTaskError;
+    const config = TASK_QUEUES[queue];
+
+    if (permanent || attempts >= config.maxAttempts) {
+      const deadLetterId = await recordDeadLetter(queue, payload, {
+        taskId,
+        attempts,
+        error: error as Error,
+        backend: "CLOUD_TASKS",
+      });
+      res.status(200).send({ success: false, deadLetterId, message: (error as Error).message });
+      return;
+    }
+
+    functions.logger.error(`[${queue}] Intento ${attempts}/${config.maxAttempts} falló:`, error);
+    // 500 para que Cloud Tasks reintente la tarea
+    res.status(500).send({
+      success: false,
+      error: "Internal Server Error",
+      message: (error as Error).message,
+    });
+  }
+}
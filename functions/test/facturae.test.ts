@@ -0,0 +1,137 @@
+/**
+ * Tests de la exportación Facturae 3.2.2
+ * Una factura emitida y una rectificativa de ejemplo: buildFacturaeXml → validateFacturaeXml (XSD oficial)
+ */
+
+import * as admin from "firebase-admin";
+import { Dir3Codes, buildFacturaeXml, validateFacturaeXml } from "../src/lib/facturae";
+import { FiscalParty, Invoice } from "../src/lib/invoicing";
+
+const EMISOR: FiscalParty = {
+  nif: "B12345678",
+  razonSocial: "PIV Manager S.L.",
+  direccion: "Calle Mayor 1",
+  codigoPostal: "28001",
+  municipio: "Madrid",
+  provincia: "Madrid",
+  pais: "ESP",
+};
+
+const RECEPTOR: FiscalParty = {
+  nif: "P2800500A",
+  razonSocial: "Ayuntamiento de Alcalá de Henares",
+  direccion: "Plaza de Cervantes 12",
+  codigoPostal: "28801",
+  municipio: "Alcalá de Henares",
+  provincia: "Madrid",
+  pais: "ESP",
+};
+
+const DIR3: Dir3Codes = { oficinaContable: "L01280053", organoGestor: "L01280053", unidadTramitadora: "L01280053" };
+
+const ORDINARIA: Invoice = {
+  numero: "F2025-000001",
+  serie: "F",
+  year: 2025,
+  secuencia: 1,
+  tipo: "ORDINARIA",
+  monthKey: "2025-09",
+  municipioId: "alcala",
+  municipio: RECEPTOR.municipio,
+  emisor: EMISOR,
+  receptor: RECEPTOR,
+  lineas: [
+    {
+      tipo: "SERVICIO",
+      panelId: "panel-activo",
+      codigo: "06948",
+      eventId: null,
+      servicioId: "base",
+      concepto: "Panel 06948 - servicio base (30/30 días)",
+      cantidad: 30,
+      precioUnitario: 37.7,
+      importe: 37.7,
+    },
+    {
+      tipo: "INTERVENCION",
+      panelId: "panel-activo",
+      codigo: "06948",
+      eventId: "evento-1",
+      concepto: "Panel 06948 - sustitución de pantalla <urgente> & revisión",
+      cantidad: 1,
+      precioUnitario: 120,
+      importe: 120,
+    },
+  ],
+  baseImponible: 157.7,
+  ivaPorcentaje: 21,
+  cuotaIva: 33.12,
+  total: 190.82,
+  fechaEmision: admin.firestore.Timestamp.fromDate(new Date("2025-10-01T08:00:00Z")),
+  createdBy: "admin@test.com",
+  rectifica: null,
+};
+
+const RECTIFICATIVA: Invoice = {
+  ...ORDINARIA,
+  numero: "R2025-000001",
+  serie: "R",
+  tipo: "RECTIFICATIVA",
+  lineas: [
+    {
+      ...ORDINARIA.lineas[0],
+      concepto: "Regularización: Panel 06948 - servicio base (20/30 días)",
+      cantidad: -10,
+      importe: -12.57,
+    },
+  ],
+  baseImponible: -12.57,
+  cuotaIva: -2.64,
+  total: -15.21,
+  fechaEmision: admin.firestore.Timestamp.fromDate(new Date("2025-10-15T08:00:00Z")),
+  rectifica: { invoiceId: "F2025-000001", numero: "F2025-000001", modo: "RECALCULO", motivo: "Días corregidos" },
+};
+
+const CASOS: Array<{ nombre: string; invoice: Invoice }> = [
+  { nombre: "Factura ordinaria (servicio + intervención)", invoice: ORDINARIA },
+  { nombre: "Rectificativa por diferencias (importe negativo)", invoice: RECTIFICATIVA },
+];
+
+/**
+ * Genera el XML del caso y lo valida contra el XSD
+ */
+async function ejecutarCaso(caso: { nombre: string; invoice: Invoice }): Promise<boolean> {
+  const result = await validateFacturaeXml(buildFacturaeXml(caso.invoice, DIR3));
+
+  console.log(`${result.valid ? "✅" : "❌"} ${caso.nombre}`);
+  if (!result.valid) {
+    console.error(result.errors.join("\n"));
+    process.exitCode = 1;
+  }
+  return result.valid;
+}
+
+/**
+ * Ejecuta todos los casos en orden (el XSD se carga una vez)
+ */
+async function main() {
+  console.log("🧪 TESTS DE FACTURAE 3.2.2 - PIV Manager");
+  console.log("==============================================");
+
+  let fallidos = 0;
+  for (const caso of CASOS) {
+    if (!(await ejecutarCaso(caso))) fallidos++;
+  }
+
+  console.log("\n==============================================");
+  console.log(
+    fallidos === 0 ?
+      `✅ TODOS LOS TESTS PASADOS (${CASOS.length} casos)` :
+      `❌ ${fallidos} de ${CASOS.length} casos fallidos`
+  );
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,132 @@
+/**
+ * Integración - aprobaciones a cuatro ojos (approvalRequests / resolveApprovalRequest)
+ * Solicitud con impacto, aprobación por un segundo admin, rechazo, cancelación y caducidad
+ */
+
+import * as admin from "firebase-admin";
+import { CALLERS, IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite, seed } from "./harness";
+import { MES_ABIERTO, PANEL_NUEVO, baseFixtures } from "./fixtures";
+import { ApprovalRequest, ApprovalRequestCreated } from "../../src/lib/approvals";
+
+const EVENTO_ALTA = `panels/${PANEL_NUEVO.id}/panelEvents/alta-panel-nuevo`;
+
+/** Respuesta de resolveApprovalRequest (resultado: respuesta de deleteAllPanelEvents) */
+interface ResolveResult {
+  estado: string;
+  resultado?: { deleted: number };
+}
+
+/** Solicita eliminar los eventos de octubre del panel nuevo (1 evento, 18,85€) */
+const solicitarBorradoEventos = (role: "admin" | "editor" = "admin") =>
+  callAs<ApprovalRequestCreated>("deleteAllPanelEvents", role, {
+    panelId: PANEL_NUEVO.id,
+    monthKey: MES_ABIERTO,
+    motivo: "Alta duplicada",
+  });
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Solicitud → PENDIENTE con impacto calculado y nada borrado",
+    run: async () => {
+      const result = await solicitarBorradoEventos();
+      check(result.pendingApproval === true, "debe quedar pendiente de aprobación");
+      check(result.impacto.eventos === 1, `eventos ${result.impacto.eventos}`);
+      check(result.impacto.importeEliminado === 18.85, `importeEliminado ${result.impacto.importeEliminado}`);
+
+      const request = await readDoc(`approvalRequests/${result.approvalRequestId}`);
+      check(request?.estado === "PENDIENTE", `estado ${request?.estado}`);
+      check(request?.requestedBy === CALLERS.admin.email, `requestedBy ${request?.requestedBy}`);
+      check(request?.motivo === "Alta duplicada", `motivo ${request?.motivo}`);
+      check((await readDoc(EVENTO_ALTA))?.isDeleted === false, "el evento no debe borrarse sin aprobación");
+    },
+  },
+  {
+    nombre: "El propio solicitante no puede aprobar → permission-denied",
+    run: async () => {
+      const { approvalRequestId } = await solicitarBorradoEventos();
+      await expectHttpsError(
+        callAs("resolveApprovalRequest", "admin", { requestId: approvalRequestId, decision: "APROBAR" }),
+        "permission-denied",
+      );
+      check((await readDoc(`approvalRequests/${approvalRequestId}`))?.estado === "PENDIENTE", "debe seguir pendiente");
+    },
+  },
+  {
+    nombre: "Editor no puede aprobar → permission-denied",
+    run: async () => {
+      const { approvalRequestId } = await solicitarBorradoEventos();
+      await expectHttpsError(
+        callAs("resolveApprovalRequest", "editor", { requestId: approvalRequestId, decision: "APROBAR" }),
+        "permission-denied",
+      );
+    },
+  },
+  {
+    nombre: "Segundo admin aprueba → EJECUTADA, evento eliminado y no se puede volver a aprobar",
+    run: async () => {
+      const { approvalRequestId } = await solicitarBorradoEventos("editor");
+      const result = await callAs<ResolveResult>("resolveApprovalRequest", "admin2", {
+        requestId: approvalRequestId,
+        decision: "APROBAR",
+        comentario: "Revisado",
+      });
+      check(result.estado === "EJECUTADA", `estado ${result.estado}`);
+      check(result.resultado?.deleted === 1, `deleted ${result.resultado?.deleted}`);
+
+      const evento = await readDoc(EVENTO_ALTA);
+      check(evento?.isDeleted === true, "el evento debe quedar eliminado");
+      check(evento?.deletedBy === CALLERS.admin2.email, `deletedBy ${evento?.deletedBy}`);
+
+      const request = await readDoc(`approvalRequests/${approvalRequestId}`) as ApprovalRequest | undefined;
+      check(request?.resolvedBy === CALLERS.admin2.email, `resolvedBy ${request?.resolvedBy}`);
+      const estados = request?.historial.map((entry) => entry.estado).join(",");
+      check(estados === "PENDIENTE,APROBADA,EJECUTADA", `historial ${estados}`);
+
+      await expectHttpsError(
+        callAs("resolveApprovalRequest", "admin", { requestId: approvalRequestId, decision: "APROBAR" }),
+        "failed-precondition",
+      );
+    },
+  },
+  {
+    nombre: "Segundo admin rechaza → RECHAZADA y evento intacto",
+    run: async () => {
+      const { approvalRequestId } = await solicitarBorradoEventos();
+      await callAs("resolveApprovalRequest", "admin2", { requestId: approvalRequestId, decision: "RECHAZAR" });
+
+      check((await readDoc(`approvalRequests/${approvalRequestId}`))?.estado === "RECHAZADA", "debe quedar rechazada");
+      check((await readDoc(EVENTO_ALTA))?.isDeleted === false, "el evento no debe borrarse");
+    },
+  },
+  {
+    nombre: "Solo el solicitante puede cancelar",
+    run: async () => {
+      const { approvalRequestId } = await solicitarBorradoEventos("editor");
+      await expectHttpsError(
+        callAs("resolveApprovalRequest", "admin", { requestId: approvalRequestId, decision: "CANCELAR" }),
+        "permission-denied",
+      );
+      await callAs("resolveApprovalRequest", "editor", { requestId: approvalRequestId, decision: "CANCELAR" });
+      check((await readDoc(`approvalRequests/${approvalRequestId}`))?.estado === "CANCELADA", "debe quedar cancelada");
+    },
+  },
+  {
+    nombre: "Solicitud vencida → failed-precondition y CADUCADA",
+    run: async () => {
+      const { approvalRequestId } = await solicitarBorradoEventos();
+      const path = `approvalRequests/${approvalRequestId}`;
+      await seed({
+        [path]: { ...(await readDoc(path)), expiresAt: admin.firestore.Timestamp.fromDate(new Date("2025-01-01")) },
+      });
+
+      await expectHttpsError(
+        callAs("resolveApprovalRequest", "admin2", { requestId: approvalRequestId, decision: "APROBAR" }),
+        "failed-precondition",
+      );
+      check((await readDoc(path))?.estado === "CADUCADA", "debe quedar caducada");
+      check((await readDoc(EVENTO_ALTA))?.isDeleted === false, "el evento no debe borrarse");
+    },
+  },
+];
+
+export const runApprovalsSuite = () => runSuite("approvals", TESTS, baseFixtures);
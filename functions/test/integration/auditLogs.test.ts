@@ -0,0 +1,92 @@
+/**
+ * Integración - auditLogs
+ * Entradas de auditoría de las callables que modifican datos y consulta con getAuditLogs
+ */
+
+import * as admin from "firebase-admin";
+import { CALLERS, IntegrationTest, callAs, check, expectHttpsError, runSuite } from "./harness";
+import { MES_ABIERTO, MES_CERRADO, baseFixtures } from "./fixtures";
+
+/** Página de getAuditLogs (fechas serializadas a ISO) */
+interface AuditLogsPage {
+  entries: Array<{ id: string; actor: string; createdAt: string }>;
+  nextCursor: string | null;
+}
+
+/**
+ * Entradas de auditoría de una acción
+ * @param action - Acción (AuditAction)
+ */
+async function auditEntries(action: string): Promise<FirebaseFirestore.DocumentData[]> {
+  const snapshot = await admin.firestore().collection("auditLogs").where("action", "==", action).get();
+  return snapshot.docs.map((doc) => doc.data());
+}
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Abrir un mes registra actor, mes, antes/después y requestId",
+    run: async () => {
+      await callAs("toggleMonthLock", "admin", { monthKey: MES_CERRADO, isLocked: false });
+
+      const entries = await auditEntries("MONTH_LOCK_TOGGLE");
+      check(entries.length === 1, `se esperaba 1 entrada, hay ${entries.length}`);
+      const [entry] = entries;
+      check(entry.actor === CALLERS.admin.email, `actor inesperado: ${entry.actor}`);
+      check(entry.actorUid === CALLERS.admin.uid, `actorUid inesperado: ${entry.actorUid}`);
+      check(entry.monthKey === MES_CERRADO, `monthKey inesperado: ${entry.monthKey}`);
+      check(entry.before?.isLocked === true && entry.after?.isLocked === false, "antes/después incorrectos");
+      check(typeof entry.requestId === "string" && entry.requestId.length > 0, "falta requestId");
+    },
+  },
+  {
+    nombre: "Operación rechazada → sin entrada de auditoría",
+    run: async () => {
+      await expectHttpsError(
+        callAs("toggleMonthLock", "editor", { monthKey: MES_ABIERTO, isLocked: true }),
+        "permission-denied",
+      );
+      const entries = await auditEntries("MONTH_LOCK_TOGGLE");
+      check(entries.length === 0, `no debe haber entradas, hay ${entries.length}`);
+    },
+  },
+  {
+    nombre: "getAuditLogs filtra por mes y acción (más recientes primero)",
+    run: async () => {
+      await callAs("toggleMonthLock", "admin", { monthKey: MES_CERRADO, isLocked: false });
+      await callAs("toggleMonthLock", "admin2", { monthKey: MES_CERRADO, isLocked: false });
+
+      const porMes = await callAs<AuditLogsPage>("getAuditLogs", "admin", { monthKey: MES_CERRADO });
+      check(porMes.entries.length === 2, `se esperaban 2 entradas, hay ${porMes.entries.length}`);
+      check(porMes.entries[0].actor === CALLERS.admin2.email, "la más reciente debe ir primero");
+      check(typeof porMes.entries[0].createdAt === "string", "createdAt debe serializarse a ISO");
+
+      const porActor = await callAs<AuditLogsPage>("getAuditLogs", "admin", {
+        action: "MONTH_LOCK_TOGGLE",
+        actor: CALLERS.admin.email,
+      });
+      check(porActor.entries.length === 1, `se esperaba 1 entrada de admin, hay ${porActor.entries.length}`);
+
+      const otroMes = await callAs<AuditLogsPage>("getAuditLogs", "admin", { monthKey: MES_ABIERTO });
+      check(otroMes.entries.length === 0, "no debe haber entradas de otro mes");
+    },
+  },
+  {
+    nombre: "getAuditLogs pagina con cursor",
+    run: async () => {
+      await callAs("toggleMonthLock", "admin", { monthKey: MES_CERRADO, isLocked: false });
+      await callAs("toggleMonthLock", "admin", { monthKey: MES_CERRADO, isLocked: false });
+
+      const primera = await callAs<AuditLogsPage>("getAuditLogs", "admin", { limit: 1 });
+      check(primera.entries.length === 1 && primera.nextCursor !== null, "la primera página debe tener cursor");
+      const segunda = await callAs<AuditLogsPage>("getAuditLogs", "admin", { limit: 1, cursor: primera.nextCursor });
+      check(segunda.entries.length === 1, "la segunda página debe tener 1 entrada");
+      check(segunda.entries[0].id !== primera.entries[0].id, "las páginas no deben repetir entradas");
+    },
+  },
+  {
+    nombre: "Editor → getAuditLogs permission-denied",
+    run: () => expectHttpsError(callAs("getAuditLogs", "editor", {}), "permission-denied"),
+  },
+];
+
+export const runAuditLogsSuite = () => runSuite("auditLogs", TESTS, baseFixtures);
@@ -0,0 +1,104 @@
+/**
+ * Integración - cambio de código de un panel (changePanelCode)
+ * Candado panelCodes movido al código nuevo, alias del anterior, código por mes
+ * con revisión (los meses cerrados no se modifican) y entrada PANEL_CODE_CHANGE en auditLogs
+ */
+
+import * as admin from "firebase-admin";
+import { IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite } from "./harness";
+import { MES_ABIERTO, MES_CERRADO, PANEL_ACTIVO, PANEL_NUEVO, baseFixtures } from "./fixtures";
+
+const NUEVO_CODIGO = "07012";
+const MES_NUEVO = "2025-11";
+
+/** Renumeración del panel activo desde el mes abierto */
+/** Respuesta de changePanelCode */
+interface ChangePanelCodeResult {
+  codigoAnterior: string;
+  mesesActualizados: string[];
+}
+
+const CAMBIO = { panelId: PANEL_ACTIVO.id, nuevoCodigo: NUEVO_CODIGO, effectiveDateLocal: `${MES_ABIERTO}-01` };
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Cambio → candado movido, alias del código anterior y código por mes",
+    run: async () => {
+      const result = await callAs<ChangePanelCodeResult>("changePanelCode", "admin", {
+        ...CAMBIO,
+        motivo: "Renumeración del Consorcio",
+      });
+      check(result.codigoAnterior === PANEL_ACTIVO.codigo, `codigoAnterior ${result.codigoAnterior}`);
+      check(result.mesesActualizados.join() === MES_ABIERTO, `mesesActualizados ${result.mesesActualizados.join()}`);
+
+      const panel = await readDoc(`panels/${PANEL_ACTIVO.id}`);
+      check(panel?.codigo === NUEVO_CODIGO, `codigo ${panel?.codigo}`);
+      check(panel?.codigosAnteriores?.join() === PANEL_ACTIVO.codigo, "faltan los códigos anteriores");
+      check(panel?.historialCodigos?.[0]?.monthKey === MES_ABIERTO, "falta el cambio en historialCodigos");
+
+      check((await readDoc(`panelCodes/${NUEVO_CODIGO}`))?.panelId === PANEL_ACTIVO.id, "candado del código nuevo");
+      const alias = await readDoc(`panelCodes/${PANEL_ACTIVO.codigo}`);
+      check(alias?.panelId === PANEL_ACTIVO.id && alias?.reemplazadoPor === NUEVO_CODIGO, "alias del código anterior");
+
+      const abierto = await readDoc(`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_ABIERTO}`);
+      check(abierto?.codigo === NUEVO_CODIGO, `código del mes abierto ${abierto?.codigo}`);
+      check(abierto?.otrosCodigos?.join() === PANEL_ACTIVO.codigo, "búsqueda por el código anterior");
+      const cerrado = await readDoc(`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_CERRADO}`);
+      check(cerrado?.codigo === PANEL_ACTIVO.codigo, `el mes cerrado conserva el código (${cerrado?.codigo})`);
+      check(cerrado?.otrosCodigos === undefined, "el mes cerrado no debe modificarse");
+
+      // Cada fila actualizada deja su revisión; el mes cerrado no
+      const revisiones = await admin.firestore().collection("billingRevisions")
+        .where("source", "==", "changePanelCode").get();
+      const mesesRevisados = revisiones.docs.map((doc) => `${doc.data().monthKey}:${doc.data().codigo}`);
+      check(mesesRevisados.join() === `${MES_ABIERTO}:${NUEVO_CODIGO}`, `revisiones ${mesesRevisados.join()}`);
+
+      const audit = await admin.firestore().collection("auditLogs").where("action", "==", "PANEL_CODE_CHANGE").get();
+      check(audit.size === 1 && audit.docs[0].data().targetId === NUEVO_CODIGO, "falta la entrada PANEL_CODE_CHANGE");
+    },
+  },
+  {
+    nombre: "Cambio con fecha futura → el mes abierto conserva el código y el mes nuevo usa el nuevo",
+    run: async () => {
+      const result = await callAs<ChangePanelCodeResult>("changePanelCode", "admin", {
+        ...CAMBIO,
+        effectiveDateLocal: `${MES_NUEVO}-01`,
+      });
+      check(result.mesesActualizados.length === 0, `mesesActualizados ${result.mesesActualizados.join()}`);
+
+      await callAs("createNextMonth", "admin", { monthKey: MES_NUEVO });
+
+      const abierto = await readDoc(`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_ABIERTO}`);
+      check(abierto?.codigo === PANEL_ACTIVO.codigo, `el mes abierto conserva el código (${abierto?.codigo})`);
+      const nuevo = await readDoc(`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_NUEVO}`);
+      check(nuevo?.codigo === NUEVO_CODIGO, `código del mes nuevo ${nuevo?.codigo}`);
+      check(nuevo?.otrosCodigos?.join() === PANEL_ACTIVO.codigo, "el mes nuevo debe buscarse por el código anterior");
+    },
+  },
+  {
+    nombre: "Código de otro panel → already-exists; fecha no posterior al último cambio → failed-precondition",
+    run: async () => {
+      await expectHttpsError(
+        callAs("changePanelCode", "admin", { ...CAMBIO, nuevoCodigo: PANEL_NUEVO.codigo }),
+        "already-exists",
+      );
+      await callAs("changePanelCode", "admin", CAMBIO);
+      await expectHttpsError(
+        callAs("changePanelCode", "admin", { ...CAMBIO, nuevoCodigo: "07013" }),
+        "failed-precondition",
+      );
+    },
+  },
+  {
+    nombre: "Mismo código → invalid-argument; editor → permission-denied",
+    run: async () => {
+      await expectHttpsError(
+        callAs("changePanelCode", "admin", { ...CAMBIO, nuevoCodigo: PANEL_ACTIVO.codigo }),
+        "invalid-argument",
+      );
+      await expectHttpsError(callAs("changePanelCode", "editor", CAMBIO), "permission-denied");
+    },
+  },
+];
+
+export const runChangePanelCodeSuite = () => runSuite("cambio de código de panel", TESTS, baseFixtures);
@@ -0,0 +1,184 @@
+/**
+ * Integración - getMonthCloseChecks / closeMonth
+ * Asistente de cierre: comprobaciones, dispensas, registro del cierre y bloqueo de eventos
+ */
+
+import * as admin from "firebase-admin";
+import { CALLERS, IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite, seed } from "./harness";
+import { MES_ABIERTO, PANEL_ACTIVO, PANEL_NUEVO, baseFixtures } from "./fixtures";
+import { MonthCloseChecksResult } from "../../src/lib/monthClose";
+
+/** Respuesta de closeMonth */
+interface CloseMonthResult {
+  isLocked: boolean;
+  closeId: string;
+}
+
+const WAIVER_TOTALES = {
+  checkId: "TOTALES_RESUMEN",
+  comment: "Diferencia revisada con el cliente, se regulariza el mes siguiente",
+};
+
+/** Descuadra billingSummary de octubre respecto a sus paneles */
+const descuadrarResumen = () => seed({
+  [`billingSummary/${MES_ABIERTO}`]: { ...baseFixtures()[`billingSummary/${MES_ABIERTO}`], totalImporteMes: 99.99 },
+});
+
+/** Febrero de 2026 en modo NATURAL (28 días): un panel completo y uno parcial */
+const FEBRERO_NATURAL = "2026-02";
+const seedFebreroNatural = () => seed({
+  "rates/2026": { year: "2026", importe: 28, modoProrrateo: "NATURAL", servicios: {} },
+  [`billingMonthlyPanel/${PANEL_ACTIVO.id}_${FEBRERO_NATURAL}`]: {
+    panelId: PANEL_ACTIVO.id,
+    monthKey: FEBRERO_NATURAL,
+    codigo: PANEL_ACTIVO.codigo,
+    totalDiasFacturables: 28,
+    totalImporte: 28,
+    estadoAlCierre: "ACTIVO",
+    diasMes: 28,
+  },
+  // Fila antigua sin diasMes: usa los días del mes según el modo del año
+  [`billingMonthlyPanel/${PANEL_NUEVO.id}_${FEBRERO_NATURAL}`]: {
+    panelId: PANEL_NUEVO.id,
+    monthKey: FEBRERO_NATURAL,
+    codigo: PANEL_NUEVO.codigo,
+    totalDiasFacturables: 14,
+    totalImporte: 14,
+    estadoAlCierre: "ACTIVO",
+  },
+  [`billingSummary/${FEBRERO_NATURAL}`]: {
+    monthKey: FEBRERO_NATURAL,
+    totalImporteMes: 42,
+    totalPanelesFacturables: 2,
+    panelesActivos: 1,
+    panelesParciales: 1,
+    totalEventos: 0,
+    isLocked: false,
+  },
+});
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Fixtures cuadradas → todas las comprobaciones en verde",
+    run: async () => {
+      const result = await callAs<MonthCloseChecksResult>("getMonthCloseChecks", "admin", { monthKey: MES_ABIERTO });
+      const fallidas = result.checks.filter((c) => !c.ok).map((c) => c.id);
+      check(result.canClose === true, `comprobaciones fallidas: ${fallidas.join(", ")}`);
+      check(result.checks.length === 5, `${result.checks.length} comprobaciones`);
+      check(result.totals.totalImporteMes === 56.55, `totalImporteMes ${result.totals.totalImporteMes}`);
+    },
+  },
+  {
+    nombre: "Febrero en modo NATURAL → 28 días es un mes completo y TOTALES_RESUMEN en verde",
+    run: async () => {
+      await seedFebreroNatural();
+      const result = await callAs<MonthCloseChecksResult>("getMonthCloseChecks", "admin", {
+        monthKey: FEBRERO_NATURAL,
+      });
+      check(result.totals.panelesActivos === 1, `panelesActivos ${result.totals.panelesActivos}`);
+      check(result.totals.panelesParciales === 1, `panelesParciales ${result.totals.panelesParciales}`);
+      const totales = result.checks.find((c) => c.id === "TOTALES_RESUMEN");
+      check(totales?.ok === true, `TOTALES_RESUMEN: ${totales?.detalle}`);
+    },
+  },
+  {
+    nombre: "Resumen descuadrado y tarea fallida → TOTALES_RESUMEN y TAREAS_FALLIDAS en rojo",
+    run: async () => {
+      await descuadrarResumen();
+      await seed({
+        "taskDeadLetters/tarea-1": {
+          queue: "update-summary",
+          payload: { monthKey: MES_ABIERTO },
+          attempts: 5,
+          lastError: "boom",
+          estado: "PENDIENTE",
+        },
+      });
+      const result = await callAs<MonthCloseChecksResult>("getMonthCloseChecks", "admin", { monthKey: MES_ABIERTO });
+      const fallidas = result.checks.filter((c) => !c.ok).map((c) => c.id).sort();
+      check(
+        fallidas.join(",") === "TAREAS_FALLIDAS,TOTALES_RESUMEN",
+        `fallidas: ${fallidas.join(", ")}`,
+      );
+      check(result.canClose === false, "canClose debe ser false");
+    },
+  },
+  {
+    nombre: "Admin cierra octubre → registro en monthCloses y nuevos eventos rechazados",
+    run: async () => {
+      const checks = await callAs<MonthCloseChecksResult>("getMonthCloseChecks", "admin", { monthKey: MES_ABIERTO });
+      const result = await callAs<CloseMonthResult>("closeMonth", "admin", {
+        monthKey: MES_ABIERTO,
+        expectedFingerprint: checks.totalsFingerprint,
+      });
+      check(result.isLocked === true, `isLocked ${result.isLocked}`);
+
+      const summary = await readDoc(`billingSummary/${MES_ABIERTO}`);
+      check(summary?.isLocked === true, "billingSummary.isLocked debe ser true");
+      check(summary?.lastCloseId === result.closeId, "billingSummary.lastCloseId debe apuntar al cierre");
+
+      const record = await readDoc(`monthCloses/${result.closeId}`);
+      check(record?.closedBy === CALLERS.admin.email, `closedBy ${record?.closedBy}`);
+      check(record?.totalsFingerprint === checks.totalsFingerprint, "huella de totales");
+      check(record?.waivers.length === 0, `${record?.waivers.length} dispensas`);
+
+      await expectHttpsError(callAs("requestPanelChange", "admin", {
+        panelId: PANEL_ACTIVO.id,
+        action: "DESMONTADO",
+        effectiveDateLocal: `${MES_ABIERTO}-20`,
+        monthKey: MES_ABIERTO,
+        diasFacturables: 0,
+        importeAFacturar: 0,
+        snapshotBefore: null,
+        snapshotAfter: null,
+      }), "failed-precondition");
+    },
+  },
+  {
+    nombre: "Comprobación fallida sin dispensa → failed-precondition y el mes sigue abierto",
+    run: async () => {
+      await descuadrarResumen();
+      await expectHttpsError(callAs("closeMonth", "admin", { monthKey: MES_ABIERTO }), "failed-precondition");
+      const summary = await readDoc(`billingSummary/${MES_ABIERTO}`);
+      check(summary?.isLocked === false, "el mes no debe cerrarse");
+    },
+  },
+  {
+    nombre: "Comprobación fallida dispensada → cierra y guarda la dispensa",
+    run: async () => {
+      await descuadrarResumen();
+      const result = await callAs<CloseMonthResult>("closeMonth", "admin", {
+        monthKey: MES_ABIERTO,
+        waivers: [WAIVER_TOTALES],
+      });
+      const record = await readDoc(`monthCloses/${result.closeId}`);
+      check(record?.waivers.length === 1, `${record?.waivers.length} dispensas`);
+      check(record?.waivers[0].comment === WAIVER_TOTALES.comment, "comentario de la dispensa");
+    },
+  },
+  {
+    nombre: "Dispensa sin comentario → invalid-argument",
+    run: () => expectHttpsError(
+      callAs("closeMonth", "admin", { monthKey: MES_ABIERTO, waivers: [{ checkId: "TOTALES_RESUMEN", comment: "" }] }),
+      "invalid-argument",
+    ),
+  },
+  {
+    nombre: "Facturación cambiada desde la revisión → failed-precondition",
+    run: async () => {
+      const checks = await callAs<MonthCloseChecksResult>("getMonthCloseChecks", "admin", { monthKey: MES_ABIERTO });
+      await admin.firestore().doc(`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_ABIERTO}`).update({ totalImporte: 30 });
+      await expectHttpsError(callAs("closeMonth", "admin", {
+        monthKey: MES_ABIERTO,
+        expectedFingerprint: checks.totalsFingerprint,
+        waivers: [WAIVER_TOTALES],
+      }), "failed-precondition");
+    },
+  },
+  {
+    nombre: "Editor → permission-denied",
+    run: () => expectHttpsError(callAs("closeMonth", "editor", { monthKey: MES_ABIERTO }), "permission-denied"),
+  },
+];
+
+export const runCloseMonthSuite = () => runSuite("closeMonth", TESTS, baseFixtures);
@@ -0,0 +1,58 @@
+/**
+ * Integración - createNextMonth
+ * Arrastre de estados del mes anterior y billingSummary del mes nuevo
+ */
+
+import * as admin from "firebase-admin";
+import { IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite } from "./harness";
+import { MES_ABIERTO, PANEL_ACTIVO, PANEL_DESMONTADO, PANEL_NUEVO, TARIFA_2025, baseFixtures } from "./fixtures";
+
+const MES_NUEVO = "2025-11";
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Anónimo → unauthenticated",
+    run: () => expectHttpsError(callAs("createNextMonth", "anonymous", { monthKey: MES_NUEVO }), "unauthenticated"),
+  },
+  {
+    nombre: "Editor → permission-denied",
+    run: () => expectHttpsError(callAs("createNextMonth", "editor", { monthKey: MES_NUEVO }), "permission-denied"),
+  },
+  {
+    nombre: "Admin: crea noviembre heredando el estado de octubre",
+    run: async () => {
+      await callAs("createNextMonth", "admin", { monthKey: MES_NUEVO });
+
+      const billingSnapshot = await admin.firestore()
+        .collection("billingMonthlyPanel")
+        .where("monthKey", "==", MES_NUEVO)
+        .get();
+      check(billingSnapshot.size === 3, `${billingSnapshot.size} paneles facturados (esperados 3)`);
+
+      const activo = await readDoc(`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_NUEVO}`);
+      check(activo?.estadoAlCierre === "ACTIVO", `activo: estado ${activo?.estadoAlCierre}`);
+      check(activo?.totalImporte === TARIFA_2025, `activo: importe ${activo?.totalImporte}`);
+
+      const nuevo = await readDoc(`billingMonthlyPanel/${PANEL_NUEVO.id}_${MES_NUEVO}`);
+      check(nuevo?.totalImporte === TARIFA_2025, `nuevo: mes completo tras el alta (${nuevo?.totalImporte})`);
+
+      const desmontado = await readDoc(`billingMonthlyPanel/${PANEL_DESMONTADO.id}_${MES_NUEVO}`);
+      check(desmontado?.estadoAlCierre === "DESMONTADO", `desmontado: estado ${desmontado?.estadoAlCierre}`);
+      check(desmontado?.totalImporte === 0, `desmontado: importe ${desmontado?.totalImporte}`);
+
+      const summary = await readDoc(`billingSummary/${MES_NUEVO}`);
+      check(summary?.isLocked === false, "el mes nuevo debe crearse abierto");
+      check(summary?.totalImporteMes === 75.4, `totalImporteMes ${summary?.totalImporteMes}`);
+    },
+  },
+  {
+    nombre: "Mes ya existente → already-exists",
+    run: () => expectHttpsError(callAs("createNextMonth", "admin", { monthKey: MES_ABIERTO }), "already-exists"),
+  },
+  {
+    nombre: "Sin mes anterior → not-found",
+    run: () => expectHttpsError(callAs("createNextMonth", "admin", { monthKey: "2026-01" }), "not-found"),
+  },
+];
+
+export const runCreateNextMonthSuite = () => runSuite("createNextMonth", TESTS, baseFixtures);
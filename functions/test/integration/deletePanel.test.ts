@@ -0,0 +1,84 @@
+/**
+ * Integración - deletePanel
+ * Borrado completo (panel, candado, eventos, facturación) tras la aprobación de un
+ * segundo admin y protección de meses cerrados
+ */
+
+import * as admin from "firebase-admin";
+import { IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite } from "./harness";
+import { MES_ABIERTO, PANEL_ACTIVO, PANEL_NUEVO, TARIFA_2025, baseFixtures } from "./fixtures";
+import { ApprovalRequestCreated } from "../../src/lib/approvals";
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Anónimo → unauthenticated",
+    run: () => expectHttpsError(
+      callAs("deletePanel", "anonymous", { panelId: PANEL_NUEVO.id, confirmCode: PANEL_NUEVO.codigo }),
+      "unauthenticated",
+    ),
+  },
+  {
+    nombre: "Editor → permission-denied",
+    run: () => expectHttpsError(
+      callAs("deletePanel", "editor", { panelId: PANEL_NUEVO.id, confirmCode: PANEL_NUEVO.codigo }),
+      "permission-denied",
+    ),
+  },
+  {
+    nombre: "Código de confirmación incorrecto → invalid-argument",
+    run: () => expectHttpsError(
+      callAs("deletePanel", "admin", { panelId: PANEL_NUEVO.id, confirmCode: "otro" }),
+      "invalid-argument",
+    ),
+  },
+  {
+    nombre: "Panel con meses cerrados → failed-precondition y nada borrado",
+    run: async () => {
+      await expectHttpsError(
+        callAs("deletePanel", "admin", { panelId: PANEL_ACTIVO.id, confirmCode: PANEL_ACTIVO.codigo }),
+        "failed-precondition",
+      );
+      check(await readDoc(`panels/${PANEL_ACTIVO.id}`) !== undefined, "el panel no debe borrarse");
+    },
+  },
+  {
+    nombre: "Admin solicita el borrado → pendiente de aprobación y el panel sigue existiendo",
+    run: async () => {
+      const result = await callAs<ApprovalRequestCreated>("deletePanel", "admin", {
+        panelId: PANEL_NUEVO.id,
+        confirmCode: PANEL_NUEVO.codigo,
+      });
+
+      check(result.pendingApproval === true, "el borrado debe quedar pendiente de aprobación");
+      check(await readDoc(`panels/${PANEL_NUEVO.id}`) !== undefined, "el panel no debe borrarse sin aprobación");
+      const request = await readDoc(`approvalRequests/${result.approvalRequestId}`);
+      check(request?.estado === "PENDIENTE", `estado ${request?.estado}`);
+      check(request?.impacto.meses.includes(MES_ABIERTO), `meses ${request?.impacto.meses}`);
+    },
+  },
+  {
+    nombre: "Segundo admin aprueba → sin rastro y resumen de octubre recalculado",
+    run: async () => {
+      const { approvalRequestId } = await callAs<ApprovalRequestCreated>("deletePanel", "admin", {
+        panelId: PANEL_NUEVO.id,
+        confirmCode: PANEL_NUEVO.codigo,
+      });
+      await callAs("resolveApprovalRequest", "admin2", { requestId: approvalRequestId, decision: "APROBAR" });
+
+      check(await readDoc(`panels/${PANEL_NUEVO.id}`) === undefined, "panels/{id} sigue existiendo");
+      check(await readDoc(`panelCodes/${PANEL_NUEVO.codigo}`) === undefined, "panelCodes/{codigo} sigue existiendo");
+      check(
+        await readDoc(`billingMonthlyPanel/${PANEL_NUEVO.id}_${MES_ABIERTO}`) === undefined,
+        "billingMonthlyPanel del panel sigue existiendo",
+      );
+
+      const events = await admin.firestore().collection("panels").doc(PANEL_NUEVO.id).collection("panelEvents").get();
+      check(events.empty, `${events.size} eventos sin borrar`);
+
+      const summary = await readDoc(`billingSummary/${MES_ABIERTO}`);
+      check(summary?.totalImporteMes === TARIFA_2025, `totalImporteMes ${summary?.totalImporteMes}`);
+    },
+  },
+];
+
+export const runDeletePanelSuite = () => runSuite("deletePanel", TESTS, baseFixtures);
@@ -0,0 +1,20 @@
+/**
+ * Entorno de los tests de integración: proyecto demo y firebase-functions-test
+ *
+ * Se importa antes que src/index (ver harness): functionsTest define
+ * FIREBASE_CONFIG y GCLOUD_PROJECT antes de que index.ts inicialice el Admin SDK.
+ */
+
+import functionsTest from "firebase-functions-test";
+import { FeaturesList } from "firebase-functions-test/lib/features";
+
+export const PROJECT_ID = process.env.GCLOUD_PROJECT || "demo-piv-manager";
+
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  throw new Error(
+    "FIRESTORE_EMULATOR_HOST no definido: ejecuta los tests con `npm run test:integration` (emulators:exec)",
+  );
+}
+
+// Modo online contra el emulador: sin credenciales reales
+export const testEnv: FeaturesList = functionsTest({ projectId: PROJECT_ID });
@@ -0,0 +1,157 @@
+/**
+ * Integración - firestore.rules
+ * Lectura de cachés y catálogos para admin, editor y auditor; el visor solo la facturación
+ * de sus municipios; todo lo demás solo backend
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { CALLERS, CLAIMS, IntegrationTest, PROJECT_ID, VISOR_MUNICIPIOS, runSuite } from "./harness";
+import { MES_ABIERTO, PANEL_ACTIVO, PANEL_NUEVO, baseFixtures } from "./fixtures";
+
+let rulesEnv: RulesTestEnvironment;
+
+const asRole = (role: "editor" | "auditor" | "visor") =>
+  rulesEnv.authenticatedContext(CALLERS[role].uid, { email: CALLERS[role].email, ...CLAIMS[role] }).firestore();
+const asEditor = () => asRole("editor");
+// Usuario autenticado sin claims ni users/{uid}
+const asSinRol = () => rulesEnv.authenticatedContext("uid-sin-rol", { email: "sinrol@piv-manager.test" }).firestore();
+const asAnonymous = () => rulesEnv.unauthenticatedContext().firestore();
+
+const BILLING_DOC = `billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_ABIERTO}`; // Alcalá (municipio del visor)
+const BILLING_DOC_OTRO_MUNICIPIO = `billingMonthlyPanel/${PANEL_NUEVO.id}_${MES_ABIERTO}`; // Getafe
+
+// Colecciones de solo lectura para admin, editor y auditor
+const READ_ONLY = [
+  BILLING_DOC,
+  `billingSummary/${MES_ABIERTO}`,
+  "rates/2025",
+  "contracts/cualquiera",
+  "priceRevisions/cualquiera",
+  "scheduledPanelEvents/cualquiera",
+  "bulkEventJobs/cualquiera",
+  "taskDeadLetters/cualquiera",
+  "approvalRequests/cualquiera",
+];
+
+// Colecciones cerradas al cliente (solo Admin SDK)
+const BACKEND_ONLY = [
+  `panels/${PANEL_ACTIVO.id}`,
+  `panels/${PANEL_ACTIVO.id}/panelEvents/cualquiera`,
+  `panelCodes/${PANEL_ACTIVO.codigo}`,
+  "billingRevisions/cualquiera",
+  "invoices/cualquiera",
+  "invoiceSeries/cualquiera",
+  "monthCloses/cualquiera",
+  "auditLogs/cualquiera",
+  "settings/cualquiera",
+  "coleccionNoDeclarada/cualquiera",
+];
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Autenticado lee cachés y catálogos",
+    run: async () => {
+      for (const docPath of READ_ONLY) {
+        await assertSucceeds(asEditor().doc(docPath).get());
+      }
+      await assertSucceeds(asEditor().collection("billingMonthlyPanel").where("monthKey", "==", MES_ABIERTO).get());
+    },
+  },
+  {
+    nombre: "Auditor lee cachés y catálogos pero no escribe",
+    run: async () => {
+      for (const docPath of READ_ONLY) {
+        await assertSucceeds(asRole("auditor").doc(docPath).get());
+        await assertFails(asRole("auditor").doc(docPath).set({ manipulado: true }));
+      }
+      await assertFails(asRole("auditor").doc("auditLogs/cualquiera").get());
+    },
+  },
+  {
+    nombre: "Visor lee solo la facturación de sus municipios",
+    run: async () => {
+      const visor = asRole("visor");
+      await assertSucceeds(visor.doc(BILLING_DOC).get());
+      await assertFails(visor.doc(BILLING_DOC_OTRO_MUNICIPIO).get());
+      await assertSucceeds(
+        visor.collection("billingMonthlyPanel")
+          .where("monthKey", "==", MES_ABIERTO)
+          .where("municipioId", "in", VISOR_MUNICIPIOS)
+          .get(),
+      );
+      await assertFails(visor.collection("billingMonthlyPanel").where("monthKey", "==", MES_ABIERTO).get());
+      for (const docPath of READ_ONLY.filter((docPath) => docPath !== BILLING_DOC)) {
+        await assertFails(visor.doc(docPath).get());
+      }
+    },
+  },
+  {
+    nombre: "Autenticado sin rol no lee nada",
+    run: async () => {
+      for (const docPath of READ_ONLY) {
+        await assertFails(asSinRol().doc(docPath).get());
+      }
+    },
+  },
+  {
+    nombre: "Cada usuario lee solo su documento de users",
+    run: async () => {
+      await assertSucceeds(asRole("visor").doc(`users/${CALLERS.visor.uid}`).get());
+      await assertFails(asRole("visor").doc(`users/${CALLERS.admin.uid}`).get());
+      await assertFails(asRole("visor").doc(`users/${CALLERS.visor.uid}`).set({ role: "admin" }));
+    },
+  },
+  {
+    nombre: "Anónimo no lee nada",
+    run: async () => {
+      for (const docPath of [...READ_ONLY, ...BACKEND_ONLY]) {
+        await assertFails(asAnonymous().doc(docPath).get());
+      }
+    },
+  },
+  {
+    nombre: "Autenticado no escribe en cachés ni catálogos",
+    run: async () => {
+      for (const docPath of READ_ONLY) {
+        await assertFails(asEditor().doc(docPath).set({ totalImporte: 0 }));
+      }
+      await assertFails(asEditor().doc(BILLING_DOC).delete());
+    },
+  },
+  {
+    nombre: "Autenticado no lee ni escribe colecciones del backend",
+    run: async () => {
+      for (const docPath of BACKEND_ONLY) {
+        await assertFails(asEditor().doc(docPath).get());
+        await assertFails(asEditor().doc(docPath).set({ manipulado: true }));
+      }
+    },
+  },
+];
+
+/**
+ * Carga firestore.rules en el emulador y ejecuta la suite
+ * @return Número de tests fallidos
+ */
+export async function runFirestoreRulesSuite(): Promise<number> {
+  rulesEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      // npm run se ejecuta desde functions/; las reglas están en la raíz del repo
+      rules: fs.readFileSync(path.resolve(process.cwd(), "../firestore.rules"), "utf8"),
+    },
+  });
+
+  try {
+    return await runSuite("firestore.rules", TESTS, baseFixtures);
+  } finally {
+    await rulesEnv.cleanup();
+  }
+}
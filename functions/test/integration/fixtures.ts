@@ -0,0 +1,136 @@
+/**
+ * Fixtures de los tests de integración
+ *
+ * Dos meses: 2025-09 (cerrado) y 2025-10 (abierto), tarifa estándar 2025 de 37,70€
+ * en modo COMERCIAL_30 y tres paneles:
+ * - PANEL_ACTIVO: facturado completo en septiembre y octubre
+ * - PANEL_DESMONTADO: desmontado desde antes de septiembre (0€)
+ * - PANEL_NUEVO: alta en octubre, sin meses cerrados (se puede eliminar)
+ */
+
+import * as admin from "firebase-admin";
+import { CALLERS, VISOR_MUNICIPIOS } from "./harness";
+
+export const TARIFA_2025 = 37.7;
+export const MES_CERRADO = "2025-09";
+export const MES_ABIERTO = "2025-10";
+
+export const PANEL_ACTIVO = { id: "panel-activo", codigo: "06948", municipioId: "alcala" };
+export const PANEL_DESMONTADO = { id: "panel-desmontado", codigo: "20397 (171)", municipioId: "getafe" };
+export const PANEL_NUEVO = { id: "panel-nuevo", codigo: "TFT Hosp. Getafe", municipioId: "getafe" };
+
+const MUNICIPIOS: Record<string, string> = {
+  alcala: "Alcalá de Henares",
+  getafe: "Getafe",
+};
+
+const ts = (date: string) => admin.firestore.Timestamp.fromDate(new Date(date));
+
+function panelDoc(panel: typeof PANEL_ACTIVO, estadoActual: string) {
+  return {
+    codigo: panel.codigo,
+    municipioId: panel.municipioId,
+    municipio: MUNICIPIOS[panel.municipioId],
+    ubicacion: `Parada ${panel.codigo}`,
+    tipo: "PIV",
+    estadoActual,
+    tarifaBaseMes: TARIFA_2025,
+    createdAt: ts("2025-01-01"),
+    schemaVersion: 1,
+  };
+}
+
+function billingDoc(
+  panel: typeof PANEL_ACTIVO,
+  monthKey: string,
+  estadoAlCierre: "ACTIVO" | "DESMONTADO",
+  totalDiasFacturables: number,
+) {
+  return {
+    panelId: panel.id,
+    monthKey,
+    codigo: panel.codigo,
+    municipioId: panel.municipioId,
+    municipio: MUNICIPIOS[panel.municipioId],
+    totalDiasFacturables,
+    totalImporte: Math.round(TARIFA_2025 * totalDiasFacturables / 30 * 100) / 100,
+    estadoAlCierre,
+    tarifaAplicada: TARIFA_2025,
+    jornadas: totalDiasFacturables,
+    updatedAt: ts(`${monthKey}-28`),
+    schemaVersion: 1,
+  };
+}
+
+function summaryDoc(
+  monthKey: string,
+  totalImporteMes: number,
+  panelesActivos: number,
+  panelesParciales: number,
+  isLocked: boolean,
+) {
+  return {
+    monthKey,
+    totalImporteMes,
+    totalPanelesFacturables: panelesActivos + panelesParciales,
+    panelesActivos,
+    panelesParciales,
+    totalEventos: 0,
+    isLocked,
+    updatedAt: ts(`${monthKey}-28`),
+    schemaVersion: 1,
+  };
+}
+
+/**
+ * Estado inicial común a todas las suites (rutas completas → datos)
+ */
+export function baseFixtures(): Record<string, FirebaseFirestore.DocumentData> {
+  return {
+    // Usuarios: algunas callables comprueban users/{uid}.role en lugar de los claims
+    [`users/${CALLERS.admin.uid}`]: { email: CALLERS.admin.email, role: "admin" },
+    [`users/${CALLERS.admin2.uid}`]: { email: CALLERS.admin2.email, role: "admin" },
+    [`users/${CALLERS.editor.uid}`]: { email: CALLERS.editor.email, role: "editor" },
+    [`users/${CALLERS.auditor.uid}`]: { email: CALLERS.auditor.email, role: "auditor", municipioIds: [] },
+    [`users/${CALLERS.visor.uid}`]: { email: CALLERS.visor.email, role: "visor", municipioIds: VISOR_MUNICIPIOS },
+
+    "rates/2025": { year: "2025", importe: TARIFA_2025, modoProrrateo: "COMERCIAL_30", servicios: {} },
+
+    "municipalities/alcala": { nombre: MUNICIPIOS.alcala },
+    "municipalities/getafe": { nombre: MUNICIPIOS.getafe },
+
+    [`panels/${PANEL_ACTIVO.id}`]: panelDoc(PANEL_ACTIVO, "ACTIVO"),
+    [`panels/${PANEL_DESMONTADO.id}`]: panelDoc(PANEL_DESMONTADO, "DESMONTADO"),
+    [`panels/${PANEL_NUEVO.id}`]: panelDoc(PANEL_NUEVO, "ACTIVO"),
+    [`panelCodes/${PANEL_ACTIVO.codigo}`]: { panelId: PANEL_ACTIVO.id },
+    [`panelCodes/${PANEL_DESMONTADO.codigo}`]: { panelId: PANEL_DESMONTADO.id },
+    [`panelCodes/${PANEL_NUEVO.codigo}`]: { panelId: PANEL_NUEVO.id },
+
+    // Alta del panel nuevo el 16 de octubre
+    [`panels/${PANEL_NUEVO.id}/panelEvents/alta-panel-nuevo`]: {
+      action: "ALTA_INICIAL",
+      effectiveDate: ts("2025-10-16"),
+      effectiveDateLocal: "2025-10-16",
+      monthKey: MES_ABIERTO,
+      diasFacturables: 15,
+      importeAFacturar: 18.85,
+      snapshotBefore: null,
+      snapshotAfter: { estadoActual: "ACTIVO" },
+      isDeleted: false,
+      createdAt: ts("2025-10-16"),
+      createdBy: CALLERS.admin.email,
+      schemaVersion: 1,
+    },
+
+    [`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_CERRADO}`]: billingDoc(PANEL_ACTIVO, MES_CERRADO, "ACTIVO", 30),
+    [`billingMonthlyPanel/${PANEL_DESMONTADO.id}_${MES_CERRADO}`]:
+      billingDoc(PANEL_DESMONTADO, MES_CERRADO, "DESMONTADO", 0),
+    [`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_ABIERTO}`]: billingDoc(PANEL_ACTIVO, MES_ABIERTO, "ACTIVO", 30),
+    [`billingMonthlyPanel/${PANEL_DESMONTADO.id}_${MES_ABIERTO}`]:
+      billingDoc(PANEL_DESMONTADO, MES_ABIERTO, "DESMONTADO", 0),
+    [`billingMonthlyPanel/${PANEL_NUEVO.id}_${MES_ABIERTO}`]: billingDoc(PANEL_NUEVO, MES_ABIERTO, "ACTIVO", 15),
+
+    [`billingSummary/${MES_CERRADO}`]: summaryDoc(MES_CERRADO, TARIFA_2025, 1, 0, true),
+    [`billingSummary/${MES_ABIERTO}`]: summaryDoc(MES_ABIERTO, 56.55, 1, 1, false),
+  };
+}
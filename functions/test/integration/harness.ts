@@ -0,0 +1,171 @@
+/**
+ * Harness de tests de integración contra el Firebase Emulator Suite
+ *
+ * - Firestore y Auth apuntan a los emuladores (FIRESTORE_EMULATOR_HOST y FIREBASE_AUTH_EMULATOR_HOST,
+ *   los define emulators:exec)
+ * - Las callables se invocan en proceso con firebase-functions-test, como admin,
+ *   segundo admin (admin2, para aprobaciones a cuatro ojos), editor, auditor, visor de municipio o anónimo
+ *   (custom claims + users/{uid}.role, ver fixtures)
+ * - Cada test empieza con la base de datos vacía y sembrada desde fixtures
+ */
+
+import * as admin from "firebase-admin";
+import * as functions from "firebase-functions";
+import { CallableContextOptions } from "firebase-functions-test/lib/v1";
+import { PROJECT_ID, testEnv } from "./emulator";
+// index.ts inicializa el Admin SDK y exporta todas las callables (después de ./emulator)
+import * as functionsIndex from "../../src/index";
+
+export { PROJECT_ID, testEnv };
+
+/** Callable de index.ts invocable con firebase-functions-test */
+type Callable = functions.HttpsFunction & functions.Runnable<unknown>;
+
+type FunctionName = keyof typeof functionsIndex;
+
+const FUNCTIONS: Record<FunctionName, unknown> = functionsIndex;
+
+export type CallerRole = "admin" | "admin2" | "editor" | "auditor" | "visor" | "anonymous";
+
+export const CALLERS: Record<Exclude<CallerRole, "anonymous">, { uid: string; email: string }> = {
+  admin: { uid: "uid-admin", email: "admin@piv-manager.test" },
+  admin2: { uid: "uid-admin2", email: "admin2@piv-manager.test" },
+  editor: { uid: "uid-editor", email: "editor@piv-manager.test" },
+  auditor: { uid: "uid-auditor", email: "auditor@piv-manager.test" },
+  visor: { uid: "uid-visor", email: "visor@piv-manager.test" },
+};
+
+// Municipios asignados al visor
+export const VISOR_MUNICIPIOS = ["alcala"];
+
+// Custom claims de cada rol (los de setUserRole; admin y editor conservan los claims antiguos)
+export const CLAIMS: Record<Exclude<CallerRole, "anonymous">, Record<string, unknown>> = {
+  admin: { admin: true, editor: true },
+  admin2: { admin: true, editor: true },
+  editor: { admin: false, editor: true },
+  auditor: { role: "auditor", admin: false, editor: false, auditor: true, municipioIds: [] },
+  visor: { role: "visor", admin: false, editor: false, auditor: false, municipioIds: VISOR_MUNICIPIOS },
+};
+
+/**
+ * Invoca una callable exportada en index.ts con la identidad del rol indicado
+ * @param name - Nombre de la función (export de index.ts)
+ * @param role - admin, admin2, editor, auditor, visor o anonymous
+ * @param data - Payload de la callable
+ * @return Respuesta de la callable (T: su forma, la que comprueba el test)
+ */
+export async function callAs<T = unknown>(
+  name: FunctionName,
+  role: CallerRole,
+  data: unknown,
+): Promise<T> {
+  const wrapped = testEnv.wrap(FUNCTIONS[name] as Callable);
+  if (role === "anonymous") {
+    return wrapped(data, {});
+  }
+  const caller = CALLERS[role];
+  const options: CallableContextOptions = {
+    auth: {
+      uid: caller.uid,
+      token: { email: caller.email, ...CLAIMS[role] },
+    },
+  };
+  return wrapped(data, options);
+}
+
+/**
+ * Espera que la llamada falle con un HttpsError del código indicado
+ * @param promise - Llamada a la callable
+ * @param code - Código esperado ("permission-denied", "failed-precondition"...)
+ */
+export async function expectHttpsError(promise: Promise<unknown>, code: string): Promise<void> {
+  try {
+    await promise;
+  } catch (error) {
+    const { code: received, message } = error as functions.https.HttpsError;
+    if (received === code) return;
+    throw new Error(`Se esperaba HttpsError "${code}" y se obtuvo "${received}": ${message}`);
+  }
+  throw new Error(`Se esperaba HttpsError "${code}" pero la llamada terminó bien`);
+}
+
+/**
+ * Comprobación con mensaje (los tests fallan lanzando, no con console.assert)
+ */
+export function check(condition: boolean, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+/** Lee un documento con el Admin SDK (sin reglas) */
+export async function readDoc(path: string): Promise<FirebaseFirestore.DocumentData | undefined> {
+  const doc = await admin.firestore().doc(path).get();
+  return doc.data();
+}
+
+/** Vacía la base de datos del emulador */
+export async function clearFirestore(): Promise<void> {
+  const url = `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}` +
+    "/databases/(default)/documents";
+  const response = await fetch(url, { method: "DELETE" });
+  if (!response.ok) {
+    throw new Error(`No se pudo vaciar el emulador de Firestore (${response.status})`);
+  }
+}
+
+/** Borra las cuentas del emulador de Auth */
+export async function clearAuth(): Promise<void> {
+  const url = `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/accounts`;
+  const response = await fetch(url, { method: "DELETE" });
+  if (!response.ok) {
+    throw new Error(`No se pudo vaciar el emulador de Auth (${response.status})`);
+  }
+}
+
+/**
+ * Siembra documentos: { "ruta/del/doc": { ...campos } }
+ * @param docs - Documentos por ruta completa
+ */
+export async function seed(docs: Record<string, FirebaseFirestore.DocumentData>): Promise<void> {
+  const db = admin.firestore();
+  const batch = db.batch();
+  for (const [path, data] of Object.entries(docs)) {
+    batch.set(db.doc(path), data);
+  }
+  await batch.commit();
+}
+
+export interface IntegrationTest {
+  nombre: string;
+  run: () => Promise<void>;
+}
+
+/**
+ * Ejecuta una suite: cada test con la base de datos vacía y resembrada (y sin cuentas de Auth)
+ * @param suite - Nombre de la suite
+ * @param tests - Tests de la suite
+ * @param fixtures - Documentos a sembrar antes de cada test
+ * @return Número de tests fallidos
+ */
+export async function runSuite(
+  suite: string,
+  tests: IntegrationTest[],
+  fixtures: () => Record<string, FirebaseFirestore.DocumentData>,
+): Promise<number> {
+  console.log(`\n=== ${suite} ===`);
+  let fallidos = 0;
+
+  for (const test of tests) {
+    await clearFirestore();
+    await clearAuth();
+    await seed(fixtures());
+    try {
+      await test.run();
+      console.log(`✅ ${test.nombre}`);
+    } catch (error) {
+      fallidos++;
+      console.log(`❌ ${test.nombre}\n   ${(error as Error).message}`);
+    }
+  }
+
+  return fallidos;
+}
@@ -0,0 +1,77 @@
+/**
+ * Integración - facturas rectificativas (createRectifyingInvoice)
+ * RECALCULO repetido sobre la misma factura: cada rectificativa solo factura la
+ * diferencia con lo ya facturado neto y nunca se emite una de importe cero
+ */
+
+import * as admin from "firebase-admin";
+import { IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite } from "./harness";
+import { MES_CERRADO, PANEL_ACTIVO, TARIFA_2025, baseFixtures } from "./fixtures";
+import { IssueMonthInvoicesResult } from "../../src/lib/invoicing";
+
+const BILLING_ACTIVO = `billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_CERRADO}`;
+
+/** Fixtures base + datos fiscales del emisor y del municipio del panel activo */
+function invoicingFixtures(): Record<string, FirebaseFirestore.DocumentData> {
+  const fixtures = baseFixtures();
+  return {
+    ...fixtures,
+    "settings/invoicing": { emisor: { nif: "B12345678", razonSocial: "PIV Manager S.L." }, ivaPorcentaje: 21 },
+    [`municipalities/${PANEL_ACTIVO.municipioId}`]: {
+      ...fixtures[`municipalities/${PANEL_ACTIVO.municipioId}`],
+      nif: "P2800500A",
+    },
+  };
+}
+
+/** Cambia los días facturados del panel activo en el mes cerrado (como una rectificación de datos) */
+async function setDiasFacturables(dias: number) {
+  await admin.firestore().doc(BILLING_ACTIVO).update({
+    totalDiasFacturables: dias,
+    totalImporte: Math.round(TARIFA_2025 * dias / 30 * 100) / 100,
+  });
+}
+
+const recalcular = (invoiceId: string) =>
+  callAs<{ invoiceId: string; baseImponible: number }>("createRectifyingInvoice", "admin", {
+    invoiceId,
+    modo: "RECALCULO",
+    motivo: "Días corregidos",
+  });
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "RECALCULO dos veces → cada rectificativa factura solo la diferencia neta",
+    run: async () => {
+      const { emitidas } = await callAs<IssueMonthInvoicesResult>("issueMonthInvoices", "admin", {
+        monthKey: MES_CERRADO,
+      });
+      check(emitidas.length === 1, `${emitidas.length} facturas emitidas`);
+      const invoiceId = emitidas[0].invoiceId;
+
+      await setDiasFacturables(20);
+      const primera = await recalcular(invoiceId);
+      const primeraDoc = await readDoc(`invoices/${primera.invoiceId}`);
+      check(primeraDoc?.lineas.length === 1, `${primeraDoc?.lineas.length} líneas en la primera rectificativa`);
+      check(primera.baseImponible === -12.57, `base de la primera ${primera.baseImponible}`);
+
+      // Los días vuelven a cambiar: la segunda solo regulariza 20 → 25 días
+      await setDiasFacturables(25);
+      const segunda = await recalcular(invoiceId);
+      const segundaDoc = await readDoc(`invoices/${segunda.invoiceId}`);
+      check(segundaDoc?.lineas.length === 1, `${segundaDoc?.lineas.length} líneas en la segunda rectificativa`);
+      check(segunda.baseImponible === 6.29, `base de la segunda ${segunda.baseImponible}`);
+      check(
+        !segundaDoc?.lineas[0].concepto.startsWith("Regularización: Regularización"),
+        `concepto ${segundaDoc?.lineas[0].concepto}`,
+      );
+
+      // Sin cambios: no hay diferencias y no se consume número de la serie
+      await expectHttpsError(recalcular(invoiceId), "failed-precondition");
+      const serie = await admin.firestore().collection("invoiceSeries").where("serie", "==", "R").get();
+      check(serie.docs[0]?.data().lastNumber === 2, `último número de la serie R ${serie.docs[0]?.data().lastNumber}`);
+    },
+  },
+];
+
+export const runInvoicingSuite = () => runSuite("facturas rectificativas", TESTS, invoicingFixtures);
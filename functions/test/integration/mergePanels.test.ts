@@ -0,0 +1,84 @@
+/**
+ * Integración - fusión de paneles duplicados (mergePanels)
+ * Vista previa lado a lado, aprobación por un segundo admin, eventos movidos,
+ * panelCodes repuntado, meses reconstruidos y entrada PANEL_MERGE en auditLogs
+ */
+
+import * as admin from "firebase-admin";
+import { IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite } from "./harness";
+import { MES_ABIERTO, MES_CERRADO, PANEL_ACTIVO, PANEL_NUEVO, baseFixtures } from "./fixtures";
+import { PanelMergePreview } from "../../src/commands/mergePanels";
+import { ApprovalRequestCreated } from "../../src/lib/approvals";
+
+/** Fusiona el panel nuevo (alta en octubre) en el panel activo */
+const FUSION = { panelId: PANEL_ACTIVO.id, duplicatePanelId: PANEL_NUEVO.id };
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Vista previa: ambos paneles, meses y avisos sin escribir nada",
+    run: async () => {
+      const { status, preview } = await callAs<{ status: string; preview: PanelMergePreview }>("mergePanels", "admin", {
+        ...FUSION,
+        dryRun: true,
+      });
+      check(status === "preview", `status ${status}`);
+      check(preview.superviviente.codigo === PANEL_ACTIVO.codigo, "superviviente incorrecto");
+      check(preview.duplicado.eventos === 1, `eventos del duplicado ${preview.duplicado.eventos}`);
+
+      const meses = preview.meses.map((m) => `${m.monthKey}:${m.reconstruir}:${m.isLocked}`).join();
+      check(meses === `${MES_CERRADO}:false:true,${MES_ABIERTO}:true:false`, `meses ${meses}`);
+      check(preview.avisos.length === 2, `avisos ${preview.avisos.join(" | ")}`); // Código y municipio distintos
+      check(preview.bloqueos.length === 0, `bloqueos ${preview.bloqueos.join(" | ")}`);
+      check(!!(await readDoc(`panels/${PANEL_NUEVO.id}`)), "la vista previa no debe tocar el duplicado");
+    },
+  },
+  {
+    nombre: "Aprobada → eventos movidos, panelCodes repuntado, duplicado eliminado y auditoría",
+    run: async () => {
+      const { approvalRequestId, impacto } = await callAs<ApprovalRequestCreated>("mergePanels", "admin", FUSION);
+      check(impacto.meses.join() === MES_ABIERTO, `meses ${impacto.meses.join()}`);
+      check(!!(await readDoc(`panels/${PANEL_NUEVO.id}`)), "la fusión espera a la aprobación");
+
+      const result = await callAs<{ estado: string }>("resolveApprovalRequest", "admin2", {
+        requestId: approvalRequestId,
+        decision: "APROBAR",
+      });
+      check(result.estado === "EJECUTADA", `estado ${result.estado}`);
+
+      const movido = await readDoc(`panels/${PANEL_ACTIVO.id}/panelEvents/alta-panel-nuevo`);
+      check(movido?.mergedFrom === PANEL_NUEVO.id, "el evento debe moverse al superviviente");
+      check(movido?.createdBy !== undefined, "el evento conserva su autor");
+      check(!(await readDoc(`panels/${PANEL_NUEVO.id}`)), "el duplicado debe eliminarse");
+      check(
+        !(await readDoc(`panels/${PANEL_NUEVO.id}/panelEvents/alta-panel-nuevo`)),
+        "el evento original debe eliminarse",
+      );
+      const panelCode = await readDoc(`panelCodes/${PANEL_NUEVO.codigo}`);
+      check(panelCode?.panelId === PANEL_ACTIVO.id, "panelCodes sin repuntar");
+      check(!(await readDoc(`billingMonthlyPanel/${PANEL_NUEVO.id}_${MES_ABIERTO}`)), "facturación del duplicado");
+      check(!!(await readDoc(`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_ABIERTO}`)), "mes reconstruido");
+
+      const audit = await admin.firestore().collection("auditLogs").where("action", "==", "PANEL_MERGE").get();
+      check(audit.size === 1 && audit.docs[0].data().panelId === PANEL_ACTIVO.id, "falta la entrada PANEL_MERGE");
+    },
+  },
+  {
+    nombre: "Duplicado con un mes cerrado → failed-precondition",
+    run: () => expectHttpsError(
+      callAs("mergePanels", "admin", { panelId: PANEL_NUEVO.id, duplicatePanelId: PANEL_ACTIVO.id }),
+      "failed-precondition",
+    ),
+  },
+  {
+    nombre: "Mismo panel → invalid-argument; editor → permission-denied",
+    run: async () => {
+      await expectHttpsError(
+        callAs("mergePanels", "admin", { panelId: PANEL_ACTIVO.id, duplicatePanelId: PANEL_ACTIVO.id }),
+        "invalid-argument",
+      );
+      await expectHttpsError(callAs("mergePanels", "editor", { ...FUSION, dryRun: true }), "permission-denied");
+    },
+  },
+];
+
+export const runMergePanelsSuite = () => runSuite("fusión de paneles", TESTS, baseFixtures);
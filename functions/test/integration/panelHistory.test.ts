@@ -0,0 +1,63 @@
+/**
+ * Integración - getPanelHistory (página de detalle del panel)
+ * Incluye eventos eliminados y la facturación de todos los meses; el visor solo sus municipios
+ */
+
+import * as admin from "firebase-admin";
+import { CALLERS, IntegrationTest, callAs, check, expectHttpsError, runSuite } from "./harness";
+import { MES_ABIERTO, MES_CERRADO, PANEL_ACTIVO, PANEL_NUEVO, baseFixtures } from "./fixtures";
+
+/** Respuesta de getPanelHistory (los campos que se comprueban) */
+interface PanelHistoryResult {
+  panel: { id: string; codigo: string };
+  events: Array<{
+    isDeleted?: boolean;
+    createdAt?: string;
+    createdBy?: string;
+    snapshotAfter?: { estadoActual?: string };
+  }>;
+  months: Array<{ monthKey: string }>;
+}
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Datos maestros, eventos (también eliminados) y meses ordenados",
+    run: async () => {
+      await admin.firestore().doc(`panels/${PANEL_NUEVO.id}/panelEvents/alta-panel-nuevo`).update({
+        isDeleted: true,
+        deletedBy: CALLERS.admin.email,
+      });
+
+      const history = await callAs<PanelHistoryResult>("getPanelHistory", "admin", { panelId: PANEL_NUEVO.id });
+      check(history.panel.codigo === PANEL_NUEVO.codigo, `codigo ${history.panel.codigo}`);
+      check(history.events.length === 1, `${history.events.length} eventos`);
+
+      const alta = history.events[0];
+      check(alta.isDeleted === true, "el evento eliminado debe aparecer marcado");
+      check(typeof alta.createdAt === "string" && typeof alta.createdBy === "string", "faltan autor y fecha");
+      check(alta.snapshotAfter?.estadoActual === "ACTIVO", "falta snapshotAfter");
+      check(history.months.map((m) => m.monthKey).join() === MES_ABIERTO, "meses inesperados");
+    },
+  },
+  {
+    nombre: "Panel con varios meses → orden cronológico",
+    run: async () => {
+      const { months } = await callAs<PanelHistoryResult>("getPanelHistory", "editor", { panelId: PANEL_ACTIVO.id });
+      check(months.map((m) => m.monthKey).join() === `${MES_CERRADO},${MES_ABIERTO}`, "orden de meses");
+    },
+  },
+  {
+    nombre: "Visor → su municipio sí, otro municipio permission-denied",
+    run: async () => {
+      const { panel } = await callAs<PanelHistoryResult>("getPanelHistory", "visor", { panelId: PANEL_ACTIVO.id });
+      check(panel.id === PANEL_ACTIVO.id, "el visor debe ver su panel");
+      await expectHttpsError(callAs("getPanelHistory", "visor", { panelId: PANEL_NUEVO.id }), "permission-denied");
+    },
+  },
+  {
+    nombre: "Panel inexistente → not-found",
+    run: () => expectHttpsError(callAs("getPanelHistory", "admin", { panelId: "no-existe" }), "not-found"),
+  },
+];
+
+export const runPanelHistorySuite = () => runSuite("historial de panel", TESTS, baseFixtures);
@@ -0,0 +1,94 @@
+/**
+ * Integración - requestPanelChange
+ * Evento → recálculo síncrono de billingMonthlyPanel y billingSummary
+ */
+
+import * as admin from "firebase-admin";
+import { IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite } from "./harness";
+import { MES_ABIERTO, MES_CERRADO, PANEL_ACTIVO, baseFixtures } from "./fixtures";
+
+function desmontaje(monthKey: string, dia: number, extra: Record<string, unknown> = {}) {
+  return {
+    panelId: PANEL_ACTIVO.id,
+    action: "DESMONTADO",
+    effectiveDateLocal: `${monthKey}-${String(dia).padStart(2, "0")}`,
+    monthKey,
+    diasFacturables: 0,
+    importeAFacturar: 0,
+    motivo: "Obras en la parada",
+    snapshotBefore: null,
+    snapshotAfter: null,
+    ...extra,
+  };
+}
+
+async function countEvents(panelId: string): Promise<number> {
+  const snapshot = await admin.firestore().collection("panels").doc(panelId).collection("panelEvents").get();
+  return snapshot.size;
+}
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Anónimo → unauthenticated",
+    run: () => expectHttpsError(
+      callAs("requestPanelChange", "anonymous", desmontaje(MES_ABIERTO, 16)),
+      "unauthenticated",
+    ),
+  },
+  {
+    nombre: "Editor: DESMONTADO día 16 → 15 días, 18,85€ y resumen del mes actualizado",
+    run: async () => {
+      const result = await callAs<{ status: string }>("requestPanelChange", "editor", desmontaje(MES_ABIERTO, 16));
+      check(result.status === "ok", `status ${result.status}`);
+
+      const billing = await readDoc(`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_ABIERTO}`);
+      check(billing?.totalDiasFacturables === 15, `días ${billing?.totalDiasFacturables}`);
+      check(billing?.totalImporte === 18.85, `importe ${billing?.totalImporte}`);
+      check(billing?.estadoAlCierre === "DESMONTADO", `estado ${billing?.estadoAlCierre}`);
+
+      // Activo 18,85€ + nuevo 18,85€ (alta día 16) + desmontado 0€
+      const summary = await readDoc(`billingSummary/${MES_ABIERTO}`);
+      check(summary?.totalImporteMes === 37.7, `totalImporteMes ${summary?.totalImporteMes}`);
+      check(summary?.isLocked === false, "el mes debe seguir abierto");
+    },
+  },
+  {
+    nombre: "Mes cerrado → failed-precondition y sin evento",
+    run: async () => {
+      await expectHttpsError(callAs("requestPanelChange", "admin", desmontaje(MES_CERRADO, 10)), "failed-precondition");
+      check(await countEvents(PANEL_ACTIVO.id) === 0, "no debe crearse el evento");
+
+      const billing = await readDoc(`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_CERRADO}`);
+      check(billing?.totalImporte === 37.7, `el mes cerrado no debe cambiar (${billing?.totalImporte})`);
+    },
+  },
+  {
+    nombre: "REINSTALACION de un panel que cerró ACTIVO → failed-precondition",
+    run: () => expectHttpsError(
+      callAs("requestPanelChange", "admin", desmontaje(MES_ABIERTO, 5, { action: "REINSTALACION" })),
+      "failed-precondition",
+    ),
+  },
+  {
+    nombre: "dryRun → vista previa sin escribir",
+    run: async () => {
+      const result = await callAs<{ status: string }>(
+        "requestPanelChange", "editor", desmontaje(MES_ABIERTO, 16, { dryRun: true }),
+      );
+      check(result.status === "preview", `status ${result.status}`);
+      check(await countEvents(PANEL_ACTIVO.id) === 0, "dryRun no debe crear el evento");
+
+      const billing = await readDoc(`billingMonthlyPanel/${PANEL_ACTIVO.id}_${MES_ABIERTO}`);
+      check(billing?.totalImporte === 37.7, `dryRun no debe recalcular (${billing?.totalImporte})`);
+    },
+  },
+  {
+    nombre: "Payload inválido → invalid-argument",
+    run: () => expectHttpsError(
+      callAs("requestPanelChange", "admin", desmontaje(MES_ABIERTO, 16, { monthKey: "10-2025" })),
+      "invalid-argument",
+    ),
+  },
+];
+
+export const runRequestPanelChangeSuite = () => runSuite("requestPanelChange", TESTS, baseFixtures);
@@ -0,0 +1,67 @@
+/**
+ * Integración - roles (admin, editor, auditor, visor de municipio)
+ * El auditor lee sin modificar; el visor solo ve sus municipios
+ */
+
+import { IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite } from "./harness";
+import { MES_ABIERTO, MES_CERRADO, PANEL_ACTIVO, baseFixtures } from "./fixtures";
+import { MonthCloseChecksResult } from "../../src/lib/monthClose";
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Auditor consulta auditoría y comprobaciones de cierre",
+    run: async () => {
+      const auditoria = await callAs<{ entries: unknown[] }>("getAuditLogs", "auditor", {});
+      check(Array.isArray(auditoria.entries), "getAuditLogs debe devolver entradas");
+      const checks = await callAs<MonthCloseChecksResult>("getMonthCloseChecks", "auditor", { monthKey: MES_ABIERTO });
+      check(checks.monthKey === MES_ABIERTO, "getMonthCloseChecks debe responder al auditor");
+    },
+  },
+  {
+    nombre: "Auditor no crea eventos ni abre meses",
+    run: async () => {
+      await expectHttpsError(
+        callAs("requestPanelChange", "auditor", {
+          panelId: PANEL_ACTIVO.id,
+          action: "DESMONTAJE",
+          effectiveDateLocal: `${MES_ABIERTO}-20`,
+        }),
+        "permission-denied",
+      );
+      await expectHttpsError(
+        callAs("toggleMonthLock", "auditor", { monthKey: MES_CERRADO, isLocked: false }),
+        "permission-denied",
+      );
+      const summary = await readDoc(`billingSummary/${MES_CERRADO}`);
+      check(summary?.isLocked === true, "el mes debe seguir cerrado");
+    },
+  },
+  {
+    nombre: "Editor no consulta la auditoría",
+    run: () => expectHttpsError(callAs("getAuditLogs", "editor", {}), "permission-denied"),
+  },
+  {
+    nombre: "Visor ve solo las ubicaciones de sus municipios",
+    run: async () => {
+      const { locations } = await callAs<{ locations: string[] }>("getUniqueLocations", "visor", {});
+      check(
+        locations.length === 1 && locations[0] === `Parada ${PANEL_ACTIVO.codigo}`,
+        `ubicaciones inesperadas: ${locations.join(", ")}`,
+      );
+    },
+  },
+  {
+    nombre: "Visor no consulta auditoría, informes ni comprobaciones de cierre",
+    run: async () => {
+      await expectHttpsError(callAs("getAuditLogs", "visor", {}), "permission-denied");
+      await expectHttpsError(callAs("getMonthCloseChecks", "visor", { monthKey: MES_ABIERTO }), "permission-denied");
+      await expectHttpsError(callAs("generateReport", "visor", { monthKey: MES_ABIERTO, type: "pdf" }), "permission-denied");
+    },
+  },
+  {
+    nombre: "Anónimo → unauthenticated",
+    run: () => expectHttpsError(callAs("getUniqueLocations", "anonymous", {}), "unauthenticated"),
+  },
+];
+
+export const runRolesSuite = () => runSuite("roles", TESTS, baseFixtures);
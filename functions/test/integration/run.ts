@@ -0,0 +1,58 @@
+/**
+ * Tests de integración - PIV Manager
+ * Ejecutar con: npm run test:integration (arranca el emulador de Firestore con emulators:exec)
+ */
+
+import { testEnv } from "./harness";
+import { runRequestPanelChangeSuite } from "./requestPanelChange.test";
+import { runCreateNextMonthSuite } from "./createNextMonth.test";
+import { runToggleMonthLockSuite } from "./toggleMonthLock.test";
+import { runCloseMonthSuite } from "./closeMonth.test";
+import { runDeletePanelSuite } from "./deletePanel.test";
+import { runApprovalsSuite } from "./approvals.test";
+import { runAuditLogsSuite } from "./auditLogs.test";
+import { runRolesSuite } from "./roles.test";
+import { runUsersSuite } from "./users.test";
+import { runPanelHistorySuite } from "./panelHistory.test";
+import { runMergePanelsSuite } from "./mergePanels.test";
+import { runChangePanelCodeSuite } from "./changePanelCode.test";
+import { runInvoicingSuite } from "./invoicing.test";
+import { runFirestoreRulesSuite } from "./firestoreRules.test";
+
+const SUITES = [
+  runRequestPanelChangeSuite,
+  runCreateNextMonthSuite,
+  runToggleMonthLockSuite,
+  runCloseMonthSuite,
+  runDeletePanelSuite,
+  runApprovalsSuite,
+  runAuditLogsSuite,
+  runRolesSuite,
+  runUsersSuite,
+  runPanelHistorySuite,
+  runMergePanelsSuite,
+  runChangePanelCodeSuite,
+  runInvoicingSuite,
+  runFirestoreRulesSuite,
+];
+
+async function main() {
+  console.log("🧪 TESTS DE INTEGRACIÓN (Firebase Emulator) - PIV Manager");
+  console.log("==============================================");
+
+  let fallidos = 0;
+  for (const suite of SUITES) {
+    fallidos += await suite();
+  }
+
+  console.log("\n==============================================");
+  console.log(fallidos === 0 ? "✅ TODOS LOS TESTS DE INTEGRACIÓN PASADOS" : `❌ ${fallidos} tests fallidos`);
+
+  testEnv.cleanup();
+  process.exit(fallidos === 0 ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error("❌ Error en el harness de integración:", error);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+/**
+ * Integración - toggleMonthLock
+ * Apertura del mes (el cierre va por closeMonth)
+ */
+
+import { IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite } from "./harness";
+import { MES_ABIERTO, MES_CERRADO, baseFixtures } from "./fixtures";
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Editor → permission-denied y el mes sigue abierto",
+    run: async () => {
+      await expectHttpsError(
+        callAs("toggleMonthLock", "editor", { monthKey: MES_ABIERTO, isLocked: true }),
+        "permission-denied",
+      );
+      const summary = await readDoc(`billingSummary/${MES_ABIERTO}`);
+      check(summary?.isLocked === false, "el mes no debe cerrarse");
+    },
+  },
+  {
+    nombre: "Cerrar con toggleMonthLock → failed-precondition (se cierra con closeMonth)",
+    run: async () => {
+      await expectHttpsError(
+        callAs("toggleMonthLock", "admin", { monthKey: MES_ABIERTO, isLocked: true }),
+        "failed-precondition",
+      );
+      const summary = await readDoc(`billingSummary/${MES_ABIERTO}`);
+      check(summary?.isLocked === false, "el mes no debe cerrarse");
+    },
+  },
+  {
+    nombre: "Admin abre septiembre → isLocked false",
+    run: async () => {
+      await callAs("toggleMonthLock", "admin", { monthKey: MES_CERRADO, isLocked: false });
+      const summary = await readDoc(`billingSummary/${MES_CERRADO}`);
+      check(summary?.isLocked === false, "billingSummary.isLocked debe ser false");
+    },
+  },
+  {
+    nombre: "Mes inexistente → not-found",
+    run: () => expectHttpsError(
+      callAs("toggleMonthLock", "admin", { monthKey: "2024-01", isLocked: false }),
+      "not-found",
+    ),
+  },
+];
+
+export const runToggleMonthLockSuite = () => runSuite("toggleMonthLock", TESTS, baseFixtures);
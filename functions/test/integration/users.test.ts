@@ -0,0 +1,124 @@
+/**
+ * Integración - gestión de usuarios (listUsers, inviteUser, setUserDisabled, revokeUserSessions)
+ * Cuentas en el emulador de Auth; cada acción deja entrada en auditLogs
+ */
+
+import * as admin from "firebase-admin";
+import { CALLERS, IntegrationTest, callAs, check, expectHttpsError, readDoc, runSuite } from "./harness";
+import { baseFixtures } from "./fixtures";
+import { UserSummary } from "../../src/lib/users";
+
+const INVITADO = "nuevo.visor@piv-manager.test";
+
+/**
+ * Acciones de auditoría registradas sobre un usuario
+ * @param uid - Usuario afectado
+ */
+async function auditActions(uid: string): Promise<string[]> {
+  const snapshot = await admin.firestore().collection("auditLogs").where("targetId", "==", uid).get();
+  return snapshot.docs.map((doc) => doc.data().action);
+}
+
+/** Crea la cuenta del editor en Auth (las fixtures solo siembran Firestore) */
+const crearCuentaEditor = () =>
+  admin.auth().createUser({ uid: CALLERS.editor.uid, email: CALLERS.editor.email });
+
+const TESTS: IntegrationTest[] = [
+  {
+    nombre: "Invitar visor → cuenta con claims, users/{uid}, enlace y auditoría",
+    run: async () => {
+      const result = await callAs<{ inviteLink: string }>("inviteUser", "admin", {
+        email: INVITADO,
+        role: "visor",
+        municipioIds: ["getafe"],
+      });
+      check(typeof result.inviteLink === "string" && result.inviteLink.length > 0, "falta el enlace de invitación");
+
+      const user = await admin.auth().getUserByEmail(INVITADO);
+      check(user.customClaims?.role === "visor", `role ${user.customClaims?.role}`);
+      check(user.customClaims?.municipioIds?.[0] === "getafe", "municipioIds no asignados");
+
+      const stored = await readDoc(`users/${user.uid}`);
+      check(stored?.role === "visor", `users/{uid}.role ${stored?.role}`);
+      check((await auditActions(user.uid)).includes("USER_INVITE"), "falta la entrada USER_INVITE");
+    },
+  },
+  {
+    nombre: "Invitar un email existente → already-exists",
+    run: async () => {
+      await crearCuentaEditor();
+      await expectHttpsError(
+        callAs("inviteUser", "admin", { email: CALLERS.editor.email, role: "editor" }),
+        "already-exists",
+      );
+    },
+  },
+  {
+    nombre: "Visor sin municipios → invalid-argument",
+    run: () => expectHttpsError(callAs("inviteUser", "admin", { email: INVITADO, role: "visor" }), "invalid-argument"),
+  },
+  {
+    nombre: "listUsers devuelve rol, estado y fechas",
+    run: async () => {
+      await crearCuentaEditor();
+      const { users } = await callAs<{ users: UserSummary[] }>("listUsers", "admin", {});
+      const editor = users.find((user) => user.uid === CALLERS.editor.uid);
+      check(!!editor, "el editor debe aparecer en la lista");
+      // Sin claims de rol: se usa users/{uid}.role de las fixtures
+      check(editor?.role === "editor", `rol ${editor?.role}`);
+      check(editor?.disabled === false, "no debe estar deshabilitado");
+      check(typeof editor?.creationTime === "string", "falta creationTime");
+    },
+  },
+  {
+    nombre: "Deshabilitar y habilitar → estado en Auth y auditoría",
+    run: async () => {
+      await crearCuentaEditor();
+      const disabled = await callAs<{ user: UserSummary }>("setUserDisabled", "admin", {
+        uid: CALLERS.editor.uid,
+        disabled: true,
+      });
+      check(disabled.user.disabled === true, "debe quedar deshabilitado");
+      check(disabled.user.tokensValidAfterTime !== null, "deshabilitar debe revocar las sesiones");
+
+      await callAs("setUserDisabled", "admin", { uid: CALLERS.editor.uid, disabled: false });
+      check((await admin.auth().getUser(CALLERS.editor.uid)).disabled === false, "debe quedar habilitado");
+
+      const actions = await auditActions(CALLERS.editor.uid);
+      check(actions.filter((action) => action === "USER_STATUS_CHANGE").length === 2, `acciones ${actions.join(", ")}`);
+    },
+  },
+  {
+    nombre: "Un admin no puede deshabilitarse a sí mismo",
+    run: () => expectHttpsError(
+      callAs("setUserDisabled", "admin", { uid: CALLERS.admin.uid, disabled: true }),
+      "failed-precondition",
+    ),
+  },
+  {
+    nombre: "Revocar sesiones → tokensValidAfterTime y auditoría",
+    run: async () => {
+      await crearCuentaEditor();
+      const result = await callAs<{ user: UserSummary }>("revokeUserSessions", "admin", { uid: CALLERS.editor.uid });
+      check(result.user.tokensValidAfterTime !== null, "falta tokensValidAfterTime");
+      check((await auditActions(CALLERS.editor.uid)).includes("USER_SESSIONS_REVOKE"), "falta USER_SESSIONS_REVOKE");
+    },
+  },
+  {
+    nombre: "Usuario inexistente → not-found",
+    run: () => expectHttpsError(callAs("revokeUserSessions", "admin", { uid: "uid-inexistente" }), "not-found"),
+  },
+  {
+    nombre: "Editor y auditor → permission-denied",
+    run: async () => {
+      await expectHttpsError(callAs("listUsers", "editor", {}), "permission-denied");
+      await expectHttpsError(callAs("inviteUser", "auditor", { email: INVITADO, role: "editor" }), "permission-denied");
+      await expectHttpsError(
+        callAs("setUserDisabled", "editor", { uid: CALLERS.admin.uid, disabled: true }),
+        "permission-denied",
+      );
+    },
+  },
+];
+
+export const runUsersSuite = () => runSuite("usuarios", TESTS, baseFixtures);
@@ -12,6 +12,8 @@ import { useAuth } from "@/lib/firebase";
 import {
   getSummary,
   getMonthlyBilling,
+  getBillingAsOf,
+  summarizePanels,
   BillingSummary,
   BillingMonthlyPanel,
 } from "@/lib/api";
@@ -36,13 +38,21 @@ export default function DashboardPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Vista histórica: "" = datos actuales; "YYYY-MM-DDTHH:mm" = reconstrucción a esa fecha
+  const [asOf, setAsOf] = useState<string>("");
+  const [asOfWarning, setAsOfWarning] = useState<string | null>(null);
+
   // Filtros
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
 
   // Auth
   const { user, loading: authLoading } = useAuth();
-  const isAdmin = user?.token?.admin === true;
+  const role = user?.token?.role ?? null;
+  const isAdmin = role === "admin";
+  const canEdit = role === "admin" || role === "editor";
+  // Visor de municipio: solo sus municipios (sin billingSummary global ni informes)
+  const visorMunicipios = role === "visor" ? user?.token.municipioIds ?? [] : undefined;
   const isLocked = summary?.isLocked ?? false;
 
   // Protección de ruta: redirigir a login si no hay usuario
@@ -52,20 +62,58 @@ export default function DashboardPage() {
     }
   }, [user, authLoading, router]);
 
+  // Mes inicial desde la URL (?month=YYYY-MM, enlaces desde la ficha del panel)
+  useEffect(() => {
+    const month = new URLSearchParams(window.location.search).get("month");
+    if (month && /^\d{4}-\d{2}$/.test(month)) {
+      setMonthKey(month);
+    }
+  }, []);
+
+  // Resumen y filas del mes (el visor calcula el resumen desde sus filas)
+  const loadMonth = async (): Promise<[BillingSummary | null, BillingMonthlyPanel[]]> => {
+    if (visorMunicipios) {
+      const visibles = await getMonthlyBilling(monthKey, visorMunicipios);
+      return [summarizePanels(monthKey, visibles), visibles];
+    }
+    return Promise.all([getSummary(monthKey), getMonthlyBilling(monthKey)]);
+  };
+
+  const refreshMonth = () => {
+    loadMonth()
+      .then(([summaryData, panelsData]) => {
+        setSummary(summaryData);
+        setPanels(panelsData);
+      })
+      .catch(console.error);
+  };
+
   // Fetch data
   useEffect(() => {
+    if (authLoading || !user) return;
+
     const fetchData = async () => {
       setLoading(true);
       setError(null);
 
       try {
-        const [summaryData, panelsData] = await Promise.all([
-          getSummary(monthKey),
-          getMonthlyBilling(monthKey),
-        ]);
+        if (asOf) {
+          const result = await getBillingAsOf(monthKey, new Date(asOf).toISOString());
+          setSummary({ ...result.summary, updatedAt: result.asOf });
+          setPanels(result.panels.map((p) => ({ ...p, updatedAt: p.revisionAt })));
+          setAsOfWarning(
+            result.panelesNoReconstruibles.length > 0
+              ? `${result.panelesNoReconstruibles.length} panel(es) existían antes del historial de revisiones y no se pueden reconstruir a esta fecha.`
+              : null
+          );
+          return;
+        }
+
+        const [summaryData, panelsData] = await loadMonth();
 
         setSummary(summaryData);
         setPanels(panelsData);
+        setAsOfWarning(null);
       } catch (err: any) {
         setError(err.message || "Error al cargar los datos");
       } finally {
@@ -74,7 +122,7 @@ export default function DashboardPage() {
     };
 
     fetchData();
-  }, [monthKey]);
+  }, [monthKey, asOf, user, authLoading]);
 
   const handleMonthChange = (newMonth: string) => {
     setMonthKey(newMonth);
@@ -104,12 +152,30 @@ export default function DashboardPage() {
           monthKey={monthKey}
           isLocked={isLocked}
           onMonthChange={handleMonthChange}
-          onDataRefresh={() => {
-            getSummary(monthKey).then(setSummary).catch(console.error);
-            getMonthlyBilling(monthKey).then(setPanels).catch(console.error);
-          }}
+          onDataRefresh={refreshMonth}
+          asOf={asOf}
+          onAsOfChange={setAsOf}
         />
 
+        {/* Aviso de vista histórica */}
+        {asOf && !loading && (
+          <div
+            style={{
+              marginTop: "16px",
+              padding: "12px 16px",
+              backgroundColor: "#FFFBE6",
+              border: "1px solid #FFE58F",
+              borderRadius: "2px",
+              fontSize: "14px",
+              color: "#595959",
+            }}
+          >
+            Mostrando la facturación de {monthKey} tal y como estaba el{" "}
+            {new Date(asOf).toLocaleString("es-ES")}. Vista de solo lectura.
+            {asOfWarning && <div style={{ marginTop: "4px" }}>{asOfWarning}</div>}
+          </div>
+        )}
+
         {/* Aviso si mes bloqueado */}
         {isLocked && !loading && (
           <div
@@ -167,22 +233,24 @@ export default function DashboardPage() {
             searchQuery={searchQuery}
             statusFilter={statusFilter}
             monthKey={monthKey}
-            onRefresh={() => {
-              getSummary(monthKey).then(setSummary).catch(console.error);
-              getMonthlyBilling(monthKey).then(setPanels).catch(console.error);
-            }}
+            readOnly={asOf !== "" || !canEdit}
+            isLocked={isLocked}
+            onRefresh={refreshMonth}
           />
         </div>
 
-        {/* Actions - Los reportes son lectura, siempre habilitados */}
-        <div style={{ marginTop: "24px" }}>
-          <ActionsBar monthKey={monthKey} disabled={loading} />
-        </div>
+        {/* Actions - Los reportes son lectura, siempre habilitados (el visor no los ve: son de todos los municipios) */}
+        {!visorMunicipios && (
+          <div style={{ marginTop: "24px" }}>
+            <ActionsBar monthKey={monthKey} disabled={loading} />
+          </div>
+        )}
 
-        {/* Admin Section - Import/Close bloqueados si isLocked */}
-        {isAdmin && (
+        {/* Admin Section - Import/Close bloqueados si isLocked; el auditor solo consulta la auditoría */}
+        {(isAdmin || role === "auditor") && (
           <AdminSection
             isAdmin={isAdmin}
+            isAuditor={role === "auditor"}
             isLocked={isLocked}
             monthKey={monthKey}
             onMonthClosed={handleMonthClosed}
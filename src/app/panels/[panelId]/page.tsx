@@ -0,0 +1,303 @@
+/**
+ * Panel Detail Page
+ * Historial completo de un panel: datos maestros, facturación mes a mes,
+ * ingresos acumulados y todos los eventos (también los eliminados) con su diff
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { useAuth } from "@/lib/firebase";
+import { getPanelHistory, PanelHistory, PanelHistoryEvent } from "@/lib/api";
+import PanelRevenueChart from "@/components/PanelRevenueChart";
+
+const ESTADO_COLORS: Record<string, string> = {
+  ACTIVO: "#52C41A",
+  DESMONTADO: "#FA8C16",
+  BAJA: "#FF4D4F",
+};
+
+const MASTER_FIELDS: { key: string; label: string }[] = [
+  { key: "codigo", label: "Código" },
+  { key: "municipio", label: "Municipio" },
+  { key: "ubicacion", label: "Ubicación" },
+  { key: "tipo", label: "Tipo" },
+  { key: "estadoActual", label: "Estado actual" },
+  { key: "tarifaBaseMes", label: "Tarifa base" },
+  { key: "contratoId", label: "Contrato" },
+  { key: "createdAt", label: "Alta en el sistema" },
+];
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "—" :
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+
+const formatDateTime = (iso: string | null | undefined) =>
+  iso ? new Date(iso).toLocaleString("es-ES") : "—";
+
+/**
+ * Campos que cambian entre snapshotBefore y snapshotAfter
+ */
+function snapshotDiff(event: PanelHistoryEvent): { field: string; before: unknown; after: unknown }[] {
+  const before = event.snapshotBefore || {};
+  const after = event.snapshotAfter || {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+const cardStyle = {
+  backgroundColor: "#FFF",
+  border: "1px solid #EAEAEA",
+  borderRadius: "8px",
+  padding: "24px",
+  marginBottom: "24px",
+};
+
+const sectionTitleStyle = {
+  fontSize: "16px",
+  fontWeight: 600,
+  color: "#000",
+  margin: "0 0 16px 0",
+};
+
+export default function PanelDetailPage() {
+  const router = useRouter();
+  const params = useParams<{ panelId: string }>();
+  const panelId = decodeURIComponent(params.panelId);
+
+  const [history, setHistory] = useState<PanelHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { user, loading: authLoading } = useAuth();
+
+  // Protección de ruta: redirigir a login si no hay usuario
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push("/login");
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    if (authLoading || !user) return;
+
+    setLoading(true);
+    setError(null);
+    getPanelHistory(panelId)
+      .then(setHistory)
+      .catch((err: any) => setError(err.message || "Error al cargar el panel"))
+      .finally(() => setLoading(false));
+  }, [panelId, user, authLoading]);
+
+  // Meses en los que cambia el estado al cierre respecto al mes anterior
+  const stateChanges = (history?.months ?? [])
+    .map((month, index, months) => ({
+      month,
+      anterior: index > 0 ? months[index - 1].estadoAlCierre : null,
+    }))
+    .filter(({ month, anterior }) => anterior !== null && month.estadoAlCierre !== anterior);
+
+  const totalFacturado = (history?.months ?? []).reduce((sum, month) => sum + month.totalImporte, 0);
+
+  return (
+    <div style={{ minHeight: "100vh", backgroundColor: "#F7F7F7", padding: "24px" }}>
+      <div style={{ maxWidth: "1400px", margin: "0 auto" }}>
+        <div style={{ marginBottom: "16px" }}>
+          <Link href="/dashboard" style={{ fontSize: "14px", color: "#1890FF", textDecoration: "none" }}>
+            ← Volver al dashboard
+          </Link>
+        </div>
+
+        {loading && <div style={{ fontSize: "14px", color: "#595959" }}>Cargando historial…</div>}
+
+        {error && (
+          <div
+            style={{
+              padding: "16px",
+              backgroundColor: "#FFF1F0",
+              border: "1px solid #FFCCC7",
+              borderRadius: "8px",
+              fontSize: "14px",
+              color: "#CF1322",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {history && !loading && (
+          <>
+            {/* Datos maestros */}
+            <div style={cardStyle}>
+              <h1 style={{ fontSize: "24px", fontWeight: 600, color: "#000", margin: "0 0 4px 0" }}>
+                Panel {history.panel.codigo}
+              </h1>
+              <div style={{ fontSize: "13px", color: "#8C8C8C", marginBottom: "16px" }}>{history.panel.id}</div>
+              {/* Renumeraciones: los meses anteriores a cada cambio conservan el código antiguo */}
+              {(history.panel.historialCodigos ?? []).length > 0 && (
+                <ul style={{ margin: "0 0 16px 0", paddingLeft: "20px", fontSize: "13px", color: "#595959" }}>
+                  {history.panel.historialCodigos!.map((change) => (
+                    <li key={`${change.effectiveDateLocal}-${change.codigoNuevo}`} style={{ marginBottom: "4px" }}>
+                      {change.codigoAnterior} → <strong>{change.codigoNuevo}</strong> desde {change.effectiveDateLocal}
+                      {change.motivo && ` · ${change.motivo}`}
+                      <span style={{ color: "#8C8C8C" }}> ({change.changedBy})</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))",
+                  gap: "12px 24px",
+                }}
+              >
+                {MASTER_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <div style={{ fontSize: "12px", color: "#8C8C8C" }}>{label}</div>
+                    <div style={{ fontSize: "14px", color: "#000" }}>
+                      {key === "createdAt"
+                        ? formatDateTime(history.panel.createdAt as string | null)
+                        : formatValue(history.panel[key])}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Facturación mes a mes */}
+            <div style={cardStyle}>
+              <h2 style={sectionTitleStyle}>Facturación mensual</h2>
+              {history.months.length === 0 ? (
+                <div style={{ fontSize: "14px", color: "#A3A3A3" }}>Sin meses facturados</div>
+              ) : (
+                <div style={{ display: "flex", gap: "8px", overflowX: "auto", paddingBottom: "8px" }}>
+                  {history.months.map((month) => (
+                    <Link
+                      key={month.monthKey}
+                      href={`/dashboard?month=${month.monthKey}`}
+                      style={{
+                        flex: "0 0 128px",
+                        padding: "12px",
+                        border: "1px solid #EAEAEA",
+                        borderTop: `3px solid ${ESTADO_COLORS[month.estadoAlCierre] ?? "#D9D9D9"}`,
+                        borderRadius: "6px",
+                        textDecoration: "none",
+                        color: "#000",
+                      }}
+                    >
+                      <div style={{ fontSize: "13px", fontWeight: 600 }}>{month.monthKey}</div>
+                      {month.codigo !== history.panel.codigo && (
+                        <div style={{ fontSize: "12px", color: "#8C8C8C" }}>Código {month.codigo}</div>
+                      )}
+                      <div style={{ fontSize: "12px", color: "#595959" }}>{month.estadoAlCierre}</div>
+                      <div style={{ fontSize: "12px", color: "#595959" }}>
+                        {month.totalDiasFacturables} días · {month.tarifaAplicada.toFixed(2)} €
+                      </div>
+                      <div style={{ fontSize: "14px", fontWeight: 600, marginTop: "4px" }}>
+                        {month.totalImporte.toFixed(2)} €
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Ingresos acumulados */}
+            <div style={cardStyle}>
+              <h2 style={sectionTitleStyle}>
+                Ingresos acumulados
+                <span style={{ fontSize: "14px", fontWeight: 400, color: "#595959", marginLeft: "8px" }}>
+                  {totalFacturado.toFixed(2)} €
+                </span>
+              </h2>
+              <PanelRevenueChart months={history.months} />
+            </div>
+
+            {/* Cambios de estado */}
+            <div style={cardStyle}>
+              <h2 style={sectionTitleStyle}>Cambios de estado</h2>
+              {stateChanges.length === 0 ? (
+                <div style={{ fontSize: "14px", color: "#A3A3A3" }}>Sin cambios de estado entre meses</div>
+              ) : (
+                <ul style={{ margin: 0, paddingLeft: "20px", fontSize: "14px", color: "#000" }}>
+                  {stateChanges.map(({ month, anterior }) => (
+                    <li key={month.monthKey} style={{ marginBottom: "4px" }}>
+                      <Link href={`/dashboard?month=${month.monthKey}`} style={{ color: "#1890FF" }}>
+                        {month.monthKey}
+                      </Link>
+                      : {anterior} → {month.estadoAlCierre}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Eventos */}
+            <div style={cardStyle}>
+              <h2 style={sectionTitleStyle}>Eventos ({history.events.length})</h2>
+              {history.events.length === 0 && (
+                <div style={{ fontSize: "14px", color: "#A3A3A3" }}>Sin eventos</div>
+              )}
+              {history.events.map((event) => {
+                const diff = snapshotDiff(event);
+                return (
+                  <div
+                    key={event.id}
+                    style={{
+                      padding: "12px 0",
+                      borderBottom: "1px solid #EAEAEA",
+                      opacity: event.isDeleted ? 0.6 : 1,
+                    }}
+                  >
+                    <div style={{ display: "flex", gap: "12px", alignItems: "baseline", flexWrap: "wrap" }}>
+                      <span style={{ fontSize: "14px", fontWeight: 600, color: "#000" }}>{event.effectiveDateLocal}</span>
+                      <span
+                        style={{
+                          fontSize: "14px",
+                          color: "#000",
+                          textDecoration: event.isDeleted ? "line-through" : "none",
+                        }}
+                      >
+                        {event.action}
+                      </span>
+                      {event.isDeleted && (
+                        <span style={{ fontSize: "12px", color: "#CF1322" }}>
+                          Eliminado por {event.deletedBy || "—"} ({formatDateTime(event.deletedAt)})
+                        </span>
+                      )}
+                      <span style={{ fontSize: "12px", color: "#8C8C8C", marginLeft: "auto" }}>
+                        {event.createdBy || "—"} · {formatDateTime(event.createdAt)}
+                      </span>
+                    </div>
+                    {event.motivo && (
+                      <div style={{ fontSize: "13px", color: "#595959", marginTop: "4px" }}>{event.motivo}</div>
+                    )}
+                    {diff.length > 0 && (
+                      <table style={{ marginTop: "8px", fontSize: "12px", borderCollapse: "collapse" }}>
+                        <tbody>
+                          {diff.map(({ field, before, after }) => (
+                            <tr key={field}>
+                              <td style={{ padding: "2px 12px 2px 0", color: "#8C8C8C" }}>{field}</td>
+                              <td style={{ padding: "2px 12px 2px 0", color: "#CF1322" }}>{formatValue(before)}</td>
+                              <td style={{ padding: "2px 12px 2px 0", color: "#595959" }}>→</td>
+                              <td style={{ padding: "2px 0", color: "#389E0D" }}>{formatValue(after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
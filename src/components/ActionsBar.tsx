@@ -1,15 +1,16 @@
 /**
  * ActionsBar Component
- * Botones para generar reportes PDF/Excel
+ * Botones para generar reportes PDF/Excel y exportar Facturae
  * Diseño: horizontal, botones neutrales, estados de carga
  */
 
 "use client";
 
 import { useState } from "react";
-import { generateReport, generateExecutiveReport } from "@/lib/api";
+import { generateReport, generateExecutiveReport, reconcileCustomerListing } from "@/lib/api";
 import ExecutiveReportModal from "./ExecutiveReportModal";
-import type { ExecutiveReport } from "@/lib/api";
+import ReconciliationModal from "./ReconciliationModal";
+import type { ExecutiveReport, ReconciliationResult } from "@/lib/api";
 
 interface ActionsBarProps {
   monthKey: string;
@@ -20,8 +21,14 @@ export default function ActionsBar({ monthKey, disabled = false }: ActionsBarPro
   const [loadingPDF, setLoadingPDF] = useState(false);
   const [loadingExcel, setLoadingExcel] = useState(false);
   const [loadingExecutive, setLoadingExecutive] = useState(false);
+  const [loadingFacturae, setLoadingFacturae] = useState(false);
+  const [facturaeFiles, setFacturaeFiles] = useState<
+    Array<{ numero: string; municipio: string; fileName: string; url: string }>
+  >([]);
   const [error, setError] = useState<string | null>(null);
   const [executiveReport, setExecutiveReport] = useState<ExecutiveReport | null>(null);
+  const [loadingReconciliation, setLoadingReconciliation] = useState(false);
+  const [reconciliation, setReconciliation] = useState<ReconciliationResult | null>(null);
 
   const handleGenerateReport = async (format: "pdf" | "excel") => {
     const setLoading = format === "pdf" ? setLoadingPDF : setLoadingExcel;
@@ -40,6 +47,21 @@ export default function ActionsBar({ monthKey, disabled = false }: ActionsBarPro
     }
   };
 
+  const handleExportFacturae = async () => {
+    setLoadingFacturae(true);
+    setError(null);
+    setFacturaeFiles([]);
+
+    try {
+      const result = await generateReport({ monthKey, type: "facturae" });
+      setFacturaeFiles(result.files || []);
+    } catch (err: any) {
+      setError(err.message || "Error al exportar Facturae");
+    } finally {
+      setLoadingFacturae(false);
+    }
+  };
+
   const handleGenerateExecutiveReport = async () => {
     setLoadingExecutive(true);
     setError(null);
@@ -54,6 +76,25 @@ export default function ActionsBar({ monthKey, disabled = false }: ActionsBarPro
     }
   };
 
+  const handleReconcileListing = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setLoadingReconciliation(true);
+    setError(null);
+
+    try {
+      const csv = await file.text();
+      const result = await reconcileCustomerListing({ monthKey, csv, fileName: file.name });
+      setReconciliation(result);
+    } catch (err: any) {
+      setError(err.message || "Error al conciliar el listado del cliente");
+    } finally {
+      setLoadingReconciliation(false);
+      e.target.value = "";
+    }
+  };
+
   return (
     <div>
       <div
@@ -149,6 +190,58 @@ export default function ActionsBar({ monthKey, disabled = false }: ActionsBarPro
           <span>📄</span>
           <span>{loadingExecutive ? "Generando..." : "Informe Ejecutivo"}</span>
         </button>
+
+        <label
+          title="CSV del cliente: Municipio;Código Parada;Facturación"
+          style={{
+            padding: "10px 20px",
+            fontSize: "14px",
+            fontWeight: 500,
+            color: disabled || loadingReconciliation ? "#A3A3A3" : "#000",
+            backgroundColor: "#FFF",
+            border: "1px solid #D9D9D9",
+            borderRadius: "2px",
+            cursor: disabled || loadingReconciliation ? "not-allowed" : "pointer",
+            transition: "all 150ms",
+          }}
+        >
+          {loadingReconciliation ? "Conciliando..." : "Conciliar listado"}
+          <input
+            type="file"
+            accept=".csv,.txt"
+            onChange={handleReconcileListing}
+            disabled={disabled || loadingReconciliation}
+            style={{ display: "none" }}
+          />
+        </label>
+
+        <button
+          onClick={handleExportFacturae}
+          disabled={disabled || loadingFacturae}
+          title="XML Facturae 3.2.2 por factura emitida (mes cerrado)"
+          style={{
+            padding: "10px 20px",
+            fontSize: "14px",
+            fontWeight: 500,
+            color: disabled || loadingFacturae ? "#A3A3A3" : "#000",
+            backgroundColor: "#FFF",
+            border: "1px solid #D9D9D9",
+            borderRadius: "2px",
+            cursor: disabled || loadingFacturae ? "not-allowed" : "pointer",
+            transition: "all 150ms",
+            outline: "none",
+          }}
+          onMouseEnter={(e) => {
+            if (!disabled && !loadingFacturae) {
+              e.currentTarget.style.backgroundColor = "#F7F7F7";
+            }
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = "#FFF";
+          }}
+        >
+          {loadingFacturae ? "Validando..." : "Facturae (FACe)"}
+        </button>
       </div>
 
       {error && (
@@ -161,18 +254,52 @@ export default function ActionsBar({ monthKey, disabled = false }: ActionsBarPro
             backgroundColor: "#F7F7F7",
             border: "1px solid #EAEAEA",
             borderRadius: "2px",
+            whiteSpace: "pre-line",
           }}
         >
           {error}
         </div>
       )}
 
+      {facturaeFiles.length > 0 && (
+        <div
+          style={{
+            marginTop: "8px",
+            padding: "8px 12px",
+            fontSize: "12px",
+            color: "#595959",
+            backgroundColor: "#F6FFED",
+            border: "1px solid #B7EB8F",
+            borderRadius: "2px",
+          }}
+        >
+          <div style={{ marginBottom: "4px", fontWeight: 500 }}>
+            ✓ {facturaeFiles.length} fichero(s) Facturae validados contra el XSD
+          </div>
+          {facturaeFiles.map((file) => (
+            <div key={file.numero}>
+              <a href={file.url} target="_blank" rel="noreferrer" style={{ color: "#1890FF" }}>
+                {file.fileName}
+              </a>{" "}
+              · {file.municipio}
+            </div>
+          ))}
+        </div>
+      )}
+
       {executiveReport && (
         <ExecutiveReportModal
           report={executiveReport}
           onClose={() => setExecutiveReport(null)}
         />
       )}
+
+      {reconciliation && (
+        <ReconciliationModal
+          result={reconciliation}
+          onClose={() => setReconciliation(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,7 +1,8 @@
 /**
  * AdminConsoleModal Component
  * Modal con pestañas para organizar todas las herramientas administrativas
- * Pestañas: General, Operaciones Mensuales, Mantenimiento, Legacy/Dev
+ * Pestañas: General, Contratos, Operaciones Mensuales, Eventos, Mantenimiento, Aprobaciones, Auditoría, Usuarios, Legacy/Dev
+ * En modo solo lectura (auditor) solo se muestra Auditoría
  */
 
 "use client";
@@ -9,6 +10,17 @@
 import { useState, useEffect } from "react";
 import YearlyRatesManager from "./admin/YearlyRatesManager";
 import CreatePanelForm from "./admin/CreatePanelForm";
+import InvoicesManager from "./admin/InvoicesManager";
+import ContractsManager from "./admin/ContractsManager";
+import PriceRevisionManager from "./admin/PriceRevisionManager";
+import ScheduledEventsCalendar from "./admin/ScheduledEventsCalendar";
+import BulkEventsImporter from "./admin/BulkEventsImporter";
+import DeadLettersManager from "./admin/DeadLettersManager";
+import PanelMergeTool from "./admin/PanelMergeTool";
+import ApprovalsInbox from "./admin/ApprovalsInbox";
+import AuditLogViewer from "./admin/AuditLogViewer";
+import UsersManager from "./admin/UsersManager";
+import MonthCloseWizard from "./MonthCloseWizard";
 
 interface AdminConsoleModalProps {
   isOpen: boolean;
@@ -16,9 +28,10 @@ interface AdminConsoleModalProps {
   monthKey: string;
   isLocked: boolean;
   onMonthClosed?: () => void;
+  readOnly?: boolean; // Auditor: solo la pestaña de auditoría
 }
 
-type Tab = "general" | "monthly" | "inventory" | "maintenance" | "legacy";
+type Tab = "general" | "contracts" | "monthly" | "events" | "inventory" | "maintenance" | "approvals" | "audit" | "users" | "legacy";
 
 export default function AdminConsoleModal({
   isOpen,
@@ -26,18 +39,25 @@ export default function AdminConsoleModal({
   monthKey,
   isLocked,
   onMonthClosed,
+  readOnly = false,
 }: AdminConsoleModalProps) {
-  const [activeTab, setActiveTab] = useState<Tab>("general");
+  const [activeTab, setActiveTab] = useState<Tab>(readOnly ? "audit" : "general");
 
   if (!isOpen) return null;
 
-  const tabs = [
+  const allTabs = [
     { id: "general" as Tab, label: "🟢 General", color: "#52C41A" },
+    { id: "contracts" as Tab, label: "📄 Contratos", color: "#13C2C2" },
     { id: "monthly" as Tab, label: "🔵 Operaciones Mensuales", color: "#1890FF" },
+    { id: "events" as Tab, label: "📅 Eventos", color: "#2F54EB" },
     { id: "inventory" as Tab, label: "📦 Inventario / Altas", color: "#722ED1" },
     { id: "maintenance" as Tab, label: "🟠 Mantenimiento", color: "#FA8C16" },
+    { id: "approvals" as Tab, label: "✋ Aprobaciones", color: "#EB2F96" },
+    { id: "audit" as Tab, label: "🧾 Auditoría", color: "#597EF7" },
+    { id: "users" as Tab, label: "👥 Usuarios", color: "#9254DE" },
     { id: "legacy" as Tab, label: "⚪ Legacy / Dev", color: "#8C8C8C" },
   ];
+  const tabs = readOnly ? allTabs.filter((tab) => tab.id === "audit") : allTabs;
 
   return (
     <div
@@ -149,6 +169,7 @@ export default function AdminConsoleModal({
           {activeTab === "general" && (
             <GeneralTab monthKey={monthKey} />
           )}
+          {activeTab === "contracts" && <ContractsManager />}
           {activeTab === "monthly" && (
             <MonthlyOpsTab
               monthKey={monthKey}
@@ -156,10 +177,14 @@ export default function AdminConsoleModal({
               onMonthClosed={onMonthClosed}
             />
           )}
+          {activeTab === "events" && <EventsTab />}
           {activeTab === "inventory" && <InventoryTab monthKey={monthKey} />}
           {activeTab === "maintenance" && (
             <MaintenanceTab monthKey={monthKey} isLocked={isLocked} />
           )}
+          {activeTab === "approvals" && <ApprovalsInbox />}
+          {activeTab === "audit" && <AuditLogViewer />}
+          {activeTab === "users" && <UsersManager />}
           {activeTab === "legacy" && <LegacyTab monthKey={monthKey} />}
         </div>
       </div>
@@ -169,7 +194,7 @@ export default function AdminConsoleModal({
 
 /**
  * TAB 1: GENERAL
- * Gestión de tarifas anuales y usuarios
+ * Gestión de tarifas anuales y revisión de precios (IPC)
  */
 function GeneralTab({ monthKey }: { monthKey: string }) {
   return (
@@ -183,19 +208,7 @@ function GeneralTab({ monthKey }: { monthKey: string }) {
           borderTop: "1px solid #EAEAEA",
         }}
       >
-        <h3
-          style={{
-            fontSize: "15px",
-            fontWeight: 600,
-            color: "#000",
-            marginBottom: "16px",
-          }}
-        >
-          👥 Gestión de Usuarios
-        </h3>
-        <p style={{ fontSize: "13px", color: "#8C8C8C" }}>
-          Funcionalidad de setUserRole pendiente de integración
-        </p>
+        <PriceRevisionManager />
       </div>
     </div>
   );
@@ -203,7 +216,7 @@ function GeneralTab({ monthKey }: { monthKey: string }) {
 
 /**
  * TAB 2: OPERACIONES MENSUALES
- * Crear mes siguiente, cerrar/abrir mes
+ * Crear mes siguiente, cerrar/abrir mes, facturas del mes
  */
 function MonthlyOpsTab({
   monthKey,
@@ -222,6 +235,29 @@ function MonthlyOpsTab({
         isLocked={isLocked}
         onMonthClosed={onMonthClosed}
       />
+      <InvoicesManager monthKey={monthKey} isLocked={isLocked} />
+    </div>
+  );
+}
+
+/**
+ * TAB: EVENTOS
+ * Eventos programados para meses futuros e importación masiva de eventos
+ */
+function EventsTab() {
+  return (
+    <div>
+      <ScheduledEventsCalendar />
+
+      <div
+        style={{
+          marginTop: "32px",
+          paddingTop: "24px",
+          borderTop: "1px solid #EAEAEA",
+        }}
+      >
+        <BulkEventsImporter />
+      </div>
     </div>
   );
 }
@@ -317,7 +353,7 @@ function InventoryTab({ monthKey }: { monthKey: string }) {
 
 /**
  * TAB 4: MANTENIMIENTO
- * Importar CSV, resincronizar mes
+ * Importar CSV, resincronizar mes, tareas fallidas de la cola
  */
 function MaintenanceTab({
   monthKey,
@@ -346,6 +382,8 @@ function MaintenanceTab({
       <ImportBaseMonthSection isLocked={isLocked} monthKey={monthKey} />
       <ResyncMonthSection monthKey={monthKey} isLocked={isLocked} />
       <DeleteMonthSection monthKey={monthKey} isLocked={isLocked} />
+      <PanelMergeTool />
+      <DeadLettersManager />
     </div>
   );
 }
@@ -680,19 +718,18 @@ function ToggleMonthLockSection({
   onMonthClosed?: () => void;
 }) {
   const [isToggling, setIsToggling] = useState(false);
+  const [showCloseWizard, setShowCloseWizard] = useState(false);
+  const [closed, setClosed] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const handleToggle = async () => {
-    const action = isLocked ? "ABRIR" : "CERRAR";
+    // El cierre pasa por el asistente (comprobaciones previas)
+    if (!isLocked) {
+      setShowCloseWizard(true);
+      return;
+    }
 
-    if (
-      !confirm(
-        `🔒 ${action} MES: ${monthKey}\n\n` +
-          (isLocked
-            ? "Al abrir podrás modificar eventos.\n\n¿Continuar?"
-            : "Al cerrar NO se podrán hacer cambios.\n\n¿Continuar?")
-      )
-    ) {
+    if (!confirm(`🔒 ABRIR MES: ${monthKey}\n\nAl abrir podrás modificar eventos.\n\n¿Continuar?`)) {
       return;
     }
 
@@ -701,10 +738,10 @@ function ToggleMonthLockSection({
 
     try {
       const { toggleMonthLock } = await import("@/lib/api");
-      await toggleMonthLock(monthKey, !isLocked);
+      const result = await toggleMonthLock(monthKey, false);
 
-      if (!isLocked && onMonthClosed) {
-        onMonthClosed();
+      if (result.warning) {
+        alert(`⚠️ ${result.warning}`);
       }
 
       setTimeout(() => window.location.reload(), 1000);
@@ -732,7 +769,7 @@ function ToggleMonthLockSection({
       <p style={{ fontSize: "12px", color: "#8C8C8C", marginBottom: "12px" }}>
         {isLocked
           ? "El mes está cerrado. Ábrelo para modificar eventos."
-          : "Cierra el mes cuando la facturación esté correcta."}
+          : "Cierra el mes cuando la facturación esté correcta. Antes se ejecutan las comprobaciones de cierre."}
       </p>
 
       <button
@@ -771,6 +808,20 @@ function ToggleMonthLockSection({
           {error}
         </div>
       )}
+
+      {showCloseWizard && (
+        <MonthCloseWizard
+          monthKey={monthKey}
+          onClose={() => {
+            setShowCloseWizard(false);
+            if (closed) window.location.reload();
+          }}
+          onClosed={() => {
+            setClosed(true);
+            if (onMonthClosed) onMonthClosed();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -918,10 +969,13 @@ function DeleteMonthSection({
 
     try {
       const { deleteMonth } = await import("@/lib/api");
-      await deleteMonth(monthKey);
+      const res = await deleteMonth(monthKey);
 
-      alert(`✓ Mes ${monthKey} eliminado`);
-      setTimeout(() => window.location.reload(), 1000);
+      alert(
+        `✓ Solicitud enviada para aprobación: otro administrador debe aprobar la eliminación de ${monthKey} ` +
+        `(${res.impacto.filasFacturacion} filas de facturación, ${res.impacto.eventos} eventos, ` +
+        `${res.impacto.importeEliminado.toFixed(2)} €) en la pestaña Aprobaciones.`
+      );
     } catch (err: any) {
       setError(err.message || "Error al eliminar el mes");
     } finally {
@@ -1,7 +1,7 @@
 /**
  * AdminSection Component
  * Launcher para abrir la Consola de Administración
- * Solo visible para usuarios con rol admin
+ * Solo visible para admin (consola completa) y auditor (solo lectura: auditoría)
  */
 
 "use client";
@@ -11,6 +11,7 @@ import AdminConsoleModal from "./AdminConsoleModal";
 
 interface AdminSectionProps {
   isAdmin: boolean;
+  isAuditor?: boolean;
   isLocked: boolean;
   monthKey: string;
   onMonthClosed?: () => void;
@@ -18,13 +19,14 @@ interface AdminSectionProps {
 
 export default function AdminSection({
   isAdmin,
+  isAuditor = false,
   isLocked,
   monthKey,
   onMonthClosed,
 }: AdminSectionProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
 
-  if (!isAdmin) {
+  if (!isAdmin && !isAuditor) {
     return null;
   }
 
@@ -77,7 +79,9 @@ export default function AdminSection({
             color: "#8C8C8C",
           }}
         >
-          Gestión de tarifas, operaciones mensuales y mantenimiento
+          {isAdmin
+            ? "Gestión de tarifas, operaciones mensuales y mantenimiento"
+            : "Consulta del registro de auditoría (solo lectura)"}
         </p>
       </div>
 
@@ -87,6 +91,7 @@ export default function AdminSection({
         monthKey={monthKey}
         isLocked={isLocked}
         onMonthClosed={onMonthClosed}
+        readOnly={!isAdmin}
       />
     </>
   );
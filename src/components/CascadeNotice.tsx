@@ -0,0 +1,46 @@
+/**
+ * CascadeNotice Component
+ * Aviso de los meses posteriores recalculados en cascada tras un cambio,
+ * y del mes cerrado donde se detuvo la cascada
+ */
+
+"use client";
+
+import { PanelCascadeResult } from "@/lib/api";
+
+interface CascadeNoticeProps {
+  cascade?: PanelCascadeResult | null;
+}
+
+function formatMonth(monthKey: string) {
+  const [year, month] = monthKey.split("-").map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString("es-ES", { month: "long", year: "numeric" });
+}
+
+export default function CascadeNotice({ cascade }: CascadeNoticeProps) {
+  if (!cascade || (cascade.updatedMonths.length === 0 && !cascade.lockedMonth)) return null;
+
+  return (
+    <div
+      style={{
+        border: "1px solid #91D5FF",
+        borderRadius: 4,
+        padding: "8px 12px",
+        marginBottom: 16,
+        background: "#E6F7FF",
+        fontSize: 12,
+        color: "#0050B3",
+      }}
+    >
+      {cascade.updatedMonths.length > 0 && (
+        <div>También se han actualizado: {cascade.updatedMonths.map(formatMonth).join(", ")}.</div>
+      )}
+      {cascade.lockedMonth && (
+        <div style={{ color: "#AD6800", marginTop: cascade.updatedMonths.length > 0 ? 4 : 0 }}>
+          {formatMonth(cascade.lockedMonth)} está cerrado: no se ha modificado (las diferencias irían como
+          rectificación).
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+/**
+ * ChangePanelCodeModal Component
+ * Modal para cambiar el código de un panel (renumeración de la parada) desde
+ * una fecha efectiva. Los meses cerrados conservan el código anterior.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { changePanelCode } from "@/lib/api";
+
+interface ChangePanelCodeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  panelId: string;
+  codigo: string;
+  municipio: string;
+  monthKey: string;
+  onSuccess?: () => void;
+}
+
+const labelStyle: React.CSSProperties = {
+  display: "block",
+  marginBottom: "8px",
+  fontSize: "14px",
+  fontWeight: 500,
+  color: "#000",
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 12px",
+  fontSize: "14px",
+  border: "1px solid #D9D9D9",
+  borderRadius: "2px",
+  outline: "none",
+  fontFamily: "inherit",
+};
+
+export default function ChangePanelCodeModal({
+  isOpen,
+  onClose,
+  panelId,
+  codigo,
+  municipio,
+  monthKey,
+  onSuccess,
+}: ChangePanelCodeModalProps) {
+  const [nuevoCodigo, setNuevoCodigo] = useState("");
+  const [fecha, setFecha] = useState(`${monthKey}-01`);
+  const [motivo, setMotivo] = useState("");
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<Awaited<ReturnType<typeof changePanelCode>> | null>(null);
+
+  const handleClose = () => {
+    setNuevoCodigo("");
+    setMotivo("");
+    setError(null);
+    setResult(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      if (!nuevoCodigo.trim() || !fecha) {
+        throw new Error("Completa todos los campos obligatorios");
+      }
+      if (nuevoCodigo.trim() === codigo) {
+        throw new Error(`El panel ya tiene el código ${codigo}`);
+      }
+
+      const response = await changePanelCode({
+        panelId,
+        nuevoCodigo: nuevoCodigo.trim(),
+        effectiveDateLocal: fecha,
+        motivo: motivo.trim() || undefined,
+      });
+      setResult(response);
+      onSuccess?.();
+    } catch (err: any) {
+      setError(err.message || "Error al cambiar el código del panel");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={handleClose}
+    >
+      <div
+        style={{
+          backgroundColor: "#FFF",
+          borderRadius: "2px",
+          width: "480px",
+          maxWidth: "90vw",
+          maxHeight: "90vh",
+          overflow: "auto",
+          boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ padding: "20px 24px", borderBottom: "1px solid #EAEAEA" }}>
+          <h2 style={{ margin: 0, fontSize: "18px", fontWeight: 600, color: "#000" }}>Cambiar código</h2>
+          <div style={{ marginTop: "8px", fontSize: "14px", color: "#595959" }}>
+            Panel: <strong>{codigo}</strong> • {municipio}
+          </div>
+        </div>
+
+        {result ? (
+          <div style={{ padding: "24px" }}>
+            <div
+              style={{
+                padding: "12px 16px",
+                marginBottom: "20px",
+                fontSize: "13px",
+                color: "#389E0D",
+                backgroundColor: "#F6FFED",
+                border: "1px solid #B7EB8F",
+                borderRadius: "2px",
+                lineHeight: "1.6",
+              }}
+            >
+              ✓ {result.codigoAnterior} → <strong>{result.codigoNuevo}</strong> desde {result.monthKey}.
+              <br />
+              Meses actualizados: {result.mesesActualizados.join(", ") || "ninguno"}
+              {result.mesesCerrados.length > 0 && (
+                <>
+                  <br />
+                  Meses cerrados (conservan {result.codigoAnterior}): {result.mesesCerrados.join(", ")}
+                </>
+              )}
+            </div>
+            <div style={{ display: "flex", justifyContent: "flex-end" }}>
+              <button
+                type="button"
+                onClick={handleClose}
+                style={{
+                  padding: "10px 24px",
+                  fontSize: "14px",
+                  fontWeight: 500,
+                  color: "#FFF",
+                  backgroundColor: "#000",
+                  border: "none",
+                  borderRadius: "2px",
+                  cursor: "pointer",
+                }}
+              >
+                Cerrar
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div style={{ padding: "24px" }}>
+              {error && (
+                <div
+                  style={{
+                    marginBottom: "20px",
+                    padding: "12px 16px",
+                    backgroundColor: "#FFE5E5",
+                    border: "1px solid #FFB3B3",
+                    borderRadius: "2px",
+                    fontSize: "13px",
+                    color: "#C62828",
+                  }}
+                >
+                  {error}
+                </div>
+              )}
+
+              <div style={{ marginBottom: "20px" }}>
+                <label style={labelStyle}>Código nuevo *</label>
+                <input
+                  value={nuevoCodigo}
+                  onChange={(e) => setNuevoCodigo(e.target.value)}
+                  placeholder="Ej: 07012"
+                  required
+                  style={inputStyle}
+                />
+              </div>
+
+              <div style={{ marginBottom: "20px" }}>
+                <label style={labelStyle}>Fecha efectiva *</label>
+                <input
+                  type="date"
+                  value={fecha}
+                  onChange={(e) => setFecha(e.target.value)}
+                  required
+                  style={inputStyle}
+                />
+                <div style={{ marginTop: "4px", fontSize: "12px", color: "#8C8C8C" }}>
+                  Los meses desde esta fecha se muestran con el código nuevo; los meses cerrados conservan {codigo}.
+                  El código anterior queda reservado para este panel.
+                </div>
+              </div>
+
+              <div style={{ marginBottom: "20px" }}>
+                <label style={labelStyle}>Motivo (opcional)</label>
+                <textarea
+                  value={motivo}
+                  onChange={(e) => setMotivo(e.target.value)}
+                  placeholder="Ej: Renumeración de paradas del Consorcio"
+                  maxLength={500}
+                  rows={2}
+                  style={{ ...inputStyle, resize: "vertical" }}
+                />
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div
+              style={{
+                padding: "16px 24px",
+                borderTop: "1px solid #EAEAEA",
+                display: "flex",
+                justifyContent: "flex-end",
+                gap: "12px",
+              }}
+            >
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={loading}
+                style={{
+                  padding: "10px 24px",
+                  fontSize: "14px",
+                  fontWeight: 500,
+                  color: "#000",
+                  backgroundColor: "#FFF",
+                  border: "1px solid #D9D9D9",
+                  borderRadius: "2px",
+                  cursor: loading ? "not-allowed" : "pointer",
+                  opacity: loading ? 0.6 : 1,
+                }}
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                style={{
+                  padding: "10px 24px",
+                  fontSize: "14px",
+                  fontWeight: 500,
+                  color: "#FFF",
+                  backgroundColor: loading ? "#8C8C8C" : "#000",
+                  border: "none",
+                  borderRadius: "2px",
+                  cursor: loading ? "not-allowed" : "pointer",
+                }}
+              >
+                {loading ? "Cambiando..." : "Cambiar código"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -125,7 +125,7 @@ export default function ExecutiveReportModal({
         ["INDICADORES DE CALIDAD"],
         [""],
         ["Concepto", "Cantidad", "Porcentaje"],
-        ["Paneles Completos (30 días)", report.indicadoresCalidad.panelesCompletos, 
+        [`Paneles Completos (${report.diasMes ?? 30} días)`, report.indicadoresCalidad.panelesCompletos, 
          `${((report.indicadoresCalidad.panelesCompletos / totalPaneles) * 100).toFixed(1)}%`],
         ["Paneles Parciales", report.indicadoresCalidad.panelesParciales,
          `${((report.indicadoresCalidad.panelesParciales / totalPaneles) * 100).toFixed(1)}%`],
@@ -155,6 +155,25 @@ export default function ExecutiveReportModal({
         XLSX.utils.book_append_sheet(workbook, eventosSheet, "Eventos");
       }
 
+      // Hoja 6: Rectificaciones de meses cerrados (si existen)
+      if (report.rectificaciones && report.rectificaciones.length > 0) {
+        const rectificacionesData = [
+          ["RECTIFICACIONES DE MESES CERRADOS"],
+          [""],
+          ["Mes rectificado", "Panel", "Municipio", "Motivo", "Diferencia (EUR)"],
+          ...report.rectificaciones.map((r) => [
+            r.mesOriginal,
+            r.panel,
+            r.municipio,
+            r.motivo,
+            formatEurosForExcel(r.importe),
+          ]),
+        ];
+        const rectificacionesSheet = XLSX.utils.aoa_to_sheet(rectificacionesData);
+        rectificacionesSheet["!cols"] = [{ wch: 16 }, { wch: 15 }, { wch: 25 }, { wch: 40 }, { wch: 18 }];
+        XLSX.utils.book_append_sheet(workbook, rectificacionesSheet, "Rectificaciones");
+      }
+
       // Generar y descargar el archivo
       const fileName = `Informe_Ejecutivo_${report.monthKey}.xlsx`;
       XLSX.writeFile(workbook, fileName);
@@ -379,7 +398,7 @@ export default function ExecutiveReportModal({
             </h3>
             <div style={{ display: "flex", gap: "16px", flexWrap: "wrap" }}>
               <div style={{ padding: "12px 16px", backgroundColor: "#F6FFED", borderRadius: "4px", border: "1px solid #B7EB8F" }}>
-                <span style={{ fontSize: "13px", color: "#595959" }}>Paneles Completos (30 días): </span>
+                <span style={{ fontSize: "13px", color: "#595959" }}>Paneles Completos ({report.diasMes ?? 30} días): </span>
                 <span style={{ fontSize: "14px", color: "#52C41A", fontWeight: 600 }}>
                   {report.indicadoresCalidad.panelesCompletos}
                 </span>
@@ -463,6 +482,60 @@ export default function ExecutiveReportModal({
               </div>
             </section>
           )}
+
+          {/* Rectificaciones de meses cerrados */}
+          {report.rectificaciones && report.rectificaciones.length > 0 && (
+            <section style={{ marginTop: "32px" }}>
+              <h3 style={{ margin: "0 0 16px 0", fontSize: "18px", color: "#262626", fontWeight: 600 }}>
+                🧾 Rectificaciones de Meses Cerrados ({report.rectificaciones.length})
+              </h3>
+              <div style={{ border: "1px solid #F0F0F0", borderRadius: "4px" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead style={{ backgroundColor: "#FAFAFA" }}>
+                    <tr>
+                      <th style={{ padding: "10px", textAlign: "left", fontSize: "11px", fontWeight: 600, color: "#595959" }}>
+                        Mes rectificado
+                      </th>
+                      <th style={{ padding: "10px", textAlign: "left", fontSize: "11px", fontWeight: 600, color: "#595959" }}>
+                        Panel
+                      </th>
+                      <th style={{ padding: "10px", textAlign: "left", fontSize: "11px", fontWeight: 600, color: "#595959" }}>
+                        Motivo
+                      </th>
+                      <th style={{ padding: "10px", textAlign: "right", fontSize: "11px", fontWeight: 600, color: "#595959" }}>
+                        Diferencia
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.rectificaciones.map((rectificacion, index) => (
+                      <tr key={index} style={{ borderTop: index > 0 ? "1px solid #F0F0F0" : "none" }}>
+                        <td style={{ padding: "10px", fontSize: "12px", color: "#595959" }}>
+                          {rectificacion.mesOriginal}
+                        </td>
+                        <td style={{ padding: "10px", fontSize: "12px", color: "#262626", fontFamily: "monospace" }}>
+                          {rectificacion.panel}
+                        </td>
+                        <td style={{ padding: "10px", fontSize: "12px", color: "#595959" }}>
+                          {rectificacion.motivo}
+                        </td>
+                        <td
+                          style={{
+                            padding: "10px",
+                            textAlign: "right",
+                            fontSize: "12px",
+                            color: rectificacion.importe < 0 ? "#FF4D4F" : "#1890FF",
+                          }}
+                        >
+                          {formatEuros(rectificacion.importe)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
         </div>
 
         {/* Footer */}
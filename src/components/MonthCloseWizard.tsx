@@ -0,0 +1,297 @@
+/**
+ * MonthCloseWizard Component
+ * Asistente de cierre del mes: comprobaciones previas, dispensas con comentario
+ * para las que fallan y confirmación final (closeMonth)
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  closeMonth,
+  getMonthCloseChecks,
+  MonthCloseCheckId,
+  MonthCloseChecksResult,
+} from "@/lib/api";
+
+interface MonthCloseWizardProps {
+  monthKey: string;
+  onClose: () => void;
+  onClosed: () => void; // Mes cerrado correctamente
+}
+
+type Step = "checks" | "confirm" | "done";
+
+const MIN_COMMENT_LENGTH = 10;
+
+export default function MonthCloseWizard({ monthKey, onClose, onClosed }: MonthCloseWizardProps) {
+  const [step, setStep] = useState<Step>("checks");
+  const [result, setResult] = useState<MonthCloseChecksResult | null>(null);
+  const [waivers, setWaivers] = useState<Partial<Record<MonthCloseCheckId, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const [closing, setClosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    runChecks();
+  }, [monthKey]);
+
+  const runChecks = async () => {
+    setLoading(true);
+    setError(null);
+    setStep("checks");
+    try {
+      setResult(await getMonthCloseChecks(monthKey));
+    } catch (err: any) {
+      setError(err.message || "Error al ejecutar las comprobaciones");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const failedChecks = result?.checks.filter((check) => !check.ok) ?? [];
+  const pendingChecks = failedChecks.filter(
+    (check) => (waivers[check.id] ?? "").trim().length < MIN_COMMENT_LENGTH
+  );
+
+  const formatEuros = (amount: number) =>
+    new Intl.NumberFormat("es-ES", { style: "currency", currency: "EUR", minimumFractionDigits: 2 }).format(amount);
+
+  const handleClose = async () => {
+    if (!result) return;
+
+    setClosing(true);
+    setError(null);
+    try {
+      const closed = await closeMonth({
+        monthKey,
+        waivers: failedChecks.map((check) => ({ checkId: check.id, comment: waivers[check.id]!.trim() })),
+        expectedFingerprint: result.totalsFingerprint,
+      });
+
+      let message = `Mes ${closed.monthKey} cerrado correctamente.`;
+      if ("error" in closed.invoicing) {
+        message += ` No se pudieron emitir las facturas: ${closed.invoicing.error}`;
+      } else {
+        message += ` ${closed.invoicing.emitidas.length} factura(s) emitida(s).`;
+      }
+      setDoneMessage(message);
+      setStep("done");
+      onClosed();
+    } catch (err: any) {
+      setError(err.message || "Error al cerrar el mes");
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const buttonStyle = (backgroundColor: string, disabled: boolean): React.CSSProperties => ({
+    padding: "8px 24px",
+    fontSize: "14px",
+    color: disabled ? "#A3A3A3" : "#FFF",
+    backgroundColor: disabled ? "#F0F0F0" : backgroundColor,
+    border: "none",
+    borderRadius: "4px",
+    cursor: disabled ? "not-allowed" : "pointer",
+    fontWeight: 500,
+  });
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        width: "100%",
+        height: "100%",
+        backgroundColor: "rgba(0,0,0,0.6)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 10000,
+        overflow: "auto",
+        padding: "20px",
+      }}
+      onClick={closing ? undefined : onClose}
+    >
+      <div
+        style={{
+          backgroundColor: "#FFF",
+          borderRadius: "8px",
+          maxWidth: "800px",
+          width: "100%",
+          maxHeight: "90vh",
+          overflow: "auto",
+          boxShadow: "0 8px 32px rgba(0,0,0,0.2)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: "24px",
+            borderBottom: "2px solid #FF4D4F",
+            position: "sticky",
+            top: 0,
+            backgroundColor: "#FFF",
+            zIndex: 1,
+          }}
+        >
+          <h2 style={{ margin: 0, fontSize: "24px", color: "#262626", fontWeight: 600 }}>
+            🔒 Cerrar mes {monthKey}
+          </h2>
+          <p style={{ margin: "4px 0 0 0", fontSize: "14px", color: "#8C8C8C" }}>
+            {step === "checks" && "Paso 1 de 2 · Comprobaciones previas"}
+            {step === "confirm" && "Paso 2 de 2 · Confirmación"}
+            {step === "done" && "Mes cerrado"}
+          </p>
+        </div>
+
+        {/* Content */}
+        <div style={{ padding: "24px" }}>
+          {error && (
+            <div
+              style={{
+                padding: "12px",
+                marginBottom: "16px",
+                fontSize: "13px",
+                color: "#CF1322",
+                backgroundColor: "#FFF1F0",
+                border: "1px solid #FFCCC7",
+                borderRadius: "2px",
+              }}
+            >
+              ⚠️ {error}
+            </div>
+          )}
+
+          {loading && <div style={{ fontSize: "14px", color: "#595959" }}>Ejecutando comprobaciones...</div>}
+
+          {!loading && result && step === "checks" && (
+            <>
+              <p style={{ fontSize: "13px", color: "#595959", marginTop: 0, lineHeight: "1.6" }}>
+                Las comprobaciones en rojo bloquean el cierre. Corrígelas y vuelve a comprobar,
+                o dispénsalas explicando el motivo (queda registrado en el cierre).
+              </p>
+              {result.checks.map((check) => (
+                <div
+                  key={check.id}
+                  style={{
+                    padding: "12px 16px",
+                    marginBottom: "12px",
+                    border: `1px solid ${check.ok ? "#B7EB8F" : "#FFCCC7"}`,
+                    backgroundColor: check.ok ? "#F6FFED" : "#FFF1F0",
+                    borderRadius: "4px",
+                  }}
+                >
+                  <div style={{ fontSize: "14px", fontWeight: 600, color: check.ok ? "#389E0D" : "#CF1322" }}>
+                    {check.ok ? "✓" : "✗"} {check.titulo}
+                  </div>
+                  <div style={{ fontSize: "13px", color: "#595959", marginTop: "4px" }}>{check.detalle}</div>
+                  {!check.ok && check.muestras.length > 0 && (
+                    <ul style={{ margin: "8px 0 0 0", paddingLeft: "20px", fontSize: "12px", color: "#595959" }}>
+                      {check.muestras.map((muestra) => (
+                        <li key={muestra}>{muestra}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {!check.ok && (
+                    <textarea
+                      value={waivers[check.id] ?? ""}
+                      onChange={(e) => setWaivers({ ...waivers, [check.id]: e.target.value })}
+                      placeholder={`Motivo de la dispensa (mínimo ${MIN_COMMENT_LENGTH} caracteres)`}
+                      maxLength={1000}
+                      rows={2}
+                      style={{
+                        width: "100%",
+                        marginTop: "8px",
+                        padding: "6px 8px",
+                        fontSize: "13px",
+                        border: "1px solid #D9D9D9",
+                        borderRadius: "2px",
+                        resize: "vertical",
+                      }}
+                    />
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+
+          {!loading && result && step === "confirm" && (
+            <div style={{ fontSize: "14px", color: "#262626", lineHeight: "1.8" }}>
+              <div>Importe total: <strong>{formatEuros(result.totals.totalImporteMes)}</strong></div>
+              <div>
+                Paneles: {result.totals.totalPaneles} ({result.totals.panelesActivos} completos,{" "}
+                {result.totals.panelesParciales} parciales)
+              </div>
+              <div style={{ fontSize: "12px", color: "#8C8C8C" }}>
+                Huella de totales: {result.totalsFingerprint.substring(0, 16)}
+              </div>
+              {failedChecks.length > 0 && (
+                <div style={{ marginTop: "12px" }}>
+                  <strong>Dispensas:</strong>
+                  <ul style={{ margin: "4px 0 0 0", paddingLeft: "20px", fontSize: "13px" }}>
+                    {failedChecks.map((check) => (
+                      <li key={check.id}>
+                        {check.titulo}: <em>{waivers[check.id]?.trim()}</em>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <p style={{ marginTop: "16px", fontSize: "13px", color: "#CF1322" }}>
+                Al cerrar no se podrán registrar eventos en {monthKey} y se emitirán las facturas del mes.
+              </p>
+            </div>
+          )}
+
+          {step === "done" && doneMessage && (
+            <div style={{ fontSize: "14px", color: "#389E0D" }}>✓ {doneMessage}</div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: "16px 24px",
+            borderTop: "1px solid #F0F0F0",
+            backgroundColor: "#FAFAFA",
+            display: "flex",
+            justifyContent: "flex-end",
+            gap: "12px",
+          }}
+        >
+          {step === "checks" && (
+            <>
+              <button onClick={runChecks} disabled={loading} style={buttonStyle("#1890FF", loading)}>
+                Volver a comprobar
+              </button>
+              <button
+                onClick={() => setStep("confirm")}
+                disabled={loading || !result || pendingChecks.length > 0}
+                style={buttonStyle("#FF4D4F", loading || !result || pendingChecks.length > 0)}
+              >
+                Continuar
+              </button>
+            </>
+          )}
+          {step === "confirm" && (
+            <>
+              <button onClick={() => setStep("checks")} disabled={closing} style={buttonStyle("#8C8C8C", closing)}>
+                Atrás
+              </button>
+              <button onClick={handleClose} disabled={closing} style={buttonStyle("#FF4D4F", closing)}>
+                {closing ? "Cerrando..." : "🔒 Cerrar mes"}
+              </button>
+            </>
+          )}
+          <button onClick={onClose} disabled={closing} style={buttonStyle("#595959", closing)}>
+            {step === "done" ? "Cerrar" : "Cancelar"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,8 +7,10 @@
 "use client";
 
 import { useState, useMemo } from "react";
+import Link from "next/link";
 import { BillingMonthlyPanel } from "@/lib/api";
 import PanelActionsMenu from "./PanelActionsMenu";
+import RectificacionModal from "./RectificacionModal";
 
 interface MonthlyBillingTableProps {
   panels: BillingMonthlyPanel[];
@@ -17,6 +19,8 @@ interface MonthlyBillingTableProps {
   statusFilter?: string;
   monthKey?: string;
   onRefresh?: () => void;
+  readOnly?: boolean; // Vista histórica ("a fecha de"): sin acciones sobre paneles
+  isLocked?: boolean; // Mes cerrado: solo se permiten rectificaciones
 }
 
 export default function MonthlyBillingTable({
@@ -26,10 +30,13 @@ export default function MonthlyBillingTable({
   statusFilter = "all",
   monthKey,
   onRefresh,
+  readOnly = false,
+  isLocked = false,
 }: MonthlyBillingTableProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const [sortColumn, setSortColumn] = useState<string>("codigo");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
+  const [rectificando, setRectificando] = useState<BillingMonthlyPanel | null>(null);
   const pageSize = 20;
 
   // Filtrado y ordenación
@@ -42,6 +49,7 @@ export default function MonthlyBillingTable({
       filtered = filtered.filter(
         (panel) =>
           panel.codigo.toLowerCase().includes(query) ||
+          (panel.otrosCodigos ?? []).some((codigo) => codigo.toLowerCase().includes(query)) ||
           panel.municipio.toLowerCase().includes(query)
       );
     }
@@ -51,7 +59,8 @@ export default function MonthlyBillingTable({
       if (statusFilter === "PARCIAL") {
         filtered = filtered.filter(
           (panel) =>
-            panel.totalDiasFacturables > 0 && panel.totalDiasFacturables < 30
+            panel.totalDiasFacturables > 0 &&
+            panel.totalDiasFacturables < (panel.diasMes ?? 30)
         );
       } else {
         filtered = filtered.filter(
@@ -311,7 +320,18 @@ export default function MonthlyBillingTable({
                       color: "#000",
                     }}
                   >
-                    {panel.codigo}
+                    <Link
+                      href={`/panels/${encodeURIComponent(panel.panelId)}`}
+                      style={{ color: "inherit", textDecoration: "none" }}
+                      title="Ver historial del panel"
+                    >
+                      {panel.codigo}
+                    </Link>
+                    {panel.otrosCodigos && panel.otrosCodigos.length > 0 && (
+                      <div style={{ fontSize: "11px", fontWeight: 400, color: "#8C8C8C" }}>
+                        también {panel.otrosCodigos.join(", ")}
+                      </div>
+                    )}
                   </td>
                   <td
                     style={{
@@ -342,6 +362,16 @@ export default function MonthlyBillingTable({
                     }}
                   >
                     {panel.totalImporte.toFixed(2)} €
+                    {!!panel.importeServicios && (
+                      <div style={{ fontSize: "11px", fontWeight: 400, color: "#1890FF" }}>
+                        incl. servicios {panel.importeServicios.toFixed(2)} €
+                      </div>
+                    )}
+                    {!!panel.importeRectificaciones && (
+                      <div style={{ fontSize: "11px", fontWeight: 400, color: "#FA8C16" }}>
+                        incl. rectif. {panel.importeRectificaciones.toFixed(2)} €
+                      </div>
+                    )}
                   </td>
                   <td
                     style={{
@@ -368,13 +398,31 @@ export default function MonthlyBillingTable({
                       textAlign: "center",
                     }}
                   >
-                    {monthKey && (
+                    {monthKey && !readOnly && isLocked && (
+                      <button
+                        onClick={() => setRectificando(panel)}
+                        title="Registrar una rectificación sin abrir el mes"
+                        style={{
+                          padding: "6px 10px",
+                          fontSize: "12px",
+                          color: "#595959",
+                          backgroundColor: "transparent",
+                          border: "1px solid #D9D9D9",
+                          borderRadius: "4px",
+                          cursor: "pointer",
+                        }}
+                      >
+                        Rectificar
+                      </button>
+                    )}
+                    {monthKey && !readOnly && !isLocked && (
                       <PanelActionsMenu
                         panelId={panel.panelId}
                         monthKey={monthKey}
                         codigo={panel.codigo}
                         municipio={panel.municipio}
                         tarifaActual={panel.tarifaAplicada}
+                        desglose={panel.desglose}
                         onSuccess={onRefresh}
                       />
                     )}
@@ -443,6 +491,19 @@ export default function MonthlyBillingTable({
           </button>
         </div>
       )}
+
+      {rectificando && monthKey && (
+        <RectificacionModal
+          isOpen={true}
+          onClose={() => setRectificando(null)}
+          panelId={rectificando.panelId}
+          codigo={rectificando.codigo}
+          municipio={rectificando.municipio}
+          monthKey={monthKey}
+          importeActual={rectificando.totalImporte}
+          onSuccess={onRefresh}
+        />
+      )}
     </div>
   );
 }
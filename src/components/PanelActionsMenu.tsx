@@ -14,7 +14,16 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { requestPanelChange, deleteAllPanelEvents, waitForBillingUpdate, deletePanel } from "@/lib/api";
+import {
+  requestPanelChange,
+  previewPanelChange,
+  PanelChangePreview as PanelChangePreviewData,
+  deleteAllPanelEvents,
+  waitForBillingUpdate,
+  deletePanel,
+  BillingBreakdownLine,
+  ApprovalRequestCreated,
+} from "@/lib/api";
 import { 
   Calendar, 
   Package, 
@@ -23,9 +32,15 @@ import {
   AlertTriangle, 
   Trash2,
   MoreVertical,
-  Wrench
+  Wrench,
+  Layers,
+  Hash
 } from "lucide-react";
 import IntervencionModal from "./IntervencionModal";
+import PanelServicesModal from "./PanelServicesModal";
+import ChangePanelCodeModal from "./ChangePanelCodeModal";
+import PanelChangePreview from "./PanelChangePreview";
+import CascadeNotice from "./CascadeNotice";
 
 interface PanelActionsMenuProps {
   panelId: string;
@@ -33,6 +48,7 @@ interface PanelActionsMenuProps {
   codigo: string;
   municipio: string;
   tarifaActual: number;
+  desglose?: BillingBreakdownLine[];
   onSuccess?: () => void;
 }
 
@@ -42,6 +58,7 @@ export default function PanelActionsMenu({
   codigo,
   municipio,
   tarifaActual,
+  desglose,
   onSuccess,
 }: PanelActionsMenuProps) {
   const [showMenu, setShowMenu] = useState(false);
@@ -51,18 +68,12 @@ export default function PanelActionsMenu({
   const [showReinstalacionModal, setShowReinstalacionModal] = useState(false);
   const [showAjusteModal, setShowAjusteModal] = useState(false);
   const [showIntervencionModal, setShowIntervencionModal] = useState(false);
+  const [showServicesModal, setShowServicesModal] = useState(false);
+  const [showChangeCodeModal, setShowChangeCodeModal] = useState(false);
   const [showDeleteAllModal, setShowDeleteAllModal] = useState(false);
   const [showDeletePanelConfirmModal, setShowDeletePanelConfirmModal] = useState(false); // NUEVO: confirmación paso 1
   const [showDeletePanelModal, setShowDeletePanelModal] = useState(false);
-  const [deleteAllResult, setDeleteAllResult] = useState<
-    | {
-        totalDiasFacturables: number;
-        totalImporte: number;
-        estadoAlCierre: "ACTIVO" | "DESMONTADO" | "BAJA";
-        tarifaAplicada: number;
-      }
-    | null
-  >(null);
+  const [deleteAllResult, setDeleteAllResult] = useState<ApprovalRequestCreated | null>(null); // Solicitud pendiente
   // NUEVOS ESTADOS PARA RESULTADOS DE FACTURACIÓN
   const [billingResultDesmontado, setBillingResultDesmontado] = useState<any>(null);
   const [billingResultReinstalacion, setBillingResultReinstalacion] = useState<any>(null);
@@ -77,6 +88,10 @@ export default function PanelActionsMenu({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [actionCompleted, setActionCompleted] = useState(false);
+  // Vista previa (dryRun) del cambio antes de confirmarlo
+  const [preview, setPreview] = useState<PanelChangePreviewData | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const previewRequestRef = useRef(0);
   const menuRef = useRef<HTMLDivElement>(null);
 
   // Cerrar menú al hacer clic fuera
@@ -95,6 +110,46 @@ export default function PanelActionsMenu({
     }
   }, [showMenu]);
 
+  type PreviewAction = "BAJA" | "DESMONTADO" | "REINSTALACION";
+
+  const loadPreview = async (action: PreviewAction, fecha: string) => {
+    const requestId = ++previewRequestRef.current;
+    setPreview(null);
+    setError(null);
+    if (!fecha) return;
+
+    setPreviewLoading(true);
+    try {
+      const res = await previewPanelChange({
+        panelId,
+        monthKey,
+        action,
+        effectiveDateLocal: fecha,
+        diasFacturables: 0,
+        importeAFacturar: 0,
+        snapshotBefore: {},
+        snapshotAfter: {},
+      });
+      // Ignorar respuestas de fechas ya cambiadas
+      if (requestId === previewRequestRef.current) setPreview(res);
+    } catch (err: any) {
+      if (requestId === previewRequestRef.current) {
+        setError(err.message || "Error al calcular la vista previa");
+      }
+    } finally {
+      if (requestId === previewRequestRef.current) setPreviewLoading(false);
+    }
+  };
+
+  // La vista previa solo vale para la acción y fecha con que se calculó
+  const previewFor = (action: PreviewAction, fecha: string) =>
+    preview && preview.action === action && preview.effectiveDateLocal === fecha ? preview : null;
+
+  // Confirmar solo con la vista previa de la fecha elegida ya calculada
+  const bajaBlocked = loading || !previewFor("BAJA", fechaBaja);
+  const desmontadoBlocked = loading || !previewFor("DESMONTADO", fechaDesmontado);
+  const reinstalacionBlocked = loading || !previewFor("REINSTALACION", fechaReinstalacion);
+
   const handleDarDeBaja = async () => {
     if (!fechaBaja) {
       setError("Selecciona una fecha de baja");
@@ -115,7 +170,7 @@ export default function PanelActionsMenu({
         snapshotBefore: {},
         snapshotAfter: {},
       });
-      if (res?.totals) setBillingResultBaja(res.totals);
+      if (res?.totals) setBillingResultBaja({ ...res.totals, cascade: res.cascade });
       setActionCompleted(true);
       setTimeout(() => { if (onSuccess) onSuccess(); }, 200);
     } catch (err: any) {
@@ -145,7 +200,7 @@ export default function PanelActionsMenu({
         snapshotBefore: {},
         snapshotAfter: {},
       });
-      if (res?.totals) setBillingResultDesmontado(res.totals);
+      if (res?.totals) setBillingResultDesmontado({ ...res.totals, cascade: res.cascade });
       setActionCompleted(true);
       setTimeout(() => { if (onSuccess) onSuccess(); }, 200);
     } catch (err: any) {
@@ -175,7 +230,7 @@ export default function PanelActionsMenu({
         snapshotBefore: {},
         snapshotAfter: {},
       });
-      if (res?.totals) setBillingResultReinstalacion(res.totals);
+      if (res?.totals) setBillingResultReinstalacion({ ...res.totals, cascade: res.cascade });
       setActionCompleted(true);
       setTimeout(() => { if (onSuccess) onSuccess(); }, 200);
     } catch (err: any) {
@@ -205,7 +260,7 @@ export default function PanelActionsMenu({
         snapshotBefore: {},
         snapshotAfter: { importeAjuste: parseFloat(importeAjuste) },
       });
-      if (res?.totals) setBillingResultAjuste(res.totals);
+      if (res?.totals) setBillingResultAjuste({ ...res.totals, cascade: res.cascade });
       setActionCompleted(true);
       setTimeout(() => { if (onSuccess) onSuccess(); }, 200);
     } catch (err: any) {
@@ -220,10 +275,8 @@ export default function PanelActionsMenu({
     setError(null);
     try {
       const res = await deleteAllPanelEvents({ panelId, monthKey });
-      if (res.totals) {
-        setDeleteAllResult(res.totals);
-      }
-      onSuccess?.();
+      // La eliminación queda pendiente de que otro admin la apruebe
+      setDeleteAllResult(res);
     } catch (err: any) {
       setError(err.message || "Error al eliminar eventos");
     } finally {
@@ -243,8 +296,7 @@ export default function PanelActionsMenu({
     try {
       const res = await deletePanel({ panelId, confirmCode });
       setActionCompleted(true);
-      alert(`✅ ${res.message}\n\nDetalles:\n- Eventos eliminados: ${res.details.eventsDeleted}\n- Documentos de facturación: ${res.details.billingDocsDeleted}\n- Meses afectados: ${res.details.affectedMonths.join(", ")}`);
-      setTimeout(() => { if (onSuccess) onSuccess(); }, 500);
+      alert(`✅ Solicitud enviada para aprobación: otro administrador debe aprobar la eliminación antes del ${new Date(res.expiresAt).toLocaleString("es-ES")}.\n\nImpacto:\n- Eventos: ${res.impacto.eventos}\n- Documentos de facturación: ${res.impacto.filasFacturacion}\n- Importe eliminado: ${res.impacto.importeEliminado.toFixed(2)} €\n- Meses afectados: ${res.impacto.meses.join(", ")}`);
     } catch (err: any) {
       setError(err.message || "Error al eliminar panel");
     } finally {
@@ -346,6 +398,7 @@ export default function PanelActionsMenu({
               onClick={() => {
                 setShowDesmontadoModal(true);
                 setShowMenu(false);
+                loadPreview("DESMONTADO", fechaDesmontado);
               }}
               style={{
                 width: "100%",
@@ -375,6 +428,7 @@ export default function PanelActionsMenu({
               onClick={() => {
                 setShowReinstalacionModal(true);
                 setShowMenu(false);
+                loadPreview("REINSTALACION", fechaReinstalacion);
               }}
               style={{
                 width: "100%",
@@ -458,6 +512,64 @@ export default function PanelActionsMenu({
               <Wrench size={16} style={{ flexShrink: 0 }} />
               <span>Registrar intervención</span>
             </button>
+            <button
+              onClick={() => {
+                setShowServicesModal(true);
+                setShowMenu(false);
+              }}
+              style={{
+                width: "100%",
+                padding: "12px 16px",
+                fontSize: "14px",
+                color: "#262626",
+                backgroundColor: "transparent",
+                border: "none",
+                textAlign: "left",
+                cursor: "pointer",
+                display: "flex",
+                alignItems: "center",
+                gap: "12px",
+                transition: "all 0.15s ease",
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = "#F5F5F5";
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = "transparent";
+              }}
+            >
+              <Layers size={16} style={{ flexShrink: 0 }} />
+              <span>Servicios recurrentes</span>
+            </button>
+            <button
+              onClick={() => {
+                setShowChangeCodeModal(true);
+                setShowMenu(false);
+              }}
+              style={{
+                width: "100%",
+                padding: "12px 16px",
+                fontSize: "14px",
+                color: "#262626",
+                backgroundColor: "transparent",
+                border: "none",
+                textAlign: "left",
+                cursor: "pointer",
+                display: "flex",
+                alignItems: "center",
+                gap: "12px",
+                transition: "all 0.15s ease",
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = "#F5F5F5";
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = "transparent";
+              }}
+            >
+              <Hash size={16} style={{ flexShrink: 0 }} />
+              <span>Cambiar código</span>
+            </button>
           </div>
 
           {/* Divisor y título de acciones críticas */}
@@ -664,6 +776,7 @@ export default function PanelActionsMenu({
                 onClick={() => {
                   setShowBajaConfirmModal(false);
                   setShowBajaModal(true);
+                  loadPreview("BAJA", fechaBaja);
                 }}
                 disabled={loading}
                 style={{
@@ -900,7 +1013,7 @@ export default function PanelActionsMenu({
               Panel: {codigo} - {municipio}
             </p>
             <p style={{ margin: "0 0 16px 8px", fontSize: "13px", color: "#A8071A" }}>
-              Esta acción marcará como eliminados todos los eventos de {monthKey} y recalculará la facturación.
+              Se enviará una solicitud para marcar como eliminados todos los eventos de {monthKey} y recalcular la facturación. Se ejecutará cuando otro administrador la apruebe.
             </p>
             {deleteAllResult && (
               <div
@@ -912,17 +1025,18 @@ export default function PanelActionsMenu({
                   background: "#FAFAFA",
                 }}
               >
-                <div style={{ fontSize: 13, marginBottom: 4 }}>
-                  Días facturables: <strong>{deleteAllResult.totalDiasFacturables}</strong>
+                <div style={{ fontSize: 13, marginBottom: 8, color: "#262626", fontWeight: 600 }}>
+                  Solicitud enviada para aprobación
                 </div>
                 <div style={{ fontSize: 13, marginBottom: 4 }}>
-                  Importe: <strong>{deleteAllResult.totalImporte.toFixed(2)} €</strong>
+                  Eventos a eliminar: <strong>{deleteAllResult.impacto.eventos}</strong>
                 </div>
                 <div style={{ fontSize: 13, marginBottom: 4 }}>
-                  Estado al cierre: <strong>{deleteAllResult.estadoAlCierre}</strong>
+                  Importe eliminado: <strong>{deleteAllResult.impacto.importeEliminado.toFixed(2)} €</strong>
                 </div>
                 <div style={{ fontSize: 13 }}>
-                  Tarifa aplicada: <strong>{deleteAllResult.tarifaAplicada.toFixed(2)} €</strong>
+                  Otro administrador debe aprobarla antes del{" "}
+                  <strong>{new Date(deleteAllResult.expiresAt).toLocaleString("es-ES")}</strong>
                 </div>
               </div>
             )}
@@ -961,7 +1075,7 @@ export default function PanelActionsMenu({
                     cursor: loading ? "not-allowed" : "pointer",
                   }}
                 >
-                  {loading ? "Eliminando..." : "Eliminar eventos"}
+                  {loading ? "Enviando..." : "Solicitar eliminación"}
                 </button>
               )}
               {deleteAllResult && (
@@ -1028,7 +1142,10 @@ export default function PanelActionsMenu({
             <input
               type="date"
               value={fechaDesmontado}
-              onChange={(e) => setFechaDesmontado(e.target.value)}
+              onChange={(e) => {
+                setFechaDesmontado(e.target.value);
+                loadPreview("DESMONTADO", e.target.value);
+              }}
               max={`${monthKey}-31`}
               min={`${monthKey}-01`}
               style={{
@@ -1040,6 +1157,9 @@ export default function PanelActionsMenu({
                 marginBottom: "16px",
               }}
             />
+            {!actionCompleted && (
+              <PanelChangePreview preview={previewFor("DESMONTADO", fechaDesmontado)} loading={previewLoading} />
+            )}
             {actionCompleted && !error && (
               <div style={{ padding: "12px", marginBottom: "16px", backgroundColor: "#F6FFED", border: "1px solid #B7EB8F", color: "#52C41A", fontSize: "13px", borderRadius: "4px" }}>
                 ✓ Panel desmontado correctamente.
@@ -1069,6 +1189,7 @@ export default function PanelActionsMenu({
                 </div>
               </div>
             )}
+            <CascadeNotice cascade={billingResultDesmontado?.cascade} />
             {error && (
               <div style={{ padding: "8px", marginBottom: "16px", backgroundColor: "#FFE5E5", color: "#D32F2F", fontSize: "12px", borderRadius: "2px" }}>
                 {error}
@@ -1094,15 +1215,15 @@ export default function PanelActionsMenu({
                   </button>
                   <button
                     onClick={handleDesmontado}
-                    disabled={loading}
+                    disabled={desmontadoBlocked}
                     style={{
                       padding: "8px 16px",
                       fontSize: "13px",
                       color: "#FFF",
-                      backgroundColor: loading ? "#ccc" : "#FF9800",
+                      backgroundColor: desmontadoBlocked ? "#ccc" : "#FF9800",
                       border: "none",
                       borderRadius: "2px",
-                      cursor: loading ? "not-allowed" : "pointer",
+                      cursor: desmontadoBlocked ? "not-allowed" : "pointer",
                     }}
                   >
                     {loading ? "Procesando..." : "Desmontar"}
@@ -1173,7 +1294,10 @@ export default function PanelActionsMenu({
             <input
               type="date"
               value={fechaReinstalacion}
-              onChange={(e) => setFechaReinstalacion(e.target.value)}
+              onChange={(e) => {
+                setFechaReinstalacion(e.target.value);
+                loadPreview("REINSTALACION", e.target.value);
+              }}
               max={`${monthKey}-31`}
               min={`${monthKey}-01`}
               style={{
@@ -1185,6 +1309,9 @@ export default function PanelActionsMenu({
                 marginBottom: "16px",
               }}
             />
+            {!actionCompleted && (
+              <PanelChangePreview preview={previewFor("REINSTALACION", fechaReinstalacion)} loading={previewLoading} />
+            )}
             {actionCompleted && !error && (
               <div style={{ padding: "12px", marginBottom: "16px", backgroundColor: "#F6FFED", border: "1px solid #B7EB8F", color: "#52C41A", fontSize: "13px", borderRadius: "4px" }}>
                 ✓ Panel reinstalado correctamente.
@@ -1214,6 +1341,7 @@ export default function PanelActionsMenu({
                 </div>
               </div>
             )}
+            <CascadeNotice cascade={billingResultReinstalacion?.cascade} />
             {error && (
               <div style={{ padding: "8px", marginBottom: "16px", backgroundColor: "#FFE5E5", color: "#D32F2F", fontSize: "12px", borderRadius: "2px" }}>
                 {error}
@@ -1239,15 +1367,15 @@ export default function PanelActionsMenu({
                   </button>
                   <button
                     onClick={handleReinstalacion}
-                    disabled={loading}
+                    disabled={reinstalacionBlocked}
                     style={{
                       padding: "8px 16px",
                       fontSize: "13px",
                       color: "#FFF",
-                      backgroundColor: loading ? "#ccc" : "#4CAF50",
+                      backgroundColor: reinstalacionBlocked ? "#ccc" : "#4CAF50",
                       border: "none",
                       borderRadius: "2px",
-                      cursor: loading ? "not-allowed" : "pointer",
+                      cursor: reinstalacionBlocked ? "not-allowed" : "pointer",
                     }}
                   >
                     {loading ? "Procesando..." : "Reinstalar"}
@@ -1376,6 +1504,7 @@ export default function PanelActionsMenu({
                 </div>
               </div>
             )}
+            <CascadeNotice cascade={billingResultAjuste?.cascade} />
             {error && (
               <div style={{ padding: "8px", marginBottom: "16px", backgroundColor: "#FFE5E5", color: "#D32F2F", fontSize: "12px", borderRadius: "2px" }}>
                 {error}
@@ -1480,7 +1609,10 @@ export default function PanelActionsMenu({
             <input
               type="date"
               value={fechaBaja}
-              onChange={(e) => setFechaBaja(e.target.value)}
+              onChange={(e) => {
+                setFechaBaja(e.target.value);
+                loadPreview("BAJA", e.target.value);
+              }}
               max={`${monthKey}-31`}
               min={`${monthKey}-01`}
               style={{
@@ -1492,6 +1624,9 @@ export default function PanelActionsMenu({
                 marginBottom: "16px",
               }}
             />
+            {!actionCompleted && (
+              <PanelChangePreview preview={previewFor("BAJA", fechaBaja)} loading={previewLoading} />
+            )}
             {actionCompleted && !error && (
               <div style={{ padding: "12px", marginBottom: "16px", backgroundColor: "#F6FFED", border: "1px solid #B7EB8F", color: "#52C41A", fontSize: "13px", borderRadius: "4px" }}>
                 ✓ Panel dado de baja correctamente.
@@ -1521,6 +1656,7 @@ export default function PanelActionsMenu({
                 </div>
               </div>
             )}
+            <CascadeNotice cascade={billingResultBaja?.cascade} />
             {error && (
               <div style={{ padding: "8px", marginBottom: "16px", backgroundColor: "#FFE5E5", color: "#D32F2F", fontSize: "12px", borderRadius: "2px" }}>
                 {error}
@@ -1546,15 +1682,15 @@ export default function PanelActionsMenu({
                   </button>
                   <button
                     onClick={handleDarDeBaja}
-                    disabled={loading}
+                    disabled={bajaBlocked}
                     style={{
                       padding: "8px 16px",
                       fontSize: "13px",
                       color: "#FFF",
-                      backgroundColor: loading ? "#ccc" : "#D32F2F",
+                      backgroundColor: bajaBlocked ? "#ccc" : "#D32F2F",
                       border: "none",
                       borderRadius: "2px",
-                      cursor: loading ? "not-allowed" : "pointer",
+                      cursor: bajaBlocked ? "not-allowed" : "pointer",
                     }}
                   >
                     {loading ? "Procesando..." : "Dar de Baja"}
@@ -1628,7 +1764,7 @@ export default function PanelActionsMenu({
               <>
                 <div style={{ marginBottom: "16px", fontSize: "14px", lineHeight: "1.6" }}>
                   <p style={{ margin: "0 0 12px 0", fontWeight: "600" }}>
-                    Esta acción es <strong>IRREVERSIBLE</strong> y eliminará:
+                    Esta acción es <strong>IRREVERSIBLE</strong> y, cuando otro administrador apruebe la solicitud, eliminará:
                   </p>
                   <ul style={{ margin: "0 0 12px 0", paddingLeft: "20px" }}>
                     <li>El panel <strong>{codigo}</strong> ({municipio})</li>
@@ -1711,7 +1847,7 @@ export default function PanelActionsMenu({
                       fontWeight: "600",
                     }}
                   >
-                    {loading ? "Eliminando..." : "🗑️ Eliminar Panel"}
+                    {loading ? "Enviando..." : "🗑️ Solicitar eliminación"}
                   </button>
                 </div>
               </>
@@ -1734,7 +1870,7 @@ export default function PanelActionsMenu({
                   width: "100%",
                 }}
               >
-                ✅ Panel eliminado correctamente
+                ✅ Solicitud enviada para aprobación
               </button>
             )}
           </div>
@@ -1754,6 +1890,28 @@ export default function PanelActionsMenu({
           onSuccess?.();
         }}
       />
+
+      {/* Modal: Servicios recurrentes */}
+      <PanelServicesModal
+        isOpen={showServicesModal}
+        onClose={() => setShowServicesModal(false)}
+        panelId={panelId}
+        codigo={codigo}
+        municipio={municipio}
+        monthKey={monthKey}
+        desglose={desglose}
+        onSuccess={() => onSuccess?.()}
+      />
+
+      <ChangePanelCodeModal
+        isOpen={showChangeCodeModal}
+        onClose={() => setShowChangeCodeModal(false)}
+        panelId={panelId}
+        codigo={codigo}
+        municipio={municipio}
+        monthKey={monthKey}
+        onSuccess={() => onSuccess?.()}
+      />
     </div>
   );
 }
@@ -0,0 +1,101 @@
+/**
+ * PanelChangePreview Component
+ * Vista previa de un cambio de panel (BAJA, DESMONTADO, REINSTALACION) antes de confirmarlo:
+ * días, importe y estado al cierre del mes, y efecto sobre el mes siguiente si está abierto
+ */
+
+"use client";
+
+import { PanelChangePreview as PanelChangePreviewData, PanelChangeTotals } from "@/lib/api";
+
+interface PanelChangePreviewProps {
+  preview: PanelChangePreviewData | null;
+  loading: boolean;
+}
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  justifyContent: "space-between",
+  fontSize: 13,
+  marginBottom: 4,
+};
+
+function formatChange(before: number | undefined, after: number, suffix: string, decimals = 0) {
+  const afterText = `${after.toFixed(decimals)}${suffix}`;
+  if (before === undefined || before === after) return afterText;
+  return `${before.toFixed(decimals)}${suffix} → ${afterText}`;
+}
+
+function TotalsRows({ before, after }: { before: PanelChangeTotals | null; after: PanelChangeTotals }) {
+  return (
+    <>
+      <div style={rowStyle}>
+        <span>Días facturables</span>
+        <strong>{formatChange(before?.totalDiasFacturables, after.totalDiasFacturables, "")}</strong>
+      </div>
+      <div style={rowStyle}>
+        <span>Importe</span>
+        <strong>{formatChange(before?.totalImporte, after.totalImporte, " €", 2)}</strong>
+      </div>
+      <div style={{ ...rowStyle, marginBottom: 0 }}>
+        <span>Estado al cierre</span>
+        <strong>
+          {before && before.estadoAlCierre !== after.estadoAlCierre ?
+            `${before.estadoAlCierre} → ${after.estadoAlCierre}` :
+            after.estadoAlCierre}
+        </strong>
+      </div>
+    </>
+  );
+}
+
+export default function PanelChangePreview({ preview, loading }: PanelChangePreviewProps) {
+  if (loading) {
+    return (
+      <div style={{ fontSize: 13, color: "#8C8C8C", marginBottom: 16 }}>
+        Calculando vista previa...
+      </div>
+    );
+  }
+
+  if (!preview) return null;
+
+  const { after, nextMonth } = preview;
+
+  return (
+    <div
+      style={{
+        border: "1px solid #91D5FF",
+        borderRadius: 4,
+        padding: "12px",
+        marginBottom: 16,
+        background: "#E6F7FF",
+      }}
+    >
+      <div style={{ fontSize: 12, fontWeight: 600, color: "#0050B3", marginBottom: 8 }}>
+        Vista previa {preview.monthKey} (sin guardar)
+      </div>
+      <TotalsRows before={preview.before} after={after} />
+      {after.periodos.length > 0 && (
+        <div style={{ fontSize: 11, color: "#595959", marginTop: 4 }}>
+          Periodos facturados: {after.periodos.map((p) => `${p.inicio}-${p.fin}`).join(", ")}
+        </div>
+      )}
+
+      {nextMonth && (
+        <div style={{ marginTop: 12, paddingTop: 8, borderTop: "1px solid #BAE7FF" }}>
+          <div style={{ fontSize: 12, fontWeight: 600, color: "#0050B3", marginBottom: 8 }}>
+            Efecto en {nextMonth.monthKey}
+          </div>
+          {nextMonth.isLocked || !nextMonth.after ? (
+            <div style={{ fontSize: 12, color: "#8C8C8C" }}>
+              Mes cerrado: no se modifica (las diferencias irían como rectificación).
+            </div>
+          ) : (
+            <TotalsRows before={nextMonth.before} after={nextMonth.after} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * PanelRevenueChart Component
+ * Ingresos acumulados de un panel mes a mes (SVG, sin librería de gráficos)
+ * Barras: importe del mes; línea: acumulado
+ */
+
+"use client";
+
+interface PanelRevenueChartProps {
+  months: { monthKey: string; totalImporte: number }[];
+}
+
+const WIDTH = 720;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 64 };
+
+export default function PanelRevenueChart({ months }: PanelRevenueChartProps) {
+  if (months.length === 0) {
+    return (
+      <div style={{ padding: "24px", fontSize: "14px", color: "#A3A3A3", textAlign: "center" }}>
+        Sin meses facturados
+      </div>
+    );
+  }
+
+  let acumulado = 0;
+  const points = months.map((month) => {
+    acumulado += month.totalImporte;
+    return { ...month, acumulado: Math.round(acumulado * 100) / 100 };
+  });
+
+  const maxValue = Math.max(...points.map((p) => p.acumulado), 1);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const step = plotWidth / points.length;
+  const barWidth = Math.max(Math.min(step * 0.6, 32), 2);
+
+  const x = (index: number) => PADDING.left + step * index + step / 2;
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  // Etiquetas del eje X: como mucho ~12 para que no se solapen
+  const labelEvery = Math.ceil(points.length / 12);
+  const ticks = [0, maxValue / 2, maxValue];
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      style={{ width: "100%", height: "auto", display: "block" }}
+      role="img"
+      aria-label="Ingresos acumulados del panel"
+    >
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#EAEAEA" />
+          <text x={PADDING.left - 8} y={y(tick) + 4} fontSize="11" fill="#8C8C8C" textAnchor="end">
+            {tick.toFixed(0)} €
+          </text>
+        </g>
+      ))}
+
+      {points.map((point, index) => (
+        <g key={point.monthKey}>
+          <rect
+            x={x(index) - barWidth / 2}
+            y={y(point.totalImporte)}
+            width={barWidth}
+            height={PADDING.top + plotHeight - y(point.totalImporte)}
+            fill="#D6E4FF"
+          >
+            <title>{`${point.monthKey}: ${point.totalImporte.toFixed(2)} € (acumulado ${point.acumulado.toFixed(2)} €)`}</title>
+          </rect>
+          {index % labelEvery === 0 && (
+            <text x={x(index)} y={HEIGHT - 10} fontSize="11" fill="#8C8C8C" textAnchor="middle">
+              {point.monthKey}
+            </text>
+          )}
+        </g>
+      ))}
+
+      <polyline
+        points={points.map((point, index) => `${x(index)},${y(point.acumulado)}`).join(" ")}
+        fill="none"
+        stroke="#1890FF"
+        strokeWidth={2}
+      />
+      {points.map((point, index) => (
+        <circle key={point.monthKey} cx={x(index)} cy={y(point.acumulado)} r={3} fill="#1890FF" />
+      ))}
+    </svg>
+  );
+}
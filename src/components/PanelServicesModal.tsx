@@ -0,0 +1,321 @@
+/**
+ * PanelServicesModal Component
+ * Modal para gestionar los servicios recurrentes de un panel
+ * (mantenimiento, conectividad SIM/4G, gestión de contenidos)
+ * Cada servicio se factura con su propia tarifa anual, prorrateada por días
+ */
+
+"use client";
+
+import { useState } from "react";
+import { updatePanelService, BillingBreakdownLine, ServiceType } from "@/lib/api";
+
+interface PanelServicesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  panelId: string;
+  codigo: string;
+  municipio: string;
+  monthKey: string;
+  desglose?: BillingBreakdownLine[];
+  onSuccess?: () => void;
+}
+
+export const SERVICE_TYPE_LABELS: Record<ServiceType, string> = {
+  MANTENIMIENTO: "Mantenimiento",
+  CONECTIVIDAD: "Conectividad SIM/4G",
+  CONTENIDOS: "Gestión de contenidos",
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 12px",
+  fontSize: "14px",
+  border: "1px solid #D9D9D9",
+  borderRadius: "2px",
+  outline: "none",
+  fontFamily: "inherit",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "block",
+  marginBottom: "8px",
+  fontSize: "14px",
+  fontWeight: 500,
+  color: "#000",
+};
+
+export default function PanelServicesModal({
+  isOpen,
+  onClose,
+  panelId,
+  codigo,
+  municipio,
+  monthKey,
+  desglose,
+  onSuccess,
+}: PanelServicesModalProps) {
+  const [tipo, setTipo] = useState<ServiceType>("MANTENIMIENTO");
+  const [descripcion, setDescripcion] = useState("");
+  const [fecha, setFecha] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const services = (desglose || []).filter((line) => line.tipo !== "BASE");
+
+  const validateFecha = (): boolean => {
+    if (!fecha) {
+      setError("Selecciona la fecha efectiva");
+      return false;
+    }
+    if (fecha.substring(0, 7) !== monthKey) {
+      setError(`La fecha debe pertenecer al mes ${monthKey}`);
+      return false;
+    }
+    return true;
+  };
+
+  const handleAlta = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!validateFecha()) return;
+
+    setLoading(true);
+    try {
+      await updatePanelService({
+        panelId,
+        action: "ALTA",
+        tipo,
+        effectiveDateLocal: fecha,
+        descripcion: descripcion.trim() || undefined,
+      });
+      setDescripcion("");
+      onSuccess?.();
+    } catch (err: any) {
+      setError(err.message || "Error al dar de alta el servicio");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBaja = async (service: BillingBreakdownLine) => {
+    setError(null);
+    if (!validateFecha()) return;
+
+    if (!confirm(`¿Dar de baja "${service.descripcion}" el ${fecha}?`)) return;
+
+    setLoading(true);
+    try {
+      await updatePanelService({
+        panelId,
+        action: "BAJA",
+        tipo: service.tipo as ServiceType,
+        servicioId: service.servicioId,
+        effectiveDateLocal: fecha,
+      });
+      onSuccess?.();
+    } catch (err: any) {
+      setError(err.message || "Error al dar de baja el servicio");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: "#FFF",
+          borderRadius: "2px",
+          width: "600px",
+          maxWidth: "90vw",
+          maxHeight: "90vh",
+          overflow: "auto",
+          boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
+          textAlign: "left",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ padding: "20px 24px", borderBottom: "1px solid #EAEAEA" }}>
+          <h2 style={{ margin: 0, fontSize: "18px", fontWeight: 600, color: "#000" }}>
+            Servicios del panel
+          </h2>
+          <div style={{ marginTop: "8px", fontSize: "14px", color: "#595959" }}>
+            Panel: <strong>{codigo}</strong> • {municipio} • {monthKey}
+          </div>
+        </div>
+
+        <div style={{ padding: "24px" }}>
+          {error && (
+            <div
+              style={{
+                marginBottom: "20px",
+                padding: "12px 16px",
+                backgroundColor: "#FFE5E5",
+                border: "1px solid #FFB3B3",
+                borderRadius: "2px",
+                fontSize: "13px",
+                color: "#C62828",
+              }}
+            >
+              {error}
+            </div>
+          )}
+
+          <div style={{ marginBottom: "20px" }}>
+            <label style={labelStyle}>Fecha efectiva *</label>
+            <input
+              type="date"
+              value={fecha}
+              onChange={(e) => setFecha(e.target.value)}
+              disabled={loading}
+              style={inputStyle}
+            />
+          </div>
+
+          {/* Servicios del mes */}
+          <div style={{ marginBottom: "24px" }}>
+            <label style={labelStyle}>Servicios en {monthKey}</label>
+            {services.length === 0 ? (
+              <div style={{ fontSize: "13px", color: "#8C8C8C" }}>
+                El panel no tiene servicios recurrentes.
+              </div>
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "13px" }}>
+                <tbody>
+                  {services.map((service) => (
+                    <tr key={service.servicioId} style={{ borderBottom: "1px solid #EAEAEA" }}>
+                      <td style={{ padding: "8px 0" }}>
+                        {service.descripcion}
+                        <div style={{ fontSize: "11px", color: "#8C8C8C" }}>
+                          {service.dias} días × {service.tarifa.toFixed(2)} €/mes
+                        </div>
+                      </td>
+                      <td style={{ padding: "8px", textAlign: "right", fontWeight: 500 }}>
+                        {service.importe.toFixed(2)} €
+                      </td>
+                      <td style={{ padding: "8px 0", textAlign: "right", width: "90px" }}>
+                        {service.estadoAlCierre === "ACTIVO" ? (
+                          <button
+                            type="button"
+                            onClick={() => handleBaja(service)}
+                            disabled={loading}
+                            style={{
+                              padding: "4px 10px",
+                              fontSize: "12px",
+                              color: "#CF1322",
+                              backgroundColor: "#FFF",
+                              border: "1px solid #FFA39E",
+                              borderRadius: "2px",
+                              cursor: loading ? "not-allowed" : "pointer",
+                            }}
+                          >
+                            Dar de baja
+                          </button>
+                        ) : (
+                          <span style={{ fontSize: "12px", color: "#8C8C8C" }}>Baja</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Alta de servicio */}
+          <form onSubmit={handleAlta}>
+            <label style={labelStyle}>Añadir servicio</label>
+            <div style={{ display: "flex", gap: "8px", marginBottom: "12px" }}>
+              <select
+                value={tipo}
+                onChange={(e) => setTipo(e.target.value as ServiceType)}
+                disabled={loading}
+                style={{ ...inputStyle, width: "220px" }}
+              >
+                {(Object.keys(SERVICE_TYPE_LABELS) as ServiceType[]).map((t) => (
+                  <option key={t} value={t}>
+                    {SERVICE_TYPE_LABELS[t]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={descripcion}
+                onChange={(e) => setDescripcion(e.target.value)}
+                placeholder="Descripción (opcional)"
+                maxLength={200}
+                disabled={loading}
+                style={inputStyle}
+              />
+            </div>
+            <div style={{ fontSize: "12px", color: "#8C8C8C", marginBottom: "12px" }}>
+              La tarifa mensual de cada tipo se configura en Tarifas Anuales
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              style={{
+                padding: "10px 24px",
+                fontSize: "14px",
+                fontWeight: 500,
+                color: "#FFF",
+                backgroundColor: loading ? "#8C8C8C" : "#000",
+                border: "none",
+                borderRadius: "2px",
+                cursor: loading ? "not-allowed" : "pointer",
+              }}
+            >
+              {loading ? "Guardando..." : "Dar de alta servicio"}
+            </button>
+          </form>
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: "16px 24px",
+            borderTop: "1px solid #EAEAEA",
+            display: "flex",
+            justifyContent: "flex-end",
+          }}
+        >
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={loading}
+            style={{
+              padding: "10px 24px",
+              fontSize: "14px",
+              fontWeight: 500,
+              color: "#000",
+              backgroundColor: "#FFF",
+              border: "1px solid #D9D9D9",
+              borderRadius: "2px",
+              cursor: loading ? "not-allowed" : "pointer",
+            }}
+          >
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
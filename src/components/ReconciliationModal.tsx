@@ -0,0 +1,334 @@
+/**
+ * ReconciliationModal Component
+ * Diferencias entre el listado mensual del cliente y nuestra facturación
+ * (paneles que faltan en cada lado, importes y municipios) con exportación a Excel
+ */
+
+"use client";
+
+import { useState } from "react";
+import { ReconciliationIssue, ReconciliationResult } from "@/lib/api";
+import * as XLSX from "xlsx";
+
+interface ReconciliationModalProps {
+  result: ReconciliationResult;
+  onClose: () => void;
+}
+
+const ISSUE_LABELS: Record<ReconciliationIssue, string> = {
+  SOLO_CLIENTE: "Solo en el listado del cliente",
+  SOLO_NUESTRO: "Solo en nuestra facturación",
+  IMPORTE: "Importe distinto",
+  MUNICIPIO: "Municipio distinto",
+  DUPLICADO: "Duplicado en el listado",
+};
+
+const ISSUE_COLORS: Record<ReconciliationIssue, string> = {
+  SOLO_CLIENTE: "#CF1322",
+  SOLO_NUESTRO: "#D46B08",
+  IMPORTE: "#1890FF",
+  MUNICIPIO: "#722ED1",
+  DUPLICADO: "#8C8C8C",
+};
+
+type Filter = "INCIDENCIAS" | "TODAS" | ReconciliationIssue;
+
+export default function ReconciliationModal({ result, onClose }: ReconciliationModalProps) {
+  const [filter, setFilter] = useState<Filter>("INCIDENCIAS");
+  const { resumen } = result;
+
+  const formatEuros = (amount: number | null) => {
+    if (amount === null) return "—";
+    return new Intl.NumberFormat("es-ES", {
+      style: "currency",
+      currency: "EUR",
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const lineas = result.lineas.filter((linea) => {
+    if (filter === "TODAS") return true;
+    if (filter === "INCIDENCIAS") return linea.incidencias.length > 0;
+    return linea.incidencias.includes(filter);
+  });
+
+  const downloadExcel = () => {
+    try {
+      const workbook = XLSX.utils.book_new();
+
+      const summaryData = [
+        ["CONCILIACIÓN CON EL LISTADO DEL CLIENTE"],
+        ["Mes", result.monthKey],
+        ["Fichero", result.fileName || ""],
+        [""],
+        ["Concepto", "Valor"],
+        ["Filas del listado", resumen.filasCliente],
+        ["Paneles facturados", resumen.panelesFacturados],
+        ["Coincidentes", resumen.coincidentes],
+        [ISSUE_LABELS.SOLO_CLIENTE, resumen.soloCliente],
+        [ISSUE_LABELS.SOLO_NUESTRO, resumen.soloNuestro],
+        [ISSUE_LABELS.IMPORTE, resumen.diferenciasImporte],
+        [ISSUE_LABELS.MUNICIPIO, resumen.diferenciasMunicipio],
+        [ISSUE_LABELS.DUPLICADO, resumen.duplicados],
+        [""],
+        ["Total cliente (EUR)", resumen.totalCliente],
+        ["Total declarado en el listado (EUR)", resumen.totalDeclarado ?? "-"],
+        ["Total facturado (EUR)", resumen.totalNuestro],
+        ["Diferencia (EUR)", Math.round((resumen.totalNuestro - resumen.totalCliente) * 100) / 100],
+      ];
+      const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
+      summarySheet["!cols"] = [{ wch: 36 }, { wch: 20 }];
+      XLSX.utils.book_append_sheet(workbook, summarySheet, "Resumen");
+
+      const diffData = [
+        [
+          "Línea", "Código cliente", "Código nuestro", "Municipio cliente", "Municipio nuestro",
+          "Importe cliente (EUR)", "Importe nuestro (EUR)", "Diferencia (EUR)", "Incidencias",
+        ],
+        ...result.lineas.map((linea) => [
+          linea.linea ?? "",
+          linea.codigoCliente ?? "",
+          linea.codigoNuestro ?? "",
+          linea.municipioCliente ?? "",
+          linea.municipioNuestro ?? "",
+          linea.importeCliente ?? "",
+          linea.importeNuestro ?? "",
+          linea.diferencia,
+          linea.incidencias.map((issue) => ISSUE_LABELS[issue]).join(", ") || "OK",
+        ]),
+      ];
+      const diffSheet = XLSX.utils.aoa_to_sheet(diffData);
+      diffSheet["!cols"] = [
+        { wch: 8 }, { wch: 22 }, { wch: 22 }, { wch: 25 }, { wch: 25 },
+        { wch: 18 }, { wch: 18 }, { wch: 16 }, { wch: 40 },
+      ];
+      XLSX.utils.book_append_sheet(workbook, diffSheet, "Conciliación");
+
+      if (result.erroresFormato.length > 0) {
+        const erroresSheet = XLSX.utils.aoa_to_sheet([
+          ["Línea", "Error"],
+          ...result.erroresFormato.map((e) => [e.linea, e.error]),
+        ]);
+        erroresSheet["!cols"] = [{ wch: 8 }, { wch: 50 }];
+        XLSX.utils.book_append_sheet(workbook, erroresSheet, "Errores de formato");
+      }
+
+      XLSX.writeFile(workbook, `Conciliacion_${result.monthKey}.xlsx`);
+    } catch (error) {
+      console.error("Error generando Excel:", error);
+      alert("Error al generar el archivo Excel");
+    }
+  };
+
+  const summaryCards: Array<{ label: string; value: number; filter: Filter; color: string }> = [
+    { label: "Coincidentes", value: resumen.coincidentes, filter: "TODAS", color: "#52C41A" },
+    { label: "Solo cliente", value: resumen.soloCliente, filter: "SOLO_CLIENTE", color: ISSUE_COLORS.SOLO_CLIENTE },
+    { label: "Solo nuestros", value: resumen.soloNuestro, filter: "SOLO_NUESTRO", color: ISSUE_COLORS.SOLO_NUESTRO },
+    { label: "Importe", value: resumen.diferenciasImporte, filter: "IMPORTE", color: ISSUE_COLORS.IMPORTE },
+    { label: "Municipio", value: resumen.diferenciasMunicipio, filter: "MUNICIPIO", color: ISSUE_COLORS.MUNICIPIO },
+    { label: "Duplicados", value: resumen.duplicados, filter: "DUPLICADO", color: ISSUE_COLORS.DUPLICADO },
+  ];
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        width: "100%",
+        height: "100%",
+        backgroundColor: "rgba(0,0,0,0.6)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 10000,
+        overflow: "auto",
+        padding: "20px",
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: "#FFF",
+          borderRadius: "8px",
+          maxWidth: "1100px",
+          width: "100%",
+          maxHeight: "90vh",
+          overflow: "auto",
+          boxShadow: "0 8px 32px rgba(0,0,0,0.2)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: "24px",
+            borderBottom: "2px solid #1890FF",
+            position: "sticky",
+            top: 0,
+            backgroundColor: "#FFF",
+            zIndex: 1,
+          }}
+        >
+          <h2 style={{ margin: 0, fontSize: "24px", color: "#262626", fontWeight: 600 }}>
+            🔍 Conciliación con el listado del cliente
+          </h2>
+          <p style={{ margin: "4px 0 0 0", fontSize: "14px", color: "#8C8C8C" }}>
+            {result.monthKey}
+            {result.fileName ? ` · ${result.fileName}` : ""}
+          </p>
+        </div>
+
+        {/* Content */}
+        <div style={{ padding: "24px" }}>
+          <section style={{ marginBottom: "24px" }}>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(140px, 1fr))", gap: "12px" }}>
+              {summaryCards.map((card) => (
+                <button
+                  key={card.label}
+                  onClick={() => setFilter(card.filter)}
+                  style={{
+                    padding: "12px",
+                    textAlign: "left",
+                    backgroundColor: filter === card.filter ? "#F0F5FF" : "#FFF",
+                    border: `1px solid ${filter === card.filter ? "#1890FF" : "#EAEAEA"}`,
+                    borderRadius: "4px",
+                    cursor: "pointer",
+                  }}
+                >
+                  <div style={{ fontSize: "12px", color: "#595959", marginBottom: "4px" }}>{card.label}</div>
+                  <div style={{ fontSize: "22px", color: card.color, fontWeight: 600 }}>{card.value}</div>
+                </button>
+              ))}
+            </div>
+            <div style={{ marginTop: "12px", fontSize: "13px", color: "#595959", display: "flex", gap: "16px", flexWrap: "wrap" }}>
+              <span>Total cliente: {formatEuros(resumen.totalCliente)}</span>
+              {resumen.totalDeclarado !== null && (
+                <span>Total declarado: {formatEuros(resumen.totalDeclarado)}</span>
+              )}
+              <span>Total facturado: {formatEuros(resumen.totalNuestro)}</span>
+              <span style={{ fontWeight: 600 }}>
+                Diferencia: {formatEuros(Math.round((resumen.totalNuestro - resumen.totalCliente) * 100) / 100)}
+              </span>
+            </div>
+            {result.erroresFormato.length > 0 && (
+              <div style={{ marginTop: "12px", fontSize: "12px", color: "#D46B08" }}>
+                ⚠️ {result.erroresFormato.length} línea(s) del listado ignoradas:{" "}
+                {result.erroresFormato.map((e) => `línea ${e.linea} (${e.error})`).join("; ")}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "8px" }}>
+              <span style={{ fontSize: "13px", color: "#595959" }}>{lineas.length} líneas</span>
+              <select
+                value={filter}
+                onChange={(e) => setFilter(e.target.value as Filter)}
+                style={{ padding: "4px 8px", fontSize: "13px", border: "1px solid #D9D9D9", borderRadius: "2px" }}
+              >
+                <option value="INCIDENCIAS">Solo incidencias</option>
+                <option value="TODAS">Todas</option>
+                {(Object.keys(ISSUE_LABELS) as ReconciliationIssue[]).map((issue) => (
+                  <option key={issue} value={issue}>{ISSUE_LABELS[issue]}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ border: "1px solid #EAEAEA", maxHeight: "420px", overflowY: "auto" }}>
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+                <thead>
+                  <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+                    <th style={{ padding: "6px 8px", textAlign: "left" }}>Código</th>
+                    <th style={{ padding: "6px 8px", textAlign: "left" }}>Municipio cliente</th>
+                    <th style={{ padding: "6px 8px", textAlign: "left" }}>Municipio nuestro</th>
+                    <th style={{ padding: "6px 8px", textAlign: "right" }}>Cliente</th>
+                    <th style={{ padding: "6px 8px", textAlign: "right" }}>Nuestro</th>
+                    <th style={{ padding: "6px 8px", textAlign: "right" }}>Diferencia</th>
+                    <th style={{ padding: "6px 8px", textAlign: "left" }}>Incidencias</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lineas.map((linea, index) => (
+                    <tr key={`${linea.linea ?? "n"}-${linea.codigoNuestro ?? linea.codigoCliente}-${index}`} style={{ borderBottom: "1px solid #EAEAEA" }}>
+                      <td style={{ padding: "6px 8px" }}>
+                        {linea.codigoCliente ?? linea.codigoNuestro}
+                        {linea.codigoCliente && linea.codigoNuestro && linea.codigoCliente !== linea.codigoNuestro && (
+                          <div style={{ fontSize: "11px", color: "#8C8C8C" }}>nuestro: {linea.codigoNuestro}</div>
+                        )}
+                      </td>
+                      <td style={{ padding: "6px 8px" }}>{linea.municipioCliente ?? "—"}</td>
+                      <td style={{ padding: "6px 8px" }}>{linea.municipioNuestro ?? "—"}</td>
+                      <td style={{ padding: "6px 8px", textAlign: "right" }}>{formatEuros(linea.importeCliente)}</td>
+                      <td style={{ padding: "6px 8px", textAlign: "right" }}>{formatEuros(linea.importeNuestro)}</td>
+                      <td
+                        style={{
+                          padding: "6px 8px",
+                          textAlign: "right",
+                          color: linea.diferencia === 0 ? "#595959" : linea.diferencia > 0 ? "#52C41A" : "#CF1322",
+                        }}
+                      >
+                        {formatEuros(linea.diferencia)}
+                      </td>
+                      <td style={{ padding: "6px 8px" }}>
+                        {linea.incidencias.length === 0 ? (
+                          <span style={{ color: "#52C41A" }}>OK</span>
+                        ) : (
+                          linea.incidencias.map((issue) => (
+                            <div key={issue} style={{ color: ISSUE_COLORS[issue] }}>{ISSUE_LABELS[issue]}</div>
+                          ))
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: "16px 24px",
+            borderTop: "1px solid #F0F0F0",
+            backgroundColor: "#FAFAFA",
+            display: "flex",
+            justifyContent: "flex-end",
+            gap: "12px",
+          }}
+        >
+          <button
+            onClick={downloadExcel}
+            style={{
+              padding: "8px 24px",
+              fontSize: "14px",
+              color: "#FFF",
+              backgroundColor: "#52C41A",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+              fontWeight: 500,
+            }}
+          >
+            Descargar Excel
+          </button>
+          <button
+            onClick={onClose}
+            style={{
+              padding: "8px 24px",
+              fontSize: "14px",
+              color: "#FFF",
+              backgroundColor: "#1890FF",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+              fontWeight: 500,
+            }}
+          >
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+/**
+ * RectificacionModal Component
+ * Modal para registrar una rectificación sobre un mes cerrado
+ * La diferencia se factura en el mes abierto; el mes original no se modifica
+ */
+
+"use client";
+
+import { useState } from "react";
+import { createRectificacion } from "@/lib/api";
+
+interface RectificacionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  panelId: string;
+  codigo: string;
+  municipio: string;
+  monthKey: string; // Mes cerrado que se rectifica
+  importeActual: number;
+  onSuccess?: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 12px",
+  fontSize: "14px",
+  border: "1px solid #D9D9D9",
+  borderRadius: "2px",
+  outline: "none",
+  fontFamily: "inherit",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "block",
+  marginBottom: "8px",
+  fontSize: "14px",
+  fontWeight: 500,
+  color: "#000",
+};
+
+const hintStyle: React.CSSProperties = {
+  marginTop: "4px",
+  fontSize: "12px",
+  color: "#8C8C8C",
+};
+
+export default function RectificacionModal({
+  isOpen,
+  onClose,
+  panelId,
+  codigo,
+  municipio,
+  monthKey,
+  importeActual,
+  onSuccess,
+}: RectificacionModalProps) {
+  const [importe, setImporte] = useState("");
+  const [motivo, setMotivo] = useState("");
+  const [targetMonthKey, setTargetMonthKey] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const importeNum = parseFloat(importe);
+    if (isNaN(importeNum) || importeNum === 0) {
+      setError("La diferencia debe ser un número distinto de 0");
+      return;
+    }
+    if (motivo.trim().length < 3) {
+      setError("Indica el motivo de la rectificación");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await createRectificacion({
+        panelId,
+        monthKeyOriginal: monthKey,
+        importe: importeNum,
+        motivo: motivo.trim(),
+        targetMonthKey: targetMonthKey || undefined,
+      });
+
+      alert(`✅ Rectificación registrada en ${result.targetMonthKey}`);
+
+      setImporte("");
+      setMotivo("");
+      setTargetMonthKey("");
+      onSuccess?.();
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Error al registrar la rectificación");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: "#FFF",
+          borderRadius: "2px",
+          width: "540px",
+          maxWidth: "90vw",
+          maxHeight: "90vh",
+          overflow: "auto",
+          boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
+          textAlign: "left",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ padding: "20px 24px", borderBottom: "1px solid #EAEAEA" }}>
+          <h2 style={{ margin: 0, fontSize: "18px", fontWeight: 600, color: "#000" }}>
+            Rectificar mes cerrado
+          </h2>
+          <div style={{ marginTop: "8px", fontSize: "14px", color: "#595959" }}>
+            Panel: <strong>{codigo}</strong> • {municipio} • {monthKey}
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div style={{ padding: "24px" }}>
+            <div
+              style={{
+                marginBottom: "20px",
+                padding: "12px 16px",
+                backgroundColor: "#E6F7FF",
+                border: "1px solid #91D5FF",
+                borderRadius: "2px",
+                fontSize: "13px",
+                color: "#0050B3",
+              }}
+            >
+              El mes {monthKey} no se modifica (facturado: {importeActual.toFixed(2)} €). La diferencia
+              se añade al mes abierto como una línea de rectificación.
+            </div>
+
+            {error && (
+              <div
+                style={{
+                  marginBottom: "20px",
+                  padding: "12px 16px",
+                  backgroundColor: "#FFE5E5",
+                  border: "1px solid #FFB3B3",
+                  borderRadius: "2px",
+                  fontSize: "13px",
+                  color: "#C62828",
+                }}
+              >
+                {error}
+              </div>
+            )}
+
+            <div style={{ marginBottom: "20px" }}>
+              <label style={labelStyle}>Diferencia (€) *</label>
+              <input
+                type="number"
+                step="0.01"
+                value={importe}
+                onChange={(e) => setImporte(e.target.value)}
+                placeholder="-12.50"
+                required
+                style={inputStyle}
+              />
+              <div style={hintStyle}>Positivo si se facturó de menos, negativo si se facturó de más</div>
+            </div>
+
+            <div style={{ marginBottom: "20px" }}>
+              <label style={labelStyle}>Motivo *</label>
+              <textarea
+                value={motivo}
+                onChange={(e) => setMotivo(e.target.value)}
+                placeholder="Ej: Desmontaje comunicado tarde, el panel estaba retirado desde el día 12"
+                required
+                maxLength={500}
+                rows={3}
+                style={{ ...inputStyle, resize: "vertical" }}
+              />
+            </div>
+
+            <div style={{ marginBottom: "20px" }}>
+              <label style={labelStyle}>Mes donde facturar la diferencia (opcional)</label>
+              <input
+                type="month"
+                value={targetMonthKey}
+                onChange={(e) => setTargetMonthKey(e.target.value)}
+                style={inputStyle}
+              />
+              <div style={hintStyle}>Por defecto, el último mes abierto</div>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div
+            style={{
+              padding: "16px 24px",
+              borderTop: "1px solid #EAEAEA",
+              display: "flex",
+              justifyContent: "flex-end",
+              gap: "12px",
+            }}
+          >
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={loading}
+              style={{
+                padding: "10px 24px",
+                fontSize: "14px",
+                fontWeight: 500,
+                color: "#000",
+                backgroundColor: "#FFF",
+                border: "1px solid #D9D9D9",
+                borderRadius: "2px",
+                cursor: loading ? "not-allowed" : "pointer",
+                opacity: loading ? 0.6 : 1,
+              }}
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              style={{
+                padding: "10px 24px",
+                fontSize: "14px",
+                fontWeight: 500,
+                color: "#FFF",
+                backgroundColor: loading ? "#8C8C8C" : "#000",
+                border: "none",
+                borderRadius: "2px",
+                cursor: loading ? "not-allowed" : "pointer",
+              }}
+            >
+              {loading ? "Registrando..." : "Registrar rectificación"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
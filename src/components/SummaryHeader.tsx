@@ -1,6 +1,7 @@
 /**
  * SummaryHeader Component
  * Selector de mes (YYYY-MM) con estado de bloqueo y gestión de meses
+ * Incluye selector "a fecha de" para consultar la facturación en un momento pasado
  * Diseño neutro en escala de grises, sin iconos
  */
 
@@ -8,12 +9,15 @@
 
 import { useState, useEffect } from "react";
 import { createNextMonth, toggleMonthLock } from "@/lib/api";
+import MonthCloseWizard from "./MonthCloseWizard";
 
 interface SummaryHeaderProps {
   monthKey: string;
   isLocked: boolean;
   onMonthChange: (monthKey: string) => void;
   onDataRefresh?: () => void;
+  asOf?: string; // "YYYY-MM-DDTHH:mm" (vacío = datos actuales)
+  onAsOfChange?: (asOf: string) => void;
 }
 
 export default function SummaryHeader({
@@ -21,10 +25,13 @@ export default function SummaryHeader({
   isLocked,
   onMonthChange,
   onDataRefresh,
+  asOf = "",
+  onAsOfChange,
 }: SummaryHeaderProps) {
   const [selectedMonth, setSelectedMonth] = useState(monthKey);
   const [isCreating, setIsCreating] = useState(false);
   const [isToggling, setIsToggling] = useState(false);
+  const [showCloseWizard, setShowCloseWizard] = useState(false);
 
   useEffect(() => {
     setSelectedMonth(monthKey);
@@ -52,7 +59,10 @@ export default function SummaryHeader({
       alert(
         `✅ Mes ${result.monthKey} creado exitosamente.\n\n` +
         `• ${result.panelsCreated} paneles creados\n` +
-        `• Estados heredados de ${result.previousMonthKey}`
+        `• Estados heredados de ${result.previousMonthKey}` +
+        (result.scheduledEventsApplied > 0 ?
+          `\n• ${result.scheduledEventsApplied} eventos programados aplicados` :
+          "")
       );
 
       // Cambiar al mes nuevo
@@ -66,20 +76,27 @@ export default function SummaryHeader({
   };
 
   const handleToggleLock = async () => {
-    const action = isLocked ? "abrir" : "cerrar";
-    if (!confirm(`¿${action.toUpperCase()} el mes ${monthKey}?`)) {
+    // El cierre pasa por el asistente (comprobaciones previas)
+    if (!isLocked) {
+      setShowCloseWizard(true);
+      return;
+    }
+
+    if (!confirm(`¿ABRIR el mes ${monthKey}?`)) {
       return;
     }
 
     setIsToggling(true);
     try {
-      const result = await toggleMonthLock(monthKey, !isLocked);
-      alert(
-        `✅ Mes ${result.monthKey} ${result.isLocked ? "cerrado" : "abierto"} correctamente.`
-      );
+      const result = await toggleMonthLock(monthKey, false);
+      let message = `✅ Mes ${result.monthKey} abierto correctamente.`;
+      if (result.warning) {
+        message += `\n\n⚠️ ${result.warning}`;
+      }
+      alert(message);
       if (onDataRefresh) onDataRefresh();
     } catch (error: any) {
-      alert(`❌ Error al ${action} mes:\n${error.message}`);
+      alert(`❌ Error al abrir mes:\n${error.message}`);
     } finally {
       setIsToggling(false);
     }
@@ -174,6 +191,67 @@ export default function SummaryHeader({
           />
         </div>
 
+        {/* Selector "a fecha de" (reconstrucción histórica) */}
+        {onAsOfChange && (
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: "4px",
+            }}
+          >
+            <label
+              htmlFor="as-of-selector"
+              style={{
+                fontSize: "12px",
+                fontWeight: 500,
+                color: "#595959",
+                textTransform: "uppercase",
+                letterSpacing: "0.5px",
+              }}
+            >
+              A fecha de
+            </label>
+            <div style={{ display: "flex", gap: "4px" }}>
+              <input
+                id="as-of-selector"
+                type="datetime-local"
+                value={asOf}
+                onChange={(e) => onAsOfChange(e.target.value)}
+                style={{
+                  padding: "8px 12px",
+                  fontSize: "14px",
+                  fontWeight: 400,
+                  color: "#000",
+                  backgroundColor: asOf ? "#FFFBE6" : "#FFF",
+                  border: `1px solid ${asOf ? "#FAAD14" : "#D9D9D9"}`,
+                  borderRadius: "2px",
+                  outline: "none",
+                  cursor: "pointer",
+                }}
+              />
+              {asOf && (
+                <button
+                  onClick={() => onAsOfChange("")}
+                  style={{
+                    padding: "8px 12px",
+                    fontSize: "13px",
+                    fontWeight: 500,
+                    color: "#000",
+                    backgroundColor: "#FFF",
+                    border: "1px solid #D9D9D9",
+                    borderRadius: "2px",
+                    cursor: "pointer",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  Actual
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Botón: Crear mes siguiente */}
         <button
           onClick={handleCreateNextMonth}
@@ -234,6 +312,16 @@ export default function SummaryHeader({
           {isToggling ? "Procesando..." : isLocked ? "Abrir mes" : "Cerrar mes"}
         </button>
       </div>
+
+      {showCloseWizard && (
+        <MonthCloseWizard
+          monthKey={monthKey}
+          onClose={() => setShowCloseWizard(false)}
+          onClosed={() => {
+            if (onDataRefresh) onDataRefresh();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,326 @@
+/**
+ * ApprovalsInbox Component
+ * Bandeja de solicitudes de operaciones destructivas (eliminar panel, mes o
+ * eventos, limpiar o fusionar duplicados). Otro admin distinto del solicitante las aprueba
+ * o rechaza; el solicitante puede cancelarlas. Incluye el historial reciente
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, getDocs, limit, orderBy, query } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { resolveApprovalRequest, ApprovalOperation, ApprovalRequest, ApprovalStatus } from "@/lib/api";
+
+const OPERATION_LABELS: Record<ApprovalOperation, string> = {
+  DELETE_PANEL: "Eliminar panel",
+  DELETE_MONTH: "Eliminar mes",
+  DELETE_MONTH_DATA: "Eliminar datos del mes",
+  DELETE_ALL_PANEL_EVENTS: "Eliminar eventos del mes",
+  CLEANUP_DUPLICATE_PANELS: "Limpiar paneles duplicados",
+  MERGE_PANELS: "Fusionar paneles",
+};
+
+const STATUS_COLORS: Record<ApprovalStatus, string> = {
+  PENDIENTE: "#FA8C16",
+  APROBADA: "#1890FF",
+  EJECUTADA: "#52C41A",
+  FALLIDA: "#CF1322",
+  RECHAZADA: "#CF1322",
+  CANCELADA: "#8C8C8C",
+  CADUCADA: "#8C8C8C",
+};
+
+const MAX_REQUESTS = 50;
+
+const toDate = (value: any): Date => value?.toDate?.() ?? new Date(0);
+
+const formatEuros = (amount: number) =>
+  new Intl.NumberFormat("es-ES", { style: "currency", currency: "EUR", minimumFractionDigits: 2 }).format(amount);
+
+export default function ApprovalsInbox() {
+  const [requests, setRequests] = useState<ApprovalRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const currentUid = auth.currentUser?.uid;
+
+  useEffect(() => {
+    loadRequests();
+  }, []);
+
+  const loadRequests = async () => {
+    setLoading(true);
+    try {
+      const q = query(collection(db, "approvalRequests"), orderBy("requestedAt", "desc"), limit(MAX_REQUESTS));
+      const snapshot = await getDocs(q);
+      setRequests(
+        snapshot.docs.map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            ...data,
+            requestedAt: toDate(data.requestedAt),
+            expiresAt: toDate(data.expiresAt),
+            resolvedAt: data.resolvedAt ? toDate(data.resolvedAt) : null,
+            historial: (data.historial || []).map((entry: any) => ({ ...entry, en: toDate(entry.en) })),
+          } as ApprovalRequest;
+        })
+      );
+    } catch (err: any) {
+      console.error("Error cargando solicitudes de aprobación:", err);
+      setError("Error al cargar las solicitudes de aprobación");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolve = async (request: ApprovalRequest, decision: "APROBAR" | "RECHAZAR" | "CANCELAR") => {
+    const label = `${OPERATION_LABELS[request.operation]}: ${request.impacto.descripcion}`;
+    let comentario: string | undefined;
+    if (decision === "APROBAR") {
+      if (!confirm(`¿Aprobar y ejecutar "${label}"?\n\n⚠️ NO SE PUEDE DESHACER ⚠️`)) return;
+    } else {
+      const text = prompt(`${decision === "RECHAZAR" ? "Rechazar" : "Cancelar"} "${label}". Comentario (opcional):`);
+      if (text === null) return;
+      comentario = text.trim() || undefined;
+    }
+
+    setResolvingId(request.id);
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await resolveApprovalRequest({ requestId: request.id, decision, comentario });
+      setSuccess(
+        result.estado === "EJECUTADA" ? `"${label}" aprobada y ejecutada` : `"${label}" ${result.estado.toLowerCase()}`
+      );
+    } catch (err: any) {
+      setError(err.message || "Error al resolver la solicitud");
+    } finally {
+      setResolvingId(null);
+      await loadRequests();
+    }
+  };
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: "6px 12px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: disabled ? "#A3A3A3" : color,
+    backgroundColor: "#FFF",
+    border: `1px solid ${disabled ? "#D9D9D9" : color}`,
+    borderRadius: "2px",
+    cursor: disabled ? "not-allowed" : "pointer",
+  });
+
+  const pending = requests.filter((request) => request.estado === "PENDIENTE");
+  const resolved = requests.filter((request) => request.estado !== "PENDIENTE");
+
+  const renderImpact = (request: ApprovalRequest) => (
+    <>
+      {request.impacto.meses.length > 0 && <div>Meses: {request.impacto.meses.join(", ")}</div>}
+      <div>
+        {request.impacto.paneles} panel(es) · {request.impacto.eventos} evento(s) ·{" "}
+        {request.impacto.filasFacturacion} fila(s) de facturación
+      </div>
+      <div style={{ fontWeight: 600, color: "#CF1322" }}>
+        Importe eliminado: {formatEuros(request.impacto.importeEliminado)}
+      </div>
+    </>
+  );
+
+  const renderHistory = (request: ApprovalRequest) => (
+    <ul style={{ margin: "8px 0 0 0", paddingLeft: "20px", fontSize: "11px", color: "#595959" }}>
+      {request.historial.map((entry, index) => (
+        <li key={index}>
+          {entry.en.toLocaleString("es-ES")} · <strong>{entry.estado}</strong> · {entry.por}
+          {entry.comentario && <em> — {entry.comentario}</em>}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div style={{ marginBottom: "32px" }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "16px",
+        }}
+      >
+        <h3 style={{ fontSize: "15px", fontWeight: 600, color: "#000", margin: 0 }}>
+          ✋ Aprobaciones pendientes ({pending.length})
+        </h3>
+        <button onClick={loadRequests} disabled={loading} style={buttonStyle("#1890FF", loading)}>
+          Actualizar
+        </button>
+      </div>
+
+      <p style={{ fontSize: "13px", color: "#595959", marginBottom: "16px", lineHeight: "1.6" }}>
+        Las operaciones destructivas no se ejecutan hasta que otro administrador las aprueba.
+        Revisa el impacto antes de aprobar: la operación se ejecuta en ese momento y no se puede deshacer.
+        Las solicitudes caducan si nadie las resuelve a tiempo.
+      </p>
+
+      {error && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#CF1322",
+            backgroundColor: "#FFF1F0",
+            border: "1px solid #FFCCC7",
+            borderRadius: "2px",
+          }}
+        >
+          ⚠️ {error}
+        </div>
+      )}
+
+      {success && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#52C41A",
+            backgroundColor: "#F6FFED",
+            border: "1px solid #B7EB8F",
+            borderRadius: "2px",
+          }}
+        >
+          ✓ {success}
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{ fontSize: "13px", color: "#595959" }}>Cargando solicitudes...</div>
+      ) : pending.length === 0 ? (
+        <div style={{ fontSize: "13px", color: "#8C8C8C", marginBottom: "24px" }}>
+          No hay solicitudes pendientes de aprobación.
+        </div>
+      ) : (
+        pending.map((request) => {
+          const busy = resolvingId !== null;
+          const isOwn = request.requestedByUid === currentUid;
+          return (
+            <div
+              key={request.id}
+              style={{
+                padding: "12px 16px",
+                marginBottom: "12px",
+                border: "1px solid #FFD591",
+                backgroundColor: "#FFF7E6",
+                borderRadius: "4px",
+                fontSize: "12px",
+                color: "#262626",
+                lineHeight: "1.6",
+              }}
+            >
+              <div style={{ display: "flex", justifyContent: "space-between", gap: "12px" }}>
+                <div>
+                  <div style={{ fontSize: "14px", fontWeight: 600 }}>
+                    {OPERATION_LABELS[request.operation]} · {request.impacto.descripcion}
+                  </div>
+                  <div style={{ color: "#595959" }}>
+                    Solicitada por {request.requestedBy} el {request.requestedAt.toLocaleString("es-ES")} · caduca el{" "}
+                    {request.expiresAt.toLocaleString("es-ES")}
+                  </div>
+                  {request.motivo && <div>Motivo: <em>{request.motivo}</em></div>}
+                  {renderImpact(request)}
+                </div>
+                <div style={{ whiteSpace: "nowrap" }}>
+                  {isOwn ? (
+                    <button
+                      onClick={() => handleResolve(request, "CANCELAR")}
+                      disabled={busy}
+                      style={buttonStyle("#595959", busy)}
+                    >
+                      {resolvingId === request.id ? "..." : "Cancelar"}
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleResolve(request, "APROBAR")}
+                        disabled={busy}
+                        style={{ ...buttonStyle("#52C41A", busy), marginRight: "6px" }}
+                      >
+                        {resolvingId === request.id ? "..." : "Aprobar"}
+                      </button>
+                      <button
+                        onClick={() => handleResolve(request, "RECHAZAR")}
+                        disabled={busy}
+                        style={buttonStyle("#CF1322", busy)}
+                      >
+                        Rechazar
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {isOwn && (
+                <div style={{ marginTop: "4px", fontSize: "11px", color: "#8C8C8C" }}>
+                  Tu solicitud: debe aprobarla otro administrador.
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+
+      {!loading && resolved.length > 0 && (
+        <>
+          <h4 style={{ fontSize: "14px", fontWeight: 600, color: "#000", margin: "24px 0 8px 0" }}>
+            Historial reciente
+          </h4>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+            <thead>
+              <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+                <th style={{ padding: "6px 8px", textAlign: "left" }}>Solicitada</th>
+                <th style={{ padding: "6px 8px", textAlign: "left" }}>Operación</th>
+                <th style={{ padding: "6px 8px", textAlign: "left" }}>Solicitante</th>
+                <th style={{ padding: "6px 8px", textAlign: "left" }}>Resuelta por</th>
+                <th style={{ padding: "6px 8px", textAlign: "right" }}>Importe</th>
+                <th style={{ padding: "6px 8px", textAlign: "left" }}>Estado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {resolved.map((request) => (
+                <tr
+                  key={request.id}
+                  onClick={() => setExpandedId(expandedId === request.id ? null : request.id)}
+                  style={{ borderBottom: "1px solid #EAEAEA", cursor: "pointer", verticalAlign: "top" }}
+                >
+                  <td style={{ padding: "6px 8px", whiteSpace: "nowrap" }}>
+                    {request.requestedAt.toLocaleString("es-ES")}
+                  </td>
+                  <td style={{ padding: "6px 8px" }}>
+                    {OPERATION_LABELS[request.operation]} · {request.impacto.descripcion}
+                    {expandedId === request.id && renderHistory(request)}
+                    {expandedId === request.id && request.error && (
+                      <div style={{ marginTop: "4px", color: "#CF1322" }}>{request.error}</div>
+                    )}
+                  </td>
+                  <td style={{ padding: "6px 8px" }}>{request.requestedBy}</td>
+                  <td style={{ padding: "6px 8px" }}>{request.resolvedBy ?? "—"}</td>
+                  <td style={{ padding: "6px 8px", textAlign: "right" }}>
+                    {formatEuros(request.impacto.importeEliminado)}
+                  </td>
+                  <td style={{ padding: "6px 8px", fontWeight: 600, color: STATUS_COLORS[request.estado] }}>
+                    {request.estado}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+/**
+ * AuditLogViewer Component
+ * Consulta del registro de auditoría (getAuditLogs): filtros por usuario, panel,
+ * mes, acción y fechas, detalle antes/después de cada entrada y export CSV
+ */
+
+"use client";
+
+import { Fragment, useState, useEffect } from "react";
+import { getAuditLogs, AuditAction, AuditLogEntry, AuditLogFilters } from "@/lib/api";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  PANEL_CREATE: "Alta de panel",
+  PANEL_DELETE: "Eliminar panel",
+  PANEL_EVENT_CREATE: "Nuevo evento",
+  PANEL_EVENT_UPDATE: "Editar evento",
+  PANEL_EVENT_DELETE: "Eliminar evento",
+  PANEL_EVENTS_DELETE_ALL: "Eliminar eventos del mes",
+  PANEL_SERVICE_UPDATE: "Servicio del panel",
+  INTERVENCION_CREATE: "Intervención",
+  RECTIFICACION_CREATE: "Rectificación",
+  EVENTS_IMPORT: "Importación de eventos",
+  SCHEDULED_EVENT_SAVE: "Evento programado",
+  SCHEDULED_EVENT_CANCEL: "Cancelar evento programado",
+  DUPLICATE_PANELS_CLEANUP: "Limpiar paneles duplicados",
+  PANEL_MERGE: "Fusionar paneles",
+  PANEL_CODE_CHANGE: "Cambiar código",
+  MONTH_CREATE: "Crear mes",
+  MONTH_CLOSE: "Cerrar mes",
+  MONTH_LOCK_TOGGLE: "Abrir/cerrar mes",
+  MONTH_DELETE: "Eliminar mes",
+  MONTH_DATA_DELETE: "Eliminar datos del mes",
+  MONTH_RESYNC: "Resincronizar mes",
+  MONTH_REGENERATE: "Regenerar facturación",
+  MONTH_IMPORT_BASE: "Importar mes base",
+  MONTH_DUPLICATES_CLEAN: "Limpiar duplicados del mes",
+  RATE_UPDATE: "Tarifa anual",
+  CONTRACT_SAVE: "Guardar contrato",
+  CONTRACT_DELETE: "Eliminar contrato",
+  PRICE_REVISION_PROPOSE: "Proponer revisión de precios",
+  PRICE_REVISION_RESOLVE: "Resolver revisión de precios",
+  INVOICES_ISSUE: "Emitir facturas",
+  INVOICE_RECTIFY: "Factura rectificativa",
+  ROLE_CHANGE: "Cambio de rol",
+  USER_INVITE: "Invitar usuario",
+  USER_STATUS_CHANGE: "Habilitar/deshabilitar usuario",
+  USER_SESSIONS_REVOKE: "Revocar sesiones",
+  DEAD_LETTER_RESOLVE: "Tarea fallida",
+  APPROVAL_REQUEST: "Solicitud de aprobación",
+  APPROVAL_RESOLVE: "Resolver aprobación",
+};
+
+const PAGE_LIMIT = 200;
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? "" : JSON.stringify(value));
+
+// Campo CSV entre comillas (separador ; como el resto de exports)
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export default function AuditLogViewer() {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    search();
+  }, []);
+
+  // Filtros sin campos vacíos
+  const activeFilters = (): AuditLogFilters =>
+    Object.fromEntries(
+      Object.entries(filters).filter(([, value]) => typeof value === "string" && value.trim() !== "")
+    ) as AuditLogFilters;
+
+  const search = async (cursor?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getAuditLogs({ ...activeFilters(), limit: PAGE_LIMIT, cursor });
+      setEntries(cursor ? [...entries, ...result.entries] : result.entries);
+      setNextCursor(result.nextCursor);
+    } catch (err: any) {
+      setError(err.message || "Error al consultar la auditoría");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExportCSV = () => {
+    const headers = ["Fecha", "Usuario", "Acción", "Panel", "Mes", "Objetivo", "Antes", "Después", "Detalles", "Request ID"];
+    const csvContent = [
+      headers.join(";"),
+      ...entries.map((entry) =>
+        [
+          new Date(entry.createdAt).toLocaleString("es-ES"),
+          entry.actor,
+          entry.action,
+          entry.panelId ?? "",
+          entry.monthKey ?? "",
+          entry.targetId ?? "",
+          formatValue(entry.before),
+          formatValue(entry.after),
+          formatValue(entry.details),
+          entry.requestId,
+        ].map((value) => csvField(String(value))).join(";")
+      ),
+    ].join("\n");
+
+    // UTF-8 BOM para Excel
+    const BOM = "\uFEFF";
+    const blob = new Blob([BOM + csvContent], { type: "text/csv;charset=utf-8;" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `auditoria_${new Date().toISOString().substring(0, 10)}.csv`;
+    link.click();
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: "6px 8px",
+    fontSize: "12px",
+    border: "1px solid #D9D9D9",
+    borderRadius: "2px",
+    width: "100%",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "11px",
+    color: "#595959",
+    marginBottom: "4px",
+  };
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: "6px 12px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: disabled ? "#A3A3A3" : color,
+    backgroundColor: "#FFF",
+    border: `1px solid ${disabled ? "#D9D9D9" : color}`,
+    borderRadius: "2px",
+    cursor: disabled ? "not-allowed" : "pointer",
+  });
+
+  const setFilter = (key: keyof AuditLogFilters, value: string) => setFilters({ ...filters, [key]: value });
+
+  return (
+    <div style={{ marginBottom: "32px" }}>
+      <h3 style={{ fontSize: "15px", fontWeight: 600, color: "#000", margin: "0 0 16px 0" }}>
+        🔎 Registro de auditoría
+      </h3>
+
+      <p style={{ fontSize: "13px", color: "#595959", marginBottom: "16px", lineHeight: "1.6" }}>
+        Cada operación que modifica datos queda registrada con su autor, el panel y mes afectados y los
+        valores antes/después. Haz clic en una fila para ver el detalle.
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(6, 1fr)",
+          gap: "8px",
+          alignItems: "end",
+          marginBottom: "16px",
+        }}
+      >
+        <div>
+          <label style={labelStyle}>Usuario (email)</label>
+          <input value={filters.actor ?? ""} onChange={(e) => setFilter("actor", e.target.value)} style={inputStyle} />
+        </div>
+        <div>
+          <label style={labelStyle}>Panel (ID)</label>
+          <input
+            value={filters.panelId ?? ""}
+            onChange={(e) => setFilter("panelId", e.target.value)}
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>Mes</label>
+          <input
+            type="month"
+            value={filters.monthKey ?? ""}
+            onChange={(e) => setFilter("monthKey", e.target.value)}
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>Acción</label>
+          <select value={filters.action ?? ""} onChange={(e) => setFilter("action", e.target.value)} style={inputStyle}>
+            <option value="">Todas</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>
+                {ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={labelStyle}>Desde</label>
+          <input
+            type="date"
+            value={filters.desde ?? ""}
+            onChange={(e) => setFilter("desde", e.target.value)}
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>Hasta</label>
+          <input
+            type="date"
+            value={filters.hasta ?? ""}
+            onChange={(e) => setFilter("hasta", e.target.value)}
+            style={inputStyle}
+          />
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: "8px", marginBottom: "16px" }}>
+        <button onClick={() => search()} disabled={loading} style={buttonStyle("#1890FF", loading)}>
+          {loading ? "Buscando..." : "Buscar"}
+        </button>
+        <button
+          onClick={() => {
+            setFilters({});
+          }}
+          disabled={loading}
+          style={buttonStyle("#595959", loading)}
+        >
+          Limpiar filtros
+        </button>
+        <button
+          onClick={handleExportCSV}
+          disabled={entries.length === 0}
+          style={buttonStyle("#52C41A", entries.length === 0)}
+        >
+          Exportar CSV ({entries.length})
+        </button>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#CF1322",
+            backgroundColor: "#FFF1F0",
+            border: "1px solid #FFCCC7",
+            borderRadius: "2px",
+          }}
+        >
+          ⚠️ {error}
+        </div>
+      )}
+
+      {!loading && entries.length === 0 ? (
+        <div style={{ fontSize: "13px", color: "#8C8C8C" }}>No hay entradas con esos filtros.</div>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+          <thead>
+            <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Fecha</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Usuario</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Acción</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Panel</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Mes</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Objetivo</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <Fragment key={entry.id}>
+                <tr
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  style={{ borderBottom: "1px solid #EAEAEA", cursor: "pointer" }}
+                >
+                  <td style={{ padding: "6px 8px", whiteSpace: "nowrap" }}>
+                    {new Date(entry.createdAt).toLocaleString("es-ES")}
+                  </td>
+                  <td style={{ padding: "6px 8px" }}>{entry.actor}</td>
+                  <td style={{ padding: "6px 8px" }}>{ACTION_LABELS[entry.action] ?? entry.action}</td>
+                  <td style={{ padding: "6px 8px", fontFamily: "monospace" }}>{entry.panelId ?? "—"}</td>
+                  <td style={{ padding: "6px 8px" }}>{entry.monthKey ?? "—"}</td>
+                  <td style={{ padding: "6px 8px", fontFamily: "monospace" }}>{entry.targetId ?? "—"}</td>
+                </tr>
+                {expandedId === entry.id && (
+                  <tr style={{ backgroundColor: "#FAFAFA" }}>
+                    <td colSpan={6} style={{ padding: "8px 16px" }}>
+                      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "12px" }}>
+                        {(["before", "after"] as const).map((key) => (
+                          <div key={key}>
+                            <div style={{ fontWeight: 600, marginBottom: "4px" }}>
+                              {key === "before" ? "Antes" : "Después"}
+                            </div>
+                            <pre style={{ margin: 0, fontSize: "11px", whiteSpace: "pre-wrap" }}>
+                              {JSON.stringify(entry[key], null, 2)}
+                            </pre>
+                          </div>
+                        ))}
+                      </div>
+                      {Object.keys(entry.details || {}).length > 0 && (
+                        <pre style={{ margin: "8px 0 0 0", fontSize: "11px", whiteSpace: "pre-wrap", color: "#595959" }}>
+                          {JSON.stringify(entry.details, null, 2)}
+                        </pre>
+                      )}
+                      <div style={{ marginTop: "8px", fontSize: "11px", color: "#8C8C8C" }}>
+                        Request ID: {entry.requestId}
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {nextCursor && (
+        <div style={{ marginTop: "12px", textAlign: "center" }}>
+          <button onClick={() => search(nextCursor)} disabled={loading} style={buttonStyle("#1890FF", loading)}>
+            {loading ? "Cargando..." : "Cargar más"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
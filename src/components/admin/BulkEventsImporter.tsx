@@ -0,0 +1,225 @@
+/**
+ * BulkEventsImporter Component
+ * Importación masiva de desmontajes, reinstalaciones y bajas desde CSV/XLSX
+ * (código, acción, fecha, motivo): vista previa validada por fila y registro
+ * como un único job con fichero de resultado descargable
+ */
+
+"use client";
+
+import { useState } from "react";
+import * as XLSX from "xlsx";
+import { importPanelEvents, BulkEventRowResult } from "@/lib/api";
+
+type InputRow = { fila: number; codigo: string; accion: string; fecha: string; motivo?: string };
+
+const HEADER_ALIASES: Record<string, keyof Omit<InputRow, "fila">> = {
+  codigo: "codigo",
+  accion: "accion",
+  fecha: "fecha",
+  motivo: "motivo",
+};
+
+const normalizeHeader = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+
+/**
+ * Lee la primera hoja del fichero. Columnas por cabecera (código, acción, fecha,
+ * motivo) o, sin cabecera, en ese orden.
+ */
+async function readRows(file: File): Promise<InputRow[]> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const data = XLSX.utils.sheet_to_json<string[]>(sheet, {
+    header: 1,
+    raw: false,
+    dateNF: "yyyy-mm-dd",
+    blankrows: false,
+  });
+  if (data.length === 0) return [];
+
+  const header = data[0].map((cell) => HEADER_ALIASES[normalizeHeader(String(cell ?? ""))]);
+  const hasHeader = header.includes("codigo");
+  const columns = hasHeader ? header : (["codigo", "accion", "fecha", "motivo"] as const);
+
+  return data.slice(hasHeader ? 1 : 0).map((cells, index) => {
+    const row: InputRow = { fila: index + (hasHeader ? 2 : 1), codigo: "", accion: "", fecha: "" };
+    columns.forEach((column, i) => {
+      if (column) row[column] = String(cells[i] ?? "").trim();
+    });
+    return row;
+  });
+}
+
+const ESTADO_COLORS: Record<BulkEventRowResult["estado"], string> = {
+  VALIDA: "#52C41A",
+  ERROR: "#CF1322",
+  REGISTRADA: "#1890FF",
+};
+
+export default function BulkEventsImporter() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [inputRows, setInputRows] = useState<InputRow[]>([]);
+  const [rows, setRows] = useState<BulkEventRowResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ jobId: string; resultUrl: string; meses: string[] } | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    setRows([]);
+    try {
+      const parsed = await readRows(file);
+      if (parsed.length === 0) {
+        throw new Error("El fichero no tiene filas");
+      }
+      const preview = await importPanelEvents({ fileName: file.name, rows: parsed, dryRun: true });
+      setFileName(file.name);
+      setInputRows(parsed);
+      setRows(preview.rows);
+    } catch (err: any) {
+      setError(err.message || "Error al leer el fichero");
+    } finally {
+      setLoading(false);
+      e.target.value = "";
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!fileName) return;
+    if (!confirm(`¿Registrar ${rows.length} eventos de ${fileName}?`)) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await importPanelEvents({ fileName, rows: inputRows });
+      setRows(res.rows);
+      setResult({ jobId: res.jobId!, resultUrl: res.resultUrl!, meses: res.mesesRecalculados || [] });
+    } catch (err: any) {
+      setError(err.message || "Error al registrar los eventos");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const errores = rows.filter((row) => row.estado === "ERROR").length;
+  const canCommit = rows.length > 0 && errores === 0 && !result && !loading;
+
+  return (
+    <div>
+      <h3 style={{ fontSize: "15px", fontWeight: 600, color: "#000", marginBottom: "8px" }}>
+        📥 Importación masiva de eventos
+      </h3>
+      <p style={{ fontSize: "13px", color: "#595959", marginBottom: "12px", lineHeight: "1.6" }}>
+        CSV o Excel con las columnas <strong>código, acción, fecha, motivo</strong> (acción: DESMONTADO,
+        REINSTALACION o BAJA; fecha: YYYY-MM-DD o DD/MM/YYYY). Cada fila se valida como un cambio
+        individual; solo se registra si todas son válidas.
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,.xlsx,.xls"
+        onChange={handleFileChange}
+        disabled={loading}
+        style={{ fontSize: "14px", color: "#595959", marginBottom: "12px" }}
+      />
+
+      {loading && <div style={{ fontSize: "12px", color: "#595959", marginBottom: "12px" }}>Procesando...</div>}
+
+      {error && (
+        <div
+          style={{
+            padding: "8px 12px",
+            marginBottom: "12px",
+            fontSize: "12px",
+            color: "#CF1322",
+            backgroundColor: "#FFF1F0",
+            border: "1px solid #FFCCC7",
+            borderRadius: "2px",
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div
+          style={{
+            padding: "8px 12px",
+            marginBottom: "12px",
+            fontSize: "12px",
+            color: "#52C41A",
+            backgroundColor: "#F6FFED",
+            border: "1px solid #B7EB8F",
+            borderRadius: "2px",
+          }}
+        >
+          ✓ {rows.length} eventos registrados (job {result.jobId}). Meses recalculados: {result.meses.join(", ")}.{" "}
+          <a href={result.resultUrl} target="_blank" rel="noopener noreferrer" style={{ color: "#1890FF" }}>
+            Descargar resultado
+          </a>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "8px" }}>
+            <span style={{ fontSize: "12px", color: errores > 0 ? "#CF1322" : "#595959" }}>
+              {fileName}: {rows.length} filas{errores > 0 ? `, ${errores} con errores` : ", todas válidas"}
+            </span>
+            <button
+              onClick={handleCommit}
+              disabled={!canCommit}
+              style={{
+                padding: "6px 12px",
+                fontSize: "12px",
+                fontWeight: 500,
+                color: canCommit ? "#FFF" : "#A3A3A3",
+                backgroundColor: canCommit ? "#52C41A" : "#F5F5F5",
+                border: `1px solid ${canCommit ? "#52C41A" : "#D9D9D9"}`,
+                borderRadius: "2px",
+                cursor: canCommit ? "pointer" : "not-allowed",
+              }}
+            >
+              Registrar {rows.length} eventos
+            </button>
+          </div>
+          <div style={{ maxHeight: "320px", overflowY: "auto", border: "1px solid #EAEAEA" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+              <thead>
+                <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+                  <th style={{ padding: "6px 8px", textAlign: "left" }}>Fila</th>
+                  <th style={{ padding: "6px 8px", textAlign: "left" }}>Código</th>
+                  <th style={{ padding: "6px 8px", textAlign: "left" }}>Acción</th>
+                  <th style={{ padding: "6px 8px", textAlign: "left" }}>Fecha</th>
+                  <th style={{ padding: "6px 8px", textAlign: "left" }}>Motivo</th>
+                  <th style={{ padding: "6px 8px", textAlign: "left" }}>Estado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.fila} style={{ borderBottom: "1px solid #EAEAEA" }}>
+                    <td style={{ padding: "6px 8px" }}>{row.fila}</td>
+                    <td style={{ padding: "6px 8px" }}>{row.codigo}</td>
+                    <td style={{ padding: "6px 8px" }}>{row.action || "—"}</td>
+                    <td style={{ padding: "6px 8px" }}>{row.effectiveDateLocal || "—"}</td>
+                    <td style={{ padding: "6px 8px", color: "#595959" }}>{row.motivo}</td>
+                    <td style={{ padding: "6px 8px", color: ESTADO_COLORS[row.estado] }}>
+                      {row.estado}
+                      {row.error && <div style={{ fontSize: "11px" }}>{row.error}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
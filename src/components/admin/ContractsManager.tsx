@@ -0,0 +1,561 @@
+/**
+ * ContractsManager Component
+ * Gestión de contratos: cliente, municipios/paneles, tarifas por año,
+ * vigencia y cláusula de revisión de precios
+ * La tarifa de un panel se resuelve desde su contrato vigente (o la tarifa estándar)
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import {
+  saveContract,
+  deleteContract,
+  Contract,
+  ContractInput,
+  RevisionClauseType,
+} from "@/lib/api";
+
+const REVISION_LABELS: Record<RevisionClauseType, string> = {
+  NINGUNA: "Sin revisión",
+  IPC: "IPC",
+  PORCENTAJE_FIJO: "Porcentaje fijo",
+};
+
+interface ContractForm {
+  contractId?: string;
+  codigo: string;
+  nif: string;
+  razonSocial: string;
+  municipioIds: string; // Separados por comas
+  panelCodigos: string; // Separados por comas
+  tarifas: Array<{ year: string; importe: string }>;
+  fechaInicio: string;
+  fechaFin: string;
+  revisionTipo: RevisionClauseType;
+  revisionPorcentaje: string;
+  revisionMes: string;
+  notas: string;
+}
+
+const EMPTY_FORM: ContractForm = {
+  codigo: "",
+  nif: "",
+  razonSocial: "",
+  municipioIds: "",
+  panelCodigos: "",
+  tarifas: [{ year: String(new Date().getFullYear()), importe: "" }],
+  fechaInicio: "",
+  fechaFin: "",
+  revisionTipo: "NINGUNA",
+  revisionPorcentaje: "",
+  revisionMes: "1",
+  notas: "",
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "6px 8px",
+  fontSize: "13px",
+  border: "1px solid #D9D9D9",
+  borderRadius: "2px",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "block",
+  marginBottom: "4px",
+  fontSize: "12px",
+  fontWeight: 500,
+  color: "#595959",
+};
+
+const splitList = (value: string): string[] =>
+  value.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+
+export default function ContractsManager() {
+  const [contracts, setContracts] = useState<Contract[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<ContractForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadContracts();
+  }, []);
+
+  const loadContracts = async () => {
+    setLoading(true);
+    try {
+      const snapshot = await getDocs(collection(db, "contracts"));
+      const loaded = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...(doc.data() as Omit<Contract, "id">) }))
+        .sort((a, b) => a.codigo.localeCompare(b.codigo));
+      setContracts(loaded);
+    } catch (err: any) {
+      console.error("Error cargando contratos:", err);
+      setError("Error al cargar contratos");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (contract: Contract) => {
+    setForm({
+      contractId: contract.id,
+      codigo: contract.codigo,
+      nif: contract.cliente.nif,
+      razonSocial: contract.cliente.razonSocial,
+      municipioIds: contract.municipioIds.join(", "),
+      panelCodigos: contract.panelCodigos.join(", "),
+      tarifas: Object.keys(contract.tarifas)
+        .sort()
+        .map((year) => ({ year, importe: contract.tarifas[year].importe.toString() })),
+      fechaInicio: contract.fechaInicio,
+      fechaFin: contract.fechaFin || "",
+      revisionTipo: contract.clausulaRevision.tipo,
+      revisionPorcentaje: contract.clausulaRevision.porcentaje?.toString() ?? "",
+      revisionMes: contract.clausulaRevision.mesAplicacion.toString(),
+      notas: contract.notas || "",
+    });
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const tarifas: ContractInput["tarifas"] = {};
+    const original = contracts.find((c) => c.id === form.contractId);
+    for (const row of form.tarifas) {
+      if (!row.year && !row.importe) continue;
+      const importe = parseFloat(row.importe);
+      if (!/^\d{4}$/.test(row.year) || isNaN(importe) || importe <= 0) {
+        setError("Cada tarifa necesita un año (YYYY) y un importe positivo");
+        return;
+      }
+      // Conservar las tarifas de servicios del contrato (se editan por API)
+      const servicios = original?.tarifas[row.year]?.servicios;
+      tarifas[row.year] = servicios ? { importe, servicios } : { importe };
+    }
+
+    const porcentaje = form.revisionPorcentaje.trim() === "" ? null : parseFloat(form.revisionPorcentaje);
+    if (porcentaje !== null && isNaN(porcentaje)) {
+      setError("El porcentaje de revisión debe ser un número");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const result = await saveContract({
+        contractId: form.contractId,
+        codigo: form.codigo.trim(),
+        cliente: { nif: form.nif.trim(), razonSocial: form.razonSocial.trim() },
+        municipioIds: splitList(form.municipioIds),
+        panelCodigos: splitList(form.panelCodigos),
+        tarifas,
+        fechaInicio: form.fechaInicio,
+        fechaFin: form.fechaFin || null,
+        clausulaRevision: {
+          tipo: form.revisionTipo,
+          porcentaje,
+          mesAplicacion: parseInt(form.revisionMes, 10),
+        },
+        notas: form.notas,
+      });
+
+      setSuccess(
+        `Contrato ${form.codigo} guardado` +
+        (result.panelsRecalculated > 0 ?
+          `. Recalculados ${result.panelsRecalculated} paneles en ${result.monthsAffected.join(", ")}` :
+          "")
+      );
+      setForm(null);
+      await loadContracts();
+    } catch (err: any) {
+      setError(err.message || "Error al guardar el contrato");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (contract: Contract) => {
+    if (!confirm(`¿Eliminar el contrato ${contract.codigo}? Sus paneles volverán a la tarifa estándar en los meses abiertos.`)) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await deleteContract(contract.id);
+      setSuccess(`Contrato ${contract.codigo} eliminado (${result.panelsRecalculated} paneles recalculados)`);
+      await loadContracts();
+    } catch (err: any) {
+      setError(err.message || "Error al eliminar el contrato");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: "6px 12px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: disabled ? "#A3A3A3" : color,
+    backgroundColor: "#FFF",
+    border: `1px solid ${disabled ? "#D9D9D9" : color}`,
+    borderRadius: "2px",
+    cursor: disabled ? "not-allowed" : "pointer",
+  });
+
+  if (loading) {
+    return (
+      <div style={{ padding: "16px", fontSize: "14px", color: "#595959" }}>
+        Cargando contratos...
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "16px",
+        }}
+      >
+        <h3 style={{ fontSize: "15px", fontWeight: 600, color: "#000", margin: 0 }}>
+          📄 Contratos
+        </h3>
+        {!form && (
+          <button
+            onClick={() => {
+              setForm({ ...EMPTY_FORM });
+              setError(null);
+              setSuccess(null);
+            }}
+            disabled={saving}
+            style={buttonStyle("#52C41A", saving)}
+          >
+            + Nuevo contrato
+          </button>
+        )}
+      </div>
+
+      <p style={{ fontSize: "13px", color: "#595959", marginBottom: "16px", lineHeight: "1.6" }}>
+        La tarifa de cada panel sale de su contrato vigente: primero por código de panel y,
+        si no, por municipio. Sin contrato (o sin tarifa para el año) se usa la tarifa estándar.
+        Al guardar se recalculan los meses abiertos de los paneles afectados.
+      </p>
+
+      {error && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#CF1322",
+            backgroundColor: "#FFF1F0",
+            border: "1px solid #FFCCC7",
+            borderRadius: "2px",
+          }}
+        >
+          ⚠️ {error}
+        </div>
+      )}
+
+      {success && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#52C41A",
+            backgroundColor: "#F6FFED",
+            border: "1px solid #B7EB8F",
+            borderRadius: "2px",
+          }}
+        >
+          ✓ {success}
+        </div>
+      )}
+
+      {form && (
+        <div
+          style={{
+            padding: "16px",
+            marginBottom: "16px",
+            backgroundColor: "#FAFAFA",
+            border: "1px solid #EAEAEA",
+            borderRadius: "2px",
+          }}
+        >
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: "12px", marginBottom: "12px" }}>
+            <div>
+              <label style={labelStyle}>Código *</label>
+              <input
+                value={form.codigo}
+                onChange={(e) => setForm({ ...form, codigo: e.target.value })}
+                disabled={saving}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>NIF cliente *</label>
+              <input
+                value={form.nif}
+                onChange={(e) => setForm({ ...form, nif: e.target.value })}
+                disabled={saving}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Razón social *</label>
+              <input
+                value={form.razonSocial}
+                onChange={(e) => setForm({ ...form, razonSocial: e.target.value })}
+                disabled={saving}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "12px", marginBottom: "12px" }}>
+            <div>
+              <label style={labelStyle}>Municipios (separados por comas)</label>
+              <input
+                value={form.municipioIds}
+                onChange={(e) => setForm({ ...form, municipioIds: e.target.value })}
+                placeholder="Getafe, Móstoles"
+                disabled={saving}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Códigos de panel (separados por comas)</label>
+              <input
+                value={form.panelCodigos}
+                onChange={(e) => setForm({ ...form, panelCodigos: e.target.value })}
+                placeholder="1234, 4321"
+                disabled={saving}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr 1fr", gap: "12px", marginBottom: "12px" }}>
+            <div>
+              <label style={labelStyle}>Inicio *</label>
+              <input
+                type="date"
+                value={form.fechaInicio}
+                onChange={(e) => setForm({ ...form, fechaInicio: e.target.value })}
+                disabled={saving}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Fin (vacío = indefinido)</label>
+              <input
+                type="date"
+                value={form.fechaFin}
+                onChange={(e) => setForm({ ...form, fechaFin: e.target.value })}
+                disabled={saving}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Revisión de precios</label>
+              <select
+                value={form.revisionTipo}
+                onChange={(e) => setForm({ ...form, revisionTipo: e.target.value as RevisionClauseType })}
+                disabled={saving}
+                style={inputStyle}
+              >
+                {(Object.keys(REVISION_LABELS) as RevisionClauseType[]).map((tipo) => (
+                  <option key={tipo} value={tipo}>
+                    {REVISION_LABELS[tipo]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label style={labelStyle}>
+                {form.revisionTipo === "IPC" ? "Tope % (opcional)" : "Porcentaje %"}
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.revisionPorcentaje}
+                onChange={(e) => setForm({ ...form, revisionPorcentaje: e.target.value })}
+                disabled={saving || form.revisionTipo === "NINGUNA"}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Mes de revisión</label>
+              <input
+                type="number"
+                min="1"
+                max="12"
+                value={form.revisionMes}
+                onChange={(e) => setForm({ ...form, revisionMes: e.target.value })}
+                disabled={saving || form.revisionTipo === "NINGUNA"}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          <div style={{ marginBottom: "12px" }}>
+            <label style={labelStyle}>Tarifas por año (€/mes por panel)</label>
+            {form.tarifas.map((row, index) => (
+              <div key={index} style={{ display: "flex", gap: "8px", marginBottom: "6px" }}>
+                <input
+                  placeholder="Año"
+                  value={row.year}
+                  maxLength={4}
+                  onChange={(e) => {
+                    const tarifas = [...form.tarifas];
+                    tarifas[index] = { ...row, year: e.target.value };
+                    setForm({ ...form, tarifas });
+                  }}
+                  disabled={saving}
+                  style={{ ...inputStyle, width: "80px" }}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  placeholder="Importe"
+                  value={row.importe}
+                  onChange={(e) => {
+                    const tarifas = [...form.tarifas];
+                    tarifas[index] = { ...row, importe: e.target.value };
+                    setForm({ ...form, tarifas });
+                  }}
+                  disabled={saving}
+                  style={{ ...inputStyle, width: "120px", textAlign: "right" }}
+                />
+                <button
+                  onClick={() => setForm({ ...form, tarifas: form.tarifas.filter((_, i) => i !== index) })}
+                  disabled={saving}
+                  style={buttonStyle("#595959", saving)}
+                >
+                  Quitar
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setForm({ ...form, tarifas: [...form.tarifas, { year: "", importe: "" }] })}
+              disabled={saving}
+              style={buttonStyle("#1890FF", saving)}
+            >
+              + Año
+            </button>
+          </div>
+
+          <div style={{ marginBottom: "12px" }}>
+            <label style={labelStyle}>Notas</label>
+            <textarea
+              value={form.notas}
+              onChange={(e) => setForm({ ...form, notas: e.target.value })}
+              maxLength={1000}
+              rows={2}
+              disabled={saving}
+              style={{ ...inputStyle, resize: "vertical", fontFamily: "inherit" }}
+            />
+          </div>
+
+          <div style={{ display: "flex", gap: "8px", justifyContent: "flex-end" }}>
+            <button onClick={() => setForm(null)} disabled={saving} style={buttonStyle("#595959", saving)}>
+              Cancelar
+            </button>
+            <button onClick={handleSave} disabled={saving} style={buttonStyle("#52C41A", saving)}>
+              {saving ? "Guardando..." : "Guardar contrato"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {contracts.length === 0 ? (
+        <div style={{ fontSize: "13px", color: "#8C8C8C" }}>
+          No hay contratos. Todos los paneles usan la tarifa estándar del año.
+        </div>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+          <thead>
+            <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+              <th style={{ padding: "8px", textAlign: "left" }}>Contrato</th>
+              <th style={{ padding: "8px", textAlign: "left" }}>Alcance</th>
+              <th style={{ padding: "8px", textAlign: "left" }}>Vigencia</th>
+              <th style={{ padding: "8px", textAlign: "left" }}>Tarifas</th>
+              <th style={{ padding: "8px", textAlign: "left" }}>Revisión</th>
+              <th style={{ padding: "8px", textAlign: "center" }}>Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {contracts.map((contract) => (
+              <tr key={contract.id} style={{ borderBottom: "1px solid #EAEAEA" }}>
+                <td style={{ padding: "8px" }}>
+                  <strong>{contract.codigo}</strong>
+                  <div style={{ fontSize: "11px", color: "#8C8C8C" }}>
+                    {contract.cliente.razonSocial} ({contract.cliente.nif})
+                  </div>
+                </td>
+                <td style={{ padding: "8px" }}>
+                  {contract.municipioIds.length > 0 && <div>{contract.municipioIds.join(", ")}</div>}
+                  {contract.panelCodigos.length > 0 && (
+                    <div style={{ fontSize: "11px", color: "#8C8C8C" }}>
+                      Paneles: {contract.panelCodigos.join(", ")}
+                    </div>
+                  )}
+                </td>
+                <td style={{ padding: "8px" }}>
+                  {contract.fechaInicio} → {contract.fechaFin || "indefinido"}
+                </td>
+                <td style={{ padding: "8px" }}>
+                  {Object.keys(contract.tarifas).sort().map((year) => (
+                    <div key={year}>
+                      {year}: {contract.tarifas[year].importe.toFixed(2)}€
+                    </div>
+                  ))}
+                </td>
+                <td style={{ padding: "8px" }}>
+                  {REVISION_LABELS[contract.clausulaRevision.tipo]}
+                  {contract.clausulaRevision.tipo !== "NINGUNA" && contract.clausulaRevision.porcentaje !== null && (
+                    <span> ({contract.clausulaRevision.porcentaje}%)</span>
+                  )}
+                </td>
+                <td style={{ padding: "8px", textAlign: "center" }}>
+                  <div style={{ display: "flex", gap: "6px", justifyContent: "center" }}>
+                    <button
+                      onClick={() => handleEdit(contract)}
+                      disabled={saving || form !== null}
+                      style={buttonStyle("#1890FF", saving || form !== null)}
+                    >
+                      Editar
+                    </button>
+                    <button
+                      onClick={() => handleDelete(contract)}
+                      disabled={saving || form !== null}
+                      style={buttonStyle("#CF1322", saving || form !== null)}
+                    >
+                      Eliminar
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * DeadLettersManager Component
+ * Tareas de la cola (recálculo de eventos, resumen mensual) que agotaron sus
+ * reintentos. Permite revisar el error y reenviarlas o descartarlas
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { resolveDeadLetter, TaskDeadLetter, TaskQueueName } from "@/lib/api";
+
+const QUEUE_LABELS: Record<TaskQueueName, string> = {
+  "process-panel-event": "Recálculo de evento",
+  "update-summary": "Resumen mensual",
+};
+
+function formatPayload(deadLetter: TaskDeadLetter) {
+  return Object.entries(deadLetter.payload)
+    .filter(([key]) => key !== "idempotencyKey")
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(" · ");
+}
+
+export default function DeadLettersManager() {
+  const [deadLetters, setDeadLetters] = useState<TaskDeadLetter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDeadLetters();
+  }, []);
+
+  const loadDeadLetters = async () => {
+    setLoading(true);
+    try {
+      const q = query(collection(db, "taskDeadLetters"), where("estado", "==", "PENDIENTE"));
+      const snapshot = await getDocs(q);
+      const loaded = snapshot.docs
+        .map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            ...data,
+            createdAt: data.createdAt?.toDate?.() ?? new Date(0),
+          } as TaskDeadLetter;
+        })
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      setDeadLetters(loaded);
+    } catch (err: any) {
+      console.error("Error cargando tareas fallidas:", err);
+      setError("Error al cargar tareas fallidas");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolve = async (deadLetter: TaskDeadLetter, decision: "REENVIAR" | "DESCARTAR") => {
+    const label = QUEUE_LABELS[deadLetter.queue] ?? deadLetter.queue;
+    if (decision === "DESCARTAR" && !confirm(`¿Descartar la tarea "${label}" (${formatPayload(deadLetter)})?`)) {
+      return;
+    }
+
+    setResolvingId(deadLetter.id);
+    setError(null);
+    setSuccess(null);
+    try {
+      await resolveDeadLetter({ deadLetterId: deadLetter.id, decision });
+      setSuccess(decision === "REENVIAR" ? `Tarea "${label}" reenviada a la cola` : `Tarea "${label}" descartada`);
+      await loadDeadLetters();
+    } catch (err: any) {
+      setError(err.message || "Error al resolver la tarea");
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: "6px 12px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: disabled ? "#A3A3A3" : color,
+    backgroundColor: "#FFF",
+    border: `1px solid ${disabled ? "#D9D9D9" : color}`,
+    borderRadius: "2px",
+    cursor: disabled ? "not-allowed" : "pointer",
+  });
+
+  return (
+    <div style={{ marginBottom: "32px" }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "16px",
+        }}
+      >
+        <h3 style={{ fontSize: "15px", fontWeight: 600, color: "#000", margin: 0 }}>
+          ☠️ Tareas fallidas
+        </h3>
+        <button onClick={loadDeadLetters} disabled={loading} style={buttonStyle("#1890FF", loading)}>
+          Actualizar
+        </button>
+      </div>
+
+      <p style={{ fontSize: "13px", color: "#595959", marginBottom: "16px", lineHeight: "1.6" }}>
+        Tareas de la cola que agotaron sus reintentos. Revisa el error y reenvíalas cuando
+        la causa esté corregida, o descártalas si ya no aplican.
+      </p>
+
+      {error && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#CF1322",
+            backgroundColor: "#FFF1F0",
+            border: "1px solid #FFCCC7",
+            borderRadius: "2px",
+          }}
+        >
+          ⚠️ {error}
+        </div>
+      )}
+
+      {success && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#52C41A",
+            backgroundColor: "#F6FFED",
+            border: "1px solid #B7EB8F",
+            borderRadius: "2px",
+          }}
+        >
+          ✓ {success}
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{ fontSize: "13px", color: "#595959" }}>Cargando tareas fallidas...</div>
+      ) : deadLetters.length === 0 ? (
+        <div style={{ fontSize: "13px", color: "#8C8C8C" }}>No hay tareas fallidas pendientes.</div>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+          <thead>
+            <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Fecha</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Cola</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Datos</th>
+              <th style={{ padding: "6px 8px", textAlign: "right" }}>Intentos</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Último error</th>
+              <th style={{ padding: "6px 8px" }} />
+            </tr>
+          </thead>
+          <tbody>
+            {deadLetters.map((deadLetter) => {
+              const busy = resolvingId !== null;
+              return (
+                <tr key={deadLetter.id} style={{ borderBottom: "1px solid #EAEAEA" }}>
+                  <td style={{ padding: "6px 8px", whiteSpace: "nowrap" }}>
+                    {deadLetter.createdAt.toLocaleString("es-ES")}
+                  </td>
+                  <td style={{ padding: "6px 8px" }}>
+                    {QUEUE_LABELS[deadLetter.queue] ?? deadLetter.queue}
+                    <div style={{ fontSize: "11px", color: "#8C8C8C" }}>{deadLetter.backend}</div>
+                  </td>
+                  <td style={{ padding: "6px 8px", fontFamily: "monospace" }}>{formatPayload(deadLetter)}</td>
+                  <td style={{ padding: "6px 8px", textAlign: "right" }}>{deadLetter.attempts}</td>
+                  <td style={{ padding: "6px 8px", color: "#CF1322" }}>{deadLetter.lastError}</td>
+                  <td style={{ padding: "6px 8px", textAlign: "right", whiteSpace: "nowrap" }}>
+                    <button
+                      onClick={() => handleResolve(deadLetter, "REENVIAR")}
+                      disabled={busy}
+                      style={{ ...buttonStyle("#1890FF", busy), marginRight: "6px" }}
+                    >
+                      {resolvingId === deadLetter.id ? "..." : "Reenviar"}
+                    </button>
+                    <button
+                      onClick={() => handleResolve(deadLetter, "DESCARTAR")}
+                      disabled={busy}
+                      style={buttonStyle("#CF1322", busy)}
+                    >
+                      Descartar
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+/**
+ * InvoicesManager Component
+ * Facturas emitidas del mes: listado, PDF, reemisión y rectificativas
+ * Las facturas son inmutables: las correcciones se hacen con rectificativas
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  getInvoices,
+  issueMonthInvoices,
+  createRectifyingInvoice,
+  generateInvoicePdf,
+  Invoice,
+  RectificationMode,
+} from "@/lib/api";
+
+interface InvoicesManagerProps {
+  monthKey: string;
+  isLocked: boolean;
+}
+
+const MODE_LABELS: Record<RectificationMode, string> = {
+  RECALCULO: "Regularizar con la facturación actual",
+  ANULACION: "Anular la factura completa",
+  DIFERENCIAS: "Importe manual",
+};
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString("es-ES", { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + " €";
+
+export default function InvoicesManager({ monthKey, isLocked }: InvoicesManagerProps) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Formulario de rectificativa
+  const [rectifying, setRectifying] = useState<Invoice | null>(null);
+  const [modo, setModo] = useState<RectificationMode>("RECALCULO");
+  const [motivo, setMotivo] = useState("");
+  const [importeManual, setImporteManual] = useState("");
+
+  useEffect(() => {
+    loadInvoices();
+  }, [monthKey]);
+
+  const loadInvoices = async () => {
+    setLoading(true);
+    try {
+      setInvoices(await getInvoices(monthKey));
+    } catch (err: any) {
+      console.error("Error cargando facturas:", err);
+      setError(err.message || "Error al cargar facturas");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleIssue = async () => {
+    setWorking(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await issueMonthInvoices(monthKey);
+      let message = `${result.emitidas.length} factura(s) emitida(s), ${result.yaEmitidas} ya existentes`;
+      if (result.pendientesRectificar.length > 0) {
+        message += `. ${result.pendientesRectificar.length} con diferencias pendientes de rectificar`;
+      }
+      setSuccess(message);
+      if (result.errores.length > 0) {
+        setError(result.errores.map((e) => `${e.municipioId}: ${e.error}`).join("\n"));
+      }
+      await loadInvoices();
+    } catch (err: any) {
+      setError(err.message || "Error al emitir facturas");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handlePdf = async (invoice: Invoice) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const result = await generateInvoicePdf(invoice.id);
+      window.open(result.url, "_blank");
+    } catch (err: any) {
+      setError(err.message || "Error al generar el PDF");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRectify = async () => {
+    if (!rectifying) return;
+
+    if (motivo.trim().length < 3) {
+      setError("Indica el motivo de la rectificación");
+      return;
+    }
+
+    const importe = parseFloat(importeManual);
+    if (modo === "DIFERENCIAS" && (isNaN(importe) || importe === 0)) {
+      setError("El importe manual debe ser un número distinto de 0");
+      return;
+    }
+
+    setWorking(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await createRectifyingInvoice({
+        invoiceId: rectifying.id,
+        modo,
+        motivo: motivo.trim(),
+        lineas: modo === "DIFERENCIAS" ? [{ concepto: motivo.trim(), importe }] : undefined,
+      });
+      setSuccess(`Rectificativa ${result.numero} emitida (${formatCurrency(result.total)})`);
+      setRectifying(null);
+      setMotivo("");
+      setImporteManual("");
+      await loadInvoices();
+    } catch (err: any) {
+      setError(err.message || "Error al emitir la rectificativa");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: "6px 12px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: disabled ? "#A3A3A3" : color,
+    backgroundColor: "#FFF",
+    border: `1px solid ${disabled ? "#D9D9D9" : color}`,
+    borderRadius: "2px",
+    cursor: disabled ? "not-allowed" : "pointer",
+  });
+
+  return (
+    <div style={{ marginBottom: "24px" }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "8px",
+        }}
+      >
+        <label style={{ fontSize: "14px", fontWeight: 500, color: "#000" }}>
+          🧾 Facturas del mes {monthKey}
+        </label>
+        <button
+          onClick={handleIssue}
+          disabled={!isLocked || working}
+          style={buttonStyle("#1890FF", !isLocked || working)}
+        >
+          {working ? "..." : "Emitir / completar facturas"}
+        </button>
+      </div>
+
+      <p style={{ fontSize: "12px", color: "#8C8C8C", marginBottom: "12px" }}>
+        Al cerrar el mes se emite una factura por municipio. Las facturas emitidas no se
+        modifican: cualquier corrección se hace con una factura rectificativa.
+      </p>
+
+      {error && (
+        <div
+          style={{
+            padding: "8px",
+            marginBottom: "12px",
+            fontSize: "12px",
+            color: "#CF1322",
+            backgroundColor: "#FFF1F0",
+            border: "1px solid #FFCCC7",
+            borderRadius: "2px",
+            whiteSpace: "pre-line",
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div
+          style={{
+            padding: "8px",
+            marginBottom: "12px",
+            fontSize: "12px",
+            color: "#52C41A",
+            backgroundColor: "#F6FFED",
+            border: "1px solid #B7EB8F",
+            borderRadius: "2px",
+          }}
+        >
+          ✓ {success}
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{ fontSize: "13px", color: "#8C8C8C" }}>Cargando facturas...</div>
+      ) : invoices.length === 0 ? (
+        <div style={{ fontSize: "13px", color: "#8C8C8C" }}>
+          No hay facturas emitidas para este mes.
+        </div>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+          <thead>
+            <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+              <th style={{ padding: "8px", textAlign: "left" }}>Número</th>
+              <th style={{ padding: "8px", textAlign: "left" }}>Municipio</th>
+              <th style={{ padding: "8px", textAlign: "right" }}>Base</th>
+              <th style={{ padding: "8px", textAlign: "right" }}>IVA</th>
+              <th style={{ padding: "8px", textAlign: "right" }}>Total</th>
+              <th style={{ padding: "8px", textAlign: "center" }}>Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {invoices.map((invoice) => (
+              <tr key={invoice.id} style={{ borderBottom: "1px solid #EAEAEA" }}>
+                <td style={{ padding: "8px" }}>
+                  {invoice.numero}
+                  {invoice.rectifica && (
+                    <div style={{ fontSize: "11px", color: "#FA8C16" }}>
+                      Rectifica {invoice.rectifica.numero}
+                    </div>
+                  )}
+                </td>
+                <td style={{ padding: "8px" }}>{invoice.municipio}</td>
+                <td style={{ padding: "8px", textAlign: "right" }}>
+                  {formatCurrency(invoice.baseImponible)}
+                </td>
+                <td style={{ padding: "8px", textAlign: "right" }}>
+                  {formatCurrency(invoice.cuotaIva)}
+                </td>
+                <td style={{ padding: "8px", textAlign: "right", fontWeight: 600 }}>
+                  {formatCurrency(invoice.total)}
+                </td>
+                <td style={{ padding: "8px", textAlign: "center" }}>
+                  <div style={{ display: "flex", gap: "6px", justifyContent: "center" }}>
+                    <button
+                      onClick={() => handlePdf(invoice)}
+                      disabled={working}
+                      style={buttonStyle("#1890FF", working)}
+                    >
+                      PDF
+                    </button>
+                    {invoice.tipo === "ORDINARIA" && (
+                      <button
+                        onClick={() => {
+                          setRectifying(invoice);
+                          setModo("RECALCULO");
+                          setError(null);
+                        }}
+                        disabled={working}
+                        style={buttonStyle("#FA8C16", working)}
+                      >
+                        Rectificar
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {rectifying && (
+        <div
+          style={{
+            marginTop: "12px",
+            padding: "12px",
+            backgroundColor: "#FFF7E6",
+            border: "1px solid #FFD591",
+            borderRadius: "2px",
+            fontSize: "12px",
+          }}
+        >
+          <div style={{ fontWeight: 600, marginBottom: "8px" }}>
+            Rectificativa de {rectifying.numero} ({rectifying.municipio})
+          </div>
+          <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", alignItems: "center" }}>
+            <select
+              value={modo}
+              onChange={(e) => setModo(e.target.value as RectificationMode)}
+              disabled={working}
+              style={{ padding: "6px 8px", fontSize: "12px", border: "1px solid #D9D9D9", borderRadius: "2px" }}
+            >
+              {(Object.keys(MODE_LABELS) as RectificationMode[]).map((m) => (
+                <option key={m} value={m}>
+                  {MODE_LABELS[m]}
+                </option>
+              ))}
+            </select>
+            {modo === "DIFERENCIAS" && (
+              <input
+                type="number"
+                step="0.01"
+                placeholder="Importe base (±)"
+                value={importeManual}
+                onChange={(e) => setImporteManual(e.target.value)}
+                disabled={working}
+                style={{ width: "130px", padding: "6px 8px", fontSize: "12px", border: "1px solid #D9D9D9", borderRadius: "2px" }}
+              />
+            )}
+            <input
+              type="text"
+              placeholder="Motivo de la rectificación"
+              value={motivo}
+              onChange={(e) => setMotivo(e.target.value)}
+              disabled={working}
+              style={{ flex: 1, minWidth: "200px", padding: "6px 8px", fontSize: "12px", border: "1px solid #D9D9D9", borderRadius: "2px" }}
+            />
+            <button onClick={handleRectify} disabled={working} style={buttonStyle("#FA8C16", working)}>
+              {working ? "..." : "Emitir rectificativa"}
+            </button>
+            <button onClick={() => setRectifying(null)} disabled={working} style={buttonStyle("#595959", working)}>
+              Cancelar
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+/**
+ * PanelMergeTool Component
+ * Fusión de paneles duplicados: busca los paneles de un código, elige el
+ * superviviente y el duplicado, muestra la vista previa lado a lado y crea la
+ * solicitud de fusión (la aprueba otro admin en Aprobaciones)
+ */
+
+"use client";
+
+import { useState } from "react";
+import { findPanelsByCodigo, mergePanels, previewMergePanels, PanelMergePreview, PanelMergeSide } from "@/lib/api";
+
+const formatEuros = (amount: number) =>
+  new Intl.NumberFormat("es-ES", { style: "currency", currency: "EUR", minimumFractionDigits: 2 }).format(amount);
+
+const SIDE_FIELDS: { key: keyof PanelMergeSide; label: string }[] = [
+  { key: "panelId", label: "ID" },
+  { key: "codigo", label: "Código" },
+  { key: "municipio", label: "Municipio" },
+  { key: "ubicacion", label: "Ubicación" },
+  { key: "estadoActual", label: "Estado actual" },
+  { key: "eventos", label: "Eventos" },
+  { key: "eventosEliminados", label: "Eventos eliminados" },
+  { key: "meses", label: "Meses facturados" },
+  { key: "importeTotal", label: "Importe total" },
+];
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  fontSize: "13px",
+  border: "1px solid #D9D9D9",
+  borderRadius: "2px",
+};
+
+const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+  padding: "6px 12px",
+  fontSize: "12px",
+  fontWeight: 500,
+  color: disabled ? "#A3A3A3" : color,
+  backgroundColor: "#FFF",
+  border: `1px solid ${disabled ? "#D9D9D9" : color}`,
+  borderRadius: "2px",
+  cursor: disabled ? "not-allowed" : "pointer",
+});
+
+// Botón de selección: relleno cuando el panel ya está elegido
+const selectedStyle = (color: string, selected: boolean): React.CSSProperties => ({
+  ...buttonStyle(color, false),
+  color: selected ? "#FFF" : color,
+  backgroundColor: selected ? color : "#FFF",
+});
+
+const cellStyle: React.CSSProperties = { padding: "6px 8px", borderBottom: "1px solid #EAEAEA" };
+
+type MonthState = PanelMergePreview["meses"][number]["superviviente"];
+
+const formatMonth = (state: MonthState) =>
+  state ? `${state.estadoAlCierre} · ${state.totalDiasFacturables} días · ${formatEuros(state.totalImporte)}` : "—";
+
+export default function PanelMergeTool() {
+  const [codigo, setCodigo] = useState("");
+  const [candidates, setCandidates] = useState<Array<{ id: string } & Record<string, any>>>([]);
+  const [panelId, setPanelId] = useState("");
+  const [duplicatePanelId, setDuplicatePanelId] = useState("");
+  const [motivo, setMotivo] = useState("");
+  const [preview, setPreview] = useState<PanelMergePreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || "Error en la fusión de paneles");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSearch = () => run(async () => {
+    const found = await findPanelsByCodigo(codigo.trim());
+    setCandidates(found);
+    setPreview(null);
+    if (found.length === 0) setError(`No hay paneles con el código ${codigo.trim()}`);
+  });
+
+  const handlePreview = () => run(async () => {
+    setPreview(await previewMergePanels(panelId.trim(), duplicatePanelId.trim()));
+  });
+
+  const handleRequest = () => run(async () => {
+    if (!preview) return;
+    const { duplicado, superviviente } = preview;
+    if (!confirm(`¿Solicitar la fusión de ${duplicado.codigo} (${duplicado.panelId}) en ${superviviente.codigo}?`)) {
+      return;
+    }
+    const result = await mergePanels({ panelId: panelId.trim(), duplicatePanelId: duplicatePanelId.trim(), motivo });
+    setSuccess(
+      `Solicitud ${result.approvalRequestId} creada: ${result.impacto.descripcion}. ` +
+      "Otro administrador debe aprobarla en Aprobaciones."
+    );
+    setPreview(null);
+    setMotivo("");
+  });
+
+  const selectIds = (survivor: string, duplicate: string) => {
+    setPanelId(survivor);
+    setDuplicatePanelId(duplicate);
+    setPreview(null);
+  };
+
+  const canPreview = !busy && panelId.trim() !== "" && duplicatePanelId.trim() !== "" && panelId !== duplicatePanelId;
+
+  return (
+    <div style={{ marginBottom: "32px" }}>
+      <h3 style={{ fontSize: "15px", fontWeight: 600, color: "#000", margin: "0 0 8px 0" }}>🔀 Fusionar paneles</h3>
+      <p style={{ fontSize: "13px", color: "#595959", marginBottom: "16px", lineHeight: "1.6" }}>
+        Mueve los eventos del panel duplicado al superviviente, repunta su código, elimina su
+        facturación y reconstruye los meses afectados. No se permite si algún mes a reconstruir está cerrado.
+      </p>
+
+      {/* 1. Buscar paneles con el mismo código */}
+      <div style={{ display: "flex", gap: "8px", marginBottom: "12px" }}>
+        <input
+          value={codigo}
+          onChange={(e) => setCodigo(e.target.value)}
+          placeholder="Código del panel"
+          style={{ ...inputStyle, width: "200px" }}
+        />
+        <button onClick={handleSearch} disabled={busy || codigo.trim() === ""} style={buttonStyle("#1890FF", busy)}>
+          Buscar paneles
+        </button>
+      </div>
+
+      {candidates.length > 0 && (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px", marginBottom: "12px" }}>
+          <thead>
+            <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>ID</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Municipio</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Ubicación</th>
+              <th style={{ padding: "6px 8px", textAlign: "left" }}>Estado</th>
+              <th style={{ padding: "6px 8px" }} />
+            </tr>
+          </thead>
+          <tbody>
+            {candidates.map((panel) => (
+              <tr key={panel.id}>
+                <td style={{ ...cellStyle, fontFamily: "monospace" }}>{panel.id}</td>
+                <td style={cellStyle}>{panel.municipio ?? "—"}</td>
+                <td style={cellStyle}>{panel.ubicacion ?? "—"}</td>
+                <td style={cellStyle}>{panel.estadoActual ?? "—"}</td>
+                <td style={{ ...cellStyle, textAlign: "right", whiteSpace: "nowrap" }}>
+                  <button
+                    onClick={() => selectIds(panel.id, duplicatePanelId === panel.id ? "" : duplicatePanelId)}
+                    style={{ ...selectedStyle("#52C41A", panelId === panel.id), marginRight: "6px" }}
+                  >
+                    Superviviente
+                  </button>
+                  <button
+                    onClick={() => selectIds(panelId === panel.id ? "" : panelId, panel.id)}
+                    style={selectedStyle("#FA8C16", duplicatePanelId === panel.id)}
+                  >
+                    Duplicado
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* 2. IDs elegidos (también se pueden escribir: códigos distintos) */}
+      <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap", marginBottom: "12px" }}>
+        <input
+          value={panelId}
+          onChange={(e) => selectIds(e.target.value, duplicatePanelId)}
+          placeholder="ID superviviente"
+          style={{ ...inputStyle, width: "220px" }}
+        />
+        <span style={{ fontSize: "13px", color: "#595959" }}>←</span>
+        <input
+          value={duplicatePanelId}
+          onChange={(e) => selectIds(panelId, e.target.value)}
+          placeholder="ID duplicado"
+          style={{ ...inputStyle, width: "220px" }}
+        />
+        <button onClick={handlePreview} disabled={!canPreview} style={buttonStyle("#1890FF", !canPreview)}>
+          {busy ? "..." : "Vista previa"}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ padding: "12px", marginBottom: "12px", fontSize: "13px", color: "#CF1322", backgroundColor: "#FFF1F0", border: "1px solid #FFCCC7", borderRadius: "2px" }}>
+          ⚠️ {error}
+        </div>
+      )}
+      {success && (
+        <div style={{ padding: "12px", marginBottom: "12px", fontSize: "13px", color: "#52C41A", backgroundColor: "#F6FFED", border: "1px solid #B7EB8F", borderRadius: "2px" }}>
+          ✓ {success}
+        </div>
+      )}
+
+      {/* 3. Vista previa lado a lado */}
+      {preview && (
+        <div>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px", marginBottom: "16px" }}>
+            <thead>
+              <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+                <th style={{ padding: "6px 8px", textAlign: "left" }} />
+                <th style={{ padding: "6px 8px", textAlign: "left", color: "#389E0D" }}>Superviviente</th>
+                <th style={{ padding: "6px 8px", textAlign: "left", color: "#D46B08" }}>Duplicado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {SIDE_FIELDS.map(({ key, label }) => {
+                const format = (side: PanelMergeSide) =>
+                  key === "importeTotal" ? formatEuros(side.importeTotal) : String(side[key] ?? "—");
+                return (
+                  <tr key={key}>
+                    <td style={{ ...cellStyle, color: "#8C8C8C" }}>{label}</td>
+                    <td style={cellStyle}>{format(preview.superviviente)}</td>
+                    <td style={cellStyle}>{format(preview.duplicado)}</td>
+                  </tr>
+                );
+              })}
+              {preview.meses.map((month) => (
+                <tr key={month.monthKey} style={{ backgroundColor: month.reconstruir ? "#E6F7FF" : "transparent" }}>
+                  <td style={{ ...cellStyle, color: "#8C8C8C", whiteSpace: "nowrap" }}>
+                    {month.monthKey}
+                    {month.isLocked && " 🔒"}
+                    {month.reconstruir && " ↻"}
+                  </td>
+                  <td style={cellStyle}>{formatMonth(month.superviviente)}</td>
+                  <td style={cellStyle}>{formatMonth(month.duplicado)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {preview.eventosDuplicado.length > 0 && (
+            <div style={{ fontSize: "12px", color: "#595959", marginBottom: "12px" }}>
+              <strong>Eventos que se mueven:</strong>{" "}
+              {preview.eventosDuplicado
+                .map((event) => `${event.effectiveDateLocal} ${event.action}${event.isDeleted ? " (eliminado)" : ""}`)
+                .join(" · ")}
+            </div>
+          )}
+
+          {preview.avisos.map((aviso) => (
+            <div key={aviso} style={{ fontSize: "12px", color: "#D46B08", marginBottom: "4px" }}>⚠️ {aviso}</div>
+          ))}
+          {preview.bloqueos.map((bloqueo) => (
+            <div key={bloqueo} style={{ fontSize: "12px", color: "#CF1322", marginBottom: "4px" }}>⛔ {bloqueo}</div>
+          ))}
+
+          <div style={{ display: "flex", gap: "8px", alignItems: "center", marginTop: "12px" }}>
+            <input
+              value={motivo}
+              onChange={(e) => setMotivo(e.target.value)}
+              placeholder="Motivo (opcional)"
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              onClick={handleRequest}
+              disabled={busy || preview.bloqueos.length > 0}
+              style={buttonStyle("#CF1322", busy || preview.bloqueos.length > 0)}
+            >
+              Solicitar fusión
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
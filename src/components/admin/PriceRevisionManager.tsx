@@ -0,0 +1,476 @@
+/**
+ * PriceRevisionManager Component
+ * Revisión anual de precios (IPC): el admin introduce la variación publicada
+ * (o importa un CSV local con valores del índice), revisa la propuesta por
+ * contrato y su impacto sobre el último mes facturado, y la aprueba o descarta
+ * Al aprobar se aplican las tarifas con la misma propagación que updateYearlyRate
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import {
+  proposePriceRevision,
+  resolvePriceRevision,
+  PriceRevision,
+} from "@/lib/api";
+
+const ESTADO_LABELS: Record<PriceRevision["estado"], { label: string; color: string }> = {
+  PROPUESTA: { label: "Pendiente", color: "#FA8C16" },
+  APLICADA: { label: "Aplicada", color: "#52C41A" },
+  DESCARTADA: { label: "Descartada", color: "#8C8C8C" },
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "6px 8px",
+  fontSize: "13px",
+  border: "1px solid #D9D9D9",
+  borderRadius: "2px",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "block",
+  marginBottom: "4px",
+  fontSize: "12px",
+  fontWeight: 500,
+  color: "#595959",
+};
+
+const formatEuros = (value: number) => `${value.toFixed(2)}€`;
+
+export default function PriceRevisionManager() {
+  const [revisions, setRevisions] = useState<PriceRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [targetYear, setTargetYear] = useState(String(new Date().getFullYear() + 1));
+  const [source, setSource] = useState<"MANUAL" | "CSV">("MANUAL");
+  const [variacion, setVariacion] = useState("");
+  const [csvContent, setCsvContent] = useState<string | null>(null);
+  const [csvName, setCsvName] = useState("");
+  const [periodoDesde, setPeriodoDesde] = useState("");
+  const [periodoHasta, setPeriodoHasta] = useState("");
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedClaves, setSelectedClaves] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, []);
+
+  const loadRevisions = async () => {
+    setLoading(true);
+    try {
+      const snapshot = await getDocs(collection(db, "priceRevisions"));
+      const loaded = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...(doc.data() as any) }))
+        .sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0)) as PriceRevision[];
+      setRevisions(loaded);
+    } catch (err: any) {
+      console.error("Error cargando revisiones de precios:", err);
+      setError("Error al cargar las revisiones de precios");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectRevision = (revision: PriceRevision | null) => {
+    setSelectedId(revision?.id || null);
+    setSelectedClaves(revision ? revision.items.map((item) => item.clave) : []);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      setCsvContent(null);
+      setCsvName("");
+      return;
+    }
+    setCsvContent(await file.text());
+    setCsvName(file.name);
+  };
+
+  const handlePropose = async () => {
+    if (!/^\d{4}$/.test(targetYear)) {
+      setError("El año debe tener formato YYYY");
+      return;
+    }
+
+    let payload: Parameters<typeof proposePriceRevision>[0];
+    if (source === "MANUAL") {
+      const value = parseFloat(variacion.replace(",", "."));
+      if (isNaN(value)) {
+        setError("Introduce la variación del índice en %");
+        return;
+      }
+      payload = { targetYear, variacionIndice: value };
+    } else {
+      if (!csvContent || !periodoDesde || !periodoHasta) {
+        setError("Selecciona el CSV y los periodos desde/hasta (YYYY-MM)");
+        return;
+      }
+      payload = { targetYear, indexCsv: csvContent, periodoDesde, periodoHasta };
+    }
+
+    setWorking(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const revision = await proposePriceRevision(payload);
+      setSuccess(
+        `Propuesta ${revision.targetYear} calculada con una variación del ${revision.variacionIndice}%`
+      );
+      await loadRevisions();
+      selectRevision(revision);
+    } catch (err: any) {
+      setError(err.message || "Error al calcular la propuesta");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleResolve = async (revision: PriceRevision, decision: "APROBAR" | "DESCARTAR") => {
+    if (decision === "APROBAR") {
+      if (selectedClaves.length === 0) {
+        setError("Selecciona al menos una tarifa a aplicar");
+        return;
+      }
+      if (!confirm(
+        `¿Aplicar ${selectedClaves.length} tarifa(s) revisada(s) para ${revision.targetYear}? ` +
+        "Se recalcularán los meses abiertos afectados."
+      )) {
+        return;
+      }
+    }
+
+    setWorking(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await resolvePriceRevision({
+        revisionId: revision.id,
+        decision,
+        claves: decision === "APROBAR" ? selectedClaves : undefined,
+      });
+      setSuccess(
+        result.estado === "DESCARTADA" ?
+          `Propuesta ${revision.targetYear} descartada` :
+          `Tarifas aplicadas: ${result.aplicados
+            .map((a) => `${a.codigo} ${formatEuros(a.importe)} (${a.panelsUpdated} paneles)`)
+            .join(", ")}`
+      );
+      selectRevision(null);
+      await loadRevisions();
+    } catch (err: any) {
+      setError(err.message || "Error al resolver la propuesta");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: "6px 12px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: disabled ? "#A3A3A3" : color,
+    backgroundColor: "#FFF",
+    border: `1px solid ${disabled ? "#D9D9D9" : color}`,
+    borderRadius: "2px",
+    cursor: disabled ? "not-allowed" : "pointer",
+  });
+
+  const selected = revisions.find((revision) => revision.id === selectedId) || null;
+
+  return (
+    <div>
+      <h3 style={{ fontSize: "15px", fontWeight: 600, color: "#000", marginBottom: "16px" }}>
+        📈 Revisión anual de precios (IPC)
+      </h3>
+
+      <p style={{ fontSize: "13px", color: "#595959", marginBottom: "16px", lineHeight: "1.6" }}>
+        Propone la tarifa del año indicado a partir de la tarifa del año anterior: la tarifa estándar
+        con la variación completa y cada contrato según su cláusula (IPC con tope o porcentaje fijo).
+        El impacto se estima sobre el último mes facturado. No se modifica nada hasta aprobarla.
+      </p>
+
+      {error && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#CF1322",
+            backgroundColor: "#FFF1F0",
+            border: "1px solid #FFCCC7",
+            borderRadius: "2px",
+          }}
+        >
+          ⚠️ {error}
+        </div>
+      )}
+
+      {success && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#52C41A",
+            backgroundColor: "#F6FFED",
+            border: "1px solid #B7EB8F",
+            borderRadius: "2px",
+          }}
+        >
+          ✓ {success}
+        </div>
+      )}
+
+      <div
+        style={{
+          padding: "16px",
+          marginBottom: "16px",
+          backgroundColor: "#FAFAFA",
+          border: "1px solid #EAEAEA",
+          borderRadius: "2px",
+        }}
+      >
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 2fr", gap: "12px", marginBottom: "12px" }}>
+          <div>
+            <label style={labelStyle}>Año a revisar *</label>
+            <input
+              value={targetYear}
+              onChange={(e) => setTargetYear(e.target.value)}
+              placeholder="YYYY"
+              disabled={working}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Origen del índice</label>
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value as "MANUAL" | "CSV")}
+              disabled={working}
+              style={inputStyle}
+            >
+              <option value="MANUAL">Variación publicada</option>
+              <option value="CSV">CSV de valores del índice</option>
+            </select>
+          </div>
+          {source === "MANUAL" ? (
+            <div>
+              <label style={labelStyle}>Variación del índice (%) *</label>
+              <input
+                value={variacion}
+                onChange={(e) => setVariacion(e.target.value)}
+                placeholder="Ej: 2.8"
+                disabled={working}
+                style={inputStyle}
+              />
+            </div>
+          ) : (
+            <div>
+              <label style={labelStyle}>Fichero CSV (periodo;valor) *</label>
+              <input
+                type="file"
+                accept=".csv,.txt"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                disabled={working}
+                style={{ fontSize: "12px" }}
+              />
+              {csvName && <div style={{ fontSize: "11px", color: "#8C8C8C" }}>{csvName}</div>}
+            </div>
+          )}
+        </div>
+
+        {source === "CSV" && (
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 2fr", gap: "12px", marginBottom: "12px" }}>
+            <div>
+              <label style={labelStyle}>Periodo desde *</label>
+              <input
+                value={periodoDesde}
+                onChange={(e) => setPeriodoDesde(e.target.value)}
+                placeholder="YYYY-MM"
+                disabled={working}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Periodo hasta *</label>
+              <input
+                value={periodoHasta}
+                onChange={(e) => setPeriodoHasta(e.target.value)}
+                placeholder="YYYY-MM"
+                disabled={working}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end" }}>
+          <button onClick={handlePropose} disabled={working} style={buttonStyle("#1890FF", working)}>
+            {working ? "Calculando..." : "Calcular propuesta"}
+          </button>
+        </div>
+      </div>
+
+      {selected && (
+        <div style={{ marginBottom: "16px", border: "1px solid #EAEAEA", borderRadius: "2px", padding: "16px" }}>
+          <div style={{ fontSize: "13px", fontWeight: 600, marginBottom: "8px" }}>
+            Propuesta {selected.targetYear} · variación {selected.variacionIndice}%
+            {selected.fuenteIndice.tipo === "CSV" && (
+              <span style={{ fontWeight: 400, color: "#8C8C8C" }}>
+                {" "}({selected.fuenteIndice.periodoDesde} = {selected.fuenteIndice.valorDesde} →{" "}
+                {selected.fuenteIndice.periodoHasta} = {selected.fuenteIndice.valorHasta})
+              </span>
+            )}
+          </div>
+          <div style={{ fontSize: "12px", color: "#8C8C8C", marginBottom: "12px" }}>
+            Impacto estimado sobre {selected.lastMonthKey || "—"} (paneles activos)
+          </div>
+
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+            <thead>
+              <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+                {selected.estado === "PROPUESTA" && <th style={{ padding: "8px" }} />}
+                <th style={{ padding: "8px", textAlign: "left" }}>Tarifa</th>
+                <th style={{ padding: "8px", textAlign: "right" }}>{selected.baseYear}</th>
+                <th style={{ padding: "8px", textAlign: "right" }}>{selected.targetYear}</th>
+                <th style={{ padding: "8px", textAlign: "left" }}>Fórmula</th>
+                <th style={{ padding: "8px", textAlign: "right" }}>Paneles</th>
+                <th style={{ padding: "8px", textAlign: "right" }}>Mes actual</th>
+                <th style={{ padding: "8px", textAlign: "right" }}>Mes revisado</th>
+                <th style={{ padding: "8px", textAlign: "right" }}>Dif. anual</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selected.items.map((item) => (
+                <tr key={item.clave} style={{ borderBottom: "1px solid #EAEAEA" }}>
+                  {selected.estado === "PROPUESTA" && (
+                    <td style={{ padding: "8px" }}>
+                      <input
+                        type="checkbox"
+                        checked={selectedClaves.includes(item.clave)}
+                        onChange={(e) =>
+                          setSelectedClaves(
+                            e.target.checked ?
+                              [...selectedClaves, item.clave] :
+                              selectedClaves.filter((clave) => clave !== item.clave)
+                          )
+                        }
+                        disabled={working}
+                      />
+                    </td>
+                  )}
+                  <td style={{ padding: "8px" }}>
+                    <strong>{item.codigo}</strong>
+                    {item.tipo === "CONTRATO" && <div style={{ fontSize: "11px", color: "#8C8C8C" }}>Contrato</div>}
+                  </td>
+                  <td style={{ padding: "8px", textAlign: "right" }}>{formatEuros(item.importeActual)}</td>
+                  <td style={{ padding: "8px", textAlign: "right", fontWeight: 600 }}>
+                    {formatEuros(item.importePropuesto)}
+                  </td>
+                  <td style={{ padding: "8px", fontFamily: "monospace", fontSize: "11px" }}>{item.formula}</td>
+                  <td style={{ padding: "8px", textAlign: "right" }}>{item.paneles}</td>
+                  <td style={{ padding: "8px", textAlign: "right" }}>{formatEuros(item.importeMesActual)}</td>
+                  <td style={{ padding: "8px", textAlign: "right" }}>{formatEuros(item.importeMesPropuesto)}</td>
+                  <td style={{ padding: "8px", textAlign: "right" }}>{formatEuros(item.diferenciaAnual)}</td>
+                </tr>
+              ))}
+              <tr style={{ fontWeight: 600 }}>
+                <td style={{ padding: "8px" }} colSpan={selected.estado === "PROPUESTA" ? 6 : 5}>Total</td>
+                <td style={{ padding: "8px", textAlign: "right" }}>{formatEuros(selected.totales.importeMesActual)}</td>
+                <td style={{ padding: "8px", textAlign: "right" }}>
+                  {formatEuros(selected.totales.importeMesPropuesto)}
+                </td>
+                <td style={{ padding: "8px", textAlign: "right" }}>{formatEuros(selected.totales.diferenciaAnual)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          {selected.omitidos.length > 0 && (
+            <div style={{ marginTop: "12px", fontSize: "12px", color: "#8C8C8C" }}>
+              Sin revisión: {selected.omitidos.join(" · ")}
+            </div>
+          )}
+
+          <div style={{ display: "flex", gap: "8px", justifyContent: "flex-end", marginTop: "12px" }}>
+            <button onClick={() => selectRevision(null)} disabled={working} style={buttonStyle("#595959", working)}>
+              Cerrar
+            </button>
+            {selected.estado === "PROPUESTA" && (
+              <>
+                <button
+                  onClick={() => handleResolve(selected, "DESCARTAR")}
+                  disabled={working}
+                  style={buttonStyle("#CF1322", working)}
+                >
+                  Descartar
+                </button>
+                <button
+                  onClick={() => handleResolve(selected, "APROBAR")}
+                  disabled={working}
+                  style={buttonStyle("#52C41A", working)}
+                >
+                  {working ? "Aplicando..." : `Aprobar y aplicar (${selectedClaves.length})`}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{ fontSize: "13px", color: "#595959" }}>Cargando revisiones...</div>
+      ) : revisions.length === 0 ? (
+        <div style={{ fontSize: "13px", color: "#8C8C8C" }}>No hay revisiones de precios.</div>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+          <thead>
+            <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+              <th style={{ padding: "8px", textAlign: "left" }}>Año</th>
+              <th style={{ padding: "8px", textAlign: "right" }}>Variación</th>
+              <th style={{ padding: "8px", textAlign: "right" }}>Tarifas</th>
+              <th style={{ padding: "8px", textAlign: "right" }}>Dif. anual</th>
+              <th style={{ padding: "8px", textAlign: "left" }}>Estado</th>
+              <th style={{ padding: "8px", textAlign: "left" }}>Creada por</th>
+              <th style={{ padding: "8px", textAlign: "center" }}>Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {revisions.map((revision) => (
+              <tr key={revision.id} style={{ borderBottom: "1px solid #EAEAEA" }}>
+                <td style={{ padding: "8px" }}>{revision.targetYear}</td>
+                <td style={{ padding: "8px", textAlign: "right" }}>{revision.variacionIndice}%</td>
+                <td style={{ padding: "8px", textAlign: "right" }}>
+                  {revision.estado === "APLICADA" ?
+                    `${revision.itemsAplicados.length}/${revision.items.length}` :
+                    revision.items.length}
+                </td>
+                <td style={{ padding: "8px", textAlign: "right" }}>{formatEuros(revision.totales.diferenciaAnual)}</td>
+                <td style={{ padding: "8px", color: ESTADO_LABELS[revision.estado].color, fontWeight: 500 }}>
+                  {ESTADO_LABELS[revision.estado].label}
+                </td>
+                <td style={{ padding: "8px" }}>{revision.createdBy}</td>
+                <td style={{ padding: "8px", textAlign: "center" }}>
+                  <button
+                    onClick={() => selectRevision(revision)}
+                    disabled={working}
+                    style={buttonStyle("#1890FF", working)}
+                  >
+                    {revision.estado === "PROPUESTA" ? "Revisar" : "Ver"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
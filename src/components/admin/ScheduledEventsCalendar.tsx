@@ -0,0 +1,411 @@
+/**
+ * ScheduledEventsCalendar Component
+ * Calendario de eventos programados (desmontajes, reinstalaciones y bajas) para
+ * meses que aún no existen, agrupados por mes y municipio
+ * Se aplican automáticamente al crear el mes con "Crear mes siguiente"
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import {
+  saveScheduledPanelEvent,
+  cancelScheduledPanelEvent,
+  ScheduledEventAction,
+  ScheduledPanelEvent,
+} from "@/lib/api";
+
+const ACTION_LABELS: Record<ScheduledEventAction, string> = {
+  DESMONTADO: "Desmontaje",
+  REINSTALACION: "Reinstalación",
+  BAJA: "Baja",
+};
+
+const ACTION_COLORS: Record<ScheduledEventAction, string> = {
+  DESMONTADO: "#FA8C16",
+  REINSTALACION: "#52C41A",
+  BAJA: "#CF1322",
+};
+
+interface ScheduledEventForm {
+  scheduledEventId?: string;
+  codigo: string;
+  action: ScheduledEventAction;
+  effectiveDateLocal: string;
+  motivo: string;
+}
+
+const EMPTY_FORM: ScheduledEventForm = {
+  codigo: "",
+  action: "DESMONTADO",
+  effectiveDateLocal: "",
+  motivo: "",
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "6px 8px",
+  fontSize: "13px",
+  border: "1px solid #D9D9D9",
+  borderRadius: "2px",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "block",
+  marginBottom: "4px",
+  fontSize: "12px",
+  fontWeight: 500,
+  color: "#595959",
+};
+
+function formatMonth(monthKey: string) {
+  const [year, month] = monthKey.split("-").map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString("es-ES", { month: "long", year: "numeric" });
+}
+
+export default function ScheduledEventsCalendar() {
+  const [events, setEvents] = useState<ScheduledPanelEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<ScheduledEventForm | null>(null);
+  const [municipioFilter, setMunicipioFilter] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  const loadEvents = async () => {
+    setLoading(true);
+    try {
+      const q = query(collection(db, "scheduledPanelEvents"), where("estado", "==", "PENDIENTE"));
+      const snapshot = await getDocs(q);
+      const loaded = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...(doc.data() as Omit<ScheduledPanelEvent, "id">) }))
+        .sort((a, b) =>
+          a.effectiveDateLocal.localeCompare(b.effectiveDateLocal) || a.codigo.localeCompare(b.codigo)
+        );
+      setEvents(loaded);
+    } catch (err: any) {
+      console.error("Error cargando eventos programados:", err);
+      setError("Error al cargar eventos programados");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (event: ScheduledPanelEvent) => {
+    setForm({
+      scheduledEventId: event.id,
+      codigo: event.codigo,
+      action: event.action,
+      effectiveDateLocal: event.effectiveDateLocal,
+      motivo: event.motivo,
+    });
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.codigo.trim() || !form.effectiveDateLocal) {
+      setError("Indica el código del panel y la fecha");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const result = await saveScheduledPanelEvent({
+        scheduledEventId: form.scheduledEventId,
+        codigo: form.codigo.trim(),
+        action: form.action,
+        effectiveDateLocal: form.effectiveDateLocal,
+        motivo: form.motivo,
+      });
+      setSuccess(
+        `${ACTION_LABELS[form.action]} de ${form.codigo.trim()} programado para ${form.effectiveDateLocal}. ` +
+        `Se aplicará al crear ${formatMonth(result.monthKey)}.`
+      );
+      setForm(null);
+      await loadEvents();
+    } catch (err: any) {
+      setError(err.message || "Error al programar el evento");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (event: ScheduledPanelEvent) => {
+    if (!confirm(`¿Cancelar ${ACTION_LABELS[event.action].toLowerCase()} de ${event.codigo} (${event.effectiveDateLocal})?`)) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await cancelScheduledPanelEvent(event.id);
+      setSuccess(`Evento programado de ${event.codigo} cancelado`);
+      await loadEvents();
+    } catch (err: any) {
+      setError(err.message || "Error al cancelar el evento");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: "6px 12px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: disabled ? "#A3A3A3" : color,
+    backgroundColor: "#FFF",
+    border: `1px solid ${disabled ? "#D9D9D9" : color}`,
+    borderRadius: "2px",
+    cursor: disabled ? "not-allowed" : "pointer",
+  });
+
+  if (loading) {
+    return (
+      <div style={{ padding: "16px", fontSize: "14px", color: "#595959" }}>
+        Cargando eventos programados...
+      </div>
+    );
+  }
+
+  const municipios = Array.from(new Set(events.map((e) => e.municipioId))).sort();
+  const visibleEvents = municipioFilter ? events.filter((e) => e.municipioId === municipioFilter) : events;
+  // Mes → municipio → eventos (ya ordenados por fecha)
+  const calendar = new Map<string, Map<string, ScheduledPanelEvent[]>>();
+  for (const event of visibleEvents) {
+    const byMunicipio = calendar.get(event.monthKey) ?? new Map<string, ScheduledPanelEvent[]>();
+    byMunicipio.set(event.municipioId, [...(byMunicipio.get(event.municipioId) ?? []), event]);
+    calendar.set(event.monthKey, byMunicipio);
+  }
+  const busy = saving || form !== null;
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "16px",
+        }}
+      >
+        <h3 style={{ fontSize: "15px", fontWeight: 600, color: "#000", margin: 0 }}>
+          📅 Eventos programados
+        </h3>
+        {!form && (
+          <button
+            onClick={() => {
+              setForm({ ...EMPTY_FORM });
+              setError(null);
+              setSuccess(null);
+            }}
+            disabled={saving}
+            style={buttonStyle("#52C41A", saving)}
+          >
+            + Programar evento
+          </button>
+        )}
+      </div>
+
+      <p style={{ fontSize: "13px", color: "#595959", marginBottom: "16px", lineHeight: "1.6" }}>
+        Desmontajes, reinstalaciones y bajas previstos para meses que todavía no existen.
+        Quedan pendientes y se registran automáticamente como eventos del panel al crear el mes.
+      </p>
+
+      {error && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#CF1322",
+            backgroundColor: "#FFF1F0",
+            border: "1px solid #FFCCC7",
+            borderRadius: "2px",
+          }}
+        >
+          ⚠️ {error}
+        </div>
+      )}
+
+      {success && (
+        <div
+          style={{
+            padding: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "#52C41A",
+            backgroundColor: "#F6FFED",
+            border: "1px solid #B7EB8F",
+            borderRadius: "2px",
+          }}
+        >
+          ✓ {success}
+        </div>
+      )}
+
+      {form && (
+        <div
+          style={{
+            padding: "16px",
+            marginBottom: "16px",
+            backgroundColor: "#FAFAFA",
+            border: "1px solid #EAEAEA",
+            borderRadius: "2px",
+          }}
+        >
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: "12px", marginBottom: "12px" }}>
+            <div>
+              <label style={labelStyle}>Código de panel *</label>
+              <input
+                value={form.codigo}
+                onChange={(e) => setForm({ ...form, codigo: e.target.value })}
+                disabled={saving || form.scheduledEventId !== undefined}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Acción *</label>
+              <select
+                value={form.action}
+                onChange={(e) => setForm({ ...form, action: e.target.value as ScheduledEventAction })}
+                disabled={saving}
+                style={inputStyle}
+              >
+                {(Object.keys(ACTION_LABELS) as ScheduledEventAction[]).map((action) => (
+                  <option key={action} value={action}>
+                    {ACTION_LABELS[action]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label style={labelStyle}>Fecha *</label>
+              <input
+                type="date"
+                value={form.effectiveDateLocal}
+                onChange={(e) => setForm({ ...form, effectiveDateLocal: e.target.value })}
+                disabled={saving}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          <div style={{ marginBottom: "12px" }}>
+            <label style={labelStyle}>Motivo</label>
+            <input
+              value={form.motivo}
+              onChange={(e) => setForm({ ...form, motivo: e.target.value })}
+              maxLength={500}
+              disabled={saving}
+              style={inputStyle}
+            />
+          </div>
+
+          <div style={{ display: "flex", gap: "8px", justifyContent: "flex-end" }}>
+            <button onClick={() => setForm(null)} disabled={saving} style={buttonStyle("#595959", saving)}>
+              Cancelar
+            </button>
+            <button onClick={handleSave} disabled={saving} style={buttonStyle("#52C41A", saving)}>
+              {saving ? "Guardando..." : "Guardar"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {municipios.length > 1 && (
+        <div style={{ marginBottom: "16px", maxWidth: "280px" }}>
+          <label style={labelStyle}>Municipio</label>
+          <select
+            value={municipioFilter}
+            onChange={(e) => setMunicipioFilter(e.target.value)}
+            style={inputStyle}
+          >
+            <option value="">Todos</option>
+            {municipios.map((municipio) => (
+              <option key={municipio} value={municipio}>
+                {municipio}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {calendar.size === 0 ? (
+        <div style={{ fontSize: "13px", color: "#8C8C8C" }}>No hay eventos programados pendientes.</div>
+      ) : (
+        Array.from(calendar.entries()).map(([monthKey, byMunicipio]) => (
+          <div key={monthKey} style={{ marginBottom: "20px" }}>
+            <div
+              style={{
+                fontSize: "13px",
+                fontWeight: 600,
+                color: "#0050B3",
+                textTransform: "capitalize",
+                paddingBottom: "6px",
+                marginBottom: "8px",
+                borderBottom: "2px solid #EAEAEA",
+              }}
+            >
+              {formatMonth(monthKey)}
+            </div>
+            {Array.from(byMunicipio.entries())
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([municipio, municipioEvents]) => (
+                <div key={municipio} style={{ marginBottom: "12px" }}>
+                  <div style={{ fontSize: "12px", fontWeight: 600, color: "#595959", marginBottom: "4px" }}>
+                    {municipio || "Sin municipio"}
+                  </div>
+                  <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+                    <tbody>
+                      {municipioEvents.map((event) => (
+                        <tr key={event.id} style={{ borderBottom: "1px solid #EAEAEA" }}>
+                          <td style={{ padding: "6px 8px", width: "90px" }}>{event.effectiveDateLocal}</td>
+                          <td style={{ padding: "6px 8px", width: "90px" }}>
+                            <strong>{event.codigo}</strong>
+                          </td>
+                          <td style={{ padding: "6px 8px", width: "110px", color: ACTION_COLORS[event.action] }}>
+                            {ACTION_LABELS[event.action]}
+                          </td>
+                          <td style={{ padding: "6px 8px", color: "#595959" }}>
+                            {event.motivo}
+                            <div style={{ fontSize: "11px", color: "#8C8C8C" }}>Programado por {event.createdBy}</div>
+                          </td>
+                          <td style={{ padding: "6px 8px", textAlign: "right", whiteSpace: "nowrap" }}>
+                            <button
+                              onClick={() => handleEdit(event)}
+                              disabled={busy}
+                              style={{ ...buttonStyle("#1890FF", busy), marginRight: "6px" }}
+                            >
+                              Editar
+                            </button>
+                            <button
+                              onClick={() => handleCancel(event)}
+                              disabled={busy}
+                              style={buttonStyle("#CF1322", busy)}
+                            >
+                              Cancelar
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+/**
+ * UsersManager Component
+ * Pestaña Usuarios: lista de cuentas de Firebase Auth con su rol, último acceso
+ * y estado; invitar por email, cambiar rol, deshabilitar/habilitar y revocar sesiones
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { auth, UserRole } from "@/lib/firebase";
+import {
+  listUsers,
+  inviteUser,
+  setUserRole,
+  setUserDisabled,
+  revokeUserSessions,
+  UserSummary,
+} from "@/lib/api";
+
+const ROLE_OPTIONS: Array<{ value: UserRole | "user"; label: string; descripcion: string }> = [
+  { value: "admin", label: "Administrador", descripcion: "Acceso completo" },
+  { value: "editor", label: "Editor", descripcion: "Crea eventos e intervenciones" },
+  { value: "auditor", label: "Auditor", descripcion: "Lee todo (auditoría e informes) sin modificar nada" },
+  { value: "visor", label: "Visor de municipio", descripcion: "Solo paneles y facturación de sus municipios" },
+  { value: "user", label: "Sin rol", descripcion: "Sin acceso a los datos" },
+];
+
+const roleLabel = (role: UserRole | null) =>
+  ROLE_OPTIONS.find((option) => option.value === (role ?? "user"))?.label ?? "Sin rol";
+
+const parseMunicipios = (value: string) =>
+  value
+    .split(",")
+    .map((m) => m.trim())
+    .filter((m) => m.length > 0);
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleString("es-ES") : "—");
+
+interface RoleEdit {
+  role: UserRole | "user";
+  municipios: string;
+}
+
+export default function UsersManager() {
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyUid, setBusyUid] = useState<string | null>(null);
+  const [edits, setEdits] = useState<Record<string, RoleEdit>>({});
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  // Invitación
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<UserRole>("editor");
+  const [inviteMunicipios, setInviteMunicipios] = useState("");
+  const [inviting, setInviting] = useState(false);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+
+  const currentUid = auth.currentUser?.uid;
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    setLoading(true);
+    try {
+      // Más de 1000 usuarios: se recorren todas las páginas
+      const all: UserSummary[] = [];
+      let pageToken: string | undefined;
+      do {
+        const page = await listUsers(pageToken);
+        all.push(...page.users);
+        pageToken = page.nextPageToken ?? undefined;
+      } while (pageToken);
+      setUsers(all);
+      setEdits({});
+    } catch (err: any) {
+      setMessage({ type: "error", text: err.message || "Error al cargar los usuarios" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sustituye el usuario actualizado en la lista
+  const replaceUser = (updated: UserSummary) =>
+    setUsers((current) => current.map((user) => (user.uid === updated.uid ? updated : user)));
+
+  const runAction = async (uid: string, action: () => Promise<string>) => {
+    setBusyUid(uid);
+    setMessage(null);
+    try {
+      setMessage({ type: "success", text: await action() });
+    } catch (err: any) {
+      setMessage({ type: "error", text: err.message || "Error en la operación" });
+    } finally {
+      setBusyUid(null);
+    }
+  };
+
+  const handleInvite = async () => {
+    setInviting(true);
+    setMessage(null);
+    setInviteLink(null);
+    try {
+      const result = await inviteUser({
+        email: inviteEmail.trim(),
+        role: inviteRole,
+        ...(inviteRole === "visor" ? { municipioIds: parseMunicipios(inviteMunicipios) } : {}),
+      });
+      setUsers((current) => [...current, result.user]);
+      setInviteLink(result.inviteLink);
+      setMessage({ type: "success", text: `Usuario ${result.user.email} creado como ${roleLabel(result.user.role)}` });
+      setInviteEmail("");
+      setInviteMunicipios("");
+    } catch (err: any) {
+      setMessage({ type: "error", text: err.message || "Error al invitar al usuario" });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleSaveRole = (user: UserSummary) =>
+    runAction(user.uid, async () => {
+      const edit = edits[user.uid];
+      const municipioIds = parseMunicipios(edit.municipios);
+      await setUserRole({
+        uid: user.uid,
+        role: edit.role,
+        ...(edit.role === "visor" ? { municipioIds } : {}),
+      });
+      replaceUser({
+        ...user,
+        role: edit.role === "user" ? null : edit.role,
+        municipioIds: edit.role === "visor" ? municipioIds : [],
+      });
+      setEdits(({ [user.uid]: _, ...rest }) => rest);
+      return `Rol de ${user.email || user.uid} cambiado a ${roleLabel(edit.role === "user" ? null : edit.role)}. ` +
+        "Revoca sus sesiones para que se aplique al momento.";
+    });
+
+  const handleToggleDisabled = (user: UserSummary) => {
+    const disabled = !user.disabled;
+    if (
+      disabled &&
+      !confirm(`¿Deshabilitar la cuenta de ${user.email || user.uid}? Se cerrarán todas sus sesiones.`)
+    ) {
+      return;
+    }
+    runAction(user.uid, async () => {
+      const result = await setUserDisabled(user.uid, disabled);
+      replaceUser(result.user);
+      return `Cuenta de ${user.email || user.uid} ${disabled ? "deshabilitada" : "habilitada"}`;
+    });
+  };
+
+  const handleRevoke = (user: UserSummary) => {
+    if (!confirm(`¿Revocar las sesiones de ${user.email || user.uid}? Tendrá que volver a iniciar sesión.`)) {
+      return;
+    }
+    runAction(user.uid, async () => {
+      const result = await revokeUserSessions(user.uid);
+      replaceUser(result.user);
+      return `Sesiones de ${user.email || user.uid} revocadas`;
+    });
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: "6px 8px",
+    fontSize: "12px",
+    border: "1px solid #D9D9D9",
+    borderRadius: "2px",
+    width: "100%",
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    fontSize: "11px",
+    color: "#595959",
+    marginBottom: "4px",
+  };
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: "4px 10px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: disabled ? "#A3A3A3" : color,
+    backgroundColor: "#FFF",
+    border: `1px solid ${disabled ? "#D9D9D9" : color}`,
+    borderRadius: "2px",
+    cursor: disabled ? "not-allowed" : "pointer",
+    whiteSpace: "nowrap",
+  });
+
+  const canInvite =
+    inviteEmail.trim() !== "" && (inviteRole !== "visor" || parseMunicipios(inviteMunicipios).length > 0) && !inviting;
+
+  return (
+    <div style={{ marginBottom: "32px" }}>
+      <h3 style={{ fontSize: "15px", fontWeight: 600, color: "#000", margin: "0 0 16px 0" }}>👥 Usuarios</h3>
+
+      {/* Invitar */}
+      <div
+        style={{
+          padding: "16px",
+          marginBottom: "24px",
+          backgroundColor: "#FAFAFA",
+          border: "1px solid #EAEAEA",
+          borderRadius: "2px",
+        }}
+      >
+        <div style={{ fontSize: "13px", fontWeight: 600, marginBottom: "12px" }}>✉️ Invitar por email</div>
+        <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr 2fr auto", gap: "8px", alignItems: "end" }}>
+          <div>
+            <label style={labelStyle}>Email</label>
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Rol</label>
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as UserRole)}
+              style={inputStyle}
+            >
+              {ROLE_OPTIONS.filter((option) => option.value !== "user").map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={labelStyle}>Municipios (IDs separados por comas)</label>
+            <input
+              value={inviteMunicipios}
+              onChange={(e) => setInviteMunicipios(e.target.value)}
+              disabled={inviteRole !== "visor"}
+              placeholder={inviteRole === "visor" ? "alcala, getafe" : "Solo para el visor"}
+              style={inputStyle}
+            />
+          </div>
+          <button onClick={handleInvite} disabled={!canInvite} style={buttonStyle("#1890FF", !canInvite)}>
+            {inviting ? "Invitando..." : "Invitar"}
+          </button>
+        </div>
+        <p style={{ fontSize: "12px", color: "#8C8C8C", margin: "8px 0 0 0" }}>
+          {ROLE_OPTIONS.find((option) => option.value === inviteRole)?.descripcion}
+        </p>
+        {inviteLink && (
+          <div style={{ marginTop: "12px", fontSize: "12px" }}>
+            Envía este enlace al usuario para que establezca su contraseña:
+            <input
+              readOnly
+              value={inviteLink}
+              onFocus={(e) => e.target.select()}
+              style={{ ...inputStyle, marginTop: "4px", fontFamily: "monospace" }}
+            />
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <div
+          style={{
+            padding: "8px 12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: message.type === "success" ? "#389E0D" : "#CF1322",
+            backgroundColor: message.type === "success" ? "#F6FFED" : "#FFF1F0",
+            border: `1px solid ${message.type === "success" ? "#B7EB8F" : "#FFCCC7"}`,
+            borderRadius: "2px",
+          }}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Lista */}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "8px" }}>
+        <span style={{ fontSize: "13px", color: "#595959" }}>
+          {loading ? "Cargando usuarios..." : `${users.length} usuarios`}
+        </span>
+        <button onClick={loadUsers} disabled={loading} style={buttonStyle("#595959", loading)}>
+          Recargar
+        </button>
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "12px" }}>
+        <thead>
+          <tr style={{ backgroundColor: "#FAFAFA", borderBottom: "2px solid #EAEAEA" }}>
+            <th style={{ padding: "6px 8px", textAlign: "left" }}>Usuario</th>
+            <th style={{ padding: "6px 8px", textAlign: "left" }}>Rol</th>
+            <th style={{ padding: "6px 8px", textAlign: "left" }}>Último acceso</th>
+            <th style={{ padding: "6px 8px", textAlign: "left" }}>Estado</th>
+            <th style={{ padding: "6px 8px", textAlign: "right" }}>Acciones</th>
+          </tr>
+        </thead>
+        <tbody>
+          {users.map((user) => {
+            const edit = edits[user.uid];
+            const busy = busyUid === user.uid;
+            const isSelf = user.uid === currentUid;
+            const editRole = edit?.role ?? user.role ?? "user";
+
+            return (
+              <tr
+                key={user.uid}
+                style={{ borderBottom: "1px solid #EAEAEA", opacity: user.disabled ? 0.6 : 1 }}
+              >
+                <td style={{ padding: "6px 8px" }}>
+                  <div>{user.email || user.displayName || "—"}</div>
+                  <div style={{ fontSize: "11px", color: "#8C8C8C", fontFamily: "monospace" }}>{user.uid}</div>
+                </td>
+                <td style={{ padding: "6px 8px", minWidth: "220px" }}>
+                  <div style={{ display: "flex", gap: "4px" }}>
+                    <select
+                      value={editRole}
+                      disabled={busy || isSelf}
+                      onChange={(e) =>
+                        setEdits({
+                          ...edits,
+                          [user.uid]: {
+                            role: e.target.value as UserRole | "user",
+                            municipios: edit?.municipios ?? user.municipioIds.join(", "),
+                          },
+                        })
+                      }
+                      style={inputStyle}
+                    >
+                      {ROLE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    {edit && (
+                      <button
+                        onClick={() => handleSaveRole(user)}
+                        disabled={busy || (edit.role === "visor" && parseMunicipios(edit.municipios).length === 0)}
+                        style={buttonStyle("#1890FF", busy)}
+                      >
+                        Guardar
+                      </button>
+                    )}
+                  </div>
+                  {editRole === "visor" &&
+                    (edit ? (
+                      <input
+                        value={edit.municipios}
+                        onChange={(e) => setEdits({ ...edits, [user.uid]: { ...edit, municipios: e.target.value } })}
+                        placeholder="alcala, getafe"
+                        style={{ ...inputStyle, marginTop: "4px" }}
+                      />
+                    ) : (
+                      <div style={{ fontSize: "11px", color: "#595959", marginTop: "4px" }}>
+                        {user.municipioIds.join(", ") || "Sin municipios"}
+                      </div>
+                    ))}
+                </td>
+                <td style={{ padding: "6px 8px", whiteSpace: "nowrap" }}>
+                  {formatDate(user.lastSignInTime)}
+                  <div style={{ fontSize: "11px", color: "#8C8C8C" }}>Alta: {formatDate(user.creationTime)}</div>
+                </td>
+                <td style={{ padding: "6px 8px" }}>
+                  <span style={{ color: user.disabled ? "#CF1322" : "#389E0D", fontWeight: 500 }}>
+                    {user.disabled ? "Deshabilitado" : "Activo"}
+                  </span>
+                </td>
+                <td style={{ padding: "6px 8px", textAlign: "right" }}>
+                  <div style={{ display: "inline-flex", gap: "4px" }}>
+                    <button
+                      onClick={() => handleToggleDisabled(user)}
+                      disabled={busy || isSelf}
+                      style={buttonStyle(user.disabled ? "#52C41A" : "#FF4D4F", busy || isSelf)}
+                    >
+                      {user.disabled ? "Habilitar" : "Deshabilitar"}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(user)}
+                      disabled={busy || user.disabled}
+                      style={buttonStyle("#FA8C16", busy || user.disabled)}
+                    >
+                      Revocar sesiones
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
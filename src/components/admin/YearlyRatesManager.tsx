@@ -10,19 +10,62 @@ import { useState, useEffect } from "react";
 import { collection, getDocs, orderBy, query } from "firebase/firestore";
 import { db, functions } from "@/lib/firebase";
 import { httpsCallable } from "firebase/functions";
+import type { ProrationMode, ServiceRates, ServiceType } from "@/lib/api";
+import { SERVICE_TYPE_LABELS } from "@/components/PanelServicesModal";
 
 interface Rate {
   year: string;
   importe: number;
+  modoProrrateo?: ProrationMode;
+  servicios?: ServiceRates; // Tarifas mensuales de servicios recurrentes
   updatedAt?: string;
   updatedBy?: string;
 }
 
+const PRORATION_LABELS: Record<ProrationMode, string> = {
+  COMERCIAL_30: "Comercial (30 días)",
+  NATURAL: "Natural (días reales)",
+};
+
+const SERVICE_TYPES = Object.keys(SERVICE_TYPE_LABELS) as ServiceType[];
+
+type ServiceInputs = Record<ServiceType, string>;
+
+const EMPTY_SERVICE_INPUTS: ServiceInputs = { MANTENIMIENTO: "", CONECTIVIDAD: "", CONTENIDOS: "" };
+
+const toServiceInputs = (servicios?: ServiceRates): ServiceInputs => ({
+  MANTENIMIENTO: servicios?.MANTENIMIENTO?.toString() ?? "",
+  CONECTIVIDAD: servicios?.CONECTIVIDAD?.toString() ?? "",
+  CONTENIDOS: servicios?.CONTENIDOS?.toString() ?? "",
+});
+
+// Campos vacíos = servicio sin tarifa (se factura a 0€)
+const parseServiceInputs = (inputs: ServiceInputs): ServiceRates | null => {
+  const servicios: ServiceRates = {};
+  for (const tipo of SERVICE_TYPES) {
+    if (inputs[tipo].trim() === "") continue;
+    const value = parseFloat(inputs[tipo]);
+    if (isNaN(value) || value < 0) return null;
+    servicios[tipo] = value;
+  }
+  return servicios;
+};
+
+const prorationSelectStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  fontSize: "13px",
+  border: "1px solid #D9D9D9",
+  borderRadius: "2px",
+  backgroundColor: "#FFF",
+};
+
 export default function YearlyRatesManager() {
   const [rates, setRates] = useState<Rate[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingYear, setEditingYear] = useState<string | null>(null);
   const [editAmount, setEditAmount] = useState<string>("");
+  const [editMode, setEditMode] = useState<ProrationMode>("COMERCIAL_30");
+  const [editServices, setEditServices] = useState<ServiceInputs>(EMPTY_SERVICE_INPUTS);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -31,6 +74,8 @@ export default function YearlyRatesManager() {
   const [isCreating, setIsCreating] = useState(false);
   const [newYear, setNewYear] = useState<string>("");
   const [newAmount, setNewAmount] = useState<string>("");
+  const [newMode, setNewMode] = useState<ProrationMode>("COMERCIAL_30");
+  const [newServices, setNewServices] = useState<ServiceInputs>(EMPTY_SERVICE_INPUTS);
 
   const currentYear = new Date().getFullYear();
 
@@ -62,6 +107,8 @@ export default function YearlyRatesManager() {
   const handleEdit = (rate: Rate) => {
     setEditingYear(rate.year);
     setEditAmount(rate.importe.toString());
+    setEditMode(rate.modoProrrateo ?? "COMERCIAL_30");
+    setEditServices(toServiceInputs(rate.servicios));
     setError(null);
     setSuccess(null);
   };
@@ -77,6 +124,8 @@ export default function YearlyRatesManager() {
     setIsCreating(true);
     setNewYear("");
     setNewAmount("");
+    setNewMode("COMERCIAL_30");
+    setNewServices(EMPTY_SERVICE_INPUTS);
     setError(null);
     setSuccess(null);
     setEditingYear(null); // Cancelar edición si está activa
@@ -103,6 +152,12 @@ export default function YearlyRatesManager() {
       return;
     }
 
+    const servicios = parseServiceInputs(newServices);
+    if (!servicios) {
+      setError("Las tarifas de servicios deben ser números mayores o iguales a 0");
+      return;
+    }
+
     // Verificar que el año no exista ya
     if (rates.some((r) => r.year === newYear)) {
       setError(`El año ${newYear} ya existe. Usa el botón Editar para modificarlo.`);
@@ -115,11 +170,11 @@ export default function YearlyRatesManager() {
 
     try {
       const updateRateFn = httpsCallable<
-        { year: string; amount: number },
+        { year: string; amount: number; modoProrrateo: ProrationMode; servicios: ServiceRates },
         { success: boolean; message: string }
       >(functions, "updateYearlyRate");
 
-      const result = await updateRateFn({ year: newYear, amount });
+      const result = await updateRateFn({ year: newYear, amount, modoProrrateo: newMode, servicios });
 
       if (result.data.success) {
         setSuccess(`Tarifa ${newYear} creada con ${amount.toFixed(2)}€`);
@@ -146,20 +201,26 @@ export default function YearlyRatesManager() {
       return;
     }
 
+    const servicios = parseServiceInputs(editServices);
+    if (!servicios) {
+      setError("Las tarifas de servicios deben ser números mayores o iguales a 0");
+      return;
+    }
+
     setSaving(true);
     setError(null);
     setSuccess(null);
 
     try {
       const updateRateFn = httpsCallable<
-        { year: string; amount: number },
+        { year: string; amount: number; modoProrrateo: ProrationMode; servicios: ServiceRates },
         { success: boolean; message: string }
       >(functions, "updateYearlyRate");
 
-      const result = await updateRateFn({ year, amount });
+      const result = await updateRateFn({ year, amount, modoProrrateo: editMode, servicios });
 
       if (result.data.success) {
-        setSuccess(`Tarifa ${year} actualizada a ${amount}€`);
+        setSuccess(result.data.message || `Tarifa ${year} actualizada a ${amount}€`);
         await loadRates();
         setEditingYear(null);
         setEditAmount("");
@@ -201,6 +262,36 @@ export default function YearlyRatesManager() {
     return yearNum >= currentYear;
   };
 
+  const renderServiceInputs = (
+    values: ServiceInputs,
+    onChange: (values: ServiceInputs) => void,
+    borderColor: string
+  ) => (
+    <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+      {SERVICE_TYPES.map((tipo) => (
+        <label key={tipo} style={{ display: "flex", alignItems: "center", gap: "6px", fontSize: "11px" }}>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={values[tipo]}
+            onChange={(e) => onChange({ ...values, [tipo]: e.target.value })}
+            disabled={saving}
+            style={{
+              width: "70px",
+              padding: "4px 6px",
+              fontSize: "12px",
+              border: `1px solid ${borderColor}`,
+              borderRadius: "2px",
+              textAlign: "right",
+            }}
+          />
+          {SERVICE_TYPE_LABELS[tipo]}
+        </label>
+      ))}
+    </div>
+  );
+
   if (loading) {
     return (
       <div style={{ padding: "16px", fontSize: "14px", color: "#595959" }}>
@@ -333,6 +424,26 @@ export default function YearlyRatesManager() {
             >
               Tarifa (€)
             </th>
+            <th
+              style={{
+                padding: "12px",
+                textAlign: "left",
+                fontWeight: 600,
+                color: "#000",
+              }}
+            >
+              Prorrateo
+            </th>
+            <th
+              style={{
+                padding: "12px",
+                textAlign: "left",
+                fontWeight: 600,
+                color: "#000",
+              }}
+            >
+              Servicios (€/mes)
+            </th>
             <th
               style={{
                 padding: "12px",
@@ -400,6 +511,23 @@ export default function YearlyRatesManager() {
                   }}
                 />
               </td>
+              <td style={{ padding: "12px" }}>
+                <select
+                  value={newMode}
+                  onChange={(e) => setNewMode(e.target.value as ProrationMode)}
+                  disabled={saving}
+                  style={{ ...prorationSelectStyle, border: "1px solid #52C41A" }}
+                >
+                  {(Object.keys(PRORATION_LABELS) as ProrationMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {PRORATION_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td style={{ padding: "12px" }}>
+                {renderServiceInputs(newServices, setNewServices, "#52C41A")}
+              </td>
               <td style={{ padding: "12px", fontSize: "12px", color: "#52C41A", fontWeight: 500 }}>
                 🆕 Nuevo
               </td>
@@ -484,6 +612,35 @@ export default function YearlyRatesManager() {
                     `${rate.importe.toFixed(2)}€`
                   )}
                 </td>
+                <td style={{ padding: "12px", fontSize: "12px" }}>
+                  {isEditing ? (
+                    <select
+                      value={editMode}
+                      onChange={(e) => setEditMode(e.target.value as ProrationMode)}
+                      disabled={saving}
+                      style={prorationSelectStyle}
+                    >
+                      {(Object.keys(PRORATION_LABELS) as ProrationMode[]).map((mode) => (
+                        <option key={mode} value={mode}>
+                          {PRORATION_LABELS[mode]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    PRORATION_LABELS[rate.modoProrrateo ?? "COMERCIAL_30"]
+                  )}
+                </td>
+                <td style={{ padding: "12px", fontSize: "12px" }}>
+                  {isEditing ? (
+                    renderServiceInputs(editServices, setEditServices, "#D9D9D9")
+                  ) : (
+                    SERVICE_TYPES.filter((tipo) => rate.servicios?.[tipo] !== undefined).map((tipo) => (
+                      <div key={tipo}>
+                        {SERVICE_TYPE_LABELS[tipo]}: {rate.servicios![tipo]!.toFixed(2)}€
+                      </div>
+                    ))
+                  )}
+                </td>
                 <td style={{ padding: "12px", fontSize: "12px" }}>
                   {status}
                 </td>
@@ -574,6 +731,16 @@ export default function YearlyRatesManager() {
             Los paneles heredan su tarifa del mes anterior (respetando precios
             personalizados)
           </li>
+          <li>
+            Prorrateo comercial: un mes completo son siempre 30 días. Natural:
+            se facturan los días reales del mes (28-31). Cambiar el modo
+            recalcula los meses abiertos del año
+          </li>
+          <li>
+            Servicios: tarifa mensual de cada servicio recurrente (mantenimiento,
+            conectividad, contenidos) que se da de alta en el panel. Cambiarlas
+            recalcula los meses abiertos del año
+          </li>
           <li>
             Para cambiar la tarifa de un panel específico, usa la acción
             "Cambio de Tarifa" desde el dashboard
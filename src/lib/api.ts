@@ -4,7 +4,7 @@
  */
 
 import { collection, query, where, getDocs, doc, getDoc, updateDoc } from "firebase/firestore";
-import { db, callableFunction } from "./firebase";
+import { db, callableFunction, UserRole } from "./firebase";
 
 // Helpers internos de tiempo
 function sleep(ms: number) { return new Promise((r) => setTimeout(r, ms)); }
@@ -29,17 +29,311 @@ export interface BillingMonthlyPanel {
   panelId: string;
   monthKey: string;
   codigo: string;
+  otrosCodigos?: string[]; // Resto de códigos del panel (renumeraciones), para buscar por cualquiera
   municipio: string;
   totalDiasFacturables: number;
   totalImporte: number;
   estadoAlCierre: "ACTIVO" | "DESMONTADO" | "BAJA";
   tarifaAplicada: number;
+  contratoId?: string | null; // Contrato del que sale la tarifa (null = tarifa estándar)
+  origenTarifa?: "CONTRATO" | "ESTANDAR";
+  modoProrrateo?: ProrationMode;
+  diasMes?: number; // Días de un mes completo (30 en COMERCIAL_30)
+  importeRectificaciones?: number; // Diferencias de meses cerrados incluidas en totalImporte
+  importeServicios?: number; // Servicios recurrentes incluidos en totalImporte
+  desglose?: BillingBreakdownLine[]; // Servicio base + servicios recurrentes
+  tramosTarifa?: RateSegment[]; // Tramos del servicio base si hubo CAMBIO_TARIFA a mitad de mes
   updatedAt: any;
 }
 
+export interface RateSegment {
+  desde: number;
+  hasta: number;
+  tarifa: number;
+  dias: number;
+  importe: number;
+}
+
+export type ProrationMode = "COMERCIAL_30" | "NATURAL";
+
+export type ServiceType = "MANTENIMIENTO" | "CONECTIVIDAD" | "CONTENIDOS";
+
+export type ServiceRates = Partial<Record<ServiceType, number>>;
+
+export type RevisionClauseType = "NINGUNA" | "IPC" | "PORCENTAJE_FIJO";
+
+export interface ContractInput {
+  contractId?: string; // Ausente = contrato nuevo
+  codigo: string;
+  cliente: { nif: string; razonSocial: string };
+  municipioIds: string[];
+  panelCodigos: string[];
+  tarifas: Record<string, { importe: number; servicios?: ServiceRates }>;
+  fechaInicio: string; // YYYY-MM-DD
+  fechaFin: string | null;
+  clausulaRevision: {
+    tipo: RevisionClauseType;
+    porcentaje: number | null;
+    mesAplicacion: number; // 1-12
+  };
+  notas: string;
+}
+
+export interface Contract extends Omit<ContractInput, "contractId"> {
+  id: string;
+  updatedAt?: any;
+  updatedBy?: string;
+}
+
+export interface PriceRevisionItem {
+  clave: string; // "ESTANDAR" o ID del contrato
+  tipo: "ESTANDAR" | "CONTRATO";
+  codigo: string;
+  importeActual: number;
+  importePropuesto: number;
+  porcentajeAplicado: number;
+  formula: string;
+  paneles: number;
+  importeMesActual: number;
+  importeMesPropuesto: number;
+  diferenciaAnual: number;
+}
+
+export interface PriceRevision {
+  id: string;
+  targetYear: string;
+  baseYear: string;
+  variacionIndice: number;
+  fuenteIndice: {
+    tipo: "MANUAL" | "CSV";
+    periodoDesde: string | null;
+    periodoHasta: string | null;
+    valorDesde: number | null;
+    valorHasta: number | null;
+  };
+  lastMonthKey: string | null;
+  items: PriceRevisionItem[];
+  omitidos: string[];
+  totales: { importeMesActual: number; importeMesPropuesto: number; diferenciaAnual: number };
+  estado: "PROPUESTA" | "APLICADA" | "DESCARTADA";
+  createdBy: string;
+  itemsAplicados: string[];
+}
+
+export type ScheduledEventAction = "DESMONTADO" | "REINSTALACION" | "BAJA";
+
+export interface ScheduledPanelEvent {
+  id: string;
+  panelId: string;
+  codigo: string;
+  municipioId: string;
+  action: ScheduledEventAction;
+  effectiveDateLocal: string;
+  monthKey: string;
+  motivo: string;
+  estado: "PENDIENTE" | "APLICADO" | "CANCELADO";
+  createdBy: string;
+  updatedBy: string;
+}
+
+export interface BulkEventRowResult {
+  fila: number;
+  codigo: string;
+  action: "DESMONTADO" | "REINSTALACION" | "BAJA" | null;
+  effectiveDateLocal: string | null;
+  monthKey: string | null;
+  motivo: string;
+  panelId: string | null;
+  estado: "VALIDA" | "ERROR" | "REGISTRADA";
+  error?: string;
+  eventId?: string;
+}
+
+export type TaskQueueName = "process-panel-event" | "update-summary";
+
+/** Tarea de la cola que agotó sus reintentos (taskDeadLetters) */
+export interface TaskDeadLetter {
+  id: string;
+  queue: TaskQueueName;
+  payload: Record<string, string>;
+  taskId: string | null;
+  attempts: number;
+  lastError: string;
+  backend: "CLOUD_TASKS" | "LOCAL";
+  estado: "PENDIENTE" | "REENVIANDO" | "REENVIADA" | "DESCARTADA";
+  createdAt: Date;
+  resolvedBy?: string;
+}
+
+export type ApprovalOperation =
+  | "DELETE_PANEL"
+  | "DELETE_MONTH"
+  | "DELETE_MONTH_DATA"
+  | "DELETE_ALL_PANEL_EVENTS"
+  | "CLEANUP_DUPLICATE_PANELS"
+  | "MERGE_PANELS";
+
+export type ApprovalStatus =
+  | "PENDIENTE"
+  | "APROBADA"
+  | "EJECUTADA"
+  | "FALLIDA"
+  | "RECHAZADA"
+  | "CANCELADA"
+  | "CADUCADA";
+
+export interface ApprovalImpact {
+  descripcion: string;
+  meses: string[];
+  eventos: number;
+  filasFacturacion: number;
+  paneles: number;
+  importeEliminado: number;
+}
+
+/** Solicitud de operación destructiva pendiente de un segundo admin (approvalRequests) */
+export interface ApprovalRequest {
+  id: string;
+  operation: ApprovalOperation;
+  payload: Record<string, string>;
+  impacto: ApprovalImpact;
+  motivo: string;
+  estado: ApprovalStatus;
+  requestedBy: string;
+  requestedByUid: string;
+  requestedAt: Date;
+  expiresAt: Date;
+  resolvedBy: string | null;
+  resolvedAt: Date | null;
+  error: string | null;
+  historial: Array<{ estado: ApprovalStatus; por: string; en: Date; comentario?: string }>;
+}
+
+/** Respuesta de las operaciones destructivas: quedan pendientes de aprobación */
+export interface ApprovalRequestCreated {
+  success: boolean;
+  pendingApproval: true;
+  approvalRequestId: string;
+  impacto: ApprovalImpact;
+  expiresAt: string;
+}
+
+export type AuditAction =
+  | "PANEL_CREATE"
+  | "PANEL_DELETE"
+  | "PANEL_EVENT_CREATE"
+  | "PANEL_EVENT_UPDATE"
+  | "PANEL_EVENT_DELETE"
+  | "PANEL_EVENTS_DELETE_ALL"
+  | "PANEL_SERVICE_UPDATE"
+  | "INTERVENCION_CREATE"
+  | "RECTIFICACION_CREATE"
+  | "EVENTS_IMPORT"
+  | "SCHEDULED_EVENT_SAVE"
+  | "SCHEDULED_EVENT_CANCEL"
+  | "DUPLICATE_PANELS_CLEANUP"
+  | "PANEL_MERGE"
+  | "PANEL_CODE_CHANGE"
+  | "MONTH_CREATE"
+  | "MONTH_CLOSE"
+  | "MONTH_LOCK_TOGGLE"
+  | "MONTH_DELETE"
+  | "MONTH_DATA_DELETE"
+  | "MONTH_RESYNC"
+  | "MONTH_REGENERATE"
+  | "MONTH_IMPORT_BASE"
+  | "MONTH_DUPLICATES_CLEAN"
+  | "RATE_UPDATE"
+  | "CONTRACT_SAVE"
+  | "CONTRACT_DELETE"
+  | "PRICE_REVISION_PROPOSE"
+  | "PRICE_REVISION_RESOLVE"
+  | "INVOICES_ISSUE"
+  | "INVOICE_RECTIFY"
+  | "ROLE_CHANGE"
+  | "USER_INVITE"
+  | "USER_STATUS_CHANGE"
+  | "USER_SESSIONS_REVOKE"
+  | "DEAD_LETTER_RESOLVE"
+  | "APPROVAL_REQUEST"
+  | "APPROVAL_RESOLVE";
+
+/** Entrada del registro de auditoría (auditLogs) */
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  actor: string;
+  actorUid: string | null;
+  panelId: string | null;
+  monthKey: string | null;
+  targetId: string | null;
+  before: unknown;
+  after: unknown;
+  details: Record<string, unknown>;
+  requestId: string;
+  createdAt: string; // ISO
+}
+
+export interface AuditLogFilters {
+  actor?: string;
+  panelId?: string;
+  monthKey?: string;
+  action?: AuditAction;
+  desde?: string; // YYYY-MM-DD
+  hasta?: string; // YYYY-MM-DD
+  limit?: number;
+  cursor?: string;
+}
+
+export type ReconciliationIssue = "SOLO_CLIENTE" | "SOLO_NUESTRO" | "IMPORTE" | "MUNICIPIO" | "DUPLICADO";
+
+export interface ReconciliationLine {
+  codigoCliente: string | null;
+  codigoNuestro: string | null;
+  municipioCliente: string | null;
+  municipioNuestro: string | null;
+  importeCliente: number | null;
+  importeNuestro: number | null;
+  diferencia: number; // Nuestro - cliente
+  incidencias: ReconciliationIssue[];
+  linea: number | null; // Línea del listado del cliente
+}
+
+export interface ReconciliationResult {
+  monthKey: string;
+  fileName: string | null;
+  resumen: {
+    filasCliente: number;
+    panelesFacturados: number;
+    coincidentes: number;
+    soloCliente: number;
+    soloNuestro: number;
+    diferenciasImporte: number;
+    diferenciasMunicipio: number;
+    duplicados: number;
+    totalCliente: number;
+    totalNuestro: number;
+    totalDeclarado: number | null;
+  };
+  lineas: ReconciliationLine[];
+  erroresFormato: Array<{ linea: number; error: string }>;
+}
+
+export interface BillingBreakdownLine {
+  servicioId: string; // "BASE" para el servicio base del panel
+  tipo: ServiceType | "BASE";
+  descripcion: string;
+  dias: number;
+  tarifa: number;
+  importe: number;
+  estadoAlCierre: "ACTIVO" | "BAJA";
+}
+
 export interface ExecutiveReport {
   monthKey: string;
   generatedAt: string;
+  modoProrrateo?: ProrationMode;
+  diasMes?: number;
   
   resumenFinanciero: {
     totalFacturado: number;
@@ -78,6 +372,14 @@ export interface ExecutiveReport {
     municipio: string;
     importe: number;
   }>;
+
+  rectificaciones?: Array<{
+    panel: string;
+    municipio: string;
+    mesOriginal: string;
+    importe: number;
+    motivo: string;
+  }>;
 }
 
 // ============================================================================
@@ -111,18 +413,33 @@ export async function getSummary(monthKey: string): Promise<BillingSummary | nul
 /**
  * Obtiene la facturación mensual de todos los paneles (billingMonthlyPanel)
  * Usado en la tabla de paneles del Dashboard
+ * @param municipioIds - Solo para el rol visor: municipios asignados (las reglas exigen el filtro)
  */
-export async function getMonthlyBilling(monthKey: string): Promise<BillingMonthlyPanel[]> {
+export async function getMonthlyBilling(
+  monthKey: string,
+  municipioIds?: string[]
+): Promise<BillingMonthlyPanel[]> {
   try {
     const billingRef = collection(db, "billingMonthlyPanel");
-    const q = query(billingRef, where("monthKey", "==", monthKey));
-    const querySnapshot = await getDocs(q);
+    const queries = municipioIds
+      ? // "in" admite hasta 30 valores por consulta
+        Array.from({ length: Math.ceil(municipioIds.length / 30) }, (_, i) =>
+          query(
+            billingRef,
+            where("monthKey", "==", monthKey),
+            where("municipioId", "in", municipioIds.slice(i * 30, i * 30 + 30))
+          )
+        )
+      : [query(billingRef, where("monthKey", "==", monthKey))];
+    const snapshots = await Promise.all(queries.map((q) => getDocs(q)));
 
     const panels: BillingMonthlyPanel[] = [];
 
-    querySnapshot.forEach((doc) => {
-      panels.push(doc.data() as BillingMonthlyPanel);
-    });
+    snapshots.forEach((querySnapshot) =>
+      querySnapshot.forEach((doc) => {
+        panels.push(doc.data() as BillingMonthlyPanel);
+      })
+    );
 
     // Ordenar por código
     panels.sort((a, b) => a.codigo.localeCompare(b.codigo));
@@ -134,6 +451,38 @@ export async function getMonthlyBilling(monthKey: string): Promise<BillingMonthl
   }
 }
 
+/**
+ * Resumen del mes calculado desde las filas visibles (rol visor: no lee billingSummary,
+ * que suma todos los municipios)
+ */
+export function summarizePanels(monthKey: string, panels: BillingMonthlyPanel[]): BillingSummary {
+  let totalImporteCents = 0;
+  let totalPanelesFacturables = 0;
+  let panelesActivos = 0;
+  let panelesParciales = 0;
+
+  for (const panel of panels) {
+    totalImporteCents += Math.round((panel.totalImporte || 0) * 100);
+    if (panel.totalDiasFacturables > 0) totalPanelesFacturables++;
+    if (panel.totalDiasFacturables >= (panel.diasMes ?? 30)) {
+      panelesActivos++;
+    } else if (panel.totalDiasFacturables > 0) {
+      panelesParciales++;
+    }
+  }
+
+  return {
+    monthKey,
+    totalImporteMes: totalImporteCents / 100,
+    totalPanelesFacturables,
+    panelesActivos,
+    panelesParciales,
+    totalEventos: 0,
+    isLocked: false,
+    updatedAt: null,
+  };
+}
+
 // ============================================================================
 // BILLING - HELPERS
 // ============================================================================
@@ -166,10 +515,145 @@ export async function waitForBillingUpdate(
   return null;
 }
 
+// ============================================================================
+// PANEL - HISTORIAL (página de detalle)
+// ============================================================================
+
+/**
+ * Evento de un panel tal y como lo guarda panelEvents (fechas en ISO)
+ */
+export interface PanelHistoryEvent {
+  id: string;
+  action: string;
+  effectiveDateLocal: string; // YYYY-MM-DD
+  monthKey: string;
+  diasFacturables?: number;
+  importeAFacturar?: number;
+  motivo?: string | null;
+  snapshotBefore: Record<string, unknown> | null;
+  snapshotAfter: Record<string, unknown> | null;
+  isDeleted: boolean;
+  deletedAt?: string | null;
+  deletedBy?: string | null;
+  createdAt: string | null;
+  createdBy: string | null;
+  updatedBy?: string | null;
+}
+
+/**
+ * Cambio de código de un panel (changePanelCode)
+ */
+export interface PanelCodeChange {
+  codigoAnterior: string;
+  codigoNuevo: string;
+  effectiveDateLocal: string; // YYYY-MM-DD
+  monthKey: string; // Primer mes con el código nuevo
+  motivo: string | null;
+  changedBy: string;
+  changedAt: string | null;
+}
+
+export interface PanelHistory {
+  panel: Record<string, unknown> & {
+    id: string;
+    codigo: string;
+    municipio?: string;
+    municipioId?: string;
+    ubicacion?: string;
+    estadoActual?: string;
+    codigosAnteriores?: string[];
+    historialCodigos?: PanelCodeChange[]; // Renumeraciones, en orden
+  };
+  events: PanelHistoryEvent[]; // Orden cronológico, incluidos los eliminados
+  months: BillingMonthlyPanel[]; // Orden por monthKey
+}
+
+/**
+ * Historial completo de un panel: datos maestros, eventos y facturación de todos los meses
+ */
+export async function getPanelHistory(panelId: string): Promise<PanelHistory> {
+  const fn = callableFunction<{ panelId: string }, PanelHistory>("getPanelHistory");
+  const result = await fn({ panelId });
+  return result.data;
+}
+
+// ============================================================================
+// PANEL - FUSIÓN DE DUPLICADOS
+// ============================================================================
+
+/** Datos de un panel en la vista previa de la fusión */
+export interface PanelMergeSide {
+  panelId: string;
+  codigo: string;
+  municipioId: string | null;
+  municipio: string | null;
+  ubicacion: string | null;
+  estadoActual: string | null;
+  eventos: number;
+  eventosEliminados: number;
+  meses: number;
+  importeTotal: number;
+}
+
+type PanelMergeMonthState = { estadoAlCierre: string; totalDiasFacturables: number; totalImporte: number } | null;
+
+export interface PanelMergePreview {
+  superviviente: PanelMergeSide;
+  duplicado: PanelMergeSide;
+  meses: Array<{
+    monthKey: string;
+    isLocked: boolean;
+    reconstruir: boolean; // Se recalcula en el superviviente
+    superviviente: PanelMergeMonthState;
+    duplicado: PanelMergeMonthState;
+  }>;
+  eventosDuplicado: Array<{ id: string; action: string; effectiveDateLocal: string; isDeleted: boolean }>;
+  avisos: string[];
+  bloqueos: string[]; // Si hay alguno, la fusión no se puede solicitar
+}
+
+/**
+ * Paneles con un código (los duplicados comparten código)
+ */
+export async function findPanelsByCodigo(codigo: string): Promise<Array<{ id: string } & Record<string, any>>> {
+  const snapshot = await getDocs(query(collection(db, "panels"), where("codigo", "==", codigo)));
+  return snapshot.docs.map((panelDoc) => ({ id: panelDoc.id, ...panelDoc.data() }));
+}
+
+/**
+ * Vista previa lado a lado de la fusión de un panel duplicado en el superviviente
+ */
+export async function previewMergePanels(panelId: string, duplicatePanelId: string): Promise<PanelMergePreview> {
+  const fn = callableFunction<{ panelId: string; duplicatePanelId: string; dryRun: true }, any>("mergePanels");
+  const result = await fn({ panelId, duplicatePanelId, dryRun: true });
+  return result.data.preview;
+}
+
+/**
+ * Solicita la fusión (se ejecuta cuando otro admin la aprueba)
+ */
+export async function mergePanels(data: {
+  panelId: string; // Superviviente
+  duplicatePanelId: string;
+  motivo?: string;
+}): Promise<ApprovalRequestCreated> {
+  const fn = callableFunction<typeof data, ApprovalRequestCreated>("mergePanels");
+  const result = await fn(data);
+  return result.data;
+}
+
 // ============================================================================
 // PANEL EVENTS (CRUD)
 // ============================================================================
 
+/**
+ * Meses posteriores recalculados tras tocar un mes (cascada)
+ */
+export interface PanelCascadeResult {
+  updatedMonths: string[]; // En orden, p.ej. ["2025-12", "2026-01"]
+  lockedMonth: string | null; // Primer mes cerrado: la cascada se detiene ahí
+}
+
 /**
  * Solicita un cambio en un panel (crear evento)
  */
@@ -188,12 +672,44 @@ export async function requestPanelChange(data: {
   totalImporte: number;
   estadoAlCierre: "ACTIVO" | "DESMONTADO" | "BAJA";
   tarifaAplicada: number;
-} }> {
+}; cascade?: PanelCascadeResult }> {
   const fn = callableFunction<typeof data, any>("requestPanelChange");
   const result = await fn(data);
   return result.data;
 }
 
+export interface PanelChangeTotals {
+  totalDiasFacturables: number;
+  totalImporte: number;
+  estadoAlCierre: "ACTIVO" | "DESMONTADO" | "BAJA";
+  tarifaAplicada: number;
+}
+
+export interface PanelChangePreview {
+  monthKey: string;
+  action: string;
+  effectiveDateLocal: string;
+  before: PanelChangeTotals | null; // Facturación guardada actual
+  after: PanelChangeTotals & { periodos: Array<{ inicio: number; fin: number }> };
+  nextMonth: {
+    monthKey: string;
+    isLocked: boolean;
+    before: PanelChangeTotals | null;
+    after: PanelChangeTotals | null; // null si el mes siguiente está cerrado
+  } | null;
+}
+
+/**
+ * Vista previa de un cambio de panel: calcula el resultado sin guardar el evento
+ */
+export async function previewPanelChange(
+  data: Parameters<typeof requestPanelChange>[0]
+): Promise<PanelChangePreview> {
+  const fn = callableFunction<typeof data & { dryRun: true }, any>("requestPanelChange");
+  const result = await fn({ ...data, dryRun: true });
+  return result.data.preview;
+}
+
 /**
  * Actualiza un evento existente
  */
@@ -205,7 +721,7 @@ export async function updatePanelEvent(data: {
     diasFacturables?: number;
     importeAFacturar?: number;
   };
-}): Promise<{ success: boolean; eventId: string }> {
+}): Promise<{ success: boolean; eventId: string; cascade?: PanelCascadeResult }> {
   const fn = callableFunction<typeof data, any>("updatePanelEvent");
   const result = await fn(data);
   return result.data;
@@ -217,31 +733,21 @@ export async function updatePanelEvent(data: {
 export async function deletePanelEvent(data: {
   panelId: string;
   eventId: string;
-}): Promise<{ success: boolean; eventId: string }> {
+}): Promise<{ success: boolean; eventId: string; cascade?: PanelCascadeResult }> {
   const fn = callableFunction<typeof data, any>("deletePanelEvent");
   const result = await fn(data);
   return result.data;
 }
 
 /**
- * Elimina todos los eventos de un panel en un mes y recalcula
+ * Solicita eliminar todos los eventos de un panel en un mes (y recalcular).
+ * Se ejecuta cuando otro admin aprueba la solicitud
  */
 export async function deleteAllPanelEvents(data: {
   panelId: string;
   monthKey: string;
-}): Promise<{
-  success: boolean;
-  panelId: string;
-  monthKey: string;
-  deleted: number;
-  message: string;
-  totals?: {
-    totalDiasFacturables: number;
-    totalImporte: number;
-    estadoAlCierre: "ACTIVO" | "DESMONTADO" | "BAJA";
-    tarifaAplicada: number;
-  };
-}> {
+  motivo?: string;
+}): Promise<ApprovalRequestCreated> {
   const fn = callableFunction<typeof data, any>("deleteAllPanelEvents");
   const result = await fn(data);
   return result.data;
@@ -256,13 +762,139 @@ export async function deleteAllPanelEvents(data: {
  */
 export async function generateReport(data: {
   monthKey: string;
-  type: "pdf" | "excel";
-}): Promise<{ success: boolean; url: string; fileName: string; expiresAt: string }> {
+  type: "pdf" | "excel" | "facturae";
+}): Promise<{
+  success: boolean;
+  url: string;
+  fileName: string;
+  expiresAt: string;
+  files?: Array<{ numero: string; municipio: string; fileName: string; url: string }>; // Solo facturae
+}> {
   const fn = callableFunction<typeof data, any>("generateReport");
   const result = await fn(data);
   return result.data;
 }
 
+/**
+ * Concilia el listado mensual del cliente (Municipio;Código Parada;Facturación)
+ * con la facturación del mes
+ */
+export async function reconcileCustomerListing(data: {
+  monthKey: string;
+  csv: string;
+  fileName?: string;
+}): Promise<ReconciliationResult> {
+  const fn = callableFunction<typeof data, ReconciliationResult>("reconcileCustomerListing");
+  const result = await fn(data);
+  return result.data;
+}
+
+// ============================================================================
+// INVOICES (Facturación formal)
+// ============================================================================
+
+export interface FiscalParty {
+  nif: string;
+  razonSocial: string;
+  direccion: string;
+  codigoPostal: string;
+  municipio: string;
+  provincia: string;
+  pais: string;
+}
+
+export interface InvoiceLine {
+  tipo: "SERVICIO" | "INTERVENCION" | "AJUSTE";
+  panelId: string | null;
+  codigo: string | null;
+  eventId: string | null;
+  servicioId?: string | null;
+  concepto: string;
+  cantidad: number;
+  precioUnitario: number;
+  importe: number;
+}
+
+export interface Invoice {
+  id: string;
+  numero: string;
+  serie: string;
+  year: number;
+  secuencia: number;
+  tipo: "ORDINARIA" | "RECTIFICATIVA";
+  monthKey: string;
+  municipioId: string;
+  municipio: string;
+  emisor: FiscalParty;
+  receptor: FiscalParty;
+  lineas: InvoiceLine[];
+  baseImponible: number;
+  ivaPorcentaje: number;
+  cuotaIva: number;
+  total: number;
+  fechaEmision: string;
+  createdBy: string;
+  rectifica: {
+    invoiceId: string;
+    numero: string;
+    modo: RectificationMode;
+    motivo: string;
+  } | null;
+}
+
+export type RectificationMode = "ANULACION" | "DIFERENCIAS" | "RECALCULO";
+
+export interface IssueMonthInvoicesResult {
+  emitidas: Array<{ invoiceId: string; numero: string; municipio: string; total: number }>;
+  yaEmitidas: number;
+  pendientesRectificar: Array<{ invoiceId: string; numero: string; municipio: string; diferencia: number }>;
+  errores: Array<{ municipioId: string; error: string }>;
+}
+
+/**
+ * Lista las facturas emitidas de un mes (ordinarias y rectificativas)
+ */
+export async function getInvoices(monthKey: string): Promise<Invoice[]> {
+  const fn = callableFunction<{ monthKey: string }, { monthKey: string; invoices: Invoice[] }>("getInvoices");
+  const result = await fn({ monthKey });
+  return result.data.invoices;
+}
+
+/**
+ * Emite (o completa) las facturas de un mes cerrado
+ */
+export async function issueMonthInvoices(monthKey: string): Promise<IssueMonthInvoicesResult & {
+  success: boolean;
+  monthKey: string;
+}> {
+  const fn = callableFunction<{ monthKey: string }, any>("issueMonthInvoices");
+  const result = await fn({ monthKey });
+  return result.data;
+}
+
+/**
+ * Emite una factura rectificativa sobre una factura ordinaria
+ */
+export async function createRectifyingInvoice(data: {
+  invoiceId: string;
+  modo: RectificationMode;
+  motivo: string;
+  lineas?: Array<{ concepto: string; importe: number; panelId?: string }>;
+}): Promise<{ success: boolean; invoiceId: string; numero: string; baseImponible: number; total: number }> {
+  const fn = callableFunction<typeof data, any>("createRectifyingInvoice");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Genera el PDF de una factura emitida y devuelve su URL
+ */
+export async function generateInvoicePdf(invoiceId: string): Promise<{ success: boolean; url: string; fileName: string }> {
+  const fn = callableFunction<{ invoiceId: string }, any>("generateInvoicePdf");
+  const result = await fn({ invoiceId });
+  return result.data;
+}
+
 // ============================================================================
 // ADMIN
 // ============================================================================
@@ -295,12 +927,13 @@ export async function importBaseMonth(data: {
 }
 
 /**
- * Asigna un rol a un usuario
+ * Asigna un rol a un usuario ("user" = sin rol; el visor necesita municipioIds)
  */
 export async function setUserRole(data: {
   uid: string;
-  role: "admin" | "user";
-}): Promise<{ success: boolean; uid: string; role: string }> {
+  role: UserRole | "user";
+  municipioIds?: string[];
+}): Promise<{ success: boolean; uid: string; role: string; municipioIds: string[] }> {
   const fn = callableFunction<typeof data, any>("setUserRole");
   const result = await fn(data);
   return result.data;
@@ -327,6 +960,7 @@ export async function createNextMonth(monthKey: string): Promise<{
   monthKey: string;
   panelsCreated: number;
   previousMonthKey: string;
+  scheduledEventsApplied: number;
 }> {
   const fn = callableFunction<{ monthKey: string }, any>("createNextMonth");
   const result = await fn({ monthKey });
@@ -334,28 +968,84 @@ export async function createNextMonth(monthKey: string): Promise<{
 }
 
 /**
- * Cierra o abre un mes (toggle isLocked)
+ * Reabre un mes cerrado (el cierre se hace con closeMonth)
  */
 export async function toggleMonthLock(monthKey: string, isLocked: boolean): Promise<{
   success: boolean;
   monthKey: string;
   isLocked: boolean;
+  warning?: string;
 }> {
   const fn = callableFunction<{ monthKey: string; isLocked: boolean }, any>("toggleMonthLock");
   const result = await fn({ monthKey, isLocked });
   return result.data;
 }
 
+export type MonthCloseCheckId =
+  | "TOTALES_RESUMEN"
+  | "ACTIVOS_SIN_IMPORTE"
+  | "CODIGOS_DUPLICADOS"
+  | "PANELES_SIN_FACTURACION"
+  | "TAREAS_FALLIDAS";
+
+export interface MonthCloseCheck {
+  id: MonthCloseCheckId;
+  titulo: string;
+  ok: boolean;
+  detalle: string;
+  muestras: string[];
+}
+
+export interface MonthCloseChecksResult {
+  monthKey: string;
+  checks: MonthCloseCheck[];
+  totals: {
+    totalImporteMes: number;
+    totalPanelesFacturables: number;
+    panelesActivos: number;
+    panelesParciales: number;
+    totalPaneles: number;
+  };
+  totalsFingerprint: string;
+  canClose: boolean;
+}
+
+/**
+ * Ejecuta las comprobaciones previas al cierre del mes (asistente de cierre)
+ */
+export async function getMonthCloseChecks(monthKey: string): Promise<MonthCloseChecksResult> {
+  const fn = callableFunction<{ monthKey: string }, MonthCloseChecksResult>("getMonthCloseChecks");
+  const result = await fn({ monthKey });
+  return result.data;
+}
+
 /**
- * Elimina un mes completo (billing, events, summary)
+ * Cierra el mes: las comprobaciones fallidas deben ir dispensadas con comentario
  */
-export async function deleteMonth(monthKey: string): Promise<{
+export async function closeMonth(data: {
+  monthKey: string;
+  waivers: Array<{ checkId: MonthCloseCheckId; comment: string }>;
+  expectedFingerprint?: string;
+}): Promise<{
   success: boolean;
   monthKey: string;
-  deleted: { panels: number; events: number; summary: number };
+  isLocked: boolean;
+  closeId: string;
+  totalsFingerprint: string;
+  invoicing: IssueMonthInvoicesResult | { error: string };
 }> {
-  const fn = callableFunction<{ monthKey: string }, any>("deleteMonth");
-  const result = await fn({ monthKey });
+  const fn = callableFunction<typeof data, any>("closeMonth");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Solicita eliminar un mes completo (billing, events, summary).
+ * Se ejecuta cuando otro admin aprueba la solicitud
+ */
+export async function deleteMonth(monthKey: string, motivo?: string): Promise<ApprovalRequestCreated> {
+  const fn = callableFunction<{ monthKey: string; motivo?: string }, any>("deleteMonth");
+  const result = await fn({ monthKey, motivo });
   return result.data;
 }
 
@@ -375,28 +1065,49 @@ export async function resyncMonthFromPrevious(monthKey: string): Promise<{
 }
 
 /**
- * Elimina completamente un panel y todos sus datos relacionados
+ * Solicita eliminar completamente un panel y todos sus datos relacionados.
+ * Se ejecuta cuando otro admin aprueba la solicitud
  * ATENCIÓN: Esta operación es IRREVERSIBLE
  */
 export async function deletePanel(data: {
   panelId: string;
   confirmCode: string;
-}): Promise<{
-  success: boolean;
-  message: string;
-  details: {
-    panelId: string;
-    codigo: string;
-    eventsDeleted: number;
-    billingDocsDeleted: number;
-    affectedMonths: string[];
-  };
-}> {
+  motivo?: string;
+}): Promise<ApprovalRequestCreated> {
   const fn = callableFunction<typeof data, any>("deletePanel");
   const result = await fn(data);
   return result.data;
 }
 
+/**
+ * Fila reconstruida por getBillingAsOf (estado de la facturación en una fecha)
+ */
+export interface BillingAsOfPanel extends Omit<BillingMonthlyPanel, "updatedAt"> {
+  revisionId: string | null;
+  revisionAt: string | null;
+  sinHistorial: boolean; // Fila anterior al historial de revisiones (valor actual)
+}
+
+export interface BillingAsOfResult {
+  monthKey: string;
+  asOf: string;
+  summary: Omit<BillingSummary, "updatedAt">;
+  panels: BillingAsOfPanel[];
+  revisionsConsidered: number;
+  panelesSinHistorial: number;
+  panelesNoReconstruibles: string[];
+}
+
+/**
+ * Reconstruye la facturación de un mes tal y como estaba en una fecha
+ * (historial inmutable billingRevisions)
+ */
+export async function getBillingAsOf(monthKey: string, timestamp: string): Promise<BillingAsOfResult> {
+  const fn = callableFunction<{ monthKey: string; timestamp: string }, BillingAsOfResult>("getBillingAsOf");
+  const result = await fn({ monthKey, timestamp });
+  return result.data;
+}
+
 /**
  * Genera un informe ejecutivo financiero del mes
  */
@@ -426,3 +1137,277 @@ export async function createIntervencion(data: {
   const result = await fn(data);
   return result.data;
 }
+
+/**
+ * Registra una rectificación sobre un mes cerrado
+ * La diferencia se factura en el mes abierto (por defecto el último)
+ */
+export async function createRectificacion(data: {
+  panelId: string;
+  monthKeyOriginal: string;
+  importe: number;
+  motivo: string;
+  targetMonthKey?: string;
+}): Promise<{
+  status: string;
+  eventId: string;
+  targetMonthKey: string;
+  idempotencyKey: string;
+}> {
+  const fn = callableFunction<typeof data, any>("createRectificacion");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Crea o actualiza un contrato y recalcula los meses abiertos de sus paneles
+ */
+export async function saveContract(data: ContractInput): Promise<{
+  success: boolean;
+  contractId: string;
+  panelsRecalculated: number;
+  monthsAffected: string[];
+}> {
+  const fn = callableFunction<ContractInput, any>("saveContract");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Elimina un contrato (sus paneles vuelven a la tarifa estándar en meses abiertos)
+ */
+export async function deleteContract(contractId: string): Promise<{
+  success: boolean;
+  panelsRecalculated: number;
+  monthsAffected: string[];
+}> {
+  const fn = callableFunction<{ contractId: string }, any>("deleteContract");
+  const result = await fn({ contractId });
+  return result.data;
+}
+
+/**
+ * Propone la revisión anual de precios (IPC) para el año indicado.
+ * Variación manual o CSV local de valores del índice con los periodos a comparar.
+ */
+export async function proposePriceRevision(data: {
+  targetYear: string;
+  variacionIndice?: number;
+  indexCsv?: string;
+  periodoDesde?: string;
+  periodoHasta?: string;
+}): Promise<PriceRevision> {
+  const fn = callableFunction<typeof data, any>("proposePriceRevision");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Aprueba (aplica las tarifas seleccionadas) o descarta una propuesta de revisión
+ */
+export async function resolvePriceRevision(data: {
+  revisionId: string;
+  decision: "APROBAR" | "DESCARTAR";
+  claves?: string[];
+}): Promise<{
+  success: boolean;
+  estado: "APLICADA" | "DESCARTADA";
+  aplicados: Array<{ clave: string; codigo: string; importe: number; panelsUpdated: number }>;
+}> {
+  const fn = callableFunction<typeof data, any>("resolvePriceRevision");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Alta o baja de un servicio recurrente del panel (mantenimiento, conectividad, contenidos)
+ */
+export async function updatePanelService(data: {
+  panelId: string;
+  action: "ALTA" | "BAJA";
+  tipo: ServiceType;
+  servicioId?: string;
+  effectiveDateLocal: string;
+  descripcion?: string;
+}): Promise<{
+  status: string;
+  eventId: string;
+  servicioId: string;
+  idempotencyKey: string;
+}> {
+  const fn = callableFunction<typeof data, any>("updatePanelService");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Cambia el código del panel desde una fecha efectiva (renumeración).
+ * Los meses cerrados conservan el código anterior.
+ */
+export async function changePanelCode(data: {
+  panelId: string;
+  nuevoCodigo: string;
+  effectiveDateLocal: string;
+  motivo?: string;
+}): Promise<{
+  status: string;
+  codigoAnterior: string;
+  codigoNuevo: string;
+  monthKey: string;
+  mesesActualizados: string[];
+  mesesCerrados: string[];
+}> {
+  const fn = callableFunction<typeof data, any>("changePanelCode");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Programa (o modifica) un cambio de panel para un mes que aún no existe.
+ * Se aplica automáticamente al crear ese mes con createNextMonth.
+ */
+export async function saveScheduledPanelEvent(data: {
+  scheduledEventId?: string;
+  codigo: string;
+  action: ScheduledEventAction;
+  effectiveDateLocal: string;
+  motivo?: string;
+}): Promise<{ success: boolean; scheduledEventId: string; monthKey: string }> {
+  const fn = callableFunction<typeof data, any>("saveScheduledPanelEvent");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Cancela un evento programado pendiente
+ */
+export async function cancelScheduledPanelEvent(scheduledEventId: string): Promise<{
+  success: boolean;
+  scheduledEventId: string;
+}> {
+  const fn = callableFunction<{ scheduledEventId: string }, any>("cancelScheduledPanelEvent");
+  const result = await fn({ scheduledEventId });
+  return result.data;
+}
+
+/**
+ * Importación masiva de eventos (código, acción, fecha, motivo).
+ * Con dryRun solo valida y devuelve el resultado por fila.
+ */
+export async function importPanelEvents(data: {
+  fileName: string;
+  rows: Array<{ fila: number; codigo: string; accion: string; fecha: string; motivo?: string }>;
+  dryRun?: boolean;
+}): Promise<{
+  status: "preview" | "ok";
+  rows: BulkEventRowResult[];
+  jobId?: string;
+  resultUrl?: string;
+  mesesRecalculados?: string[];
+}> {
+  const fn = callableFunction<typeof data, any>("importPanelEvents");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Reenvía a su cola o descarta una tarea fallida (taskDeadLetters)
+ */
+export async function resolveDeadLetter(data: {
+  deadLetterId: string;
+  decision: "REENVIAR" | "DESCARTAR";
+}): Promise<{ success: boolean; estado: "REENVIADA" | "DESCARTADA" }> {
+  const fn = callableFunction<typeof data, any>("resolveDeadLetter");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Aprueba o rechaza (otro admin) o cancela (el solicitante) una solicitud de
+ * operación destructiva. Al aprobarla se ejecuta la operación
+ */
+export async function resolveApprovalRequest(data: {
+  requestId: string;
+  decision: "APROBAR" | "RECHAZAR" | "CANCELAR";
+  comentario?: string;
+}): Promise<{ success: boolean; estado: ApprovalStatus; resultado?: Record<string, unknown> }> {
+  const fn = callableFunction<typeof data, any>("resolveApprovalRequest");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Consulta el registro de auditoría con filtros (admin y auditor)
+ * nextCursor: pasar como cursor para cargar la página siguiente
+ */
+export async function getAuditLogs(filters: AuditLogFilters): Promise<{
+  entries: AuditLogEntry[];
+  scanned: number;
+  nextCursor: string | null;
+}> {
+  const fn = callableFunction<AuditLogFilters, any>("getAuditLogs");
+  const result = await fn(filters);
+  return result.data;
+}
+
+// ============================================================================
+// USUARIOS (Firebase Auth + users/{uid})
+// ============================================================================
+
+/** Usuario de Firebase Auth con su rol (claims o users/{uid}) */
+export interface UserSummary {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  disabled: boolean;
+  role: UserRole | null;
+  municipioIds: string[];
+  customClaims: Record<string, unknown>;
+  creationTime: string | null;
+  lastSignInTime: string | null;
+  tokensValidAfterTime: string | null; // Sesiones anteriores a esta fecha revocadas
+}
+
+/**
+ * Lista los usuarios de Firebase Auth (solo admin)
+ * nextPageToken: pasar como pageToken para la página siguiente (más de 1000 usuarios)
+ */
+export async function listUsers(pageToken?: string): Promise<{
+  users: UserSummary[];
+  nextPageToken: string | null;
+}> {
+  const fn = callableFunction<{ pageToken?: string }, any>("listUsers");
+  const result = await fn(pageToken ? { pageToken } : {});
+  return result.data;
+}
+
+/**
+ * Invita a un usuario: crea la cuenta con el rol y devuelve el enlace para fijar la contraseña
+ */
+export async function inviteUser(data: {
+  email: string;
+  role: UserRole;
+  municipioIds?: string[];
+}): Promise<{ success: boolean; user: UserSummary; inviteLink: string }> {
+  const fn = callableFunction<typeof data, any>("inviteUser");
+  const result = await fn(data);
+  return result.data;
+}
+
+/**
+ * Deshabilita (revocando sus sesiones) o habilita una cuenta
+ */
+export async function setUserDisabled(uid: string, disabled: boolean): Promise<{ success: boolean; user: UserSummary }> {
+  const fn = callableFunction<{ uid: string; disabled: boolean }, any>("setUserDisabled");
+  const result = await fn({ uid, disabled });
+  return result.data;
+}
+
+/**
+ * Revoca las sesiones de un usuario (tendrá que volver a iniciar sesión)
+ */
+export async function revokeUserSessions(uid: string): Promise<{ success: boolean; user: UserSummary }> {
+  const fn = callableFunction<{ uid: string }, any>("revokeUserSessions");
+  const result = await fn({ uid });
+  return result.data;
+}
@@ -35,7 +35,15 @@ export const callableFunction = <T = any, R = any>(name: string) => {
 };
 
 /**
- * Hook useAuth: expone user con Custom Claims (admin/editor)
+ * Roles (ver functions/src/lib/roles): admin, editor, auditor (solo lectura)
+ * y visor (solo los paneles de sus municipios)
+ */
+export type UserRole = "admin" | "editor" | "auditor" | "visor";
+
+const USER_ROLES: UserRole[] = ["admin", "editor", "auditor", "visor"];
+
+/**
+ * Hook useAuth: expone user con Custom Claims (rol, admin/editor, municipios)
  * Estados: loading → authenticated/unauthenticated
  * CORREGIDO: evita recursión, usa onAuthStateChanged correctamente
  */
@@ -46,6 +54,8 @@ export interface AuthUser {
   token: {
     admin: boolean;
     editor: boolean;
+    role: UserRole | null;
+    municipioIds: string[]; // Solo para el rol visor
   };
 }
 
@@ -65,20 +75,25 @@ export function useAuth(): UseAuthReturn {
         try {
           // Recuperar Custom Claims del token
           const tokenResult = await firebaseUser.getIdTokenResult();
-          let isAdmin = tokenResult.claims.admin === true;
+          const claims = tokenResult.claims;
+          let role: UserRole | null = USER_ROLES.includes(claims.role as UserRole) ? (claims.role as UserRole) :
+            claims.admin === true ? "admin" : claims.editor === true ? "editor" : null;
+          let municipioIds = Array.isArray(claims.municipioIds) ? (claims.municipioIds as string[]) : [];
           
-          // Si NO es admin por Custom Claims, verificar Firestore
-          if (!isAdmin) {
+          // Si NO tiene rol por Custom Claims, verificar Firestore (users/{uid}.role)
+          if (!role) {
             try {
               const userDocRef = doc(db, "users", firebaseUser.uid);
               const userDoc = await getDoc(userDocRef);
+              const storedRole = userDoc.data()?.role;
               
-              if (userDoc.exists() && userDoc.data()?.role === "admin") {
-                isAdmin = true;
+              if (userDoc.exists() && USER_ROLES.includes(storedRole)) {
+                role = storedRole;
+                municipioIds = userDoc.data()?.municipioIds || [];
               }
             } catch (firestoreError) {
               console.error("Error verificando rol en Firestore:", firestoreError);
-              // Continuar sin marcar como admin si hay error
+              // Continuar sin rol si hay error
             }
           }
           
@@ -87,8 +102,10 @@ export function useAuth(): UseAuthReturn {
             email: firebaseUser.email,
             displayName: firebaseUser.displayName,
             token: {
-              admin: isAdmin,
-              editor: tokenResult.claims.editor === true,
+              admin: role === "admin",
+              editor: role === "editor",
+              role,
+              municipioIds,
             },
           });
         } catch (error) {